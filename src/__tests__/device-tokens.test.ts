@@ -0,0 +1,262 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { Readable } from 'node:stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { authorize, principalHasScope, type AuthPrincipal } from '../auth';
+import {
+  DeviceTokenStore,
+  normalizeDeviceScopes,
+  normalizePairingScopes,
+  requiredScopeForRequest,
+  requiredScopeForTalkChanges,
+  scopesAllow,
+} from '../device-tokens';
+import { handleDeviceRoutes } from '../device-handler';
+import { handleTalks } from '../talks';
+import { encodeTalkBundle } from '../talk-bundle';
+import { TalkStore } from '../talk-store';
+import type { HandlerContext, Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+function request(token?: string, remoteAddress = '100.64.0.7'): IncomingMessage {
+  return {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+    socket: { remoteAddress },
+  } as unknown as IncomingMessage;
+}
+
+describe('DeviceTokenStore', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'device-tokens-test-'));
+  });
+
+  afterEach(async () => {
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('stores only a hash and resolves the token until it is revoked', async () => {
+    const store = new DeviceTokenStore(tmpDir, mockLogger);
+    const created = store.create('  Jo\'s phone ', ['talks:read', 'voice']);
+    if (!created.ok) throw new Error(created.error);
+    expect(created.device.name).toBe('Jo\'s phone');
+
+    const persisted = await fsp.readFile(path.join(tmpDir, 'devices.json'), 'utf-8');
+    expect(persisted).not.toContain(created.token);
+
+    const reloaded = new DeviceTokenStore(tmpDir, mockLogger);
+    expect(reloaded.resolve(created.token)?.id).toBe(created.device.id);
+    expect(reloaded.list()[0].lastUsedAt).toEqual(expect.any(Number));
+    expect(reloaded.resolve(`${created.token}x`)).toBeUndefined();
+
+    expect(reloaded.revoke(created.device.id)).toBe(true);
+    expect(reloaded.resolve(created.token)).toBeUndefined();
+    expect(new DeviceTokenStore(tmpDir, mockLogger).list()).toEqual([]);
+  });
+
+  it('authorizes device tokens alongside the gateway token, limited to their scopes', () => {
+    const store = new DeviceTokenStore(tmpDir, mockLogger);
+    const created = store.create('Tablet', ['talks:read']);
+    if (!created.ok) throw new Error(created.error);
+    const cfg = { gateway: { auth: { token: 'master-token' } } };
+
+    expect(authorize(request('master-token'), cfg, store)).toEqual({ kind: 'gateway' });
+    expect(authorize(request('wrong'), cfg, store)).toBeNull();
+    const principal = authorize(request(created.token), cfg, store);
+    expect(principal).toMatchObject({ kind: 'device', device: { name: 'Tablet' } });
+    expect(principalHasScope(principal!, requiredScopeForRequest('GET', '/api/talks/abc/messages'))).toBe(true);
+    expect(principalHasScope(principal!, requiredScopeForRequest('POST', '/api/talks/abc/chat'))).toBe(false);
+
+    // Device tokens also work when no gateway token is configured.
+    expect(authorize(request(created.token), {}, store)?.kind).toBe('device');
+    expect(authorize(request(), {}, store)).toBeNull();
+    expect(authorize(request(undefined, '127.0.0.1'), {}, store)).toEqual({ kind: 'local' });
+  });
+});
+
+describe('device scopes', () => {
+  it('maps routes to scopes', () => {
+    expect(requiredScopeForRequest('GET', '/api/sync/stream')).toBe('talks:read');
+    expect(requiredScopeForRequest('PATCH', '/api/talks/abc')).toBe('chat');
+    expect(requiredScopeForRequest('GET', '/api/talks/abc/tools')).toBe('talks:read');
+    expect(requiredScopeForRequest('PATCH', '/api/talks/abc/tools')).toBe('admin');
+    expect(requiredScopeForRequest('GET', '/api/talks/abc/tool-approvals')).toBe('talks:read');
+    expect(requiredScopeForRequest('POST', '/api/talks/abc/tool-approvals/call_1')).toBe('chat');
+    expect(requiredScopeForRequest('POST', '/api/files/upload')).toBe('chat');
+    expect(requiredScopeForRequest('GET', '/api/voice/stream')).toBe('voice');
+    expect(requiredScopeForRequest('PATCH', '/api/tools')).toBe('admin');
+    expect(requiredScopeForRequest('GET', '/api/devices')).toBe('admin');
+
+    expect(scopesAllow(['chat'], 'talks:read')).toBe(true);
+    expect(scopesAllow(['voice'], 'chat')).toBe(false);
+    expect(scopesAllow(['admin'], 'voice')).toBe(true);
+  });
+
+  it('needs admin for talk bodies that set tool policy', () => {
+    expect(requiredScopeForTalkChanges({ topicTitle: 'Renamed' })).toBe('chat');
+    const policyFields = [
+      'toolMode', 'executionMode', 'filesystemAccess', 'networkAccess', 'toolsAllow', 'toolsDeny', 'httpAllowedHosts',
+    ];
+    for (const field of policyFields) {
+      expect(requiredScopeForTalkChanges({ [field]: 'x' })).toBe('admin');
+    }
+  });
+
+  it('validates requested scopes', () => {
+    expect(normalizeDeviceScopes(undefined)).toEqual({ ok: true, scopes: ['talks:read', 'chat', 'voice'] });
+    expect(normalizeDeviceScopes(['chat', 'chat'])).toEqual({ ok: true, scopes: ['chat'] });
+    expect(normalizeDeviceScopes(['root'])).toEqual({ ok: false, error: expect.stringContaining('Unknown scope "root"') });
+    expect(normalizeDeviceScopes([])).toMatchObject({ ok: false });
+  });
+
+  it('grants admin only through /api/devices, never at pairing', async () => {
+    expect(normalizePairingScopes(undefined)).toEqual({ ok: true, scopes: ['talks:read', 'chat', 'voice'] });
+    expect(normalizePairingScopes(['chat'])).toEqual({ ok: true, scopes: ['chat'] });
+    expect(normalizePairingScopes(['chat', 'admin'])).toEqual({
+      ok: false,
+      error: expect.stringContaining('Pairing cannot grant: admin'),
+    });
+
+    const tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'device-scopes-test-'));
+    try {
+      const devices = new DeviceTokenStore(tmpDir, mockLogger);
+      const paired = devices.create('Phone', ['chat']);
+      if (!paired.ok) throw new Error(paired.error);
+      const patch = async (id: string, body: unknown) => {
+        const req = Object.assign(Readable.from([Buffer.from(JSON.stringify(body))]), { method: 'PATCH', headers: {} });
+        let status = 0;
+        let payload = '';
+        const res = {
+          set statusCode(code: number) { status = code; },
+          setHeader: () => undefined,
+          end: (chunk: string) => { payload = chunk; },
+        };
+        await handleDeviceRoutes({
+          req: req as unknown as IncomingMessage,
+          res: res as unknown as ServerResponse,
+          url: new URL(`http://localhost/api/devices/${id}`),
+          cfg: {},
+          pluginCfg: {},
+          logger: mockLogger,
+          principal: { kind: 'gateway' },
+        } as HandlerContext, devices);
+        return { status, body: JSON.parse(payload) };
+      };
+
+      expect(requiredScopeForRequest('PATCH', `/api/devices/${paired.device.id}`)).toBe('admin');
+      expect(await patch(paired.device.id, { scopes: ['root'] })).toMatchObject({ status: 400 });
+      expect(await patch('missing', { scopes: ['admin'] })).toMatchObject({ status: 404 });
+      const raised = await patch(paired.device.id, { scopes: ['chat', 'admin'] });
+      expect(raised).toEqual({ status: 200, body: { device: expect.objectContaining({ scopes: ['chat', 'admin'] }) } });
+      expect(new DeviceTokenStore(tmpDir, mockLogger).resolve(paired.token)?.scopes).toEqual(['chat', 'admin']);
+    } finally {
+      await fsp.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('talk policy writes', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  const chatDevice: AuthPrincipal = {
+    kind: 'device',
+    device: { id: 'dev-1', name: 'Phone', scopes: ['talks:read', 'chat'], createdAt: 0 },
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'device-scope-test-'));
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  async function send(
+    method: string,
+    pathname: string,
+    body: Record<string, unknown> | Buffer,
+    principal: AuthPrincipal,
+    headers: Record<string, string> = {},
+  ): Promise<{ status: number; body: any }> {
+    const raw = Buffer.isBuffer(body) ? body : Buffer.from(JSON.stringify(body));
+    const req = Object.assign(Readable.from([raw]), { method, headers });
+    let status = 0;
+    let payload = '';
+    const res = {
+      set statusCode(code: number) { status = code; },
+      setHeader: () => undefined,
+      end: (chunk: string) => { payload = chunk; },
+    };
+    await handleTalks({
+      req: req as unknown as IncomingMessage,
+      res: res as unknown as ServerResponse,
+      url: new URL(`http://localhost${pathname}`),
+      cfg: {},
+      pluginCfg: {},
+      logger: mockLogger,
+      principal,
+    } as HandlerContext, store);
+    return { status, body: JSON.parse(payload) };
+  }
+
+  it('refuses policy changes from chat-scoped devices', async () => {
+    const talk = store.createTalk('test-model');
+    const ifMatch = { 'if-match': String(talk.talkVersion) };
+
+    const widen = await send('PATCH', `/api/talks/${talk.id}`, { filesystemAccess: 'full_host_access' }, chatDevice, ifMatch);
+    expect(widen.status).toBe(403);
+    expect(widen.body.error.message).toContain('"admin" scope');
+    const alias = await send('PATCH', `/api/talks/${talk.id}`, { toolPolicy: { mode: 'auto' } }, chatDevice, ifMatch);
+    expect(alias.status).toBe(403);
+    const create = await send('POST', '/api/talks', { networkAccess: 'full_outbound' }, chatDevice);
+    expect(create.status).toBe(403);
+    expect(store.getTalk(talk.id)?.filesystemAccess).toBe(talk.filesystemAccess);
+
+    const rename = await send('PATCH', `/api/talks/${talk.id}`, { topicTitle: 'Renamed' }, chatDevice, ifMatch);
+    expect(rename.status).toBe(200);
+    const admin = await send(
+      'PATCH',
+      `/api/talks/${talk.id}`,
+      { filesystemAccess: 'full_host_access' },
+      { kind: 'gateway' },
+      { 'if-match': String(store.getTalk(talk.id)!.talkVersion) },
+    );
+    expect(admin.status).toBe(200);
+    expect(store.getTalk(talk.id)?.filesystemAccess).toBe('full_host_access');
+  });
+
+  it('scopes talk imports like policy writes and pauses jobs for non-admin devices', async () => {
+    const source = new TalkStore(path.join(tmpDir, 'source'), mockLogger);
+    await source.init();
+    const plain = source.createTalk('test-model');
+    source.addJob(plain.id, '0 9 * * *', 'Daily check');
+    const widened = source.createTalk('test-model');
+    source.updateTalk(widened.id, { executionMode: 'full_control', httpAllowedHosts: ['example.com'] });
+    const bundle = async (talkId: string) => encodeTalkBundle((await source.exportTalk(talkId))!);
+
+    const refused = await send('POST', '/api/talks/import', await bundle(widened.id), chatDevice);
+    expect(refused.status).toBe(403);
+    expect(refused.body.error.message).toContain('"admin" scope');
+    expect(store.getTalk(widened.id)).toBeNull();
+
+    const imported = await send('POST', '/api/talks/import', await bundle(plain.id), chatDevice);
+    expect(imported.status).toBe(201);
+    expect(imported.body.remapped).toBe(false);
+    expect(imported.body.warnings).toEqual(['Jobs were paused because only admin devices can import active jobs.']);
+    expect(store.getTalk(plain.id)?.jobs.map((job) => job.active)).toEqual([false]);
+
+    const asAdmin = await send('POST', '/api/talks/import', await bundle(widened.id), { kind: 'gateway' });
+    expect(asAdmin.status).toBe(201);
+    expect(store.getTalk(widened.id)?.executionMode).toBe('full_control');
+  });
+});
@@ -0,0 +1,262 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  interpolateTemplate,
+  normalizeDynamicToolExecution,
+  shellQuote,
+} from '../dynamic-tools';
+import { ToolRegistry } from '../tool-registry';
+import { ToolExecutor } from '../tool-executor';
+import { TalkStore } from '../talk-store';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+describe('normalizeDynamicToolExecution', () => {
+  it('normalizes a shell spec with snake_case aliases', () => {
+    const parsed = normalizeDynamicToolExecution({
+      kind: 'Shell',
+      command: '  echo {{name}}  ',
+      working_dir: '/tmp',
+      timeout: 500,
+    });
+    expect(parsed).toEqual({
+      ok: true,
+      execution: { kind: 'shell', command: 'echo {{name}}', workingDir: '/tmp', timeout: 120 },
+    });
+  });
+
+  it('normalizes an http spec and defaults the method to GET', () => {
+    const parsed = normalizeDynamicToolExecution({
+      kind: 'http',
+      url: 'https://api.example.com/items/{{id}}',
+      headers: { Accept: 'application/json' },
+    });
+    expect(parsed).toEqual({
+      ok: true,
+      execution: {
+        kind: 'http',
+        method: 'GET',
+        url: 'https://api.example.com/items/{{id}}',
+        headers: { Accept: 'application/json' },
+      },
+    });
+  });
+
+  it('rejects invalid specs', () => {
+    expect(normalizeDynamicToolExecution(null).ok).toBe(false);
+    expect(normalizeDynamicToolExecution({ kind: 'python', command: 'x' }).ok).toBe(false);
+    expect(normalizeDynamicToolExecution({ kind: 'shell' }).ok).toBe(false);
+    expect(normalizeDynamicToolExecution({ kind: 'http', url: 'ftp://example.com' }).ok).toBe(false);
+    expect(normalizeDynamicToolExecution({ kind: 'http', url: 'https://x.test', method: 'TRACE' }).ok).toBe(false);
+    expect(normalizeDynamicToolExecution({ kind: 'http', url: 'https://x.test', headers: { a: 1 } }).ok).toBe(false);
+  });
+
+  it('rejects shell placeholders inside quotes, backticks or heredocs', () => {
+    for (const command of [
+      'echo "{{q}}"',
+      "echo '{{q}}'",
+      'echo `printf %s {{q}}`',
+      'echo "$(printf %s {{q}})"',
+      'cat <<EOF\n{{q}}\nEOF',
+    ]) {
+      const parsed = normalizeDynamicToolExecution({ kind: 'shell', command });
+      expect(parsed).toEqual({ ok: false, error: expect.stringContaining('{{q}} inside quotes') });
+    }
+    for (const command of ['echo {{q}} "done"', 'grep -c \\"x {{q}}', 'cat <<< {{q}}', 'echo "a" {{q}} \'b\'']) {
+      expect(normalizeDynamicToolExecution({ kind: 'shell', command }).ok).toBe(true);
+    }
+  });
+});
+
+describe('interpolateTemplate', () => {
+  it('replaces placeholders and blanks missing arguments', () => {
+    expect(interpolateTemplate('{{ a }}-{{b}}-{{missing}}', { a: 'x', b: 2 })).toBe('x-2-');
+  });
+
+  it('JSON-encodes object arguments', () => {
+    expect(interpolateTemplate('{{obj}}', { obj: { k: 1 } })).toBe('{"k":1}');
+  });
+
+  it('shell-quotes values so they cannot break out of the command', () => {
+    const command = interpolateTemplate('echo {{text}}', { text: "it's; rm -rf /" }, shellQuote);
+    expect(command).toBe("echo 'it'\\''s; rm -rf /'");
+  });
+
+  it('URI-encodes values for URL templates', () => {
+    expect(interpolateTemplate('https://x.test/?q={{q}}', { q: 'a b&c' }, encodeURIComponent))
+      .toBe('https://x.test/?q=a%20b%26c');
+  });
+});
+
+describe('dynamic tool execution', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  let registry: ToolRegistry;
+  let executor: ToolExecutor;
+  const savedEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'dynamic-tools-test-'));
+    process.env.CLAWTALK_SANDBOX_BWRAP = path.join(tmpDir, 'missing-bwrap');
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+    registry = new ToolRegistry(tmpDir, mockLogger);
+    executor = new ToolExecutor(registry, store, mockLogger);
+  });
+
+  afterEach(async () => {
+    process.env = { ...savedEnv };
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('registers via manage_tools and runs the shell template', async () => {
+    const registered = await executor.execute('manage_tools', JSON.stringify({
+      action: 'register',
+      name: 'greet',
+      description: 'Say hello',
+      parameters: { type: 'object', properties: { name: { type: 'string' } } },
+      execution: { kind: 'shell', command: 'echo hello {{name}}' },
+    }));
+    expect(registered.success).toBe(true);
+
+    const result = await executor.execute('greet', JSON.stringify({ name: "O'Brien; echo pwned" }));
+    expect(result.success).toBe(true);
+    expect(result.content.trim()).toBe("hello O'Brien; echo pwned");
+  });
+
+  it('persists the execution spec without exposing it in tool schemas', () => {
+    registry.registerTool('lookup', 'Lookup', { type: 'object', properties: {} }, {
+      kind: 'http',
+      method: 'GET',
+      url: 'https://example.com/{{id}}',
+    });
+    const reloaded = new ToolRegistry(tmpDir, mockLogger);
+    expect(reloaded.getToolExecution('lookup')).toEqual({
+      kind: 'http',
+      method: 'GET',
+      url: 'https://example.com/{{id}}',
+    });
+    expect(reloaded.getTool('lookup')).not.toHaveProperty('execution');
+  });
+
+  it('re-validates execution specs loaded from tools.json', async () => {
+    const tool = (command: string) => ({
+      type: 'function',
+      function: { name: 'x', description: 'x', parameters: { type: 'object', properties: {} } },
+      execution: { kind: 'shell', command },
+    });
+    await fsp.writeFile(path.join(tmpDir, 'tools.json'), JSON.stringify({
+      safe: tool('echo {{q}}'),
+      unsafe: tool('echo "{{q}}"'),
+    }));
+    const reloaded = new ToolRegistry(tmpDir, mockLogger);
+    expect(reloaded.getToolExecution('safe')).toEqual({ kind: 'shell', command: 'echo {{q}}' });
+    expect(reloaded.getTool('unsafe')).toBeUndefined();
+    expect(reloaded.getToolExecution('unsafe')).toBeUndefined();
+  });
+
+  it('reports tools without an execution spec', async () => {
+    registry.registerTool('legacy', 'Legacy tool', { type: 'object', properties: {} });
+    const result = await executor.execute('legacy', '{}');
+    expect(result.success).toBe(false);
+    expect(result.content).toContain('has no execution spec');
+  });
+
+  /** Stand-in runtime: log the bwrap options, skip them and run the wrapped command. */
+  async function installFakeBwrap(): Promise<string> {
+    const fakeBwrap = path.join(tmpDir, 'bwrap');
+    const argsLog = path.join(tmpDir, 'bwrap-args');
+    await fsp.writeFile(
+      fakeBwrap,
+      `#!/bin/bash\nprintf '%s\\n' "$@" > ${argsLog}\nwhile [ "$1" != "--" ]; do shift; done\nshift\nexec "$@"\n`,
+      { mode: 0o755 },
+    );
+    process.env.CLAWTALK_SANDBOX_BWRAP = fakeBwrap;
+    return argsLog;
+  }
+
+  it('refuses shell tools and blocks http tools when the talk network access is restricted', async () => {
+    registry.registerTool('greet', 'Say hello', { type: 'object', properties: {} }, {
+      kind: 'shell',
+      command: 'echo hi',
+    });
+    registry.registerTool('lookup', 'Lookup', { type: 'object', properties: {} }, {
+      kind: 'http',
+      method: 'GET',
+      url: 'https://example.com/',
+    });
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { networkAccess: 'restricted' });
+
+    const shell = await executor.execute('greet', '{}', { talkId: talk.id });
+    expect(shell.success).toBe(false);
+    expect(shell.content).toContain('Network Access: Restricted');
+    expect(shell.content).toContain('no sandbox runtime');
+
+    const http = await executor.execute('lookup', '{}', { talkId: talk.id });
+    expect(http.success).toBe(false);
+    expect(http.content).toContain('Network Access: Restricted');
+  });
+
+  it('confines shell tools to the workspace in workspace_sandbox talks', async () => {
+    const workspace = path.join(tmpDir, 'workspace');
+    process.env.CLAWTALK_AGENT_WORKSPACE_DIR = workspace;
+    registry.registerTool('where', 'Print cwd', { type: 'object', properties: {} }, {
+      kind: 'shell',
+      command: 'pwd',
+    });
+    registry.registerTool('escape', 'Escape the sandbox', { type: 'object', properties: {} }, {
+      kind: 'shell',
+      command: 'pwd',
+      workingDir: '../..',
+    });
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { filesystemAccess: 'workspace_sandbox' });
+
+    // Without a sandbox runtime the tool is refused rather than run unjailed.
+    const refused = await executor.execute('where', '{}', { talkId: talk.id });
+    expect(refused.success).toBe(false);
+    expect(refused.content).toContain('no sandbox runtime');
+
+    await installFakeBwrap();
+
+    const where = await executor.execute('where', '{}', { talkId: talk.id });
+    expect(where.success).toBe(true);
+    expect(await fsp.realpath(where.content.trim())).toBe(await fsp.realpath(workspace));
+
+    const escape = await executor.execute('escape', '{}', { talkId: talk.id });
+    expect(escape.success).toBe(false);
+    expect(escape.content).toContain('Workspace Sandbox');
+  });
+
+  it('runs shell tools jailed, without the host home or gateway secrets', async () => {
+    const argsLog = await installFakeBwrap();
+    const home = path.join(tmpDir, 'home');
+    await fsp.mkdir(home);
+    process.env.HOME = home;
+    process.env.OPENAI_API_KEY = 'sk-test-secret';
+    process.env.CLAWTALK_AGENT_WORKSPACE_DIR = path.join(tmpDir, 'workspace');
+    registry.registerTool('env_probe', 'Print the environment', { type: 'object', properties: {} }, {
+      kind: 'shell',
+      command: 'echo "home=$HOME key=${OPENAI_API_KEY:-none}"',
+    });
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { filesystemAccess: 'workspace_sandbox', networkAccess: 'restricted' });
+
+    const result = await executor.execute('env_probe', '{}', { talkId: talk.id });
+    expect(result.success).toBe(true);
+    expect(result.content.trim()).toBe('home=/workspace key=none');
+
+    const bwrapArgs = (await fsp.readFile(argsLog, 'utf-8')).split('\n');
+    expect(bwrapArgs).toContain('--unshare-net');
+    expect(bwrapArgs).not.toContain(home);
+    expect(bwrapArgs.join(' ')).toContain(`--bind ${path.join(tmpDir, 'workspace')} /workspace`);
+  });
+});
@@ -0,0 +1,65 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  buildGithubIssueQuery,
+  githubAuthStatus,
+  listGithubAuthProfiles,
+  parseGithubRepo,
+  setGithubActiveProfile,
+  upsertGithubAuthConfig,
+} from '../github';
+
+describe('parseGithubRepo', () => {
+  test('accepts owner/name and repository URLs', () => {
+    expect(parseGithubRepo(' acme/widgets ')).toBe('acme/widgets');
+    expect(parseGithubRepo('https://github.com/acme/widgets/pull/12')).toBe('acme/widgets');
+    expect(parseGithubRepo('https://github.com/acme/widgets.git')).toBe('acme/widgets');
+    expect(() => parseGithubRepo('widgets')).toThrow('owner/name');
+  });
+
+  test('adds repo/type/state qualifiers to search queries', () => {
+    expect(buildGithubIssueQuery({ query: 'flaky test', repo: 'acme/widgets', type: 'pr', state: 'open' }))
+      .toBe('flaky test repo:acme/widgets is:pr is:open');
+    expect(buildGithubIssueQuery({ query: '', repo: 'acme/widgets' })).toBe('repo:acme/widgets');
+  });
+});
+
+describe('GitHub token profiles', () => {
+  let tmpDir: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'github-token-test-'));
+    process.env.GITHUB_TOKEN_PATH = path.join(tmpDir, 'github_token.json');
+    delete process.env.GITHUB_TOKEN;
+    delete process.env.GITHUB_API_URL;
+  });
+
+  afterEach(async () => {
+    process.env = { ...savedEnv };
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('stores tokens per profile and switches the active profile', async () => {
+    expect((await githubAuthStatus(undefined)).hasToken).toBe(false);
+
+    await upsertGithubAuthConfig({ profile: 'Work', token: 'ghp_work', apiBaseUrl: 'https://ghe.example.com/api/v3/' });
+    const status = await githubAuthStatus(undefined);
+    expect(status).toMatchObject({ profile: 'work', activeProfile: 'work', hasToken: true });
+    expect(status.apiBaseUrl).toBe('https://ghe.example.com/api/v3');
+
+    await upsertGithubAuthConfig({ profile: 'personal', token: 'ghp_personal' });
+    await setGithubActiveProfile('personal');
+    const listed = await listGithubAuthProfiles();
+    expect(listed.activeProfile).toBe('personal');
+    expect(listed.profiles.map((profile) => profile.name)).toEqual(['personal', 'work']);
+    expect(await fsp.readFile(process.env.GITHUB_TOKEN_PATH!, 'utf-8')).toContain('ghp_work');
+  });
+
+  test('GITHUB_TOKEN only backs the default profile', async () => {
+    process.env.GITHUB_TOKEN = 'ghp_env';
+    expect((await githubAuthStatus(undefined)).hasToken).toBe(true);
+    expect((await githubAuthStatus('other')).hasToken).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { computeFreeSlots, toCalendarEventTime } from '../google-calendar';
+import { GOOGLE_CALENDAR_REQUIRED_SCOPES, GOOGLE_DOCS_REQUIRED_SCOPES, resolveGoogleOAuthScopes } from '../google-docs';
+
+describe('google calendar helpers', () => {
+  test('builds all-day and timed event times', () => {
+    expect(toCalendarEventTime('2026-03-02', 'start')).toEqual({ date: '2026-03-02' });
+    expect(toCalendarEventTime('2026-03-02T09:00:00', 'start', 'Europe/Berlin')).toEqual({
+      dateTime: '2026-03-02T09:00:00',
+      timeZone: 'Europe/Berlin',
+    });
+    expect(() => toCalendarEventTime('next tuesday', 'start')).toThrow('start must be an ISO 8601');
+  });
+
+  test('computes free slots from overlapping busy intervals across calendars', () => {
+    const free = computeFreeSlots(
+      [
+        { start: '2026-03-02T10:00:00Z', end: '2026-03-02T11:00:00Z' },
+        { start: '2026-03-02T10:30:00Z', end: '2026-03-02T12:00:00Z' },
+        { start: '2026-03-02T12:10:00Z', end: '2026-03-02T13:00:00Z' },
+      ],
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T17:00:00.000Z',
+      30,
+    );
+    expect(free).toEqual([
+      { start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T10:00:00.000Z' },
+      { start: '2026-03-02T13:00:00.000Z', end: '2026-03-02T17:00:00.000Z' },
+    ]);
+  });
+
+  test('requests calendar scopes only when the feature is asked for', () => {
+    expect(resolveGoogleOAuthScopes()).toEqual(GOOGLE_DOCS_REQUIRED_SCOPES);
+    expect(resolveGoogleOAuthScopes(['calendar'])).toEqual([
+      ...GOOGLE_DOCS_REQUIRED_SCOPES,
+      ...GOOGLE_CALENDAR_REQUIRED_SCOPES,
+    ]);
+  });
+});
@@ -1,4 +1,9 @@
-import { extractGoogleDocsDocumentIdFromUrl, extractGoogleDocsTabIdFromUrl, hasGoogleDocsDocumentUrl } from '../google-docs-url.js';
+import {
+  extractGoogleDocsDocumentIdFromUrl,
+  extractGoogleDocsTabIdFromUrl,
+  extractGoogleSheetsSpreadsheetIdFromUrl,
+  hasGoogleDocsDocumentUrl,
+} from '../google-docs-url.js';
 
 describe('google docs URL helpers', () => {
   test('extracts document id from canonical docs URL', () => {
@@ -19,6 +24,19 @@ describe('google docs URL helpers', () => {
   });
 });
 
+describe('extractGoogleSheetsSpreadsheetIdFromUrl', () => {
+  test('extracts spreadsheet id from sheets URLs', () => {
+    const url = 'https://docs.google.com/spreadsheets/d/1BxiMVs0XRA5nFMdKvBd-BZjgmUUqptlbs74OgvE2upms/edit#gid=0';
+    expect(extractGoogleSheetsSpreadsheetIdFromUrl(url)).toBe('1BxiMVs0XRA5nFMdKvBd-BZjgmUUqptlbs74OgvE2upms');
+    expect(extractGoogleSheetsSpreadsheetIdFromUrl('https://docs.google.com/spreadsheets/u/1/d/abc_123/edit')).toBe('abc_123');
+  });
+
+  test('does not match docs or bare ids', () => {
+    expect(extractGoogleSheetsSpreadsheetIdFromUrl('https://docs.google.com/document/d/abc/edit')).toBeUndefined();
+    expect(extractGoogleSheetsSpreadsheetIdFromUrl('abc_123')).toBeUndefined();
+  });
+});
+
 describe('extractGoogleDocsTabIdFromUrl', () => {
   test('extracts tab param from URL with ?tab=t.xxx', () => {
     const url = 'https://docs.google.com/document/d/1abc123/edit?tab=t.0';
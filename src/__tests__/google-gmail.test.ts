@@ -0,0 +1,26 @@
+import { buildRawEmail } from '../google-gmail';
+
+describe('buildRawEmail', () => {
+  test('builds a plain-text message with encoded subject and body', () => {
+    const raw = buildRawEmail({
+      to: ['a@example.com', ' b@example.com '],
+      cc: ['c@example.com'],
+      subject: 'Grüße',
+      body: 'Hallo!',
+      inReplyTo: '<m1@mail.example>',
+      references: '<m0@mail.example> <m1@mail.example>',
+    });
+    const [head, body] = raw.split('\r\n\r\n');
+    expect(head).toContain('To: a@example.com, b@example.com');
+    expect(head).toContain('Cc: c@example.com');
+    expect(head).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+    expect(head).toContain('In-Reply-To: <m1@mail.example>');
+    expect(Buffer.from(body, 'base64').toString('utf-8')).toBe('Hallo!');
+  });
+
+  test('strips line breaks from header values and requires a recipient', () => {
+    const raw = buildRawEmail({ to: ['a@example.com\r\nBcc: evil@example.com'], subject: 'Hi\nBcc: x@example.com', body: '' });
+    expect(raw.split('\r\n').filter((line) => line.startsWith('Bcc:'))).toEqual([]);
+    expect(() => buildRawEmail({ to: [' '], subject: 'Hi', body: 'x' })).toThrow('recipient');
+  });
+});
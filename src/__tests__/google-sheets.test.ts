@@ -0,0 +1,174 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { googleSheetsReadRange, googleSheetsWriteRange, normalizeSheetRows } from '../google-docs';
+import { TalkStore } from '../talk-store';
+import { ToolExecutor } from '../tool-executor';
+import { ToolRegistry } from '../tool-registry';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+const SHEET_ID = '1BxiMVs0XRA5nFMdKvBd-BZjgmUUqptlbs74OgvE2upms';
+
+function jsonResponse(body: unknown) {
+  return { ok: true, json: async () => body };
+}
+
+describe('normalizeSheetRows', () => {
+  test('keeps scalar cells and JSON-encodes structured ones', () => {
+    expect(normalizeSheetRows([['a', 1, true, null, undefined], [{ x: 1 }, [2, 3]]])).toEqual([
+      ['a', 1, true, null, null],
+      ['{"x":1}', '[2,3]'],
+    ]);
+  });
+
+  test('requires a non-empty array of row arrays', () => {
+    expect(() => normalizeSheetRows([])).toThrow('non-empty array of rows');
+    expect(() => normalizeSheetRows('a,b')).toThrow('non-empty array of rows');
+    expect(() => normalizeSheetRows([['a'], 'b'])).toThrow('values[1] must be an array of cells.');
+  });
+});
+
+describe('google sheets API calls', () => {
+  let tmpDir: string;
+  let fetchMock: jest.SpyInstance;
+  const savedEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'google-sheets-test-'));
+    const tokenPath = path.join(tmpDir, 'google-docs-token.json');
+    await fsp.writeFile(tokenPath, JSON.stringify({
+      access_token: 'test-access-token',
+      expiry_date: Date.now() + 3_600_000,
+    }));
+    process.env.GOOGLE_DOCS_TOKEN_PATH = tokenPath;
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    process.env = { ...savedEnv };
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const requested = (index = 0) => {
+    const [url, init] = fetchMock.mock.calls[index] as [string, RequestInit];
+    return { url: new URL(url), init, headers: new Headers(init.headers) };
+  };
+
+  test('reads a range from a spreadsheet URL', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ range: "'Q1 Sales'!A1:B2", values: [['Name', 'Total'], ['Ada', '42']] }) as any);
+
+    const read = await googleSheetsReadRange({
+      spreadsheetId: `https://docs.google.com/spreadsheets/d/${SHEET_ID}/edit#gid=0`,
+      range: " 'Q1 Sales'!A1:B2 ",
+      valueRenderOption: 'FORMULA',
+    });
+
+    expect(read).toEqual({
+      spreadsheetId: SHEET_ID,
+      range: "'Q1 Sales'!A1:B2",
+      values: [['Name', 'Total'], ['Ada', '42']],
+      url: `https://docs.google.com/spreadsheets/d/${SHEET_ID}/edit`,
+    });
+    const { url, init, headers } = requested();
+    expect(init.method).toBe('GET');
+    expect(url.pathname).toBe(`/v4/spreadsheets/${SHEET_ID}/values/${encodeURIComponent("'Q1 Sales'!A1:B2")}`);
+    expect(url.searchParams.get('valueRenderOption')).toBe('FORMULA');
+    expect(headers.get('Authorization')).toBe('Bearer test-access-token');
+  });
+
+  test('writes rows to a range by bare id', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ updatedRange: 'Sheet1!A1:B2', updatedRows: 2, updatedCells: 4 }) as any);
+
+    const written = await googleSheetsWriteRange({
+      spreadsheetId: SHEET_ID,
+      range: 'Sheet1!A1',
+      values: [['Name', 'Tags'], ['Ada', ['math', 'engines']]],
+    });
+
+    expect(written).toMatchObject({ spreadsheetId: SHEET_ID, updatedRange: 'Sheet1!A1:B2', updatedRows: 2, updatedCells: 4 });
+    const { url, init } = requested();
+    expect(init.method).toBe('PUT');
+    expect(url.pathname).toBe(`/v4/spreadsheets/${SHEET_ID}/values/${encodeURIComponent('Sheet1!A1')}`);
+    expect(url.searchParams.get('valueInputOption')).toBe('USER_ENTERED');
+    expect(JSON.parse(init.body as string)).toEqual({
+      range: 'Sheet1!A1',
+      majorDimension: 'ROWS',
+      values: [['Name', 'Tags'], ['Ada', '["math","engines"]']],
+    });
+  });
+
+  test('rejects a missing spreadsheet id or range before calling the API', async () => {
+    await expect(googleSheetsReadRange({ spreadsheetId: ' ', range: 'A1' })).rejects.toThrow('Spreadsheet ID is required.');
+    await expect(googleSheetsWriteRange({ spreadsheetId: SHEET_ID, range: ' ', values: [['a']] })).rejects.toThrow('range is required');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  describe('through the tool executor', () => {
+    let executor: ToolExecutor;
+
+    beforeEach(async () => {
+      const store = new TalkStore(tmpDir, mockLogger);
+      await store.init();
+      executor = new ToolExecutor(new ToolRegistry(tmpDir, mockLogger), store, mockLogger);
+    });
+
+    test('validates required arguments', async () => {
+      expect(await executor.execute('google_sheets_read_range', JSON.stringify({ spreadsheet_id: SHEET_ID }))).toMatchObject({
+        success: false,
+        content: 'Missing required fields: spreadsheet_id, range',
+      });
+      expect(await executor.execute('google_sheets_write_range', JSON.stringify({ spreadsheet_id: SHEET_ID, range: 'A1' }))).toMatchObject({
+        success: false,
+        content: 'Missing required fields: spreadsheet_id, range, values',
+      });
+      const badRows = await executor.execute('google_sheets_write_range', JSON.stringify({
+        spreadsheet_id: SHEET_ID,
+        range: 'A1',
+        values: ['not a row'],
+      }));
+      expect(badRows.success).toBe(false);
+      expect(badRows.content).toContain('google_sheets_write_range failed: values[0] must be an array of cells.');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    test('reads a range, capped at max_rows', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ range: 'Sheet1!A1:A3', values: [['a'], ['b'], ['c']] }) as any);
+
+      const result = await executor.execute('google_sheets_read_range', JSON.stringify({
+        spreadsheet_id: SHEET_ID,
+        range: 'Sheet1!A1:A3',
+        max_rows: 2,
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.content).toContain('Rows: 3 (showing first 2)');
+      expect(result.content).toContain('["a"]\n["b"]');
+      expect(result.content).not.toContain('["c"]');
+    });
+
+    test('writes values passed as a JSON string', async () => {
+      fetchMock.mockResolvedValueOnce(jsonResponse({ updatedRange: 'Sheet1!A1:B1', updatedRows: 1, updatedCells: 2 }) as any);
+
+      const result = await executor.execute('google_sheets_write_range', JSON.stringify({
+        spreadsheet_id: SHEET_ID,
+        range: 'Sheet1!A1',
+        values: '[["=SUM(B2:B9)", 3]]',
+        value_input_option: 'RAW',
+      }));
+
+      expect(result.success).toBe(true);
+      expect(result.content).toContain('Updated cells: 2');
+      const { url, init } = requested();
+      expect(url.searchParams.get('valueInputOption')).toBe('RAW');
+      expect(JSON.parse(init.body as string).values).toEqual([['=SUM(B2:B9)', 3]]);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpApiClientStore, hostMatchesAllowlist } from '../http-api-client';
+import { normalizeHttpAllowedHosts } from '../talk-store';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+describe('HTTP allowlists', () => {
+  it('normalizes hosts and matches wildcard subdomains only', () => {
+    expect(normalizeHttpAllowedHosts(['API.Example.com', 'https://hooks.example.org/x', '*.stripe.com', 'bad host', 'api.example.com']))
+      .toEqual(['api.example.com', 'hooks.example.org', '*.stripe.com']);
+    expect(hostMatchesAllowlist('api.stripe.com', ['*.stripe.com'])).toBe(true);
+    expect(hostMatchesAllowlist('stripe.com', ['*.stripe.com'])).toBe(false);
+    expect(hostMatchesAllowlist('evilstripe.com', ['*.stripe.com'])).toBe(false);
+  });
+});
+
+describe('HttpApiClientStore', () => {
+  let tmpDir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'http-api-client-test-'));
+    // Echo the request back so injection and redaction are observable.
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ method: req.method, url: req.url, auth: req.headers.authorization, body }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('only calls allowlisted hosts (global or per-talk)', async () => {
+    const store = new HttpApiClientStore(tmpDir, mockLogger);
+    const denied = await store.request({ method: 'GET', url: `${baseUrl}/x` });
+    expect(denied).toMatchObject({ ok: false, error: expect.stringContaining('not on the HTTP API allowlist') });
+
+    const viaTalk = await store.request({ method: 'GET', url: `${baseUrl}/x` }, ['127.0.0.1']);
+    expect(viaTalk).toMatchObject({ ok: true, status: 200 });
+  });
+
+  it('injects secrets server-side, redacts echoes, and persists only names to clients', async () => {
+    const store = new HttpApiClientStore(tmpDir, mockLogger);
+    store.setAllowedHosts(['127.0.0.1']);
+    expect(store.setSecret('api_key', 'sk-live-123456', ['127.0.0.1']).ok).toBe(true);
+
+    const result = await store.request({
+      method: 'POST',
+      url: `${baseUrl}/items`,
+      headers: { Authorization: 'Bearer {{secret:api_key}}' },
+      body: { name: 'widget' },
+    });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.secretsUsed).toEqual(['api_key']);
+    expect(result.body).not.toContain('sk-live-123456');
+    expect(JSON.parse(result.body)).toMatchObject({
+      method: 'POST',
+      auth: 'Bearer {{secret:api_key}}',
+      body: '{"name":"widget"}',
+    });
+    expect(result.body).toContain('\n  "method"');
+
+    const reloaded = new HttpApiClientStore(tmpDir, mockLogger);
+    expect(reloaded.listSecrets()).toEqual([{ name: 'api_key', hosts: ['127.0.0.1'], updatedAt: expect.any(Number) }]);
+    expect(reloaded.getAllowedHosts()).toEqual(['127.0.0.1']);
+  });
+
+  it('refuses unknown secrets and secrets bound to other hosts', async () => {
+    const store = new HttpApiClientStore(tmpDir, mockLogger);
+    store.setAllowedHosts(['127.0.0.1']);
+    store.setSecret('other', 'value-for-other', ['api.example.com']);
+
+    expect(await store.request({ method: 'GET', url: `${baseUrl}/?k={{secret:missing}}` }))
+      .toEqual({ ok: false, error: 'Unknown secret "missing".' });
+    expect(await store.request({ method: 'GET', url: `${baseUrl}/`, headers: { 'X-Key': '{{secret:other}}' } }))
+      .toEqual({ ok: false, error: 'Secret "other" may not be sent to 127.0.0.1.' });
+  });
+});
@@ -0,0 +1,117 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as proxy from '../proxy';
+import { describeJobThrottle, evaluateJobThrottle } from '../job-throttle';
+import { executeJob, isJobDue } from '../job-scheduler';
+import { TalkStore } from '../talk-store';
+import { ToolRegistry } from '../tool-registry';
+import type { ToolExecutor } from '../tool-executor';
+import type { CachedRateLimitData, Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+const now = 1_700_000_000_000;
+
+function limits(fiveHour: number, sevenDay: number): CachedRateLimitData {
+  return {
+    provider: 'anthropic',
+    status: 'allowed',
+    fiveHour: { utilization: fiveHour, resetsAt: now / 1000 + 3600, status: 'allowed' },
+    sevenDay: { utilization: sevenDay, resetsAt: now / 1000 + 86_400, status: 'allowed' },
+    lastUpdated: now,
+  };
+}
+
+describe('evaluateJobThrottle', () => {
+  it('holds jobs back by priority until the window resets', () => {
+    const cached = () => limits(0.85, 0.4);
+    const note = evaluateJobThrottle({ priority: 'low' }, 'anthropic/claude-sonnet-4-5', undefined, now, cached);
+    expect(note).toEqual({ action: 'defer', window: 'five_hour', utilization: 0.85, threshold: 0.8, resetsAt: now + 3_600_000 });
+    expect(describeJobThrottle(note!)).toBe('Anthropic 5-hour window at 85% (threshold 80%)');
+
+    expect(evaluateJobThrottle({}, 'openclaw', undefined, now, cached)).toBeUndefined();
+    expect(evaluateJobThrottle({}, 'openclaw', { normalPriorityThreshold: 0.8 }, now, cached)).toMatchObject({ action: 'defer' });
+    expect(evaluateJobThrottle({ priority: 'high' }, 'openclaw', { normalPriorityThreshold: 0 }, now, cached)).toBeUndefined();
+    expect(evaluateJobThrottle({ priority: 'low' }, 'openai/gpt-4o', undefined, now, cached)).toBeUndefined();
+    // A window that has already reset no longer counts.
+    expect(evaluateJobThrottle({ priority: 'low' }, 'openclaw', undefined, now + 3_600_000, cached)).toBeUndefined();
+  });
+
+  it('waits for the later window and downgrades when configured', () => {
+    const cached = () => limits(0.9, 0.96);
+    expect(evaluateJobThrottle({ priority: 'low' }, 'openclaw', undefined, now, cached)).toMatchObject({
+      window: 'seven_day',
+      resetsAt: now + 86_400_000,
+    });
+    expect(evaluateJobThrottle(
+      { priority: 'low' },
+      'anthropic/claude-opus-4',
+      { onLimit: 'downgrade', downgradeModel: 'anthropic/claude-haiku-4-5' },
+      now,
+      cached,
+    )).toMatchObject({ action: 'downgrade', model: 'anthropic/claude-haiku-4-5' });
+  });
+});
+
+describe('deferred job runs', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  let fetchMock: jest.SpyInstance;
+  let limitsMock: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'job-throttle-test-'));
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+    fetchMock = jest.spyOn(global, 'fetch');
+    const resetsAt = Math.floor(Date.now() / 1000) + 3600;
+    limitsMock = jest.spyOn(proxy, 'getProxyCachedLimits').mockReturnValue({
+      provider: 'anthropic',
+      status: 'allowed',
+      fiveHour: { utilization: 0.92, resetsAt, status: 'allowed' },
+      lastUpdated: Date.now(),
+    });
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    limitsMock.mockRestore();
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('defers a low-priority job with a report and keeps it off the schedule', async () => {
+    const talk = store.createTalk('anthropic/claude-sonnet-4-5');
+    const job = store.addJob(talk.id, 'every 1h', 'summarize the news', 'recurring', undefined, { priority: 'low' })!;
+    job.createdAt -= 2 * 3_600_000;
+    expect(isJobDue(job)).toBe(true);
+
+    const report = await executeJob({
+      store,
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      logger: mockLogger,
+      registry: new ToolRegistry(tmpDir, mockLogger),
+      executor: { execute: jest.fn() } as unknown as ToolExecutor,
+      dataDir: tmpDir,
+    }, talk.id, job);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(report).toMatchObject({
+      status: 'deferred',
+      summary: expect.stringMatching(/^Deferred until .+: Anthropic 5-hour window at 92% \(threshold 80%\)$/),
+      throttle: { action: 'defer', window: 'five_hour' },
+    });
+    expect(await store.getReports(talk.id)).toHaveLength(1);
+    const updated = store.getJob(talk.id, job.id)!;
+    expect(updated.deferredUntil).toBe(report!.throttle!.resetsAt);
+    expect(updated.lastStatus).toMatch(/^deferred until /);
+    expect(updated.lastRunAt).toBeUndefined();
+    expect(isJobDue(updated)).toBe(false);
+  });
+});
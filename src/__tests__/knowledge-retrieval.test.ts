@@ -0,0 +1,144 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  Bm25Index,
+  KnowledgeRetriever,
+  setKnowledgeEmbeddingProvider,
+  tokenize,
+} from '../knowledge-retrieval';
+import { TalkStore } from '../talk-store';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+describe('tokenize', () => {
+  it('drops stop words and short tokens and stems inflections', () => {
+    expect(tokenize('What about the weekly meetings?')).toEqual(['weekly', 'meet']);
+    expect(tokenize('deploying deployed deploys')).toEqual(['deploy', 'deploy', 'deploy']);
+  });
+});
+
+describe('Bm25Index', () => {
+  it('ranks documents by term rarity and frequency', () => {
+    const index = new Bm25Index([
+      { id: 'a', kind: 'knowledge', text: 'postgres database migration plan' },
+      { id: 'b', kind: 'knowledge', text: 'team lunch plan for friday' },
+      { id: 'c', kind: 'knowledge', text: 'postgres postgres replication lag' },
+    ]);
+    const hits = index.search('postgres replication', 10);
+    expect(hits.map((hit) => hit.doc.id)).toEqual(['c', 'a']);
+    expect(index.search('kubernetes', 10)).toEqual([]);
+  });
+});
+
+describe('KnowledgeRetriever', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  let retriever: KnowledgeRetriever;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'knowledge-retrieval-test-'));
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+    retriever = new KnowledgeRetriever();
+  });
+
+  afterEach(async () => {
+    setKnowledgeEmbeddingProvider(undefined);
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('returns only relevant topics instead of any single-word overlap', async () => {
+    const talk = store.createTalk();
+    await store.setKnowledgeTopic(talk.id, 'database-setup', 'Primary Postgres runs on db-1 with nightly backups.', 'Postgres database hosting and backups');
+    await store.setKnowledgeTopic(talk.id, 'team-schedule', 'Standup is at 9am; the team plans sprints on Monday.', 'Team meeting schedule and plans');
+    await store.setKnowledgeTopic(talk.id, 'travel-plans', 'Flights booked for the offsite in March.', 'Travel plans for the offsite');
+
+    const topics = await retriever.retrieveTopics({
+      store,
+      talkId: talk.id,
+      query: 'Where do the postgres backups run and what are the plans for them?',
+      logger: mockLogger,
+    });
+    expect(topics.map((t) => t.slug)).toEqual(['database-setup']);
+    expect(topics[0].content).toContain('db-1');
+  });
+
+  it('surfaces older history outside the recent window but never context.md', async () => {
+    const talk = store.createTalk();
+    await store.setContextMd(talk.id, '## Summary\nWe chose Fastify for the billing service.');
+    await store.appendMessage(talk.id, {
+      id: 'old-1', role: 'user', content: 'Decision: the billing service uses Fastify on port 8080.', timestamp: Date.UTC(2026, 0, 5),
+    });
+    await store.appendMessage(talk.id, {
+      id: 'recent-1', role: 'user', content: 'Billing service Fastify port question again', timestamp: Date.UTC(2026, 0, 6),
+    });
+
+    const hits = await retriever.search({ store, talkId: talk.id, query: 'billing fastify port', logger: mockLogger, recentMessageCount: 1 });
+    expect(hits.map((hit) => hit.doc.id)).toContain('history:old-1');
+    expect(hits.map((hit) => hit.doc.id)).not.toContain('history:recent-1');
+
+    const topics = await retriever.retrieveTopics({ store, talkId: talk.id, query: 'billing fastify port', logger: mockLogger, recentMessageCount: 1 });
+    expect(topics).toEqual([
+      { slug: 'earlier-conversation-2026-01-05', content: 'User: Decision: the billing service uses Fastify on port 8080.' },
+    ]);
+  });
+
+  it('adds only new older messages to the index and re-reads history after edits', async () => {
+    const talk = store.createTalk();
+    const say = (id: string, content: string) =>
+      store.appendMessage(talk.id, { id, role: 'user', content, timestamp: Date.UTC(2026, 0, 5) });
+    await say('m1', 'The staging cluster runs on kubernetes.');
+    await say('m2', 'Payroll exports go out on Fridays.');
+    const historyIds = async () => (await retriever.getIndex(store, talk.id, 1)).documents
+      .filter((doc) => doc.kind === 'history')
+      .map((doc) => doc.id);
+    expect(await historyIds()).toEqual(['history:m1']);
+
+    const fullRead = jest.spyOn(store, 'getMessages');
+    const pages = jest.spyOn(store, 'getMessagePage');
+    await say('m3', 'Invoices are archived monthly.');
+    expect(await historyIds()).toEqual(['history:m1', 'history:m2']);
+    expect(pages).toHaveBeenCalledWith(talk.id, { after: 'm1', limit: 1 });
+    expect(fullRead).not.toHaveBeenCalled();
+
+    await store.editMessage(talk.id, 'm1', 'The staging cluster moved to nomad.');
+    const index = await retriever.getIndex(store, talk.id, 1);
+    expect(index.search('nomad', 5).map((hit) => hit.doc.id)).toEqual(['history:m1']);
+    expect(index.search('kubernetes', 5)).toEqual([]);
+  });
+
+  it('blends embedding similarity so synonyms can match', async () => {
+    const talk = store.createTalk();
+    await store.setKnowledgeTopic(talk.id, 'car-maintenance', 'Oil change due every 10k km.', 'Automobile servicing notes');
+    await store.setKnowledgeTopic(talk.id, 'garden', 'Water tomatoes daily.', 'Garden care');
+
+    const embed = jest.fn(async (texts: string[]) => texts.map((text) =>
+      /vehicle|automobile|oil/i.test(text) ? [1, 0] : [0, 1],
+    ));
+    setKnowledgeEmbeddingProvider({ id: 'fake', embed });
+
+    const topics = await retriever.retrieveTopics({ store, talkId: talk.id, query: 'vehicle upkeep', logger: mockLogger });
+    expect(topics.map((t) => t.slug)).toEqual(['car-maintenance']);
+
+    // Vectors are cached per text, so a repeat query only embeds the query.
+    await retriever.retrieveTopics({ store, talkId: talk.id, query: 'vehicle upkeep', logger: mockLogger });
+    expect(embed).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to BM25 when the embedding provider fails', async () => {
+    const talk = store.createTalk();
+    await store.setKnowledgeTopic(talk.id, 'garden', 'Water tomatoes daily.', 'Garden care');
+    setKnowledgeEmbeddingProvider({ id: 'broken', embed: async () => { throw new Error('offline'); } });
+
+    const topics = await retriever.retrieveTopics({ store, talkId: talk.id, query: 'tomatoes', logger: mockLogger });
+    expect(topics.map((t) => t.slug)).toEqual(['garden']);
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('using BM25 only'));
+  });
+});
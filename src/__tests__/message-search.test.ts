@@ -0,0 +1,125 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { buildSnippet, parseSearchQuery } from '../message-search';
+import { TalkStore } from '../talk-store';
+import type { Logger, TalkMessage } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+function makeMsg(overrides: Partial<TalkMessage> = {}): TalkMessage {
+  return {
+    id: randomUUID(),
+    role: 'user',
+    content: 'Hello',
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('buildSnippet', () => {
+  it('highlights stemmed matches inside the excerpt', () => {
+    const { snippet, highlights } = buildSnippet('We decided to postpone the launch meetings.', parseSearchQuery('meeting'));
+    expect(snippet).toBe('We decided to postpone the launch meetings.');
+    expect(highlights).toEqual([[34, 42]]);
+    expect(snippet.slice(34, 42)).toBe('meetings');
+  });
+
+  it('centers long content on the first match', () => {
+    const content = `${'filler '.repeat(40)}the budget decision was final ${'tail '.repeat(60)}`;
+    const { snippet, highlights } = buildSnippet(content, parseSearchQuery('budget'));
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(highlights).toHaveLength(1);
+    expect(snippet.slice(...highlights[0])).toBe('budget');
+  });
+});
+
+describe('TalkStore.searchMessages', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'message-search-test-'));
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('finds messages across talks and requires every query term', async () => {
+    const a = store.createTalk();
+    const b = store.createTalk();
+    await store.appendMessage(a.id, makeMsg({ id: 'a1', content: 'We chose Postgres for the billing database' }));
+    await store.appendMessage(a.id, makeMsg({ id: 'a2', content: 'Billing emails go out on Mondays' }));
+    await store.appendMessage(b.id, makeMsg({ id: 'b1', role: 'assistant', content: 'The analytics database is Postgres too' }));
+
+    const hits = await store.searchMessages('postgres database');
+    expect(hits.map((hit) => hit.messageId).sort()).toEqual(['a1', 'b1']);
+    expect(hits.find((hit) => hit.messageId === 'b1')!.talkId).toBe(b.id);
+
+    const scoped = await store.searchMessages('billing', { talkId: a.id });
+    expect(scoped.map((hit) => hit.messageId).sort()).toEqual(['a1', 'a2']);
+    expect(await store.searchMessages('kubernetes')).toEqual([]);
+  });
+
+  it('applies role, agent and date filters', async () => {
+    const talk = store.createTalk();
+    const day = 86_400_000;
+    await store.appendMessage(talk.id, makeMsg({ id: 'm1', content: 'Deploy plan drafted', timestamp: 10 * day }));
+    await store.appendMessage(talk.id, makeMsg({
+      id: 'm2', role: 'assistant', agentName: 'Planner', content: 'Deploy plan approved', timestamp: 20 * day,
+    }));
+    await store.appendMessage(talk.id, makeMsg({
+      id: 'm3', role: 'assistant', agentName: 'Critic', content: 'Deploy plan has risks', timestamp: 30 * day,
+    }));
+
+    expect((await store.searchMessages('deploy', { role: 'user' })).map((h) => h.messageId)).toEqual(['m1']);
+    expect((await store.searchMessages('deploy', { agentName: 'planner' })).map((h) => h.messageId)).toEqual(['m2']);
+    expect((await store.searchMessages('deploy', { since: 15 * day, sort: 'recent' })).map((h) => h.messageId))
+      .toEqual(['m3', 'm2']);
+    expect((await store.searchMessages('deploy', { until: 15 * day })).map((h) => h.messageId)).toEqual(['m1']);
+  });
+
+  it('drops deleted messages and skips tool output', async () => {
+    const talk = store.createTalk();
+    await store.appendMessage(talk.id, makeMsg({ id: 'keep', content: 'Invoice numbering scheme agreed' }));
+    await store.appendMessage(talk.id, makeMsg({ id: 'gone', content: 'Invoice template is outdated' }));
+    await store.appendMessage(talk.id, makeMsg({
+      id: 'tool', role: 'tool', tool_call_id: 'call_1', content: 'invoice.pdf invoice.docx',
+    }));
+
+    await store.deleteMessages(talk.id, ['gone']);
+    const hits = await store.searchMessages('invoice');
+    expect(hits.map((hit) => hit.messageId)).toEqual(['keep']);
+  });
+
+  it('persists the index and rebuilds it from history when missing', async () => {
+    const talk = store.createTalk();
+    await store.appendMessage(talk.id, makeMsg({ id: 'm1', content: 'Quarterly roadmap review moved to Friday' }));
+    const indexPath = path.join(tmpDir, 'talks', talk.id, 'search-index.jsonl');
+    expect((await fsp.readFile(indexPath, 'utf-8')).split('\n')[0]).toBe('{"op":"init","version":1}');
+
+    // Wait for async writes to flush
+    await new Promise(r => setTimeout(r, 100));
+    const reloaded = new TalkStore(tmpDir, mockLogger);
+    await reloaded.init();
+    expect((await reloaded.searchMessages('roadmap')).map((hit) => hit.messageId)).toEqual(['m1']);
+
+    await fsp.rm(indexPath);
+    const rebuilt = new TalkStore(tmpDir, mockLogger);
+    await rebuilt.init();
+    await rebuilt.appendMessage(talk.id, makeMsg({ id: 'm2', content: 'Roadmap slides shared' }));
+    const hits = await rebuilt.searchMessages('roadmap', { sort: 'recent' });
+    expect(hits.map((hit) => hit.messageId)).toEqual(['m2', 'm1']);
+    expect(hits[1].snippet).toContain('roadmap');
+  });
+});
@@ -0,0 +1,207 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import type { ServerResponse } from 'node:http';
+import {
+  ModelFallbackChain,
+  buildModelFallbacks,
+  classifyFallbackError,
+  isInRateLimitWindow,
+  resolveFallbackModels,
+} from '../model-fallback';
+import { runToolLoop, runToolLoopNonStreaming } from '../tool-loop';
+import { normalizeAndValidateAgentsInput } from '../talk-platform-validation';
+import { UsageLedger } from '../usage-ledger';
+import type { ToolExecutor } from '../tool-executor';
+import type { ToolRegistry } from '../tool-registry';
+import type { CachedRateLimitData, Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+const executor = { execute: jest.fn() } as unknown as ToolExecutor;
+
+describe('fallback classification', () => {
+  it('falls back on provider errors and rate limits, never on client disconnects', () => {
+    expect(classifyFallbackError(new Error('LLM error (429): slow down'))).toBe('rate_limited');
+    expect(classifyFallbackError(new Error('LLM call failed (529): overloaded'))).toBe('rate_limited');
+    expect(classifyFallbackError(new Error('Stream error: overloaded_error'))).toBe('rate_limited');
+    expect(classifyFallbackError(new Error('LLM error (503): service unavailable'))).toBe('provider_error');
+    expect(classifyFallbackError(new Error('First token timeout after 90000ms'))).toBe('unreachable');
+    expect(classifyFallbackError(new Error('Client disconnected'))).toBeUndefined();
+    const aborted = new AbortController();
+    aborted.abort();
+    expect(classifyFallbackError(new Error('LLM error (500): boom'), aborted.signal)).toBeUndefined();
+  });
+
+  it('does not fall back on client errors', () => {
+    expect(classifyFallbackError(new Error('LLM error (400): invalid request'))).toBeUndefined();
+    expect(classifyFallbackError(new Error('LLM error (401): invalid x-api-key'))).toBeUndefined();
+    expect(classifyFallbackError(new Error('LLM error (404): model not found'))).toBeUndefined();
+  });
+
+  it('reads the cached Anthropic unified status', () => {
+    const now = 1_700_000_000_000;
+    const cached: CachedRateLimitData = {
+      provider: 'anthropic',
+      status: 'rate_limited',
+      fiveHour: { utilization: 1, resetsAt: now / 1000 + 600, status: 'rate_limited' },
+      lastUpdated: now - 5 * 60_000,
+    };
+    const anthropicOnly = (provider: string) => (provider === 'anthropic' ? cached : null);
+    expect(isInRateLimitWindow('anthropic/claude-sonnet-4-5', now, anthropicOnly)).toBe(true);
+    expect(isInRateLimitWindow('claude-sonnet-4-5', now, anthropicOnly)).toBe(true);
+    expect(isInRateLimitWindow('anthropic/claude-sonnet-4-5', now + 601_000, anthropicOnly)).toBe(false);
+    expect(isInRateLimitWindow('openai/gpt-4o', now, anthropicOnly)).toBe(false);
+    expect(isInRateLimitWindow('claude-haiku', now, () => ({ ...cached, status: 'allowed', fiveHour: undefined }))).toBe(false);
+  });
+
+  it('reads the cached windows of the model\'s own provider', () => {
+    const now = 1_700_000_000_000;
+    const limits: Record<string, CachedRateLimitData> = {
+      openai: {
+        provider: 'openai',
+        status: 'rate_limited',
+        windows: [
+          { label: 'requests', utilization: 0.5, resetsAt: now / 1000 + 30, status: 'allowed', limit: 100, remaining: 50 },
+          { label: 'tokens', utilization: 1, resetsAt: now / 1000 + 30, status: 'rate_limited', limit: 1000, remaining: 0 },
+        ],
+        lastUpdated: now,
+      },
+      google: {
+        provider: 'google',
+        status: 'rate_limited',
+        windows: [{ label: 'quota', utilization: 1, resetsAt: 0, status: 'rate_limited' }],
+        error: 'Quota exceeded',
+        lastUpdated: now,
+      },
+    };
+    const getCached = (provider: string) => limits[provider] ?? null;
+    expect(isInRateLimitWindow('openai/gpt-4o', now, getCached)).toBe(true);
+    expect(isInRateLimitWindow('openai/gpt-4o', now + 31_000, getCached)).toBe(false);
+    expect(isInRateLimitWindow('OpenAI/gpt-4o-mini', now, getCached)).toBe(true);
+    // No reset time: trusted for a minute after it was recorded.
+    expect(isInRateLimitWindow('google/gemini-2.5-pro', now + 30_000, getCached)).toBe(true);
+    expect(isInRateLimitWindow('google/gemini-2.5-pro', now + 61_000, getCached)).toBe(false);
+    expect(isInRateLimitWindow('deepseek/deepseek-chat', now, getCached)).toBe(false);
+    expect(isInRateLimitWindow('gpt-4o', now, getCached)).toBe(false);
+  });
+
+  it('prefers the agent list, skips the requested model and keeps the last model', () => {
+    const talk = { fallbackModels: ['openai/gpt-4o'], agents: [{ name: 'Critic', fallbackModels: ['openai/gpt-4o-mini'] }] };
+    expect(resolveFallbackModels(talk, 'critic')).toEqual(['openai/gpt-4o-mini']);
+    expect(resolveFallbackModels(talk, 'Analyst')).toEqual(['openai/gpt-4o']);
+    expect(buildModelFallbacks('openai/gpt-4o', ['OpenAI/GPT-4o', 'ollama/llama3', 'ollama/llama3']))
+      .toEqual([{ model: 'ollama/llama3' }]);
+
+    const chain = new ModelFallbackChain({ model: 'a' }, [{ model: 'b' }]);
+    expect(chain.advance(new Error('LLM error (500): x'))).toMatchObject({ from: 'a', to: 'b', reason: 'provider_error' });
+    expect(chain.advance(new Error('LLM error (500): x'))).toBeUndefined();
+    expect(chain.current.model).toBe('b');
+  });
+
+  it('validates agent fallback lists', () => {
+    const parsed = normalizeAndValidateAgentsInput([
+      { name: 'Critic', model: 'anthropic/claude-opus-4', role: 'critic', fallbackModels: [' openai/gpt-4o ', ''] },
+    ]);
+    expect(parsed).toEqual({
+      ok: true,
+      agents: [expect.objectContaining({ name: 'Critic', fallbackModels: ['openai/gpt-4o'] })],
+    });
+    expect(normalizeAndValidateAgentsInput([
+      { name: 'Critic', model: 'm', role: 'critic', fallbackModels: 'openai/gpt-4o' },
+    ])).toMatchObject({ ok: false, error: 'agents[1].fallbackModels must be an array of model ids' });
+  });
+});
+
+describe('fallback in the tool loops', () => {
+  let tmpDir: string;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'model-fallback-test-'));
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const requestedModels = () => fetchMock.mock.calls.map((call) => JSON.parse((call[1] as RequestInit).body as string).model);
+
+  it('switches jobs to the next model on a rate limit, without retrying', async () => {
+    const ledger = new UsageLedger(tmpDir, mockLogger);
+    fetchMock
+      .mockResolvedValueOnce({ ok: false, status: 429, text: async () => 'rate limited' } as any)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          model: 'gpt-4o',
+          choices: [{ message: { content: 'done' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 10, completion_tokens: 2 },
+        }),
+      } as any);
+
+    const result = await runToolLoopNonStreaming({
+      messages: [{ role: 'user', content: 'go' }],
+      model: 'anthropic/claude-sonnet-4-5',
+      fallbacks: [{ model: 'openai/gpt-4o' }],
+      tools: [],
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      executor,
+      logger: mockLogger,
+      talkId: 't1',
+      usage: { ledger },
+    });
+
+    expect(requestedModels()).toEqual(['anthropic/claude-sonnet-4-5', 'openai/gpt-4o']);
+    expect(result).toMatchObject({ fullContent: 'done', answeredModel: 'openai/gpt-4o' });
+    // Usage is recorded under the model that served the call.
+    expect(ledger.summarize().byModel.map((group) => group.key)).toEqual(['gpt-4o']);
+  });
+
+  it('streams a status naming the model that answered', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('overloaded', { status: 529 }))
+      .mockResolvedValueOnce(new Response(
+        'data: {"model":"gpt-4o","choices":[{"delta":{"content":"hi"}}]}\n\n'
+        + 'data: {"model":"gpt-4o","choices":[{"delta":{},"finish_reason":"stop"}]}\n\n'
+        + 'data: [DONE]\n\n',
+        { status: 200 },
+      ));
+    const statuses: Array<{ code: string; meta?: Record<string, unknown> }> = [];
+    const res = { write: jest.fn(), writableEnded: false } as unknown as ServerResponse;
+
+    const result = await runToolLoop({
+      messages: [{ role: 'user', content: 'hello' }],
+      model: 'openai/gpt-5-preview',
+      fallbacks: [{ model: 'openai/gpt-4o' }],
+      tools: [],
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      res,
+      registry: {} as ToolRegistry,
+      executor,
+      logger: mockLogger,
+      onStatus: (status) => statuses.push(status),
+    });
+
+    expect(requestedModels()).toEqual(['openai/gpt-5-preview', 'openai/gpt-4o']);
+    expect(result).toMatchObject({ fullContent: 'hi', responseModel: 'gpt-4o', answeredModel: 'openai/gpt-4o' });
+    expect(statuses.find((status) => status.code === 'MODEL_FALLBACK')?.meta).toMatchObject({
+      from: 'openai/gpt-5-preview',
+      to: 'openai/gpt-4o',
+      reason: 'rate_limited',
+    });
+    expect(statuses[statuses.length - 1]).toMatchObject({
+      code: 'MODEL_ANSWERED',
+      meta: { model: 'openai/gpt-4o', requestedModel: 'openai/gpt-5-preview' },
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  listNotionAuthProfiles,
+  markdownToNotionBlocks,
+  markdownToRichText,
+  notionAuthStatus,
+  notionBlocksToMarkdown,
+  parseNotionId,
+  upsertNotionAuthConfig,
+} from '../notion';
+
+describe('parseNotionId', () => {
+  test('accepts bare ids, dashed ids and page URLs', () => {
+    const dashed = '1f2e3d4c-5b6a-7980-a1b2-c3d4e5f60718';
+    expect(parseNotionId('1f2e3d4c5b6a7980a1b2c3d4e5f60718')).toBe(dashed);
+    expect(parseNotionId(dashed.toUpperCase())).toBe(dashed);
+    expect(parseNotionId('https://www.notion.so/acme/Roadmap-1f2e3d4c5b6a7980a1b2c3d4e5f60718?pvs=4')).toBe(dashed);
+    expect(() => parseNotionId('roadmap')).toThrow('Not a Notion page or database id');
+  });
+});
+
+describe('Notion Markdown conversion', () => {
+  test('converts inline formatting to rich text annotations', () => {
+    const items = markdownToRichText('Ship **v2** with `flags` via [docs](https://example.com)');
+    expect(items.map((item) => item.text.content)).toEqual(['Ship ', 'v2', ' with ', 'flags', ' via ', 'docs']);
+    expect(items[1].annotations).toEqual({ bold: true });
+    expect(items[3].annotations).toEqual({ code: true });
+    expect(items[5].text.link).toEqual({ url: 'https://example.com' });
+  });
+
+  test('round-trips common block types', () => {
+    const markdown = [
+      '# Plan',
+      '- [x] Draft spec',
+      '- [ ] Review',
+      '- Loose note',
+      '1. First',
+      '2. Second',
+      '> Keep it short',
+      '```ts',
+      'const a = 1;',
+      '```',
+      '---',
+      'Closing **remarks**',
+    ].join('\n');
+    const blocks = markdownToNotionBlocks(markdown);
+    expect(blocks.map((block) => block.type)).toEqual([
+      'heading_1',
+      'to_do',
+      'to_do',
+      'bulleted_list_item',
+      'numbered_list_item',
+      'numbered_list_item',
+      'quote',
+      'code',
+      'divider',
+      'paragraph',
+    ]);
+    expect(blocks[1].to_do.checked).toBe(true);
+    expect(blocks[7].code.language).toBe('ts');
+    expect(notionBlocksToMarkdown(blocks)).toBe(markdown);
+  });
+});
+
+describe('Notion token profiles', () => {
+  let tmpDir: string;
+  const savedEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'notion-token-test-'));
+    process.env.NOTION_TOKEN_PATH = path.join(tmpDir, 'notion_token.json');
+    delete process.env.NOTION_TOKEN;
+  });
+
+  afterEach(async () => {
+    process.env = { ...savedEnv };
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  test('stores integration tokens per profile', async () => {
+    expect((await notionAuthStatus(undefined)).hasToken).toBe(false);
+
+    await upsertNotionAuthConfig({ profile: 'Team Wiki', token: 'secret_abc' });
+    expect(await notionAuthStatus(undefined)).toMatchObject({ profile: 'team-wiki', hasToken: true });
+    const listed = await listNotionAuthProfiles();
+    expect(listed.profiles).toEqual([{ name: 'team-wiki', hasToken: true }]);
+    expect((await fsp.stat(process.env.NOTION_TOKEN_PATH!)).mode & 0o777).toBe(0o600);
+  });
+
+  test('NOTION_TOKEN only backs the default profile', async () => {
+    process.env.NOTION_TOKEN = 'secret_env';
+    expect((await notionAuthStatus(undefined)).hasToken).toBe(true);
+    expect((await notionAuthStatus('other')).hasToken).toBe(false);
+  });
+});
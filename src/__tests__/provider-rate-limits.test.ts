@@ -0,0 +1,141 @@
+import {
+  headerLookup,
+  parseOpenAIRateLimits,
+  parseProviderRateLimits,
+  parseRateLimitError,
+  parseResetSeconds,
+} from '../provider-rate-limits';
+import { getProxyCachedLimits, recordProviderRateLimits } from '../proxy';
+import { runToolLoopNonStreaming } from '../tool-loop';
+import type { ToolExecutor } from '../tool-executor';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+const now = 1_700_000_000_000;
+
+describe('provider rate-limit parsing', () => {
+  it('reads OpenAI-style x-ratelimit headers', () => {
+    expect(parseResetSeconds('6m0s')).toBe(360);
+    expect(parseResetSeconds('1h2m3.5s')).toBe(3723.5);
+    expect(parseResetSeconds('20ms')).toBeCloseTo(0.02);
+    expect(parseResetSeconds('30')).toBe(30);
+
+    const headers = new Headers({
+      'x-ratelimit-limit-requests': '5000',
+      'x-ratelimit-remaining-requests': '4900',
+      'x-ratelimit-reset-requests': '12ms',
+      'x-ratelimit-limit-tokens': '800000',
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '1m30s',
+    });
+    expect(parseOpenAIRateLimits('openai', headerLookup(headers), now)).toEqual({
+      provider: 'openai',
+      status: 'rate_limited',
+      windows: [
+        { label: 'requests', utilization: 0.02, resetsAt: now / 1000 + 1, status: 'allowed', limit: 5000, remaining: 4900 },
+        { label: 'tokens', utilization: 1, resetsAt: now / 1000 + 90, status: 'rate_limited', limit: 800000, remaining: 0 },
+      ],
+      lastUpdated: now,
+    });
+    expect(parseOpenAIRateLimits('deepseek', headerLookup(new Headers()), now)).toBeNull();
+  });
+
+  it('reads Gemini quota errors and balance errors', () => {
+    const gemini = JSON.stringify([{
+      error: {
+        code: 429,
+        status: 'RESOURCE_EXHAUSTED',
+        message: 'You exceeded your current quota.',
+        details: [
+          { '@type': 'type.googleapis.com/google.rpc.QuotaFailure', violations: [{ quotaId: 'GenerateRequestsPerDayPerProjectPerModel-FreeTier' }] },
+          { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '37s' },
+        ],
+      },
+    }]);
+    expect(parseRateLimitError('gemini', 429, headerLookup(undefined), gemini, now)).toEqual({
+      provider: 'gemini',
+      status: 'rate_limited',
+      windows: [{
+        label: 'GenerateRequestsPerDayPerProjectPerModel-FreeTier',
+        utilization: 1,
+        resetsAt: now / 1000 + 37,
+        status: 'rate_limited',
+      }],
+      error: 'You exceeded your current quota.',
+      lastUpdated: now,
+    });
+
+    const deepseek = parseRateLimitError('deepseek', 402, headerLookup(undefined), '{"error":{"message":"Insufficient Balance"}}', now);
+    expect(deepseek).toMatchObject({ status: 'rate_limited', windows: [{ label: 'quota', resetsAt: 0 }] });
+    const moonshot = parseProviderRateLimits(
+      'moonshot',
+      { status: 429, headers: new Headers({ 'retry-after': '20' }) },
+      '{"error":{"type":"rate_limit_reached_error","message":"slow down"}}',
+      now,
+    );
+    expect(moonshot).toMatchObject({ windows: [{ label: 'rate', resetsAt: now / 1000 + 20 }], error: 'slow down' });
+    expect(parseRateLimitError('openai', 500, headerLookup(undefined), 'boom', now)).toBeNull();
+  });
+
+  it('clears a recorded error after a successful call', () => {
+    recordProviderRateLimits('Moonshot', { ok: false, status: 429, headers: new Headers() }, 'rate limit reached');
+    expect(getProxyCachedLimits('moonshot')).toMatchObject({ status: 'rate_limited', error: 'rate limit reached' });
+    recordProviderRateLimits('moonshot', { ok: true, status: 200, headers: new Headers() });
+    expect(getProxyCachedLimits('moonshot')).toEqual({ provider: 'moonshot', status: 'allowed', lastUpdated: expect.any(Number) });
+  });
+});
+
+describe('capture on direct routes', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('records the limits a direct provider reports', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({
+      model: 'kimi-k2',
+      choices: [{ message: { content: 'done' }, finish_reason: 'stop' }],
+    }), {
+      status: 200,
+      headers: {
+        'x-ratelimit-limit-requests': '100',
+        'x-ratelimit-remaining-requests': '25',
+        'x-ratelimit-reset-requests': '30s',
+      },
+    }));
+
+    await runToolLoopNonStreaming({
+      messages: [{ role: 'user', content: 'go' }],
+      model: 'moonshot/kimi-k2',
+      directRoute: {
+        url: 'https://api.moonshot.test/v1/chat/completions',
+        headers: { 'Content-Type': 'application/json' },
+        apiFormat: 'openai-completions',
+        providerModelId: 'kimi-k2',
+        providerKey: 'moonshot',
+        maxTokens: 4096,
+      },
+      tools: [],
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      executor: { execute: jest.fn() } as unknown as ToolExecutor,
+      logger: mockLogger,
+    });
+
+    expect(getProxyCachedLimits('moonshot')).toMatchObject({
+      status: 'allowed',
+      windows: [{ label: 'requests', utilization: 0.75, remaining: 25, limit: 100 }],
+    });
+  });
+});
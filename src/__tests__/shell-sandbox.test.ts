@@ -0,0 +1,138 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  buildShellSandboxEnv,
+  buildShellSandboxPlan,
+  resolveShellSandboxWorkingDir,
+} from '../shell-sandbox';
+import { evaluateToolAvailability } from '../talk-policy';
+import { ToolRegistry } from '../tool-registry';
+import { ToolExecutor } from '../tool-executor';
+import { TalkStore } from '../talk-store';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+describe('shell sandbox plan', () => {
+  const limits = { cpuSeconds: 10, memoryMb: 256 };
+
+  it('jails the workspace and drops the network for restricted talks', () => {
+    const plan = buildShellSandboxPlan('/usr/bin/bwrap', 'ls', {
+      isolateFilesystem: true,
+      disableNetwork: true,
+      workspaceRoot: '/srv/ws',
+      cwd: '/srv/ws/reports',
+      home: '/home/gw',
+      limits,
+    });
+    expect(plan.file).toBe('/usr/bin/bwrap');
+    expect(plan.args).toContain('--unshare-net');
+    expect(plan.args.join(' ')).toContain('--bind /srv/ws /workspace');
+    expect(plan.args.join(' ')).toContain('--chdir /workspace/reports');
+    expect(plan.args).not.toContain('/home/gw');
+    expect(plan.args.slice(-4)).toEqual(['clawtalk-sandbox', '10', String(256 * 1024), 'ls']);
+    expect(plan.env.HOME).toBe('/workspace');
+  });
+
+  it('keeps the host filesystem when only the network is restricted', () => {
+    const plan = buildShellSandboxPlan('/usr/bin/bwrap', 'ls', {
+      isolateFilesystem: false,
+      disableNetwork: true,
+      workspaceRoot: '/srv/ws',
+      cwd: '/home/gw/project',
+      home: '/home/gw',
+      limits,
+    });
+    expect(plan.args.join(' ')).toContain('--bind / / ');
+    expect(plan.args.join(' ')).toContain('--chdir /home/gw/project');
+    expect(plan.env.HOME).toBe('/home/gw');
+  });
+
+  it('strips secrets from the environment', () => {
+    const previous = process.env.OPENAI_API_KEY;
+    process.env.OPENAI_API_KEY = 'sk-test';
+    try {
+      const env = buildShellSandboxEnv('/workspace');
+      expect(env).not.toHaveProperty('OPENAI_API_KEY');
+      expect(env.PATH).toBeTruthy();
+    } finally {
+      if (previous === undefined) delete process.env.OPENAI_API_KEY;
+      else process.env.OPENAI_API_KEY = previous;
+    }
+  });
+
+  it('resolves working directories inside the workspace only', () => {
+    expect(resolveShellSandboxWorkingDir('/srv/ws', '/workspace/a')).toEqual({ ok: true, cwd: '/srv/ws/a' });
+    expect(resolveShellSandboxWorkingDir('/srv/ws', 'b/c')).toEqual({ ok: true, cwd: '/srv/ws/b/c' });
+    expect(resolveShellSandboxWorkingDir('/srv/ws', '/etc')).toMatchObject({ ok: false });
+    expect(resolveShellSandboxWorkingDir('/srv/ws', '../x')).toMatchObject({ ok: false });
+  });
+});
+
+describe('sandboxed shell_exec', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  let executor: ToolExecutor;
+  const savedEnv = { ...process.env };
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'shell-sandbox-test-'));
+    process.env.CLAWTALK_AGENT_WORKSPACE_DIR = path.join(tmpDir, 'workspace');
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+    executor = new ToolExecutor(new ToolRegistry(tmpDir, mockLogger), store, mockLogger);
+  });
+
+  afterEach(async () => {
+    process.env = { ...savedEnv };
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('fails closed and records a diagnostic when no sandbox runtime is installed', async () => {
+    process.env.CLAWTALK_SANDBOX_BWRAP = path.join(tmpDir, 'missing-bwrap');
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { networkAccess: 'restricted' });
+
+    const result = await executor.execute('shell_exec', '{"command":"echo hi"}', { talkId: talk.id });
+    expect(result.success).toBe(false);
+    expect(result.content).toContain('no sandbox runtime');
+    expect(store.listDiagnostics(talk.id)).toEqual([
+      expect.objectContaining({ code: 'shell_sandbox_unavailable', category: 'tools', status: 'open' }),
+    ]);
+
+    const [shell] = evaluateToolAvailability(
+      [{ name: 'shell_exec', description: '', builtin: true }],
+      store.getTalk(talk.id)!,
+    );
+    expect(shell).toMatchObject({ enabled: false, reasonCode: 'blocked_network' });
+    expect(shell.reason).toContain('no shell sandbox runtime');
+  });
+
+  it('runs through the sandbox runtime with a stripped environment', async () => {
+    // Stand-in runtime: skip the bwrap options and run the wrapped command.
+    const fakeBwrap = path.join(tmpDir, 'bwrap');
+    await fsp.writeFile(fakeBwrap, '#!/bin/bash\nwhile [ "$1" != "--" ]; do shift; done\nshift\nexec "$@"\n', { mode: 0o755 });
+    process.env.CLAWTALK_SANDBOX_BWRAP = fakeBwrap;
+    process.env.CLAWTALK_TEST_SECRET = 'do-not-leak';
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { filesystemAccess: 'workspace_sandbox' });
+
+    const result = await executor.execute(
+      'shell_exec',
+      JSON.stringify({ command: 'echo "secret=${CLAWTALK_TEST_SECRET:-none} home=$HOME cpu=$(ulimit -t)"' }),
+      { talkId: talk.id },
+    );
+    expect(result.success).toBe(true);
+    expect(result.content.trim()).toBe('secret=none home=/workspace cpu=60');
+
+    const escape = await executor.execute('shell_exec', '{"command":"pwd","working_dir":"/etc"}', { talkId: talk.id });
+    expect(escape.success).toBe(false);
+    expect(store.listDiagnostics(talk.id)[0]).toMatchObject({ code: 'shell_sandbox_violation', category: 'filesystem' });
+  });
+});
@@ -0,0 +1,65 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { SyncEventLog, parseSyncEventFilter } from '../sync-log';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'sync-log-test-'));
+});
+
+afterEach(async () => {
+  await fsp.rm(tmpDir, { recursive: true, force: true });
+});
+
+describe('SyncEventLog', () => {
+  it('continues ids and replays after a restart', () => {
+    const log = new SyncEventLog(tmpDir, mockLogger);
+    log.append('gateway_phase', { phase: 'ready' });
+    log.append('talk_changed', { talkId: 'a', mutationType: 'messages_appended' });
+
+    const reopened = new SyncEventLog(tmpDir, mockLogger);
+    expect(reopened.lastEventId).toBe(2);
+    expect(reopened.append('talk_changed', { talkId: 'b', mutationType: 'updated' }).id).toBe(3);
+    const replay = reopened.replay(1);
+    expect(replay.ok && replay.events.map((event) => event.id)).toEqual([2, 3]);
+    expect(reopened.replay(3)).toEqual({ ok: true, events: [] });
+  });
+
+  it('filters replay by talk and by event or mutation type', () => {
+    const log = new SyncEventLog(tmpDir, mockLogger);
+    log.append('gateway_phase', { phase: 'ready' });
+    log.append('talk_changed', { talkId: 'a', mutationType: 'messages_appended' });
+    log.append('talk_changed', { talkId: 'b', mutationType: 'updated' });
+    log.append('tool_approvals', { talkId: 'a', pending: [] });
+
+    const byTalk = log.replay(0, parseSyncEventFilter(new URLSearchParams('talkIds=a')));
+    expect(byTalk.ok && byTalk.events.map((event) => event.id)).toEqual([1, 2, 4]);
+    const byType = log.replay(0, parseSyncEventFilter(new URLSearchParams('types=updated,tool_approvals')));
+    expect(byType.ok && byType.events.map((event) => event.id)).toEqual([3, 4]);
+  });
+
+  it('requires a resync once the cursor is compacted away or unknown', async () => {
+    const log = new SyncEventLog(tmpDir, mockLogger, { retain: 2 });
+    for (let i = 0; i < 5; i++) log.append('talk_changed', { talkId: 'a' });
+    log.compact();
+
+    const reopened = new SyncEventLog(tmpDir, mockLogger, { retain: 2 });
+    expect(reopened.oldestEventId).toBe(4);
+    expect(reopened.replay(3).ok).toBe(true);
+    expect(reopened.replay(2)).toEqual({ ok: false, reason: 'compacted', oldestEventId: 4, lastEventId: 5 });
+    expect(reopened.replay(9)).toMatchObject({ ok: false, reason: 'unknown_cursor' });
+
+    const lines = (await fsp.readFile(path.join(tmpDir, 'sync-log.jsonl'), 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+  });
+});
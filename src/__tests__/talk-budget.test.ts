@@ -0,0 +1,182 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  checkTalkBudgetAlert,
+  evaluateTalkBudget,
+  parseJobRunCapInput,
+  parseTalkBudgetInput,
+  resolveBudgetDowngradeModel,
+} from '../talk-budget';
+import { UsageLedger, getUsageLedger } from '../usage-ledger';
+import { executeJob } from '../job-scheduler';
+import { runToolLoopNonStreaming } from '../tool-loop';
+import { TalkStore } from '../talk-store';
+import { ToolRegistry } from '../tool-registry';
+import type { ToolExecutor } from '../tool-executor';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+const usage = (tokens: number) => ({ inputTokens: tokens, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 });
+
+describe('budget input', () => {
+  it('validates budgets and run caps', () => {
+    expect(parseTalkBudgetInput(null)).toEqual({ ok: true, budget: null });
+    expect(parseTalkBudgetInput({ onExceeded: 'refuse' })).toMatchObject({ ok: false });
+    expect(parseTalkBudgetInput({ monthlyUsd: 5, onExceeded: 'downgrade' })).toMatchObject({
+      ok: false,
+      error: expect.stringContaining('downgradeModels'),
+    });
+    expect(parseTalkBudgetInput({ monthlyUsd: 5, alertThresholds: [0.5, 1.5] })).toMatchObject({ ok: false });
+    expect(parseTalkBudgetInput({
+      monthlyTokens: 1000.4,
+      onExceeded: 'downgrade',
+      downgradeModels: [' openai/gpt-4o-mini ', ''],
+      alertThresholds: [1, 0.5, 0.5],
+    })).toEqual({
+      ok: true,
+      budget: {
+        monthlyTokens: 1000,
+        onExceeded: 'downgrade',
+        downgradeModels: ['openai/gpt-4o-mini'],
+        alertThresholds: [0.5, 1],
+      },
+    });
+
+    expect(parseJobRunCapInput({ maxTokens: 5000 })).toEqual({ ok: true, runCap: { maxTokens: 5000 } });
+    expect(parseJobRunCapInput({ maxUsd: -1 })).toMatchObject({ ok: false });
+    expect(parseJobRunCapInput({})).toMatchObject({ ok: false });
+  });
+
+  it('downgrades to the first model other than the requested one', () => {
+    const budget = { monthlyUsd: 1, onExceeded: 'downgrade' as const, downgradeModels: ['openai/gpt-4o', 'openai/gpt-4o-mini'] };
+    expect(resolveBudgetDowngradeModel(budget, 'openai/gpt-4o')).toBe('openai/gpt-4o-mini');
+    expect(resolveBudgetDowngradeModel({ ...budget, onExceeded: 'refuse' }, 'openai/gpt-4o')).toBeUndefined();
+  });
+});
+
+describe('budget evaluation and alerts', () => {
+  let tmpDir: string;
+  let ledger: UsageLedger;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'talk-budget-test-'));
+    ledger = new UsageLedger(tmpDir, mockLogger);
+  });
+
+  afterEach(async () => {
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('measures month-to-date spend and alerts once per threshold', () => {
+    const talk: { id: string; topicTitle: string; budget: { monthlyTokens: number }; budgetAlert?: any } = {
+      id: 't1',
+      topicTitle: 'Research',
+      budget: { monthlyTokens: 1000 },
+    };
+    ledger.record({ model: 'm', route: 'direct', usage: usage(500), talkId: 't1' });
+    ledger.record({ model: 'm', route: 'direct', usage: usage(5000), talkId: 't2' });
+    expect(evaluateTalkBudget(talk, ledger)).toMatchObject({ spentTokens: 500, fraction: 0.5, exceeded: false });
+    expect(checkTalkBudgetAlert(talk, ledger)).toBeUndefined();
+
+    ledger.record({ model: 'm', route: 'direct', usage: usage(350), talkId: 't1' });
+    const first = checkTalkBudgetAlert(talk, ledger)!;
+    expect(first.alert).toMatchObject({ talkId: 't1', threshold: 0.8 });
+    expect(first.alert.message).toBe('"Research" has used 80% of its monthly budget (850 of 1,000 tokens).');
+    talk.budgetAlert = first.state;
+    expect(checkTalkBudgetAlert(talk, ledger)).toBeUndefined();
+
+    ledger.record({ model: 'm', route: 'direct', usage: usage(200), talkId: 't1' });
+    const second = checkTalkBudgetAlert(talk, ledger)!;
+    expect(second.alert.threshold).toBe(1);
+    expect(second.alert.status.exceeded).toBe(true);
+
+    // Budget checks read the ledger's running monthly totals rather than scanning records.
+    const scan = jest.spyOn(ledger as any, 'forEachRecord');
+    expect(evaluateTalkBudget(talk, ledger)).toMatchObject({ spentTokens: 1050 });
+    expect(scan).not.toHaveBeenCalled();
+
+    // A new month starts from zero.
+    const nextMonth = Date.UTC(new Date().getUTCFullYear(), new Date().getUTCMonth() + 1, 2);
+    expect(evaluateTalkBudget(talk, ledger, nextMonth)).toMatchObject({ spentTokens: 0, exceeded: false });
+  });
+});
+
+describe('budgets for jobs', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'talk-budget-job-test-'));
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('skips runs while the talk is over budget', async () => {
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { budget: { monthlyTokens: 100 } });
+    const job = store.addJob(talk.id, 'every 1h', 'summarize the news')!;
+    getUsageLedger(tmpDir, mockLogger).record({ model: 'test-model', route: 'direct', usage: usage(150), talkId: talk.id });
+
+    const report = await executeJob({
+      store,
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      logger: mockLogger,
+      registry: new ToolRegistry(tmpDir, mockLogger),
+      executor: { execute: jest.fn() } as unknown as ToolExecutor,
+      dataDir: tmpDir,
+    }, talk.id, job);
+
+    expect(report).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+    const updated = store.getJob(talk.id, job.id)!;
+    expect(updated.lastStatus).toBe('skipped: over monthly budget (150 of 100 tokens)');
+    expect(updated.lastRunAt).toBeDefined();
+  });
+
+  it('stops the tool loop once a run reaches its cap', async () => {
+    const ledger = new UsageLedger(tmpDir, mockLogger);
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        model: 'test-model',
+        choices: [{
+          message: { content: 'checking', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'shell_exec', arguments: '{}' } }] },
+          finish_reason: 'tool_calls',
+        }],
+        usage: { prompt_tokens: 600, completion_tokens: 10 },
+      }),
+    } as any);
+    const execute = jest.fn(async () => ({ success: true, content: 'ok' }));
+
+    const result = await runToolLoopNonStreaming({
+      messages: [{ role: 'user', content: 'go' }],
+      model: 'test-model',
+      tools: [],
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      executor: { execute } as unknown as ToolExecutor,
+      logger: mockLogger,
+      talkId: 't1',
+      usage: { ledger, jobId: 'job-1', runCap: { maxTokens: 1000 } },
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(result.runCapReached).toEqual({ tokens: 1220, costUsd: 0 });
+  });
+});
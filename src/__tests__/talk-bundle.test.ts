@@ -0,0 +1,134 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { gzipSync } from 'node:zlib';
+import { decodeTalkBundle, encodeTalkBundle, renderTalkTranscript } from '../talk-bundle';
+import { TalkStore } from '../talk-store';
+import type { Logger, TalkMessage } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+function makeMsg(overrides: Partial<TalkMessage> = {}): TalkMessage {
+  return {
+    id: `msg-${Math.random().toString(36).slice(2, 8)}`,
+    role: 'user',
+    content: 'Hello',
+    timestamp: Date.UTC(2026, 0, 5, 9, 30),
+    ...overrides,
+  };
+}
+
+let tmpDir: string;
+let store: TalkStore;
+
+beforeEach(async () => {
+  tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'talk-bundle-test-'));
+  store = new TalkStore(path.join(tmpDir, 'a'), mockLogger);
+  await store.init();
+});
+
+afterEach(async () => {
+  await fsp.rm(tmpDir, { recursive: true, force: true });
+});
+
+async function seedTalk(): Promise<string> {
+  const talk = store.createTalk('test-model');
+  store.updateTalk(talk.id, { topicTitle: 'Launch Plan' });
+  await store.appendMessage(talk.id, makeMsg({ id: 'm1', content: 'When do we launch?' }));
+  await store.appendMessage(talk.id, makeMsg({ id: 'm2', role: 'assistant', agentName: 'Planner', content: 'March 3rd.' }));
+  store.addPin(talk.id, 'm2');
+  await store.setContextMd(talk.id, '# Context\nLaunch in March.');
+  await store.setKnowledgeTopic(talk.id, 'launch-dates', 'March 3rd launch.', 'Launch timeline');
+  const job = store.addJob(talk.id, '0 9 * * *', 'Daily launch check');
+  await store.appendReport(talk.id, {
+    id: 'r1', jobId: job!.id, talkId: talk.id, runAt: Date.now(), status: 'success', summary: 'ok', fullOutput: 'ok',
+  });
+  await store.appendStateEvent(talk.id, 'kids_study', { type: 'minutes_logged', payload: { kid: 'Asher', minutes: 30 } });
+  await store.setTalkPlatformBindings(talk.id, [{
+    id: 'b1', platform: 'slack', scope: '#launch', permission: 'read+write', createdAt: Date.now(),
+  }]);
+  return talk.id;
+}
+
+describe('talk bundles', () => {
+  it('round-trips a talk into another gateway with its original id', async () => {
+    const talkId = await seedTalk();
+    const archive = encodeTalkBundle((await store.exportTalk(talkId))!);
+    const decoded = decodeTalkBundle(archive);
+    expect(decoded.ok).toBe(true);
+    if (!decoded.ok) return;
+
+    const other = new TalkStore(path.join(tmpDir, 'b'), mockLogger);
+    await other.init();
+    const result = await other.importTalk(decoded.bundle);
+    expect(result.remapped).toBe(false);
+    expect(result.talk.id).toBe(talkId);
+    expect(result.talk.topicTitle).toBe('Launch Plan');
+    expect(result.talk.pinnedMessageIds).toEqual(['m2']);
+    expect(result.talk.platformBindings).toHaveLength(1);
+
+    expect((await other.getMessages(talkId)).map((m) => m.id)).toEqual(['m1', 'm2']);
+    expect((await other.getMessagePage(talkId, { before: 'm2' }))!.messages.map((m) => m.id)).toEqual(['m1']);
+    expect(await other.getContextMd(talkId)).toBe('# Context\nLaunch in March.');
+    expect(await other.getKnowledgeTopic(talkId, 'launch-dates')).toBe('March 3rd launch.');
+    expect((await other.getKnowledgeIndex(talkId)).map((e) => e.slug)).toEqual(['launch-dates']);
+    expect(await other.getReports(talkId)).toHaveLength(1);
+    expect((await other.getStateSnapshot(talkId, 'kids_study'))!.totals.Asher).toBe(30);
+    expect((await other.searchMessages('launch')).map((hit) => hit.messageId)).toEqual(['m1']);
+
+    // Survives a reload from disk.
+    const reloaded = new TalkStore(path.join(tmpDir, 'b'), mockLogger);
+    await reloaded.init();
+    expect(reloaded.getTalk(talkId)!.topicTitle).toBe('Launch Plan');
+  });
+
+  it('remaps the id on conflict and detaches the copy from bindings and jobs', async () => {
+    const talkId = await seedTalk();
+    const decoded = decodeTalkBundle(encodeTalkBundle((await store.exportTalk(talkId))!));
+    if (!decoded.ok) throw new Error(decoded.error);
+
+    const result = await store.importTalk(decoded.bundle);
+    expect(result.remapped).toBe(true);
+    expect(result.originalId).toBe(talkId);
+    expect(result.talk.id).not.toBe(talkId);
+    expect(result.talk.platformBindings).toEqual([]);
+    expect(result.talk.jobs.every((job) => !job.active)).toBe(true);
+    expect(result.warnings).toHaveLength(2);
+    expect((await store.getReports(result.talk.id))[0].talkId).toBe(result.talk.id);
+    expect(store.getTalk(talkId)!.platformBindings).toHaveLength(1);
+  });
+
+  it('rejects archives that are not valid bundles', async () => {
+    expect(decodeTalkBundle(Buffer.from('not an archive')).ok).toBe(false);
+    expect(decodeTalkBundle(gzipSync(Buffer.alloc(1024))).ok).toBe(false);
+
+    const talkId = await seedTalk();
+    const bundle = (await store.exportTalk(talkId))!;
+    bundle.messages.push({ ...bundle.messages[0] });
+    const duplicate = decodeTalkBundle(encodeTalkBundle(bundle));
+    expect(duplicate).toEqual({ ok: false, error: expect.stringContaining('duplicate message id') });
+  });
+
+  it('renders a readable Markdown transcript', async () => {
+    const talkId = await seedTalk();
+    await store.appendMessage(talkId, makeMsg({
+      id: 'm3',
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id: 'c1', type: 'function', function: { name: 'web_search', arguments: '{}' } }],
+    }));
+    await store.appendMessage(talkId, makeMsg({ id: 'm4', role: 'tool', tool_call_id: 'c1', content: 'raw output' }));
+
+    const markdown = renderTalkTranscript(store.getTalk(talkId)!, await store.getMessages(talkId), Date.UTC(2026, 0, 6));
+    expect(markdown).toContain('# Launch Plan');
+    expect(markdown).toContain('### User · 2026-01-05 09:30 UTC\n\nWhen do we launch?');
+    expect(markdown).toContain('### Planner · 2026-01-05 09:30 UTC\n\nMarch 3rd.');
+    expect(markdown).toContain('_Used tools: `web_search`_');
+    expect(markdown).not.toContain('raw output');
+  });
+});
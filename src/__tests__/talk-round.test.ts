@@ -0,0 +1,82 @@
+import {
+  AGENT_ROLE_INSTRUCTIONS,
+  buildRoundAgentPrompt,
+  buildRoundSynthesisPrompt,
+  planTalkRound,
+  resolveRoundRoleInstructions,
+} from '../talk-round';
+import { labelRoundSegmentFrame } from '../talk-chat';
+import type { TalkAgent } from '../types';
+
+const agents: TalkAgent[] = [
+  { name: 'Ada', model: 'model-a', role: 'analyst', isPrimary: true },
+  { name: 'Cy', model: 'model-b', role: 'critic', isPrimary: false },
+  { name: 'Sy', model: 'model-c', role: 'synthesizer', isPrimary: false },
+];
+
+describe('planTalkRound', () => {
+  it('defaults to every non-synthesizer agent in order, then the synthesizer', () => {
+    const result = planTalkRound(agents, true);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.plan.mode).toBe('sequential');
+    expect(result.plan.participants.map((a) => a.name)).toEqual(['Ada', 'Cy']);
+    expect(result.plan.synthesizer?.name).toBe('Sy');
+  });
+
+  it('honours explicit agents, mode, synthesis choice and instruction overrides', () => {
+    const result = planTalkRound(agents, {
+      mode: 'parallel',
+      agents: ['cy', 'ada'],
+      synthesize: false,
+      roleInstructions: { cy: 'Only check the numbers.' },
+    });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.plan.mode).toBe('parallel');
+    expect(result.plan.participants.map((a) => a.name)).toEqual(['Cy', 'Ada']);
+    expect(result.plan.synthesizer).toBeUndefined();
+    expect(resolveRoundRoleInstructions(result.plan, agents[1])).toBe('Only check the numbers.');
+    expect(resolveRoundRoleInstructions(result.plan, agents[0])).toBe(AGENT_ROLE_INSTRUCTIONS.analyst);
+  });
+
+  it('falls back to the primary agent when synthesis is requested without a synthesizer', () => {
+    const result = planTalkRound(agents.slice(0, 2), { synthesize: true });
+    if (!result.ok) throw new Error(result.error);
+    expect(result.plan.synthesizer?.name).toBe('Ada');
+  });
+
+  it('rejects invalid rounds', () => {
+    expect(planTalkRound([], true)).toEqual({ ok: false, error: expect.stringContaining('agents') });
+    expect(planTalkRound(agents, { mode: 'debate' })).toEqual({ ok: false, error: expect.stringContaining('round.mode') });
+    expect(planTalkRound(agents, { agents: ['Nobody'] })).toEqual({ ok: false, error: 'Unknown agent "Nobody"' });
+    expect(planTalkRound(agents, 'yes')).toEqual({ ok: false, error: 'round must be true or an object' });
+  });
+});
+
+describe('round prompts', () => {
+  it('shows later agents the replies so far and the synthesizer all of them', () => {
+    const replies = [{ agentName: 'Ada', role: 'analyst' as const, content: 'Costs rise 10%.' }];
+    expect(buildRoundAgentPrompt('Should we expand?', [])).toBe('Should we expand?');
+    expect(buildRoundAgentPrompt('Should we expand?', replies)).toContain('### Ada (analyst)\nCosts rise 10%.');
+    const synthesis = buildRoundSynthesisPrompt('Should we expand?', replies);
+    expect(synthesis.startsWith('Should we expand?')).toBe(true);
+    expect(synthesis).toContain('Synthesize these replies');
+  });
+});
+
+describe('parallel round frames', () => {
+  const label = { roundId: 'r1', index: 2 };
+
+  it('labels content, status and reset frames with their segment', () => {
+    expect(labelRoundSegmentFrame('data: {"choices":[{"delta":{"content":"hi"}}]}\n\n', label))
+      .toBe('data: {"choices":[{"delta":{"content":"hi"}}],"roundId":"r1","index":2}\n\n');
+    expect(labelRoundSegmentFrame('event: status\ndata: {"code":"MODEL_FALLBACK"}\n\n', label))
+      .toBe('event: status\ndata: {"code":"MODEL_FALLBACK","roundId":"r1","index":2}\n\n');
+    expect(labelRoundSegmentFrame('event: content_reset\ndata: {}\n\n', label))
+      .toBe('event: content_reset\ndata: {"roundId":"r1","index":2}\n\n');
+  });
+
+  it('passes keepalives and non-object frames through', () => {
+    expect(labelRoundSegmentFrame(': keepalive\n\n', label)).toBe(': keepalive\n\n');
+    expect(labelRoundSegmentFrame('data: [DONE]\n\n', label)).toBe('data: [DONE]\n\n');
+  });
+});
@@ -0,0 +1,118 @@
+import { buildStateSnapshot, mergeStatePolicy, normalizeStatePolicy, validateStatePolicyUpdates } from '../talk-state-store';
+import { validateStateEvent } from '../talk-state-reducers';
+import type { TalkStateEvent, TalkStatePolicy } from '../types';
+
+const DAY = 86_400_000;
+const T0 = Date.UTC(2026, 2, 4, 12); // Wednesday 2026-03-04, noon UTC
+
+function policy(overrides: Partial<TalkStatePolicy>): TalkStatePolicy {
+  return normalizeStatePolicy('tracker', { timezone: 'UTC', ...overrides }, T0);
+}
+
+function events(...specs: Array<[string, Record<string, unknown>, number?]>): TalkStateEvent[] {
+  return specs.map(([type, payload, occurredAt], index) => ({
+    id: `e${index + 1}`,
+    stream: 'tracker',
+    sequence: index + 1,
+    type,
+    payload,
+    occurredAt: occurredAt ?? T0,
+    recordedAt: occurredAt ?? T0,
+  }));
+}
+
+describe('state reducers', () => {
+  it('counts per key and carries totals into the next daily window', () => {
+    const p = policy({ reducer: 'counter', window: 'daily', carryOverMode: 'all', target: 3 });
+    const log = events(['increment', { key: 'water' }], ['increment', { key: 'water', value: 2 }], ['decrement', { key: 'coffee' }]);
+    const today = buildStateSnapshot('tracker', p, log, T0);
+    expect(today.totals).toEqual({ water: 3, coffee: -1 });
+    expect(today.completed).toEqual({ water: true, coffee: false });
+    expect(today.windowKey).toBe('2026-03-04');
+
+    const tomorrow = buildStateSnapshot('tracker', p, log, T0 + DAY);
+    expect(tomorrow.windowKey).toBe('2026-03-05');
+    expect(tomorrow.carryOver).toEqual({ water: 3 });
+  });
+
+  it('keeps last values, set members and checklist items, resetting them each window', () => {
+    const last = buildStateSnapshot('tracker', policy({ reducer: 'last_value', keyField: 'metric' }), events(
+      ['reading', { metric: 'weight', value: 81.2 }],
+      ['reading', { metric: 'weight', value: 80.9 }],
+      ['reading', { metric: 'mood', value: 'good' }],
+    ), T0);
+    expect(last.totals).toEqual({ weight: 80.9 });
+    expect((last.value as Record<string, { value: unknown }>).mood.value).toBe('good');
+
+    const set = buildStateSnapshot('tracker', policy({ reducer: 'set' }), events(
+      ['add', { items: ['milk', 'eggs'] }],
+      ['remove', { value: 'milk' }],
+    ), T0);
+    expect(set.value).toEqual(['eggs']);
+
+    const p = policy({ reducer: 'checklist', window: 'weekly', items: ['Pack lunch', 'Homework'] });
+    const log = events(['check', { value: 'Homework' }], ['add_item', { value: 'Piano' }]);
+    const thisWeek = buildStateSnapshot('tracker', p, log, T0);
+    expect(thisWeek.completed).toEqual({ 'Pack lunch': false, Homework: true, Piano: false });
+    expect(thisWeek.totals).toEqual({ checked: 1, remaining: 2 });
+    expect(thisWeek.windowStartAt).toBe(Date.UTC(2026, 2, 2));
+    expect(buildStateSnapshot('tracker', p, log, T0 + 7 * DAY).completed.Homework).toBe(false);
+  });
+
+  it('validates schema payloads and evaluates aggregations per month', () => {
+    const p = policy({
+      reducer: 'schema',
+      window: 'monthly',
+      payloadSchema: {
+        properties: { category: { type: 'string', enum: ['food', 'travel'] }, amount: { type: 'number', minimum: 0 } },
+        required: ['category', 'amount'],
+        additionalProperties: false,
+      },
+      aggregations: [
+        { name: 'spent', op: 'sum', field: 'amount' },
+        { name: 'byCategory', op: 'sum', field: 'amount', groupBy: 'category' },
+        { name: 'largest', op: 'max', field: 'amount' },
+      ],
+    });
+    expect(validateStateEvent(p, 'expense', { category: 'food', amount: 12 })).toBeNull();
+    expect(validateStateEvent(p, 'expense', { category: 'rent', amount: -1, note: 'x' })).toBe(
+      'payload.category must be one of: food, travel; payload.amount must be >= 0; payload.note is not allowed',
+    );
+
+    const log = events(
+      ['expense', { category: 'food', amount: 12 }, Date.UTC(2026, 1, 27)],
+      ['expense', { category: 'food', amount: 8 }],
+      ['expense', { category: 'travel', amount: 40 }],
+    );
+    const snapshot = buildStateSnapshot('tracker', p, log, T0);
+    expect(snapshot.windowKey).toBe('2026-03');
+    expect(snapshot.windowEndAt).toBe(Date.UTC(2026, 3, 1));
+    expect(snapshot.value).toEqual({ spent: 48, byCategory: { food: 8, travel: 40 }, largest: 40 });
+  });
+});
+
+describe('state policies', () => {
+  it('keeps the weekly minutes defaults for policies without a reducer', () => {
+    const legacy = normalizeStatePolicy('kids_study', { targetMinutes: 240 });
+    expect(legacy).toMatchObject({
+      reducer: 'sum_by_key', window: 'weekly', keyField: 'kid', valueField: 'minutes', target: 240, targetMinutes: 240,
+    });
+    const snapshot = buildStateSnapshot('kids_study', legacy, events(['minutes_logged', { kid: 'Asher', minutes: 250 }]), T0);
+    expect(snapshot.completed).toEqual({ Asher: true });
+    expect(validateStateEvent(legacy, 'minutes_logged', { kid: 'Asher' })).toBe('payload.minutes must be a number');
+  });
+
+  it('resets reducer-specific fields when the reducer changes and rejects bad updates', () => {
+    const current = normalizeStatePolicy('tracker', { timezone: 'Asia/Kolkata', targetMinutes: 240 });
+    const next = mergeStatePolicy('tracker', current, { reducer: 'counter', timezone: undefined });
+    expect(next).toMatchObject({
+      reducer: 'counter', window: 'none', keyField: 'key', target: 0, carryOverMode: 'none', timezone: 'Asia/Kolkata',
+    });
+    expect(mergeStatePolicy('tracker', next, { targetMinutes: 5 }).target).toBe(5);
+
+    expect(validateStatePolicyUpdates({ reducer: 'histogram' })).toContain('reducer must be one of');
+    expect(validateStatePolicyUpdates({ window: 'hourly' })).toContain('window must be one of');
+    expect(validateStatePolicyUpdates({ aggregations: [{ name: 'total', op: 'sum' }] }))
+      .toBe('aggregations[0].field is required for sum');
+  });
+});
@@ -183,6 +183,8 @@ describe('Talk CRUD', () => {
 
   it('migrates old executionMode values on load', async () => {
     const talk = store.createTalk('test-model');
+    // Wait for async writes to flush
+    await new Promise(r => setTimeout(r, 100));
     // Manually write an old-format talk.json to disk
     const talkDir = path.join(tmpDir, 'talks', talk.id);
     await fsp.mkdir(talkDir, { recursive: true });
@@ -323,6 +325,167 @@ describe('Message history', () => {
     expect(messages[0].content).toBe('Good line');
     expect(messages[1].content).toBe('After bad');
   });
+
+  it('pages history with before/after cursors', async () => {
+    const talk = store.createTalk();
+    for (let i = 0; i < 10; i++) {
+      await store.appendMessage(talk.id, makeMsg({ id: `m${i}`, content: `Message ${i} — ünïcode` }));
+    }
+
+    const newest = await store.getMessagePage(talk.id, { limit: 4 });
+    expect(newest!.messages.map((m) => m.id)).toEqual(['m6', 'm7', 'm8', 'm9']);
+    expect(newest).toMatchObject({ hasOlder: true, hasNewer: false, total: 10 });
+
+    const older = await store.getMessagePage(talk.id, { before: 'm6', limit: 4 });
+    expect(older!.messages.map((m) => m.id)).toEqual(['m2', 'm3', 'm4', 'm5']);
+    expect(older!.messages[0].content).toBe('Message 2 — ünïcode');
+
+    const oldest = await store.getMessagePage(talk.id, { before: 'm2', limit: 4 });
+    expect(oldest!.messages.map((m) => m.id)).toEqual(['m0', 'm1']);
+    expect(oldest!.hasOlder).toBe(false);
+
+    const newer = await store.getMessagePage(talk.id, { after: 'm1', limit: 3 });
+    expect(newer!.messages.map((m) => m.id)).toEqual(['m2', 'm3', 'm4']);
+    expect(newer!.hasNewer).toBe(true);
+
+    expect(await store.getMessagePage(talk.id, { after: 'missing' })).toBeNull();
+  });
+
+  it('keeps the offset index in step with deletes and rebuilds it when stale', async () => {
+    const talk = store.createTalk();
+    for (let i = 0; i < 5; i++) {
+      await store.appendMessage(talk.id, makeMsg({ id: `m${i}` }));
+    }
+    await store.deleteMessages(talk.id, ['m1', 'm3']);
+    expect((await store.getRecentMessages(talk.id, 10)).map((m) => m.id)).toEqual(['m0', 'm2', 'm4']);
+
+    // Another writer appends behind the store's back; the size check forces a rebuild.
+    const historyPath = path.join(tmpDir, 'talks', talk.id, 'history.jsonl');
+    await fsp.appendFile(historyPath, 'not valid json\n' + JSON.stringify(makeMsg({ id: 'external' })) + '\n');
+    const page = await store.getMessagePage(talk.id, { after: 'm4' });
+    expect(page!.messages.map((m) => m.id)).toEqual(['external']);
+
+    await fsp.rm(path.join(tmpDir, 'talks', talk.id, 'history.offsets.jsonl'));
+    const reloaded = new TalkStore(tmpDir, mockLogger);
+    await reloaded.init();
+    expect((await reloaded.getRecentMessages(talk.id, 2)).map((m) => m.id)).toEqual(['m4', 'external']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Forking
+// ---------------------------------------------------------------------------
+
+describe('Forking', () => {
+  function makeMsg(overrides: Partial<TalkMessage> = {}): TalkMessage {
+    return {
+      id: `msg-${Math.random().toString(36).slice(2, 8)}`,
+      role: 'user',
+      content: 'Hello',
+      timestamp: Date.now(),
+      ...overrides,
+    };
+  }
+
+  it('copies settings, knowledge and history up to the fork point', async () => {
+    const parent = store.createTalk('test-model');
+    store.updateTalk(parent.id, { topicTitle: 'Pricing', objective: 'Pick a price', toolMode: 'confirm', toolsDeny: ['shell_exec'] });
+    store.addJob(parent.id, '0 9 * * *', 'Daily check');
+    await store.setKnowledgeTopic(parent.id, 'tiers', 'Three tiers.', 'Tier layout');
+    await store.appendMessage(parent.id, makeMsg({ id: 'm1', content: 'Options?' }));
+    await store.appendMessage(parent.id, makeMsg({
+      id: 'm2',
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'web_search', arguments: '{}' } }],
+    }));
+    await store.appendMessage(parent.id, makeMsg({ id: 'm3', role: 'tool', tool_call_id: 'call_1', content: 'results' }));
+    await store.appendMessage(parent.id, makeMsg({ id: 'm4', role: 'assistant', content: 'Go with $20.' }));
+    store.addPin(parent.id, 'm1');
+    store.addPin(parent.id, 'm4');
+
+    const fork = await store.forkTalk(parent.id, 'm2');
+    expect(fork).not.toBeNull();
+    expect(fork!.topicTitle).toBe('Pricing (fork)');
+    expect(fork!).toMatchObject({
+      parentTalkId: parent.id,
+      forkedFromMessageId: 'm2',
+      objective: 'Pick a price',
+      toolMode: 'confirm',
+      toolsDeny: ['shell_exec'],
+      jobs: [],
+      pinnedMessageIds: ['m1'],
+    });
+    // The tool result answering m2 comes along so the history stays well-formed.
+    expect((await store.getMessages(fork!.id)).map((m) => m.id)).toEqual(['m1', 'm2', 'm3']);
+    expect(await store.getKnowledgeTopic(fork!.id, 'tiers')).toBe('Three tiers.');
+    expect(store.listForks(parent.id).map((t) => t.id)).toEqual([fork!.id]);
+    expect((await store.getMessages(parent.id))).toHaveLength(4);
+  });
+
+  it('returns null for an unknown message', async () => {
+    const parent = store.createTalk();
+    await store.appendMessage(parent.id, makeMsg({ id: 'm1' }));
+    expect(await store.forkTalk(parent.id, 'missing')).toBeNull();
+    expect(await store.forkTalk('no-such-talk', 'm1')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Message edits and reply versions
+// ---------------------------------------------------------------------------
+
+describe('Message edits and reply versions', () => {
+  function makeMsg(overrides: Partial<TalkMessage> = {}): TalkMessage {
+    return {
+      id: `msg-${Math.random().toString(36).slice(2, 8)}`,
+      role: 'user',
+      content: 'Hello',
+      timestamp: Date.now(),
+      ...overrides,
+    };
+  }
+
+  it('edits a message and keeps the previous content as a revision', async () => {
+    const talk = store.createTalk();
+    await store.appendMessage(talk.id, makeMsg({ id: 'm1', content: 'Draft the quarterly budget' }));
+
+    const edited = await store.editMessage(talk.id, 'm1', 'Draft the annual forecast');
+    expect(edited).toMatchObject({ content: 'Draft the annual forecast', revisions: [{ content: 'Draft the quarterly budget' }] });
+    expect(edited!.editedAt).toEqual(expect.any(Number));
+    expect((await store.getMessage(talk.id, 'm1'))!.content).toBe('Draft the annual forecast');
+    expect(await store.searchMessages('budget')).toEqual([]);
+    expect((await store.searchMessages('forecast')).map((hit) => hit.messageId)).toEqual(['m1']);
+    expect(await store.editMessage(talk.id, 'missing', 'x')).toBeNull();
+  });
+
+  it('keeps regenerated replies as sibling versions that can be switched', async () => {
+    const talk = store.createTalk('model-a');
+    await store.appendMessage(talk.id, makeMsg({ id: 'u1', content: 'Name the product' }));
+    await store.appendMessage(talk.id, makeMsg({ id: 'a1', role: 'assistant', content: 'Lumen', model: 'model-a' }));
+
+    const started = await store.startReplyVersion(talk.id, 'a1', { model: 'model-b' });
+    expect(started!.anchor.id).toBe('u1');
+    expect((await store.getMessages(talk.id)).map((m) => m.id)).toEqual(['u1']);
+    const [original, regenerated] = started!.set.versions;
+    expect(original).toMatchObject({ model: 'model-a', messages: [{ id: 'a1' }] });
+    expect(regenerated).toMatchObject({ model: 'model-b', messages: [] });
+    expect(started!.set.activeVersionId).toBe(regenerated.id);
+
+    await store.appendMessage(talk.id, makeMsg({ id: 'a2', role: 'assistant', content: 'Beacon', model: 'model-b' }));
+    const switched = await store.selectReplyVersion(talk.id, 'u1', original.id);
+    expect(switched!.activeVersionId).toBe(original.id);
+    expect((await store.getMessages(talk.id)).map((m) => m.id)).toEqual(['u1', 'a1']);
+    expect((await store.searchMessages('beacon'))).toEqual([]);
+
+    const [set] = await store.listReplyVersions(talk.id, 'u1');
+    expect(set.versions.find((v) => v.id === regenerated.id)!.messages.map((m) => m.id)).toEqual(['a2']);
+    expect(await store.selectReplyVersion(talk.id, 'u1', 'no-such-version')).toBeNull();
+    expect(await store.startReplyVersion(talk.id, 'missing')).toBeNull();
+
+    await store.deleteMessages(talk.id, ['u1']);
+    expect(await store.listReplyVersions(talk.id)).toEqual([]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -749,6 +912,17 @@ describe('Structured talk state', () => {
     expect(reloaded!.timezone).toBe('Asia/Kolkata');
   });
 
+  it('rejects events the stream reducer does not accept without writing them', async () => {
+    const talk = store.createTalk();
+    await store.configureStatePolicy(talk.id, 'chores', { reducer: 'checklist', items: ['Dishes'] });
+    await expect(store.appendStateEvent(talk.id, 'chores', { type: 'done', payload: { value: 'Dishes' } }))
+      .rejects.toThrow('Invalid state event: checklist events must be one of');
+    expect(await store.getStateEvents(talk.id, 'chores')).toHaveLength(0);
+
+    const checked = await store.appendStateEvent(talk.id, 'chores', { type: 'check', payload: { value: 'Dishes' } });
+    expect(checked!.snapshot.completed).toEqual({ Dishes: true });
+  });
+
   it('resolveStateStream falls back to default stream for stream_store talks', () => {
     const talk = store.createTalk();
     const fallbackDefault = store.resolveStateStream(talk.id);
@@ -781,3 +955,81 @@ describe('Structured talk state', () => {
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// Tool approvals
+// ---------------------------------------------------------------------------
+
+describe('Tool approvals', () => {
+  const resume = {
+    model: 'test-model',
+    toolNames: ['shell_exec'],
+    messages: [],
+    pendingBatch: [],
+    remainingToolCalls: [],
+    prompt: 'do it',
+  };
+
+  it('persists pending calls and lists them newest first', async () => {
+    const talk = store.createTalk();
+    const first = store.addPendingToolCall(talk.id, {
+      source: 'chat',
+      toolCallId: 'call_1',
+      toolName: 'shell_exec',
+      arguments: '{"command":"ls"}',
+      resume,
+    });
+    await new Promise((r) => setTimeout(r, 20));
+    const second = store.addPendingToolCall(talk.id, {
+      source: 'job',
+      jobId: 'job-1',
+      toolCallId: 'call_2',
+      toolName: 'shell_exec',
+      arguments: '{"command":"pwd"}',
+      resume,
+    });
+    expect(first!.status).toBe('pending');
+
+    // Wait for async writes to flush
+    await new Promise(r => setTimeout(r, 100));
+    const reloaded = new TalkStore(tmpDir, mockLogger);
+    await reloaded.init();
+    const listed = reloaded.listPendingToolCalls(talk.id);
+    expect(listed.map((call) => call.id)).toEqual([second!.id, first!.id]);
+    expect(reloaded.listPendingToolCalls(talk.id, { source: 'job', jobId: 'job-1' })).toHaveLength(1);
+  });
+
+  it('resolves a call once and records edited arguments', () => {
+    const talk = store.createTalk();
+    const versionBefore = store.getTalk(talk.id)!.talkVersion;
+    const call = store.addPendingToolCall(talk.id, {
+      source: 'chat',
+      toolCallId: 'call_1',
+      toolName: 'shell_exec',
+      arguments: '{"command":"rm -rf tmp"}',
+      resume,
+    })!;
+    expect(store.getTalk(talk.id)!.talkVersion).toBe(versionBefore + 1);
+
+    const resolved = store.resolvePendingToolCall(talk.id, call.id, {
+      status: 'approved',
+      editedArguments: '{"command":"rm -rf tmp/cache"}',
+    }, { modifiedBy: 'ios-client' });
+    expect(resolved!.status).toBe('approved');
+    expect(resolved!.resolvedBy).toBe('ios-client');
+    expect(resolved!.editedArguments).toBe('{"command":"rm -rf tmp/cache"}');
+
+    expect(store.resolvePendingToolCall(talk.id, call.id, { status: 'denied' })).toBeNull();
+    expect(store.getPendingToolCall(talk.id, call.id)!.status).toBe('approved');
+  });
+
+  it('expires pending chat calls without touching job calls', () => {
+    const talk = store.createTalk();
+    store.addPendingToolCall(talk.id, { source: 'chat', toolCallId: 'a', toolName: 't', arguments: '{}', resume });
+    store.addPendingToolCall(talk.id, { source: 'job', jobId: 'j', toolCallId: 'b', toolName: 't', arguments: '{}', resume });
+
+    expect(store.expirePendingToolCalls(talk.id, { source: 'chat' })).toBe(1);
+    expect(store.listPendingToolCalls(talk.id, { status: 'pending' }).map((call) => call.source)).toEqual(['job']);
+    expect(store.listPendingToolCalls(talk.id, { status: 'expired' })).toHaveLength(1);
+  });
+});
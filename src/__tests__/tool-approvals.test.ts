@@ -0,0 +1,410 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { Readable } from 'node:stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { runToolLoop, runToolLoopNonStreaming, TOOL_CALL_DENIED_CONTENT } from '../tool-loop';
+import { collectUnsentGmailDrafts, executeJob, resumeJobAfterApproval } from '../job-scheduler';
+import { handleTalkToolApproval } from '../talk-chat';
+import { TalkStore } from '../talk-store';
+import { getUsageLedger } from '../usage-ledger';
+import { ToolRegistry } from '../tool-registry';
+import type { ToolExecutor } from '../tool-executor';
+import type { Logger, ToolCallInfo } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+function toolCallResponse(calls: ToolCallInfo[]) {
+  return {
+    ok: true,
+    json: async () => ({
+      model: 'test-model',
+      choices: [{ message: { content: '', tool_calls: calls }, finish_reason: 'tool_calls' }],
+    }),
+  };
+}
+
+function textResponse(content: string) {
+  return {
+    ok: true,
+    json: async () => ({
+      model: 'test-model',
+      choices: [{ message: { content }, finish_reason: 'stop' }],
+    }),
+  };
+}
+
+const shellCall = (id: string, command: string): ToolCallInfo => ({
+  id,
+  type: 'function',
+  function: { name: 'shell_exec', arguments: JSON.stringify({ command }) },
+});
+
+describe('tool approvals in the non-streaming tool loop', () => {
+  let fetchMock: jest.SpyInstance;
+  let execute: jest.Mock;
+  let executor: ToolExecutor;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+    execute = jest.fn(async () => ({ success: true, content: 'ran', durationMs: 1 }));
+    executor = { execute } as unknown as ToolExecutor;
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const baseOpts = () => ({
+    model: 'test-model',
+    tools: [],
+    gatewayOrigin: 'http://127.0.0.1:1',
+    authToken: undefined,
+    executor,
+    logger: mockLogger,
+  });
+
+  it('pauses before a tool call that needs approval', async () => {
+    fetchMock.mockResolvedValueOnce(toolCallResponse([shellCall('c1', 'ls'), shellCall('c2', 'pwd')]) as any);
+
+    const result = await runToolLoopNonStreaming({
+      ...baseOpts(),
+      messages: [{ role: 'user', content: 'list files' }],
+      requiresApproval: () => true,
+    });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.pendingApproval).toBeDefined();
+    expect(result.pendingApproval!.remainingToolCalls.map((tc) => tc.id)).toEqual(['c1', 'c2']);
+    expect(result.pendingApproval!.pendingBatch).toHaveLength(1);
+    expect(result.pendingApproval!.pendingBatch[0].tool_calls).toHaveLength(2);
+  });
+
+  it('resumes with edited arguments and pauses again on the next call', async () => {
+    fetchMock.mockResolvedValueOnce(toolCallResponse([shellCall('c1', 'ls'), shellCall('c2', 'pwd')]) as any);
+    const paused = await runToolLoopNonStreaming({
+      ...baseOpts(),
+      messages: [{ role: 'user', content: 'list files' }],
+      requiresApproval: () => true,
+    });
+    const pause = paused.pendingApproval!;
+
+    const resumed = await runToolLoopNonStreaming({
+      ...baseOpts(),
+      messages: pause.messages as any,
+      requiresApproval: () => true,
+      resumeToolCalls: pause.remainingToolCalls,
+      toolCallDecisions: { c1: { approved: true, arguments: '{"command":"ls -la"}' } },
+    });
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute).toHaveBeenCalledWith('shell_exec', '{"command":"ls -la"}', { talkId: undefined });
+    expect(resumed.pendingApproval!.remainingToolCalls.map((tc) => tc.id)).toEqual(['c2']);
+    // The batch now carries the edited call and its result.
+    const batch = resumed.pendingApproval!.pendingBatch;
+    expect(batch[0].tool_calls![0].function.arguments).toBe('{"command":"ls -la"}');
+    expect(batch[1]).toMatchObject({ role: 'tool', tool_call_id: 'c1', content: 'ran' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('always pauses before gmail_send_draft, even without a confirm tool mode', async () => {
+    fetchMock.mockResolvedValueOnce(toolCallResponse([{
+      id: 'c1',
+      type: 'function',
+      function: { name: 'gmail_send_draft', arguments: '{"draft_id":"r-1"}' },
+    }]) as any);
+
+    const result = await runToolLoopNonStreaming({
+      ...baseOpts(),
+      messages: [{ role: 'user', content: 'send it' }],
+    });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.pendingApproval!.remainingToolCalls[0].function.name).toBe('gmail_send_draft');
+  });
+
+  it('feeds a denial back to the model and finishes the turn', async () => {
+    fetchMock
+      .mockResolvedValueOnce(toolCallResponse([shellCall('c1', 'rm -rf /')]) as any)
+      .mockResolvedValueOnce(textResponse('Okay, I will not delete anything.') as any);
+    const paused = await runToolLoopNonStreaming({
+      ...baseOpts(),
+      messages: [{ role: 'user', content: 'clean up' }],
+      requiresApproval: () => true,
+    });
+    const pause = paused.pendingApproval!;
+
+    const resumed = await runToolLoopNonStreaming({
+      ...baseOpts(),
+      messages: pause.messages as any,
+      requiresApproval: () => true,
+      resumeToolCalls: pause.remainingToolCalls,
+      toolCallDecisions: { c1: { approved: false } },
+    });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(resumed.pendingApproval).toBeUndefined();
+    expect(resumed.fullContent).toBe('Okay, I will not delete anything.');
+    expect(resumed.executedTools[0]).toMatchObject({ resultSuccess: false, resultContent: TOOL_CALL_DENIED_CONTENT });
+    const secondBody = JSON.parse((fetchMock.mock.calls[1][1] as RequestInit).body as string);
+    expect(secondBody.messages[secondBody.messages.length - 1]).toMatchObject({ role: 'tool', tool_call_id: 'c1', content: TOOL_CALL_DENIED_CONTENT });
+  });
+});
+
+describe('tool approvals in the Responses tool loop', () => {
+  let fetchMock: jest.SpyInstance;
+  let execute: jest.Mock;
+  let res: ServerResponse;
+
+  const functionCallResponse = (callId: string, name: string, args: string) => ({
+    ok: true,
+    json: async () => ({ model: 'test-model', output: [{ type: 'function_call', call_id: callId, name, arguments: args }] }),
+  });
+  const outputTextResponse = (text: string) => ({
+    ok: true,
+    json: async () => ({
+      model: 'test-model',
+      output: [{ type: 'message', role: 'assistant', content: [{ type: 'output_text', text }] }],
+    }),
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+    execute = jest.fn(async () => ({ success: true, content: 'sent', durationMs: 1 }));
+    res = { write: jest.fn(), writableEnded: false } as unknown as ServerResponse;
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  const baseOpts = () => ({
+    model: 'test-model',
+    tools: [],
+    gatewayOrigin: 'http://127.0.0.1:1',
+    authToken: undefined,
+    executor: { execute } as unknown as ToolExecutor,
+    logger: mockLogger,
+    res,
+    registry: {} as ToolRegistry,
+    transport: 'responses' as const,
+  });
+
+  it('pauses before gmail_send_draft and resumes once approved', async () => {
+    fetchMock.mockResolvedValueOnce(functionCallResponse('c1', 'gmail_send_draft', '{"draft_id":"r-1"}') as any);
+    const onApprovalRequired = jest.fn(() => 'approval-1');
+
+    const paused = await runToolLoop({
+      ...baseOpts(),
+      messages: [{ role: 'user', content: 'send it' }],
+      onApprovalRequired,
+    });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(paused.toolCallMessages).toEqual([]);
+    const pause = paused.pendingApproval!;
+    expect(pause.remainingToolCalls.map((tc) => tc.id)).toEqual(['c1']);
+    expect(onApprovalRequired).toHaveBeenCalledWith(pause);
+    const events = (res.write as jest.Mock).mock.calls.map(([chunk]) => String(chunk));
+    expect(events.some((e) => e.startsWith('event: tool_approval_required') && e.includes('"approvalId":"approval-1"'))).toBe(true);
+
+    fetchMock.mockResolvedValueOnce(outputTextResponse('Sent.') as any);
+    const resumed = await runToolLoop({
+      ...baseOpts(),
+      messages: pause.messages as any,
+      resumeToolCalls: pause.remainingToolCalls,
+      toolCallDecisions: { c1: { approved: true } },
+    });
+
+    expect(execute).toHaveBeenCalledWith('gmail_send_draft', '{"draft_id":"r-1"}', { talkId: undefined });
+    expect(resumed.pendingApproval).toBeUndefined();
+    expect(resumed.fullContent).toBe('Sent.');
+    expect(resumed.toolCallMessages).toHaveLength(2);
+    expect(resumed.toolCallMessages[1]).toMatchObject({ role: 'tool', tool_call_id: 'c1', content: 'sent' });
+  });
+
+  it('feeds a denial in confirm mode back to the model', async () => {
+    fetchMock.mockResolvedValueOnce(functionCallResponse('c1', 'shell_exec', '{"command":"rm -rf /"}') as any);
+    const paused = await runToolLoop({
+      ...baseOpts(),
+      messages: [{ role: 'user', content: 'clean up' }],
+      requiresApproval: () => true,
+    });
+    const pause = paused.pendingApproval!;
+    expect(execute).not.toHaveBeenCalled();
+
+    fetchMock.mockResolvedValueOnce(outputTextResponse('Okay, nothing deleted.') as any);
+    const resumed = await runToolLoop({
+      ...baseOpts(),
+      messages: pause.messages as any,
+      requiresApproval: () => true,
+      resumeToolCalls: pause.remainingToolCalls,
+      toolCallDecisions: { c1: { approved: false } },
+    });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(resumed.fullContent).toBe('Okay, nothing deleted.');
+    const secondBody = JSON.parse((fetchMock.mock.calls[1][1] as RequestInit).body as string);
+    expect(JSON.stringify(secondBody.input)).toContain(TOOL_CALL_DENIED_CONTENT);
+  });
+});
+
+describe('tool approvals for jobs', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  let fetchMock: jest.SpyInstance;
+  let execute: jest.Mock;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'tool-approvals-test-'));
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+    fetchMock = jest.spyOn(global, 'fetch');
+    execute = jest.fn(async () => ({ success: true, content: 'done', durationMs: 1 }));
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('queues the approval, reports awaiting_approval, and completes after approval', async () => {
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { toolMode: 'confirm' });
+    const job = store.addJob(talk.id, 'every 1h', 'tidy the workspace')!;
+    const opts = {
+      store,
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      logger: mockLogger,
+      registry: new ToolRegistry(tmpDir, mockLogger),
+      executor: { execute } as unknown as ToolExecutor,
+      dataDir: tmpDir,
+    };
+
+    fetchMock.mockResolvedValueOnce(toolCallResponse([shellCall('c1', 'ls')]) as any);
+    const pausedReport = await executeJob(opts, talk.id, job);
+    expect(pausedReport!.status).toBe('awaiting_approval');
+    expect(store.getJob(talk.id, job.id)!.lastStatus).toBe('awaiting_approval');
+    const [pending] = store.listPendingToolCalls(talk.id, { status: 'pending' });
+    expect(pending).toMatchObject({ source: 'job', jobId: job.id, toolName: 'shell_exec' });
+
+    const approved = store.resolvePendingToolCall(talk.id, pending.id, { status: 'approved' })!;
+    fetchMock.mockResolvedValueOnce(textResponse('Workspace tidied.') as any);
+    const finalReport = await resumeJobAfterApproval(opts, approved);
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(finalReport!.status).toBe('success');
+    expect(finalReport!.summary).toBe('Workspace tidied.');
+    expect(finalReport!.runAt).toBe(pausedReport!.runAt);
+  });
+});
+
+describe('chat tool approval requests', () => {
+  let tmpDir: string;
+  let store: TalkStore;
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'tool-approvals-chat-test-'));
+    store = new TalkStore(tmpDir, mockLogger);
+    await store.init();
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(async () => {
+    fetchMock.mockRestore();
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  const pausedTalk = () => {
+    const talk = store.createTalk('test-model');
+    store.updateTalk(talk.id, { toolMode: 'confirm' });
+    const call = shellCall('c1', 'ls');
+    const pending = store.addPendingToolCall(talk.id, {
+      source: 'chat',
+      toolCallId: call.id,
+      toolName: call.function.name,
+      arguments: call.function.arguments,
+      resume: {
+        model: 'test-model',
+        toolNames: ['shell_exec'],
+        messages: [{ role: 'user', content: 'list files' }, { role: 'assistant', content: '', tool_calls: [call] }],
+        pendingBatch: [{ role: 'assistant', content: '', tool_calls: [call] }],
+        remainingToolCalls: [call],
+        prompt: 'list files',
+      },
+    })!;
+    return { talkId: talk.id, callId: pending.id };
+  };
+
+  const approve = async (talkId: string, callId: string) => {
+    const req = Object.assign(Readable.from([Buffer.from(JSON.stringify({ decision: 'approve' }))]), { method: 'POST', headers: {} });
+    let status = 0;
+    let payload = '';
+    const res = {
+      set statusCode(code: number) { status = code; },
+      setHeader: () => undefined,
+      end: (chunk: string) => { payload = chunk; },
+    };
+    await handleTalkToolApproval({
+      req: req as unknown as IncomingMessage,
+      res: res as unknown as ServerResponse,
+      talkId,
+      callId,
+      store,
+      gatewayOrigin: 'http://127.0.0.1:1',
+      authToken: undefined,
+      logger: mockLogger,
+      registry: new ToolRegistry(tmpDir, mockLogger),
+      executor: { execute: jest.fn() } as unknown as ToolExecutor,
+      dataDir: tmpDir,
+      resumeJob: jest.fn(),
+    });
+    return { status, body: JSON.parse(payload) };
+  };
+
+  it('refuses to resume while the talk is generating and keeps the approval pending', async () => {
+    const { talkId, callId } = pausedTalk();
+    store.setProcessing(talkId, true);
+
+    expect(await approve(talkId, callId)).toEqual({ status: 409, body: { error: 'Talk is already generating a response' } });
+    expect(store.getPendingToolCall(talkId, callId)!.status).toBe('pending');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses to resume a talk that is over its budget', async () => {
+    const { talkId, callId } = pausedTalk();
+    store.updateTalk(talkId, { budget: { monthlyTokens: 100, onExceeded: 'refuse' } });
+    getUsageLedger(tmpDir, mockLogger).record({
+      model: 'test-model',
+      route: 'direct',
+      usage: { inputTokens: 500, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 },
+      talkId,
+    });
+
+    const { status, body } = await approve(talkId, callId);
+    expect(status).toBe(402);
+    expect(body.code).toBe('TALK_BUDGET_EXCEEDED');
+    expect(store.getPendingToolCall(talkId, callId)!.status).toBe('pending');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('collectUnsentGmailDrafts', () => {
+  it('lists drafts created during a run unless they were sent', () => {
+    const drafts = collectUnsentGmailDrafts([
+      { role: 'user', content: 'draft the weekly update' },
+      { role: 'tool', name: 'gmail_create_draft', content: 'Created Gmail draft (not sent).\nDraft ID: r-1\nTo: a@example.com\nSubject: Weekly update\n' },
+      { role: 'tool', name: 'gmail_create_draft', content: 'Created Gmail draft (not sent).\nDraft ID: r-2\nTo: b@example.com\nSubject: Invoice\n' },
+      { role: 'tool', name: 'gmail_send_draft', content: 'Sent Gmail draft r-2.\nMessage ID: m-9' },
+      { role: 'tool', name: 'gmail_create_draft', content: 'gmail_create_draft failed: Google API failed (403)' },
+    ]);
+    expect(drafts).toEqual([{ draftId: 'r-1', to: 'a@example.com', subject: 'Weekly update' }]);
+  });
+});
@@ -0,0 +1,206 @@
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { UsageLedger, parseUpstreamUsage, priceUsage, resolveModelPricing } from '../usage-ledger';
+import { runToolLoopNonStreaming } from '../tool-loop';
+import { translateAnthropicResponse } from '../anthropic-format';
+import type { ToolExecutor } from '../tool-executor';
+import type { Logger } from '../types';
+
+const mockLogger: Logger = {
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  debug: jest.fn(),
+};
+
+describe('parseUpstreamUsage', () => {
+  it('splits cached tokens out of OpenAI prompt counts', () => {
+    expect(parseUpstreamUsage({
+      prompt_tokens: 1000,
+      completion_tokens: 50,
+      prompt_tokens_details: { cached_tokens: 800 },
+    })).toEqual({ inputTokens: 200, outputTokens: 50, cacheReadTokens: 800, cacheWriteTokens: 0 });
+  });
+
+  it('keeps Anthropic cache counts from translated responses', () => {
+    const translated = translateAnthropicResponse({
+      content: [{ type: 'text', text: 'hi' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 12, output_tokens: 7, cache_read_input_tokens: 3000, cache_creation_input_tokens: 400 },
+    });
+    expect(parseUpstreamUsage(translated.usage)).toEqual({
+      inputTokens: 12,
+      outputTokens: 7,
+      cacheReadTokens: 3000,
+      cacheWriteTokens: 400,
+    });
+  });
+
+  it('ignores missing or empty usage', () => {
+    expect(parseUpstreamUsage(undefined)).toBeUndefined();
+    expect(parseUpstreamUsage({ prompt_tokens: 0, completion_tokens: 0 })).toBeUndefined();
+  });
+});
+
+describe('pricing', () => {
+  const table = {
+    'anthropic/claude-sonnet-4-5': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    'gpt-4o*': { input: 2.5, output: 10 },
+    'gpt-4o-mini*': { input: 0.15, output: 0.6 },
+  };
+
+  it('matches exact ids, bare ids and the longest prefix pattern', () => {
+    expect(resolveModelPricing('anthropic/claude-sonnet-4-5', table)?.input).toBe(3);
+    expect(resolveModelPricing('openai/gpt-4o-mini-2024-07-18', table)?.input).toBe(0.15);
+    expect(resolveModelPricing('openai/gpt-4o-2024-08-06', table)?.input).toBe(2.5);
+    expect(resolveModelPricing('ollama/llama3', table)).toBeUndefined();
+  });
+
+  it('prices cache tokens separately, leaving calls unpriced without a cache price', () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000, cacheWriteTokens: 0 };
+    expect(priceUsage(usage, table['anthropic/claude-sonnet-4-5'])).toBeCloseTo(3 + 1.5 + 0.3);
+    expect(priceUsage(usage, table['gpt-4o*'])).toBeUndefined();
+    expect(priceUsage({ ...usage, cacheReadTokens: 0 }, table['gpt-4o*'])).toBeCloseTo(2.5 + 1);
+    expect(priceUsage({ ...usage, cacheReadTokens: 0, cacheWriteTokens: 1_000_000 }, { input: 3, output: 15, cacheRead: 0.3 })).toBeUndefined();
+  });
+});
+
+describe('UsageLedger', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'usage-ledger-test-'));
+  });
+
+  afterEach(async () => {
+    await fsp.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('aggregates by talk, agent, job and model, and survives a reload', () => {
+    const ledger = new UsageLedger(tmpDir, mockLogger);
+    ledger.setPricing({ 'openai/gpt-4o': { input: 2, output: 8 } });
+    const usage = { inputTokens: 500_000, outputTokens: 125_000, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    ledger.record({ model: 'openai/gpt-4o', route: 'direct', usage, talkId: 't1', agentName: 'Analyst' });
+    ledger.record({ model: 'openai/gpt-4o', route: 'openclaw', usage, talkId: 't1', jobId: 'job-1' });
+    ledger.record({ model: 'local/llama', route: 'openclaw', usage, talkId: 't2' });
+
+    const reloaded = new UsageLedger(tmpDir, mockLogger);
+    reloaded.setPricing(ledger.getPricing());
+    const summary = reloaded.summarize();
+    expect(summary.totals).toMatchObject({ calls: 3, inputTokens: 1_500_000, costUsd: 4, unpricedCalls: 1 });
+    expect(summary.byTalk.map((group) => [group.key, group.costUsd])).toEqual([['t1', 4], ['t2', 0]]);
+    expect(summary.byAgent).toEqual([expect.objectContaining({ key: 'Analyst', calls: 1, costUsd: 2 })]);
+    expect(summary.byJob).toEqual([expect.objectContaining({ key: 'job-1', calls: 1 })]);
+    expect(summary.byDay).toHaveLength(1);
+
+    expect(reloaded.summarize({ talkId: 't2' }).totals).toMatchObject({ calls: 1, costUsd: 0, unpricedCalls: 1 });
+    expect(reloaded.summarize({ since: Date.now() + 60_000 }).totals.calls).toBe(0);
+  });
+
+  it('records the model that served the call, priced by it or by the requested model', () => {
+    const ledger = new UsageLedger(tmpDir, mockLogger);
+    ledger.setPricing({ 'claude-sonnet-4-5*': { input: 3, output: 15 }, 'openai/gpt-4o': { input: 2, output: 8 } });
+    const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    const alias = ledger.record({ model: 'openclaw', responseModel: 'claude-sonnet-4-5-20250929', route: 'openclaw', usage });
+    expect(alias).toMatchObject({ model: 'claude-sonnet-4-5-20250929', requestedModel: 'openclaw', costUsd: 3 });
+    const dated = ledger.record({ model: 'openai/gpt-4o', responseModel: 'gpt-4o-2024-08-06', route: 'direct', usage });
+    expect(dated).toMatchObject({ model: 'gpt-4o-2024-08-06', requestedModel: 'openai/gpt-4o', costUsd: 2 });
+    const same = ledger.record({ model: 'openai/gpt-4o', responseModel: 'openai/gpt-4o', route: 'direct', usage });
+    expect(same).not.toHaveProperty('requestedModel');
+  });
+
+  it('keeps running monthly totals per talk, pricing unpriced calls with the current table', () => {
+    const ledger = new UsageLedger(tmpDir, mockLogger);
+    ledger.setPricing({ 'openai/gpt-4o': { input: 2, output: 8 } });
+    const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    ledger.record({ model: 'openai/gpt-4o', route: 'direct', usage, talkId: 't1' });
+    ledger.record({ model: 'local/llama', route: 'openclaw', usage, talkId: 't1' });
+    ledger.record({ model: 'openai/gpt-4o', route: 'direct', usage, talkId: 't2' });
+
+    const now = new Date();
+    const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+    expect(ledger.totals({ talkId: 't1', since: monthStart })).toMatchObject({ calls: 2, costUsd: 2, unpricedCalls: 1 });
+    ledger.setPricing({ 'openai/gpt-4o': { input: 4, output: 8 }, 'local/*': { input: 0.5, output: 0 } });
+    // Priced calls keep the price they were recorded at; unpriced ones take the new table.
+    expect(ledger.totals({ talkId: 't1', since: monthStart })).toMatchObject({ calls: 2, costUsd: 2.5, unpricedCalls: 0 });
+    expect(ledger.totals({ talkId: 't1', since: monthStart })).toEqual(ledger.summarize({ talkId: 't1', since: monthStart }).totals);
+  });
+
+  it('compacts old call records into daily rollups', async () => {
+    const old = Date.UTC(2020, 0, 15, 9);
+    const usage = { inputTokens: 100, outputTokens: 10, cacheReadTokens: 0, cacheWriteTokens: 0 };
+    const lines = [
+      { id: 'a', ts: old, model: 'openai/gpt-4o', route: 'direct', talkId: 't1', costUsd: 0.5, ...usage },
+      { id: 'b', ts: old + 3_600_000, model: 'openai/gpt-4o', route: 'direct', talkId: 't1', costUsd: 0.25, ...usage },
+      { id: 'c', ts: old + 7_200_000, model: 'local/llama', route: 'openclaw', talkId: 't1', ...usage },
+    ];
+    await fsp.writeFile(path.join(tmpDir, 'usage.jsonl'), lines.map((line) => `${JSON.stringify(line)}\n`).join(''));
+
+    const ledger = new UsageLedger(tmpDir, mockLogger);
+    ledger.record({ model: 'openai/gpt-4o', route: 'direct', usage, talkId: 't1' });
+
+    const persisted = (await fsp.readFile(path.join(tmpDir, 'usage.jsonl'), 'utf-8'))
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(persisted).toHaveLength(3);
+    expect(persisted[0]).toMatchObject({ ts: Date.UTC(2020, 0, 15), model: 'openai/gpt-4o', calls: 2, inputTokens: 200, costUsd: 0.75 });
+    expect(persisted[1]).toMatchObject({ model: 'local/llama', calls: 1 });
+    expect(persisted[2].calls).toBeUndefined();
+
+    const reloaded = new UsageLedger(tmpDir, mockLogger);
+    const jan = Date.UTC(2020, 0, 1);
+    expect(reloaded.totals({ talkId: 't1', since: jan, until: Date.UTC(2020, 1, 1) }))
+      .toMatchObject({ calls: 3, inputTokens: 300, costUsd: 0.75, unpricedCalls: 1 });
+    expect(reloaded.summarize().byDay.map((group) => [group.key, group.calls])).toEqual([
+      ['2020-01-15', 3],
+      [new Date().toISOString().slice(0, 10), 1],
+    ]);
+  });
+
+  it('records every upstream call made by the tool loop', async () => {
+    const ledger = new UsageLedger(tmpDir, mockLogger);
+    const fetchMock = jest.spyOn(global, 'fetch');
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          model: 'gpt-4o',
+          choices: [{
+            message: { content: '', tool_calls: [{ id: 'c1', type: 'function', function: { name: 'shell_exec', arguments: '{}' } }] },
+            finish_reason: 'tool_calls',
+          }],
+          usage: { prompt_tokens: 100, completion_tokens: 20 },
+        }),
+      } as any)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          model: 'gpt-4o',
+          choices: [{ message: { content: 'done' }, finish_reason: 'stop' }],
+          usage: { prompt_tokens: 150, completion_tokens: 5, prompt_tokens_details: { cached_tokens: 100 } },
+        }),
+      } as any);
+    const executor = { execute: jest.fn(async () => ({ success: true, content: 'ok' })) } as unknown as ToolExecutor;
+    try {
+      await runToolLoopNonStreaming({
+        messages: [{ role: 'user', content: 'go' }],
+        model: 'openai/gpt-4o',
+        tools: [],
+        gatewayOrigin: 'http://127.0.0.1:1',
+        authToken: undefined,
+        executor,
+        logger: mockLogger,
+        talkId: 't1',
+        usage: { ledger, jobId: 'job-9' },
+      });
+    } finally {
+      fetchMock.mockRestore();
+    }
+
+    expect(ledger.summarize({ talkId: 't1' }).byJob).toEqual([
+      expect.objectContaining({ key: 'job-9', calls: 2, inputTokens: 150, outputTokens: 25, cacheReadTokens: 100 }),
+    ]);
+  });
+});
@@ -204,6 +204,8 @@ export async function* translateAnthropicStream(
   let responseModel: string | undefined;
   let promptTokens = 0;
   let completionTokens = 0;
+  let cacheReadTokens = 0;
+  let cacheWriteTokens = 0;
 
   while (true) {
     const { done, value } = await reader.read();
@@ -232,6 +234,8 @@ export async function* translateAnthropicStream(
         if (message?.model) responseModel = message.model as string;
         const usage = message?.usage as Record<string, number> | undefined;
         if (usage?.input_tokens) promptTokens = usage.input_tokens;
+        if (usage?.cache_read_input_tokens) cacheReadTokens = usage.cache_read_input_tokens;
+        if (usage?.cache_creation_input_tokens) cacheWriteTokens = usage.cache_creation_input_tokens;
       }
 
       if (eventType === 'content_block_start') {
@@ -290,8 +294,13 @@ export async function* translateAnthropicStream(
             model: responseModel,
             delta: {},
             finish_reason: finishReason,
-            usage: promptTokens || completionTokens
-              ? { prompt_tokens: promptTokens, completion_tokens: completionTokens }
+            usage: promptTokens || completionTokens || cacheReadTokens || cacheWriteTokens
+              ? translateUsage({
+                input_tokens: promptTokens,
+                output_tokens: completionTokens,
+                cache_read_input_tokens: cacheReadTokens,
+                cache_creation_input_tokens: cacheWriteTokens,
+              })
               : undefined,
           });
         }
@@ -304,11 +313,38 @@ export async function* translateAnthropicStream(
   }
 }
 
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/**
+ * OpenAI-style usage. Anthropic cache counts are passed through under their
+ * own names (they are not included in prompt_tokens) for the usage ledger.
+ */
+interface TranslatedUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+function translateUsage(usage: AnthropicUsage): TranslatedUsage {
+  return {
+    prompt_tokens: usage.input_tokens ?? 0,
+    completion_tokens: usage.output_tokens ?? 0,
+    ...(usage.cache_read_input_tokens ? { cache_read_input_tokens: usage.cache_read_input_tokens } : {}),
+    ...(usage.cache_creation_input_tokens ? { cache_creation_input_tokens: usage.cache_creation_input_tokens } : {}),
+  };
+}
+
 function formatOpenAIChunk(opts: {
   model?: string;
   delta: Record<string, unknown>;
   finish_reason?: string;
-  usage?: { prompt_tokens: number; completion_tokens: number };
+  usage?: TranslatedUsage;
 }): string {
   const chunk: Record<string, unknown> = {
     choices: [{
@@ -336,10 +372,7 @@ interface AnthropicResponseJson {
     input?: unknown;
   }>;
   stop_reason?: string;
-  usage?: {
-    input_tokens?: number;
-    output_tokens?: number;
-  };
+  usage?: AnthropicUsage;
 }
 
 /**
@@ -360,7 +393,7 @@ export function translateAnthropicResponse(json: AnthropicResponseJson): {
     };
     finish_reason: string;
   }>;
-  usage?: { prompt_tokens: number; completion_tokens: number };
+  usage?: TranslatedUsage;
 } {
   const content = json.content ?? [];
   let textContent = '';
@@ -402,11 +435,6 @@ export function translateAnthropicResponse(json: AnthropicResponseJson): {
       },
       finish_reason: finishReason,
     }],
-    ...(json.usage ? {
-      usage: {
-        prompt_tokens: json.usage.input_tokens ?? 0,
-        completion_tokens: json.usage.output_tokens ?? 0,
-      },
-    } : {}),
+    ...(json.usage ? { usage: translateUsage(json.usage) } : {}),
   };
 }
@@ -1,5 +1,13 @@
 import type { IncomingMessage } from 'node:http';
 import { timingSafeEqual } from 'node:crypto';
+import type { DeviceInfo, DeviceScope, DeviceTokenStore } from './device-tokens.js';
+import { isDeviceToken, scopesAllow } from './device-tokens.js';
+
+/** Who a request is authenticated as. */
+export type AuthPrincipal =
+  | { kind: 'gateway' }
+  | { kind: 'local' }
+  | { kind: 'device'; device: DeviceInfo };
 
 function getBearerToken(req: IncomingMessage): string | undefined {
   const raw = (req.headers.authorization ?? '').trim();
@@ -21,17 +29,35 @@ export function resolveGatewayToken(cfg: Record<string, any>): string | undefine
   );
 }
 
-export function authorize(req: IncomingMessage, cfg: Record<string, any>): boolean {
+/**
+ * Authenticate a request. Bearer tokens are checked against the gateway token
+ * and then against minted device tokens. Without a gateway token, requests
+ * with no bearer token are allowed from localhost only.
+ */
+export function authorize(
+  req: IncomingMessage,
+  cfg: Record<string, any>,
+  devices?: DeviceTokenStore,
+): AuthPrincipal | null {
   const expectedToken = resolveGatewayToken(cfg);
+  const bearerToken = getBearerToken(req);
+  if (bearerToken && devices && isDeviceToken(bearerToken)) {
+    const device = devices.resolve(bearerToken);
+    if (device) return { kind: 'device', device };
+  }
   if (!expectedToken) {
     const remote = req.socket?.remoteAddress ?? '';
-    return (
+    const isLocal =
       remote === '127.0.0.1' ||
       remote === '::1' ||
-      remote.startsWith('::ffff:127.')
-    );
+      remote.startsWith('::ffff:127.');
+    return isLocal ? { kind: 'local' } : null;
   }
-  const bearerToken = getBearerToken(req);
-  if (!bearerToken) return false;
-  return safeEqual(bearerToken, expectedToken);
+  if (!bearerToken) return null;
+  return safeEqual(bearerToken, expectedToken) ? { kind: 'gateway' } : null;
+}
+
+/** Gateway-token and localhost callers have every scope; devices have their own. */
+export function principalHasScope(principal: AuthPrincipal, scope: DeviceScope): boolean {
+  return principal.kind !== 'device' || scopesAllow(principal.device.scopes, scope);
 }
@@ -0,0 +1,34 @@
+/**
+ * BM25 Scoring
+ *
+ * Okapi BM25 term scoring shared by the retrieval index
+ * (knowledge-retrieval.ts) and full-text message search (message-search.ts),
+ * so both rank with the same constants and formula. Each caller keeps its own
+ * postings and sums the per-term scores.
+ */
+
+/** Term-frequency saturation. */
+export const BM25_K1 = 1.2;
+/** Document-length normalization. */
+export const BM25_B = 0.75;
+
+export interface Bm25TermStats {
+  /** Occurrences of the term in the document. */
+  tf: number;
+  /** Documents in the corpus containing the term. */
+  df: number;
+  /** Documents in the corpus. */
+  docCount: number;
+  /** The document's length in terms. */
+  docLength: number;
+  /** Mean document length in terms (0 for an empty corpus). */
+  avgDocLength: number;
+}
+
+/** One query term's contribution to a document's BM25 score (0 when the term is absent). */
+export function bm25TermScore({ tf, df, docCount, docLength, avgDocLength }: Bm25TermStats): number {
+  if (tf <= 0) return 0;
+  const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+  const lengthNorm = avgDocLength > 0 ? docLength / avgDocLength : 1;
+  return idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * lengthNorm));
+}
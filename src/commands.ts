@@ -32,7 +32,11 @@ export function registerCommands(api: PluginApi, talkStore: TalkStore): void {
         if (jobCount > 0) extras.push(`${jobCount} job${jobCount > 1 ? 's' : ''}`);
         if (pinCount > 0) extras.push(`${pinCount} pin${pinCount > 1 ? 's' : ''}`);
         const extrasStr = extras.length > 0 ? ` [${extras.join(', ')}]` : '';
-        return `  ${i + 1}. ${title} (${model}) — ${age}${extrasStr}`;
+        const parentTitle = t.parentTalkId
+          ? talkStore.getTalk(t.parentTalkId)?.topicTitle || t.parentTalkId.slice(0, 8)
+          : null;
+        const lineageStr = parentTitle ? ` ↳ fork of "${parentTitle}"` : '';
+        return `  ${i + 1}. ${title} (${model}) — ${age}${extrasStr}${lineageStr}`;
       });
 
       ctx.reply(`Active talks (${talks.length}):\n${lines.join('\n')}`);
@@ -72,6 +76,18 @@ export function registerCommands(api: PluginApi, talkStore: TalkStore): void {
         lines.push(`Objectives: ${talk.objective.slice(0, 200)}`);
       }
 
+      if (talk.parentTalkId) {
+        const parent = talkStore.getTalk(talk.parentTalkId);
+        lines.push(
+          `Forked from: ${parent?.topicTitle || '(untitled)'} (${talk.parentTalkId}${parent ? '' : ', deleted'})`
+          + ` at message ${talk.forkedFromMessageId ?? '?'}`,
+        );
+      }
+      const forks = talkStore.listForks(talk.id);
+      if (forks.length > 0) {
+        lines.push(`Forks: ${forks.map((fork) => fork.topicTitle || fork.id.slice(0, 8)).join(', ')}`);
+      }
+
       const slackRuntime = getSlackIngressTalkRuntimeSnapshot(talk.id);
       lines.push(`Slack Events: passed=${slackRuntime.counters.passed}`);
 
@@ -97,10 +113,14 @@ export function registerCommands(api: PluginApi, talkStore: TalkStore): void {
         const lastRun = job.lastRunAt
           ? `last: ${formatAge(job.lastRunAt)} (${job.lastStatus ?? 'unknown'})`
           : 'never run';
+        const deferral = job.deferredUntil && job.deferredUntil > Date.now()
+          ? `, deferred until ${new Date(job.deferredUntil).toISOString()}`
+          : '';
+        const priority = job.priority && job.priority !== 'normal' ? ` [${job.priority} priority]` : '';
         const promptPreview = job.prompt.length > 60
           ? job.prompt.slice(0, 60) + '...'
           : job.prompt;
-        return `  [${talkName}] "${job.schedule}" — ${promptPreview} (${lastRun})`;
+        return `  [${talkName}] "${job.schedule}"${priority} — ${promptPreview} (${lastRun}${deferral})`;
       });
 
       ctx.reply(`Active automations (${activeJobs.length}):\n${lines.join('\n')}`);
@@ -0,0 +1,93 @@
+/**
+ * Device HTTP Handlers
+ *
+ * Handles /api/devices: list paired devices, mint a scoped token, change a
+ * device's scopes, and revoke a device. Requires the admin scope (checked by the caller).
+ */
+
+import type { HandlerContext } from './types.js';
+import type { DeviceTokenStore } from './device-tokens.js';
+import { DEVICE_SCOPES, normalizeDeviceScopes } from './device-tokens.js';
+import { sendJson, readJsonBody } from './http.js';
+
+export async function handleDeviceRoutes(ctx: HandlerContext, devices: DeviceTokenStore): Promise<void> {
+  const { req, res, url } = ctx;
+
+  // GET /api/devices
+  if (url.pathname === '/api/devices' && req.method === 'GET') {
+    sendJson(res, 200, { devices: devices.list(), scopes: DEVICE_SCOPES });
+    return;
+  }
+
+  // POST /api/devices — mint a token; the plaintext token is only returned here.
+  if (url.pathname === '/api/devices' && req.method === 'POST') {
+    let body: { name?: unknown; scopes?: unknown };
+    try {
+      body = (await readJsonBody(req)) as typeof body;
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      sendJson(res, 400, { error: 'name is required' });
+      return;
+    }
+    const scopes = normalizeDeviceScopes(body.scopes);
+    if (!scopes.ok) {
+      sendJson(res, 400, { error: scopes.error });
+      return;
+    }
+    const created = devices.create(body.name, scopes.scopes);
+    if (!created.ok) {
+      sendJson(res, 409, { error: created.error });
+      return;
+    }
+    sendJson(res, 201, { device: created.device, token: created.token });
+    return;
+  }
+
+  const deviceMatch = url.pathname.match(/^\/api\/devices\/([\w-]+)$/);
+
+  // PATCH /api/devices/:id — replace scopes (the only way to grant admin to a paired device).
+  if (deviceMatch && req.method === 'PATCH') {
+    let body: { scopes?: unknown };
+    try {
+      body = (await readJsonBody(req)) as typeof body;
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+    if (body.scopes === undefined) {
+      sendJson(res, 400, { error: 'scopes is required' });
+      return;
+    }
+    const scopes = normalizeDeviceScopes(body.scopes);
+    if (!scopes.ok) {
+      sendJson(res, 400, { error: scopes.error });
+      return;
+    }
+    const device = devices.setScopes(deviceMatch[1], scopes.scopes);
+    if (!device) {
+      sendJson(res, 404, { error: 'Device not found' });
+      return;
+    }
+    sendJson(res, 200, { device });
+    return;
+  }
+
+  // DELETE /api/devices/:id
+  if (deviceMatch && req.method === 'DELETE') {
+    if (!devices.revoke(deviceMatch[1])) {
+      sendJson(res, 404, { error: 'Device not found' });
+      return;
+    }
+    sendJson(res, 200, { ok: true });
+    return;
+  }
+
+  if (deviceMatch || url.pathname === '/api/devices') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+  sendJson(res, 404, { error: 'Not found' });
+}
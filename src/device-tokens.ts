@@ -0,0 +1,266 @@
+/**
+ * Device Tokens
+ *
+ * Per-device access tokens minted by pairing or via /api/devices. Each token
+ * has a name and scopes; only a SHA-256 hash is stored (devices.json in the
+ * data dir), so the plaintext token is shown once at creation. Revoking a
+ * device cuts it off without rotating the shared gateway token.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Logger } from './types.js';
+
+export type DeviceScope = 'talks:read' | 'chat' | 'voice' | 'admin';
+
+export const DEVICE_SCOPES: DeviceScope[] = ['talks:read', 'chat', 'voice', 'admin'];
+
+/** Scopes given to a paired device that does not ask for specific ones. */
+export const DEFAULT_DEVICE_SCOPES: DeviceScope[] = ['talks:read', 'chat', 'voice'];
+
+const TOKEN_PREFIX = 'ctd_';
+const MAX_DEVICES = 100;
+const MAX_NAME_LENGTH = 80;
+/** lastUsedAt is persisted at most this often per device. */
+const LAST_USED_PERSIST_MS = 60_000;
+
+export interface DeviceRecord {
+  id: string;
+  name: string;
+  scopes: DeviceScope[];
+  tokenHash: string;
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+/** Client-facing view of a device (no token hash). */
+export type DeviceInfo = Omit<DeviceRecord, 'tokenHash'>;
+
+const DEFAULT_DATA_DIR = join(
+  process.env.HOME || '~',
+  '.openclaw',
+  'plugins',
+  'clawtalk',
+);
+
+export function hashDeviceToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function isDeviceToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+/** Validate requested scopes. Returns the deduplicated list or an error. */
+export function normalizeDeviceScopes(
+  raw: unknown,
+): { ok: true; scopes: DeviceScope[] } | { ok: false; error: string } {
+  if (raw === undefined) return { ok: true, scopes: [...DEFAULT_DEVICE_SCOPES] };
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { ok: false, error: `scopes must be a non-empty array of: ${DEVICE_SCOPES.join(', ')}` };
+  }
+  const scopes: DeviceScope[] = [];
+  for (const entry of raw) {
+    if (!DEVICE_SCOPES.includes(entry as DeviceScope)) {
+      return { ok: false, error: `Unknown scope "${String(entry)}". Use: ${DEVICE_SCOPES.join(', ')}` };
+    }
+    if (!scopes.includes(entry as DeviceScope)) scopes.push(entry as DeviceScope);
+  }
+  return { ok: true, scopes };
+}
+
+/**
+ * Validate scopes asked for at pairing. The pairing password grants at most
+ * DEFAULT_DEVICE_SCOPES; `admin` is only granted through /api/devices.
+ */
+export function normalizePairingScopes(
+  raw: unknown,
+): { ok: true; scopes: DeviceScope[] } | { ok: false; error: string } {
+  const requested = normalizeDeviceScopes(raw);
+  if (!requested.ok) return requested;
+  const denied = requested.scopes.filter((scope) => !DEFAULT_DEVICE_SCOPES.includes(scope));
+  if (denied.length > 0) {
+    return {
+      ok: false,
+      error: `Pairing cannot grant: ${denied.join(', ')}. An admin can grant it with PATCH /api/devices/:id.`,
+    };
+  }
+  return requested;
+}
+
+/**
+ * Scope a request needs. Reads of talks, status and sync need `talks:read`;
+ * talk writes (including chat and tool-call approvals) and uploads need `chat`,
+ * except a talk's tool policy; voice routes need `voice`; everything else
+ * (tools admin, Slack setup, debug, devices) needs `admin`.
+ *
+ * Talk create/update bodies can also set tool policy; the talk handlers check
+ * those with requiredScopeForTalkChanges.
+ */
+export function requiredScopeForRequest(method: string | undefined, pathname: string): DeviceScope {
+  const isRead = method === 'GET' || method === 'HEAD';
+  if (pathname === '/api/talks' || pathname.startsWith('/api/talks/')) {
+    if (isRead) return 'talks:read';
+    if (/^\/api\/talks\/[\w-]+\/tools$/.test(pathname)) return 'admin';
+    return 'chat';
+  }
+  if (pathname === '/api/files/upload') return 'chat';
+  if (pathname.startsWith('/api/voice/') || pathname.startsWith('/api/realtime-voice/')) return 'voice';
+  if (isRead && (
+    pathname === '/api/status/clawtalk'
+    || pathname === '/api/sync/stream'
+    || pathname === '/api/providers'
+    || pathname === '/api/rate-limits'
+    || pathname === '/api/usage'
+    || pathname === '/api/tools'
+  )) {
+    return 'talks:read';
+  }
+  return 'admin';
+}
+
+/** Talk fields that decide which tools run and what they can reach. */
+const TALK_POLICY_FIELDS = [
+  'toolMode',
+  'executionMode',
+  'filesystemAccess',
+  'networkAccess',
+  'toolsAllow',
+  'toolsDeny',
+  'httpAllowedHosts',
+] as const;
+
+/** Scope a talk create/update body needs: `admin` when it sets tool policy, `chat` otherwise. */
+export function requiredScopeForTalkChanges(body: Record<string, unknown>): DeviceScope {
+  return TALK_POLICY_FIELDS.some((field) => body[field] !== undefined) ? 'admin' : 'chat';
+}
+
+/** Whether granted scopes cover a required one (`admin` covers all, `chat` implies `talks:read`). */
+export function scopesAllow(granted: DeviceScope[], required: DeviceScope): boolean {
+  if (granted.includes('admin') || granted.includes(required)) return true;
+  return required === 'talks:read' && granted.includes('chat');
+}
+
+function toInfo({ tokenHash: _hash, ...info }: DeviceRecord): DeviceInfo {
+  return info;
+}
+
+export class DeviceTokenStore {
+  private devices = new Map<string, DeviceRecord>();
+  private persistPath: string;
+  private logger: Logger;
+  private lastPersistedUse = new Map<string, number>();
+
+  constructor(dataDir: string | undefined, logger: Logger) {
+    this.logger = logger;
+    const dir = dataDir || DEFAULT_DATA_DIR;
+    mkdirSync(dir, { recursive: true });
+    this.persistPath = join(dir, 'devices.json');
+    this.load();
+  }
+
+  /** Mint a token. The plaintext token is only returned here. */
+  create(
+    name: string,
+    scopes: DeviceScope[],
+  ): { ok: true; device: DeviceInfo; token: string } | { ok: false; error: string } {
+    const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!trimmed) return { ok: false, error: 'Device name is required' };
+    if (this.devices.size >= MAX_DEVICES) {
+      return { ok: false, error: `Device limit reached (${MAX_DEVICES}). Revoke unused devices first.` };
+    }
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const record: DeviceRecord = {
+      id: randomUUID(),
+      name: trimmed,
+      scopes: [...scopes],
+      tokenHash: hashDeviceToken(token),
+      createdAt: Date.now(),
+    };
+    this.devices.set(record.id, record);
+    this.save();
+    this.logger.info(`DeviceTokenStore: minted token for "${record.name}" (${record.scopes.join(', ')})`);
+    return { ok: true, device: toInfo(record), token };
+  }
+
+  list(): DeviceInfo[] {
+    return [...this.devices.values()]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map(toInfo);
+  }
+
+  get(id: string): DeviceInfo | undefined {
+    const record = this.devices.get(id);
+    return record ? toInfo(record) : undefined;
+  }
+
+  /** Replace a device's scopes. Returns undefined if it does not exist. */
+  setScopes(id: string, scopes: DeviceScope[]): DeviceInfo | undefined {
+    const record = this.devices.get(id);
+    if (!record) return undefined;
+    record.scopes = [...scopes];
+    this.save();
+    this.logger.info(`DeviceTokenStore: set scopes of "${record.name}" to ${record.scopes.join(', ')}`);
+    return toInfo(record);
+  }
+
+  /** Revoke a device. Returns false if it does not exist. */
+  revoke(id: string): boolean {
+    const record = this.devices.get(id);
+    if (!record) return false;
+    this.devices.delete(id);
+    this.lastPersistedUse.delete(id);
+    this.save();
+    this.logger.info(`DeviceTokenStore: revoked "${record.name}"`);
+    return true;
+  }
+
+  /** Resolve a bearer token to its device, recording the use. */
+  resolve(token: string): DeviceInfo | undefined {
+    if (!isDeviceToken(token)) return undefined;
+    const hash = hashDeviceToken(token);
+    for (const record of this.devices.values()) {
+      if (record.tokenHash !== hash) continue;
+      const now = Date.now();
+      record.lastUsedAt = now;
+      if (now - (this.lastPersistedUse.get(record.id) ?? 0) >= LAST_USED_PERSIST_MS) {
+        this.lastPersistedUse.set(record.id, now);
+        this.save();
+      }
+      return toInfo(record);
+    }
+    return undefined;
+  }
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  private load(): void {
+    try {
+      const raw = JSON.parse(readFileSync(this.persistPath, 'utf-8')) as { devices?: DeviceRecord[] };
+      for (const record of raw.devices ?? []) {
+        if (!record?.id || typeof record.tokenHash !== 'string') continue;
+        const scopes = normalizeDeviceScopes(record.scopes);
+        this.devices.set(record.id, { ...record, scopes: scopes.ok ? scopes.scopes : [] });
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`DeviceTokenStore: failed to load ${this.persistPath}: ${err}`);
+      }
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(
+        this.persistPath,
+        JSON.stringify({ devices: [...this.devices.values()] }, null, 2),
+        { encoding: 'utf-8', mode: 0o600 },
+      );
+    } catch (err) {
+      this.logger.warn(`DeviceTokenStore: failed to save: ${err}`);
+    }
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Dynamic Tool Execution Specs
+ *
+ * Custom tools registered through manage_tools (or POST /api/tools) may carry
+ * an execution spec describing how the gateway runs them: either a shell
+ * command template or an HTTP request template. Templates reference tool
+ * arguments with {{arg_name}} placeholders.
+ */
+
+export type DynamicToolHttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface DynamicToolShellExecution {
+  kind: 'shell';
+  /**
+   * Bash command template. Interpolated values are shell-quoted, so
+   * placeholders must stand as bare words (not in quotes, backticks or heredocs).
+   */
+  command: string;
+  /** Optional working directory template (defaults to home, or the workspace when sandboxed). */
+  workingDir?: string;
+  /** Timeout in seconds. */
+  timeout?: number;
+}
+
+export interface DynamicToolHttpExecution {
+  kind: 'http';
+  method: DynamicToolHttpMethod;
+  /** URL template. Interpolated values are URI-component encoded. */
+  url: string;
+  headers?: Record<string, string>;
+  /** Raw body template (sent as-is after interpolation). */
+  body?: string;
+  /** Timeout in seconds. */
+  timeout?: number;
+}
+
+export type DynamicToolExecution = DynamicToolShellExecution | DynamicToolHttpExecution;
+
+const HTTP_METHODS = new Set<DynamicToolHttpMethod>(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']);
+const PLACEHOLDER_RE = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+const MAX_TEMPLATE_CHARS = 8_000;
+const MAX_DYNAMIC_TOOL_TIMEOUT_S = 120;
+
+function normalizeTimeout(raw: unknown): number | undefined {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) return undefined;
+  return Math.min(Math.round(value), MAX_DYNAMIC_TOOL_TIMEOUT_S);
+}
+
+/**
+ * Placeholders that sit inside quotes or backticks in a shell command
+ * template. shellQuote turns each value into one single-quoted word, which is
+ * only safe where a bare word goes: inside "..." the quotes pair up
+ * differently and `$(...)` or backticks in the value would run. Heredoc
+ * bodies expand `$(...)` regardless of quotes, so anything after `<<` counts.
+ */
+function quotedShellPlaceholders(command: string): string[] {
+  const found: string[] = [];
+  let quote: string | null = null;
+  let heredoc = false;
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (ch === '\\' && quote !== "'") {
+      i++;
+      continue;
+    }
+    const placeholder = ch === '{' ? /^\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/.exec(command.slice(i)) : null;
+    if (placeholder) {
+      if (quote || heredoc) found.push(placeholder[1]);
+      i += placeholder[0].length - 1;
+    } else if (quote === null && command.startsWith('<<<', i)) {
+      i += 2; // here-string: the next word is an ordinary word
+    } else if (quote === null && command.startsWith('<<', i)) {
+      heredoc = true;
+      i++;
+    } else if (quote === null && (ch === "'" || ch === '"' || ch === '`')) {
+      quote = ch;
+    } else if (ch === quote) {
+      quote = null;
+    }
+  }
+  return found;
+}
+
+/**
+ * Validate and normalize an execution spec from untrusted input
+ * (model tool call, HTTP body, or tools.json on load). Accepts snake_case
+ * aliases.
+ */
+export function normalizeDynamicToolExecution(
+  raw: unknown,
+): { ok: true; execution: DynamicToolExecution } | { ok: false; error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'execution must be an object with kind "shell" or "http"' };
+  }
+  const input = raw as Record<string, unknown>;
+  const kind = typeof input.kind === 'string' ? input.kind.trim().toLowerCase() : '';
+
+  if (kind === 'shell') {
+    const command = typeof input.command === 'string' ? input.command.trim() : '';
+    if (!command) return { ok: false, error: 'execution.command is required for kind "shell"' };
+    if (command.length > MAX_TEMPLATE_CHARS) {
+      return { ok: false, error: `execution.command exceeds ${MAX_TEMPLATE_CHARS} characters` };
+    }
+    const quoted = quotedShellPlaceholders(command);
+    if (quoted.length > 0) {
+      return {
+        ok: false,
+        error:
+          `execution.command has {{${quoted[0]}}} inside quotes, backticks or a heredoc; `
+          + 'use placeholders as bare words (values are shell-quoted automatically)',
+      };
+    }
+    const workingDirRaw = input.workingDir ?? input.working_dir;
+    const workingDir = typeof workingDirRaw === 'string' ? workingDirRaw.trim() : '';
+    const timeout = normalizeTimeout(input.timeout);
+    return {
+      ok: true,
+      execution: {
+        kind: 'shell',
+        command,
+        ...(workingDir ? { workingDir } : {}),
+        ...(timeout !== undefined ? { timeout } : {}),
+      },
+    };
+  }
+
+  if (kind === 'http') {
+    const url = typeof input.url === 'string' ? input.url.trim() : '';
+    if (!url) return { ok: false, error: 'execution.url is required for kind "http"' };
+    if (!/^https?:\/\//i.test(url)) {
+      return { ok: false, error: 'execution.url must start with http:// or https://' };
+    }
+    const method = (typeof input.method === 'string' ? input.method.trim().toUpperCase() : 'GET') || 'GET';
+    if (!HTTP_METHODS.has(method as DynamicToolHttpMethod)) {
+      return { ok: false, error: `execution.method must be one of: ${[...HTTP_METHODS].join(', ')}` };
+    }
+    let headers: Record<string, string> | undefined;
+    if (input.headers !== undefined) {
+      if (!input.headers || typeof input.headers !== 'object' || Array.isArray(input.headers)) {
+        return { ok: false, error: 'execution.headers must be an object of string values' };
+      }
+      headers = {};
+      for (const [key, value] of Object.entries(input.headers as Record<string, unknown>)) {
+        if (typeof value !== 'string') {
+          return { ok: false, error: `execution.headers.${key} must be a string` };
+        }
+        headers[key] = value;
+      }
+    }
+    let body: string | undefined;
+    if (input.body !== undefined && input.body !== null) {
+      body = typeof input.body === 'string' ? input.body : JSON.stringify(input.body);
+      if (body.length > MAX_TEMPLATE_CHARS) {
+        return { ok: false, error: `execution.body exceeds ${MAX_TEMPLATE_CHARS} characters` };
+      }
+    }
+    const timeout = normalizeTimeout(input.timeout);
+    return {
+      ok: true,
+      execution: {
+        kind: 'http',
+        method: method as DynamicToolHttpMethod,
+        url,
+        ...(headers && Object.keys(headers).length > 0 ? { headers } : {}),
+        ...(body !== undefined ? { body } : {}),
+        ...(timeout !== undefined ? { timeout } : {}),
+      },
+    };
+  }
+
+  return { ok: false, error: 'execution.kind must be one of: shell, http' };
+}
+
+/** Quote a value for safe inclusion in a bash command line. */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function stringifyArg(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Replace {{name}} placeholders with tool arguments. Missing arguments
+ * interpolate as empty strings; `encode` escapes each value for its target.
+ */
+export function interpolateTemplate(
+  template: string,
+  args: Record<string, unknown>,
+  encode: (value: string) => string = (value) => value,
+): string {
+  return template.replace(PLACEHOLDER_RE, (_match, name: string) => encode(stringifyArg(args[name])));
+}
@@ -0,0 +1,417 @@
+/**
+ * GitHub
+ *
+ * REST API helpers behind the github_* tools: search and read issues/PRs,
+ * comment, read repository files at a ref, and list workflow runs.
+ *
+ * Auth uses personal access tokens stored per profile, like the Google OAuth
+ * profiles: `~/.openclaw/workspace/github_token.json` (override with
+ * GITHUB_TOKEN_PATH) holds `{ activeProfile, profiles: { name: { token } } }`.
+ * GITHUB_TOKEN / GITHUB_API_URL apply to the default profile only.
+ */
+
+import * as path from 'node:path';
+import { homedir } from 'node:os';
+import {
+  DEFAULT_TOKEN_PROFILE,
+  normalizeTokenProfileName,
+  TokenProfileStore,
+  type TokenProfileInfo,
+  type TokenProfileRecord,
+} from './token-profiles.js';
+
+const DEFAULT_API_BASE_URL = 'https://api.github.com';
+const DEFAULT_MAX_RESULTS = 10;
+const MAX_RESULTS_LIMIT = 50;
+const DEFAULT_FILE_MAX_CHARS = 50_000;
+const MAX_ISSUE_COMMENTS = 30;
+
+export interface GithubAuthStatus {
+  profile: string;
+  activeProfile: string;
+  tokenPath: string;
+  apiBaseUrl: string;
+  hasToken: boolean;
+  /** Login of the token owner; only looked up when `verify` is requested. */
+  login?: string;
+  error?: string;
+}
+
+export interface GithubIssueSummary {
+  number: number;
+  title: string;
+  state: string;
+  isPullRequest: boolean;
+  repo?: string;
+  author?: string;
+  labels: string[];
+  comments: number;
+  updatedAt?: string;
+  url?: string;
+}
+
+export interface GithubPullRequestMeta {
+  head: string;
+  base: string;
+  draft: boolean;
+  merged: boolean;
+  mergeable?: boolean | null;
+  additions?: number;
+  deletions?: number;
+  changedFiles?: number;
+}
+
+export interface GithubIssueComment {
+  id: number;
+  author?: string;
+  createdAt?: string;
+  body: string;
+}
+
+export interface GithubWorkflowRun {
+  id: number;
+  name?: string;
+  status?: string;
+  conclusion?: string | null;
+  branch?: string;
+  event?: string;
+  headSha?: string;
+  createdAt?: string;
+  url?: string;
+}
+
+const tokenProfiles = new TokenProfileStore({
+  defaultPath: path.join(homedir(), '.openclaw', 'workspace', 'github_token.json'),
+  pathEnv: 'GITHUB_TOKEN_PATH',
+  envOverrides: () => ({
+    ...(process.env.GITHUB_TOKEN?.trim() ? { token: process.env.GITHUB_TOKEN.trim() } : {}),
+    ...(process.env.GITHUB_API_URL?.trim() ? { api_base_url: process.env.GITHUB_API_URL.trim() } : {}),
+  }),
+});
+
+function apiBaseUrl(record: TokenProfileRecord): string {
+  return (record.api_base_url?.trim() || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+}
+
+/** Accept `owner/name` or a github.com URL; returns `owner/name`. */
+export function parseGithubRepo(input: string): string {
+  const trimmed = input.trim().replace(/\.git$/, '');
+  const fromUrl = trimmed.match(/^https?:\/\/[^/]+\/([^/\s]+)\/([^/\s?#]+)/);
+  const candidate = fromUrl ? `${fromUrl[1]}/${fromUrl[2]}` : trimmed;
+  if (!/^[\w.-]+\/[\w.-]+$/.test(candidate)) {
+    throw new Error(`repo must be "owner/name" (got "${input}").`);
+  }
+  return candidate;
+}
+
+function repoPath(repo: string): string {
+  const [owner, name] = parseGithubRepo(repo).split('/');
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`;
+}
+
+function requireNumber(raw: number, field: string): number {
+  if (!Number.isInteger(raw) || raw <= 0) throw new Error(`${field} must be a positive integer.`);
+  return raw;
+}
+
+function clampResults(raw: number | undefined): number {
+  return Math.max(1, Math.min(MAX_RESULTS_LIMIT, Number(raw) || DEFAULT_MAX_RESULTS));
+}
+
+export async function githubFetchJson(apiPath: string, init: RequestInit, profile?: string): Promise<any> {
+  const resolved = await tokenProfiles.resolve(profile);
+  const token = resolved.record.token?.trim();
+  if (!token) {
+    throw new Error(
+      `No GitHub token for profile "${resolved.profile}". Configure one via PATCH /api/tools (github_auth_config) or GITHUB_TOKEN.`,
+    );
+  }
+  const headers = new Headers(init.headers ?? {});
+  headers.set('Authorization', `Bearer ${token}`);
+  headers.set('Accept', 'application/vnd.github+json');
+  headers.set('X-GitHub-Api-Version', '2022-11-28');
+  headers.set('User-Agent', 'clawtalk');
+  if (!headers.has('Content-Type') && init.body) headers.set('Content-Type', 'application/json');
+
+  const res = await fetch(`${apiBaseUrl(resolved.record)}${apiPath}`, { ...init, headers });
+  if (!res.ok) {
+    const err = await res.text().catch(() => '');
+    throw new Error(`GitHub API failed (${res.status}): ${err.slice(0, 300)}`);
+  }
+  return res.status === 204 ? {} : await res.json();
+}
+
+// ---------------------------------------------------------------------------
+// Auth profiles
+// ---------------------------------------------------------------------------
+
+export async function githubAuthStatus(
+  profile: string | undefined,
+  opts?: { verify?: boolean },
+): Promise<GithubAuthStatus> {
+  const tokenPath = tokenProfiles.tokenPath;
+  let resolved: Awaited<ReturnType<TokenProfileStore['resolve']>>;
+  try {
+    resolved = await tokenProfiles.resolve(profile);
+  } catch (err) {
+    return {
+      profile: normalizeTokenProfileName(profile),
+      activeProfile: DEFAULT_TOKEN_PROFILE,
+      tokenPath,
+      apiBaseUrl: DEFAULT_API_BASE_URL,
+      hasToken: false,
+      error: `Token file not readable: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  const status: GithubAuthStatus = {
+    profile: resolved.profile,
+    activeProfile: resolved.activeProfile,
+    tokenPath,
+    apiBaseUrl: apiBaseUrl(resolved.record),
+    hasToken: Boolean(resolved.record.token?.trim()),
+  };
+  if (!status.hasToken) {
+    return { ...status, error: `No GitHub token configured for profile "${resolved.profile}".` };
+  }
+  if (!opts?.verify) return status;
+  try {
+    const user = await githubFetchJson('/user', { method: 'GET' }, resolved.profile);
+    return { ...status, ...(typeof user?.login === 'string' ? { login: user.login } : {}) };
+  } catch (err) {
+    return { ...status, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export async function listGithubAuthProfiles(): Promise<{
+  tokenPath: string;
+  activeProfile: string;
+  profiles: TokenProfileInfo[];
+}> {
+  return tokenProfiles.list();
+}
+
+/** Tokens of every stored profile, for secret redaction (see secret-redaction.ts). */
+export async function listGithubTokenSecrets(): Promise<Array<{ label: string; value: string }>> {
+  return (await tokenProfiles.listTokens()).map(({ profile, token }) => ({ label: `github_token:${profile}`, value: token }));
+}
+
+export async function upsertGithubAuthConfig(updates: {
+  profile?: string;
+  setActive?: boolean;
+  token?: string;
+  apiBaseUrl?: string;
+}): Promise<{ profile: string; activeProfile: string; tokenPath: string; hasToken: boolean }> {
+  return tokenProfiles.upsert(updates);
+}
+
+export async function setGithubActiveProfile(profile: string): Promise<{ tokenPath: string; activeProfile: string }> {
+  return tokenProfiles.setActive(profile);
+}
+
+// ---------------------------------------------------------------------------
+// Issues and pull requests
+// ---------------------------------------------------------------------------
+
+function toIssueSummary(issue: any): GithubIssueSummary {
+  const repoUrl = typeof issue?.repository_url === 'string' ? issue.repository_url : '';
+  const repo = repoUrl.match(/\/repos\/([^/]+\/[^/]+)$/)?.[1];
+  return {
+    number: Number(issue?.number ?? 0),
+    title: String(issue?.title ?? ''),
+    state: String(issue?.state ?? ''),
+    isPullRequest: Boolean(issue?.pull_request),
+    ...(repo ? { repo } : {}),
+    ...(typeof issue?.user?.login === 'string' ? { author: issue.user.login } : {}),
+    labels: Array.isArray(issue?.labels)
+      ? issue.labels.map((label: any) => label?.name).filter((name: unknown): name is string => typeof name === 'string')
+      : [],
+    comments: Number(issue?.comments ?? 0),
+    ...(typeof issue?.updated_at === 'string' ? { updatedAt: issue.updated_at } : {}),
+    ...(typeof issue?.html_url === 'string' ? { url: issue.html_url } : {}),
+  };
+}
+
+/** Build the search query: the user's terms plus optional repo/type/state qualifiers. */
+export function buildGithubIssueQuery(params: {
+  query: string;
+  repo?: string;
+  type?: 'issue' | 'pr';
+  state?: 'open' | 'closed';
+}): string {
+  const terms = [params.query.trim()];
+  if (params.repo?.trim()) terms.push(`repo:${parseGithubRepo(params.repo)}`);
+  if (params.type) terms.push(`is:${params.type}`);
+  if (params.state) terms.push(`is:${params.state}`);
+  return terms.filter(Boolean).join(' ');
+}
+
+export async function githubSearchIssues(params: {
+  query: string;
+  repo?: string;
+  type?: 'issue' | 'pr';
+  state?: 'open' | 'closed';
+  maxResults?: number;
+  profile?: string;
+}): Promise<{ query: string; totalCount: number; items: GithubIssueSummary[] }> {
+  if (!params.query.trim() && !params.repo?.trim()) throw new Error('query or repo is required.');
+  const query = buildGithubIssueQuery(params);
+  const search = new URLSearchParams({ q: query, per_page: String(clampResults(params.maxResults)) });
+  const data = await githubFetchJson(`/search/issues?${search.toString()}`, { method: 'GET' }, params.profile);
+  return {
+    query,
+    totalCount: Number(data?.total_count ?? 0),
+    items: Array.isArray(data?.items) ? data.items.map(toIssueSummary) : [],
+  };
+}
+
+export async function githubGetIssue(params: {
+  repo: string;
+  number: number;
+  includeComments?: boolean;
+  profile?: string;
+}): Promise<{
+  issue: GithubIssueSummary & { body: string };
+  pullRequest?: GithubPullRequestMeta;
+  comments?: GithubIssueComment[];
+}> {
+  const base = `${repoPath(params.repo)}/issues/${requireNumber(params.number, 'number')}`;
+  const issue = await githubFetchJson(base, { method: 'GET' }, params.profile);
+
+  let pullRequest: GithubPullRequestMeta | undefined;
+  if (issue?.pull_request) {
+    const pr = await githubFetchJson(`${repoPath(params.repo)}/pulls/${params.number}`, { method: 'GET' }, params.profile);
+    pullRequest = {
+      head: String(pr?.head?.label ?? pr?.head?.ref ?? ''),
+      base: String(pr?.base?.ref ?? ''),
+      draft: Boolean(pr?.draft),
+      merged: Boolean(pr?.merged),
+      ...(pr?.mergeable !== undefined ? { mergeable: pr.mergeable } : {}),
+      ...(typeof pr?.additions === 'number' ? { additions: pr.additions } : {}),
+      ...(typeof pr?.deletions === 'number' ? { deletions: pr.deletions } : {}),
+      ...(typeof pr?.changed_files === 'number' ? { changedFiles: pr.changed_files } : {}),
+    };
+  }
+
+  let comments: GithubIssueComment[] | undefined;
+  if (params.includeComments !== false && Number(issue?.comments) > 0) {
+    const listed = await githubFetchJson(
+      `${base}/comments?per_page=${MAX_ISSUE_COMMENTS}`,
+      { method: 'GET' },
+      params.profile,
+    );
+    comments = (Array.isArray(listed) ? listed : []).map((comment: any) => ({
+      id: Number(comment?.id ?? 0),
+      ...(typeof comment?.user?.login === 'string' ? { author: comment.user.login } : {}),
+      ...(typeof comment?.created_at === 'string' ? { createdAt: comment.created_at } : {}),
+      body: String(comment?.body ?? ''),
+    }));
+  }
+
+  return {
+    issue: { ...toIssueSummary(issue), body: typeof issue?.body === 'string' ? issue.body : '' },
+    ...(pullRequest ? { pullRequest } : {}),
+    ...(comments ? { comments } : {}),
+  };
+}
+
+/** Comment on an issue or pull request (PR conversation comments use the issues API). */
+export async function githubCreateComment(params: {
+  repo: string;
+  number: number;
+  body: string;
+  profile?: string;
+}): Promise<{ id: number; url?: string }> {
+  if (!params.body.trim()) throw new Error('body is required.');
+  const created = await githubFetchJson(
+    `${repoPath(params.repo)}/issues/${requireNumber(params.number, 'number')}/comments`,
+    { method: 'POST', body: JSON.stringify({ body: params.body }) },
+    params.profile,
+  );
+  return {
+    id: Number(created?.id ?? 0),
+    ...(typeof created?.html_url === 'string' ? { url: created.html_url } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Repository contents and Actions
+// ---------------------------------------------------------------------------
+
+export async function githubReadFile(params: {
+  repo: string;
+  path: string;
+  ref?: string;
+  maxChars?: number;
+  profile?: string;
+}): Promise<
+  | { kind: 'file'; path: string; ref?: string; sha: string; size: number; content: string; truncated: boolean }
+  | { kind: 'dir'; path: string; ref?: string; entries: Array<{ name: string; type: string; path: string }> }
+> {
+  const filePath = params.path.trim().replace(/^\/+/, '');
+  const encodedPath = filePath.split('/').map(encodeURIComponent).join('/');
+  const ref = params.ref?.trim() || undefined;
+  const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+  const data = await githubFetchJson(`${repoPath(params.repo)}/contents/${encodedPath}${query}`, { method: 'GET' }, params.profile);
+
+  if (Array.isArray(data)) {
+    return {
+      kind: 'dir',
+      path: filePath,
+      ...(ref ? { ref } : {}),
+      entries: data.map((entry: any) => ({
+        name: String(entry?.name ?? ''),
+        type: String(entry?.type ?? ''),
+        path: String(entry?.path ?? ''),
+      })),
+    };
+  }
+  if (data?.type !== 'file') throw new Error(`${filePath} is a ${data?.type ?? 'unknown'} entry, not a file.`);
+  if (typeof data?.content !== 'string' || data.encoding !== 'base64') {
+    throw new Error(`${filePath} is too large to read through the contents API.`);
+  }
+
+  const maxChars = Math.max(500, Number(params.maxChars) || DEFAULT_FILE_MAX_CHARS);
+  const text = Buffer.from(data.content, 'base64').toString('utf-8');
+  return {
+    kind: 'file',
+    path: String(data.path ?? filePath),
+    ...(ref ? { ref } : {}),
+    sha: String(data.sha ?? ''),
+    size: Number(data.size ?? text.length),
+    content: text.slice(0, maxChars),
+    truncated: text.length > maxChars,
+  };
+}
+
+export async function githubListWorkflowRuns(params: {
+  repo: string;
+  workflow?: string;
+  branch?: string;
+  status?: string;
+  maxResults?: number;
+  profile?: string;
+}): Promise<{ totalCount: number; runs: GithubWorkflowRun[] }> {
+  const workflow = params.workflow?.trim();
+  const base = workflow
+    ? `${repoPath(params.repo)}/actions/workflows/${encodeURIComponent(workflow)}/runs`
+    : `${repoPath(params.repo)}/actions/runs`;
+  const search = new URLSearchParams({ per_page: String(clampResults(params.maxResults)) });
+  if (params.branch?.trim()) search.set('branch', params.branch.trim());
+  if (params.status?.trim()) search.set('status', params.status.trim());
+  const data = await githubFetchJson(`${base}?${search.toString()}`, { method: 'GET' }, params.profile);
+  const runs = Array.isArray(data?.workflow_runs) ? data.workflow_runs : [];
+  return {
+    totalCount: Number(data?.total_count ?? runs.length),
+    runs: runs.map((run: any) => ({
+      id: Number(run?.id ?? 0),
+      ...(typeof run?.name === 'string' ? { name: run.name } : {}),
+      ...(typeof run?.status === 'string' ? { status: run.status } : {}),
+      conclusion: run?.conclusion ?? null,
+      ...(typeof run?.head_branch === 'string' ? { branch: run.head_branch } : {}),
+      ...(typeof run?.event === 'string' ? { event: run.event } : {}),
+      ...(typeof run?.head_sha === 'string' ? { headSha: run.head_sha } : {}),
+      ...(typeof run?.created_at === 'string' ? { createdAt: run.created_at } : {}),
+      ...(typeof run?.html_url === 'string' ? { url: run.html_url } : {}),
+    })),
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Google Calendar
+ *
+ * Calendar API v3 helpers behind the google_calendar_* tools. Auth reuses the
+ * Google OAuth profiles from google-docs.ts; the calendar scopes are granted
+ * incrementally (connect with the `calendar` feature).
+ */
+
+import { googleFetchJson, googleFetchText } from './google-docs.js';
+
+const CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
+const DEFAULT_CALENDAR_ID = 'primary';
+const DEFAULT_LIST_WINDOW_MS = 24 * 60 * 60_000;
+const DEFAULT_MAX_RESULTS = 50;
+const MAX_RESULTS_LIMIT = 250;
+const DEFAULT_MIN_SLOT_MINUTES = 30;
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export type GoogleCalendarEventTime = { date: string } | { dateTime: string; timeZone?: string };
+
+export interface GoogleCalendarEvent {
+  id: string;
+  summary: string;
+  start?: string;
+  end?: string;
+  allDay: boolean;
+  status?: string;
+  location?: string;
+  description?: string;
+  attendees?: string[];
+  htmlLink?: string;
+}
+
+export interface GoogleCalendarEventInput {
+  summary?: string;
+  start?: string;
+  end?: string;
+  timeZone?: string;
+  description?: string;
+  location?: string;
+  attendees?: string[];
+}
+
+export interface CalendarInterval {
+  start: string;
+  end: string;
+}
+
+function calendarPath(calendarId: string | undefined): string {
+  return `${CALENDAR_API_BASE}/calendars/${encodeURIComponent(calendarId?.trim() || DEFAULT_CALENDAR_ID)}`;
+}
+
+function parseTimestamp(value: string, field: string): number {
+  const ms = Date.parse(value);
+  if (!Number.isFinite(ms)) throw new Error(`${field} must be an ISO 8601 date or date-time (got "${value}").`);
+  return ms;
+}
+
+/**
+ * Build an event start/end. `YYYY-MM-DD` is an all-day date; anything else
+ * must parse as a date-time (an offset in the string wins over `timeZone`).
+ */
+export function toCalendarEventTime(value: string, field: string, timeZone?: string): GoogleCalendarEventTime {
+  const trimmed = value.trim();
+  if (DATE_ONLY_RE.test(trimmed)) {
+    parseTimestamp(trimmed, field);
+    return { date: trimmed };
+  }
+  parseTimestamp(trimmed, field);
+  return timeZone?.trim() ? { dateTime: trimmed, timeZone: timeZone.trim() } : { dateTime: trimmed };
+}
+
+function resolveWindow(timeMin: string | undefined, timeMax: string | undefined): { timeMin: string; timeMax: string } {
+  const startMs = timeMin?.trim() ? parseTimestamp(timeMin.trim(), 'time_min') : Date.now();
+  const endMs = timeMax?.trim() ? parseTimestamp(timeMax.trim(), 'time_max') : startMs + DEFAULT_LIST_WINDOW_MS;
+  if (endMs <= startMs) throw new Error('time_max must be after time_min.');
+  return { timeMin: new Date(startMs).toISOString(), timeMax: new Date(endMs).toISOString() };
+}
+
+function toEventSummary(event: any): GoogleCalendarEvent {
+  const allDay = typeof event?.start?.date === 'string';
+  const attendees = Array.isArray(event?.attendees)
+    ? event.attendees
+      .map((attendee: any) => attendee?.email)
+      .filter((email: unknown): email is string => typeof email === 'string')
+    : [];
+  return {
+    id: String(event?.id ?? ''),
+    summary: typeof event?.summary === 'string' ? event.summary : '(no title)',
+    start: event?.start?.dateTime ?? event?.start?.date,
+    end: event?.end?.dateTime ?? event?.end?.date,
+    allDay,
+    ...(typeof event?.status === 'string' ? { status: event.status } : {}),
+    ...(typeof event?.location === 'string' ? { location: event.location } : {}),
+    ...(typeof event?.description === 'string' ? { description: event.description } : {}),
+    ...(attendees.length > 0 ? { attendees } : {}),
+    ...(typeof event?.htmlLink === 'string' ? { htmlLink: event.htmlLink } : {}),
+  };
+}
+
+function toEventBody(input: GoogleCalendarEventInput): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  if (input.summary !== undefined) body.summary = input.summary;
+  if (input.description !== undefined) body.description = input.description;
+  if (input.location !== undefined) body.location = input.location;
+  if (input.start !== undefined) body.start = toCalendarEventTime(input.start, 'start', input.timeZone);
+  if (input.end !== undefined) body.end = toCalendarEventTime(input.end, 'end', input.timeZone);
+  if (input.attendees !== undefined) {
+    body.attendees = input.attendees.map((email) => email.trim()).filter(Boolean).map((email) => ({ email }));
+  }
+  return body;
+}
+
+export async function googleCalendarListEvents(params: {
+  calendarId?: string;
+  timeMin?: string;
+  timeMax?: string;
+  query?: string;
+  maxResults?: number;
+  profile?: string;
+}): Promise<{ calendarId: string; timeMin: string; timeMax: string; timeZone?: string; events: GoogleCalendarEvent[] }> {
+  const bounds = resolveWindow(params.timeMin, params.timeMax);
+  const maxResults = Math.max(1, Math.min(MAX_RESULTS_LIMIT, Number(params.maxResults) || DEFAULT_MAX_RESULTS));
+  const url = new URL(`${calendarPath(params.calendarId)}/events`);
+  url.searchParams.set('timeMin', bounds.timeMin);
+  url.searchParams.set('timeMax', bounds.timeMax);
+  url.searchParams.set('singleEvents', 'true');
+  url.searchParams.set('orderBy', 'startTime');
+  url.searchParams.set('maxResults', String(maxResults));
+  if (params.query?.trim()) url.searchParams.set('q', params.query.trim());
+
+  const data = await googleFetchJson(url.toString(), { method: 'GET' }, params.profile);
+  const items = Array.isArray(data?.items) ? data.items : [];
+  return {
+    calendarId: params.calendarId?.trim() || DEFAULT_CALENDAR_ID,
+    ...bounds,
+    ...(typeof data?.timeZone === 'string' ? { timeZone: data.timeZone } : {}),
+    events: items.map(toEventSummary).filter((event: GoogleCalendarEvent) => Boolean(event.id)),
+  };
+}
+
+export async function googleCalendarCreateEvent(params: GoogleCalendarEventInput & {
+  calendarId?: string;
+  profile?: string;
+}): Promise<GoogleCalendarEvent> {
+  if (!params.summary?.trim()) throw new Error('summary is required.');
+  if (!params.start?.trim() || !params.end?.trim()) throw new Error('start and end are required.');
+  const body = toEventBody({ ...params, summary: params.summary.trim() });
+
+  const created = await googleFetchJson(`${calendarPath(params.calendarId)}/events`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }, params.profile);
+  return toEventSummary(created);
+}
+
+/** Patch an event; only the fields given are changed. */
+export async function googleCalendarUpdateEvent(params: GoogleCalendarEventInput & {
+  calendarId?: string;
+  eventId: string;
+  profile?: string;
+}): Promise<GoogleCalendarEvent> {
+  const eventId = params.eventId.trim();
+  if (!eventId) throw new Error('event_id is required.');
+  const body = toEventBody(params);
+  if (Object.keys(body).length === 0) throw new Error('Nothing to update.');
+
+  const updated = await googleFetchJson(
+    `${calendarPath(params.calendarId)}/events/${encodeURIComponent(eventId)}`,
+    { method: 'PATCH', body: JSON.stringify(body) },
+    params.profile,
+  );
+  return toEventSummary(updated);
+}
+
+export async function googleCalendarDeleteEvent(params: {
+  calendarId?: string;
+  eventId: string;
+  profile?: string;
+}): Promise<{ eventId: string }> {
+  const eventId = params.eventId.trim();
+  if (!eventId) throw new Error('event_id is required.');
+  // DELETE returns an empty body.
+  await googleFetchText(
+    `${calendarPath(params.calendarId)}/events/${encodeURIComponent(eventId)}`,
+    { method: 'DELETE' },
+    params.profile,
+  );
+  return { eventId };
+}
+
+/**
+ * Free slots in [windowStart, windowEnd) of at least `minMinutes`, given busy
+ * intervals from any number of calendars (overlaps are merged).
+ */
+export function computeFreeSlots(
+  busy: CalendarInterval[],
+  windowStart: string,
+  windowEnd: string,
+  minMinutes = DEFAULT_MIN_SLOT_MINUTES,
+): CalendarInterval[] {
+  const startMs = Date.parse(windowStart);
+  const endMs = Date.parse(windowEnd);
+  const minMs = Math.max(1, minMinutes) * 60_000;
+  const sorted = busy
+    .map((interval) => ({ start: Date.parse(interval.start), end: Date.parse(interval.end) }))
+    .filter((interval) => Number.isFinite(interval.start) && Number.isFinite(interval.end) && interval.end > interval.start)
+    .sort((a, b) => a.start - b.start);
+
+  const free: CalendarInterval[] = [];
+  let cursor = startMs;
+  for (const interval of sorted) {
+    if (interval.end <= cursor) continue;
+    if (interval.start >= endMs) break;
+    if (interval.start - cursor >= minMs) {
+      free.push({ start: new Date(cursor).toISOString(), end: new Date(interval.start).toISOString() });
+    }
+    cursor = Math.max(cursor, interval.end);
+  }
+  if (endMs - cursor >= minMs) {
+    free.push({ start: new Date(cursor).toISOString(), end: new Date(endMs).toISOString() });
+  }
+  return free;
+}
+
+export async function googleCalendarFreeBusy(params: {
+  calendarIds?: string[];
+  timeMin?: string;
+  timeMax?: string;
+  minSlotMinutes?: number;
+  profile?: string;
+}): Promise<{
+  timeMin: string;
+  timeMax: string;
+  busy: Array<CalendarInterval & { calendarId: string }>;
+  free: CalendarInterval[];
+  errors: Array<{ calendarId: string; reason: string }>;
+}> {
+  const bounds = resolveWindow(params.timeMin, params.timeMax);
+  const calendarIds = (params.calendarIds ?? []).map((id) => id.trim()).filter(Boolean);
+  if (calendarIds.length === 0) calendarIds.push(DEFAULT_CALENDAR_ID);
+
+  const data = await googleFetchJson(`${CALENDAR_API_BASE}/freeBusy`, {
+    method: 'POST',
+    body: JSON.stringify({ ...bounds, items: calendarIds.map((id) => ({ id })) }),
+  }, params.profile);
+
+  const busy: Array<CalendarInterval & { calendarId: string }> = [];
+  const errors: Array<{ calendarId: string; reason: string }> = [];
+  for (const calendarId of calendarIds) {
+    const entry = data?.calendars?.[calendarId];
+    for (const err of Array.isArray(entry?.errors) ? entry.errors : []) {
+      errors.push({ calendarId, reason: String(err?.reason ?? 'unknown') });
+    }
+    for (const interval of Array.isArray(entry?.busy) ? entry.busy : []) {
+      if (typeof interval?.start === 'string' && typeof interval?.end === 'string') {
+        busy.push({ calendarId, start: interval.start, end: interval.end });
+      }
+    }
+  }
+  busy.sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+  return {
+    ...bounds,
+    busy,
+    free: computeFreeSlots(busy, bounds.timeMin, bounds.timeMax, params.minSlotMinutes),
+    errors,
+  };
+}
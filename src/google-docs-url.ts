@@ -1,4 +1,5 @@
 const GOOGLE_DOCS_URL_RE = /https?:\/\/docs\.google\.com\/document\/(?:u\/\d+\/)?d\/([A-Za-z0-9_-]+)/i;
+const GOOGLE_SHEETS_URL_RE = /https?:\/\/docs\.google\.com\/spreadsheets\/(?:u\/\d+\/)?d\/([A-Za-z0-9_-]+)/i;
 
 export function extractGoogleDocsDocumentIdFromUrl(value: string): string | undefined {
   const trimmed = value.trim();
@@ -11,6 +12,13 @@ export function hasGoogleDocsDocumentUrl(value: string): boolean {
   return Boolean(extractGoogleDocsDocumentIdFromUrl(value));
 }
 
+export function extractGoogleSheetsSpreadsheetIdFromUrl(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const match = trimmed.match(GOOGLE_SHEETS_URL_RE);
+  return match?.[1];
+}
+
 export function extractGoogleDocsTabIdFromUrl(value: string): string | undefined {
   const trimmed = value.trim();
   if (!trimmed) return undefined;
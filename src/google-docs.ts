@@ -2,7 +2,7 @@ import * as fsp from 'node:fs/promises';
 import * as path from 'node:path';
 import { homedir } from 'node:os';
 import { randomUUID } from 'node:crypto';
-import { extractGoogleDocsDocumentIdFromUrl } from './google-docs-url.js';
+import { extractGoogleDocsDocumentIdFromUrl, extractGoogleSheetsSpreadsheetIdFromUrl } from './google-docs-url.js';
 
 type OAuthTokenFile = {
   client_id?: string;
@@ -12,6 +12,8 @@ type OAuthTokenFile = {
   redirect_uri?: string;
   access_token?: string;
   expiry_date?: number;
+  /** Space-separated scopes granted to the refresh token, as reported by Google. */
+  scope?: string;
 };
 
 type OAuthTokenStore = {
@@ -23,6 +25,10 @@ type OAuthTokenStore = {
 const DEFAULT_TOKEN_PATH = path.join(homedir(), '.openclaw', 'workspace', 'gdocs_token.json');
 const GOOGLE_DOCS_SCOPE = 'https://www.googleapis.com/auth/documents';
 const GOOGLE_DRIVE_SCOPE = 'https://www.googleapis.com/auth/drive';
+const GOOGLE_CALENDAR_EVENTS_SCOPE = 'https://www.googleapis.com/auth/calendar.events';
+const GOOGLE_CALENDAR_FREEBUSY_SCOPE = 'https://www.googleapis.com/auth/calendar.freebusy';
+const GMAIL_READONLY_SCOPE = 'https://www.googleapis.com/auth/gmail.readonly';
+const GMAIL_COMPOSE_SCOPE = 'https://www.googleapis.com/auth/gmail.compose';
 const DEFAULT_PROFILE = 'default';
 const OAUTH_SESSION_TTL_MS = 10 * 60_000;
 
@@ -166,7 +172,10 @@ function getOAuthClientConfig(profile: string, record: OAuthTokenFile): {
   return { clientId, clientSecret, tokenUri };
 }
 
-async function refreshAccessToken(profile: string, record: OAuthTokenFile): Promise<{ accessToken: string; expiresIn?: number }> {
+async function refreshAccessToken(
+  profile: string,
+  record: OAuthTokenFile,
+): Promise<{ accessToken: string; expiresIn?: number; scope?: string }> {
   const auth = mergeEnvOAuthOverrides(profile, record);
   const clientId = auth.client_id?.trim();
   const clientSecret = auth.client_secret?.trim();
@@ -205,12 +214,12 @@ async function refreshAccessToken(profile: string, record: OAuthTokenFile): Prom
     throw new Error(`Google OAuth token refresh failed (${res.status}): ${compactErr}`);
   }
 
-  const data = await res.json() as { access_token?: string; expires_in?: number };
+  const data = await res.json() as { access_token?: string; expires_in?: number; scope?: string };
   if (!data.access_token) {
     throw new Error('Google OAuth token refresh returned no access token.');
   }
 
-  return { accessToken: data.access_token, expiresIn: data.expires_in };
+  return { accessToken: data.access_token, expiresIn: data.expires_in, scope: data.scope };
 }
 
 async function getAccessToken(profile: string | undefined): Promise<string> {
@@ -238,6 +247,7 @@ async function getAccessToken(profile: string | undefined): Promise<string> {
   if (typeof refreshed.expiresIn === 'number') {
     nextRecord.expiry_date = now + refreshed.expiresIn * 1000;
   }
+  if (refreshed.scope) nextRecord.scope = refreshed.scope;
   const nextStore: OAuthTokenStore = {
     version: 2,
     activeProfile: normalizeProfileName(store.activeProfile),
@@ -269,7 +279,14 @@ function parseDriveFileId(input: string): string {
   return (fromDocsUrl?.[1] ?? trimmed).trim();
 }
 
-async function googleFetchJson(url: string, init: RequestInit, profile?: string): Promise<any> {
+function parseSpreadsheetId(input: string): string {
+  const trimmed = input.trim();
+  if (!trimmed) throw new Error('Spreadsheet ID is required.');
+  const fromUrl = extractGoogleSheetsSpreadsheetIdFromUrl(trimmed);
+  return (fromUrl ?? trimmed).trim();
+}
+
+export async function googleFetchJson(url: string, init: RequestInit, profile?: string): Promise<any> {
   const token = await getAccessToken(profile);
   const headers = new Headers(init.headers ?? {});
   headers.set('Authorization', `Bearer ${token}`);
@@ -283,7 +300,7 @@ async function googleFetchJson(url: string, init: RequestInit, profile?: string)
   return await res.json();
 }
 
-async function googleFetchText(url: string, init: RequestInit, profile?: string): Promise<string> {
+export async function googleFetchText(url: string, init: RequestInit, profile?: string): Promise<string> {
   const token = await getAccessToken(profile);
   const headers = new Headers(init.headers ?? {});
   headers.set('Authorization', `Bearer ${token}`);
@@ -750,6 +767,8 @@ export async function googleDocsAuthStatus(): Promise<{
   accountEmail?: string;
   accountDisplayName?: string;
   identityError?: string;
+  /** Scopes recorded for the refresh token (unknown for tokens stored before scopes were tracked). */
+  grantedScopes?: string[];
   error?: string;
 }> {
   return googleDocsAuthStatusForProfile(undefined);
@@ -766,6 +785,8 @@ export async function googleDocsAuthStatusForProfile(profile: string | undefined
   accountEmail?: string;
   accountDisplayName?: string;
   identityError?: string;
+  /** Scopes recorded for the refresh token (unknown for tokens stored before scopes were tracked). */
+  grantedScopes?: string[];
   error?: string;
 }> {
   const tokenPath = resolveTokenPath();
@@ -828,6 +849,7 @@ export async function googleDocsAuthStatusForProfile(profile: string | undefined
       ...(accountEmail ? { accountEmail } : {}),
       ...(accountDisplayName ? { accountDisplayName } : {}),
       ...(identityError ? { identityError } : {}),
+      ...(record.scope ? { grantedScopes: record.scope.split(/\s+/).filter(Boolean) } : {}),
     };
   } catch (err) {
     return {
@@ -844,6 +866,31 @@ export async function googleDocsAuthStatusForProfile(profile: string | undefined
 }
 
 export const GOOGLE_DOCS_REQUIRED_SCOPES = [GOOGLE_DOCS_SCOPE, GOOGLE_DRIVE_SCOPE];
+export const GOOGLE_CALENDAR_REQUIRED_SCOPES = [GOOGLE_CALENDAR_EVENTS_SCOPE, GOOGLE_CALENDAR_FREEBUSY_SCOPE];
+export const GMAIL_REQUIRED_SCOPES = [GMAIL_READONLY_SCOPE, GMAIL_COMPOSE_SCOPE];
+
+/**
+ * Optional Google features whose scopes are requested on top of Docs/Drive.
+ * The connect flow sets include_granted_scopes, so asking for a feature later
+ * adds its scopes to the existing grant instead of replacing it.
+ */
+export type GoogleOAuthFeature = 'calendar' | 'gmail';
+
+export const GOOGLE_OAUTH_FEATURES: GoogleOAuthFeature[] = ['calendar', 'gmail'];
+
+const GOOGLE_OAUTH_FEATURE_SCOPES: Record<GoogleOAuthFeature, string[]> = {
+  calendar: GOOGLE_CALENDAR_REQUIRED_SCOPES,
+  gmail: GMAIL_REQUIRED_SCOPES,
+};
+
+/** Scopes to request for a connect flow: Docs/Drive plus the requested features. */
+export function resolveGoogleOAuthScopes(features: GoogleOAuthFeature[] = []): string[] {
+  const scopes = new Set(GOOGLE_DOCS_REQUIRED_SCOPES);
+  for (const feature of features) {
+    for (const scope of GOOGLE_OAUTH_FEATURE_SCOPES[feature] ?? []) scopes.add(scope);
+  }
+  return [...scopes];
+}
 
 export async function googleDriveListFiles(params: {
   folderId?: string;
@@ -977,6 +1024,194 @@ export async function googleDriveMoveFile(params: {
   };
 }
 
+// Google Sheets. The Drive scope already grants Sheets API access, so no extra consent is needed.
+
+export type GoogleSheetsCellValue = string | number | boolean | null;
+export type GoogleSheetsValueInputOption = 'USER_ENTERED' | 'RAW';
+export type GoogleSheetsValueRenderOption = 'FORMATTED_VALUE' | 'UNFORMATTED_VALUE' | 'FORMULA';
+
+const SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
+
+function spreadsheetUrl(spreadsheetId: string): string {
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/edit`;
+}
+
+function valuesUrl(spreadsheetId: string, range: string, suffix = ''): URL {
+  return new URL(`${SHEETS_API_BASE}/${encodeURIComponent(spreadsheetId)}/values/${encodeURIComponent(range)}${suffix}`);
+}
+
+function requireRange(raw: string): string {
+  const range = raw.trim();
+  if (!range) throw new Error('range is required (A1 notation, e.g. "Sheet1!A1:C10").');
+  return range;
+}
+
+/** Quote a sheet title for use in an A1 range. */
+function quoteSheetTitle(title: string): string {
+  return `'${title.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Normalize rows for the values API: every row must be an array; nested
+ * objects/arrays in cells are JSON-encoded so structured results still land
+ * in a single cell.
+ */
+export function normalizeSheetRows(raw: unknown): GoogleSheetsCellValue[][] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error('values must be a non-empty array of rows (each row an array of cells).');
+  }
+  return raw.map((row, rowIndex) => {
+    if (!Array.isArray(row)) {
+      throw new Error(`values[${rowIndex}] must be an array of cells.`);
+    }
+    return row.map((cell): GoogleSheetsCellValue => {
+      if (cell === null || cell === undefined) return null;
+      if (typeof cell === 'string' || typeof cell === 'number' || typeof cell === 'boolean') return cell;
+      return JSON.stringify(cell);
+    });
+  });
+}
+
+export async function googleSheetsReadRange(params: {
+  spreadsheetId: string;
+  range: string;
+  valueRenderOption?: GoogleSheetsValueRenderOption;
+  profile?: string;
+}): Promise<{ spreadsheetId: string; range: string; values: GoogleSheetsCellValue[][]; url: string }> {
+  const spreadsheetId = parseSpreadsheetId(params.spreadsheetId);
+  const url = valuesUrl(spreadsheetId, requireRange(params.range));
+  url.searchParams.set('valueRenderOption', params.valueRenderOption ?? 'FORMATTED_VALUE');
+
+  const data = await googleFetchJson(url.toString(), { method: 'GET' }, params.profile);
+  return {
+    spreadsheetId,
+    range: typeof data?.range === 'string' ? data.range : params.range.trim(),
+    values: Array.isArray(data?.values) ? data.values : [],
+    url: spreadsheetUrl(spreadsheetId),
+  };
+}
+
+export async function googleSheetsWriteRange(params: {
+  spreadsheetId: string;
+  range: string;
+  values: unknown;
+  valueInputOption?: GoogleSheetsValueInputOption;
+  profile?: string;
+}): Promise<{
+  spreadsheetId: string;
+  updatedRange: string;
+  updatedRows: number;
+  updatedCells: number;
+  url: string;
+}> {
+  const spreadsheetId = parseSpreadsheetId(params.spreadsheetId);
+  const range = requireRange(params.range);
+  const values = normalizeSheetRows(params.values);
+  const url = valuesUrl(spreadsheetId, range);
+  url.searchParams.set('valueInputOption', params.valueInputOption ?? 'USER_ENTERED');
+
+  const data = await googleFetchJson(url.toString(), {
+    method: 'PUT',
+    body: JSON.stringify({ range, majorDimension: 'ROWS', values }),
+  }, params.profile);
+  return {
+    spreadsheetId,
+    updatedRange: typeof data?.updatedRange === 'string' ? data.updatedRange : range,
+    updatedRows: Number(data?.updatedRows) || 0,
+    updatedCells: Number(data?.updatedCells) || 0,
+    url: spreadsheetUrl(spreadsheetId),
+  };
+}
+
+/**
+ * Append rows after the last row of the table found in `range` (usually just
+ * the sheet name). Rows are inserted rather than overwriting cells below.
+ */
+export async function googleSheetsAppendRows(params: {
+  spreadsheetId: string;
+  range: string;
+  rows: unknown;
+  valueInputOption?: GoogleSheetsValueInputOption;
+  profile?: string;
+}): Promise<{
+  spreadsheetId: string;
+  updatedRange: string;
+  appendedRows: number;
+  url: string;
+}> {
+  const spreadsheetId = parseSpreadsheetId(params.spreadsheetId);
+  const range = requireRange(params.range);
+  const values = normalizeSheetRows(params.rows);
+  const url = valuesUrl(spreadsheetId, range, ':append');
+  url.searchParams.set('valueInputOption', params.valueInputOption ?? 'USER_ENTERED');
+  url.searchParams.set('insertDataOption', 'INSERT_ROWS');
+
+  const data = await googleFetchJson(url.toString(), {
+    method: 'POST',
+    body: JSON.stringify({ majorDimension: 'ROWS', values }),
+  }, params.profile);
+  const updates = data?.updates ?? {};
+  return {
+    spreadsheetId,
+    updatedRange: typeof updates.updatedRange === 'string' ? updates.updatedRange : range,
+    appendedRows: Number(updates.updatedRows) || values.length,
+    url: spreadsheetUrl(spreadsheetId),
+  };
+}
+
+export async function googleSheetsCreate(params: {
+  title: string;
+  sheetTitles?: string[];
+  headers?: unknown[];
+  folderId?: string;
+  profile?: string;
+}): Promise<{ spreadsheetId: string; title: string; sheetTitles: string[]; url: string }> {
+  const title = params.title.trim();
+  if (!title) throw new Error('title is required.');
+  const requestedSheets = (params.sheetTitles ?? []).map((name) => name.trim()).filter(Boolean);
+
+  const created = await googleFetchJson(SHEETS_API_BASE, {
+    method: 'POST',
+    body: JSON.stringify({
+      properties: { title },
+      ...(requestedSheets.length > 0
+        ? { sheets: requestedSheets.map((sheetTitle) => ({ properties: { title: sheetTitle } })) }
+        : {}),
+    }),
+  }, params.profile);
+
+  const spreadsheetId = String(created?.spreadsheetId ?? '');
+  if (!spreadsheetId) throw new Error('Google Sheets create returned no spreadsheetId.');
+  const sheetTitles: string[] = Array.isArray(created?.sheets)
+    ? created.sheets
+      .map((sheet: any) => sheet?.properties?.title)
+      .filter((name: unknown): name is string => typeof name === 'string')
+    : requestedSheets;
+
+  if (params.headers && params.headers.length > 0) {
+    const firstSheet = sheetTitles[0];
+    await googleSheetsWriteRange({
+      spreadsheetId,
+      range: firstSheet ? `${quoteSheetTitle(firstSheet)}!A1` : 'A1',
+      values: [params.headers],
+      valueInputOption: 'RAW',
+      profile: params.profile,
+    });
+  }
+
+  const folderId = params.folderId?.trim();
+  if (folderId) {
+    await googleDriveMoveFile({ fileId: spreadsheetId, targetFolderId: folderId, profile: params.profile });
+  }
+
+  return {
+    spreadsheetId,
+    title,
+    sheetTitles,
+    url: typeof created?.spreadsheetUrl === 'string' ? created.spreadsheetUrl : spreadsheetUrl(spreadsheetId),
+  };
+}
+
 export interface GoogleDocsAuthConfigInput {
   profile?: string;
   setActive?: boolean;
@@ -1058,6 +1293,23 @@ export async function upsertGoogleDocsAuthConfig(
   };
 }
 
+/** Client secrets and tokens of every stored OAuth profile, for secret redaction (see secret-redaction.ts). */
+export async function listGoogleOAuthSecrets(): Promise<Array<{ label: string; value: string }>> {
+  let store: OAuthTokenStore;
+  try {
+    store = (await loadTokenStore()).store;
+  } catch {
+    return [];
+  }
+  const secrets: Array<{ label: string; value: string }> = [];
+  for (const [name, record] of Object.entries(store.profiles ?? {})) {
+    if (record.client_secret?.trim()) secrets.push({ label: `google_client_secret:${name}`, value: record.client_secret.trim() });
+    if (record.refresh_token?.trim()) secrets.push({ label: `google_refresh_token:${name}`, value: record.refresh_token.trim() });
+    if (record.access_token?.trim()) secrets.push({ label: `google_access_token:${name}`, value: record.access_token.trim() });
+  }
+  return secrets;
+}
+
 export async function listGoogleDocsAuthProfiles(): Promise<{
   tokenPath: string;
   activeProfile: string;
@@ -1165,7 +1417,15 @@ export async function setGoogleDocsActiveProfile(profile: string): Promise<{ tok
 export async function startGoogleOAuthConnect(input: {
   redirectUri: string;
   profile?: string;
-}): Promise<{ sessionId: string; authUrl: string; redirectUri: string; profile?: string; expiresAt: number }> {
+  features?: GoogleOAuthFeature[];
+}): Promise<{
+  sessionId: string;
+  authUrl: string;
+  redirectUri: string;
+  profile?: string;
+  scopes: string[];
+  expiresAt: number;
+}> {
   const callerRedirectUri = input.redirectUri.trim();
   if (!callerRedirectUri) {
     throw new Error('redirectUri is required.');
@@ -1203,7 +1463,8 @@ export async function startGoogleOAuthConnect(input: {
   authUrl.searchParams.set('client_id', clientId);
   authUrl.searchParams.set('redirect_uri', redirectUri);
   authUrl.searchParams.set('response_type', 'code');
-  authUrl.searchParams.set('scope', `${GOOGLE_DOCS_SCOPE} ${GOOGLE_DRIVE_SCOPE}`);
+  const scopes = resolveGoogleOAuthScopes(input.features);
+  authUrl.searchParams.set('scope', scopes.join(' '));
   authUrl.searchParams.set('access_type', 'offline');
   authUrl.searchParams.set('prompt', 'consent');
   authUrl.searchParams.set('include_granted_scopes', 'true');
@@ -1214,6 +1475,7 @@ export async function startGoogleOAuthConnect(input: {
     authUrl: authUrl.toString(),
     redirectUri,
     ...(requestedProfile ? { profile: requestedProfile } : {}),
+    scopes,
     expiresAt: now + OAUTH_SESSION_TTL_MS,
   };
 }
@@ -1299,6 +1561,7 @@ export async function completeGoogleOAuthConnect(input: {
     access_token?: string;
     refresh_token?: string;
     expires_in?: number;
+    scope?: string;
   };
 
   const refreshToken = tokenJson.refresh_token?.trim() || targetRecord.refresh_token?.trim() || '';
@@ -1344,6 +1607,7 @@ export async function completeGoogleOAuthConnect(input: {
     token_uri: clientCfg.tokenUri,
     refresh_token: refreshToken,
     ...(accessToken ? { access_token: accessToken } : {}),
+    ...(tokenJson.scope ? { scope: tokenJson.scope } : {}),
   };
   if (typeof tokenJson.expires_in === 'number' && accessToken) {
     nextRecord.expiry_date = Date.now() + tokenJson.expires_in * 1000;
@@ -0,0 +1,256 @@
+/**
+ * Gmail
+ *
+ * Gmail API helpers behind the gmail_* tools: search, read a thread, create a
+ * draft and send a draft. Sending is only reachable through gmail_send_draft,
+ * which always pauses for user approval (see talk-policy.ts). Auth reuses the
+ * Google OAuth profiles from google-docs.ts with the `gmail` feature scopes.
+ */
+
+import { googleFetchJson } from './google-docs.js';
+
+const GMAIL_API_BASE = 'https://gmail.googleapis.com/gmail/v1/users/me';
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_RESULTS = 50;
+const DEFAULT_THREAD_MAX_CHARS = 20_000;
+
+export interface GmailMessageSummary {
+  id: string;
+  threadId: string;
+  from?: string;
+  to?: string;
+  subject?: string;
+  date?: string;
+  snippet?: string;
+}
+
+export interface GmailThreadMessage extends GmailMessageSummary {
+  body: string;
+}
+
+export interface GmailDraftInput {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  body: string;
+  /** Reply headers; set when drafting into an existing thread. */
+  inReplyTo?: string;
+  references?: string;
+}
+
+function header(headers: unknown, name: string): string | undefined {
+  if (!Array.isArray(headers)) return undefined;
+  const match = headers.find((entry: any) => typeof entry?.name === 'string' && entry.name.toLowerCase() === name.toLowerCase());
+  return typeof match?.value === 'string' ? match.value : undefined;
+}
+
+function toSummary(message: any): GmailMessageSummary {
+  const headers = message?.payload?.headers;
+  return {
+    id: String(message?.id ?? ''),
+    threadId: String(message?.threadId ?? ''),
+    from: header(headers, 'From'),
+    to: header(headers, 'To'),
+    subject: header(headers, 'Subject'),
+    date: header(headers, 'Date'),
+    snippet: typeof message?.snippet === 'string' ? message.snippet : undefined,
+  };
+}
+
+function decodeBase64Url(data: string): string {
+  return Buffer.from(data.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf-8');
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** Best-effort text body: the first text/plain part, else stripped text/html. */
+function extractMessageBody(payload: any): string {
+  const parts: any[] = [];
+  const walk = (part: any) => {
+    if (!part) return;
+    parts.push(part);
+    if (Array.isArray(part.parts)) part.parts.forEach(walk);
+  };
+  walk(payload);
+  const plain = parts.find((part) => part.mimeType === 'text/plain' && part.body?.data);
+  if (plain) return decodeBase64Url(plain.body.data).trim();
+  const html = parts.find((part) => part.mimeType === 'text/html' && part.body?.data);
+  if (html) return stripHtml(decodeBase64Url(html.body.data));
+  return '';
+}
+
+/** Strip CR/LF so header values cannot inject extra headers. */
+function sanitizeHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim();
+}
+
+/** RFC 2047-encode a header value when it is not plain ASCII. */
+function encodeHeaderValue(value: string): string {
+  const clean = sanitizeHeaderValue(value);
+  return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${Buffer.from(clean, 'utf-8').toString('base64')}?=`;
+}
+
+function normalizeAddresses(addresses: string[] | undefined): string[] {
+  return (addresses ?? []).map(sanitizeHeaderValue).filter(Boolean);
+}
+
+/** Build an RFC 2822 message (UTF-8 plain text body) for the drafts API. */
+export function buildRawEmail(input: GmailDraftInput): string {
+  const to = normalizeAddresses(input.to);
+  if (to.length === 0) throw new Error('At least one recipient (to) is required.');
+  const cc = normalizeAddresses(input.cc);
+  const bcc = normalizeAddresses(input.bcc);
+  const lines = [
+    `To: ${to.join(', ')}`,
+    ...(cc.length > 0 ? [`Cc: ${cc.join(', ')}`] : []),
+    ...(bcc.length > 0 ? [`Bcc: ${bcc.join(', ')}`] : []),
+    `Subject: ${encodeHeaderValue(input.subject)}`,
+    ...(input.inReplyTo ? [`In-Reply-To: ${sanitizeHeaderValue(input.inReplyTo)}`] : []),
+    ...(input.references ? [`References: ${sanitizeHeaderValue(input.references)}`] : []),
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset="UTF-8"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    (Buffer.from(input.body, 'utf-8').toString('base64').match(/.{1,76}/g) ?? []).join('\r\n'),
+  ];
+  return lines.join('\r\n');
+}
+
+export async function gmailSearch(params: {
+  query: string;
+  maxResults?: number;
+  profile?: string;
+}): Promise<{ messages: GmailMessageSummary[]; resultSizeEstimate?: number }> {
+  const query = params.query.trim();
+  if (!query) throw new Error('query is required.');
+  const maxResults = Math.max(1, Math.min(MAX_SEARCH_RESULTS, Number(params.maxResults) || DEFAULT_SEARCH_RESULTS));
+
+  const url = new URL(`${GMAIL_API_BASE}/messages`);
+  url.searchParams.set('q', query);
+  url.searchParams.set('maxResults', String(maxResults));
+  const listed = await googleFetchJson(url.toString(), { method: 'GET' }, params.profile);
+  const ids: string[] = Array.isArray(listed?.messages)
+    ? listed.messages.map((message: any) => message?.id).filter((id: unknown): id is string => typeof id === 'string')
+    : [];
+
+  const messages = await Promise.all(ids.map(async (id) => {
+    const metaUrl = new URL(`${GMAIL_API_BASE}/messages/${encodeURIComponent(id)}`);
+    metaUrl.searchParams.set('format', 'metadata');
+    for (const name of ['From', 'To', 'Subject', 'Date']) metaUrl.searchParams.append('metadataHeaders', name);
+    return toSummary(await googleFetchJson(metaUrl.toString(), { method: 'GET' }, params.profile));
+  }));
+  return {
+    messages,
+    ...(typeof listed?.resultSizeEstimate === 'number' ? { resultSizeEstimate: listed.resultSizeEstimate } : {}),
+  };
+}
+
+export async function gmailReadThread(params: {
+  threadId: string;
+  maxChars?: number;
+  profile?: string;
+}): Promise<{ threadId: string; messages: GmailThreadMessage[]; truncated: boolean }> {
+  const threadId = params.threadId.trim();
+  if (!threadId) throw new Error('thread_id is required.');
+  const maxChars = Math.max(500, Number(params.maxChars) || DEFAULT_THREAD_MAX_CHARS);
+
+  const url = new URL(`${GMAIL_API_BASE}/threads/${encodeURIComponent(threadId)}`);
+  url.searchParams.set('format', 'full');
+  const thread = await googleFetchJson(url.toString(), { method: 'GET' }, params.profile);
+
+  let remaining = maxChars;
+  let truncated = false;
+  const messages: GmailThreadMessage[] = [];
+  for (const message of Array.isArray(thread?.messages) ? thread.messages : []) {
+    let body = extractMessageBody(message?.payload);
+    if (body.length > remaining) {
+      body = body.slice(0, Math.max(0, remaining));
+      truncated = true;
+    }
+    remaining -= body.length;
+    messages.push({ ...toSummary(message), body });
+  }
+  return { threadId, messages, truncated };
+}
+
+export async function gmailCreateDraft(params: {
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject?: string;
+  body: string;
+  threadId?: string;
+  profile?: string;
+}): Promise<{ draftId: string; messageId: string; threadId?: string; to: string[]; subject: string }> {
+  const threadId = params.threadId?.trim() || undefined;
+  let subject = params.subject?.trim() ?? '';
+  let inReplyTo: string | undefined;
+  let references: string | undefined;
+
+  if (threadId) {
+    // Reply in-thread: Gmail only threads a draft when the reply headers match.
+    const url = new URL(`${GMAIL_API_BASE}/threads/${encodeURIComponent(threadId)}`);
+    url.searchParams.set('format', 'metadata');
+    for (const name of ['Subject', 'Message-ID', 'References']) url.searchParams.append('metadataHeaders', name);
+    const thread = await googleFetchJson(url.toString(), { method: 'GET' }, params.profile);
+    const last = Array.isArray(thread?.messages) ? thread.messages[thread.messages.length - 1] : undefined;
+    const headers = last?.payload?.headers;
+    inReplyTo = header(headers, 'Message-ID');
+    references = [header(headers, 'References'), inReplyTo].filter(Boolean).join(' ') || undefined;
+    if (!subject) {
+      const original = header(headers, 'Subject') ?? '';
+      subject = /^re:/i.test(original) ? original : `Re: ${original}`.trim();
+    }
+  }
+  if (!subject) throw new Error('subject is required.');
+
+  const to = normalizeAddresses(params.to);
+  const raw = buildRawEmail({ to, cc: params.cc, bcc: params.bcc, subject, body: params.body, inReplyTo, references });
+  const created = await googleFetchJson(`${GMAIL_API_BASE}/drafts`, {
+    method: 'POST',
+    body: JSON.stringify({
+      message: {
+        raw: Buffer.from(raw, 'utf-8').toString('base64url'),
+        ...(threadId ? { threadId } : {}),
+      },
+    }),
+  }, params.profile);
+
+  const draftId = String(created?.id ?? '');
+  if (!draftId) throw new Error('Gmail draft create returned no draft id.');
+  return {
+    draftId,
+    messageId: String(created?.message?.id ?? ''),
+    ...(created?.message?.threadId ? { threadId: String(created.message.threadId) } : {}),
+    to,
+    subject,
+  };
+}
+
+export async function gmailSendDraft(params: {
+  draftId: string;
+  profile?: string;
+}): Promise<{ messageId: string; threadId?: string }> {
+  const draftId = params.draftId.trim();
+  if (!draftId) throw new Error('draft_id is required.');
+  const sent = await googleFetchJson(`${GMAIL_API_BASE}/drafts/send`, {
+    method: 'POST',
+    body: JSON.stringify({ id: draftId }),
+  }, params.profile);
+  return {
+    messageId: String(sent?.id ?? ''),
+    ...(sent?.threadId ? { threadId: String(sent.threadId) } : {}),
+  };
+}
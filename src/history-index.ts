@@ -0,0 +1,315 @@
+/**
+ * History Offset Index
+ *
+ * Sidecar for a Talk's `history.jsonl`: `history.offsets.jsonl` records the
+ * byte offset and length of every message line, so pages of history can be
+ * read with positioned reads instead of parsing the whole file.
+ *
+ * All writes to history.jsonl go through this class, serialized per Talk,
+ * so the offsets stay in step with the file. Before each read the cached
+ * offsets are checked against the file size; a mismatch (external edit,
+ * crash between the two appends, missing sidecar) triggers a rebuild by
+ * scanning history.jsonl once.
+ */
+
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Logger, TalkMessage } from './types.js';
+
+const HISTORY_FILE = 'history.jsonl';
+const OFFSETS_FILE = 'history.offsets.jsonl';
+/** Offset tables kept in memory at once; the least recently used is dropped first. */
+const MAX_LOADED_TALKS = 64;
+export const DEFAULT_MESSAGE_PAGE_LIMIT = 100;
+export const MAX_MESSAGE_PAGE_LIMIT = 1000;
+
+interface OffsetEntry {
+  id: string;
+  /** Byte offset of the line in history.jsonl. */
+  offset: number;
+  /** Byte length of the line, excluding the newline. */
+  length: number;
+}
+
+interface OffsetTable {
+  entries: OffsetEntry[];
+  positions: Map<string, number>;
+  /** history.jsonl size the table describes. */
+  size: number;
+}
+
+export interface MessagePageOptions {
+  /** Return messages immediately older than this message id. */
+  before?: string;
+  /** Return messages immediately newer than this message id. */
+  after?: string;
+  limit?: number;
+}
+
+export interface MessagePage {
+  /** Oldest first. */
+  messages: TalkMessage[];
+  /** More messages exist before the first one returned. */
+  hasOlder: boolean;
+  /** More messages exist after the last one returned. */
+  hasNewer: boolean;
+  total: number;
+}
+
+function buildTable(entries: OffsetEntry[], size: number): OffsetTable {
+  return { entries, positions: new Map(entries.map((entry, i) => [entry.id, i])), size };
+}
+
+function coveredSize(entries: OffsetEntry[]): number {
+  const last = entries[entries.length - 1];
+  return last ? last.offset + last.length + 1 : 0;
+}
+
+export class HistoryIndex {
+  private readonly tables = new Map<string, OffsetTable>();
+  private readonly locks = new Map<string, Promise<unknown>>();
+  /** Bumped whenever a talk's existing lines may have changed (not on appends). */
+  private readonly generations = new Map<string, number>();
+
+  constructor(
+    private readonly talksDir: string,
+    private readonly loadHistory: (talkId: string) => Promise<TalkMessage[]>,
+    private readonly logger: Logger,
+  ) {}
+
+  private historyPath(talkId: string): string {
+    return path.join(this.talksDir, talkId, HISTORY_FILE);
+  }
+
+  private offsetsPath(talkId: string): string {
+    return path.join(this.talksDir, talkId, OFFSETS_FILE);
+  }
+
+  private async withLock<T>(talkId: string, op: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(talkId) ?? Promise.resolve();
+    const next = previous.then(op, op);
+    const marker = next.then(() => undefined, () => undefined);
+    this.locks.set(talkId, marker);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(talkId) === marker) {
+        this.locks.delete(talkId);
+      }
+    }
+  }
+
+  private remember(talkId: string, table: OffsetTable): OffsetTable {
+    this.tables.delete(talkId);
+    this.tables.set(talkId, table);
+    while (this.tables.size > MAX_LOADED_TALKS) {
+      this.tables.delete(this.tables.keys().next().value as string);
+    }
+    return table;
+  }
+
+  private async historySize(talkId: string): Promise<number> {
+    try {
+      return (await fsp.stat(this.historyPath(talkId))).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async readOffsetsFile(talkId: string): Promise<OffsetEntry[] | null> {
+    let text: string;
+    try {
+      text = await fsp.readFile(this.offsetsPath(talkId), 'utf-8');
+    } catch {
+      return null;
+    }
+    const entries: OffsetEntry[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as OffsetEntry;
+        if (typeof entry.id === 'string' && Number.isInteger(entry.offset) && Number.isInteger(entry.length)) {
+          entries.push(entry);
+        }
+      } catch {
+        return null; // torn write — rebuild from history instead
+      }
+    }
+    return entries;
+  }
+
+  private async writeOffsetsFile(talkId: string, entries: OffsetEntry[]): Promise<void> {
+    const content = entries.map((entry) => JSON.stringify(entry)).join('\n');
+    await fsp.writeFile(this.offsetsPath(talkId), content ? `${content}\n` : '', 'utf-8');
+  }
+
+  private bumpGeneration(talkId: string): void {
+    this.generations.set(talkId, this.generation(talkId) + 1);
+  }
+
+  /**
+   * Changes when messages already in history may have been edited, removed
+   * or reordered (rewrites, external edits), but not on appends. Callers
+   * caching derived data can keep it and read only newer messages while
+   * this stays the same.
+   */
+  generation(talkId: string): number {
+    return this.generations.get(talkId) ?? 0;
+  }
+
+  /** Scan history.jsonl and rewrite the sidecar. Malformed lines are left out. */
+  private async rebuild(talkId: string): Promise<OffsetTable> {
+    this.bumpGeneration(talkId);
+    let buf: Buffer;
+    try {
+      buf = await fsp.readFile(this.historyPath(talkId));
+    } catch {
+      return buildTable([], 0);
+    }
+    const entries: OffsetEntry[] = [];
+    let start = 0;
+    while (start < buf.length) {
+      let end = buf.indexOf(0x0a, start);
+      if (end === -1) end = buf.length;
+      const line = buf.toString('utf-8', start, end);
+      if (line.trim()) {
+        try {
+          const msg = JSON.parse(line) as TalkMessage;
+          if (typeof msg?.id === 'string') entries.push({ id: msg.id, offset: start, length: end - start });
+        } catch {
+          // skip malformed lines
+        }
+      }
+      start = end + 1;
+    }
+    await this.writeOffsetsFile(talkId, entries);
+    this.logger.debug(`HistoryIndex: rebuilt offsets for talk ${talkId} (${entries.length} messages)`);
+    return buildTable(entries, buf.length);
+  }
+
+  /** Current offset table for a talk, reloaded or rebuilt when stale. Caller holds the lock. */
+  private async load(talkId: string): Promise<OffsetTable> {
+    const size = await this.historySize(talkId);
+    const cached = this.tables.get(talkId);
+    if (cached && cached.size === size) return this.remember(talkId, cached);
+    if (size === 0) return this.remember(talkId, buildTable([], 0));
+
+    const entries = await this.readOffsetsFile(talkId);
+    if (entries && coveredSize(entries) === size) {
+      return this.remember(talkId, buildTable(entries, size));
+    }
+    return this.remember(talkId, await this.rebuild(talkId));
+  }
+
+  /** Append a message line to history.jsonl and record its offset. */
+  async append(talkId: string, msg: TalkMessage): Promise<void> {
+    await this.withLock(talkId, async () => {
+      await fsp.mkdir(path.join(this.talksDir, talkId), { recursive: true });
+      const table = await this.load(talkId);
+      const line = JSON.stringify(msg);
+      await fsp.appendFile(this.historyPath(talkId), `${line}\n`, 'utf-8');
+
+      const entry: OffsetEntry = { id: msg.id, offset: table.size, length: Buffer.byteLength(line, 'utf-8') };
+      // Starting a fresh history: replace any sidecar left from an older file.
+      const write = table.size === 0 ? fsp.writeFile : fsp.appendFile;
+      table.entries.push(entry);
+      table.positions.set(entry.id, table.entries.length - 1);
+      table.size += entry.length + 1;
+      await write(this.offsetsPath(talkId), `${JSON.stringify(entry)}\n`, 'utf-8').catch((err) => {
+        // history.jsonl is the source of truth; the next read rebuilds the sidecar.
+        this.logger.warn(`HistoryIndex: failed to record offset for talk ${talkId}: ${err}`);
+      });
+    });
+  }
+
+  /**
+   * Rewrite history.jsonl (and the sidecar) from the result of `transform`,
+   * under the same lock as appends so no concurrent message is lost.
+   */
+  async rewrite(
+    talkId: string,
+    transform: (messages: TalkMessage[]) => TalkMessage[],
+  ): Promise<{ before: TalkMessage[]; after: TalkMessage[] }> {
+    return this.withLock(talkId, async () => {
+      const before = await this.loadHistory(talkId);
+      const after = transform(before);
+      await fsp.mkdir(path.join(this.talksDir, talkId), { recursive: true });
+
+      const entries: OffsetEntry[] = [];
+      let offset = 0;
+      const lines = after.map((msg) => {
+        const line = JSON.stringify(msg);
+        const length = Buffer.byteLength(line, 'utf-8');
+        entries.push({ id: msg.id, offset, length });
+        offset += length + 1;
+        return line;
+      });
+      await fsp.writeFile(this.historyPath(talkId), lines.length > 0 ? `${lines.join('\n')}\n` : '', 'utf-8');
+      await this.writeOffsetsFile(talkId, entries);
+      this.remember(talkId, buildTable(entries, offset));
+      this.bumpGeneration(talkId);
+      return { before, after };
+    });
+  }
+
+  /**
+   * Read one page of history. Without a cursor, returns the newest `limit`
+   * messages. Returns null when the cursor message does not exist.
+   */
+  async page(talkId: string, options: MessagePageOptions = {}): Promise<MessagePage | null> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_MESSAGE_PAGE_LIMIT, 1), MAX_MESSAGE_PAGE_LIMIT);
+    return this.withLock(talkId, async () => {
+      const table = await this.load(talkId);
+      const total = table.entries.length;
+      let start: number;
+      let end: number;
+      if (options.after !== undefined) {
+        const pos = table.positions.get(options.after);
+        if (pos === undefined) return null;
+        start = pos + 1;
+        end = Math.min(total, start + limit);
+      } else if (options.before !== undefined) {
+        const pos = table.positions.get(options.before);
+        if (pos === undefined) return null;
+        end = pos;
+        start = Math.max(0, end - limit);
+      } else {
+        end = total;
+        start = Math.max(0, end - limit);
+      }
+
+      const messages = await this.readRange(talkId, table.entries.slice(start, end));
+      return { messages, hasOlder: start > 0, hasNewer: end < total, total };
+    });
+  }
+
+  /** Read a contiguous run of entries with one positioned read. */
+  private async readRange(talkId: string, entries: OffsetEntry[]): Promise<TalkMessage[]> {
+    if (entries.length === 0) return [];
+    const first = entries[0].offset;
+    const last = entries[entries.length - 1];
+    const buf = Buffer.alloc(last.offset + last.length - first);
+    const fd = await fsp.open(this.historyPath(talkId), 'r');
+    try {
+      await fd.read(buf, 0, buf.length, first);
+    } finally {
+      await fd.close();
+    }
+    const messages: TalkMessage[] = [];
+    for (const entry of entries) {
+      const start = entry.offset - first;
+      try {
+        messages.push(JSON.parse(buf.toString('utf-8', start, start + entry.length)) as TalkMessage);
+      } catch {
+        this.logger.warn(`HistoryIndex: unreadable message ${entry.id} in talk ${talkId}`);
+      }
+    }
+    return messages;
+  }
+
+  /** Drop a deleted talk's cached offsets. */
+  forget(talkId: string): void {
+    this.tables.delete(talkId);
+    this.bumpGeneration(talkId);
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * HTTP API Client
+ *
+ * Backs the http_api_client tool: structured requests to external APIs on a
+ * host allowlist (global, plus each talk's `httpAllowedHosts`). Credentials
+ * are stored server-side as named secrets (http-api-client.json in the data
+ * dir) and referenced as `{{secret:NAME}}` in the URL, headers or body; the
+ * model only ever sees the names, and echoed values are redacted from
+ * responses. A secret can be bound to hosts so it is never sent elsewhere.
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { normalizeHttpAllowedHosts } from './talk-store.js';
+import type { Logger } from './types.js';
+
+export type HttpApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const HTTP_API_METHODS: HttpApiMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+/** Bytes read from a response body before it is cut off. */
+const MAX_RESPONSE_BYTES = 1024 * 1024;
+const DEFAULT_MAX_CHARS = 20_000;
+const MAX_MAX_CHARS = 100_000;
+const DEFAULT_TIMEOUT_S = 30;
+const MAX_TIMEOUT_S = 120;
+const SECRET_NAME_RE = /^[A-Za-z0-9_.-]{1,64}$/;
+const SECRET_REF_RE = /\{\{\s*secret:([A-Za-z0-9_.-]+)\s*\}\}/g;
+/** Response headers worth showing the model. */
+const REPORTED_HEADERS = ['content-type', 'location', 'retry-after', 'x-ratelimit-remaining', 'x-ratelimit-reset'];
+
+interface HttpApiSecretRecord {
+  value: string;
+  /** Hosts the secret may be sent to (empty = any allowlisted host). */
+  hosts: string[];
+  updatedAt: number;
+}
+
+/** Client-facing view of a secret (never includes the value). */
+export interface HttpApiSecretInfo {
+  name: string;
+  hosts: string[];
+  updatedAt: number;
+}
+
+export interface HttpApiRequest {
+  method: HttpApiMethod;
+  url: string;
+  headers?: Record<string, string>;
+  /** JSON body; serialized and sent with `Content-Type: application/json`. */
+  body?: unknown;
+  timeoutS?: number;
+  maxChars?: number;
+}
+
+export type HttpApiResult =
+  | {
+    ok: true;
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    truncated: boolean;
+    secretsUsed: string[];
+  }
+  | { ok: false; error: string };
+
+const DEFAULT_DATA_DIR = join(
+  process.env.HOME || '~',
+  '.openclaw',
+  'plugins',
+  'clawtalk',
+);
+
+/** Whether a hostname matches an allowlist entry (`*.example.com` matches subdomains only). */
+export function hostMatchesAllowlist(hostname: string, allowlist: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return allowlist.some((pattern) =>
+    pattern.startsWith('*.') ? host.endsWith(pattern.slice(1)) : host === pattern);
+}
+
+/** Names of all `{{secret:NAME}}` references in a string. */
+export function findSecretRefs(text: string): string[] {
+  return Array.from(text.matchAll(SECRET_REF_RE), (match) => match[1]);
+}
+
+function injectSecretRefs(text: string, values: Map<string, string>): string {
+  return text.replace(SECRET_REF_RE, (_match, name: string) => values.get(name) ?? '');
+}
+
+/** Replace any secret value that appears in `text` with its reference. */
+export function redactSecretValues(text: string, values: Map<string, string>): string {
+  let out = text;
+  for (const [name, value] of values) {
+    if (value.length >= 4) out = out.split(value).join(`{{secret:${name}}}`);
+  }
+  return out;
+}
+
+/** Pretty-print JSON bodies; other content is returned as-is. */
+export function formatHttpResponseBody(text: string, contentType: string | undefined): string {
+  const looksJson = /\bjson\b/i.test(contentType ?? '') || /^\s*[[{]/.test(text);
+  if (!looksJson) return text;
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+async function readCappedBody(res: Response): Promise<{ text: string; truncated: boolean }> {
+  if (!res.body) return { text: '', truncated: false };
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (total + value.byteLength > MAX_RESPONSE_BYTES) {
+      chunks.push(value.subarray(0, MAX_RESPONSE_BYTES - total));
+      truncated = true;
+      await reader.cancel().catch(() => {});
+      break;
+    }
+    chunks.push(value);
+    total += value.byteLength;
+  }
+  return { text: Buffer.concat(chunks).toString('utf-8'), truncated };
+}
+
+export class HttpApiClientStore {
+  private allowedHosts: string[] = [];
+  private secrets = new Map<string, HttpApiSecretRecord>();
+  private persistPath: string;
+  private logger: Logger;
+
+  constructor(dataDir: string | undefined, logger: Logger) {
+    this.logger = logger;
+    const dir = dataDir || DEFAULT_DATA_DIR;
+    mkdirSync(dir, { recursive: true });
+    this.persistPath = join(dir, 'http-api-client.json');
+    this.load();
+  }
+
+  getAllowedHosts(): string[] {
+    return [...this.allowedHosts];
+  }
+
+  setAllowedHosts(hosts: unknown): string[] {
+    this.allowedHosts = normalizeHttpAllowedHosts(hosts);
+    this.save();
+    return this.getAllowedHosts();
+  }
+
+  listSecrets(): HttpApiSecretInfo[] {
+    return [...this.secrets.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, record]) => ({ name, hosts: [...record.hosts], updatedAt: record.updatedAt }));
+  }
+
+  /** Stored secret values, for secret redaction (see secret-redaction.ts). */
+  listSecretValues(): Array<{ label: string; value: string }> {
+    return [...this.secrets.entries()].map(([name, record]) => ({ label: `http_api_secret:${name}`, value: record.value }));
+  }
+
+  setSecret(
+    name: string,
+    value: string,
+    hosts?: unknown,
+  ): { ok: true; secret: HttpApiSecretInfo } | { ok: false; error: string } {
+    const trimmed = name.trim();
+    if (!SECRET_NAME_RE.test(trimmed)) {
+      return { ok: false, error: 'Secret name must be 1-64 characters of letters, digits, _, . or -' };
+    }
+    if (!value) return { ok: false, error: 'Secret value is required' };
+    const record: HttpApiSecretRecord = {
+      value,
+      hosts: hosts === undefined ? this.secrets.get(trimmed)?.hosts ?? [] : normalizeHttpAllowedHosts(hosts),
+      updatedAt: Date.now(),
+    };
+    this.secrets.set(trimmed, record);
+    this.save();
+    this.logger.info(`HttpApiClientStore: stored secret "${trimmed}"`);
+    return { ok: true, secret: { name: trimmed, hosts: [...record.hosts], updatedAt: record.updatedAt } };
+  }
+
+  deleteSecret(name: string): boolean {
+    const deleted = this.secrets.delete(name.trim());
+    if (deleted) this.save();
+    return deleted;
+  }
+
+  /**
+   * Send a request. The host must be on the global or talk allowlist, and
+   * every referenced secret must exist and be allowed for that host.
+   */
+  async request(input: HttpApiRequest, talkAllowedHosts: string[] = []): Promise<HttpApiResult> {
+    if (!HTTP_API_METHODS.includes(input.method)) {
+      return { ok: false, error: `method must be one of: ${HTTP_API_METHODS.join(', ')}` };
+    }
+    let target: URL;
+    try {
+      target = new URL(input.url);
+    } catch {
+      return { ok: false, error: `Invalid URL: ${input.url}` };
+    }
+    if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+      return { ok: false, error: 'Only http:// and https:// URLs are supported.' };
+    }
+    const allowlist = [...this.allowedHosts, ...talkAllowedHosts];
+    if (!hostMatchesAllowlist(target.hostname, allowlist)) {
+      return {
+        ok: false,
+        error:
+          `Host "${target.hostname}" is not on the HTTP API allowlist` +
+          (allowlist.length > 0 ? ` (allowed: ${allowlist.join(', ')}).` : ' (no hosts are allowed yet).'),
+      };
+    }
+
+    const bodyText = input.body === undefined ? undefined : JSON.stringify(input.body);
+    const headerEntries = Object.entries(input.headers ?? {});
+    const refs = new Set([
+      ...findSecretRefs(input.url),
+      ...headerEntries.flatMap(([key, value]) => [...findSecretRefs(key), ...findSecretRefs(value)]),
+      ...(bodyText ? findSecretRefs(bodyText) : []),
+    ]);
+    const values = new Map<string, string>();
+    for (const name of refs) {
+      const secret = this.secrets.get(name);
+      if (!secret) return { ok: false, error: `Unknown secret "${name}".` };
+      if (secret.hosts.length > 0 && !hostMatchesAllowlist(target.hostname, secret.hosts)) {
+        return { ok: false, error: `Secret "${name}" may not be sent to ${target.hostname}.` };
+      }
+      values.set(name, secret.value);
+    }
+
+    const url = new URL(injectSecretRefs(input.url, values));
+    if (url.hostname !== target.hostname) {
+      return { ok: false, error: 'Secrets may not change the request host.' };
+    }
+    const headers = new Headers();
+    for (const [key, value] of headerEntries) {
+      try {
+        headers.set(injectSecretRefs(key, values), injectSecretRefs(String(value), values));
+      } catch {
+        return { ok: false, error: `Invalid header: ${key}` };
+      }
+    }
+    if (bodyText !== undefined && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+    if (!headers.has('Accept')) headers.set('Accept', 'application/json, */*;q=0.5');
+
+    const timeoutS = Math.min(MAX_TIMEOUT_S, Math.max(1, Number(input.timeoutS) || DEFAULT_TIMEOUT_S));
+    const maxChars = Math.min(MAX_MAX_CHARS, Math.max(500, Number(input.maxChars) || DEFAULT_MAX_CHARS));
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method: input.method,
+        headers,
+        ...(bodyText !== undefined ? { body: injectSecretRefs(bodyText, values) } : {}),
+        // Redirects could carry injected credentials to a host that is not allowed.
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutS * 1000),
+      });
+    } catch (err) {
+      return { ok: false, error: redactSecretValues(err instanceof Error ? err.message : String(err), values) };
+    }
+
+    const read = await readCappedBody(res);
+    const formatted = redactSecretValues(formatHttpResponseBody(read.text, res.headers.get('content-type') ?? undefined), values);
+    const reported: Record<string, string> = {};
+    for (const name of REPORTED_HEADERS) {
+      const value = res.headers.get(name);
+      if (value) reported[name] = redactSecretValues(value, values);
+    }
+    return {
+      ok: true,
+      status: res.status,
+      statusText: res.statusText,
+      headers: reported,
+      body: formatted.slice(0, maxChars),
+      truncated: read.truncated || formatted.length > maxChars,
+      secretsUsed: [...values.keys()],
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Persistence
+  // -------------------------------------------------------------------------
+
+  private load(): void {
+    try {
+      const raw = JSON.parse(readFileSync(this.persistPath, 'utf-8')) as {
+        allowedHosts?: unknown;
+        secrets?: Record<string, Partial<HttpApiSecretRecord>>;
+      };
+      this.allowedHosts = normalizeHttpAllowedHosts(raw.allowedHosts);
+      for (const [name, record] of Object.entries(raw.secrets ?? {})) {
+        if (!SECRET_NAME_RE.test(name) || typeof record?.value !== 'string') continue;
+        this.secrets.set(name, {
+          value: record.value,
+          hosts: normalizeHttpAllowedHosts(record.hosts),
+          updatedAt: typeof record.updatedAt === 'number' ? record.updatedAt : 0,
+        });
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`HttpApiClientStore: failed to load ${this.persistPath}: ${err}`);
+      }
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(
+        this.persistPath,
+        JSON.stringify({ allowedHosts: this.allowedHosts, secrets: Object.fromEntries(this.secrets) }, null, 2),
+        { encoding: 'utf-8', mode: 0o600 },
+      );
+    } catch (err) {
+      this.logger.warn(`HttpApiClientStore: failed to save: ${err}`);
+    }
+  }
+}
+
+const storeSingletons = new Map<string, HttpApiClientStore>();
+
+export function getHttpApiClientStore(dataDir: string | undefined, logger: Logger): HttpApiClientStore {
+  const key = dataDir || DEFAULT_DATA_DIR;
+  const existing = storeSingletons.get(key);
+  if (existing) return existing;
+  const created = new HttpApiClientStore(dataDir, logger);
+  storeSingletons.set(key, created);
+  return created;
+}
@@ -9,7 +9,7 @@ export function sendJson(res: ServerResponse, status: number, body: unknown): vo
   res.end(JSON.stringify(body));
 }
 
-export function readJsonBody(req: IncomingMessage, maxBytes = 1024 * 1024): Promise<unknown> {
+export function readRawBody(req: IncomingMessage, maxBytes = 1024 * 1024): Promise<Buffer> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
     let totalSize = 0;
@@ -22,17 +22,16 @@ export function readJsonBody(req: IncomingMessage, maxBytes = 1024 * 1024): Prom
       }
       chunks.push(chunk);
     });
-    req.on('end', () => {
-      try {
-        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
-      } catch (err) {
-        reject(err);
-      }
-    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
     req.on('error', reject);
   });
 }
 
+export async function readJsonBody(req: IncomingMessage, maxBytes = 1024 * 1024): Promise<unknown> {
+  const body = await readRawBody(req, maxBytes);
+  return JSON.parse(body.toString('utf-8'));
+}
+
 /**
  * Handle CORS preflight (OPTIONS). Returns true if the request was handled.
  */
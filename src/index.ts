@@ -1,9 +1,14 @@
 import type { IncomingMessage, ServerResponse } from 'node:http';
 import type { PluginApi, ClawTalkPluginConfig } from './types.js';
 import { sendJson, readJsonBody, handleCors } from './http.js';
-import { authorize, resolveGatewayToken, safeEqual } from './auth.js';
+import { authorize, principalHasScope, resolveGatewayToken, safeEqual } from './auth.js';
+import { DeviceTokenStore, normalizePairingScopes, requiredScopeForRequest } from './device-tokens.js';
+import { handleDeviceRoutes } from './device-handler.js';
 import { handleProviders } from './providers.js';
 import { handleRateLimits, warmUsageLoader } from './rate-limits.js';
+import { handleUsageSummary } from './usage-handler.js';
+import { getUsageLedger } from './usage-ledger.js';
+import { checkTalkBudgetAlert } from './talk-budget.js';
 import {
   handleVoiceCapabilities,
   handleVoiceTranscribe,
@@ -18,10 +23,12 @@ import {
   handleRealtimeVoiceStreamUpgrade,
 } from './realtime-voice.js';
 import { startProxy } from './proxy.js';
-import { TalkStore } from './talk-store.js';
+import { TalkStore, summarizePendingToolCall } from './talk-store.js';
 import { handleTalks } from './talks.js';
-import { handleTalkChat } from './talk-chat.js';
-import { startJobScheduler } from './job-scheduler.js';
+import { handleTalkChat, handleTalkRegenerate, handleTalkToolApproval } from './talk-chat.js';
+import { getKnowledgeRetriever } from './knowledge-retrieval.js';
+import { resumeJobAfterApproval, startJobScheduler } from './job-scheduler.js';
+import type { JobSchedulerOptions } from './job-scheduler.js';
 import { EventDispatcher } from './event-dispatcher.js';
 import { handleFileUpload } from './file-upload.js';
 import { ToolRegistry } from './tool-registry.js';
@@ -40,6 +47,8 @@ import { listSlackAccountIds, resolveSlackBotTokenForAccount } from './slack-aut
 import { handleSlackEventProxy } from './slack-event-proxy.js';
 import { checkSlackProxySetup, logSlackProxySetupStatus, ensureSlackSocketMode } from './slack-proxy-setup.js';
 import { isRateLimited } from './pair-rate-limiter.js';
+import { SyncEventLog, matchesSyncEventFilter, parseSyncEventFilter } from './sync-log.js';
+import type { SyncEventFilter, SyncLogEvent } from './sync-log.js';
 import {
   type SlackDebugPath,
   type SlackDebugEntry,
@@ -59,6 +68,11 @@ import {
   collectTalkSlackChannelHints,
   createEventReplyHandler,
 } from './slack-reply.js';
+import { collectConfiguredSecrets, createRedactingLogger, getSecretRedactor } from './secret-redaction.js';
+import { listGoogleOAuthSecrets } from './google-docs.js';
+import { listGithubTokenSecrets } from './github.js';
+import { listNotionTokenSecrets } from './notion.js';
+import { getHttpApiClientStore } from './http-api-client.js';
 
 // ---------------------------------------------------------------------------
 // Node.js 25 fetch fix — replace built-in undici connector to fix Tailscale IP
@@ -78,8 +92,10 @@ try {
 
 const ROUTES = new Set([
   '/api/pair',
+  '/api/devices',
   '/api/providers',
   '/api/rate-limits',
+  '/api/usage',
   '/api/tools',
   '/api/voice/capabilities',
   '/api/voice/transcribe',
@@ -156,27 +172,29 @@ const plugin = {
 
   register(api: PluginApi) {
     const pluginCfg = (api.pluginConfig ?? {}) as ClawTalkPluginConfig;
+    // All plugin logging goes through this wrapper so configured secrets never reach log output.
+    const logger = createRedactingLogger(api.logger);
 
-    api.logger.info('ClawTalk plugin loaded');
+    logger.info('ClawTalk plugin loaded');
 
     // Start the rate-limit capture proxy
     const proxyPort = pluginCfg.proxyPort ?? 18793;
-    startProxy(proxyPort, api.logger);
+    startProxy(proxyPort, logger);
     // Reconcile config files sequentially (shared lock serializes openclaw.json writes).
     // This promise runs in parallel with talkStore.init() and is awaited before Slack routing.
-    const configReconciled = reconcileAnthropicProxyBaseUrls(proxyPort, api.logger)
+    const configReconciled = reconcileAnthropicProxyBaseUrls(proxyPort, logger)
       .catch((err) => {
         const message = err instanceof Error ? err.message : String(err);
-        api.logger.warn(`ClawTalk: failed to reconcile Anthropic baseUrl: ${message}`);
+        logger.warn(`ClawTalk: failed to reconcile Anthropic baseUrl: ${message}`);
       })
-      .then(() => reconcileGatewayResponsesEndpoint(api.logger))
+      .then(() => reconcileGatewayResponsesEndpoint(logger))
       .catch((err) => {
         const message = err instanceof Error ? err.message : String(err);
-        api.logger.warn(`ClawTalk: failed to reconcile responses endpoint config: ${message}`);
+        logger.warn(`ClawTalk: failed to reconcile responses endpoint config: ${message}`);
       });
 
     // Eagerly warm up the usage loader in background
-    warmUsageLoader(api.logger);
+    warmUsageLoader(logger);
 
     // Initialize Talk store (async)
     type ReadyPhase = 'booting' | 'loading_talks' | 'ready' | 'failed';
@@ -185,31 +203,42 @@ const plugin = {
     const readySinceMs = Date.now();
     const isGatewayReady = (): boolean => readyPhase === 'ready';
 
-    const talkStore = new TalkStore(pluginCfg.dataDir, api.logger);
+    const talkStore = new TalkStore(pluginCfg.dataDir, logger);
+    const usageLedger = getUsageLedger(pluginCfg.dataDir, logger);
+    usageLedger.setPricing(pluginCfg.pricing);
 
-    type SyncStreamEvent = {
-      id: number;
-      type: string;
-      ts: number;
-      payload: Record<string, unknown>;
-    };
-    const syncClients = new Set<ServerResponse>();
-    const syncHistory: SyncStreamEvent[] = [];
-    let syncEventId = 0;
-    const SYNC_HISTORY_MAX = 500;
+    // Secret redaction: tool results, messages, reports and Slack debug entries are
+    // scrubbed of configured secrets; talk-scoped redactions open a diagnostic.
+    const secretRedactor = getSecretRedactor();
+    secretRedactor.addSource('config', () => collectConfiguredSecrets(api.runtime.config.loadConfig()));
+    secretRedactor.addSource('google_oauth', listGoogleOAuthSecrets);
+    secretRedactor.addSource('github', listGithubTokenSecrets);
+    secretRedactor.addSource('notion', listNotionTokenSecrets);
+    secretRedactor.addSource('http_api_client', () => getHttpApiClientStore(pluginCfg.dataDir, logger).listSecretValues());
+    secretRedactor.onRedaction((event) => {
+      if (!event.talkId || event.surface === 'log') return;
+      talkStore.openDiagnostic(event.talkId, {
+        code: 'secret_redacted',
+        category: event.surface === 'tool_result' ? 'tools' : 'other',
+        title: 'Secret redacted',
+        message:
+          `Removed ${event.count} occurrence(s) of ${event.labels.join(', ')} from ${event.surface.replace('_', ' ')}` +
+          `${event.detail ? ` (${event.detail})` : ''}.`,
+        details: { surface: event.surface, secrets: event.labels, ...(event.detail ? { detail: event.detail } : {}) },
+      });
+    });
+
+    // Sync events are persisted so Last-Event-ID resume survives restarts;
+    // each connected client has its own talk/type filter.
+    const syncLog = new SyncEventLog(pluginCfg.dataDir, logger);
+    const syncClients = new Map<ServerResponse, SyncEventFilter>();
+    const formatSyncEvent = (event: SyncLogEvent): string =>
+      `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...event.payload, ts: event.ts })}\n\n`;
     const appendSyncEvent = (type: string, payload: Record<string, unknown>) => {
-      const event: SyncStreamEvent = {
-        id: ++syncEventId,
-        type,
-        ts: Date.now(),
-        payload,
-      };
-      syncHistory.push(event);
-      if (syncHistory.length > SYNC_HISTORY_MAX) {
-        syncHistory.splice(0, syncHistory.length - SYNC_HISTORY_MAX);
-      }
-      const chunk = `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify({ ...payload, ts: event.ts })}\n\n`;
-      for (const res of syncClients) {
+      const event = syncLog.append(type, payload);
+      const chunk = formatSyncEvent(event);
+      for (const [res, filter] of syncClients) {
+        if (!matchesSyncEventFilter(event, filter)) continue;
         try {
           res.write(chunk);
         } catch {
@@ -221,7 +250,7 @@ const plugin = {
       syncClients.delete(res);
     };
     const unsubscribeTalkStoreChange = talkStore.onChange((evt) => {
-      api.logger.info(
+      logger.info(
         `TalkStore change: type=${evt.type} talk=${evt.talkId} talkCount=${talkStore.listTalks().length} ` +
         `store=${talkStore.getInstanceId()} by=${evt.lastModifiedBy ?? 'unknown'} version=${evt.talkVersion}`,
       );
@@ -232,6 +261,15 @@ const plugin = {
         changeId: evt.changeId,
         ...(evt.lastModifiedBy ? { lastModifiedBy: evt.lastModifiedBy } : {}),
       });
+      if (evt.type === 'deleted') {
+        getKnowledgeRetriever().invalidate(evt.talkId);
+      }
+      if (evt.type === 'tool_approval_requested' || evt.type === 'tool_approval_resolved') {
+        appendSyncEvent('tool_approvals', {
+          talkId: evt.talkId,
+          pending: talkStore.listPendingToolCalls(evt.talkId, { status: 'pending' }).map(summarizePendingToolCall),
+        });
+      }
     });
     readyPhase = 'loading_talks';
     appendSyncEvent('gateway_phase', { phase: readyPhase });
@@ -240,9 +278,9 @@ const plugin = {
         await configReconciled;
         // Auto-correct Slack accounts using HTTP mode to socket mode
         const proxyCfg = api.runtime.config.loadConfig();
-        await ensureSlackSocketMode(proxyCfg, api.logger);
+        await ensureSlackSocketMode(proxyCfg, logger);
         // Check and log Slack event proxy setup status
-        logSlackProxySetupStatus(talkStore, proxyCfg, api.logger);
+        logSlackProxySetupStatus(talkStore, proxyCfg, logger);
         readyPhase = 'ready';
         appendSyncEvent('gateway_phase', { phase: readyPhase });
       })
@@ -250,7 +288,7 @@ const plugin = {
         readyPhase = 'failed';
         readyError = err instanceof Error ? err.message : String(err);
         appendSyncEvent('gateway_phase', { phase: readyPhase, error: readyError });
-        api.logger.error(`TalkStore init failed: ${readyError}`);
+        logger.error(`TalkStore init failed: ${readyError}`);
       });
 
     // Shared Slack reply path (direct Slack API).
@@ -261,17 +299,37 @@ const plugin = {
     };
     const replyHandler = createEventReplyHandler(
       () => api.runtime.config.loadConfig(),
-      api.logger,
+      logger,
       {
         debugEnabled: isSlackDebugEnabled,
         onDebug: emitSlackDebug,
       },
     );
+
+    // Budget alerts: each threshold a talk crosses is announced once per month
+    // on the sync stream and, when the budget names a channel, in Slack. The
+    // month-to-date spend comes from the ledger's running per-talk totals.
+    usageLedger.onRecord((record) => {
+      const talk = record.talkId ? talkStore.getTalk(record.talkId) : undefined;
+      if (!talk?.budget) return;
+      const crossed = checkTalkBudgetAlert(talk, usageLedger);
+      if (!crossed) return;
+      talkStore.setBudgetAlert(talk.id, crossed.state);
+      logger.info(`ClawTalk: budget alert talk=${talk.id} threshold=${crossed.alert.threshold}: ${crossed.alert.message}`);
+      appendSyncEvent('budget_alert', { ...crossed.alert });
+      const slack = talk.budget?.slackAlerts;
+      if (slack) {
+        replyHandler(
+          { platform: 'slack', accountId: slack.accountId, platformChannelId: slack.channelId, threadId: slack.threadTs },
+          `:warning: ${crossed.alert.message}`,
+        ).catch((err) => logger.warn(`ClawTalk: budget alert to Slack failed: ${err}`));
+      }
+    });
     let slackIngressOrigin = `http://127.0.0.1:${DEFAULT_GATEWAY_PORT}`;
     let slackIngressToken: string | undefined;
     const refreshSlackIngressRoute = () => {
       const cfg0 = api.runtime.config.loadConfig();
-      slackIngressOrigin = resolveGatewayOrigin(cfg0, api.logger);
+      slackIngressOrigin = resolveGatewayOrigin(cfg0, logger);
       slackIngressToken = resolveGatewayToken(cfg0);
     };
     const buildSlackIngressDeps = () => ({
@@ -281,7 +339,7 @@ const plugin = {
       dataDir: pluginCfg.dataDir,
       gatewayOrigin: slackIngressOrigin,
       authToken: slackIngressToken,
-      logger: api.logger,
+      logger,
       debugEnabled: isSlackDebugEnabled(),
       instanceTag: slackDebugInstanceTag,
       recordSlackDebug: (entry: {
@@ -319,14 +377,45 @@ const plugin = {
     refreshSlackIngressRoute();
 
     // Initialize tool registry and executor
-    const toolRegistry = new ToolRegistry(pluginCfg.dataDir, api.logger);
-    const toolExecutor = new ToolExecutor(toolRegistry, talkStore, api.logger);
+    const toolRegistry = new ToolRegistry(pluginCfg.dataDir, logger);
+    const deviceTokens = new DeviceTokenStore(pluginCfg.dataDir, logger);
+    const toolExecutor = new ToolExecutor(toolRegistry, talkStore, logger, pluginCfg.dataDir);
     registerOpenClawNativeGoogleTools({
       api,
       executor: toolExecutor,
-      logger: api.logger,
+      logger,
     });
 
+    const buildJobSchedulerOptions = (): JobSchedulerOptions => {
+      const cfg0 = api.runtime.config.loadConfig();
+      return {
+        store: talkStore,
+        gatewayOrigin: resolveGatewayOrigin(cfg0, logger),
+        authToken: resolveGatewayToken(cfg0),
+        logger,
+        registry: toolRegistry,
+        executor: toolExecutor,
+        dataDir: pluginCfg.dataDir,
+        jobTimeoutMs: pluginCfg.jobTimeoutMs,
+        throttle: pluginCfg.jobThrottle,
+        sendSlackMessage: async (params: {
+          accountId?: string;
+          channelId: string;
+          threadTs?: string;
+          message: string;
+        }) =>
+          replyHandler(
+            {
+              platform: 'slack',
+              accountId: params.accountId,
+              platformChannelId: params.channelId,
+              threadId: params.threadTs,
+            },
+            params.message,
+          ),
+      };
+    };
+
     // Register job scheduler as a managed service
     let stopScheduler: (() => void) | null = null;
     api.registerService({
@@ -334,35 +423,8 @@ const plugin = {
       start: () => {
         void readyBarrier.then(() => {
           if (!isGatewayReady()) return;
-          const cfg0 = api.runtime.config.loadConfig();
-          const gatewayToken0 = resolveGatewayToken(cfg0);
-          const schedulerOrigin = resolveGatewayOrigin(cfg0, api.logger);
-          stopScheduler = startJobScheduler({
-            store: talkStore,
-            gatewayOrigin: schedulerOrigin,
-            authToken: gatewayToken0,
-            logger: api.logger,
-            registry: toolRegistry,
-            executor: toolExecutor,
-            dataDir: pluginCfg.dataDir,
-            jobTimeoutMs: pluginCfg.jobTimeoutMs,
-            sendSlackMessage: async (params: {
-              accountId?: string;
-              channelId: string;
-              threadTs?: string;
-              message: string;
-            }) =>
-              replyHandler(
-                {
-                  platform: 'slack',
-                  accountId: params.accountId,
-                  platformChannelId: params.channelId,
-                  threadId: params.threadTs,
-                },
-                params.message,
-              ),
-          });
-        }).catch((err) => api.logger.warn(`ClawTalk: scheduler start failed: ${err}`));
+          stopScheduler = startJobScheduler(buildJobSchedulerOptions());
+        }).catch((err) => logger.warn(`ClawTalk: scheduler start failed: ${err}`));
       },
       stop: () => {
         if (stopScheduler) {
@@ -384,21 +446,21 @@ const plugin = {
             store: talkStore,
             gatewayOrigin: slackIngressOrigin,
             authToken: slackIngressToken,
-            logger: api.logger,
+            logger,
             registry: toolRegistry,
             executor: toolExecutor,
             dataDir: pluginCfg.dataDir,
             jobTimeoutMs: pluginCfg.jobTimeoutMs,
             replyToEvent: replyHandler,
           });
-          api.logger.info('ClawTalk: event dispatcher started');
-        }).catch((err) => api.logger.warn(`ClawTalk: event dispatcher start failed: ${err}`));
+          logger.info('ClawTalk: event dispatcher started');
+        }).catch((err) => logger.warn(`ClawTalk: event dispatcher start failed: ${err}`));
       },
       stop: () => {
         if (eventDispatcher) {
           eventDispatcher.cleanup();
           eventDispatcher = null;
-          api.logger.info('ClawTalk: event dispatcher stopped');
+          logger.info('ClawTalk: event dispatcher stopped');
         }
       },
     });
@@ -410,11 +472,11 @@ const plugin = {
       }
       if (eventDispatcher) {
         eventDispatcher.handleMessageReceived(event, ctx).catch(err => {
-          api.logger.warn(`ClawTalk: event dispatch error: ${err}`);
+          logger.warn(`ClawTalk: event dispatch error: ${err}`);
         });
       }
       return handleSlackMessageReceivedHook(event, ctx, buildSlackIngressDeps()).catch(err => {
-        api.logger.warn(`ClawTalk: slack ownership hook failed: ${err}`);
+        logger.warn(`ClawTalk: slack ownership hook failed: ${err}`);
         return undefined;
       });
     });
@@ -499,13 +561,13 @@ const plugin = {
     // Register lifecycle hooks
     api.on('gateway_start', () => {
       refreshSlackIngressRoute();
-      api.logger.info('ClawTalk: gateway_start event received');
+      logger.info('ClawTalk: gateway_start event received');
     });
 
     api.on('gateway_stop', () => {
-      api.logger.info('ClawTalk: gateway_stop event received — cleaning up');
+      logger.info('ClawTalk: gateway_stop event received — cleaning up');
       unsubscribeTalkStoreChange();
-      for (const client of syncClients) {
+      for (const client of syncClients.keys()) {
         try {
           client.end();
         } catch {
@@ -529,7 +591,7 @@ const plugin = {
     // Log voice availability
     const { sttAvailable, ttsAvailable } = resolveVoiceAvailability(pluginCfg.voice);
     if (sttAvailable || ttsAvailable) {
-      api.logger.info(`ClawTalk: voice enabled (STT: ${sttAvailable}, TTS: ${ttsAvailable})`);
+      logger.info(`ClawTalk: voice enabled (STT: ${sttAvailable}, TTS: ${ttsAvailable})`);
     }
 
     api.registerHttpHandler(
@@ -541,7 +603,8 @@ const plugin = {
 
         const isTalkRoute = url.pathname === '/api/talks' || url.pathname.startsWith('/api/talks/');
         const isToolRoute = url.pathname === '/api/tools' || url.pathname.startsWith('/api/tools/');
-        if (!ROUTES.has(url.pathname) && !isTalkRoute && !isToolRoute) return false;
+        const isDeviceRoute = url.pathname === '/api/devices' || url.pathname.startsWith('/api/devices/');
+        if (!ROUTES.has(url.pathname) && !isTalkRoute && !isToolRoute && !isDeviceRoute) return false;
         if (handleCors(req, res)) return true;
 
         // =================================================================
@@ -568,9 +631,9 @@ const plugin = {
             return true;
           }
 
-          let body: { password?: string };
+          let body: { password?: string; deviceName?: unknown; scopes?: unknown };
           try {
-            body = await readJsonBody(req) as { password?: string };
+            body = await readJsonBody(req) as typeof body;
           } catch {
             sendJson(res, 400, { error: 'Invalid JSON body' });
             return true;
@@ -586,12 +649,25 @@ const plugin = {
             return true;
           }
 
-          const pairCfg = api.runtime.config.loadConfig();
-          const gatewayToken = resolveGatewayToken(pairCfg);
+          // Each paired device gets its own revocable token instead of the
+          // shared gateway token.
+          const scopes = normalizePairingScopes(body.scopes);
+          if (!scopes.ok) {
+            sendJson(res, 400, { error: scopes.error });
+            return true;
+          }
+          const deviceName = typeof body.deviceName === 'string' && body.deviceName.trim()
+            ? body.deviceName
+            : `Paired device (${clientIP})`;
+          const minted = deviceTokens.create(deviceName, scopes.scopes);
+          if (!minted.ok) {
+            sendJson(res, 409, { error: minted.error });
+            return true;
+          }
 
           let gatewayURL: string;
           let port: number;
-          const resolvedUrl = pluginCfg.externalUrl ?? detectTailscaleFunnelUrl(api.logger);
+          const resolvedUrl = pluginCfg.externalUrl ?? detectTailscaleFunnelUrl(logger);
           if (resolvedUrl) {
             gatewayURL = resolvedUrl;
             try {
@@ -611,7 +687,9 @@ const plugin = {
             name: pluginCfg.name ?? 'Gateway',
             gatewayURL,
             port,
-            authToken: gatewayToken ?? '',
+            authToken: minted.token,
+            deviceId: minted.device.id,
+            scopes: minted.device.scopes,
             agentID: 'mobileclaw',
           });
           return true;
@@ -627,26 +705,40 @@ const plugin = {
           }
           const { handleGoogleOAuthCallback } = await import('./talks.js');
           const cfg = api.runtime.config.loadConfig();
-          const ctx = { req, res, url, cfg, pluginCfg, logger: api.logger };
+          const ctx = { req, res, url, cfg, pluginCfg, logger };
           await handleGoogleOAuthCallback(ctx);
           return true;
         }
 
         // Auth (all other routes require authorization)
         const cfg = api.runtime.config.loadConfig();
-        if (!authorize(req, cfg)) {
+        const principal = authorize(req, cfg, deviceTokens);
+        if (!principal) {
           sendJson(res, 401, {
             error: { message: 'Unauthorized', type: 'unauthorized' },
           });
           return true;
         }
+        const requiredScope = requiredScopeForRequest(req.method, url.pathname);
+        if (!principalHasScope(principal, requiredScope)) {
+          sendJson(res, 403, {
+            error: { message: `Forbidden: this device token lacks the "${requiredScope}" scope`, type: 'forbidden' },
+          });
+          return true;
+        }
+
+        // /api/devices — list, mint and revoke device tokens (admin scope)
+        if (isDeviceRoute) {
+          await handleDeviceRoutes({ req, res, url, cfg, pluginCfg, logger }, deviceTokens);
+          return true;
+        }
 
         // WebSocket upgrade for voice streaming — handled separately
         if (url.pathname === '/api/voice/stream') {
           const gatewayOrigin = resolveSelfOrigin(req);
           const gatewayToken = resolveGatewayToken(cfg);
           handleVoiceStreamUpgrade(
-            req, res, api.logger,
+            req, res, logger,
             pluginCfg.voice, gatewayOrigin, gatewayToken,
           );
           return true;
@@ -655,13 +747,13 @@ const plugin = {
         // WebSocket upgrade for realtime voice streaming
         if (url.pathname === '/api/realtime-voice/stream') {
           handleRealtimeVoiceStreamUpgrade(
-            req, res, api.logger,
+            req, res, logger,
             pluginCfg.realtimeVoice,
           );
           return true;
         }
 
-        const ctx = { req, res, url, cfg, pluginCfg, logger: api.logger };
+        const ctx = { req, res, url, cfg, pluginCfg, logger, principal };
         const readinessGated =
           isTalkRoute
           || url.pathname === '/api/events/slack'
@@ -696,7 +788,25 @@ const plugin = {
               store: talkStore,
               gatewayOrigin,
               authToken: gatewayToken,
-              logger: api.logger,
+              logger,
+              registry: toolRegistry,
+              executor: toolExecutor,
+              dataDir: pluginCfg.dataDir,
+              getConfig: () => api.runtime.config.loadConfig(),
+            });
+            return true;
+          }
+          // POST /api/talks/:id/messages/:messageId/regenerate
+          const regenerateMatch = url.pathname.match(/^\/api\/talks\/([\w-]+)\/messages\/([\w-]+)\/regenerate$/);
+          if (regenerateMatch) {
+            await handleTalkRegenerate({
+              req, res,
+              talkId: regenerateMatch[1],
+              messageId: regenerateMatch[2],
+              store: talkStore,
+              gatewayOrigin: resolveSelfOrigin(req),
+              authToken: resolveGatewayToken(cfg),
+              logger,
               registry: toolRegistry,
               executor: toolExecutor,
               dataDir: pluginCfg.dataDir,
@@ -704,6 +814,25 @@ const plugin = {
             });
             return true;
           }
+          // POST /api/talks/:id/tool-approvals/:callId
+          const approvalMatch = url.pathname.match(/^\/api\/talks\/([\w-]+)\/tool-approvals\/([\w-]+)$/);
+          if (approvalMatch) {
+            await handleTalkToolApproval({
+              req, res,
+              talkId: approvalMatch[1],
+              callId: approvalMatch[2],
+              store: talkStore,
+              gatewayOrigin: resolveSelfOrigin(req),
+              authToken: resolveGatewayToken(cfg),
+              logger,
+              registry: toolRegistry,
+              executor: toolExecutor,
+              dataDir: pluginCfg.dataDir,
+              getConfig: () => api.runtime.config.loadConfig(),
+              resumeJob: (call) => resumeJobAfterApproval(buildJobSchedulerOptions(), call),
+            });
+            return true;
+          }
           // All other /api/talks/* CRUD routes
           await handleTalks(ctx, talkStore, toolRegistry);
           return true;
@@ -729,7 +858,8 @@ const plugin = {
               talkCount: talkStore.listTalks().length,
               sync: {
                 connectedClients: syncClients.size,
-                lastEventId: syncEventId,
+                lastEventId: syncLog.lastEventId,
+                oldestEventId: syncLog.oldestEventId,
               },
               ...(readyError ? { error: readyError } : {}),
             });
@@ -747,27 +877,39 @@ const plugin = {
             res.setHeader('Access-Control-Allow-Origin', '*');
             res.flushHeaders?.();
 
-            const lastEventIdRaw = req.headers['last-event-id'];
+            // EventSource sends Last-Event-ID on reconnect; first connects
+            // can pass ?lastEventId= instead.
+            const lastEventIdRaw = req.headers['last-event-id'] ?? url.searchParams.get('lastEventId') ?? undefined;
             const lastEventIdText = Array.isArray(lastEventIdRaw) ? lastEventIdRaw[0] : lastEventIdRaw;
             const lastEventId = typeof lastEventIdText === 'string' ? Number.parseInt(lastEventIdText, 10) : NaN;
-            const replayFromId = Number.isFinite(lastEventId) ? Math.max(0, lastEventId) : 0;
-            const backlog = replayFromId > 0
-              ? syncHistory.filter((entry) => entry.id > replayFromId)
-              : [];
-            for (const entry of backlog) {
-              res.write(
-                `id: ${entry.id}\nevent: ${entry.type}\ndata: ${JSON.stringify({ ...entry.payload, ts: entry.ts })}\n\n`,
-              );
+            const filter = parseSyncEventFilter(url.searchParams);
+            if (Number.isFinite(lastEventId) && lastEventId >= 0) {
+              const replay = syncLog.replay(lastEventId, filter);
+              if (replay.ok) {
+                for (const entry of replay.events) res.write(formatSyncEvent(entry));
+              } else {
+                // The client missed events we no longer have: it must refetch
+                // its talks and continue from the current cursor.
+                res.write(
+                  `id: ${syncLog.lastEventId}\nevent: resync_required\ndata: ${JSON.stringify({
+                    reason: replay.reason,
+                    requestedEventId: lastEventId,
+                    oldestEventId: replay.oldestEventId,
+                    lastEventId: replay.lastEventId,
+                    ts: Date.now(),
+                  })}\n\n`,
+                );
+              }
             }
             res.write(
-              `id: ${syncEventId}\nevent: sync_ready\ndata: ${JSON.stringify({
+              `id: ${syncLog.lastEventId}\nevent: sync_ready\ndata: ${JSON.stringify({
                 ready: isGatewayReady(),
                 phase: readyPhase,
                 talkCount: talkStore.listTalks().length,
                 ts: Date.now(),
               })}\n\n`,
             );
-            syncClients.add(res);
+            syncClients.set(res, filter);
             const heartbeat = setInterval(() => {
               try {
                 res.write(`event: ping\ndata: ${JSON.stringify({ ts: Date.now() })}\n\n`);
@@ -862,7 +1004,7 @@ const plugin = {
                 text: '',
               },
               talkStore,
-              api.logger,
+              logger,
             );
             sendJson(res, 200, {
               accountId: accountId ?? 'default',
@@ -942,12 +1084,12 @@ const plugin = {
               }
               try {
                 const { saveSlackSigningSecret } = await import('./slack-proxy-setup.js');
-                await saveSlackSigningSecret(signingSecret, api.logger);
+                await saveSlackSigningSecret(signingSecret, logger);
                 const updatedCfg = api.runtime.config.loadConfig();
                 const updatedStatus = checkSlackProxySetup(talkStore, updatedCfg);
                 sendJson(res, 200, { ok: true, status: updatedStatus });
               } catch (err) {
-                api.logger.warn(`proxy-setup POST failed: ${String(err)}`);
+                logger.warn(`proxy-setup POST failed: ${String(err)}`);
                 sendJson(res, 500, { error: 'Failed to save signing secret' });
               }
               break;
@@ -974,6 +1116,9 @@ const plugin = {
           case '/api/rate-limits':
             await handleRateLimits(ctx);
             break;
+          case '/api/usage':
+            await handleUsageSummary(ctx, talkStore);
+            break;
           case '/api/voice/capabilities':
             await handleVoiceCapabilities(ctx);
             break;
@@ -997,7 +1142,7 @@ const plugin = {
             const gatewayToken = resolveGatewayToken(cfg);
             await handleSlackEventProxy(req, res, {
               store: talkStore,
-              logger: api.logger,
+              logger,
               getConfig: () => api.runtime.config.loadConfig(),
               buildIngressDeps: () => ({
                 ...buildSlackIngressDeps(),
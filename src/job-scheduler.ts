@@ -16,16 +16,33 @@
 
 import { randomUUID } from 'node:crypto';
 import type { TalkStore } from './talk-store.js';
-import { matchKnowledgeTopics } from './talk-store.js';
-import type { TalkJob, JobReport, JobDeliveryResult, Logger } from './types.js';
+import type {
+  TalkJob,
+  JobReport,
+  JobReportGmailDraft,
+  JobDeliveryResult,
+  JobThrottleConfig,
+  JobThrottleNote,
+  Logger,
+  PendingToolCall,
+} from './types.js';
 import type { ToolInfo } from './tool-registry.js';
 import type { ToolRegistry } from './tool-registry.js';
 import type { ToolExecutor } from './tool-executor.js';
 import { composeSystemPrompt } from './system-prompt.js';
+import { getKnowledgeRetriever } from './knowledge-retrieval.js';
 import { runToolLoopNonStreaming } from './tool-loop.js';
+import { buildModelFallbacks } from './model-fallback.js';
+import { getUsageLedger } from './usage-ledger.js';
+import { describeBudgetStatus, evaluateTalkBudget } from './talk-budget.js';
+import type { TalkBudgetStatus } from './talk-budget.js';
+import { describeJobThrottle, evaluateJobThrottle } from './job-throttle.js';
+import type { ToolLoopNonStreamResult, ToolLoopPause } from './tool-loop.js';
 import { buildTalkJobSessionKey } from './session-key.js';
 import { getToolCatalog } from './tool-catalog.js';
 import { googleDocsAuthStatusForProfile } from './google-docs.js';
+import { githubAuthStatus } from './github.js';
+import { notionAuthStatus } from './notion.js';
 import {
   evaluateToolAvailability,
   resolveOpenClawNativeGoogleToolsEnabled,
@@ -56,6 +73,8 @@ export interface JobSchedulerOptions {
   executor: ToolExecutor;
   dataDir?: string;
   jobTimeoutMs?: number;
+  /** Rate-limit thresholds for scheduled jobs (plugin config `jobThrottle`). */
+  throttle?: JobThrottleConfig;
   sendSlackMessage?: (params: {
     accountId?: string;
     channelId: string;
@@ -82,10 +101,28 @@ function filterToolInfos(
 function buildTalkAuthReadyResolver(params: {
   googleOAuthReady: boolean;
   googleAuthProfile?: string;
+  githubTokenReady: boolean;
+  notionTokenReady: boolean;
   getToolRequiredAuth: (toolName: string) => string[];
 }): (toolName: string) => { ready: boolean; reason?: string } {
   return (toolName: string) => {
     const required = params.getToolRequiredAuth(toolName);
+    if (required.includes('github_token') && !params.githubTokenReady) {
+      return {
+        ready: false,
+        reason:
+          'Blocked by GitHub token readiness: the active GitHub profile has no token. ' +
+          'Configure one via PATCH /api/tools (github_auth_config).',
+      };
+    }
+    if (required.includes('notion_token') && !params.notionTokenReady) {
+      return {
+        ready: false,
+        reason:
+          'Blocked by Notion token readiness: the active Notion profile has no token. ' +
+          'Configure one via PATCH /api/tools (notion_auth_config).',
+      };
+    }
     if (!required.includes('google_oauth')) {
       return { ready: true };
     }
@@ -485,6 +522,9 @@ export function isJobDue(job: TalkJob): boolean {
 
   const now = Date.now();
 
+  // Held back for a rate-limit window (see job-throttle.ts)
+  if (job.deferredUntil !== undefined && now < job.deferredUntil) return false;
+
   // One-off schedules: "in 1h", "at 3pm"
   const oneOffTarget = parseOneOff(job.schedule, job.createdAt);
   if (oneOffTarget !== null) {
@@ -713,6 +753,8 @@ async function checkAndRunJobs(opts: JobSchedulerOptions): Promise<void> {
   for (const { talkId, job } of activeJobs) {
     if (!isJobDue(job)) continue;
     if (runningTalks.has(talkId)) continue;
+    // A run waiting on a tool approval holds the job until it is resolved.
+    if (store.listPendingToolCalls(talkId, { status: 'pending', source: 'job', jobId: job.id }).length > 0) continue;
 
     runningTalks.add(talkId);
     executeJob(opts, talkId, job).finally(() => {
@@ -731,6 +773,21 @@ export async function executeJob(
   const { store, gatewayOrigin, authToken, logger, registry, executor, dataDir } = opts;
   const runAt = Date.now();
 
+  const talk = store.getTalk(talkId);
+  const budgetStatus = talk ? evaluateTalkBudget(talk, getUsageLedger(dataDir, logger), runAt) : undefined;
+  if (budgetStatus?.exceeded) {
+    skipJobOverBudget(opts, talkId, job, runAt, budgetStatus);
+    return null;
+  }
+  // Scheduled runs give way to interactive usage near a rate limit; event runs never do.
+  const throttle = talk && job.type !== 'event'
+    ? evaluateJobThrottle(job, talk.model ?? 'openclaw', opts.throttle, runAt)
+    : undefined;
+  if (throttle?.action === 'defer') {
+    return await deferJob(opts, talkId, job, runAt, throttle);
+  }
+  if (job.deferredUntil !== undefined) store.updateJob(talkId, job.id, { deferredUntil: null });
+
   logger.info(`JobScheduler: executing job ${job.id} for talk ${talkId}: "${job.prompt}"`);
 
   store.setProcessing(talkId, true);
@@ -747,12 +804,13 @@ export async function executeJob(
       meta.pinnedMessageIds.map(id => store.getMessage(talkId, id)),
     );
 
-    // Load knowledge topics matched against the job prompt
-    const knowledgeIndex = await store.getKnowledgeIndex(talkId);
-    const matchedSlugs = matchKnowledgeTopics(job.prompt, knowledgeIndex);
-    const knowledgeTopics = matchedSlugs.length > 0
-      ? await store.listKnowledgeTopicContents(talkId, matchedSlugs)
-      : [];
+    // Retrieve knowledge topics (and older history) relevant to the job prompt
+    const knowledgeTopics = await getKnowledgeRetriever().retrieveTopics({
+      store,
+      talkId,
+      query: job.prompt,
+      logger,
+    });
 
     const catalog = getToolCatalog(dataDir, logger);
     const proxyGatewayToolsEnabled = resolveProxyGatewayToolsEnabled(
@@ -773,9 +831,19 @@ export async function executeJob(
     const googleAuthStatus = needsGoogleOAuth
       ? await googleDocsAuthStatusForProfile(meta.googleAuthProfile)
       : undefined;
+    const needsGithubToken = prePolicyToolInfos.some((tool) =>
+      catalog.getToolRequiredAuth(tool.name).includes('github_token'),
+    );
+    const githubStatus = needsGithubToken ? await githubAuthStatus(undefined) : undefined;
+    const needsNotionToken = prePolicyToolInfos.some((tool) =>
+      catalog.getToolRequiredAuth(tool.name).includes('notion_token'),
+    );
+    const notionStatus = needsNotionToken ? await notionAuthStatus(undefined) : undefined;
     const isAuthReady = buildTalkAuthReadyResolver({
       googleOAuthReady: Boolean(googleAuthStatus?.accessTokenReady ?? true),
       googleAuthProfile: meta.googleAuthProfile,
+      githubTokenReady: githubStatus?.hasToken ?? true,
+      notionTokenReady: notionStatus?.hasToken ?? true,
       getToolRequiredAuth: (toolName) => catalog.getToolRequiredAuth(toolName),
     });
     const effectiveToolMode = meta.toolMode === 'off' ? 'off' : 'auto';
@@ -841,7 +909,7 @@ Provide a concise report of your findings or actions. Start with a one-line summ
     messages.push({ role: 'user', content: jobPrompt });
 
     // Run the tool loop (non-streaming for background jobs)
-    const model = meta.model ?? 'openclaw';
+    const model = throttle?.model ?? meta.model ?? 'openclaw';
     const traceId = randomUUID();
     const sessionKey = buildTalkJobSessionKey(talkId, job.id);
     const extraHeaders: Record<string, string> = {
@@ -862,65 +930,314 @@ Provide a concise report of your findings or actions. Start with a one-line summ
       timeoutMs: opts.jobTimeoutMs ?? JOB_TIMEOUT_MS,
       defaultGoogleAuthProfile: meta.googleAuthProfile,
       talkId,
+      fallbacks: buildModelFallbacks(model, meta.fallbackModels ?? []),
+      usage: { ledger: getUsageLedger(dataDir, logger), jobId: job.id, runCap: job.runCap },
+      requiresApproval: meta.toolMode === 'confirm' ? () => true : undefined,
     });
 
-    const fullOutput = result.fullContent.trim();
-    const summary = fullOutput.split('\n')[0].slice(0, 200);
-
-    const delivery = await deliverJobOutput(opts, talkId, job, fullOutput);
-    const status: JobReport['status'] =
-      delivery.attempted && !delivery.success ? 'partial_success' : 'success';
+    if (result.pendingApproval) {
+      return await recordJobAwaitingApproval(opts, talkId, job, runAt, result.pendingApproval, {
+        model,
+        toolNames: tools.map((tool) => tool.function.name),
+        defaultGoogleAuthProfile: meta.googleAuthProfile,
+        prompt: job.prompt,
+      });
+    }
+    return await completeJobRun(opts, talkId, job, runAt, result.fullContent, { ...result, throttle }, messages);
+  } catch (err) {
+    await recordJobFailure(opts, talkId, job, runAt, err);
+    return null;
+  } finally {
+    store.setProcessing(talkId, false);
+  }
+}
 
-    const report: JobReport = {
-      id: randomUUID(),
-      jobId: job.id,
-      talkId,
-      runAt,
-      status,
-      summary,
-      fullOutput,
-      ...(delivery.attempted ? { delivery } : {}),
-      tokenUsage: result.usage ? {
-        input: result.usage.prompt_tokens,
-        output: result.usage.completion_tokens,
-      } : undefined,
-    };
+/**
+ * Resume a job run that paused for a tool approval, once the decision has
+ * been recorded. Writes the final (or next awaiting_approval) report.
+ */
+export async function resumeJobAfterApproval(
+  opts: JobSchedulerOptions,
+  call: PendingToolCall,
+): Promise<JobReport | null> {
+  const { store, gatewayOrigin, authToken, logger, registry, executor } = opts;
+  const { talkId, resume } = call;
+  const job = call.jobId ? store.getJob(talkId, call.jobId) : null;
+  if (call.source !== 'job' || !job || (call.status !== 'approved' && call.status !== 'denied')) return null;
+  const runAt = resume.runAt ?? call.createdAt;
 
-    await store.appendReport(talkId, report);
-    store.updateJob(talkId, job.id, { lastRunAt: runAt, lastStatus: status });
+  logger.info(`JobScheduler: resuming job ${job.id} for talk ${talkId} after tool approval ${call.id} (${call.status})`);
 
-    // Auto-deactivate one-off jobs after execution
-    if (job.type === 'once') {
-      store.updateJob(talkId, job.id, { active: false });
-      logger.info(`JobScheduler: one-off job ${job.id} completed (${status}) and deactivated — "${summary}"`);
-    } else {
-      logger.info(`JobScheduler: job ${job.id} completed (${status}) — "${summary}"`);
-    }
+  runningTalks.add(talkId);
+  store.setProcessing(talkId, true);
+  try {
+    const meta = store.getTalk(talkId);
+    if (!meta) return null;
 
-    return report;
-  } catch (err) {
-    const cause = err instanceof Error && (err as any).cause ? ` (cause: ${(err as any).cause})` : '';
-    const errorMsg = err instanceof Error ? err.message : String(err);
-    logger.warn(`JobScheduler: job ${job.id} failed: ${errorMsg}${cause}`);
+    const toolNames = new Set(resume.toolNames.map((name) => name.toLowerCase()));
+    const tools = registry.getToolSchemas().filter((tool) => toolNames.has(tool.function.name.toLowerCase()));
+    const result = await runToolLoopNonStreaming({
+      messages: resume.messages as Parameters<typeof runToolLoopNonStreaming>[0]['messages'],
+      model: resume.model,
+      tools,
+      extraHeaders: {
+        'x-openclaw-trace-id': randomUUID(),
+        'x-openclaw-session-key': buildTalkJobSessionKey(talkId, job.id),
+      },
+      toolChoice: 'auto',
+      gatewayOrigin,
+      authToken,
+      executor,
+      logger,
+      timeoutMs: opts.jobTimeoutMs ?? JOB_TIMEOUT_MS,
+      defaultGoogleAuthProfile: resume.defaultGoogleAuthProfile,
+      talkId,
+      fallbacks: buildModelFallbacks(resume.model, meta.fallbackModels ?? []),
+      usage: { ledger: getUsageLedger(opts.dataDir, logger), jobId: job.id, runCap: job.runCap },
+      requiresApproval: meta.toolMode === 'confirm' ? () => true : undefined,
+      resumeToolCalls: resume.remainingToolCalls,
+      toolCallDecisions: {
+        [call.toolCallId]: { approved: call.status === 'approved', arguments: call.editedArguments },
+      },
+    });
 
-    const report: JobReport = {
-      id: randomUUID(),
-      jobId: job.id,
+    const priorContent = resume.partialContent ?? '';
+    if (result.pendingApproval) {
+      return await recordJobAwaitingApproval(opts, talkId, job, runAt, {
+        ...result.pendingApproval,
+        partialContent: priorContent + result.pendingApproval.partialContent,
+      }, resume);
+    }
+    return await completeJobRun(
+      opts,
       talkId,
+      job,
       runAt,
-      status: 'error',
-      summary: `Error: ${errorMsg.slice(0, 200)}`,
-      fullOutput: errorMsg,
-    };
-
-    await store.appendReport(talkId, report).catch((reportErr) => {
-      logger.error(`JobScheduler: failed to persist error report for job ${job.id}: ${reportErr}`);
-    });
-    store.updateJob(talkId, job.id, { lastRunAt: runAt, lastStatus: 'error' });
+      priorContent + result.fullContent,
+      result,
+      resume.messages,
+    );
+  } catch (err) {
+    await recordJobFailure(opts, talkId, job, runAt, err);
     return null;
   } finally {
     store.setProcessing(talkId, false);
+    runningTalks.delete(talkId);
+  }
+}
+
+/**
+ * Skip a run because the talk is over its monthly budget. Scheduled jobs
+ * wait for their next slot; one-off jobs stay due until the budget allows.
+ */
+function skipJobOverBudget(
+  opts: JobSchedulerOptions,
+  talkId: string,
+  job: TalkJob,
+  runAt: number,
+  status: TalkBudgetStatus,
+): void {
+  const lastStatus = `skipped: over monthly budget (${describeBudgetStatus(status)})`;
+  const keepDue = job.type === 'once';
+  if (keepDue && job.lastStatus === lastStatus) return;
+  opts.store.updateJob(talkId, job.id, { ...(keepDue ? {} : { lastRunAt: runAt }), lastStatus });
+  opts.logger.info(`JobScheduler: job ${job.id} for talk ${talkId} ${lastStatus}`);
+}
+
+/**
+ * Hold a scheduled run back until its rate-limit window resets. The job
+ * stays due, so it runs on the first check after `deferredUntil`.
+ */
+async function deferJob(
+  opts: JobSchedulerOptions,
+  talkId: string,
+  job: TalkJob,
+  runAt: number,
+  throttle: JobThrottleNote,
+): Promise<JobReport> {
+  const until = new Date(throttle.resetsAt).toISOString();
+  const summary = `Deferred until ${until}: ${describeJobThrottle(throttle)}`;
+  const report: JobReport = {
+    id: randomUUID(),
+    jobId: job.id,
+    talkId,
+    runAt,
+    status: 'deferred',
+    summary,
+    fullOutput: `${summary}. ${job.priority ?? 'normal'}-priority jobs wait for the window to reset.`,
+    throttle,
+  };
+  await opts.store.appendReport(talkId, report);
+  opts.store.updateJob(talkId, job.id, { deferredUntil: throttle.resetsAt, lastStatus: `deferred until ${until}` });
+  opts.logger.info(`JobScheduler: job ${job.id} for talk ${talkId} ${summary}`);
+  return report;
+}
+
+/** Persist a paused run as a pending tool call and report it as awaiting approval. */
+async function recordJobAwaitingApproval(
+  opts: JobSchedulerOptions,
+  talkId: string,
+  job: TalkJob,
+  runAt: number,
+  pause: ToolLoopPause,
+  base: { model: string; toolNames: string[]; defaultGoogleAuthProfile?: string; prompt: string },
+): Promise<JobReport | null> {
+  const { store, logger } = opts;
+  const [next] = pause.remainingToolCalls;
+  const pending = store.addPendingToolCall(talkId, {
+    source: 'job',
+    jobId: job.id,
+    toolCallId: next.id,
+    toolName: next.function.name,
+    arguments: next.function.arguments,
+    resume: {
+      ...pause,
+      model: base.model,
+      toolNames: base.toolNames,
+      defaultGoogleAuthProfile: base.defaultGoogleAuthProfile,
+      prompt: base.prompt,
+      runAt,
+    },
+  });
+  if (!pending) return null;
+
+  const summary = `Awaiting approval to run ${next.function.name}`;
+  const report: JobReport = {
+    id: randomUUID(),
+    jobId: job.id,
+    talkId,
+    runAt,
+    status: 'awaiting_approval',
+    summary,
+    fullOutput: `${summary} (approval ${pending.id}).\nArguments: ${next.function.arguments}`,
+  };
+  await store.appendReport(talkId, report);
+  store.updateJob(talkId, job.id, { lastRunAt: runAt, lastStatus: 'awaiting_approval' });
+  logger.info(`JobScheduler: job ${job.id} paused for approval ${pending.id} (${next.function.name})`);
+  return report;
+}
+
+/** Deliver the final output of a job run and write its report. */
+async function completeJobRun(
+  opts: JobSchedulerOptions,
+  talkId: string,
+  job: TalkJob,
+  runAt: number,
+  content: string,
+  outcome: Pick<ToolLoopNonStreamResult, 'usage' | 'runCapReached' | 'answeredModel'> & { throttle?: JobThrottleNote },
+  messages: ReadonlyArray<{ role: string; content?: unknown; name?: string }>,
+): Promise<JobReport> {
+  const { store, logger } = opts;
+  const { usage, runCapReached, answeredModel, throttle } = outcome;
+  const gmailDrafts = collectUnsentGmailDrafts(messages);
+  const capNote = runCapReached
+    ? `Stopped early: this run reached its cap (${runCapReached.tokens.toLocaleString('en-US')} tokens, $${runCapReached.costUsd.toFixed(2)}).`
+    : '';
+  const fullOutput = [
+    content.trim(),
+    gmailDrafts.length > 0 ? formatGmailDraftsSection(gmailDrafts) : '',
+    capNote,
+    throttle ? `Ran on ${throttle.model}: ${describeJobThrottle(throttle)}.` : '',
+  ].filter(Boolean).join('\n\n');
+  const summary = fullOutput.split('\n')[0].slice(0, 200);
+
+  const delivery = await deliverJobOutput(opts, talkId, job, fullOutput);
+  const status: JobReport['status'] =
+    runCapReached || (delivery.attempted && !delivery.success) ? 'partial_success' : 'success';
+
+  const report: JobReport = {
+    id: randomUUID(),
+    jobId: job.id,
+    talkId,
+    runAt,
+    status,
+    summary,
+    fullOutput,
+    ...(delivery.attempted ? { delivery } : {}),
+    ...(gmailDrafts.length > 0 ? { gmailDrafts } : {}),
+    ...(answeredModel ? { answeredModel } : {}),
+    ...(throttle ? { throttle } : {}),
+    tokenUsage: usage ? {
+      input: usage.prompt_tokens,
+      output: usage.completion_tokens,
+    } : undefined,
+  };
+
+  await store.appendReport(talkId, report);
+  store.updateJob(talkId, job.id, {
+    lastRunAt: runAt,
+    lastStatus: runCapReached ? 'stopped: run cap reached' : status,
+  });
+
+  // Auto-deactivate one-off jobs after execution
+  if (job.type === 'once') {
+    store.updateJob(talkId, job.id, { active: false });
+    logger.info(`JobScheduler: one-off job ${job.id} completed (${status}) and deactivated — "${summary}"`);
+  } else {
+    logger.info(`JobScheduler: job ${job.id} completed (${status}) — "${summary}"`);
   }
+
+  return report;
+}
+
+/**
+ * Gmail drafts created during a run (from gmail_create_draft results in the
+ * transcript) minus any the run went on to send.
+ */
+export function collectUnsentGmailDrafts(
+  messages: ReadonlyArray<{ role: string; content?: unknown; name?: string }>,
+): JobReportGmailDraft[] {
+  const drafts = new Map<string, JobReportGmailDraft>();
+  for (const message of messages) {
+    if (message.role !== 'tool' || typeof message.content !== 'string') continue;
+    if (message.name === 'gmail_create_draft') {
+      const draftId = message.content.match(/^Draft ID: (\S+)$/m)?.[1];
+      if (!draftId) continue;
+      drafts.set(draftId, {
+        draftId,
+        to: message.content.match(/^To: (.+)$/m)?.[1],
+        subject: message.content.match(/^Subject: (.+)$/m)?.[1],
+      });
+    } else if (message.name === 'gmail_send_draft') {
+      const sentId = message.content.match(/^Sent Gmail draft (\S+)\.$/m)?.[1];
+      if (sentId) drafts.delete(sentId);
+    }
+  }
+  return [...drafts.values()];
+}
+
+function formatGmailDraftsSection(drafts: JobReportGmailDraft[]): string {
+  const lines = drafts.map((draft) =>
+    `- ${draft.subject ?? '(no subject)'}${draft.to ? ` → ${draft.to}` : ''} (draft ${draft.draftId})`);
+  return `Gmail drafts awaiting review (not sent; sending needs approval):\n${lines.join('\n')}`;
+}
+
+async function recordJobFailure(
+  opts: JobSchedulerOptions,
+  talkId: string,
+  job: TalkJob,
+  runAt: number,
+  err: unknown,
+): Promise<void> {
+  const { store, logger } = opts;
+  const cause = err instanceof Error && (err as any).cause ? ` (cause: ${(err as any).cause})` : '';
+  const errorMsg = err instanceof Error ? err.message : String(err);
+  logger.warn(`JobScheduler: job ${job.id} failed: ${errorMsg}${cause}`);
+
+  const report: JobReport = {
+    id: randomUUID(),
+    jobId: job.id,
+    talkId,
+    runAt,
+    status: 'error',
+    summary: `Error: ${errorMsg.slice(0, 200)}`,
+    fullOutput: errorMsg,
+  };
+
+  await store.appendReport(talkId, report).catch((reportErr) => {
+    logger.error(`JobScheduler: failed to persist error report for job ${job.id}: ${reportErr}`);
+  });
+  store.updateJob(talkId, job.id, { lastRunAt: runAt, lastStatus: 'error' });
 }
 
 async function deliverJobOutput(
@@ -0,0 +1,90 @@
+/**
+ * Rate-Limit-Aware Job Scheduling
+ *
+ * proxy.ts caches the Anthropic five-hour and seven-day window utilization.
+ * Before a scheduled job runs, the scheduler compares it with the threshold
+ * for the job's priority (plugin config `jobThrottle`):
+ *
+ *   - low: gives way at `lowPriorityThreshold` (default 80%);
+ *   - normal: gives way at `normalPriorityThreshold`, only when configured;
+ *   - high: always runs.
+ *
+ * A job that gives way is deferred until the window resets (a `deferred`
+ * report, and `deferredUntil` on the job), or runs on `downgradeModel` when
+ * `onLimit` is "downgrade". Event jobs answer something that just happened
+ * and always run. Windows without a future reset time are ignored, so stale
+ * cache entries never hold jobs back.
+ */
+
+import type { CachedRateLimitData, JobPriority, JobThrottleConfig, JobThrottleNote, TalkJob } from './types.js';
+import { getProxyCachedLimits } from './proxy.js';
+import { isAnthropicModel } from './model-fallback.js';
+
+const DEFAULT_LOW_PRIORITY_THRESHOLD = 0.8;
+
+export const JOB_PRIORITIES: readonly JobPriority[] = ['low', 'normal', 'high'];
+
+const WINDOW_LABELS: Record<JobThrottleNote['window'], string> = {
+  five_hour: '5-hour',
+  seven_day: '7-day',
+};
+
+/** A valid priority, lowercased; undefined for anything else. */
+export function normalizeJobPriority(raw: unknown): JobPriority | undefined {
+  const value = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+  return JOB_PRIORITIES.find((priority) => priority === value);
+}
+
+/**
+ * Jobs on Anthropic models count against the Anthropic windows, and so do
+ * jobs on the gateway's default agent ("openclaw"), which the proxy sees.
+ */
+function countsAgainstAnthropicLimits(model: string): boolean {
+  return isAnthropicModel(model) || model.trim().toLowerCase() === 'openclaw';
+}
+
+function priorityThreshold(priority: JobPriority | undefined, config: JobThrottleConfig | undefined): number | undefined {
+  if (priority === 'high') return undefined;
+  if (priority === 'low') return config?.lowPriorityThreshold ?? DEFAULT_LOW_PRIORITY_THRESHOLD;
+  return config?.normalPriorityThreshold;
+}
+
+/**
+ * Whether a scheduled run of `job` on `model` should give way to interactive
+ * usage right now; undefined when it can run as planned.
+ */
+export function evaluateJobThrottle(
+  job: Pick<TalkJob, 'priority'>,
+  model: string,
+  config: JobThrottleConfig | undefined,
+  now = Date.now(),
+  getCached: (provider: string) => CachedRateLimitData | null = getProxyCachedLimits,
+): JobThrottleNote | undefined {
+  const threshold = priorityThreshold(job.priority, config);
+  if (threshold === undefined || !countsAgainstAnthropicLimits(model)) return undefined;
+  const cached = getCached('anthropic');
+  if (!cached) return undefined;
+
+  let crossed: { window: JobThrottleNote['window']; utilization: number; resetsAt: number } | undefined;
+  for (const [window, limits] of [['five_hour', cached.fiveHour], ['seven_day', cached.sevenDay]] as const) {
+    if (!limits || !(limits.resetsAt * 1000 > now)) continue;
+    if (limits.utilization < threshold && limits.status !== 'rate_limited') continue;
+    // Both windows need room again, so wait for the one that resets last.
+    if (!crossed || limits.resetsAt * 1000 > crossed.resetsAt) {
+      crossed = { window, utilization: limits.utilization, resetsAt: limits.resetsAt * 1000 };
+    }
+  }
+  if (!crossed) return undefined;
+
+  const downgradeModel = config?.onLimit === 'downgrade' ? config.downgradeModel?.trim() : undefined;
+  if (downgradeModel && downgradeModel.toLowerCase() !== model.trim().toLowerCase()) {
+    return { action: 'downgrade', ...crossed, threshold, model: downgradeModel };
+  }
+  return { action: 'defer', ...crossed, threshold };
+}
+
+/** e.g. "Anthropic 5-hour window at 92% (threshold 80%)". */
+export function describeJobThrottle(note: JobThrottleNote): string {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  return `Anthropic ${WINDOW_LABELS[note.window]} window at ${percent(note.utilization)} (threshold ${percent(note.threshold)})`;
+}
@@ -0,0 +1,523 @@
+/**
+ * Knowledge Retrieval
+ *
+ * Per-talk local retrieval index over knowledge topics, `context.md`
+ * sections and older conversation history (messages outside the window the
+ * caller already sends to the model). Documents are ranked with Okapi BM25;
+ * when an embedding provider is registered, BM25 scores are blended with
+ * cosine similarity so paraphrases and synonyms can match too.
+ *
+ * Only the top-ranked knowledge topics and older-history excerpts are fed to
+ * composeSystemPrompt. context.md sections are indexed as part of the talk's
+ * corpus but never re-injected, since the prompt already carries the full
+ * document.
+ *
+ * Indexes are held in memory. Knowledge and context.md documents are rebuilt
+ * when they change; history documents are read through the paged offset
+ * index and only messages that left the recent window since the last call
+ * are added. Embedding vectors are cached per document text so only new
+ * content is embedded.
+ */
+
+import { createHash } from 'node:crypto';
+import { bm25TermScore } from './bm25.js';
+import type { TalkStore } from './talk-store.js';
+import { MAX_MESSAGE_PAGE_LIMIT } from './history-index.js';
+import type { Logger, TalkMessage } from './types.js';
+
+/** Hits scoring below this fraction of the best hit are dropped. */
+const RELATIVE_SCORE_CUTOFF = 0.35;
+/** Minimum absolute BM25 score for a hit (BM25-only ranking). */
+const MIN_BM25_SCORE = 0.2;
+/** Minimum blended score for a hit (hybrid ranking). */
+const MIN_HYBRID_SCORE = 0.25;
+/** Weight of cosine similarity in hybrid ranking. */
+const EMBEDDING_WEIGHT = 0.5;
+const DEFAULT_MAX_TOPICS = 4;
+const DEFAULT_MAX_HISTORY_EXCERPTS = 3;
+/** Older messages beyond this many (newest first) are not indexed. */
+const MAX_HISTORY_DOCS = 400;
+const MAX_HISTORY_EXCERPT_CHARS = 1_200;
+
+// ---------------------------------------------------------------------------
+// Tokenization
+// ---------------------------------------------------------------------------
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'had',
+  'her', 'was', 'one', 'our', 'out', 'has', 'have', 'been', 'some', 'them',
+  'than', 'its', 'over', 'also', 'that', 'this', 'from', 'they', 'with',
+  'what', 'how', 'who', 'which', 'when', 'where', 'will', 'each', 'make',
+  'like', 'just', 'into', 'about', 'could', 'would', 'should', 'does',
+  'doing', 'being', 'there', 'their', 'then', 'more', 'very', 'here',
+]);
+
+/** Strip common English inflections so "meetings" matches "meeting" and "meet". */
+function stem(word: string): string {
+  let w = word;
+  if (w.length > 5 && w.endsWith('ies')) w = `${w.slice(0, -3)}y`;
+  else if (w.length > 4 && /(?:ch|sh|ss|x|z)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.length > 3 && w.endsWith('s') && !w.endsWith('ss')) w = w.slice(0, -1);
+  if (w.length > 5 && w.endsWith('ing')) w = w.slice(0, -3);
+  else if (w.length > 4 && w.endsWith('ed')) w = w.slice(0, -2);
+  return w;
+}
+
+/** Map one lowercase word to its index term, or null for stop words and short words. */
+export function normalizeTerm(word: string): string | null {
+  if (word.length < 3 || STOP_WORDS.has(word)) return null;
+  return stem(word);
+}
+
+/** Lowercase, split on non-alphanumerics, drop stop words and stem. */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    const term = normalizeTerm(word);
+    if (term) tokens.push(term);
+  }
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// BM25 index
+// ---------------------------------------------------------------------------
+
+export interface RetrievalDocument {
+  /** Stable id: `knowledge:<slug>`, `context:<n>` or `history:<messageId>`. */
+  id: string;
+  kind: 'knowledge' | 'context' | 'history';
+  /** Indexed text. */
+  text: string;
+  /** Knowledge slug (knowledge documents only). */
+  slug?: string;
+  /** Source message (history documents only). */
+  message?: TalkMessage;
+}
+
+export interface RetrievalHit {
+  doc: RetrievalDocument;
+  score: number;
+}
+
+export class Bm25Index {
+  private docs: RetrievalDocument[] = [];
+  private termFreqs: Array<Map<string, number>> = [];
+  private docLengths: number[] = [];
+  private readonly docFreq = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(documents: RetrievalDocument[] = []) {
+    for (const doc of documents) this.add(doc);
+  }
+
+  get documents(): readonly RetrievalDocument[] {
+    return this.docs;
+  }
+
+  add(doc: RetrievalDocument): void {
+    const tokens = tokenize(doc.text);
+    const freqs = new Map<string, number>();
+    for (const token of tokens) freqs.set(token, (freqs.get(token) ?? 0) + 1);
+    for (const term of freqs.keys()) this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+    this.docs.push(doc);
+    this.termFreqs.push(freqs);
+    this.docLengths.push(tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  /** Remove the documents matching `predicate` (called once per document, in order). */
+  remove(predicate: (doc: RetrievalDocument) => boolean): void {
+    const kept: number[] = [];
+    this.docs.forEach((doc, i) => {
+      if (!predicate(doc)) {
+        kept.push(i);
+        return;
+      }
+      for (const term of this.termFreqs[i].keys()) {
+        const df = (this.docFreq.get(term) ?? 1) - 1;
+        if (df > 0) this.docFreq.set(term, df);
+        else this.docFreq.delete(term);
+      }
+      this.totalLength -= this.docLengths[i];
+    });
+    if (kept.length === this.docs.length) return;
+    this.docs = kept.map((i) => this.docs[i]);
+    this.termFreqs = kept.map((i) => this.termFreqs[i]);
+    this.docLengths = kept.map((i) => this.docLengths[i]);
+  }
+
+  /** BM25 score of every document for the query (0 when nothing matches). */
+  scoreAll(query: string): number[] {
+    const terms = [...new Set(tokenize(query))];
+    const n = this.docs.length;
+    const avgDocLength = n > 0 ? this.totalLength / n : 0;
+    return this.termFreqs.map((freqs, i) => {
+      let score = 0;
+      for (const term of terms) {
+        const tf = freqs.get(term);
+        if (!tf) continue;
+        score += bm25TermScore({
+          tf,
+          df: this.docFreq.get(term) ?? 0,
+          docCount: n,
+          docLength: this.docLengths[i],
+          avgDocLength,
+        });
+      }
+      return score;
+    });
+  }
+
+  search(query: string, limit: number): RetrievalHit[] {
+    return this.scoreAll(query)
+      .map((score, i) => ({ doc: this.docs[i], score }))
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Embedding provider (optional)
+// ---------------------------------------------------------------------------
+
+/** Pluggable text embedding backend used to blend semantic similarity into ranking. */
+export interface KnowledgeEmbeddingProvider {
+  /** Identifies the embedding model; cached vectors are keyed by it. */
+  id: string;
+  /** Embed texts; returns one vector per input, in order. */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+let embeddingProvider: KnowledgeEmbeddingProvider | undefined;
+
+/** Register (or clear) the embedding provider used by knowledge retrieval. */
+export function setKnowledgeEmbeddingProvider(provider: KnowledgeEmbeddingProvider | undefined): void {
+  embeddingProvider = provider;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// ---------------------------------------------------------------------------
+// Per-talk retrieval
+// ---------------------------------------------------------------------------
+
+export interface KnowledgeRetrievalOptions {
+  store: TalkStore;
+  talkId: string;
+  query: string;
+  logger: Logger;
+  /** Newest messages already sent to the model; excluded from the history corpus. */
+  recentMessageCount?: number;
+  maxTopics?: number;
+  maxHistoryExcerpts?: number;
+}
+
+function splitContextSections(contextMd: string): string[] {
+  const trimmed = contextMd.trim();
+  if (!trimmed) return [];
+  const byHeading = trimmed.split(/\n(?=#{1,6}\s)/).map((part) => part.trim()).filter(Boolean);
+  if (byHeading.length > 1) return byHeading;
+  return trimmed.split(/\n\s*\n/).map((part) => part.trim()).filter(Boolean);
+}
+
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+/** Older messages worth indexing: plain user/assistant text. */
+function isIndexableMessage(msg: TalkMessage): boolean {
+  return (msg.role === 'user' || msg.role === 'assistant') && Boolean(msg.content.trim()) && !msg.tool_calls?.length;
+}
+
+function historyDocument(msg: TalkMessage): RetrievalDocument {
+  return { id: `history:${msg.id}`, kind: 'history', text: msg.content, message: msg };
+}
+
+/**
+ * The newest MAX_HISTORY_DOCS indexable messages among the first
+ * `olderCount`, read backwards page by page, plus the id of the newest
+ * message in that range (the cursor for later reads).
+ */
+async function readOlderHistory(
+  store: TalkStore,
+  talkId: string,
+  olderCount: number,
+): Promise<{ messages: TalkMessage[]; lastId?: string }> {
+  const newestFirst: TalkMessage[] = [];
+  let lastId: string | undefined;
+  let skip: number | undefined;
+  let before: string | undefined;
+  while (newestFirst.length < MAX_HISTORY_DOCS) {
+    const page = await store.getMessagePage(talkId, { before, limit: MAX_MESSAGE_PAGE_LIMIT });
+    if (!page || page.messages.length === 0) break;
+    // Positions count from the oldest message, so this holds even if messages were appended meanwhile.
+    skip ??= page.total - olderCount;
+    for (let i = page.messages.length - 1; i >= 0 && newestFirst.length < MAX_HISTORY_DOCS; i--) {
+      if (skip > 0) {
+        skip--;
+        continue;
+      }
+      lastId ??= page.messages[i].id;
+      if (isIndexableMessage(page.messages[i])) newestFirst.push(page.messages[i]);
+    }
+    if (!page.hasOlder) break;
+    before = page.messages[0].id;
+  }
+  return { messages: newestFirst.reverse(), lastId };
+}
+
+/** The `count` messages after `afterId`, or null when that message is gone. */
+async function readHistoryAfter(
+  store: TalkStore,
+  talkId: string,
+  afterId: string,
+  count: number,
+): Promise<TalkMessage[] | null> {
+  const messages: TalkMessage[] = [];
+  let after = afterId;
+  while (messages.length < count) {
+    const page = await store.getMessagePage(talkId, { after, limit: Math.min(count - messages.length, MAX_MESSAGE_PAGE_LIMIT) });
+    if (!page) return null;
+    if (page.messages.length === 0) break;
+    messages.push(...page.messages);
+    after = page.messages[page.messages.length - 1].id;
+  }
+  return messages;
+}
+
+interface CachedTalkIndex {
+  /** Knowledge index and context.md the non-history documents were built from. */
+  corpusSignature: string;
+  /** Store history generation the history documents were read under. */
+  historyGeneration: number;
+  /** Messages older than the recent window that have been read. */
+  olderCount: number;
+  /** Newest of those messages; new ones are read after it. */
+  lastOlderId?: string;
+  index: Bm25Index;
+}
+
+export class KnowledgeRetriever {
+  private readonly indexes = new Map<string, CachedTalkIndex>();
+  /** Embedding vectors keyed by `${providerId}:${sha1(text)}`. */
+  private readonly vectors = new Map<string, number[]>();
+  /** Per-talk queue so concurrent callers do not update the same index at once. */
+  private readonly syncs = new Map<string, Promise<unknown>>();
+
+  private async corpusDocuments(
+    store: TalkStore,
+    talkId: string,
+    knowledgeIndex: Awaited<ReturnType<TalkStore['getKnowledgeIndex']>>,
+    contextMd: string,
+  ): Promise<RetrievalDocument[]> {
+    const documents: RetrievalDocument[] = [];
+    const topics = knowledgeIndex.length > 0
+      ? await store.listKnowledgeTopicContents(talkId, knowledgeIndex.map((entry) => entry.slug))
+      : [];
+    const contentBySlug = new Map(topics.map((topic) => [topic.slug, topic.content]));
+    for (const entry of knowledgeIndex) {
+      documents.push({
+        id: `knowledge:${entry.slug}`,
+        kind: 'knowledge',
+        slug: entry.slug,
+        text: `${entry.slug.replace(/-/g, ' ')}\n${entry.summary}\n${contentBySlug.get(entry.slug) ?? ''}`,
+      });
+    }
+    splitContextSections(contextMd).forEach((section, i) => {
+      documents.push({ id: `context:${i}`, kind: 'context', text: section });
+    });
+    return documents;
+  }
+
+  /** Bring the cached history documents up to the current recent-window boundary. */
+  private async syncHistory(store: TalkStore, talkId: string, cached: CachedTalkIndex, olderCount: number): Promise<void> {
+    const generation = store.getHistoryGeneration(talkId);
+    let added: TalkMessage[] | null = null;
+    if (generation === cached.historyGeneration && olderCount >= cached.olderCount) {
+      if (olderCount === cached.olderCount) return;
+      added = cached.lastOlderId
+        ? await readHistoryAfter(store, talkId, cached.lastOlderId, olderCount - cached.olderCount)
+        : null;
+      if (added) {
+        cached.lastOlderId = added[added.length - 1]?.id ?? cached.lastOlderId;
+        added = added.filter(isIndexableMessage);
+      }
+    }
+    if (!added) {
+      // History was rewritten or the recent window grew: re-read the older range.
+      cached.index.remove((doc) => doc.kind === 'history');
+      const older = olderCount > 0 ? await readOlderHistory(store, talkId, olderCount) : { messages: [] };
+      added = older.messages;
+      cached.lastOlderId = older.lastId;
+    }
+    cached.historyGeneration = generation;
+    cached.olderCount = olderCount;
+    for (const msg of added) cached.index.add(historyDocument(msg));
+
+    let excess = cached.index.documents.filter((doc) => doc.kind === 'history').length - MAX_HISTORY_DOCS;
+    if (excess > 0) cached.index.remove((doc) => doc.kind === 'history' && excess-- > 0);
+  }
+
+  /**
+   * Return the talk's index. Knowledge and context.md documents are rebuilt
+   * when they change; history documents are updated incrementally.
+   */
+  async getIndex(store: TalkStore, talkId: string, recentMessageCount = 0): Promise<Bm25Index> {
+    const sync = () => this.syncIndex(store, talkId, recentMessageCount);
+    const next = (this.syncs.get(talkId) ?? Promise.resolve()).then(sync, sync);
+    this.syncs.set(talkId, next);
+    try {
+      return await next;
+    } finally {
+      if (this.syncs.get(talkId) === next) this.syncs.delete(talkId);
+    }
+  }
+
+  private async syncIndex(store: TalkStore, talkId: string, recentMessageCount: number): Promise<Bm25Index> {
+    const [knowledgeIndex, contextMd, head] = await Promise.all([
+      store.getKnowledgeIndex(talkId),
+      store.getContextMd(talkId),
+      store.getMessagePage(talkId, { limit: 1 }),
+    ]);
+    const corpusSignature = [
+      hashText(contextMd),
+      ...knowledgeIndex.map((entry) => `${entry.slug}@${entry.updatedAt ?? 0}:${entry.summary}`),
+    ].join('|');
+
+    let cached = this.indexes.get(talkId);
+    if (!cached) {
+      cached = { corpusSignature: '', historyGeneration: -1, olderCount: 0, index: new Bm25Index() };
+      this.indexes.set(talkId, cached);
+    }
+    if (cached.corpusSignature !== corpusSignature) {
+      cached.index.remove((doc) => doc.kind !== 'history');
+      for (const doc of await this.corpusDocuments(store, talkId, knowledgeIndex, contextMd)) cached.index.add(doc);
+      cached.corpusSignature = corpusSignature;
+    }
+    await this.syncHistory(store, talkId, cached, Math.max(0, (head?.total ?? 0) - recentMessageCount));
+    return cached.index;
+  }
+
+  private async embed(provider: KnowledgeEmbeddingProvider, texts: string[]): Promise<number[][]> {
+    const keys = texts.map((text) => `${provider.id}:${hashText(text)}`);
+    const missing = [...new Set(keys.filter((key) => !this.vectors.has(key)))];
+    if (missing.length > 0) {
+      const missingTexts = missing.map((key) => texts[keys.indexOf(key)]);
+      const embedded = await provider.embed(missingTexts);
+      if (embedded.length !== missingTexts.length) {
+        throw new Error(`embedding provider returned ${embedded.length} vectors for ${missingTexts.length} texts`);
+      }
+      missing.forEach((key, i) => this.vectors.set(key, embedded[i]));
+    }
+    return keys.map((key) => this.vectors.get(key)!);
+  }
+
+  /** Rank all indexed documents for a query, highest first, after relevance cutoffs. */
+  async search(opts: KnowledgeRetrievalOptions): Promise<RetrievalHit[]> {
+    const index = await this.getIndex(opts.store, opts.talkId, opts.recentMessageCount ?? 0);
+    return this.rank(index, opts);
+  }
+
+  private async rank(index: Bm25Index, opts: KnowledgeRetrievalOptions): Promise<RetrievalHit[]> {
+    // Snapshot: a concurrent getIndex may update the index while embeddings load.
+    const documents = [...index.documents];
+    if (documents.length === 0 || !opts.query.trim()) return [];
+
+    const bm25 = index.scoreAll(opts.query);
+    let scores = bm25;
+    let minScore = MIN_BM25_SCORE;
+    const provider = embeddingProvider;
+    if (provider) {
+      try {
+        const [queryVector, ...docVectors] = await this.embed(
+          provider,
+          [opts.query, ...documents.map((doc) => doc.text)],
+        );
+        const maxBm25 = Math.max(...bm25, 0);
+        scores = bm25.map((score, i) =>
+          (1 - EMBEDDING_WEIGHT) * (maxBm25 > 0 ? score / maxBm25 : 0)
+          + EMBEDDING_WEIGHT * Math.max(0, cosineSimilarity(queryVector, docVectors[i])),
+        );
+        minScore = MIN_HYBRID_SCORE;
+      } catch (err) {
+        opts.logger.warn(`KnowledgeRetrieval: embedding provider "${provider.id}" failed, using BM25 only: ${err}`);
+      }
+    }
+
+    const ranked = scores
+      .map((score, i) => ({ doc: documents[i], score }))
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score);
+    if (ranked.length === 0) return [];
+    const cutoff = Math.max(minScore, ranked[0].score * RELATIVE_SCORE_CUTOFF);
+    return ranked.filter((hit) => hit.score >= cutoff);
+  }
+
+  /**
+   * Top knowledge topics and older-history excerpts for the system prompt.
+   * context.md hits are left out because the prompt already includes it.
+   */
+  async retrieveTopics(opts: KnowledgeRetrievalOptions): Promise<Array<{ slug: string; content: string }>> {
+    const index = await this.getIndex(opts.store, opts.talkId, opts.recentMessageCount ?? 0);
+    const hits = await this.rank(index, opts);
+    const maxTopics = opts.maxTopics ?? DEFAULT_MAX_TOPICS;
+    const maxHistory = opts.maxHistoryExcerpts ?? DEFAULT_MAX_HISTORY_EXCERPTS;
+
+    const slugs = hits.filter((hit) => hit.doc.kind === 'knowledge').slice(0, maxTopics).map((hit) => hit.doc.slug!);
+    const topics = slugs.length > 0 ? await opts.store.listKnowledgeTopicContents(opts.talkId, slugs) : [];
+    const excerpts = hits
+      .filter((hit) => hit.doc.kind === 'history')
+      .slice(0, maxHistory)
+      .map((hit) => {
+        const msg = hit.doc.message!;
+        const date = new Date(msg.timestamp).toISOString().slice(0, 10);
+        const speaker = msg.role === 'user' ? 'User' : (msg.agentName ?? 'Assistant');
+        const text = msg.content.length > MAX_HISTORY_EXCERPT_CHARS
+          ? `${msg.content.slice(0, MAX_HISTORY_EXCERPT_CHARS)}...`
+          : msg.content;
+        return { slug: `earlier-conversation-${date}`, content: `${speaker}: ${text}` };
+      });
+
+    opts.logger.info(
+      `KnowledgeRetrieval talkId=${opts.talkId} docs=${index.documents.length} `
+      + `hits=${hits.length} topics=${topics.map((t) => t.slug).join(',') || '-'} history=${excerpts.length} `
+      + `ranking=${embeddingProvider ? `hybrid:${embeddingProvider.id}` : 'bm25'}`,
+    );
+    return [...topics, ...excerpts];
+  }
+
+  /** Drop a talk's cached index (e.g. after deletion). */
+  invalidate(talkId: string): void {
+    this.indexes.delete(talkId);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let singletonRetriever: KnowledgeRetriever | undefined;
+
+export function getKnowledgeRetriever(): KnowledgeRetriever {
+  if (singletonRetriever) return singletonRetriever;
+  singletonRetriever = new KnowledgeRetriever();
+  return singletonRetriever;
+}
+
+/** Reset the singleton (for tests). */
+export function resetKnowledgeRetriever(): void {
+  singletonRetriever = undefined;
+}
@@ -0,0 +1,405 @@
+/**
+ * Message Search
+ *
+ * Full-text search over Talk history. Each Talk keeps an append-only
+ * inverted index at `talks/<id>/search-index.jsonl`, updated by TalkStore as
+ * messages are appended or deleted:
+ *
+ *   {"op":"init","version":1}                       header (first line)
+ *   {"op":"add","id":...,"terms":{"term":count}}    one line per message
+ *   {"op":"delete","ids":[...]}                     tombstones
+ *
+ * Indexes are replayed into memory on first use, rebuilt from history.jsonl
+ * when missing or written by an older version, and compacted once deletions
+ * outnumber the live entries. User, assistant and system messages are
+ * indexed; raw tool output is not.
+ */
+
+import * as fs from 'node:fs';
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+import { bm25TermScore } from './bm25.js';
+import { normalizeTerm } from './knowledge-retrieval.js';
+import type { Logger, TalkMessage } from './types.js';
+
+const INDEX_FILE = 'search-index.jsonl';
+const INDEX_VERSION = 1;
+/** Indexes kept in memory at once; the least recently used is dropped first. */
+const MAX_LOADED_INDEXES = 32;
+/** Compact once tombstoned entries exceed both this and the live entry count. */
+const MIN_COMPACT_TOMBSTONES = 50;
+const SNIPPET_CONTEXT_CHARS = 60;
+const SNIPPET_MAX_CHARS = 200;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+const INDEXED_ROLES = new Set<TalkMessage['role']>(['user', 'assistant', 'system']);
+
+export interface MessageSearchFilters {
+  role?: TalkMessage['role'];
+  /** Case-insensitive match on the message's agentName. */
+  agentName?: string;
+  /** Inclusive lower bound (epoch ms). */
+  since?: number;
+  /** Inclusive upper bound (epoch ms). */
+  until?: number;
+}
+
+export interface MessageSearchOptions extends MessageSearchFilters {
+  limit?: number;
+  /** `relevance` (default) ranks by BM25 score; `recent` by timestamp. */
+  sort?: 'relevance' | 'recent';
+}
+
+export interface MessageSearchHit {
+  talkId: string;
+  messageId: string;
+  role: TalkMessage['role'];
+  agentName?: string;
+  timestamp: number;
+  score: number;
+  /** Excerpt around the first match. */
+  snippet: string;
+  /** [start, end) character ranges in `snippet` that matched a query term. */
+  highlights: Array<[number, number]>;
+}
+
+/** A ranked hit before its snippet is built from history. */
+export type ScoredMessage = Omit<MessageSearchHit, 'snippet' | 'highlights'>;
+
+interface IndexedMessage {
+  role: TalkMessage['role'];
+  agentName?: string;
+  timestamp: number;
+  length: number;
+  terms: Record<string, number>;
+}
+
+type IndexLine =
+  | { op: 'init'; version: number }
+  | ({ op: 'add'; id: string } & IndexedMessage)
+  | { op: 'delete'; ids: string[] };
+
+interface LoadedIndex {
+  docs: Map<string, IndexedMessage>;
+  postings: Map<string, Set<string>>;
+  totalLength: number;
+  tombstones: number;
+}
+
+/** Split a query into distinct index terms. */
+export function parseSearchQuery(query: string): string[] {
+  const terms = new Set<string>();
+  for (const word of query.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    const term = normalizeTerm(word);
+    if (term) terms.add(term);
+  }
+  return [...terms];
+}
+
+function countTerms(content: string): { terms: Record<string, number>; length: number } {
+  const terms: Record<string, number> = {};
+  let length = 0;
+  for (const word of content.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    const term = normalizeTerm(word);
+    if (!term) continue;
+    terms[term] = (terms[term] ?? 0) + 1;
+    length += 1;
+  }
+  return { terms, length };
+}
+
+function toIndexedMessage(msg: TalkMessage): IndexedMessage | null {
+  if (!INDEXED_ROLES.has(msg.role) || typeof msg.content !== 'string' || !msg.content.trim()) return null;
+  const { terms, length } = countTerms(msg.content);
+  if (length === 0) return null;
+  return {
+    role: msg.role,
+    ...(msg.agentName ? { agentName: msg.agentName } : {}),
+    timestamp: msg.timestamp,
+    length,
+    terms,
+  };
+}
+
+/**
+ * Excerpt of `content` around the first word matching one of `terms`, with
+ * the character ranges of every matching word inside the excerpt.
+ */
+export function buildSnippet(content: string, terms: string[]): { snippet: string; highlights: Array<[number, number]> } {
+  const wanted = new Set(terms);
+  const matches: Array<[number, number]> = [];
+  for (const match of content.matchAll(/[A-Za-z0-9]+/g)) {
+    const term = normalizeTerm(match[0].toLowerCase());
+    if (term && wanted.has(term)) matches.push([match.index!, match.index! + match[0].length]);
+  }
+
+  let start = matches.length > 0 ? Math.max(0, matches[0][0] - SNIPPET_CONTEXT_CHARS) : 0;
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < matches[0][0]) start = space + 1;
+  }
+  let end = Math.min(content.length, start + SNIPPET_MAX_CHARS);
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > start && (matches.length === 0 || space >= matches[0][1])) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const snippet = `${prefix}${content.slice(start, end).replace(/\s+/g, ' ')}${suffix}`;
+  // Whitespace collapsing shifts offsets, so recompute ranges against the snippet itself.
+  const highlights: Array<[number, number]> = [];
+  for (const match of snippet.matchAll(/[A-Za-z0-9]+/g)) {
+    const term = normalizeTerm(match[0].toLowerCase());
+    if (term && wanted.has(term)) highlights.push([match.index!, match.index! + match[0].length]);
+  }
+  return { snippet, highlights };
+}
+
+export class MessageSearchIndex {
+  private readonly loaded = new Map<string, LoadedIndex>();
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly talksDir: string,
+    private readonly loadHistory: (talkId: string) => Promise<TalkMessage[]>,
+    private readonly logger: Logger,
+  ) {}
+
+  private indexPath(talkId: string): string {
+    return path.join(this.talksDir, talkId, INDEX_FILE);
+  }
+
+  private async withLock<T>(talkId: string, op: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(talkId) ?? Promise.resolve();
+    const next = previous.then(op, op);
+    const marker = next.then(() => undefined, () => undefined);
+    this.locks.set(talkId, marker);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(talkId) === marker) {
+        this.locks.delete(talkId);
+      }
+    }
+  }
+
+  private addToMemory(index: LoadedIndex, id: string, doc: IndexedMessage): void {
+    if (index.docs.has(id)) this.removeFromMemory(index, id);
+    index.docs.set(id, doc);
+    index.totalLength += doc.length;
+    for (const term of Object.keys(doc.terms)) {
+      let ids = index.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        index.postings.set(term, ids);
+      }
+      ids.add(id);
+    }
+  }
+
+  private removeFromMemory(index: LoadedIndex, id: string): boolean {
+    const doc = index.docs.get(id);
+    if (!doc) return false;
+    index.docs.delete(id);
+    index.totalLength -= doc.length;
+    for (const term of Object.keys(doc.terms)) {
+      const ids = index.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) index.postings.delete(term);
+    }
+    return true;
+  }
+
+  private remember(talkId: string, index: LoadedIndex): void {
+    this.loaded.delete(talkId);
+    this.loaded.set(talkId, index);
+    while (this.loaded.size > MAX_LOADED_INDEXES) {
+      const oldest = this.loaded.keys().next().value as string;
+      this.loaded.delete(oldest);
+    }
+  }
+
+  private async writeIndexFile(talkId: string, index: LoadedIndex): Promise<void> {
+    const lines: IndexLine[] = [{ op: 'init', version: INDEX_VERSION }];
+    for (const [id, doc] of index.docs) lines.push({ op: 'add', id, ...doc });
+    const target = this.indexPath(talkId);
+    const tmp = `${target}.tmp`;
+    await fsp.writeFile(tmp, lines.map((line) => JSON.stringify(line)).join('\n') + '\n', 'utf-8');
+    await fsp.rename(tmp, target);
+    index.tombstones = 0;
+  }
+
+  private async rebuild(talkId: string): Promise<LoadedIndex> {
+    const index: LoadedIndex = { docs: new Map(), postings: new Map(), totalLength: 0, tombstones: 0 };
+    for (const msg of await this.loadHistory(talkId)) {
+      const doc = toIndexedMessage(msg);
+      if (doc) this.addToMemory(index, msg.id, doc);
+    }
+    if (fs.existsSync(path.join(this.talksDir, talkId))) {
+      await this.writeIndexFile(talkId, index);
+      this.logger.debug(`MessageSearch: rebuilt index for talk ${talkId} (${index.docs.size} messages)`);
+    }
+    return index;
+  }
+
+  private async readIndexFile(talkId: string): Promise<LoadedIndex | null> {
+    let text: string;
+    try {
+      text = await fsp.readFile(this.indexPath(talkId), 'utf-8');
+    } catch {
+      return null;
+    }
+    const index: LoadedIndex = { docs: new Map(), postings: new Map(), totalLength: 0, tombstones: 0 };
+    let sawHeader = false;
+    for (const raw of text.split('\n')) {
+      if (!raw.trim()) continue;
+      let line: IndexLine;
+      try {
+        line = JSON.parse(raw) as IndexLine;
+      } catch {
+        continue; // skip malformed (e.g. torn) lines
+      }
+      if (!sawHeader) {
+        if (line.op !== 'init' || line.version !== INDEX_VERSION) return null;
+        sawHeader = true;
+        continue;
+      }
+      if (line.op === 'add' && typeof line.id === 'string' && line.terms) {
+        const { op: _op, id, ...doc } = line;
+        this.addToMemory(index, id, doc);
+      } else if (line.op === 'delete' && Array.isArray(line.ids)) {
+        for (const id of line.ids) {
+          if (this.removeFromMemory(index, id)) index.tombstones += 1;
+        }
+      }
+    }
+    return sawHeader ? index : null;
+  }
+
+  /** Load a talk's index into memory, rebuilding it from history when needed. Caller holds the lock. */
+  private async ensureLoaded(talkId: string): Promise<LoadedIndex> {
+    const cached = this.loaded.get(talkId);
+    if (cached) {
+      this.remember(talkId, cached);
+      return cached;
+    }
+    const index = (await this.readIndexFile(talkId)) ?? (await this.rebuild(talkId));
+    this.remember(talkId, index);
+    return index;
+  }
+
+  /** Index a message already written to history.jsonl. */
+  async indexMessage(talkId: string, msg: TalkMessage): Promise<void> {
+    await this.withLock(talkId, async () => {
+      const index = await this.ensureLoaded(talkId);
+      // A rebuild triggered by this call already picked the message up from history.
+      if (index.docs.has(msg.id)) return;
+      const doc = toIndexedMessage(msg);
+      if (!doc) return;
+      this.addToMemory(index, msg.id, doc);
+      const line: IndexLine = { op: 'add', id: msg.id, ...doc };
+      await fsp.appendFile(this.indexPath(talkId), JSON.stringify(line) + '\n', 'utf-8');
+    }).catch((err) => {
+      this.logger.warn(`MessageSearch: failed to index message ${msg.id} in talk ${talkId}: ${err}`);
+    });
+  }
+
+  /** Drop deleted messages from the index, compacting the file when tombstones pile up. */
+  async removeMessages(talkId: string, messageIds: string[]): Promise<void> {
+    await this.withLock(talkId, async () => {
+      const index = await this.ensureLoaded(talkId);
+      const removed = messageIds.filter((id) => this.removeFromMemory(index, id));
+      if (removed.length === 0) return;
+      index.tombstones += removed.length;
+      if (index.tombstones > Math.max(MIN_COMPACT_TOMBSTONES, index.docs.size)) {
+        await this.writeIndexFile(talkId, index);
+        return;
+      }
+      const line: IndexLine = { op: 'delete', ids: removed };
+      await fsp.appendFile(this.indexPath(talkId), JSON.stringify(line) + '\n', 'utf-8');
+    }).catch((err) => {
+      this.logger.warn(`MessageSearch: failed to update index for talk ${talkId}: ${err}`);
+    });
+  }
+
+  /** Drop a deleted talk's in-memory index. */
+  forget(talkId: string): void {
+    this.loaded.delete(talkId);
+  }
+
+  /**
+   * Search one talk for messages containing every term, scored with BM25
+   * against that talk's index.
+   */
+  async search(talkId: string, terms: string[], filters: MessageSearchFilters = {}): Promise<ScoredMessage[]> {
+    if (terms.length === 0) return [];
+    return this.withLock(talkId, async () => {
+      const index = await this.ensureLoaded(talkId);
+      const postingLists = terms.map((term) => index.postings.get(term));
+      if (postingLists.some((ids) => !ids || ids.size === 0)) return [];
+      const [smallest, ...rest] = [...postingLists as Array<Set<string>>].sort((a, b) => a.size - b.size);
+
+      const n = index.docs.size;
+      const avgLength = n > 0 ? index.totalLength / n : 0;
+      const agentName = filters.agentName?.trim().toLowerCase();
+      const results: ScoredMessage[] = [];
+      for (const id of smallest) {
+        if (!rest.every((ids) => ids.has(id))) continue;
+        const doc = index.docs.get(id)!;
+        if (filters.role && doc.role !== filters.role) continue;
+        if (agentName && doc.agentName?.toLowerCase() !== agentName) continue;
+        if (filters.since !== undefined && doc.timestamp < filters.since) continue;
+        if (filters.until !== undefined && doc.timestamp > filters.until) continue;
+
+        let score = 0;
+        for (const term of terms) {
+          score += bm25TermScore({
+            tf: doc.terms[term] ?? 0,
+            df: index.postings.get(term)!.size,
+            docCount: n,
+            docLength: doc.length,
+            avgDocLength: avgLength,
+          });
+        }
+        results.push({
+          talkId,
+          messageId: id,
+          role: doc.role,
+          ...(doc.agentName ? { agentName: doc.agentName } : {}),
+          timestamp: doc.timestamp,
+          score: Math.round(score * 1000) / 1000,
+        });
+      }
+      return results;
+    });
+  }
+
+  /** Build snippets for ranked hits, reading each talk's history once. Order is preserved. */
+  async attachSnippets(scored: ScoredMessage[], terms: string[]): Promise<MessageSearchHit[]> {
+    const contentById = new Map<string, string>();
+    for (const talkId of new Set(scored.map((hit) => hit.talkId))) {
+      const wanted = new Set(scored.filter((hit) => hit.talkId === talkId).map((hit) => hit.messageId));
+      for (const msg of await this.loadHistory(talkId)) {
+        if (wanted.has(msg.id)) contentById.set(`${talkId}:${msg.id}`, msg.content);
+      }
+    }
+    const hits: MessageSearchHit[] = [];
+    for (const hit of scored) {
+      const content = contentById.get(`${hit.talkId}:${hit.messageId}`);
+      if (content === undefined) continue; // deleted since it was indexed
+      hits.push({ ...hit, ...buildSnippet(content, terms) });
+    }
+    return hits;
+  }
+}
+
+/** Order hits by score (ties newest first) or purely by recency. */
+export function sortSearchHits<T extends ScoredMessage>(hits: T[], sort: MessageSearchOptions['sort'] = 'relevance'): T[] {
+  return hits.sort((a, b) =>
+    sort === 'recent'
+      ? b.timestamp - a.timestamp
+      : b.score - a.score || b.timestamp - a.timestamp,
+  );
+}
@@ -0,0 +1,225 @@
+/**
+ * Model Fallback Chains
+ *
+ * Talks and agents may list `fallbackModels`. The tool loops start on the
+ * requested model and move down the list when a call fails for a reason
+ * another model might not share:
+ *
+ *   - the provider answered with a 5xx status (after the loop's own retry),
+ *     or rate limited the call (429/529 or overloaded, switched immediately,
+ *     no retry);
+ *   - the call never got a response (network error, first-token timeout);
+ *   - before the first call, when the limits proxy.ts cached for the model's
+ *     provider say `rate_limited` and the window has not reset yet.
+ *
+ * Client disconnects never fall back.
+ */
+
+import type { DirectProviderRoute } from './direct-provider-router.js';
+import type { CachedRateLimitData } from './types.js';
+import { getProxyCachedLimits } from './proxy.js';
+
+/** How long a `rate_limited` status without a window reset time is trusted. */
+const RATE_LIMIT_STATUS_TTL_MS = 60_000;
+
+export interface ModelFallback {
+  model: string;
+  /** Direct provider route for this model; the OpenClaw route when absent. */
+  directRoute?: DirectProviderRoute;
+}
+
+export type ModelFallbackReason = 'rate_limited' | 'provider_error' | 'unreachable';
+
+export interface ModelFallbackSwitch {
+  from: string;
+  to: string;
+  reason: ModelFallbackReason;
+  /** Error that caused the switch (absent for a known rate-limit window). */
+  error?: string;
+}
+
+/** Validate a `fallbackModels` list from a request body. `null` clears it. */
+export function parseFallbackModelsInput(
+  raw: unknown,
+  field = 'fallbackModels',
+): { ok: true; models: string[] } | { ok: false; error: string } {
+  if (raw === null) return { ok: true, models: [] };
+  if (!Array.isArray(raw) || raw.some((entry) => typeof entry !== 'string')) {
+    return { ok: false, error: `${field} must be an array of model ids` };
+  }
+  return { ok: true, models: normalizeFallbackModels(raw) ?? [] };
+}
+
+/** Trimmed, de-duplicated model ids; undefined when none remain. */
+export function normalizeFallbackModels(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const seen = new Set<string>();
+  const models: string[] = [];
+  for (const entry of raw) {
+    const model = typeof entry === 'string' ? entry.trim() : '';
+    if (!model || seen.has(model.toLowerCase())) continue;
+    seen.add(model.toLowerCase());
+    models.push(model);
+  }
+  return models.length > 0 ? models : undefined;
+}
+
+/** Fallback list for a chat turn: the speaking agent's own list wins over the talk's. */
+export function resolveFallbackModels(
+  talk: { fallbackModels?: string[]; agents?: Array<{ name: string; fallbackModels?: string[] }> },
+  agentName?: string,
+): string[] {
+  const agent = agentName
+    ? talk.agents?.find((entry) => entry.name.toLowerCase() === agentName.toLowerCase())
+    : undefined;
+  return agent?.fallbackModels ?? talk.fallbackModels ?? [];
+}
+
+/**
+ * Build the fallback entries for `primary`, skipping it and duplicates.
+ * `resolveRoute` supplies a direct provider route per model, when one exists.
+ */
+export function buildModelFallbacks(
+  primary: string,
+  models: string[],
+  resolveRoute?: (model: string) => DirectProviderRoute | undefined,
+): ModelFallback[] {
+  const seen = new Set([primary.trim().toLowerCase()]);
+  const fallbacks: ModelFallback[] = [];
+  for (const model of models) {
+    const key = model.trim().toLowerCase();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    const directRoute = resolveRoute?.(model);
+    fallbacks.push({ model, ...(directRoute ? { directRoute } : {}) });
+  }
+  return fallbacks;
+}
+
+/**
+ * Classify a failed upstream call; undefined when switching models would not
+ * help. Only 5xx, 429, 529 and overload errors switch models: any other 4xx
+ * (bad request, auth, unknown model) is the request's fault and would fail
+ * the same way on the next model.
+ */
+export function classifyFallbackError(err: unknown, clientSignal?: AbortSignal): ModelFallbackReason | undefined {
+  if (clientSignal?.aborted || !(err instanceof Error)) return undefined;
+  const message = err.message.toLowerCase();
+  if (message.includes('client disconnected')) return undefined;
+  if (message.includes('overloaded')) return 'rate_limited';
+  const statusMatch = message.match(/\((\d{3})\)/);
+  if (statusMatch) {
+    const status = parseInt(statusMatch[1], 10);
+    if (status === 429 || status === 529 || /rate.?limit/.test(message)) return 'rate_limited';
+    return status >= 500 ? 'provider_error' : undefined;
+  }
+  if (/first token timeout|econnreset|econnrefused|etimedout|epipe|socket hang up|fetch failed|no response body/.test(message)) {
+    return 'unreachable';
+  }
+  // Per-call timeouts (non-streaming loop); an aborted loop stays aborted, so AbortError does not count.
+  if (err.name === 'TimeoutError') return 'unreachable';
+  return undefined;
+}
+
+export function isAnthropicModel(model: string): boolean {
+  const id = model.trim().toLowerCase();
+  return id.startsWith('anthropic/') || id.startsWith('claude');
+}
+
+/**
+ * Provider whose cached limits apply to `model`: the `provider/` prefix,
+ * which is also the direct route's provider key, or `anthropic` for bare
+ * `claude*` ids. Undefined for bare ids of other providers.
+ */
+export function rateLimitProviderForModel(model: string): string | undefined {
+  const id = model.trim().toLowerCase();
+  const slash = id.indexOf('/');
+  if (slash > 0) return id.slice(0, slash);
+  return isAnthropicModel(id) ? 'anthropic' : undefined;
+}
+
+/**
+ * True while the limits cached for the model's provider put it in a
+ * rate-limit window: the Anthropic unified windows, or the windows parsed
+ * from other providers' headers and rate-limit/quota errors. A window with
+ * no known reset time, like a bare `rate_limited` status, is trusted for
+ * RATE_LIMIT_STATUS_TTL_MS.
+ */
+export function isInRateLimitWindow(
+  model: string,
+  now = Date.now(),
+  getCached: (provider: string) => CachedRateLimitData | null = getProxyCachedLimits,
+): boolean {
+  const provider = rateLimitProviderForModel(model);
+  const cached = provider ? getCached(provider) : null;
+  if (!cached) return false;
+  const fresh = now - cached.lastUpdated < RATE_LIMIT_STATUS_TTL_MS;
+  const limitedWindows = [cached.fiveHour, cached.sevenDay, ...(cached.windows ?? [])]
+    .filter((window) => window?.status === 'rate_limited');
+  if (limitedWindows.length > 0) {
+    return limitedWindows.some((window) => (window!.resetsAt ? window!.resetsAt * 1000 > now : fresh));
+  }
+  return cached.status === 'rate_limited' && fresh;
+}
+
+/** The model a tool loop is currently calling, and the ones left to try. */
+export class ModelFallbackChain {
+  private readonly entries: ModelFallback[];
+  private index = 0;
+
+  constructor(primary: ModelFallback, fallbacks: ModelFallback[] = []) {
+    this.entries = [primary, ...fallbacks];
+  }
+
+  get current(): ModelFallback {
+    return this.entries[this.index];
+  }
+
+  get requestedModel(): string {
+    return this.entries[0].model;
+  }
+
+  /** True once the loop has moved off the requested model. */
+  get switched(): boolean {
+    return this.index > 0;
+  }
+
+  /**
+   * Skip models in a known rate-limit window. The last model is always kept,
+   * so a fully limited chain still makes its call.
+   */
+  skipRateLimited(now = Date.now()): ModelFallbackSwitch[] {
+    const switches: ModelFallbackSwitch[] = [];
+    while (this.index < this.entries.length - 1 && isInRateLimitWindow(this.current.model, now)) {
+      switches.push(this.moveNext('rate_limited'));
+    }
+    return switches;
+  }
+
+  /** Move to the next model after a failed call; undefined when the error should propagate. */
+  advance(err: unknown, clientSignal?: AbortSignal): ModelFallbackSwitch | undefined {
+    if (this.index >= this.entries.length - 1) return undefined;
+    const reason = classifyFallbackError(err, clientSignal);
+    if (!reason) return undefined;
+    return { ...this.moveNext(reason), error: err instanceof Error ? err.message.slice(0, 200) : String(err) };
+  }
+
+  /** True when `err` is a rate limit and there is another model to try, so retrying is pointless. */
+  shouldSkipRetry(err: unknown, clientSignal?: AbortSignal): boolean {
+    return this.index < this.entries.length - 1 && classifyFallbackError(err, clientSignal) === 'rate_limited';
+  }
+
+  private moveNext(reason: ModelFallbackReason): ModelFallbackSwitch {
+    const from = this.current.model;
+    this.index += 1;
+    return { from, to: this.current.model, reason };
+  }
+}
+
+/** e.g. "anthropic/claude-sonnet-4-5 is rate limited; switching to openai/gpt-4o". */
+export function describeModelFallback(change: ModelFallbackSwitch): string {
+  const why = change.reason === 'rate_limited'
+    ? 'is rate limited'
+    : change.reason === 'unreachable' ? 'did not respond' : 'failed';
+  return `${change.from} ${why}; switching to ${change.to}`;
+}
@@ -0,0 +1,444 @@
+/**
+ * Notion
+ *
+ * Notion API helpers behind the notion_* tools: search, read a page as
+ * Markdown, create a page under a parent page or database, and append
+ * blocks. Auth uses internal-integration tokens stored per profile (see
+ * token-profiles.ts) at `~/.openclaw/workspace/notion_token.json`, override
+ * with NOTION_TOKEN_PATH; NOTION_TOKEN backs the default profile. Pages must
+ * be shared with the integration before it can see them.
+ */
+
+import * as path from 'node:path';
+import { homedir } from 'node:os';
+import {
+  DEFAULT_TOKEN_PROFILE,
+  normalizeTokenProfileName,
+  TokenProfileStore,
+  type TokenProfileInfo,
+} from './token-profiles.js';
+
+const NOTION_API_BASE = 'https://api.notion.com/v1';
+const NOTION_VERSION = '2022-06-28';
+const DEFAULT_SEARCH_RESULTS = 10;
+const MAX_SEARCH_RESULTS = 50;
+const DEFAULT_PAGE_MAX_CHARS = 30_000;
+/** Nested block levels fetched when reading a page. */
+const MAX_READ_DEPTH = 3;
+/** Notion accepts at most 100 blocks per children request. */
+const MAX_BLOCKS_PER_REQUEST = 100;
+/** Notion caps a single rich-text item at 2000 characters. */
+const MAX_RICH_TEXT_CHARS = 2000;
+
+export interface NotionAuthStatus {
+  profile: string;
+  activeProfile: string;
+  tokenPath: string;
+  hasToken: boolean;
+  /** Integration (bot) name; only looked up when `verify` is requested. */
+  botName?: string;
+  error?: string;
+}
+
+export interface NotionSearchResult {
+  id: string;
+  object: 'page' | 'database';
+  title: string;
+  url?: string;
+  lastEditedTime?: string;
+}
+
+type NotionRichText = {
+  type: 'text';
+  text: { content: string; link?: { url: string } | null };
+  annotations?: { bold?: boolean; italic?: boolean; code?: boolean; strikethrough?: boolean };
+};
+
+export type NotionBlock = Record<string, any> & { type: string };
+
+const tokenProfiles = new TokenProfileStore({
+  defaultPath: path.join(homedir(), '.openclaw', 'workspace', 'notion_token.json'),
+  pathEnv: 'NOTION_TOKEN_PATH',
+  envOverrides: () => (process.env.NOTION_TOKEN?.trim() ? { token: process.env.NOTION_TOKEN.trim() } : {}),
+});
+
+/** Accept a page/database id (with or without dashes) or a notion.so URL. */
+export function parseNotionId(input: string): string {
+  const trimmed = input.trim();
+  const matches = trimmed.replace(/-/g, '').match(/[0-9a-f]{32}/gi);
+  const hex = matches?.[matches.length - 1];
+  if (!hex) throw new Error(`Not a Notion page or database id: "${input}".`);
+  const id = hex.toLowerCase();
+  return `${id.slice(0, 8)}-${id.slice(8, 12)}-${id.slice(12, 16)}-${id.slice(16, 20)}-${id.slice(20)}`;
+}
+
+export async function notionFetchJson(apiPath: string, init: RequestInit, profile?: string): Promise<any> {
+  const resolved = await tokenProfiles.resolve(profile);
+  const token = resolved.record.token?.trim();
+  if (!token) {
+    throw new Error(
+      `No Notion token for profile "${resolved.profile}". Configure one via PATCH /api/tools (notion_auth_config) or NOTION_TOKEN.`,
+    );
+  }
+  const headers = new Headers(init.headers ?? {});
+  headers.set('Authorization', `Bearer ${token}`);
+  headers.set('Notion-Version', NOTION_VERSION);
+  if (!headers.has('Content-Type') && init.body) headers.set('Content-Type', 'application/json');
+
+  const res = await fetch(`${NOTION_API_BASE}${apiPath}`, { ...init, headers });
+  if (!res.ok) {
+    const err = await res.text().catch(() => '');
+    throw new Error(`Notion API failed (${res.status}): ${err.slice(0, 300)}`);
+  }
+  return await res.json();
+}
+
+// ---------------------------------------------------------------------------
+// Auth profiles
+// ---------------------------------------------------------------------------
+
+export async function notionAuthStatus(
+  profile: string | undefined,
+  opts?: { verify?: boolean },
+): Promise<NotionAuthStatus> {
+  const tokenPath = tokenProfiles.tokenPath;
+  let resolved: Awaited<ReturnType<TokenProfileStore['resolve']>>;
+  try {
+    resolved = await tokenProfiles.resolve(profile);
+  } catch (err) {
+    return {
+      profile: normalizeTokenProfileName(profile),
+      activeProfile: DEFAULT_TOKEN_PROFILE,
+      tokenPath,
+      hasToken: false,
+      error: `Token file not readable: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+  const status: NotionAuthStatus = {
+    profile: resolved.profile,
+    activeProfile: resolved.activeProfile,
+    tokenPath,
+    hasToken: Boolean(resolved.record.token?.trim()),
+  };
+  if (!status.hasToken) {
+    return { ...status, error: `No Notion token configured for profile "${resolved.profile}".` };
+  }
+  if (!opts?.verify) return status;
+  try {
+    const me = await notionFetchJson('/users/me', { method: 'GET' }, resolved.profile);
+    return { ...status, ...(typeof me?.name === 'string' ? { botName: me.name } : {}) };
+  } catch (err) {
+    return { ...status, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+export async function listNotionAuthProfiles(): Promise<{
+  tokenPath: string;
+  activeProfile: string;
+  profiles: TokenProfileInfo[];
+}> {
+  return tokenProfiles.list();
+}
+
+/** Tokens of every stored profile, for secret redaction (see secret-redaction.ts). */
+export async function listNotionTokenSecrets(): Promise<Array<{ label: string; value: string }>> {
+  return (await tokenProfiles.listTokens()).map(({ profile, token }) => ({ label: `notion_token:${profile}`, value: token }));
+}
+
+export async function upsertNotionAuthConfig(updates: {
+  profile?: string;
+  setActive?: boolean;
+  token?: string;
+}): Promise<{ profile: string; activeProfile: string; tokenPath: string; hasToken: boolean }> {
+  return tokenProfiles.upsert(updates);
+}
+
+export async function setNotionActiveProfile(profile: string): Promise<{ tokenPath: string; activeProfile: string }> {
+  return tokenProfiles.setActive(profile);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown <-> blocks
+// ---------------------------------------------------------------------------
+
+function richTextToMarkdown(items: unknown): string {
+  if (!Array.isArray(items)) return '';
+  return items.map((item: any) => {
+    let text = String(item?.plain_text ?? item?.text?.content ?? '');
+    if (!text) return '';
+    const a = item?.annotations ?? {};
+    if (a.code) text = `\`${text}\``;
+    if (a.bold) text = `**${text}**`;
+    if (a.italic) text = `*${text}*`;
+    if (a.strikethrough) text = `~~${text}~~`;
+    const href = item?.href ?? item?.text?.link?.url;
+    return href ? `[${text}](${href})` : text;
+  }).join('');
+}
+
+function textItems(content: string, annotations?: NotionRichText['annotations'], link?: string): NotionRichText[] {
+  const items: NotionRichText[] = [];
+  for (let i = 0; i < content.length; i += MAX_RICH_TEXT_CHARS) {
+    items.push({
+      type: 'text',
+      text: { content: content.slice(i, i + MAX_RICH_TEXT_CHARS), ...(link ? { link: { url: link } } : {}) },
+      ...(annotations ? { annotations } : {}),
+    });
+  }
+  return items;
+}
+
+/** Inline Markdown (`**bold**`, `*italic*`, `` `code` ``, `~~strike~~`, links) to rich text. */
+export function markdownToRichText(text: string): NotionRichText[] {
+  const out: NotionRichText[] = [];
+  const pattern = /\[([^\]]+)\]\(([^)\s]+)\)|\*\*([^*]+)\*\*|~~([^~]+)~~|`([^`]+)`|\*([^*]+)\*|_([^_]+)_/g;
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) out.push(...textItems(text.slice(last, index)));
+    if (match[1] !== undefined) out.push(...textItems(match[1], undefined, match[2]));
+    else if (match[3] !== undefined) out.push(...textItems(match[3], { bold: true }));
+    else if (match[4] !== undefined) out.push(...textItems(match[4], { strikethrough: true }));
+    else if (match[5] !== undefined) out.push(...textItems(match[5], { code: true }));
+    else out.push(...textItems(match[6] ?? match[7] ?? '', { italic: true }));
+    last = index + match[0].length;
+  }
+  if (last < text.length) out.push(...textItems(text.slice(last)));
+  return out;
+}
+
+function textBlock(type: string, text: string, extra: Record<string, unknown> = {}): NotionBlock {
+  return { object: 'block', type, [type]: { rich_text: markdownToRichText(text), ...extra } };
+}
+
+/** Convert Markdown to Notion blocks (headings, lists, to-dos, quotes, code, dividers, paragraphs). */
+export function markdownToNotionBlocks(markdown: string): NotionBlock[] {
+  const blocks: NotionBlock[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push(textBlock('paragraph', paragraph.join('\n')));
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fence = line.match(/^```\s*([\w+-]*)\s*$/);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      while (i + 1 < lines.length && !/^```\s*$/.test(lines[i + 1])) code.push(lines[++i]);
+      i++;
+      blocks.push({
+        object: 'block',
+        type: 'code',
+        code: { rich_text: textItems(code.join('\n')), language: fence[1] || 'plain text' },
+      });
+      continue;
+    }
+    let m: RegExpMatchArray | null;
+    if (!line.trim()) {
+      flush();
+    } else if ((m = line.match(/^(#{1,3})\s+(.*)$/))) {
+      flush();
+      blocks.push(textBlock(`heading_${m[1].length}`, m[2]));
+    } else if ((m = line.match(/^\s*[-*]\s+\[([ xX])\]\s+(.*)$/))) {
+      flush();
+      blocks.push(textBlock('to_do', m[2], { checked: m[1].toLowerCase() === 'x' }));
+    } else if ((m = line.match(/^\s*[-*+]\s+(.*)$/))) {
+      flush();
+      blocks.push(textBlock('bulleted_list_item', m[1]));
+    } else if ((m = line.match(/^\s*\d+[.)]\s+(.*)$/))) {
+      flush();
+      blocks.push(textBlock('numbered_list_item', m[1]));
+    } else if ((m = line.match(/^>\s?(.*)$/))) {
+      flush();
+      blocks.push(textBlock('quote', m[1]));
+    } else if (/^(-{3,}|\*{3,})\s*$/.test(line)) {
+      flush();
+      blocks.push({ object: 'block', type: 'divider', divider: {} });
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+  return blocks;
+}
+
+/** Render blocks (with `children` filled in for nested blocks) as Markdown. */
+export function notionBlocksToMarkdown(blocks: NotionBlock[], depth = 0): string {
+  const indent = '  '.repeat(depth);
+  const lines: string[] = [];
+  let number = 0;
+  for (const block of blocks) {
+    const data = block[block.type] ?? {};
+    const text = richTextToMarkdown(data.rich_text);
+    number = block.type === 'numbered_list_item' ? number + 1 : 0;
+    switch (block.type) {
+      case 'heading_1': lines.push(`# ${text}`); break;
+      case 'heading_2': lines.push(`## ${text}`); break;
+      case 'heading_3': lines.push(`### ${text}`); break;
+      case 'bulleted_list_item': lines.push(`${indent}- ${text}`); break;
+      case 'numbered_list_item': lines.push(`${indent}${number}. ${text}`); break;
+      case 'to_do': lines.push(`${indent}- [${data.checked ? 'x' : ' '}] ${text}`); break;
+      case 'toggle': lines.push(`${indent}- ${text}`); break;
+      case 'quote': lines.push(`> ${text}`); break;
+      case 'callout': lines.push(`> ${data.icon?.emoji ? `${data.icon.emoji} ` : ''}${text}`); break;
+      case 'code': lines.push(`\`\`\`${data.language === 'plain text' ? '' : data.language ?? ''}\n${text}\n\`\`\``); break;
+      case 'divider': lines.push('---'); break;
+      case 'child_page': lines.push(`[Page: ${data.title ?? 'Untitled'}]`); break;
+      case 'child_database': lines.push(`[Database: ${data.title ?? 'Untitled'}]`); break;
+      case 'image':
+      case 'file':
+      case 'pdf':
+      case 'bookmark':
+      case 'embed': {
+        const url = data.url ?? data.external?.url ?? data.file?.url;
+        if (url) lines.push(`[${block.type}](${url})`);
+        break;
+      }
+      case 'paragraph': lines.push(depth > 0 ? `${indent}${text}` : text); break;
+      default:
+        if (text) lines.push(text);
+        break;
+    }
+    if (Array.isArray(block.children) && block.children.length > 0) {
+      lines.push(notionBlocksToMarkdown(block.children, depth + 1));
+    }
+  }
+  return lines.join('\n');
+}
+
+function pageTitle(page: any): string {
+  const properties = page?.properties ?? {};
+  for (const value of Object.values(properties) as any[]) {
+    if (value?.type === 'title') return richTextToMarkdown(value.title) || 'Untitled';
+  }
+  if (Array.isArray(page?.title)) return richTextToMarkdown(page.title) || 'Untitled';
+  return 'Untitled';
+}
+
+// ---------------------------------------------------------------------------
+// API operations
+// ---------------------------------------------------------------------------
+
+export async function notionSearch(params: {
+  query: string;
+  type?: 'page' | 'database';
+  maxResults?: number;
+  profile?: string;
+}): Promise<NotionSearchResult[]> {
+  const pageSize = Math.max(1, Math.min(MAX_SEARCH_RESULTS, Number(params.maxResults) || DEFAULT_SEARCH_RESULTS));
+  const data = await notionFetchJson('/search', {
+    method: 'POST',
+    body: JSON.stringify({
+      query: params.query.trim(),
+      page_size: pageSize,
+      sort: { direction: 'descending', timestamp: 'last_edited_time' },
+      ...(params.type ? { filter: { property: 'object', value: params.type } } : {}),
+    }),
+  }, params.profile);
+  return (Array.isArray(data?.results) ? data.results : []).map((item: any) => ({
+    id: String(item?.id ?? ''),
+    object: item?.object === 'database' ? 'database' : 'page',
+    title: pageTitle(item),
+    ...(typeof item?.url === 'string' ? { url: item.url } : {}),
+    ...(typeof item?.last_edited_time === 'string' ? { lastEditedTime: item.last_edited_time } : {}),
+  }));
+}
+
+async function listBlockChildren(blockId: string, depth: number, profile?: string): Promise<NotionBlock[]> {
+  const blocks: NotionBlock[] = [];
+  let cursor: string | undefined;
+  do {
+    const query = new URLSearchParams({ page_size: '100', ...(cursor ? { start_cursor: cursor } : {}) });
+    const data = await notionFetchJson(`/blocks/${blockId}/children?${query.toString()}`, { method: 'GET' }, profile);
+    for (const block of Array.isArray(data?.results) ? data.results : []) {
+      // Child pages are separate documents; don't inline them.
+      if (block?.has_children && depth + 1 < MAX_READ_DEPTH && block.type !== 'child_page' && block.type !== 'child_database') {
+        block.children = await listBlockChildren(block.id, depth + 1, profile);
+      }
+      blocks.push(block);
+    }
+    cursor = data?.has_more && typeof data?.next_cursor === 'string' ? data.next_cursor : undefined;
+  } while (cursor);
+  return blocks;
+}
+
+export async function notionReadPage(params: {
+  pageId: string;
+  maxChars?: number;
+  profile?: string;
+}): Promise<{ id: string; title: string; url?: string; markdown: string; truncated: boolean }> {
+  const pageId = parseNotionId(params.pageId);
+  const page = await notionFetchJson(`/pages/${pageId}`, { method: 'GET' }, params.profile);
+  const blocks = await listBlockChildren(pageId, 0, params.profile);
+  const markdown = notionBlocksToMarkdown(blocks);
+  const maxChars = Math.max(500, Number(params.maxChars) || DEFAULT_PAGE_MAX_CHARS);
+  return {
+    id: pageId,
+    title: pageTitle(page),
+    ...(typeof page?.url === 'string' ? { url: page.url } : {}),
+    markdown: markdown.slice(0, maxChars),
+    truncated: markdown.length > maxChars,
+  };
+}
+
+async function appendBlocksInChunks(blockId: string, blocks: NotionBlock[], profile?: string): Promise<void> {
+  for (let i = 0; i < blocks.length; i += MAX_BLOCKS_PER_REQUEST) {
+    await notionFetchJson(`/blocks/${blockId}/children`, {
+      method: 'PATCH',
+      body: JSON.stringify({ children: blocks.slice(i, i + MAX_BLOCKS_PER_REQUEST) }),
+    }, profile);
+  }
+}
+
+export async function notionCreatePage(params: {
+  parentId: string;
+  parentType?: 'page' | 'database';
+  title: string;
+  markdown?: string;
+  profile?: string;
+}): Promise<{ id: string; url?: string; blocks: number }> {
+  const title = params.title.trim();
+  if (!title) throw new Error('title is required.');
+  const parentId = parseNotionId(params.parentId);
+  let parent: Record<string, string>;
+  let titleProperty = 'title';
+  if (params.parentType === 'database') {
+    // Database rows are titled through whichever property has type "title".
+    const database = await notionFetchJson(`/databases/${parentId}`, { method: 'GET' }, params.profile);
+    const entry = Object.entries(database?.properties ?? {}).find(([, value]: [string, any]) => value?.type === 'title');
+    if (!entry) throw new Error('Database has no title property.');
+    titleProperty = entry[0];
+    parent = { database_id: parentId };
+  } else {
+    parent = { page_id: parentId };
+  }
+
+  const blocks = markdownToNotionBlocks(params.markdown ?? '');
+  const created = await notionFetchJson('/pages', {
+    method: 'POST',
+    body: JSON.stringify({
+      parent,
+      properties: { [titleProperty]: { title: textItems(title) } },
+      children: blocks.slice(0, MAX_BLOCKS_PER_REQUEST),
+    }),
+  }, params.profile);
+  const id = String(created?.id ?? '');
+  if (!id) throw new Error('Notion page create returned no id.');
+  await appendBlocksInChunks(id, blocks.slice(MAX_BLOCKS_PER_REQUEST), params.profile);
+  return { id, ...(typeof created?.url === 'string' ? { url: created.url } : {}), blocks: blocks.length };
+}
+
+export async function notionAppendBlocks(params: {
+  pageId: string;
+  markdown: string;
+  profile?: string;
+}): Promise<{ id: string; blocks: number }> {
+  const pageId = parseNotionId(params.pageId);
+  const blocks = markdownToNotionBlocks(params.markdown);
+  if (blocks.length === 0) throw new Error('markdown is empty.');
+  await appendBlocksInChunks(pageId, blocks, params.profile);
+  return { id: pageId, blocks: blocks.length };
+}
@@ -16,6 +16,15 @@ const OPENCLAW_NATIVE_GOOGLE_TOOL_NAMES = new Set<string>([
   'google_docs_update_tab',
   'google_docs_delete_tab',
   'google_drive_files',
+  'google_sheets_read_range',
+  'google_sheets_write_range',
+  'google_sheets_append_rows',
+  'google_sheets_create',
+  'google_calendar_list_events',
+  'google_calendar_create_event',
+  'google_calendar_update_event',
+  'google_calendar_delete_event',
+  'google_calendar_free_busy',
 ]);
 
 export function resolveOpenClawNativeGoogleToolsEnabled(raw: unknown): boolean {
@@ -196,6 +205,156 @@ const GOOGLE_NATIVE_TOOLS: Array<{ name: string; description: string; schema: Re
       additionalProperties: false,
     },
   },
+  {
+    name: 'google_sheets_read_range',
+    description: 'Read cell values from a Google Sheets range.',
+    schema: {
+      type: 'object',
+      properties: {
+        spreadsheet_id: { type: 'string' },
+        range: { type: 'string' },
+        value_render_option: { type: 'string', enum: ['FORMATTED_VALUE', 'UNFORMATTED_VALUE', 'FORMULA'] },
+        max_rows: { type: 'number' },
+        profile: { type: 'string' },
+      },
+      required: ['spreadsheet_id', 'range'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_sheets_write_range',
+    description: 'Overwrite a Google Sheets range with rows of values.',
+    schema: {
+      type: 'object',
+      properties: {
+        spreadsheet_id: { type: 'string' },
+        range: { type: 'string' },
+        values: { type: 'array', items: { type: 'array', items: {} } },
+        value_input_option: { type: 'string', enum: ['USER_ENTERED', 'RAW'] },
+        profile: { type: 'string' },
+      },
+      required: ['spreadsheet_id', 'range', 'values'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_sheets_append_rows',
+    description: 'Append rows to a table in a Google Sheet.',
+    schema: {
+      type: 'object',
+      properties: {
+        spreadsheet_id: { type: 'string' },
+        range: { type: 'string' },
+        rows: { type: 'array', items: { type: 'array', items: {} } },
+        value_input_option: { type: 'string', enum: ['USER_ENTERED', 'RAW'] },
+        profile: { type: 'string' },
+      },
+      required: ['spreadsheet_id', 'range', 'rows'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_sheets_create',
+    description: 'Create a Google Sheets spreadsheet.',
+    schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        sheet_titles: { type: 'array', items: { type: 'string' } },
+        headers: { type: 'array', items: { type: 'string' } },
+        folder_id: { type: 'string' },
+        profile: { type: 'string' },
+      },
+      required: ['title'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_calendar_list_events',
+    description: 'List Google Calendar events in a time window.',
+    schema: {
+      type: 'object',
+      properties: {
+        calendar_id: { type: 'string' },
+        time_min: { type: 'string' },
+        time_max: { type: 'string' },
+        query: { type: 'string' },
+        max_results: { type: 'number' },
+        profile: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_calendar_create_event',
+    description: 'Create a Google Calendar event.',
+    schema: {
+      type: 'object',
+      properties: {
+        calendar_id: { type: 'string' },
+        summary: { type: 'string' },
+        start: { type: 'string' },
+        end: { type: 'string' },
+        time_zone: { type: 'string' },
+        description: { type: 'string' },
+        location: { type: 'string' },
+        attendees: { type: 'array', items: { type: 'string' } },
+        profile: { type: 'string' },
+      },
+      required: ['summary', 'start', 'end'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_calendar_update_event',
+    description: 'Update fields of a Google Calendar event.',
+    schema: {
+      type: 'object',
+      properties: {
+        calendar_id: { type: 'string' },
+        event_id: { type: 'string' },
+        summary: { type: 'string' },
+        start: { type: 'string' },
+        end: { type: 'string' },
+        time_zone: { type: 'string' },
+        description: { type: 'string' },
+        location: { type: 'string' },
+        attendees: { type: 'array', items: { type: 'string' } },
+        profile: { type: 'string' },
+      },
+      required: ['event_id'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_calendar_delete_event',
+    description: 'Delete a Google Calendar event.',
+    schema: {
+      type: 'object',
+      properties: {
+        calendar_id: { type: 'string' },
+        event_id: { type: 'string' },
+        profile: { type: 'string' },
+      },
+      required: ['event_id'],
+      additionalProperties: false,
+    },
+  },
+  {
+    name: 'google_calendar_free_busy',
+    description: 'Find busy intervals and free slots in Google Calendars.',
+    schema: {
+      type: 'object',
+      properties: {
+        calendar_ids: { type: 'array', items: { type: 'string' } },
+        time_min: { type: 'string' },
+        time_max: { type: 'string' },
+        min_slot_minutes: { type: 'number' },
+        profile: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
 ];
 
 export function registerOpenClawNativeGoogleTools(params: {
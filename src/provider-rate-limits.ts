@@ -0,0 +1,183 @@
+/**
+ * Provider Rate-Limit Parsing
+ *
+ * Normalizes what providers tell us about their limits into
+ * CachedRateLimitData, for proxy.ts to cache and /api/rate-limits to report:
+ *
+ *   - Anthropic unified headers (`anthropic-ratelimit-unified-*`): the
+ *     five-hour and seven-day subscription windows;
+ *   - OpenAI-style `x-ratelimit-{limit,remaining,reset}-{requests,tokens}`
+ *     headers (OpenAI, Moonshot, Groq, OpenRouter…): one window each;
+ *   - rate-limit and quota errors (429, Gemini `RESOURCE_EXHAUSTED`,
+ *     Moonshot/DeepSeek quota and balance errors): a `rate_limited` status,
+ *     with a window resetting at `retry-after` / Gemini `retryDelay` when
+ *     the provider gives one.
+ */
+
+import type { CachedRateLimitData, NamedRateLimitWindow, RateLimitWindow } from './types.js';
+
+export type HeaderLookup = (name: string) => string | undefined;
+
+/** Case-insensitive lookup over fetch `Headers` or Node's incoming headers. */
+export function headerLookup(
+  headers: { get(name: string): string | null } | Record<string, string | string[] | undefined> | undefined,
+): HeaderLookup {
+  if (!headers) return () => undefined;
+  if (typeof headers.get === 'function') {
+    const fetchHeaders = headers as { get(name: string): string | null };
+    return (name) => fetchHeaders.get(name) ?? undefined;
+  }
+  const record = headers as Record<string, string | string[] | undefined>;
+  return (name) => {
+    const value = record[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+  };
+}
+
+/**
+ * Seconds in a reset value: a Go-style duration ("6m0s", "20ms", "1h2m3.5s"),
+ * plain seconds, or an epoch timestamp in seconds.
+ */
+export function parseResetSeconds(raw: string | undefined, now = Date.now()): number | undefined {
+  const value = raw?.trim();
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const seconds = Number(value);
+    return seconds > 1e9 ? Math.max(0, seconds - now / 1000) : seconds;
+  }
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length === 0) return undefined;
+  const unit: Record<string, number> = { h: 3600, m: 60, s: 1, ms: 0.001 };
+  return parts.reduce((sum, [, amount, suffix]) => sum + Number(amount) * unit[suffix], 0);
+}
+
+/** `retry-after` as seconds (delta or HTTP date). */
+function retryAfterSeconds(raw: string | undefined, now: number): number | undefined {
+  const seconds = parseResetSeconds(raw, now);
+  if (seconds !== undefined) return seconds;
+  const date = raw ? Date.parse(raw) : NaN;
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - now) / 1000);
+}
+
+function unifiedWindow(get: HeaderLookup, key: string): RateLimitWindow | undefined {
+  const utilization = Number(get(`anthropic-ratelimit-unified-${key}-utilization`));
+  const status = get(`anthropic-ratelimit-unified-${key}-status`);
+  if (Number.isNaN(utilization) || !status) return undefined;
+  return {
+    utilization,
+    resetsAt: Number(get(`anthropic-ratelimit-unified-${key}-reset`)) || 0,
+    status,
+  };
+}
+
+/** Anthropic unified (subscription) rate-limit headers. */
+export function parseAnthropicRateLimits(get: HeaderLookup, now = Date.now()): CachedRateLimitData | null {
+  const status = get('anthropic-ratelimit-unified-status');
+  if (!status) return null;
+  const fiveHour = unifiedWindow(get, '5h');
+  const sevenDay = unifiedWindow(get, '7d');
+  return {
+    provider: 'anthropic',
+    status,
+    ...(fiveHour ? { fiveHour } : {}),
+    ...(sevenDay ? { sevenDay } : {}),
+    lastUpdated: now,
+  };
+}
+
+/** OpenAI-style `x-ratelimit-*` headers; null when the response has none. */
+export function parseOpenAIRateLimits(provider: string, get: HeaderLookup, now = Date.now()): CachedRateLimitData | null {
+  const windows: NamedRateLimitWindow[] = [];
+  for (const label of ['requests', 'tokens'] as const) {
+    const limit = Number(get(`x-ratelimit-limit-${label}`));
+    const remaining = Number(get(`x-ratelimit-remaining-${label}`));
+    if (!(limit > 0) || Number.isNaN(remaining)) continue;
+    const resetSeconds = parseResetSeconds(get(`x-ratelimit-reset-${label}`), now);
+    windows.push({
+      label,
+      utilization: Math.min(1, Math.max(0, (limit - remaining) / limit)),
+      resetsAt: resetSeconds !== undefined ? Math.ceil(now / 1000 + resetSeconds) : 0,
+      status: remaining <= 0 ? 'rate_limited' : 'allowed',
+      limit,
+      remaining,
+    });
+  }
+  if (windows.length === 0) return null;
+  return {
+    provider,
+    status: windows.some((window) => window.status === 'rate_limited') ? 'rate_limited' : 'allowed',
+    windows,
+    lastUpdated: now,
+  };
+}
+
+/** The `error` object of a provider error body (Gemini wraps it in an array). */
+function errorObject(body: string | undefined): Record<string, any> | undefined {
+  if (!body) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    const error = Array.isArray(parsed) ? parsed[0]?.error : parsed?.error;
+    return error && typeof error === 'object' ? error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A rate-limit or quota error response; null for other responses. Quota and
+ * balance errors (Gemini daily quotas, Moonshot/DeepSeek balance) are
+ * labelled "quota", everything else "rate".
+ */
+export function parseRateLimitError(
+  provider: string,
+  status: number,
+  get: HeaderLookup,
+  body?: string,
+  now = Date.now(),
+): CachedRateLimitData | null {
+  const error = errorObject(body);
+  const text = `${error?.status ?? ''} ${error?.type ?? ''} ${error?.code ?? ''} ${error?.message ?? body ?? ''}`.toLowerCase();
+  const exhausted = text.includes('resource_exhausted');
+  const quota = exhausted || /quota|insufficient.?balance|billing/.test(text);
+  if (status !== 429 && !exhausted && !(status === 402 && quota)) return null;
+
+  const details: Array<Record<string, any>> = Array.isArray(error?.details) ? error.details : [];
+  const retryDelay = details.find((detail) => typeof detail.retryDelay === 'string')?.retryDelay as string | undefined;
+  const quotaId = details
+    .flatMap((detail) => (Array.isArray(detail.violations) ? detail.violations : []))
+    .find((violation: Record<string, any>) => typeof violation.quotaId === 'string')?.quotaId as string | undefined;
+  const resetSeconds = parseResetSeconds(retryDelay, now) ?? retryAfterSeconds(get('retry-after'), now);
+  const message = typeof error?.message === 'string' ? error.message : (body ?? '').trim();
+
+  return {
+    provider,
+    status: 'rate_limited',
+    windows: [{
+      label: quotaId ?? (quota ? 'quota' : 'rate'),
+      utilization: 1,
+      resetsAt: resetSeconds !== undefined ? Math.ceil(now / 1000 + resetSeconds) : 0,
+      status: 'rate_limited',
+    }],
+    ...(message ? { error: message.slice(0, 200) } : {}),
+    lastUpdated: now,
+  };
+}
+
+/** Everything a provider response says about its limits; null when it says nothing. */
+export function parseProviderRateLimits(
+  provider: string,
+  response: { status: number; headers?: Parameters<typeof headerLookup>[0] },
+  body?: string,
+  now = Date.now(),
+): CachedRateLimitData | null {
+  const key = provider.toLowerCase();
+  const get = headerLookup(response.headers);
+  const unified = parseAnthropicRateLimits(get, now);
+  if (unified) return unified;
+  const error = response.status >= 400 ? parseRateLimitError(key, response.status, get, body, now) : null;
+  const headers = parseOpenAIRateLimits(key, get, now);
+  if (error && headers) {
+    return { ...error, windows: [...(headers.windows ?? []), ...(error.windows ?? [])] };
+  }
+  return error ?? headers;
+}
@@ -2,6 +2,7 @@ import http from 'node:http';
 import https from 'node:https';
 import { URL } from 'node:url';
 import type { CachedRateLimitData, Logger } from './types.js';
+import { headerLookup, parseAnthropicRateLimits, parseProviderRateLimits } from './provider-rate-limits.js';
 
 // ---------------------------------------------------------------------------
 // In-memory rate-limit cache (singleton across plugin reloads)
@@ -29,50 +30,6 @@ const PROXY_KEY = Symbol.for('clawtalk.proxy.activeServer');
 const _global = globalThis as Record<symbol, http.Server | null>;
 let activeServer: http.Server | null = _global[PROXY_KEY] ?? null;
 
-// ---------------------------------------------------------------------------
-// Header parsing (Anthropic unified rate-limit format)
-// ---------------------------------------------------------------------------
-
-function parseAnthropicHeaders(
-  headers: http.IncomingHttpHeaders,
-): CachedRateLimitData | null {
-  const status = headers['anthropic-ratelimit-unified-status'] as string | undefined;
-  if (!status) return null;
-
-  const now = Date.now();
-  const data: CachedRateLimitData = {
-    provider: 'anthropic',
-    status,
-    lastUpdated: now,
-  };
-
-  // 5-hour window
-  const fiveHUtil = Number(headers['anthropic-ratelimit-unified-5h-utilization']);
-  const fiveHReset = Number(headers['anthropic-ratelimit-unified-5h-reset']);
-  const fiveHStatus = headers['anthropic-ratelimit-unified-5h-status'] as string | undefined;
-  if (!isNaN(fiveHUtil) && fiveHStatus) {
-    data.fiveHour = {
-      utilization: fiveHUtil,
-      resetsAt: fiveHReset || 0,
-      status: fiveHStatus,
-    };
-  }
-
-  // 7-day window
-  const sevenDUtil = Number(headers['anthropic-ratelimit-unified-7d-utilization']);
-  const sevenDReset = Number(headers['anthropic-ratelimit-unified-7d-reset']);
-  const sevenDStatus = headers['anthropic-ratelimit-unified-7d-status'] as string | undefined;
-  if (!isNaN(sevenDUtil) && sevenDStatus) {
-    data.sevenDay = {
-      utilization: sevenDUtil,
-      resetsAt: sevenDReset || 0,
-      status: sevenDStatus,
-    };
-  }
-
-  return data;
-}
-
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
@@ -81,6 +38,35 @@ export function getProxyCachedLimits(provider: string): CachedRateLimitData | nu
   return store.get(provider.toLowerCase()) ?? null;
 }
 
+/** Every cached provider, most recently updated first. */
+export function listProxyCachedLimits(): CachedRateLimitData[] {
+  return [...store.values()].sort((a, b) => b.lastUpdated - a.lastUpdated);
+}
+
+/**
+ * Cache the limits a direct provider response reports (headers, or the body
+ * of an error response). A later success clears a recorded rate-limit error.
+ */
+export function recordProviderRateLimits(
+  provider: string,
+  response: { ok: boolean; status: number; headers?: Headers },
+  body?: string,
+): CachedRateLimitData | null {
+  const key = provider.toLowerCase();
+  const parsed = parseProviderRateLimits(key, response, body);
+  if (parsed) {
+    store.set(parsed.provider, parsed);
+    return parsed;
+  }
+  const existing = store.get(key);
+  if (response.ok && existing?.error) {
+    const cleared: CachedRateLimitData = { provider: key, status: 'allowed', lastUpdated: Date.now() };
+    store.set(key, cleared);
+    return cleared;
+  }
+  return null;
+}
+
 // ---------------------------------------------------------------------------
 // Proxy server
 // ---------------------------------------------------------------------------
@@ -126,7 +112,7 @@ export function startProxy(
       },
       (upstreamRes) => {
         // Capture rate-limit headers
-        const parsed = parseAnthropicHeaders(upstreamRes.headers);
+        const parsed = parseAnthropicRateLimits(headerLookup(upstreamRes.headers));
         if (parsed) {
           store.set('anthropic', parsed);
           logger.debug(
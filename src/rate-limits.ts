@@ -9,9 +9,10 @@ import type {
   UsageSummary,
   ProviderUsageSnapshot,
   CachedRateLimitData,
+  RateLimitWindow,
 } from './types.js';
 import { sendJson } from './http.js';
-import { getProxyCachedLimits } from './proxy.js';
+import { getProxyCachedLimits, listProxyCachedLimits } from './proxy.js';
 
 // ---------------------------------------------------------------------------
 // Usage loader — uses openclaw internals for rate-limit data
@@ -214,10 +215,21 @@ function formatSnapshot(snapshot: ProviderUsageSnapshot): Record<string, any> {
   return result;
 }
 
+function formatCachedWindow(window: RateLimitWindow): Record<string, any> {
+  return {
+    used: Math.round(window.utilization * 100),
+    limit: 100,
+    resetsAt: window.resetsAt
+      ? new Date(window.resetsAt * 1000).toISOString()
+      : undefined,
+  };
+}
+
 function formatCachedLimits(cached: CachedRateLimitData): Record<string, any> {
   const result: Record<string, any> = {
     provider: cached.provider,
   };
+  if (cached.status) result.status = cached.status;
 
   // Map fiveHour → session, sevenDay → weekly
   // Client expects: { used: number, limit: number, resetsAt: string (ISO) }
@@ -241,6 +253,26 @@ function formatCachedLimits(cached: CachedRateLimitData): Record<string, any> {
     };
   }
 
+  // Other providers: every window, and the most used one as the session
+  const windows = cached.windows ?? [];
+  if (windows.length > 0) {
+    result.windows = windows.map((window) => ({
+      label: window.label,
+      ...formatCachedWindow(window),
+      status: window.status,
+      ...(window.remaining !== undefined ? { remaining: window.remaining } : {}),
+      ...(window.limit !== undefined ? { max: window.limit } : {}),
+    }));
+    if (!result.session && !result.weekly) {
+      const busiest = windows.reduce((a, b) => (b.utilization > a.utilization ? b : a));
+      result.session = formatCachedWindow(busiest);
+    }
+  }
+
+  if (cached.error) {
+    result.error = cached.error;
+  }
+
   return result;
 }
 
@@ -260,7 +292,6 @@ export async function handleRateLimits(ctx: HandlerContext): Promise<void> {
   const providerFilter = ctx.url.searchParams.get('provider') ?? undefined;
 
   // Try the openclaw usage loader first
-  let usedProxyFallback = false;
   const loader = await ensureUsageLoader(ctx.logger);
 
   if (loader) {
@@ -282,46 +313,40 @@ export async function handleRateLimits(ctx: HandlerContext): Promise<void> {
           sendJson(ctx.res, 200, formatSnapshot(filtered[0]!));
           return;
         }
+        // Add providers only the proxy / direct routes have seen
+        const covered = new Set(filtered.map((s) => s.provider.toLowerCase()));
+        const cachedOnly = providerFilter
+          ? []
+          : listProxyCachedLimits().filter((cached) => !covered.has(cached.provider.toLowerCase()));
         sendJson(ctx.res, 200, {
-          rateLimits: filtered.map(formatSnapshot),
+          rateLimits: [...filtered.map(formatSnapshot), ...cachedOnly.map(formatCachedLimits)],
         });
         return;
       }
 
-      // If we got results with errors, fall through to proxy cache
-      if (hasErrors) {
-        usedProxyFallback = true;
-      }
+      // Results with errors, or none for this provider: fall through to proxy cache
     } catch (err) {
       ctx.logger.warn(`ClawTalk: usage loader error: ${String(err)}`);
-      usedProxyFallback = true;
     }
-  } else {
-    usedProxyFallback = true;
   }
 
-  // Fallback: use proxy-captured rate-limit headers
-  if (usedProxyFallback) {
-    if (providerFilter) {
-      const cached = getProxyCachedLimits(providerFilter);
-      if (cached) {
-        sendJson(ctx.res, 200, formatCachedLimits(cached));
-        return;
-      }
-      sendJson(ctx.res, 200, { provider: providerFilter });
-      return;
-    }
-
-    // No filter — return all cached providers
-    const anthropicCached = getProxyCachedLimits('anthropic');
-    if (anthropicCached) {
-      sendJson(ctx.res, 200, {
-        rateLimits: [formatCachedLimits(anthropicCached)],
-      });
+  // Fallback: rate limits captured by the proxy and the direct provider routes
+  if (providerFilter) {
+    const cached = getProxyCachedLimits(providerFilter);
+    if (cached) {
+      sendJson(ctx.res, 200, formatCachedLimits(cached));
       return;
     }
+    sendJson(ctx.res, 200, { provider: providerFilter });
+    return;
+  }
 
-    sendJson(ctx.res, 200, {});
+  // No filter — return all cached providers
+  const allCached = listProxyCachedLimits();
+  if (allCached.length > 0) {
+    sendJson(ctx.res, 200, {
+      rateLimits: allCached.map(formatCachedLimits),
+    });
     return;
   }
 
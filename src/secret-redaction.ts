@@ -0,0 +1,194 @@
+/**
+ * Secret Redaction
+ *
+ * Scrubs configured secrets (provider API keys from `models.providers`, Slack
+ * bot/app tokens and signing secrets, Google OAuth tokens, GitHub and Notion
+ * token profiles, `http_api_client` secrets, the gateway token and well-known
+ * key env vars) from tool results, persisted messages, job reports, Slack
+ * debug entries and log lines. Each occurrence is replaced with
+ * `[redacted:<label>]`, where the label names the secret's source.
+ *
+ * Secret values come from registered sources and are cached for a short
+ * TTL. `redact()` is synchronous and works from the cache; async callers
+ * should `await refresh()` first so rotated tokens are picked up.
+ */
+
+import { resolveGatewayToken } from './auth.js';
+import { listSlackAccountIds, resolveSlackBotTokenForAccount, resolveTemplateSecret } from './slack-auth.js';
+import type { Logger } from './types.js';
+
+/** Values shorter than this are never treated as secrets (too likely to match ordinary text). */
+const MIN_SECRET_LENGTH = 8;
+const REFRESH_TTL_MS = 30_000;
+
+/** Env vars holding credentials, redacted even when not referenced from config. */
+const SECRET_ENV_VARS = [
+  'ANTHROPIC_API_KEY',
+  'OPENAI_API_KEY',
+  'OPENROUTER_API_KEY',
+  'GEMINI_API_KEY',
+  'CARTESIA_API_KEY',
+  'ELEVENLABS_API_KEY',
+  'SLACK_BOT_TOKEN',
+  'SLACK_APP_TOKEN',
+  'SLACK_SIGNING_SECRET',
+  'GATEWAY_SLACK_SIGNING_SECRET',
+  'CLAWDBOT_GATEWAY_TOKEN',
+  'GOOGLE_OAUTH_CLIENT_SECRET',
+  'GOOGLE_OAUTH_REFRESH_TOKEN',
+  'GITHUB_TOKEN',
+  'NOTION_TOKEN',
+];
+
+export interface SecretValue {
+  /** Where the secret came from, e.g. `provider:openai` (shown in place of the value). */
+  label: string;
+  value: string;
+}
+
+export type SecretSource = () => SecretValue[] | Promise<SecretValue[]>;
+
+export type SecretRedactionSurface = 'tool_result' | 'message' | 'job_report' | 'slack_debug' | 'log';
+
+export interface SecretRedactionContext {
+  surface: SecretRedactionSurface;
+  talkId?: string;
+  /** Tool name, job id, etc. — included in the redaction event. */
+  detail?: string;
+}
+
+export interface SecretRedactionEvent extends SecretRedactionContext {
+  /** Labels of the secrets that were removed (never the values). */
+  labels: string[];
+  count: number;
+}
+
+/** Secrets referenced by the OpenClaw config (providers, Slack, gateway) and key env vars. */
+export function collectConfiguredSecrets(cfg: Record<string, any>): SecretValue[] {
+  const secrets: SecretValue[] = [];
+  const add = (label: string, raw: unknown) => {
+    const value = typeof raw === 'string' ? resolveTemplateSecret(raw) : undefined;
+    if (value) secrets.push({ label, value });
+  };
+
+  const providers = cfg?.models?.providers;
+  if (providers && typeof providers === 'object') {
+    for (const [id, provider] of Object.entries(providers as Record<string, any>)) {
+      add(`provider:${id}`, provider?.apiKey);
+    }
+  }
+
+  const slack = cfg?.channels?.slack;
+  for (const accountId of listSlackAccountIds(cfg)) {
+    add(`slack_bot_token:${accountId}`, resolveSlackBotTokenForAccount(cfg, accountId));
+    add(`slack_app_token:${accountId}`, slack?.accounts?.[accountId]?.appToken);
+    add(`slack_signing_secret:${accountId}`, slack?.accounts?.[accountId]?.signingSecret);
+  }
+  add('slack_app_token:default', slack?.appToken);
+  add('slack_signing_secret:default', slack?.signingSecret);
+
+  add('gateway_token', resolveGatewayToken(cfg ?? {}));
+  for (const name of SECRET_ENV_VARS) add(`env:${name}`, process.env[name]);
+  return secrets;
+}
+
+export class SecretRedactor {
+  private sources = new Map<string, SecretSource>();
+  private values = new Map<string, SecretValue[]>();
+  /** Longest first, so a secret containing another is replaced whole. */
+  private ordered: SecretValue[] = [];
+  private refreshedAt = 0;
+  private refreshing: Promise<void> | null = null;
+  private listeners: Array<(event: SecretRedactionEvent) => void> = [];
+
+  /** Register (or replace) a named secret source. Takes effect on the next refresh. */
+  addSource(name: string, source: SecretSource): void {
+    this.sources.set(name, source);
+    this.refreshedAt = 0;
+  }
+
+  onRedaction(listener: (event: SecretRedactionEvent) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((entry) => entry !== listener);
+    };
+  }
+
+  /** Reload secret values from every source, unless they were loaded within the TTL. */
+  async refresh(options?: { force?: boolean }): Promise<void> {
+    if (!options?.force && Date.now() - this.refreshedAt < REFRESH_TTL_MS) return;
+    if (this.refreshing) return this.refreshing;
+    // Sources run after `refreshing` is set, so a source that logs cannot start a second refresh.
+    this.refreshing = Promise.resolve().then(async () => {
+      for (const [name, source] of this.sources) {
+        try {
+          this.values.set(name, await source());
+        } catch {
+          // keep the previous values for a source that fails to load
+        }
+      }
+      this.rebuild();
+      this.refreshedAt = Date.now();
+    }).finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  /** Replace every known secret in `text`. Emits a redaction event when something was removed. */
+  redact(text: string, context: SecretRedactionContext): string {
+    if (Date.now() - this.refreshedAt >= REFRESH_TTL_MS) void this.refresh();
+    if (!text || this.ordered.length === 0) return text;
+    let out = text;
+    const labels = new Set<string>();
+    let count = 0;
+    for (const { label, value } of this.ordered) {
+      if (!out.includes(value)) continue;
+      const parts = out.split(value);
+      count += parts.length - 1;
+      out = parts.join(`[redacted:${label}]`);
+      labels.add(label);
+    }
+    if (count > 0) {
+      const event: SecretRedactionEvent = { ...context, labels: Array.from(labels).sort(), count };
+      for (const listener of this.listeners) {
+        try {
+          listener(event);
+        } catch {
+          // a failing listener must not break the write being redacted
+        }
+      }
+    }
+    return out;
+  }
+
+  private rebuild(): void {
+    const byValue = new Map<string, string>();
+    for (const entries of this.values.values()) {
+      for (const { label, value } of entries) {
+        const trimmed = value.trim();
+        if (trimmed.length >= MIN_SECRET_LENGTH && !byValue.has(trimmed)) byValue.set(trimmed, label);
+      }
+    }
+    this.ordered = Array.from(byValue, ([value, label]) => ({ label, value }))
+      .sort((a, b) => b.value.length - a.value.length);
+  }
+}
+
+let redactorInstance: SecretRedactor | null = null;
+
+export function getSecretRedactor(): SecretRedactor {
+  if (!redactorInstance) redactorInstance = new SecretRedactor();
+  return redactorInstance;
+}
+
+/** Wrap a logger so configured secrets never reach log output. */
+export function createRedactingLogger(logger: Logger, redactor: SecretRedactor = getSecretRedactor()): Logger {
+  const wrap = (fn: (msg: string) => void) => (msg: string) => fn(redactor.redact(msg, { surface: 'log' }));
+  return {
+    info: wrap(logger.info.bind(logger)),
+    warn: wrap(logger.warn.bind(logger)),
+    error: wrap(logger.error.bind(logger)),
+    debug: wrap(logger.debug.bind(logger)),
+  };
+}
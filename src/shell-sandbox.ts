@@ -0,0 +1,175 @@
+/**
+ * Shell Sandbox
+ *
+ * Builds the jailed invocation used by `shell_exec` when a talk's Filesystem
+ * Access is Workspace Sandbox or its Network Access is Restricted. The jail is
+ * a bubblewrap (`bwrap`) namespace:
+ *
+ *   - workspace_sandbox: system directories are mounted read-only and the
+ *     agent workspace is the only writable mount, at `/workspace`.
+ *   - restricted network: the network namespace is unshared, so the command
+ *     sees only loopback.
+ *   - always: the environment is rebuilt from a short allowlist (no gateway
+ *     API keys or tokens) and CPU time / address space are capped via ulimit.
+ *
+ * When no sandbox runtime is installed the caller must fail closed.
+ */
+
+import { accessSync, constants as fsConstants } from 'node:fs';
+import { delimiter, join, relative, resolve } from 'node:path';
+
+/** Mount point of the agent workspace inside the jail. */
+export const SANDBOX_WORKSPACE_PATH = '/workspace';
+
+const DEFAULT_CPU_SECONDS = 60;
+const DEFAULT_MEMORY_MB = 1024;
+
+/** Host directories mounted read-only when the filesystem is jailed. */
+const READ_ONLY_SYSTEM_DIRS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc', '/opt'];
+
+/** Environment variables passed through to sandboxed commands. */
+const PASSTHROUGH_ENV = ['PATH', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TERM', 'TZ'];
+
+export interface ShellSandboxLimits {
+  cpuSeconds: number;
+  memoryMb: number;
+}
+
+export interface ShellSandboxOptions {
+  /** Jail the filesystem to the workspace (Filesystem Access: Workspace Sandbox). */
+  isolateFilesystem: boolean;
+  /** Unshare the network namespace (Network Access: Restricted). */
+  disableNetwork: boolean;
+  /** Host path of the agent workspace. */
+  workspaceRoot: string;
+  /** Host working directory (must be inside workspaceRoot when isolateFilesystem). */
+  cwd: string;
+  /** HOME for the command when the filesystem is not jailed. */
+  home: string;
+  limits: ShellSandboxLimits;
+}
+
+export interface ShellSandboxPlan {
+  file: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+function positiveIntEnv(name: string, fallback: number): number {
+  const parsed = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function resolveShellSandboxLimits(): ShellSandboxLimits {
+  return {
+    cpuSeconds: positiveIntEnv('CLAWTALK_SANDBOX_CPU_SECONDS', DEFAULT_CPU_SECONDS),
+    memoryMb: positiveIntEnv('CLAWTALK_SANDBOX_MEMORY_MB', DEFAULT_MEMORY_MB),
+  };
+}
+
+function isExecutable(filePath: string): boolean {
+  try {
+    accessSync(filePath, fsConstants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Path of the bubblewrap binary (`CLAWTALK_SANDBOX_BWRAP` overrides the PATH lookup), if installed. */
+export function findShellSandboxRuntime(): string | undefined {
+  const override = process.env.CLAWTALK_SANDBOX_BWRAP?.trim();
+  if (override) return isExecutable(override) ? override : undefined;
+  for (const dir of (process.env.PATH ?? '').split(delimiter)) {
+    if (!dir) continue;
+    const candidate = join(dir, 'bwrap');
+    if (isExecutable(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+export function isShellSandboxAvailable(): boolean {
+  return findShellSandboxRuntime() !== undefined;
+}
+
+/** Minimal environment for sandboxed commands; nothing secret is inherited. */
+export function buildShellSandboxEnv(home: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const key of PASSTHROUGH_ENV) {
+    const value = process.env[key];
+    if (value) env[key] = value;
+  }
+  env.PATH = env.PATH || '/usr/local/bin:/usr/bin:/bin';
+  env.HOME = home;
+  env.TMPDIR = '/tmp';
+  return env;
+}
+
+/**
+ * Resolve a requested working directory against the workspace. Accepts
+ * workspace-relative paths and `/workspace/...` agent paths; anything that
+ * escapes the workspace is rejected.
+ */
+export function resolveShellSandboxWorkingDir(
+  workspaceRoot: string,
+  workingDir: string | undefined,
+): { ok: true; cwd: string } | { ok: false; error: string } {
+  const root = resolve(workspaceRoot);
+  const requested = (workingDir ?? '').trim();
+  if (!requested) return { ok: true, cwd: root };
+  const cwd = requested === SANDBOX_WORKSPACE_PATH || requested.startsWith(`${SANDBOX_WORKSPACE_PATH}/`)
+    ? resolve(root, requested.slice(SANDBOX_WORKSPACE_PATH.length).replace(/^\/+/, ''))
+    : resolve(root, requested);
+  if (cwd !== root && !cwd.startsWith(`${root}/`)) {
+    return { ok: false, error: `working directory must stay inside ${root}` };
+  }
+  return { ok: true, cwd };
+}
+
+/** Build the bwrap invocation that runs `command` under the given policy. */
+export function buildShellSandboxPlan(
+  runtime: string,
+  command: string,
+  opts: ShellSandboxOptions,
+): ShellSandboxPlan {
+  const args: string[] = ['--die-with-parent', '--new-session', '--unshare-pid', '--unshare-ipc', '--unshare-uts'];
+  if (opts.disableNetwork) args.push('--unshare-net');
+
+  let cwd: string;
+  let home: string;
+  if (opts.isolateFilesystem) {
+    for (const dir of READ_ONLY_SYSTEM_DIRS) args.push('--ro-bind-try', dir, dir);
+    const root = resolve(opts.workspaceRoot);
+    args.push('--bind', root, SANDBOX_WORKSPACE_PATH, '--tmpfs', '/tmp');
+    const rel = relative(root, resolve(opts.cwd));
+    cwd = rel ? `${SANDBOX_WORKSPACE_PATH}/${rel}` : SANDBOX_WORKSPACE_PATH;
+    home = SANDBOX_WORKSPACE_PATH;
+  } else {
+    args.push('--bind', '/', '/');
+    cwd = opts.cwd;
+    home = opts.home;
+  }
+  args.push('--proc', '/proc', '--dev', '/dev', '--chdir', cwd);
+
+  // ulimit -t/-v set hard limits, so the command cannot raise them again.
+  const limitScript = 'ulimit -t "$1" -v "$2" || exit 126; exec bash -c "$3"';
+  args.push(
+    '--',
+    'bash',
+    '-c',
+    limitScript,
+    'clawtalk-sandbox',
+    String(opts.limits.cpuSeconds),
+    String(opts.limits.memoryMb * 1024),
+    command,
+  );
+  return { file: runtime, args, env: buildShellSandboxEnv(home) };
+}
+
+/** Exit code of a process killed for exceeding its CPU limit (128 + SIGXCPU). */
+export const SANDBOX_CPU_LIMIT_EXIT_CODE = 152;
+
+/** True when output looks like bwrap failed to set up the jail (as opposed to the command failing). */
+export function isShellSandboxSetupFailure(exitCode: number | null, output: string): boolean {
+  return exitCode !== 0 && /^bwrap: /m.test(output);
+}
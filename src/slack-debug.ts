@@ -6,6 +6,7 @@
  */
 
 import { hostname } from 'node:os';
+import { getSecretRedactor } from './secret-redaction.js';
 
 export type SlackDebugPath = 'slack-ingress' | 'event-reply' | 'openclaw-message';
 
@@ -49,7 +50,13 @@ export function recordSlackDebug(entry: Omit<SlackDebugEntry, 'ts' | 'instanceTa
     ts: Date.now(),
     instanceTag,
     ...entry,
-    ...(entry.errorMessage ? { errorMessage: entry.errorMessage.slice(0, 220) } : {}),
+    ...(entry.errorMessage
+      ? {
+        errorMessage: getSecretRedactor()
+          .redact(entry.errorMessage, { surface: 'slack_debug', talkId: entry.talkId })
+          .slice(0, 220),
+      }
+      : {}),
   };
   slackDebugRing.push(normalized);
   if (slackDebugRing.length > SLACK_DEBUG_RING_MAX) {
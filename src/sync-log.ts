@@ -0,0 +1,174 @@
+/**
+ * Sync Event Log
+ *
+ * Durable, append-only log behind GET /api/sync/stream. Every sync event
+ * (talk changes, tool approvals, gateway phase) gets a monotonically
+ * increasing id and is appended to sync-log.jsonl in the data dir, so
+ * `Last-Event-ID` resume works across gateway restarts. The log is compacted
+ * to the most recent events; a cursor older than what is retained (or ahead
+ * of the log, e.g. after the file was removed) requires a full resync.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { Logger } from './types.js';
+
+export interface SyncLogEvent {
+  id: number;
+  type: string;
+  ts: number;
+  payload: Record<string, unknown>;
+}
+
+/** Per-client stream filter. Empty/undefined fields match everything. */
+export interface SyncEventFilter {
+  talkIds?: Set<string>;
+  /** Matches the event type (e.g. `talk_changed`) or a talk mutation type (e.g. `messages_appended`). */
+  types?: Set<string>;
+}
+
+export type SyncReplayResult =
+  | { ok: true; events: SyncLogEvent[] }
+  | { ok: false; reason: 'compacted' | 'unknown_cursor'; oldestEventId: number; lastEventId: number };
+
+/** Events kept after compaction. */
+export const DEFAULT_SYNC_LOG_RETAIN = 5000;
+/** Extra events allowed to accumulate before the file is rewritten. */
+const COMPACT_SLACK = 1000;
+
+const DEFAULT_DATA_DIR = join(
+  process.env.HOME || '~',
+  '.openclaw',
+  'plugins',
+  'clawtalk',
+);
+
+/** Parse `?talkIds=a,b&types=x,y` into a filter. */
+export function parseSyncEventFilter(params: URLSearchParams): SyncEventFilter {
+  const list = (name: string): Set<string> | undefined => {
+    const values = params.getAll(name)
+      .flatMap((value) => value.split(','))
+      .map((value) => value.trim())
+      .filter(Boolean);
+    return values.length ? new Set(values) : undefined;
+  };
+  return { talkIds: list('talkIds'), types: list('types') };
+}
+
+/**
+ * Whether an event passes a filter. Events without a talkId (e.g.
+ * `gateway_phase`) are gateway-wide and pass any talk filter.
+ */
+export function matchesSyncEventFilter(event: SyncLogEvent, filter: SyncEventFilter): boolean {
+  if (filter.talkIds) {
+    const talkId = event.payload.talkId;
+    if (typeof talkId === 'string' && !filter.talkIds.has(talkId)) return false;
+  }
+  if (filter.types) {
+    const mutationType = event.payload.mutationType;
+    if (!filter.types.has(event.type) && !(typeof mutationType === 'string' && filter.types.has(mutationType))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export class SyncEventLog {
+  private events: SyncLogEvent[] = [];
+  private nextId = 1;
+  private readonly logPath: string;
+  private readonly retain: number;
+  private readonly logger: Logger;
+
+  constructor(dataDir: string | undefined, logger: Logger, opts?: { retain?: number }) {
+    this.logger = logger;
+    this.retain = Math.max(1, opts?.retain ?? DEFAULT_SYNC_LOG_RETAIN);
+    const dir = dataDir || DEFAULT_DATA_DIR;
+    mkdirSync(dir, { recursive: true });
+    this.logPath = join(dir, 'sync-log.jsonl');
+    this.load();
+  }
+
+  /** Id of the newest event, or 0 when the log is empty. */
+  get lastEventId(): number {
+    return this.nextId - 1;
+  }
+
+  /** Id of the oldest retained event (lastEventId + 1 when empty). */
+  get oldestEventId(): number {
+    return this.events[0]?.id ?? this.nextId;
+  }
+
+  append(type: string, payload: Record<string, unknown>): SyncLogEvent {
+    const event: SyncLogEvent = { id: this.nextId++, type, ts: Date.now(), payload };
+    this.events.push(event);
+    try {
+      appendFileSync(this.logPath, `${JSON.stringify(event)}\n`, 'utf-8');
+    } catch (err) {
+      this.logger.warn(`SyncEventLog: append failed: ${err}`);
+    }
+    if (this.events.length > this.retain + COMPACT_SLACK) this.compact();
+    return event;
+  }
+
+  /**
+   * Events after `afterId` that match the filter. Fails when events after the
+   * cursor have been compacted away or the cursor is ahead of the log.
+   */
+  replay(afterId: number, filter: SyncEventFilter = {}): SyncReplayResult {
+    if (afterId > this.lastEventId || afterId < this.oldestEventId - 1) {
+      return {
+        ok: false,
+        reason: afterId > this.lastEventId ? 'unknown_cursor' : 'compacted',
+        oldestEventId: this.oldestEventId,
+        lastEventId: this.lastEventId,
+      };
+    }
+    return {
+      ok: true,
+      events: this.events.filter((event) => event.id > afterId && matchesSyncEventFilter(event, filter)),
+    };
+  }
+
+  /** Drop all but the newest `retain` events and rewrite the file. */
+  compact(): void {
+    if (this.events.length > this.retain) {
+      this.events = this.events.slice(-this.retain);
+    }
+    const tmpPath = `${this.logPath}.tmp`;
+    try {
+      const body = this.events.map((event) => JSON.stringify(event)).join('\n');
+      writeFileSync(tmpPath, body ? `${body}\n` : '', 'utf-8');
+      renameSync(tmpPath, this.logPath);
+    } catch (err) {
+      this.logger.warn(`SyncEventLog: compaction failed: ${err}`);
+    }
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = readFileSync(this.logPath, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(`SyncEventLog: failed to read ${this.logPath}: ${err}`);
+      }
+      return;
+    }
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as SyncLogEvent;
+        // Skip torn or out-of-order lines (e.g. a crash mid-append).
+        if (typeof event.id !== 'number' || event.id < this.nextId) continue;
+        this.events.push(event);
+        this.nextId = event.id + 1;
+      } catch {
+        // ignore malformed line
+      }
+    }
+    // Rewrite when over the limit or when the last line was torn, so the
+    // next append starts on a fresh line.
+    if (this.events.length > this.retain || (raw && !raw.endsWith('\n'))) this.compact();
+  }
+}
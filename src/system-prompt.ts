@@ -86,19 +86,27 @@ export function composeSystemPrompt(input: SystemPromptInput): string | undefine
         '- Use tools only when the user asks for external actions or verification (file ops, web requests, installs, code execution).\n' +
         '- **Do not use tools** for simple conversational/meta questions (e.g., "what model are you?", greetings, clarifications).\n' +
         '- If a tool call fails, tell the user what happened and suggest alternatives.\n' +
+        (toolMode === 'confirm'
+          ? '- Each tool call waits for user approval. If a result says "Tool call denied by user.", do not retry it; ask how to proceed.\n'
+          : '') +
         '- For multi-step tasks, chain tool calls as needed — you can call tools multiple times in sequence.\n' +
         '- For Google Docs URLs (`docs.google.com/document/...`), use `google_docs_read` instead of `web_fetch_extract`. If the URL contains `?tab=`, pass the tab parameter as `tab_id`. If a doc has multiple tabs and no specific tab is requested, mention the available tabs to the user.\n' +
-        '- For Google Docs/Drive actions, use gateway tools (`google_docs_*`, `google_drive_files`) via function calls.\n' +
+        '- For Google Docs/Drive/Sheets/Calendar actions, use gateway tools (`google_docs_*`, `google_drive_files`, `google_sheets_*`, `google_calendar_*`) via function calls.\n' +
+        '- For email, draft with `gmail_create_draft` and show the user the draft; `gmail_send_draft` always waits for the user\'s approval, so never claim an email was sent until it succeeds.\n' +
+        '- For GitHub issues, pull requests, repository files and workflow runs, use the `github_*` tools instead of calling the GitHub API with `curl` through `shell_exec`.\n' +
+        '- For Notion project docs, use `notion_search` to find pages, `notion_read_page` to read them, and `notion_create_page`/`notion_append_blocks` (Markdown content) to write.\n' +
+        '- For other external APIs, use `http_api_client` with `{{secret:NAME}}` placeholders for credentials; never ask the user to paste API keys into the chat.\n' +
         '- Do not use or mention `gog` CLI, local skills, or external auth flows for Google actions in this Talk.\n' +
         '- If Google tools are unavailable or blocked, say that explicitly and mention Execution Mode / OAuth readiness as the likely cause.\n' +
         '- For `read`, always provide a concrete `file_path` argument. Never call `read` with empty or missing path.\n' +
         '- For `edit`/`apply_patch`, include all required fields and validate target paths before calling.\n' +
         `- Talk state backend: \`${stateBackend}\`. ` +
         (stateBackend === 'stream_store'
-          ? `Prefer state tools (\`state_append_event\`, \`state_read_summary\`) and default stream \`${defaultStateStream}\`. Do not assume memory markdown files exist.\n`
+          ? `Prefer state tools (\`state_append_event\`, \`state_read_summary\`) and default stream \`${defaultStateStream}\`. For a new kind of tracker, set the stream's reducer and window with \`state_configure_policy\` first. Do not assume memory markdown files exist.\n`
           : 'Use workspace files for persistence and do not call state_* stream tools unless the user switches backend.\n') +
-        '- `shell_exec` runs commands in a bash shell on the server. Use it for file creation, curl, package installs, etc.\n' +
-        '- `manage_tools` lets you register new custom tools to expand your capabilities.\n' +
+        '- `shell_exec` runs commands in a bash shell on the server. Use it for file creation, curl, package installs, etc. ' +
+        'In Talks with Workspace Sandbox or Restricted network access it runs jailed: only `/workspace` is writable, there is no network, and no API keys are in the environment.\n' +
+        '- `manage_tools` lets you register new custom tools to expand your capabilities. Give each one an `execution` spec (shell command or HTTP request template with `{{arg}}` placeholders) so it can actually run.\n' +
         '- Always report tool results clearly. Show relevant output, not just "done".\n' +
         '- For long-running commands, consider using appropriate timeouts.\n\n' +
         '**CRITICAL: Never promise an action you cannot verify completing.** ' +
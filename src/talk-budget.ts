@@ -0,0 +1,253 @@
+/**
+ * Talk Budgets
+ *
+ * A talk may carry a monthly dollar and/or token budget (`TalkMeta.budget`),
+ * measured against the usage ledger for the current UTC calendar month, and
+ * a job may carry a per-run cap (`TalkJob.runCap`). The cap is checked after
+ * each upstream call, so a run can overshoot it by one call's usage.
+ *
+ *   - Chat over budget is refused, or downgraded to the first model in
+ *     `budget.downgradeModels` when `onExceeded` is "downgrade".
+ *   - Scheduled and event jobs are skipped while their talk is over budget.
+ *   - Crossing an alert threshold (default 80% and 100%) raises one alert
+ *     per threshold per month; the gateway sends it to the sync stream and,
+ *     when configured, to Slack.
+ */
+
+import type { JobRunCap, TalkBudget, TalkBudgetAlertState, TalkMeta } from './types.js';
+import type { UsageLedger, UsageTotals } from './usage-ledger.js';
+
+const DEFAULT_ALERT_THRESHOLDS = [0.8, 1];
+
+export interface TalkBudgetStatus {
+  /** `YYYY-MM` (UTC). */
+  period: string;
+  spentUsd: number;
+  spentTokens: number;
+  monthlyUsd?: number;
+  monthlyTokens?: number;
+  /** Largest spent/limit ratio across the configured limits. */
+  fraction: number;
+  exceeded: boolean;
+}
+
+export interface TalkBudgetAlert {
+  talkId: string;
+  topicTitle?: string;
+  threshold: number;
+  status: TalkBudgetStatus;
+  message: string;
+}
+
+function positiveNumber(raw: unknown): number | undefined {
+  return typeof raw === 'number' && Number.isFinite(raw) && raw > 0 ? raw : undefined;
+}
+
+function stringList(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((entry) => (typeof entry === 'string' ? entry.trim() : ''))
+    .filter(Boolean);
+}
+
+/** Clean a stored budget; undefined when it sets no limit. */
+export function normalizeTalkBudget(raw: unknown): TalkBudget | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const row = raw as Record<string, unknown>;
+  const monthlyUsd = positiveNumber(row.monthlyUsd);
+  const monthlyTokens = positiveNumber(row.monthlyTokens);
+  if (monthlyUsd === undefined && monthlyTokens === undefined) return undefined;
+  const downgradeModels = stringList(row.downgradeModels);
+  const alertThresholds = Array.isArray(row.alertThresholds)
+    ? Array.from(new Set(row.alertThresholds.filter((value): value is number =>
+      typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= 1))).sort((a, b) => a - b)
+    : undefined;
+  const slack = row.slackAlerts && typeof row.slackAlerts === 'object'
+    ? row.slackAlerts as Record<string, unknown>
+    : undefined;
+  const channelId = typeof slack?.channelId === 'string' ? slack.channelId.trim() : '';
+  const accountId = typeof slack?.accountId === 'string' ? slack.accountId.trim() : '';
+  const threadTs = typeof slack?.threadTs === 'string' ? slack.threadTs.trim() : '';
+  return {
+    ...(monthlyUsd !== undefined ? { monthlyUsd } : {}),
+    ...(monthlyTokens !== undefined ? { monthlyTokens: Math.round(monthlyTokens) } : {}),
+    onExceeded: row.onExceeded === 'downgrade' ? 'downgrade' : 'refuse',
+    ...(downgradeModels.length > 0 ? { downgradeModels } : {}),
+    ...(alertThresholds && alertThresholds.length > 0 ? { alertThresholds } : {}),
+    ...(channelId
+      ? { slackAlerts: { channelId, ...(accountId ? { accountId } : {}), ...(threadTs ? { threadTs } : {}) } }
+      : {}),
+  };
+}
+
+/**
+ * Validate a budget from a PATCH body. `null` clears the budget.
+ */
+export function parseTalkBudgetInput(
+  raw: unknown,
+): { ok: true; budget: TalkBudget | null } | { ok: false; error: string } {
+  if (raw === null) return { ok: true, budget: null };
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { ok: false, error: 'budget must be an object or null' };
+  const row = raw as Record<string, unknown>;
+  for (const key of ['monthlyUsd', 'monthlyTokens'] as const) {
+    if (row[key] !== undefined && positiveNumber(row[key]) === undefined) {
+      return { ok: false, error: `budget.${key} must be a positive number` };
+    }
+  }
+  if (row.monthlyUsd === undefined && row.monthlyTokens === undefined) {
+    return { ok: false, error: 'budget needs monthlyUsd and/or monthlyTokens' };
+  }
+  if (row.onExceeded !== undefined && row.onExceeded !== 'refuse' && row.onExceeded !== 'downgrade') {
+    return { ok: false, error: 'budget.onExceeded must be one of: refuse, downgrade' };
+  }
+  if (row.downgradeModels !== undefined && !Array.isArray(row.downgradeModels)) {
+    return { ok: false, error: 'budget.downgradeModels must be an array of model ids' };
+  }
+  if (row.onExceeded === 'downgrade' && stringList(row.downgradeModels).length === 0) {
+    return { ok: false, error: 'budget.downgradeModels is required when budget.onExceeded is "downgrade"' };
+  }
+  if (row.alertThresholds !== undefined && (
+    !Array.isArray(row.alertThresholds)
+    || row.alertThresholds.some((value) => typeof value !== 'number' || !(value > 0 && value <= 1))
+  )) {
+    return { ok: false, error: 'budget.alertThresholds must be an array of fractions between 0 and 1' };
+  }
+  if (row.slackAlerts !== undefined) {
+    const slack = row.slackAlerts as Record<string, unknown> | null;
+    if (!slack || typeof slack !== 'object' || typeof slack.channelId !== 'string' || !slack.channelId.trim()) {
+      return { ok: false, error: 'budget.slackAlerts.channelId is required' };
+    }
+  }
+  return { ok: true, budget: normalizeTalkBudget(row) ?? null };
+}
+
+/** Clean a stored per-run cap; undefined when it sets no limit. */
+export function normalizeJobRunCap(raw: unknown): JobRunCap | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const row = raw as Record<string, unknown>;
+  const maxTokens = positiveNumber(row.maxTokens);
+  const maxUsd = positiveNumber(row.maxUsd);
+  if (maxTokens === undefined && maxUsd === undefined) return undefined;
+  return {
+    ...(maxTokens !== undefined ? { maxTokens: Math.round(maxTokens) } : {}),
+    ...(maxUsd !== undefined ? { maxUsd } : {}),
+  };
+}
+
+/** Validate a job run cap from a request body. `null` clears the cap. */
+export function parseJobRunCapInput(
+  raw: unknown,
+): { ok: true; runCap: JobRunCap | null } | { ok: false; error: string } {
+  if (raw === null) return { ok: true, runCap: null };
+  if (typeof raw !== 'object' || Array.isArray(raw)) return { ok: false, error: 'runCap must be an object or null' };
+  const row = raw as Record<string, unknown>;
+  for (const key of ['maxTokens', 'maxUsd'] as const) {
+    if (row[key] !== undefined && positiveNumber(row[key]) === undefined) {
+      return { ok: false, error: `runCap.${key} must be a positive number` };
+    }
+  }
+  const runCap = normalizeJobRunCap(row);
+  if (!runCap) return { ok: false, error: 'runCap needs maxTokens and/or maxUsd' };
+  return { ok: true, runCap };
+}
+
+export function totalTokens(totals: Pick<UsageTotals, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>): number {
+  return totals.inputTokens + totals.outputTokens + totals.cacheReadTokens + totals.cacheWriteTokens;
+}
+
+/** True once usage has reached either limit of a run cap. */
+export function isRunCapReached(cap: JobRunCap | undefined, used: { tokens: number; costUsd: number }): boolean {
+  if (!cap) return false;
+  return (cap.maxTokens !== undefined && used.tokens >= cap.maxTokens)
+    || (cap.maxUsd !== undefined && used.costUsd >= cap.maxUsd);
+}
+
+/** The current budget month and its first millisecond. */
+export function currentBudgetPeriod(now = Date.now()): { period: string; since: number } {
+  const date = new Date(now);
+  const since = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  return { period: new Date(since).toISOString().slice(0, 7), since };
+}
+
+/** Month-to-date spend against the talk's budget; undefined when the talk has none. */
+export function evaluateTalkBudget(
+  talk: Pick<TalkMeta, 'id' | 'budget'>,
+  ledger: UsageLedger,
+  now = Date.now(),
+): TalkBudgetStatus | undefined {
+  const budget = talk.budget;
+  if (!budget || (budget.monthlyUsd === undefined && budget.monthlyTokens === undefined)) return undefined;
+  const { period, since } = currentBudgetPeriod(now);
+  const totals = ledger.totals({ talkId: talk.id, since });
+  const spentTokens = totalTokens(totals);
+  const fractions = [
+    budget.monthlyUsd !== undefined ? totals.costUsd / budget.monthlyUsd : 0,
+    budget.monthlyTokens !== undefined ? spentTokens / budget.monthlyTokens : 0,
+  ];
+  const fraction = Math.max(...fractions);
+  return {
+    period,
+    spentUsd: totals.costUsd,
+    spentTokens,
+    ...(budget.monthlyUsd !== undefined ? { monthlyUsd: budget.monthlyUsd } : {}),
+    ...(budget.monthlyTokens !== undefined ? { monthlyTokens: budget.monthlyTokens } : {}),
+    fraction,
+    exceeded: fraction >= 1,
+  };
+}
+
+/** e.g. "$12.40 of $10.00, 1,200,000 of 1,000,000 tokens". */
+export function describeBudgetStatus(status: TalkBudgetStatus): string {
+  const parts: string[] = [];
+  if (status.monthlyUsd !== undefined) {
+    parts.push(`$${status.spentUsd.toFixed(2)} of $${status.monthlyUsd.toFixed(2)}`);
+  }
+  if (status.monthlyTokens !== undefined) {
+    parts.push(`${status.spentTokens.toLocaleString('en-US')} of ${status.monthlyTokens.toLocaleString('en-US')} tokens`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Model to use for an over-budget chat turn: the first downgrade model that
+ * differs from the requested one, or undefined when the turn must be refused.
+ */
+export function resolveBudgetDowngradeModel(budget: TalkBudget | undefined, requestedModel: string): string | undefined {
+  if (budget?.onExceeded !== 'downgrade') return undefined;
+  const requested = requestedModel.trim().toLowerCase();
+  return budget.downgradeModels?.find((model) => model.trim().toLowerCase() !== requested);
+}
+
+/**
+ * The alert to raise for the talk's current spend, if it crossed a threshold
+ * not yet alerted this month. The caller records `state` on the talk.
+ */
+export function checkTalkBudgetAlert(
+  talk: Pick<TalkMeta, 'id' | 'topicTitle' | 'budget' | 'budgetAlert'>,
+  ledger: UsageLedger,
+  now = Date.now(),
+): { alert: TalkBudgetAlert; state: TalkBudgetAlertState } | undefined {
+  const status = evaluateTalkBudget(talk, ledger, now);
+  if (!status) return undefined;
+  const thresholds = talk.budget?.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS;
+  const crossed = thresholds.filter((threshold) => status.fraction >= threshold);
+  if (crossed.length === 0) return undefined;
+  const threshold = Math.max(...crossed);
+  const previous = talk.budgetAlert;
+  if (previous && previous.period === status.period && previous.threshold >= threshold) return undefined;
+
+  const name = talk.topicTitle ? `"${talk.topicTitle}"` : `Talk ${talk.id}`;
+  const message = status.exceeded
+    ? `${name} is over its monthly budget (${describeBudgetStatus(status)}).`
+    : `${name} has used ${Math.round(threshold * 100)}% of its monthly budget (${describeBudgetStatus(status)}).`;
+  return {
+    alert: {
+      talkId: talk.id,
+      ...(talk.topicTitle ? { topicTitle: talk.topicTitle } : {}),
+      threshold,
+      status,
+      message,
+    },
+    state: { period: status.period, threshold, at: now },
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Talk Export / Import HTTP Handlers
+ *
+ * Handles GET /api/talks/:id/export (archive bundle or Markdown transcript)
+ * and POST /api/talks/import (archive bundle).
+ */
+
+import type { HandlerContext } from './types.js';
+import { talkPolicyOverrides, type TalkStore } from './talk-store.js';
+import { sendJson, readRawBody } from './http.js';
+import { principalHasScope } from './auth.js';
+import { extractClientIdHeader, requireTalkChangeScope } from './talks.js';
+import {
+  MAX_TALK_BUNDLE_BYTES,
+  decodeTalkBundle,
+  encodeTalkBundle,
+  renderTalkTranscript,
+} from './talk-bundle.js';
+
+/** Filesystem-friendly stem for download names. */
+function exportFileStem(title: string | undefined, talkId: string): string {
+  const slug = (title ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return slug || `talk-${talkId.slice(0, 8)}`;
+}
+
+function sendDownload(ctx: HandlerContext, body: Buffer, contentType: string, filename: string): void {
+  ctx.res.statusCode = 200;
+  ctx.res.setHeader('Content-Type', contentType);
+  ctx.res.setHeader('Content-Length', body.length);
+  ctx.res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  ctx.res.setHeader('Access-Control-Allow-Origin', '*');
+  ctx.res.end(body);
+}
+
+export async function handleExportTalk(ctx: HandlerContext, store: TalkStore, talkId: string): Promise<void> {
+  const format = ctx.url.searchParams.get('format')?.trim().toLowerCase() || 'bundle';
+  if (format !== 'bundle' && format !== 'markdown') {
+    sendJson(ctx.res, 400, { error: 'format must be one of: bundle, markdown' });
+    return;
+  }
+  const talk = store.getTalk(talkId);
+  if (!talk) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+
+  const stem = exportFileStem(talk.topicTitle, talkId);
+  if (format === 'markdown') {
+    const transcript = renderTalkTranscript(talk, await store.getMessages(talkId));
+    sendDownload(ctx, Buffer.from(transcript, 'utf-8'), 'text/markdown; charset=utf-8', `${stem}.md`);
+    return;
+  }
+
+  const bundle = await store.exportTalk(talkId);
+  if (!bundle) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+  sendDownload(ctx, encodeTalkBundle(bundle), 'application/gzip', `${stem}.clawtalk.tar.gz`);
+}
+
+export async function handleImportTalk(ctx: HandlerContext, store: TalkStore): Promise<void> {
+  let archive: Buffer;
+  try {
+    archive = await readRawBody(ctx.req, MAX_TALK_BUNDLE_BYTES);
+  } catch (err) {
+    sendJson(ctx.res, 413, { error: err instanceof Error ? err.message : 'Bundle too large' });
+    return;
+  }
+  if (archive.length === 0) {
+    sendJson(ctx.res, 400, { error: 'Request body must be a talk bundle (.tar.gz)' });
+    return;
+  }
+
+  const decoded = decodeTalkBundle(archive);
+  if (!decoded.ok) {
+    sendJson(ctx.res, 400, { error: decoded.error });
+    return;
+  }
+  // Importing must not widen tool policy or schedule jobs beyond what the caller could set directly.
+  if (!requireTalkChangeScope(ctx, talkPolicyOverrides(decoded.bundle.meta))) return;
+  const pauseJobs = Boolean(ctx.principal && !principalHasScope(ctx.principal, 'admin'));
+
+  try {
+    const result = await store.importTalk(decoded.bundle, { modifiedBy: extractClientIdHeader(ctx), pauseJobs });
+    ctx.logger.info(
+      `ClawTalk: imported talk ${result.originalId}${result.remapped ? ` as ${result.talk.id}` : ''} `
+      + `(${decoded.bundle.messages.length} messages)`,
+    );
+    sendJson(ctx.res, 201, {
+      talk: result.talk,
+      originalId: result.originalId,
+      remapped: result.remapped,
+      warnings: result.warnings,
+      imported: {
+        messages: decoded.bundle.messages.length,
+        knowledgeTopics: decoded.bundle.knowledgeTopics.length,
+        reports: decoded.bundle.reports.length,
+        stateStreams: decoded.bundle.stateStreams.length,
+      },
+    });
+  } catch (err) {
+    ctx.logger.error(`ClawTalk: talk import failed: ${err}`);
+    sendJson(ctx.res, 500, { error: 'Import failed' });
+  }
+}
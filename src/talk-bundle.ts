@@ -0,0 +1,324 @@
+/**
+ * Talk Bundles
+ *
+ * Portable archive format for moving a Talk between gateways or backing it
+ * up: a gzipped ustar archive (readable with `tar -xzf`) laid out as
+ *
+ *   bundle.json                  format marker + export metadata
+ *   meta.json                    TalkMeta
+ *   history.jsonl                one TalkMessage per line
+ *   context.md
+ *   knowledge/_index.md          `slug | summary` lines, as on disk
+ *   knowledge/<slug>.md
+ *   reports.jsonl                job reports
+ *   state/<stream>/events.jsonl  state event ledger
+ *   state/<stream>/policy.json
+ *
+ * Also renders a readable Markdown transcript for sharing a conversation.
+ */
+
+import { gzipSync, gunzipSync } from 'node:zlib';
+import { isValidKnowledgeSlug } from './talk-store.js';
+import { normalizeStateStream } from './talk-state-store.js';
+import type {
+  JobReport,
+  KnowledgeIndexEntry,
+  TalkBundle,
+  TalkMessage,
+  TalkMeta,
+  TalkStateEvent,
+  TalkStatePolicy,
+} from './types.js';
+
+export const TALK_BUNDLE_FORMAT = 'clawtalk-talk-bundle';
+export const TALK_BUNDLE_VERSION = 1;
+/** Largest compressed bundle accepted by import. */
+export const MAX_TALK_BUNDLE_BYTES = 50 * 1024 * 1024;
+/** Largest decompressed archive accepted by import. */
+const MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+
+const BLOCK = 512;
+const MESSAGE_ROLES = new Set<TalkMessage['role']>(['user', 'assistant', 'system', 'tool']);
+
+// ---------------------------------------------------------------------------
+// Minimal ustar codec (regular files only)
+// ---------------------------------------------------------------------------
+
+function writeOctal(header: Buffer, value: number, offset: number, width: number): void {
+  header.write(value.toString(8).padStart(width - 1, '0') + '\0', offset, width, 'ascii');
+}
+
+function tarHeader(name: string, size: number, mtime: number): Buffer {
+  let prefix = '';
+  let base = name;
+  if (Buffer.byteLength(name) > 100) {
+    const cut = name.lastIndexOf('/', 155);
+    if (cut <= 0 || Buffer.byteLength(name.slice(cut + 1)) > 100) {
+      throw new Error(`bundle path too long: ${name}`);
+    }
+    prefix = name.slice(0, cut);
+    base = name.slice(cut + 1);
+  }
+  const header = Buffer.alloc(BLOCK);
+  header.write(base, 0, 100, 'utf-8');
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime / 1000), 136, 12);
+  header.write('        ', 148, 8, 'ascii');
+  header.write('0', 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, 155, 'utf-8');
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+  return header;
+}
+
+function packTar(files: Array<{ name: string; content: string }>, mtime: number): Buffer {
+  const parts: Buffer[] = [];
+  for (const file of files) {
+    const data = Buffer.from(file.content, 'utf-8');
+    parts.push(tarHeader(file.name, data.length, mtime), data);
+    const pad = (BLOCK - (data.length % BLOCK)) % BLOCK;
+    if (pad) parts.push(Buffer.alloc(pad));
+  }
+  parts.push(Buffer.alloc(BLOCK * 2));
+  return Buffer.concat(parts);
+}
+
+function readString(buf: Buffer, offset: number, width: number): string {
+  const raw = buf.subarray(offset, offset + width);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? width : end).toString('utf-8');
+}
+
+function unpackTar(buf: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (offset + BLOCK <= buf.length) {
+    const header = buf.subarray(offset, offset + BLOCK);
+    if (header.every((byte) => byte === 0)) break;
+
+    const stored = parseInt(readString(header, 148, 8).trim(), 8);
+    let checksum = 0;
+    for (let i = 0; i < BLOCK; i++) checksum += i >= 148 && i < 156 ? 0x20 : header[i];
+    if (stored !== checksum) throw new Error('corrupt archive header (checksum mismatch)');
+
+    const size = parseInt(readString(header, 124, 12).trim() || '0', 8);
+    if (!Number.isFinite(size) || size < 0 || offset + BLOCK + size > buf.length) {
+      throw new Error('corrupt archive header (bad size)');
+    }
+    const prefix = readString(header, 345, 155);
+    const name = prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100);
+    const type = String.fromCharCode(header[156] || 0x30);
+    if (type === '0') {
+      files.set(name.replace(/^\.\//, ''), buf.subarray(offset + BLOCK, offset + BLOCK + size).toString('utf-8'));
+    }
+    offset += BLOCK + Math.ceil(size / BLOCK) * BLOCK;
+  }
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Bundle encode / decode
+// ---------------------------------------------------------------------------
+
+function toJsonl(rows: unknown[]): string {
+  return rows.length > 0 ? `${rows.map((row) => JSON.stringify(row)).join('\n')}\n` : '';
+}
+
+/** Serialize a bundle to a .tar.gz archive. */
+export function encodeTalkBundle(bundle: TalkBundle, exportedAt = Date.now()): Buffer {
+  const files: Array<{ name: string; content: string }> = [
+    {
+      name: 'bundle.json',
+      content: JSON.stringify({
+        format: TALK_BUNDLE_FORMAT,
+        version: TALK_BUNDLE_VERSION,
+        exportedAt,
+        talkId: bundle.meta.id,
+        topicTitle: bundle.meta.topicTitle,
+      }, null, 2),
+    },
+    { name: 'meta.json', content: JSON.stringify(bundle.meta, null, 2) },
+    { name: 'history.jsonl', content: toJsonl(bundle.messages) },
+    { name: 'context.md', content: bundle.contextMd },
+    { name: 'reports.jsonl', content: toJsonl(bundle.reports) },
+  ];
+  if (bundle.knowledgeIndex.length > 0) {
+    files.push({
+      name: 'knowledge/_index.md',
+      content: bundle.knowledgeIndex.map((entry) => `${entry.slug} | ${entry.summary}`).join('\n') + '\n',
+    });
+  }
+  for (const topic of bundle.knowledgeTopics) {
+    files.push({ name: `knowledge/${topic.slug}.md`, content: topic.content });
+  }
+  for (const { stream, events, policy } of bundle.stateStreams) {
+    files.push({ name: `state/${stream}/events.jsonl`, content: toJsonl(events) });
+    files.push({ name: `state/${stream}/policy.json`, content: JSON.stringify(policy, null, 2) });
+  }
+  return gzipSync(packTar(files, exportedAt));
+}
+
+function parseJsonl<T>(
+  name: string,
+  text: string | undefined,
+  check: (row: any) => boolean,
+): { ok: true; rows: T[] } | { ok: false; error: string } {
+  const rows: T[] = [];
+  const lines = (text ?? '').split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    let row: unknown;
+    try {
+      row = JSON.parse(lines[i]);
+    } catch {
+      return { ok: false, error: `${name} line ${i + 1} is not valid JSON` };
+    }
+    if (!row || typeof row !== 'object' || !check(row)) {
+      return { ok: false, error: `${name} line ${i + 1} is missing required fields` };
+    }
+    rows.push(row as T);
+  }
+  return { ok: true, rows };
+}
+
+/** Unpack and validate a .tar.gz bundle. */
+export function decodeTalkBundle(archive: Buffer): { ok: true; bundle: TalkBundle } | { ok: false; error: string } {
+  let files: Map<string, string>;
+  try {
+    files = unpackTar(gunzipSync(archive, { maxOutputLength: MAX_UNPACKED_BYTES }));
+  } catch (err) {
+    return { ok: false, error: `Not a valid talk bundle archive: ${err instanceof Error ? err.message : err}` };
+  }
+
+  let header: { format?: unknown; version?: unknown };
+  let meta: TalkMeta;
+  try {
+    header = JSON.parse(files.get('bundle.json') ?? 'null') ?? {};
+    meta = JSON.parse(files.get('meta.json') ?? 'null') as TalkMeta;
+  } catch {
+    return { ok: false, error: 'bundle.json and meta.json must be valid JSON' };
+  }
+  if (header.format !== TALK_BUNDLE_FORMAT) {
+    return { ok: false, error: 'bundle.json is missing or is not a ClawTalk talk bundle' };
+  }
+  if (typeof header.version !== 'number' || header.version > TALK_BUNDLE_VERSION) {
+    return { ok: false, error: `Unsupported bundle version ${String(header.version)} (max ${TALK_BUNDLE_VERSION})` };
+  }
+  if (!meta || typeof meta !== 'object' || typeof meta.id !== 'string' || !meta.id.trim()) {
+    return { ok: false, error: 'meta.json must be a talk with a string id' };
+  }
+
+  const history = parseJsonl<TalkMessage>('history.jsonl', files.get('history.jsonl'), (msg) =>
+    typeof msg.id === 'string' && MESSAGE_ROLES.has(msg.role)
+    && typeof msg.content === 'string' && typeof msg.timestamp === 'number');
+  if (!history.ok) return history;
+  const seen = new Set<string>();
+  for (const msg of history.rows) {
+    if (seen.has(msg.id)) return { ok: false, error: `history.jsonl has duplicate message id ${msg.id}` };
+    seen.add(msg.id);
+  }
+
+  const reports = parseJsonl<JobReport>('reports.jsonl', files.get('reports.jsonl'), (report) =>
+    typeof report.id === 'string' && typeof report.jobId === 'string' && typeof report.runAt === 'number');
+  if (!reports.ok) return reports;
+
+  const knowledgeIndex: KnowledgeIndexEntry[] = [];
+  for (const line of (files.get('knowledge/_index.md') ?? '').split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const pipe = trimmed.indexOf('|');
+    const slug = pipe === -1 ? '' : trimmed.slice(0, pipe).trim();
+    const summary = pipe === -1 ? '' : trimmed.slice(pipe + 1).trim();
+    if (!isValidKnowledgeSlug(slug) || !summary) {
+      return { ok: false, error: `knowledge/_index.md has an invalid entry: ${trimmed.slice(0, 80)}` };
+    }
+    knowledgeIndex.push({ slug, summary });
+  }
+  const knowledgeTopics: TalkBundle['knowledgeTopics'] = [];
+  const streams = new Map<string, { events?: string; policy?: string }>();
+  for (const [name, content] of files) {
+    const topic = name.match(/^knowledge\/([^/]+)\.md$/);
+    if (topic && topic[1] !== '_index') {
+      if (!isValidKnowledgeSlug(topic[1])) return { ok: false, error: `Invalid knowledge topic file: ${name}` };
+      knowledgeTopics.push({ slug: topic[1], content });
+      continue;
+    }
+    const state = name.match(/^state\/([^/]+)\/(events\.jsonl|policy\.json)$/);
+    if (state) {
+      if (normalizeStateStream(state[1]) !== state[1]) return { ok: false, error: `Invalid state stream name: ${state[1]}` };
+      const entry = streams.get(state[1]) ?? {};
+      if (state[2] === 'events.jsonl') entry.events = content;
+      else entry.policy = content;
+      streams.set(state[1], entry);
+    }
+  }
+
+  const stateStreams: TalkBundle['stateStreams'] = [];
+  for (const [stream, entry] of streams) {
+    const events = parseJsonl<TalkStateEvent>(`state/${stream}/events.jsonl`, entry.events, (event) =>
+      typeof event.id === 'string' && typeof event.sequence === 'number' && typeof event.type === 'string');
+    if (!events.ok) return events;
+    let policy: TalkStatePolicy;
+    try {
+      policy = JSON.parse(entry.policy ?? 'null') as TalkStatePolicy;
+    } catch {
+      return { ok: false, error: `state/${stream}/policy.json is not valid JSON` };
+    }
+    if (!policy || typeof policy !== 'object') {
+      return { ok: false, error: `state/${stream}/policy.json is missing` };
+    }
+    stateStreams.push({ stream, events: events.rows, policy: { ...policy, stream } });
+  }
+
+  return {
+    ok: true,
+    bundle: {
+      meta,
+      messages: history.rows,
+      contextMd: files.get('context.md') ?? '',
+      knowledgeIndex,
+      knowledgeTopics,
+      reports: reports.rows,
+      stateStreams,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Markdown transcript
+// ---------------------------------------------------------------------------
+
+function formatTimestamp(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+}
+
+/**
+ * Readable transcript of the user/assistant conversation. Tool results and
+ * empty tool-call turns are summarized rather than dumped.
+ */
+export function renderTalkTranscript(meta: TalkMeta, messages: TalkMessage[], exportedAt = Date.now()): string {
+  const lines: string[] = [`# ${meta.topicTitle?.trim() || 'Untitled Talk'}`, ''];
+  if (meta.objective?.trim()) lines.push(`**Objective:** ${meta.objective.trim()}`, '');
+  lines.push(`_Exported ${formatTimestamp(exportedAt)} · ${messages.length} messages_`, '', '---', '');
+
+  for (const msg of messages) {
+    if (msg.role === 'tool') continue;
+    const toolNames = (msg.tool_calls ?? []).map((call) => `\`${call.function.name}\``);
+    if (!msg.content.trim() && toolNames.length === 0) continue;
+    const speaker = msg.role === 'user'
+      ? 'User'
+      : msg.role === 'system'
+        ? 'System'
+        : msg.agentName ?? 'Assistant';
+    lines.push(`### ${speaker} · ${formatTimestamp(msg.timestamp)}`, '');
+    if (msg.content.trim()) lines.push(msg.content.trim(), '');
+    if (toolNames.length > 0) lines.push(`_Used tools: ${toolNames.join(', ')}_`, '');
+  }
+  return lines.join('\n');
+}
@@ -10,21 +10,29 @@
 import { randomUUID } from 'node:crypto';
 import type { IncomingMessage, ServerResponse } from 'node:http';
 import type { TalkStore } from './talk-store.js';
-import { matchKnowledgeTopics } from './talk-store.js';
-import type { TalkMessage, ImageAttachmentMeta, KnowledgeIndexEntry, Logger } from './types.js';
+import { summarizePendingToolCall } from './talk-store.js';
+import type { AgentRole, TalkAgent, TalkMessage, TalkMeta, ImageAttachmentMeta, KnowledgeIndexEntry, Logger, PendingToolCall } from './types.js';
 import type { ToolInfo, ToolRegistry } from './tool-registry.js';
 import type { ToolExecutor } from './tool-executor.js';
-import { sendJson, readJsonBody } from './http.js';
+import { sendJson, readJsonBody, readRawBody } from './http.js';
 import { composeSystemPrompt } from './system-prompt.js';
 import { scheduleContextUpdate } from './context-updater.js';
+import { getKnowledgeRetriever } from './knowledge-retrieval.js';
 import { runToolLoop } from './tool-loop.js';
+import { getUsageLedger } from './usage-ledger.js';
+import { describeBudgetStatus, evaluateTalkBudget, resolveBudgetDowngradeModel } from './talk-budget.js';
+import type { TalkBudgetStatus } from './talk-budget.js';
+import type { ToolCallDecision, ToolLoopStreamOptions, ToolLoopStreamResult } from './tool-loop.js';
 import { resolveDirectRoute } from './direct-provider-router.js';
 import type { DirectProviderRoute } from './direct-provider-router.js';
+import { buildModelFallbacks, resolveFallbackModels, type ModelFallback } from './model-fallback.js';
 import { collectRoutingDiagnostics } from './model-routing-diagnostics.js';
 import { getToolCatalog } from './tool-catalog.js';
 import { parseEventTrigger, validateSchedule } from './job-scheduler.js';
 import { extractGoogleDocsDocumentIdFromUrl, extractGoogleDocsTabIdFromUrl, hasGoogleDocsDocumentUrl } from './google-docs-url.js';
 import { googleDocsAuthStatusForProfile } from './google-docs.js';
+import { githubAuthStatus } from './github.js';
+import { notionAuthStatus } from './notion.js';
 import {
   evaluateToolAvailability,
   isBrowserIntent,
@@ -48,6 +56,13 @@ import {
   type ToolAffinityObservation,
 } from './tool-affinity.js';
 import { getTtftTracker } from './ttft-tracker.js';
+import {
+  planTalkRound,
+  resolveRoundRoleInstructions,
+  buildRoundAgentPrompt,
+  buildRoundSynthesisPrompt,
+} from './talk-round.js';
+import type { TalkRoundPlan, TalkRoundReply } from './talk-round.js';
 
 /** Maximum number of history messages to include in LLM context. */
 const MAX_CONTEXT_MESSAGES = 50;
@@ -93,17 +108,29 @@ function emitErrorEvent(res: ServerResponse, payload: TalkErrorPayload): void {
 function buildTalkAuthReadyResolver(input: {
   googleOAuthReady: boolean;
   googleAuthProfile?: string;
+  githubTokenReady: boolean;
+  notionTokenReady: boolean;
   getToolRequiredAuth: (toolName: string) => string[];
 }): (toolName: string) => { ready: boolean; reason?: string } | undefined {
   const profileLabel = input.googleAuthProfile?.trim() || 'default';
   return (toolName: string) => {
     const required = input.getToolRequiredAuth(toolName);
-    if (!required.includes('google_oauth')) return undefined;
-    if (input.googleOAuthReady) return { ready: true };
-    return {
-      ready: false,
-      reason: `Blocked by Google OAuth: profile "${profileLabel}" is not ready.`,
-    };
+    if (required.includes('google_oauth') && !input.googleOAuthReady) {
+      return {
+        ready: false,
+        reason: `Blocked by Google OAuth: profile "${profileLabel}" is not ready.`,
+      };
+    }
+    if (required.includes('github_token') && !input.githubTokenReady) {
+      return { ready: false, reason: 'Blocked by GitHub token: the active GitHub profile has no token.' };
+    }
+    if (required.includes('notion_token') && !input.notionTokenReady) {
+      return { ready: false, reason: 'Blocked by Notion token: the active Notion profile has no token.' };
+    }
+    if (required.some((req) => req === 'google_oauth' || req === 'github_token' || req === 'notion_token')) {
+      return { ready: true };
+    }
+    return undefined;
   };
 }
 
@@ -178,6 +205,21 @@ function resolveTalkInactivityTimeoutMs(): number {
   return Math.min(900_000, Math.max(30_000, parsed));
 }
 
+/** Fallback chain for a turn, with a direct provider route for each model that has one. */
+function resolveTalkModelFallbacks(
+  meta: TalkMeta,
+  agentName: string | undefined,
+  primaryModel: string,
+  getConfig: TalkChatContext['getConfig'],
+  logger: Logger,
+): ModelFallback[] {
+  return buildModelFallbacks(primaryModel, resolveFallbackModels(meta, agentName), (model) => {
+    if (!model.includes('/') || !getConfig) return undefined;
+    const routeResult = resolveDirectRoute(model, getConfig(), logger);
+    return routeResult.ok ? routeResult.data : undefined;
+  });
+}
+
 function isModelIdentityQuestion(message: string): boolean {
   const text = message.trim().toLowerCase();
   if (!text) return false;
@@ -464,6 +506,40 @@ function selectHistoryWithinBudget(
   return selected;
 }
 
+/** Convert stored history into LLM messages, handling tool turns and agent attribution. */
+function toLlmHistoryMessages(history: TalkMessage[]): Array<any> {
+  const messages: Array<any> = [];
+  for (const m of history) {
+    if (m.role === 'tool') {
+      // Tool result messages need tool_call_id and name
+      messages.push({
+        role: 'tool',
+        content: m.content,
+        tool_call_id: m.tool_call_id,
+        name: m.tool_name,
+      });
+    } else if (m.role === 'assistant' && m.tool_calls && m.tool_calls.length > 0) {
+      // Assistant messages with tool calls
+      let content = m.content;
+      if (m.agentName) {
+        content = `[${m.agentName}]: ${content}`;
+      }
+      messages.push({
+        role: 'assistant',
+        content: content || null,
+        tool_calls: m.tool_calls,
+      });
+    } else {
+      let content = m.content;
+      if (m.agentName && m.role === 'assistant') {
+        content = `[${m.agentName}]: ${content}`;
+      }
+      messages.push({ role: m.role, content });
+    }
+  }
+  return messages;
+}
+
 export interface TalkChatContext {
   req: IncomingMessage;
   res: ServerResponse;
@@ -477,6 +553,62 @@ export interface TalkChatContext {
   dataDir?: string;
   /** Returns fresh OpenClaw config for direct provider routing. */
   getConfig?: () => import('./types.js').OpenClawConfig;
+  /** Already-parsed request body; when set, the request body is not read. */
+  body?: TalkChatRequestBody;
+  /**
+   * Re-answer this user message, already the last one in history, instead
+   * of appending a new user message (response regeneration).
+   */
+  replayUserMessage?: TalkMessage;
+}
+
+export interface TalkChatRequestBody {
+  message: string;
+  model?: string;
+  agentName?: string;
+  agentRole?: string;
+  agentRoleInstructions?: string;
+  otherAgents?: { name: string; role: string; model: string }[];
+  imageBase64?: string;
+  imageMimeType?: string;
+  /** When true, this is a recovery retry — skip persisting the user message to avoid duplicates. */
+  recovery?: boolean;
+  /** Run a multi-agent round instead of a single reply (see talk-round.ts). */
+  round?: unknown;
+}
+
+/** Persist intermediate tool call / tool result messages from a tool loop run. */
+async function persistToolCallMessages(
+  store: TalkStore,
+  talkId: string,
+  toolCallMessages: ToolLoopStreamResult['toolCallMessages'],
+  attribution: { model: string; agentName?: string; agentRole?: AgentRole },
+): Promise<void> {
+  for (const msg of toolCallMessages) {
+    if (msg.role === 'assistant' && msg.tool_calls) {
+      const toolAssistantMsg: TalkMessage = {
+        id: randomUUID(),
+        role: 'assistant',
+        content: msg.content || '',
+        timestamp: Date.now(),
+        model: attribution.model,
+        tool_calls: msg.tool_calls,
+        ...(attribution.agentName && { agentName: attribution.agentName }),
+        ...(attribution.agentRole && { agentRole: attribution.agentRole }),
+      };
+      await store.appendMessage(talkId, toolAssistantMsg);
+    } else if (msg.role === 'tool') {
+      const toolResultMsg: TalkMessage = {
+        id: randomUUID(),
+        role: 'tool',
+        content: msg.content,
+        timestamp: Date.now(),
+        tool_call_id: msg.tool_call_id,
+        tool_name: msg.name,
+      };
+      await store.appendMessage(talkId, toolResultMsg);
+    }
+  }
 }
 
 /** Extract ```job``` blocks from AI response text. */
@@ -553,6 +685,41 @@ export function classifyJobScheduleType(schedule: string): 'once' | 'recurring'
   return 'recurring';
 }
 
+/**
+ * Over its monthly budget a talk either refuses the turn (402, returns
+ * undefined) or answers with the budget's downgrade model.
+ */
+function checkTurnBudget(
+  ctx: Pick<TalkChatContext, 'res' | 'talkId' | 'dataDir' | 'logger'>,
+  meta: TalkMeta,
+  requestedModel: string,
+): { budgetModel?: string; budgetStatus?: TalkBudgetStatus } | undefined {
+  const { res, talkId, dataDir, logger } = ctx;
+  const budgetStatus = evaluateTalkBudget(meta, getUsageLedger(dataDir, logger));
+  if (!budgetStatus?.exceeded) return { budgetStatus };
+  const budgetModel = resolveBudgetDowngradeModel(meta.budget, requestedModel);
+  if (!budgetModel) {
+    logger.info(`TalkChat: refusing turn, talk ${talkId} is over budget (${describeBudgetStatus(budgetStatus)})`);
+    sendJson(res, 402, {
+      error: `This talk is over its monthly budget (${describeBudgetStatus(budgetStatus)}).`,
+      code: 'TALK_BUDGET_EXCEEDED',
+      budget: budgetStatus,
+    });
+    return undefined;
+  }
+  logger.info(`TalkChat: talk ${talkId} is over budget, downgrading ${requestedModel} → ${budgetModel}`);
+  return { budgetModel, budgetStatus };
+}
+
+function emitBudgetDowngrade(res: ServerResponse, requestedModel: string, budgetModel: string, budgetStatus: TalkBudgetStatus): void {
+  emitStatusEvent(res, {
+    code: 'BUDGET_DOWNGRADE',
+    message: `Talk is over its monthly budget; answering with ${budgetModel} instead of ${requestedModel}`,
+    level: 'warn',
+    meta: { requestedModel, model: budgetModel, budget: budgetStatus },
+  });
+}
+
 export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   const { req, res, talkId, store, gatewayOrigin, authToken, logger, registry, executor, dataDir } = ctx;
 
@@ -562,23 +729,16 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   }
 
   // Parse request body (allow up to 5MB for image attachments)
-  let body: {
-    message: string;
-    model?: string;
-    agentName?: string;
-    agentRole?: string;
-    agentRoleInstructions?: string;
-    otherAgents?: { name: string; role: string; model: string }[];
-    imageBase64?: string;
-    imageMimeType?: string;
-    /** When true, this is a recovery retry — skip persisting the user message to avoid duplicates. */
-    recovery?: boolean;
-  };
-  try {
-    body = (await readJsonBody(req, 5 * 1024 * 1024)) as typeof body;
-  } catch {
-    sendJson(res, 400, { error: 'Invalid JSON body' });
-    return;
+  let body: TalkChatRequestBody;
+  if (ctx.body) {
+    body = ctx.body;
+  } else {
+    try {
+      body = (await readJsonBody(req, 5 * 1024 * 1024)) as TalkChatRequestBody;
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
   }
 
   if (!body.message || typeof body.message !== 'string') {
@@ -593,12 +753,37 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
     return;
   }
 
-  // Resolve model (request override → talk default)
-  const model = body.model || meta.model || 'openclaw';
+  // A replayed turn reuses the persisted user message instead of appending one.
+  const replay = ctx.replayUserMessage;
+  const newUserMessageId = (): string => replay?.id ?? randomUUID();
+  const persistUserMessage = async (msg: TalkMessage): Promise<void> => {
+    if (!replay) await store.appendMessage(talkId, msg);
+  };
+
+  const requestedModel = body.model || meta.model || 'openclaw';
+  const budget = checkTurnBudget(ctx, meta, requestedModel);
+  if (!budget) return;
+  const { budgetModel, budgetStatus } = budget;
+
+  // Multi-agent round: the selected agents each reply, then an optional
+  // synthesizer pass. Handled apart from single-reply turns.
+  if (body.round !== undefined && body.round !== false) {
+    const planned = planTalkRound(meta.agents ?? [], body.round);
+    if (!planned.ok) {
+      sendJson(res, 400, { error: planned.error });
+      return;
+    }
+    await runTalkRound(ctx, body, meta, planned.plan, persistUserMessage, budgetModel);
+    return;
+  }
+
+  // Resolve model (budget downgrade → request override → talk default)
+  const model = budgetModel ?? requestedModel;
   const talkExecutionMode = resolveExecutionMode(meta);
   // Only update the talk's default model for non-agent messages.
   // Agent messages use their own model without changing the talk default.
-  if (body.model && body.model !== meta.model && !body.agentName) {
+  // Regenerating with another model leaves the default alone.
+  if (body.model && body.model !== meta.model && !body.agentName && !replay) {
     store.updateTalk(talkId, { model: body.model });
   }
 
@@ -611,10 +796,14 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   const likelyActionRequest = isLikelyActionRequest(body.message);
   const mentionRelayPrompt = isMentionRelayPrompt(body.message);
   const explicitToolApproval = hasExplicitToolApproval(body.message);
+  // In confirm mode an explicit "use tools" approves the whole turn;
+  // otherwise each tool call pauses for a decision via /tool-approvals.
+  const confirmEachToolCall = talkToolMode === 'confirm' && !explicitToolApproval;
   const enableToolsForTurn = !isModelQuestion
     && talkToolMode !== 'off'
     && (
-      (talkToolMode === 'auto' && (likelyActionRequest || mentionRelayPrompt))
+      likelyActionRequest
+      || mentionRelayPrompt
       || (talkToolMode === 'confirm' && explicitToolApproval)
     );
   const catalog = getToolCatalog(dataDir, logger);
@@ -636,9 +825,19 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   const googleAuthStatus = needsGoogleOAuth
     ? await googleDocsAuthStatusForProfile(meta.googleAuthProfile)
     : undefined;
+  const needsGithubToken = prePolicyToolInfos.some((tool) =>
+    catalog.getToolRequiredAuth(tool.name).includes('github_token'),
+  );
+  const githubStatus = needsGithubToken ? await githubAuthStatus(undefined) : undefined;
+  const needsNotionToken = prePolicyToolInfos.some((tool) =>
+    catalog.getToolRequiredAuth(tool.name).includes('notion_token'),
+  );
+  const notionStatus = needsNotionToken ? await notionAuthStatus(undefined) : undefined;
   const isAuthReady = buildTalkAuthReadyResolver({
     googleOAuthReady: Boolean(googleAuthStatus?.accessTokenReady ?? true),
     googleAuthProfile: meta.googleAuthProfile,
+    githubTokenReady: githubStatus?.hasToken ?? true,
+    notionTokenReady: notionStatus?.hasToken ?? true,
     getToolRequiredAuth: (toolName) => catalog.getToolRequiredAuth(toolName),
   });
   const policyStatesWithAuth = evaluateToolAvailability(prePolicyToolInfos, meta, {
@@ -656,19 +855,22 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   const hasPolicyBlockedTools = likelyActionRequest
     && policyFilteredToolInfos.length === 0
     && prePolicyToolInfos.length > 0;
-  const hasGoogleDriveTool = availableToolInfos.some(
+  // Deterministic fast paths below run tools directly, so they are skipped
+  // when each tool call needs approval.
+  const fastPathToolInfos = confirmEachToolCall ? [] : availableToolInfos;
+  const hasGoogleDriveTool = fastPathToolInfos.some(
     (tool) => tool.name.trim().toLowerCase() === 'google_drive_files',
   );
-  const hasGoogleDocsReadTool = availableToolInfos.some(
+  const hasGoogleDocsReadTool = fastPathToolInfos.some(
     (tool) => tool.name.trim().toLowerCase() === 'google_docs_read',
   );
-  const hasGoogleDocsCreateTool = availableToolInfos.some(
+  const hasGoogleDocsCreateTool = fastPathToolInfos.some(
     (tool) => tool.name.trim().toLowerCase() === 'google_docs_create',
   );
-  const hasGoogleDocsAddTabTool = availableToolInfos.some(
+  const hasGoogleDocsAddTabTool = fastPathToolInfos.some(
     (tool) => tool.name.trim().toLowerCase() === 'google_docs_add_tab',
   );
-  const hasPdfExtractTool = availableToolInfos.some(
+  const hasPdfExtractTool = fastPathToolInfos.some(
     (tool) => tool.name.trim().toLowerCase() === 'pdf_extract_text',
   );
 
@@ -676,7 +878,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   // bypass model/tool-chaining for common "recent drive files" requests.
   if (!isModelQuestion && isGoogleDriveIntent(body.message) && hasGoogleDriveTool) {
     const driveLimit = extractDriveListLimit(body.message);
-    const userMessageId = randomUUID();
+    const userMessageId = newUserMessageId();
     const driveResult = await executor.execute('google_drive_files', JSON.stringify({
       action: 'list',
       page_size: driveLimit,
@@ -696,7 +898,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       choices: [{ delta: { content: directReply } }],
       model,
     })}\n\n`);
-    await store.appendMessage(talkId, {
+    await persistUserMessage({
       id: userMessageId,
       role: 'user',
       content: body.message,
@@ -739,7 +941,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       ? buildTabClarificationPrompt(body.message, createIntent.tabTitles)
       : undefined;
     if (clarification) {
-      const userMessageId = randomUUID();
+      const userMessageId = newUserMessageId();
       res.statusCode = 200;
       res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
       res.setHeader('Cache-Control', 'no-cache');
@@ -750,7 +952,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
         choices: [{ delta: { content: clarification } }],
         model,
       })}\n\n`);
-      await store.appendMessage(talkId, {
+      await persistUserMessage({
         id: userMessageId,
         role: 'user',
         content: body.message,
@@ -773,7 +975,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       }
       return;
     }
-    const userMessageId = randomUUID();
+    const userMessageId = newUserMessageId();
     const createResult = await executor.execute('google_docs_create', JSON.stringify({
       title: createIntent.title,
       ...(meta.googleAuthProfile ? { profile: meta.googleAuthProfile } : {}),
@@ -827,7 +1029,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       choices: [{ delta: { content: directReply } }],
       model,
     })}\n\n`);
-    await store.appendMessage(talkId, {
+    await persistUserMessage({
       id: userMessageId,
       role: 'user',
       content: body.message,
@@ -868,7 +1070,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   if (!isModelQuestion && !createIntent && tabOnlyIntent && hasGoogleDocsAddTabTool) {
     const clarification = buildTabClarificationPrompt(body.message, tabOnlyIntent.tabTitles);
     if (clarification) {
-      const userMessageId = randomUUID();
+      const userMessageId = newUserMessageId();
       res.statusCode = 200;
       res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
       res.setHeader('Cache-Control', 'no-cache');
@@ -879,7 +1081,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
         choices: [{ delta: { content: clarification } }],
         model,
       })}\n\n`);
-      await store.appendMessage(talkId, {
+      await persistUserMessage({
         id: userMessageId,
         role: 'user',
         content: body.message,
@@ -902,7 +1104,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       }
       return;
     }
-    const userMessageId = randomUUID();
+    const userMessageId = newUserMessageId();
     let targetDocId = extractGoogleDocsDocumentIdFromUrl(body.message);
     if (!targetDocId) {
       const recent = await store.getRecentMessages(talkId, 24);
@@ -940,7 +1142,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       choices: [{ delta: { content: directReply } }],
       model,
     })}\n\n`);
-    await store.appendMessage(talkId, {
+    await persistUserMessage({
       id: userMessageId,
       role: 'user',
       content: body.message,
@@ -980,7 +1182,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   const hasTabKeyword = /\btab(s)?\b/i.test(stripUrlsForIntentMatching(normalizeIntentText(body.message)));
   const googleDocId = extractGoogleDocsDocumentIdFromUrl(body.message);
   if (!isModelQuestion && googleDocId && hasTabKeyword && !createIntent && !tabOnlyIntent) {
-    const userMessageId = randomUUID();
+    const userMessageId = newUserMessageId();
     const clarification = 'I found a Google Doc URL, but I could not clearly parse the tab names. Please provide tab names explicitly, for example: "add tabs called alpha and beta to this doc".';
     res.statusCode = 200;
     res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
@@ -992,7 +1194,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       choices: [{ delta: { content: clarification } }],
       model,
     })}\n\n`);
-    await store.appendMessage(talkId, {
+    await persistUserMessage({
       id: userMessageId,
       role: 'user',
       content: body.message,
@@ -1022,7 +1224,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   const textBeyondUrl = stripUrlsForIntentMatching(body.message).replace(/\s+/g, ' ').trim();
   const isUrlOnlyMessage = textBeyondUrl.split(/\s+/).length <= 4;
   if (!isModelQuestion && googleDocId && hasGoogleDocsReadTool && isUrlOnlyMessage) {
-    const userMessageId = randomUUID();
+    const userMessageId = newUserMessageId();
     const urlTabId = extractGoogleDocsTabIdFromUrl(body.message);
     const docsResult = await executor.execute('google_docs_read', JSON.stringify({
       doc_id: googleDocId,
@@ -1043,7 +1245,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       choices: [{ delta: { content: directReply } }],
       model,
     })}\n\n`);
-    await store.appendMessage(talkId, {
+    await persistUserMessage({
       id: userMessageId,
       role: 'user',
       content: body.message,
@@ -1082,7 +1284,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   // bypass model/tool-chaining when user points at a PDF path.
   const pdfPath = extractPdfPathFromMessage(body.message);
   if (!isModelQuestion && pdfPath && hasPdfExtractTool) {
-    const userMessageId = randomUUID();
+    const userMessageId = newUserMessageId();
     const pdfResult = await executor.execute('pdf_extract_text', JSON.stringify({
       path: pdfPath,
     }));
@@ -1100,7 +1302,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       choices: [{ delta: { content: directReply } }],
       model,
     })}\n\n`);
-    await store.appendMessage(talkId, {
+    await persistUserMessage({
       id: userMessageId,
       role: 'user',
       content: body.message,
@@ -1137,11 +1339,13 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
 
   // Load context, knowledge, and pinned messages
   const contextMd = await store.getContextMd(talkId);
-  const knowledgeIndex = await store.getKnowledgeIndex(talkId);
-  const matchedSlugs = matchKnowledgeTopics(body.message, knowledgeIndex);
-  const knowledgeTopics = matchedSlugs.length > 0
-    ? await store.listKnowledgeTopicContents(talkId, matchedSlugs)
-    : [];
+  const knowledgeTopics = await getKnowledgeRetriever().retrieveTopics({
+    store,
+    talkId,
+    query: body.message,
+    logger,
+    recentMessageCount: MAX_CONTEXT_MESSAGES,
+  });
   const pinnedMessages: TalkMessage[] = [];
   for (const pinId of meta.pinnedMessageIds) {
     const msg = await store.getMessage(talkId, pinId);
@@ -1168,7 +1372,8 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   });
 
   // Load recent history and adapt the included window to fit context budget.
-  const recentHistory = await store.getRecentMessages(talkId, MAX_CONTEXT_MESSAGES);
+  const recentHistory = (await store.getRecentMessages(talkId, MAX_CONTEXT_MESSAGES))
+    .filter((msg) => msg.id !== replay?.id);
   const systemPromptBytes = Buffer.byteLength(systemPrompt ?? '', 'utf-8');
   const userTurnBytes = Buffer.byteLength(body.message, 'utf-8');
   const historyBudgetBytes = Math.max(
@@ -1182,34 +1387,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   if (systemPrompt) {
     messages.push({ role: 'system', content: systemPrompt });
   }
-  for (const m of history) {
-    if (m.role === 'tool') {
-      // Tool result messages need tool_call_id and name
-      messages.push({
-        role: 'tool',
-        content: m.content,
-        tool_call_id: m.tool_call_id,
-        name: m.tool_name,
-      });
-    } else if (m.role === 'assistant' && m.tool_calls && m.tool_calls.length > 0) {
-      // Assistant messages with tool calls
-      let content = m.content;
-      if (m.agentName) {
-        content = `[${m.agentName}]: ${content}`;
-      }
-      messages.push({
-        role: 'assistant',
-        content: content || null,
-        tool_calls: m.tool_calls,
-      });
-    } else {
-      let content = m.content;
-      if (m.agentName && m.role === 'assistant') {
-        content = `[${m.agentName}]: ${content}`;
-      }
-      messages.push({ role: m.role, content });
-    }
-  }
+  messages.push(...toLlmHistoryMessages(history));
 
   // Build user message content (multimodal when image attached)
   if (body.imageBase64 && body.imageMimeType) {
@@ -1239,7 +1417,7 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
 
   // Persist user message (metadata only, no base64)
   // Skip persistence on recovery retries to avoid duplicate user messages.
-  const userMsg: TalkMessage = {
+  const userMsg: TalkMessage = replay ?? {
     id: randomUUID(),
     role: 'user',
     content: body.message,
@@ -1249,8 +1427,10 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
     ...(attachmentMeta && { attachment: attachmentMeta }),
   };
   if (!body.recovery) {
-    await store.appendMessage(talkId, userMsg);
+    await persistUserMessage(userMsg);
   }
+  // A new turn supersedes any chat turn still waiting on a tool approval.
+  store.expirePendingToolCalls(talkId, { source: 'chat' });
 
   // Disable server-level timeouts for this long-lived SSE connection.
   // Node.js 18+ defaults requestTimeout to 5 minutes, which is too short
@@ -1336,11 +1516,9 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       ? 'model-meta'
       : talkToolMode === 'off'
         ? 'tool-mode-off'
-        : talkToolMode === 'confirm' && !explicitToolApproval
-          ? 'tool-confirm-awaiting-approval'
-          : mentionRelayPrompt
-            ? 'mention-relay'
-            : 'non-action-turn';
+        : mentionRelayPrompt
+          ? 'mention-relay'
+          : 'non-action-turn';
     logger.info(`TalkChat: tool bypass (${reason}) talkId=${talkId}`);
   }
   if (hasPolicyBlockedTools) {
@@ -1469,6 +1647,8 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
     return;
   }
 
+  if (budgetModel && budgetStatus) emitBudgetDowngrade(res, requestedModel, budgetModel, budgetStatus);
+
   // --- Direct provider routing for lower latency ---
   let directRoute: DirectProviderRoute | undefined;
   if (model.includes('/') && ctx.getConfig) {
@@ -1538,11 +1718,40 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
       retryTtftMultiplier: 1.5,
       talkId,
       directRoute,
+      fallbacks: resolveTalkModelFallbacks(meta, body.agentName, model, ctx.getConfig, logger),
+      usage: { ledger: getUsageLedger(dataDir, logger), agentName: body.agentName },
+      requiresApproval: confirmEachToolCall ? () => true : undefined,
+      onApprovalRequired: (pause) => store.addPendingToolCall(talkId, {
+        source: 'chat',
+        toolCallId: pause.remainingToolCalls[0].id,
+        toolName: pause.remainingToolCalls[0].function.name,
+        arguments: pause.remainingToolCalls[0].function.arguments,
+        resume: {
+          ...pause,
+          model,
+          toolNames: tools.map((tool) => tool.function.name),
+          defaultGoogleAuthProfile: meta.googleAuthProfile,
+          ...(directRoute ? {} : { extraHeaders }),
+          agentName: body.agentName,
+          agentRole: body.agentRole as AgentRole | undefined,
+          prompt: body.message,
+        },
+      })?.id,
     });
 
     fullContent = result.fullContent;
-    responseModel = result.responseModel;
+    responseModel = result.responseModel || result.answeredModel;
     toolCallMessages = result.toolCallMessages;
+    if (result.pendingApproval) {
+      // Text streamed so far is kept with the pending approval and
+      // persisted once the turn resumes.
+      fullContent = '';
+      emitStatusEvent(res, {
+        code: 'TOOL_APPROVAL_REQUIRED',
+        message: `Waiting for approval to run ${result.pendingApproval.remainingToolCalls[0].function.name}.`,
+        level: 'info',
+      });
+    }
 
     // Fire-and-forget: record tool affinity observation
     if (affinityIntent && !isAffinityDisabled()) {
@@ -1588,31 +1797,11 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
   // Persist assistant message and any tool messages
   if (fullContent.trim() || toolCallMessages.length > 0) {
     // Persist intermediate tool call / tool result messages
-    for (const msg of toolCallMessages) {
-      if (msg.role === 'assistant' && msg.tool_calls) {
-        const toolAssistantMsg: TalkMessage = {
-          id: randomUUID(),
-          role: 'assistant',
-          content: msg.content || '',
-          timestamp: Date.now(),
-          model: responseModel || model,
-          tool_calls: msg.tool_calls,
-          ...(body.agentName && { agentName: body.agentName }),
-          ...(body.agentRole && { agentRole: body.agentRole as any }),
-        };
-        await store.appendMessage(talkId, toolAssistantMsg);
-      } else if (msg.role === 'tool') {
-        const toolResultMsg: TalkMessage = {
-          id: randomUUID(),
-          role: 'tool',
-          content: msg.content,
-          timestamp: Date.now(),
-          tool_call_id: msg.tool_call_id,
-          tool_name: msg.name,
-        };
-        await store.appendMessage(talkId, toolResultMsg);
-      }
-    }
+    await persistToolCallMessages(store, talkId, toolCallMessages, {
+      model: responseModel || model,
+      agentName: body.agentName,
+      agentRole: body.agentRole as AgentRole | undefined,
+    });
 
     // Persist the final assistant text response
     if (fullContent.trim()) {
@@ -1710,3 +1899,595 @@ export async function handleTalkChat(ctx: TalkChatContext): Promise<void> {
     }
   }
 }
+
+/**
+ * Label one SSE frame of a parallel round agent: JSON `data` gets the
+ * segment's `roundId` and `index`. Comments (keepalives) and other frames
+ * pass through unchanged.
+ */
+export function labelRoundSegmentFrame(frame: string, label: { roundId: string; index: number }): string {
+  const match = frame.match(/^((?:event: [^\n]*\n)?)data: (\{[\s\S]*\})\n\n$/);
+  if (!match) return frame;
+  try {
+    return `${match[1]}data: ${JSON.stringify({ ...JSON.parse(match[2]), ...label })}\n\n`;
+  } catch {
+    return frame;
+  }
+}
+
+/** A view of `res` that labels every frame written through it (see labelRoundSegmentFrame). */
+function labelledSegmentResponse(res: ServerResponse, label: { roundId: string; index: number }): ServerResponse {
+  return {
+    write: (frame: string) => res.write(labelRoundSegmentFrame(frame, label)),
+    get writableEnded() {
+      return res.writableEnded;
+    },
+  } as unknown as ServerResponse;
+}
+
+/**
+ * Run a multi-agent round for one user message. Each agent's reply is its
+ * own SSE segment between `agent_start` and `agent_end` events, persisted
+ * with a shared `roundId`. Sequential rounds stream each reply and show later
+ * agents the earlier ones; parallel rounds open every segment, then stream
+ * all agents at once with each frame labelled by its segment. Rounds do not
+ * offer tools.
+ */
+async function runTalkRound(
+  ctx: TalkChatContext,
+  body: TalkChatRequestBody,
+  meta: TalkMeta,
+  plan: TalkRoundPlan,
+  persistUserMessage: (msg: TalkMessage) => Promise<void>,
+  /** Downgrade model every agent uses while the talk is over budget. */
+  budgetModel?: string,
+): Promise<void> {
+  const { req, res, talkId, store, gatewayOrigin, authToken, logger, registry, executor } = ctx;
+  const roundId = randomUUID();
+  const allAgents = meta.agents ?? [];
+  const roundAgents = plan.synthesizer && !plan.participants.includes(plan.synthesizer)
+    ? [...plan.participants, plan.synthesizer]
+    : plan.participants;
+
+  const contextMd = await store.getContextMd(talkId);
+  const knowledgeTopics = await getKnowledgeRetriever().retrieveTopics({
+    store,
+    talkId,
+    query: body.message,
+    logger,
+    recentMessageCount: MAX_CONTEXT_MESSAGES,
+  });
+  const pinnedMessages: TalkMessage[] = [];
+  for (const pinId of meta.pinnedMessageIds) {
+    const msg = await store.getMessage(talkId, pinId);
+    if (msg) pinnedMessages.push(msg);
+  }
+  const systemPrompts = new Map<TalkAgent, string | undefined>();
+  for (const agent of roundAgents) {
+    systemPrompts.set(agent, composeSystemPrompt({
+      meta,
+      contextMd,
+      pinnedMessages,
+      knowledgeTopics,
+      activeModel: agent.model,
+      agentOverride: {
+        name: agent.name,
+        role: agent.role,
+        roleInstructions: resolveRoundRoleInstructions(plan, agent),
+        otherAgents: allAgents
+          .filter((other) => other !== agent)
+          .map(({ name, role, model }) => ({ name, role, model })),
+      },
+    }));
+  }
+
+  const largestPromptBytes = Math.max(
+    ...[...systemPrompts.values()].map((prompt) => Buffer.byteLength(prompt ?? '', 'utf-8')),
+  );
+  const recentHistory = (await store.getRecentMessages(talkId, MAX_CONTEXT_MESSAGES))
+    .filter((msg) => msg.id !== ctx.replayUserMessage?.id);
+  const historyBudgetBytes = Math.max(
+    MIN_HISTORY_BUDGET_BYTES,
+    MAX_CONTEXT_BUDGET_BYTES - largestPromptBytes - Buffer.byteLength(body.message, 'utf-8') - RESERVED_OVERHEAD_BYTES,
+  );
+  const historyMessages = toLlmHistoryMessages(selectHistoryWithinBudget(recentHistory, historyBudgetBytes));
+
+  const userMsg: TalkMessage = ctx.replayUserMessage ?? {
+    id: randomUUID(),
+    role: 'user',
+    content: body.message,
+    timestamp: Date.now(),
+  };
+  if (!body.recovery) {
+    await persistUserMessage(userMsg);
+  }
+  store.expirePendingToolCalls(talkId, { source: 'chat' });
+
+  req.setTimeout(0);
+  res.setTimeout(0);
+  if (req.socket) req.socket.setTimeout(0);
+  const clientAbort = new AbortController();
+  req.on('close', () => {
+    if (!res.writableEnded) {
+      logger.info(`TalkChat: client disconnected during round for talk ${talkId}`);
+      clientAbort.abort();
+    }
+  });
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  const describeAgent = (agent: TalkAgent) => ({ name: agent.name, role: agent.role, model: agent.model });
+  res.write(`event: meta\ndata: ${JSON.stringify({
+    userMessageId: userMsg.id,
+    round: {
+      id: roundId,
+      mode: plan.mode,
+      agents: plan.participants.map(describeAgent),
+      synthesizer: plan.synthesizer ? describeAgent(plan.synthesizer) : null,
+    },
+  })}\n\n`);
+
+  const runAgent = async (agent: TalkAgent, prompt: string, out: ServerResponse): Promise<{ content: string; model: string }> => {
+    const model = budgetModel || agent.model || meta.model || 'openclaw';
+    const systemPrompt = systemPrompts.get(agent);
+    const messages: Array<any> = [
+      ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+      ...historyMessages,
+      { role: 'user', content: prompt },
+    ];
+    const traceId = randomUUID();
+    const routing = resolveTalkAgentRouting(meta, agent.name);
+    const extraHeaders: Record<string, string> = {
+      'x-openclaw-trace-id': traceId,
+      'x-openclaw-session-key': buildTalkSessionKey(
+        talkId,
+        buildRunScopedSessionPart(routing.sessionAgentPart, model, traceId),
+      ),
+    };
+    let directRoute: DirectProviderRoute | undefined;
+    if (model.includes('/') && ctx.getConfig) {
+      const routeResult = resolveDirectRoute(model, ctx.getConfig(), logger);
+      if (routeResult.ok) directRoute = routeResult.data;
+    }
+    const loopOptions = {
+      messages,
+      model,
+      tools: [],
+      gatewayOrigin,
+      authToken,
+      extraHeaders: directRoute ? undefined : extraHeaders,
+      executor,
+      logger,
+      toolChoice: 'none' as const,
+      defaultGoogleAuthProfile: meta.googleAuthProfile,
+      talkId,
+      directRoute,
+      fallbacks: resolveTalkModelFallbacks(meta, agent.name, model, ctx.getConfig, logger),
+      usage: { ledger: getUsageLedger(ctx.dataDir, logger), agentName: agent.name },
+    };
+    logger.info(`TalkChat: round ${roundId} agent=${agent.name} model=${model} mode=${plan.mode} talkId=${talkId}`);
+    const result = await runToolLoop({
+      ...loopOptions,
+      res: out,
+      registry,
+      clientSignal: clientAbort.signal,
+      traceId,
+      firstTokenTimeoutMs: resolveTalkFirstTokenTimeoutMs(),
+      timeoutMs: resolveTalkInactivityTimeoutMs(),
+      maxTotalMs: resolveTalkTotalTimeoutMs(),
+      maxIterations: 2,
+      transport: 'chat_completions',
+      onStatus: (status) => emitStatusEvent(out, status),
+    });
+    return { content: result.fullContent, model: result.responseModel || result.answeredModel || model };
+  };
+
+  const replies: TalkRoundReply[] = [];
+  let synthesis: string | undefined;
+  const writeEvent = (event: string, data: unknown) => {
+    if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const startSegment = (agent: TalkAgent, index: number, isSynthesis: boolean) => {
+    writeEvent('agent_start', { roundId, index, agentName: agent.name, role: agent.role, model: agent.model, synthesis: isSynthesis });
+  };
+  /** Close a segment, then persist the reply. */
+  const finishSegment = async (
+    agent: TalkAgent,
+    index: number,
+    isSynthesis: boolean,
+    outcome: { content: string; model: string } | { error: TalkErrorPayload },
+  ) => {
+    const reply: TalkMessage | undefined = 'content' in outcome && outcome.content.trim()
+      ? {
+        id: randomUUID(),
+        role: 'assistant',
+        content: outcome.content,
+        timestamp: Date.now(),
+        model: outcome.model,
+        agentName: agent.name,
+        agentRole: agent.role,
+        roundId,
+      }
+      : undefined;
+    writeEvent('agent_end', {
+      roundId,
+      index,
+      agentName: agent.name,
+      synthesis: isSynthesis,
+      ...(reply && { messageId: reply.id }),
+      ...('error' in outcome && { error: outcome.error }),
+    });
+    if (!reply) return;
+    if (isSynthesis) {
+      synthesis = reply.content;
+    } else {
+      replies.push({ agentName: agent.name, role: agent.role, content: reply.content });
+    }
+    await store.appendMessage(talkId, reply);
+  };
+  const attempt = async (agent: TalkAgent, prompt: string, out: ServerResponse = res) => {
+    try {
+      return await runAgent(agent, prompt, out);
+    } catch (err) {
+      const payload = classifyTalkError(err, clientAbort.signal);
+      logger.warn(`TalkChat: round ${roundId} agent=${agent.name} failed: ${payload.message}`);
+      return { error: payload };
+    }
+  };
+
+  store.setProcessing(talkId, true);
+  try {
+    if (plan.mode === 'parallel') {
+      plan.participants.forEach((agent, index) => startSegment(agent, index, false));
+      await Promise.all(plan.participants.map(async (agent, index) => {
+        const outcome = await attempt(agent, body.message, labelledSegmentResponse(res, { roundId, index }));
+        await finishSegment(agent, index, false, outcome);
+      }));
+    } else {
+      for (const [index, agent] of plan.participants.entries()) {
+        if (clientAbort.signal.aborted) break;
+        startSegment(agent, index, false);
+        await finishSegment(agent, index, false, await attempt(agent, buildRoundAgentPrompt(body.message, replies)));
+      }
+    }
+
+    if (plan.synthesizer && replies.length > 0 && !clientAbort.signal.aborted) {
+      const index = plan.participants.length;
+      startSegment(plan.synthesizer, index, true);
+      const outcome = await attempt(plan.synthesizer, buildRoundSynthesisPrompt(body.message, replies));
+      await finishSegment(plan.synthesizer, index, true, outcome);
+    }
+  } finally {
+    store.setProcessing(talkId, false);
+    if (!res.writableEnded) {
+      res.write('data: [DONE]\n\n');
+      res.end();
+    }
+  }
+
+  if (replies.length > 0) {
+    scheduleContextUpdate({
+      talkId,
+      userMessage: body.message,
+      assistantResponse: synthesis
+        ?? replies.map((reply) => `[${reply.agentName}]: ${reply.content}`).join('\n\n'),
+      model: (plan.synthesizer ?? plan.participants[0]).model || meta.model || 'openclaw',
+      gatewayOrigin,
+      authToken,
+      store,
+      logger,
+      getConfig: ctx.getConfig,
+    });
+  }
+}
+
+export interface TalkToolApprovalContext extends TalkChatContext {
+  callId: string;
+  /** Resumes a job run paused for approval in the background. */
+  resumeJob: (call: PendingToolCall) => Promise<unknown>;
+}
+
+/**
+ * POST /api/talks/:id/tool-approvals/:callId
+ *
+ * Body: { decision: "approve" | "deny", arguments?: object }. Supplying
+ * `arguments` with "approve" runs the call with the edited arguments.
+ * Chat turns resume on this request and stream the rest of the turn as SSE;
+ * job runs resume in the background and the request answers 202.
+ */
+export async function handleTalkToolApproval(ctx: TalkToolApprovalContext): Promise<void> {
+  const { req, res, talkId, callId, store, gatewayOrigin, authToken, logger, registry, executor } = ctx;
+
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  let body: { decision?: unknown; arguments?: unknown };
+  try {
+    body = (await readJsonBody(req)) as typeof body;
+  } catch {
+    sendJson(res, 400, { error: 'Invalid JSON body' });
+    return;
+  }
+
+  const decision = typeof body.decision === 'string' ? body.decision.trim().toLowerCase() : '';
+  if (decision !== 'approve' && decision !== 'deny') {
+    sendJson(res, 400, { error: 'decision must be one of: approve, deny' });
+    return;
+  }
+  let editedArguments: string | undefined;
+  if (body.arguments !== undefined) {
+    if (decision !== 'approve') {
+      sendJson(res, 400, { error: 'arguments can only be supplied with decision "approve"' });
+      return;
+    }
+    let parsed: unknown;
+    try {
+      parsed = typeof body.arguments === 'string' ? JSON.parse(body.arguments) : body.arguments;
+    } catch {
+      parsed = undefined;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      sendJson(res, 400, { error: 'arguments must be a JSON object' });
+      return;
+    }
+    editedArguments = JSON.stringify(parsed);
+  }
+
+  const meta = store.getTalk(talkId);
+  if (!meta) {
+    sendJson(res, 404, { error: 'Talk not found' });
+    return;
+  }
+  const existing = store.getPendingToolCall(talkId, callId);
+  if (!existing) {
+    sendJson(res, 404, { error: 'Tool approval not found' });
+    return;
+  }
+  // Resuming a chat turn is a turn like any other: it waits for a running
+  // turn and is held to the talk budget. Both are checked before the
+  // decision is recorded so a refused request leaves the approval pending.
+  let budget: ReturnType<typeof checkTurnBudget> = {};
+  if (existing.source === 'chat' && existing.status === 'pending') {
+    if (meta.processing) {
+      sendJson(res, 409, { error: 'Talk is already generating a response' });
+      return;
+    }
+    budget = checkTurnBudget(ctx, meta, existing.resume.model);
+    if (!budget) return;
+  }
+  const call = store.resolvePendingToolCall(
+    talkId,
+    callId,
+    { status: decision === 'approve' ? 'approved' : 'denied', editedArguments },
+    { modifiedBy: firstHeaderValue(req.headers['x-clawtalk-client-id'])?.trim() || undefined },
+  );
+  if (!call) {
+    const current = store.getPendingToolCall(talkId, callId) ?? existing;
+    sendJson(res, 409, {
+      error: `Tool approval is already ${current.status}`,
+      approval: summarizePendingToolCall(current),
+    });
+    return;
+  }
+  logger.info(`TalkChat: tool approval ${call.id} ${call.status} (${call.toolName}) talkId=${talkId} source=${call.source}`);
+
+  if (call.source === 'job') {
+    ctx.resumeJob(call).catch((err) => {
+      logger.warn(`TalkChat: job resume after approval ${call.id} failed: ${err}`);
+    });
+    sendJson(res, 202, { approval: summarizePendingToolCall(call) });
+    return;
+  }
+
+  const { resume } = call;
+  const model = budget.budgetModel ?? resume.model;
+  const toolDecision: ToolCallDecision = { approved: call.status === 'approved', arguments: call.editedArguments };
+  const resumeToolNames = new Set(resume.toolNames.map((name) => name.toLowerCase()));
+  const tools = registry.getToolSchemas().filter((tool) => resumeToolNames.has(tool.function.name.toLowerCase()));
+  let directRoute: DirectProviderRoute | undefined;
+  if (model.includes('/') && ctx.getConfig) {
+    const routeResult = resolveDirectRoute(model, ctx.getConfig(), logger);
+    if (routeResult.ok) directRoute = routeResult.data;
+  }
+
+  req.setTimeout(0);
+  res.setTimeout(0);
+  if (req.socket) req.socket.setTimeout(0);
+  const clientAbort = new AbortController();
+  req.on('close', () => {
+    if (!res.writableEnded) clientAbort.abort();
+  });
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.write(`event: meta\ndata: ${JSON.stringify({ approvalId: call.id, decision: call.status })}\n\n`);
+  if (budget.budgetModel && budget.budgetStatus) {
+    emitBudgetDowngrade(res, resume.model, budget.budgetModel, budget.budgetStatus);
+  }
+
+  const priorContent = resume.partialContent ?? '';
+  let fullContent = '';
+  let responseModel: string | undefined;
+  let toolCallMessages: ToolLoopStreamResult['toolCallMessages'] = [];
+  store.setProcessing(talkId, true);
+  try {
+    const result = await runToolLoop({
+      messages: resume.messages as ToolLoopStreamOptions['messages'],
+      model,
+      tools,
+      gatewayOrigin,
+      authToken,
+      extraHeaders: directRoute ? undefined : resume.extraHeaders,
+      res,
+      registry,
+      executor,
+      logger,
+      clientSignal: clientAbort.signal,
+      firstTokenTimeoutMs: resolveTalkFirstTokenTimeoutMs(),
+      timeoutMs: resolveTalkInactivityTimeoutMs(),
+      maxTotalMs: resolveTalkTotalTimeoutMs(),
+      toolChoice: tools.length > 0 ? 'auto' : 'none',
+      defaultGoogleAuthProfile: resume.defaultGoogleAuthProfile,
+      transport: 'chat_completions',
+      onStatus: (status) => emitStatusEvent(res, status),
+      talkId,
+      directRoute,
+      fallbacks: resolveTalkModelFallbacks(meta, resume.agentName, model, ctx.getConfig, logger),
+      usage: { ledger: getUsageLedger(ctx.dataDir, logger), agentName: resume.agentName },
+      requiresApproval: (meta.toolMode ?? 'auto') === 'confirm' ? () => true : undefined,
+      resumeToolCalls: resume.remainingToolCalls,
+      toolCallDecisions: { [call.toolCallId]: toolDecision },
+      onApprovalRequired: (pause) => store.addPendingToolCall(talkId, {
+        source: 'chat',
+        toolCallId: pause.remainingToolCalls[0].id,
+        toolName: pause.remainingToolCalls[0].function.name,
+        arguments: pause.remainingToolCalls[0].function.arguments,
+        resume: { ...resume, ...pause, partialContent: priorContent + pause.partialContent },
+      })?.id,
+    });
+    responseModel = result.responseModel || result.answeredModel;
+    toolCallMessages = result.toolCallMessages;
+    fullContent = result.pendingApproval ? '' : priorContent + result.fullContent;
+  } catch (err) {
+    const payload = classifyTalkError(err, clientAbort.signal);
+    logger.error(`TalkChat: tool loop error after approval ${call.id}: ${payload.message}`);
+    if (!clientAbort.signal.aborted && !res.writableEnded) {
+      emitErrorEvent(res, payload);
+    }
+  } finally {
+    store.setProcessing(talkId, false);
+    if (!res.writableEnded) {
+      res.write('data: [DONE]\n\n');
+      res.end();
+    }
+  }
+
+  const attribution = {
+    model: responseModel || model,
+    agentName: resume.agentName,
+    agentRole: resume.agentRole,
+  };
+  await persistToolCallMessages(store, talkId, toolCallMessages, attribution);
+  if (fullContent.trim()) {
+    await store.appendMessage(talkId, {
+      id: randomUUID(),
+      role: 'assistant',
+      content: fullContent,
+      timestamp: Date.now(),
+      model: attribution.model,
+      ...(attribution.agentName && { agentName: attribution.agentName }),
+      ...(attribution.agentRole && { agentRole: attribution.agentRole }),
+    });
+    scheduleContextUpdate({
+      talkId,
+      userMessage: resume.prompt,
+      assistantResponse: fullContent,
+      model: attribution.model,
+      gatewayOrigin,
+      authToken,
+      store,
+      logger,
+      getConfig: ctx.getConfig,
+    });
+  }
+}
+
+export interface TalkRegenerateContext extends TalkChatContext {
+  messageId: string;
+}
+
+/**
+ * POST /api/talks/:id/messages/:messageId/regenerate
+ *
+ * Body (optional): { model?, agentName?, agentRole?, agentRoleInstructions?, otherAgents? }.
+ * `messageId` is a user message or any message in the reply to it. The
+ * current reply is kept as a sibling version (see TalkStore.startReplyVersion)
+ * and the turn is re-run as SSE, by default with the same agent.
+ */
+export async function handleTalkRegenerate(ctx: TalkRegenerateContext): Promise<void> {
+  const { req, res, talkId, messageId, store } = ctx;
+
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  let body: Omit<TalkChatRequestBody, 'message' | 'imageBase64' | 'imageMimeType' | 'recovery'>;
+  try {
+    const raw = (await readRawBody(req)).toString('utf-8').trim();
+    body = raw ? JSON.parse(raw) as typeof body : {};
+  } catch {
+    sendJson(res, 400, { error: 'Invalid JSON body' });
+    return;
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    sendJson(res, 400, { error: 'Body must be a JSON object' });
+    return;
+  }
+  for (const field of ['model', 'agentName', 'agentRole', 'agentRoleInstructions'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') {
+      sendJson(res, 400, { error: `${field} must be a string` });
+      return;
+    }
+  }
+
+  const meta = store.getTalk(talkId);
+  if (!meta) {
+    sendJson(res, 404, { error: 'Talk not found' });
+    return;
+  }
+  if (meta.processing) {
+    sendJson(res, 409, { error: 'Talk is already generating a response' });
+    return;
+  }
+  const target = await store.getMessage(talkId, messageId);
+  if (!target) {
+    sendJson(res, 404, { error: 'Message not found' });
+    return;
+  }
+
+  // Default to the agent that wrote the reply being replaced.
+  const agentName = body.agentName?.trim() || (target.role === 'assistant' ? target.agentName : undefined);
+  const agent = agentName
+    ? meta.agents?.find((candidate) => candidate.name.toLowerCase() === agentName.toLowerCase())
+    : undefined;
+  if (body.agentName?.trim() && !agent) {
+    sendJson(res, 400, { error: `Unknown agent "${body.agentName.trim()}"` });
+    return;
+  }
+  const model = body.model?.trim() || agent?.model || undefined;
+
+  const started = await store.startReplyVersion(talkId, messageId, {
+    model: model || meta.model,
+    agentName: agent?.name,
+  });
+  if (!started) {
+    sendJson(res, 400, { error: 'No user message precedes this message' });
+    return;
+  }
+
+  await handleTalkChat({
+    ...ctx,
+    body: {
+      message: started.anchor.content,
+      ...(model && { model }),
+      ...(agent && {
+        agentName: agent.name,
+        agentRole: body.agentRole || agent.role,
+        agentRoleInstructions: body.agentRoleInstructions,
+        otherAgents: body.otherAgents ?? (meta.agents ?? [])
+          .filter((other) => other.name !== agent.name)
+          .map(({ name, role, model: otherModel }) => ({ name, role, model: otherModel })),
+      }),
+    },
+    replayUserMessage: started.anchor,
+  });
+}
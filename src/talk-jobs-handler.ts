@@ -5,11 +5,13 @@
  * updating, and deleting scheduled jobs, plus job reports.
  */
 
-import type { HandlerContext, JobOutputDestination } from './types.js';
+import type { HandlerContext, JobOutputDestination, JobPriority, JobRunCap } from './types.js';
 import type { TalkStore } from './talk-store.js';
 import { sendJson, readJsonBody } from './http.js';
 import { validateSchedule, parseEventTrigger } from './job-scheduler.js';
 import { requireTalkPreconditionVersion, extractClientIdHeader } from './talks.js';
+import { parseJobRunCapInput } from './talk-budget.js';
+import { JOB_PRIORITIES, normalizeJobPriority } from './job-throttle.js';
 
 function normalizeJobOutputInput(raw: unknown): { ok: true; output: JobOutputDestination } | { ok: false; error: string } {
   if (raw === undefined || raw === null) {
@@ -56,7 +58,7 @@ export async function handleCreateJob(ctx: HandlerContext, store: TalkStore, tal
   if (!precondition.ok) return;
   const modifiedBy = extractClientIdHeader(ctx);
 
-  let body: { schedule?: string; prompt?: string; output?: unknown };
+  let body: { schedule?: string; prompt?: string; output?: unknown; runCap?: unknown; priority?: unknown };
   try {
     body = (await readJsonBody(ctx.req)) as typeof body;
   } catch {
@@ -73,6 +75,16 @@ export async function handleCreateJob(ctx: HandlerContext, store: TalkStore, tal
     sendJson(ctx.res, 400, { error: outputResult.error });
     return;
   }
+  const runCapResult = parseJobRunCapInput(body.runCap ?? null);
+  if (!runCapResult.ok) {
+    sendJson(ctx.res, 400, { error: runCapResult.error });
+    return;
+  }
+  const priority = normalizeJobPriority(body.priority);
+  if (body.priority !== undefined && !priority) {
+    sendJson(ctx.res, 400, { error: `priority must be one of: ${JOB_PRIORITIES.join(', ')}` });
+    return;
+  }
 
   const scheduleError = validateSchedule(body.schedule);
   if (scheduleError) {
@@ -120,7 +132,11 @@ export async function handleCreateJob(ctx: HandlerContext, store: TalkStore, tal
     jobType = 'event';
   }
 
-  const job = store.addJob(talkId, body.schedule, body.prompt, jobType, outputResult.output, { modifiedBy });
+  const job = store.addJob(talkId, body.schedule, body.prompt, jobType, outputResult.output, {
+    modifiedBy,
+    ...(runCapResult.runCap ? { runCap: runCapResult.runCap } : {}),
+    ...(priority ? { priority } : {}),
+  });
   if (!job) {
     sendJson(ctx.res, 500, { error: 'Failed to create job' });
     return;
@@ -149,7 +165,7 @@ export async function handleUpdateJob(ctx: HandlerContext, store: TalkStore, tal
   if (!precondition.ok) return;
   const modifiedBy = extractClientIdHeader(ctx);
 
-  let body: { active?: boolean; schedule?: string; prompt?: string; output?: unknown };
+  let body: { active?: boolean; schedule?: string; prompt?: string; output?: unknown; runCap?: unknown; priority?: unknown };
   try {
     body = (await readJsonBody(ctx.req)) as typeof body;
   } catch {
@@ -166,6 +182,24 @@ export async function handleUpdateJob(ctx: HandlerContext, store: TalkStore, tal
     }
     nextOutput = outputResult.output;
   }
+  let nextRunCap: JobRunCap | null | undefined;
+  if (body.runCap !== undefined) {
+    const runCapResult = parseJobRunCapInput(body.runCap);
+    if (!runCapResult.ok) {
+      sendJson(ctx.res, 400, { error: runCapResult.error });
+      return;
+    }
+    nextRunCap = runCapResult.runCap;
+  }
+  let nextPriority: JobPriority | undefined;
+  if (body.priority !== undefined) {
+    // null resets to the default priority.
+    nextPriority = body.priority === null ? 'normal' : normalizeJobPriority(body.priority);
+    if (!nextPriority) {
+      sendJson(ctx.res, 400, { error: `priority must be one of: ${JOB_PRIORITIES.join(', ')}` });
+      return;
+    }
+  }
 
   let nextType: 'once' | 'recurring' | 'event' | undefined;
   if (body.schedule) {
@@ -217,6 +251,8 @@ export async function handleUpdateJob(ctx: HandlerContext, store: TalkStore, tal
     ...(body.prompt !== undefined ? { prompt: body.prompt } : {}),
     ...(nextOutput ? { output: nextOutput } : {}),
     ...(nextType ? { type: nextType } : {}),
+    ...(nextRunCap !== undefined ? { runCap: nextRunCap } : {}),
+    ...(nextPriority ? { priority: nextPriority } : {}),
   }, { modifiedBy });
   if (!updated) {
     sendJson(ctx.res, 404, { error: 'Job not found' });
@@ -0,0 +1,118 @@
+/**
+ * Talk Message Edit HTTP Handlers
+ *
+ * Handles PATCH /api/talks/:id/messages/:messageId (edit a user message) and
+ * the reply versions left behind by regeneration:
+ * GET  /api/talks/:id/messages/:messageId/versions
+ * POST /api/talks/:id/messages/:messageId/versions/:versionId/select
+ *
+ * Regeneration itself streams a chat turn, so it is routed next to
+ * /chat in index.ts (see handleTalkRegenerate in talk-chat.ts).
+ */
+
+import type { HandlerContext, TalkReplyVersionSet } from './types.js';
+import type { TalkStore } from './talk-store.js';
+import { sendJson, readJsonBody } from './http.js';
+import { extractClientIdHeader } from './talks.js';
+
+const MAX_MESSAGE_CONTENT_CHARS = 100_000;
+
+function serializeVersionSet(set: TalkReplyVersionSet) {
+  return {
+    anchorMessageId: set.anchorMessageId,
+    activeVersionId: set.activeVersionId,
+    versions: set.versions.map((version) => ({
+      ...version,
+      active: version.id === set.activeVersionId,
+    })),
+  };
+}
+
+export async function handleEditMessage(
+  ctx: HandlerContext,
+  store: TalkStore,
+  talkId: string,
+  messageId: string,
+): Promise<void> {
+  const talk = store.getTalk(talkId);
+  if (!talk) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+
+  let body: { content?: unknown };
+  try {
+    body = (await readJsonBody(ctx.req)) as typeof body;
+  } catch {
+    sendJson(ctx.res, 400, { error: 'Invalid JSON body' });
+    return;
+  }
+  if (typeof body.content !== 'string' || !body.content.trim()) {
+    sendJson(ctx.res, 400, { error: 'content must be a non-empty string' });
+    return;
+  }
+  if (body.content.length > MAX_MESSAGE_CONTENT_CHARS) {
+    sendJson(ctx.res, 400, { error: `content must be at most ${MAX_MESSAGE_CONTENT_CHARS} characters` });
+    return;
+  }
+
+  const existing = await store.getMessage(talkId, messageId);
+  if (!existing) {
+    sendJson(ctx.res, 404, { error: 'Message not found' });
+    return;
+  }
+  if (existing.role !== 'user') {
+    sendJson(ctx.res, 400, { error: 'Only user messages can be edited; regenerate assistant replies instead' });
+    return;
+  }
+
+  const message = await store.editMessage(talkId, messageId, body.content, { modifiedBy: extractClientIdHeader(ctx) });
+  if (!message) {
+    sendJson(ctx.res, 404, { error: 'Message not found' });
+    return;
+  }
+  sendJson(ctx.res, 200, { message });
+}
+
+export async function handleListReplyVersions(
+  ctx: HandlerContext,
+  store: TalkStore,
+  talkId: string,
+  messageId: string,
+): Promise<void> {
+  const talk = store.getTalk(talkId);
+  if (!talk) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+  const [set] = await store.listReplyVersions(talkId, messageId);
+  if (!set) {
+    sendJson(ctx.res, 200, { anchorMessageId: messageId, activeVersionId: null, versions: [] });
+    return;
+  }
+  sendJson(ctx.res, 200, serializeVersionSet(set));
+}
+
+export async function handleSelectReplyVersion(
+  ctx: HandlerContext,
+  store: TalkStore,
+  talkId: string,
+  messageId: string,
+  versionId: string,
+): Promise<void> {
+  const talk = store.getTalk(talkId);
+  if (!talk) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+  if (talk.processing) {
+    sendJson(ctx.res, 409, { error: 'Talk is generating a response; try again when it finishes' });
+    return;
+  }
+  const set = await store.selectReplyVersion(talkId, messageId, versionId, { modifiedBy: extractClientIdHeader(ctx) });
+  if (!set) {
+    sendJson(ctx.res, 404, { error: 'Reply version not found' });
+    return;
+  }
+  sendJson(ctx.res, 200, serializeVersionSet(set));
+}
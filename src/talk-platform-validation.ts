@@ -23,6 +23,7 @@ import {
 import { SLACK_DEFAULT_ACCOUNT_ID, normalizeSlackAccountId } from './slack-auth.js';
 import { type SlackScopeResolutionResult, normalizeSlackBindingScope } from './slack-scope-resolver.js';
 import { randomUUID } from 'node:crypto';
+import { parseFallbackModelsInput } from './model-fallback.js';
 
 export type PlatformBindingsValidationResult =
   | { ok: true; bindings: TalkPlatformBinding[]; ownershipKeys: string[] }
@@ -199,6 +200,10 @@ export function normalizeAndValidateAgentsInput(input: unknown): AgentsValidatio
     const role = typeof row.role === 'string' ? row.role.trim().toLowerCase() : '';
     const isPrimary = row.isPrimary === true;
     const openClawAgentId = typeof row.openClawAgentId === 'string' ? row.openClawAgentId.trim() : '';
+    const fallbackModels = row.fallbackModels === undefined
+      ? undefined
+      : parseFallbackModelsInput(row.fallbackModels, `agents[${i + 1}].fallbackModels`);
+    if (fallbackModels && !fallbackModels.ok) return { ok: false, error: fallbackModels.error };
     if (!name) return { ok: false, error: `agents[${i + 1}].name is required` };
     if (!model) return { ok: false, error: `agents[${i + 1}].model is required` };
     if (!TALK_AGENT_ROLES.has(role)) {
@@ -214,6 +219,7 @@ export function normalizeAndValidateAgentsInput(input: unknown): AgentsValidatio
       role: role as TalkAgent['role'],
       isPrimary,
       ...(openClawAgentId ? { openClawAgentId } : {}),
+      ...(fallbackModels?.ok && fallbackModels.models.length > 0 ? { fallbackModels: fallbackModels.models } : {}),
     });
   }
   if (primaryCount > 1) {
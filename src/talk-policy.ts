@@ -1,5 +1,6 @@
 import type { TalkMeta } from './types.js';
 import type { ToolInfo } from './tool-registry.js';
+import { isShellSandboxAvailable } from './shell-sandbox.js';
 
 export type ExecutionMode = 'openclaw' | 'full_control';
 export type ExecutionModeLabel = 'openclaw_agent' | 'clawtalk_proxy';
@@ -28,6 +29,9 @@ const HOST_FILESYSTEM_TOOLS = new Set([
   'manage_tools',
 ]);
 
+/** Tools that run jailed (shell-sandbox.ts) instead of being blocked, when a sandbox runtime exists. */
+const SANDBOXED_TOOLS = new Set(['shell_exec']);
+
 const NETWORK_TOOLS = new Set([
   'shell_exec',
   'web_fetch_extract',
@@ -40,9 +44,40 @@ const NETWORK_TOOLS = new Set([
   'google_docs_update_tab',
   'google_docs_delete_tab',
   'google_drive_files',
+  'google_sheets_read_range',
+  'google_sheets_write_range',
+  'google_sheets_append_rows',
+  'google_sheets_create',
+  'google_calendar_list_events',
+  'google_calendar_create_event',
+  'google_calendar_update_event',
+  'google_calendar_delete_event',
+  'google_calendar_free_busy',
+  'gmail_search',
+  'gmail_read_thread',
+  'gmail_create_draft',
+  'gmail_send_draft',
+  'github_search_issues',
+  'github_get_issue',
+  'github_comment',
+  'github_read_file',
+  'github_list_workflow_runs',
+  'notion_search',
+  'notion_read_page',
+  'notion_create_page',
+  'notion_append_blocks',
+  'http_api_client',
   'pdf_extract_text',
 ]);
 
+/**
+ * Tools that always pause for user approval, whatever the talk's toolMode and
+ * even when the message says "use tools" (e.g. sending email on the user's behalf).
+ */
+const ALWAYS_CONFIRM_TOOLS = new Set([
+  'gmail_send_draft',
+]);
+
 const BROWSER_TOOL_NAME_RE = /(browser|chrome|playwright|puppeteer|relay|snapshot|navigate)/i;
 const BROWSER_INTENT_RE =
   /\b(browser|tab|chrome|take over|control (my )?browser|attach(ed)? tab|openclaw browser relay)\b/i;
@@ -110,6 +145,10 @@ export function isBrowserTool(toolName: string): boolean {
   return BROWSER_TOOL_NAME_RE.test(toolName);
 }
 
+export function toolAlwaysRequiresApproval(toolName: string): boolean {
+  return ALWAYS_CONFIRM_TOOLS.has(toolName.trim().toLowerCase());
+}
+
 export type ToolBlockedReasonCode =
   | 'blocked_not_installed'
   | 'blocked_auth'
@@ -191,16 +230,18 @@ function deriveToolBlockedReason(
       reason: 'Browser control is not available.',
     };
   }
-  if (filesystemAccess === 'workspace_sandbox' && HOST_FILESYSTEM_TOOLS.has(key)) {
+  const sandboxed = SANDBOXED_TOOLS.has(key) && isShellSandboxAvailable();
+  const sandboxSuffix = SANDBOXED_TOOLS.has(key) && !sandboxed ? ' (no shell sandbox runtime is installed)' : '';
+  if (filesystemAccess === 'workspace_sandbox' && HOST_FILESYSTEM_TOOLS.has(key) && !sandboxed) {
     return {
       code: 'blocked_filesystem',
-      reason: 'Blocked by Filesystem Access: Workspace Sandbox.',
+      reason: `Blocked by Filesystem Access: Workspace Sandbox${sandboxSuffix}.`,
     };
   }
-  if (networkAccess === 'restricted' && NETWORK_TOOLS.has(key)) {
+  if (networkAccess === 'restricted' && NETWORK_TOOLS.has(key) && !sandboxed) {
     return {
       code: 'blocked_network',
-      reason: 'Blocked by Network Access: Restricted.',
+      reason: `Blocked by Network Access: Restricted${sandboxSuffix}.`,
     };
   }
   if (options?.isAuthReady) {
@@ -0,0 +1,154 @@
+/**
+ * Talk Rounds
+ *
+ * Planning for multi-agent rounds on POST /api/talks/:id/chat: which of the
+ * Talk's agents answer, in what order, who synthesizes, and the prompts each
+ * one sees. Execution (LLM calls, SSE segments, persistence) lives in
+ * talk-chat.ts.
+ */
+
+import type { AgentRole, TalkAgent } from './types.js';
+
+export type TalkRoundMode = 'sequential' | 'parallel';
+
+/** Most agents that can take part in one round (synthesizer excluded). */
+export const MAX_ROUND_PARTICIPANTS = 8;
+
+/** Default identity instructions per role, used unless the request overrides them. */
+export const AGENT_ROLE_INSTRUCTIONS: Record<AgentRole, string> = {
+  assistant: 'Answer the user directly and helpfully.',
+  analyst: 'Break the question down, weigh the evidence and trade-offs, and state your reasoning explicitly.',
+  critic: 'Look for weaknesses, missing information and risks in the question and in the other answers. Be specific and constructive.',
+  strategist: 'Focus on goals, options and sequencing. Recommend a concrete course of action.',
+  'devils-advocate': 'Argue the strongest case against the prevailing view, even if you would not hold it yourself.',
+  synthesizer: 'Combine the other agents\' contributions into one clear answer. Resolve disagreements where you can and name the ones that remain.',
+  editor: 'Improve clarity, structure and wording. Keep the substance unless it is wrong.',
+};
+
+export interface TalkRoundPlan {
+  mode: TalkRoundMode;
+  participants: TalkAgent[];
+  /** Runs once after the participants, with all their replies. */
+  synthesizer?: TalkAgent;
+  /** Per-agent role instruction overrides, keyed by agent name. */
+  roleInstructions: Record<string, string>;
+}
+
+export interface TalkRoundReply {
+  agentName: string;
+  role: AgentRole;
+  content: string;
+}
+
+function findAgent(agents: TalkAgent[], name: string): TalkAgent | undefined {
+  const wanted = name.trim().toLowerCase();
+  return agents.find((agent) => agent.name.trim().toLowerCase() === wanted);
+}
+
+/**
+ * Validate a `round` request body field against the Talk's agents.
+ *
+ * Accepts `true` or `{ mode?, agents?, synthesize?, synthesizer?, roleInstructions? }`.
+ * Without `agents`, every non-synthesizer agent takes part in configured order.
+ * A synthesis pass runs when requested, or by default when the Talk has a
+ * `synthesizer` agent that is not already a participant.
+ */
+export function planTalkRound(
+  agents: TalkAgent[],
+  raw: unknown,
+): { ok: true; plan: TalkRoundPlan } | { ok: false; error: string } {
+  if (agents.length === 0) {
+    return { ok: false, error: 'round requires the Talk to have agents' };
+  }
+  const input = raw === true ? {} : raw;
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'round must be true or an object' };
+  }
+  const request = input as Record<string, unknown>;
+
+  const mode = request.mode ?? 'sequential';
+  if (mode !== 'sequential' && mode !== 'parallel') {
+    return { ok: false, error: 'round.mode must be one of: sequential, parallel' };
+  }
+
+  let participants: TalkAgent[];
+  if (request.agents !== undefined) {
+    if (!Array.isArray(request.agents) || request.agents.length === 0
+      || request.agents.some((name) => typeof name !== 'string')) {
+      return { ok: false, error: 'round.agents must be a non-empty array of agent names' };
+    }
+    participants = [];
+    for (const name of request.agents as string[]) {
+      const agent = findAgent(agents, name);
+      if (!agent) return { ok: false, error: `Unknown agent "${name}"` };
+      if (!participants.includes(agent)) participants.push(agent);
+    }
+  } else {
+    participants = agents.filter((agent) => agent.role !== 'synthesizer');
+    if (participants.length === 0) participants = [...agents];
+  }
+  if (participants.length > MAX_ROUND_PARTICIPANTS) {
+    return { ok: false, error: `round supports at most ${MAX_ROUND_PARTICIPANTS} agents` };
+  }
+
+  if (request.synthesize !== undefined && typeof request.synthesize !== 'boolean') {
+    return { ok: false, error: 'round.synthesize must be a boolean' };
+  }
+  let synthesizer: TalkAgent | undefined;
+  if (request.synthesizer !== undefined) {
+    if (typeof request.synthesizer !== 'string') {
+      return { ok: false, error: 'round.synthesizer must be an agent name' };
+    }
+    synthesizer = findAgent(agents, request.synthesizer);
+    if (!synthesizer) return { ok: false, error: `Unknown agent "${request.synthesizer}"` };
+  } else {
+    synthesizer = agents.find((agent) => agent.role === 'synthesizer' && !participants.includes(agent));
+    if (!synthesizer && request.synthesize === true) {
+      synthesizer = agents.find((agent) => agent.role === 'synthesizer')
+        ?? agents.find((agent) => agent.isPrimary)
+        ?? participants[0];
+    }
+  }
+  if (request.synthesize === false) synthesizer = undefined;
+
+  const roleInstructions: Record<string, string> = {};
+  if (request.roleInstructions !== undefined) {
+    const overrides = request.roleInstructions;
+    if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+      return { ok: false, error: 'round.roleInstructions must be an object keyed by agent name' };
+    }
+    for (const [name, text] of Object.entries(overrides)) {
+      const agent = findAgent(agents, name);
+      if (!agent) return { ok: false, error: `Unknown agent "${name}"` };
+      if (typeof text !== 'string') return { ok: false, error: `round.roleInstructions.${name} must be a string` };
+      roleInstructions[agent.name] = text;
+    }
+  }
+
+  return { ok: true, plan: { mode, participants, synthesizer, roleInstructions } };
+}
+
+/** Role instructions for one agent in a round. */
+export function resolveRoundRoleInstructions(plan: TalkRoundPlan, agent: TalkAgent): string {
+  return plan.roleInstructions[agent.name] ?? AGENT_ROLE_INSTRUCTIONS[agent.role] ?? '';
+}
+
+function formatReplies(replies: TalkRoundReply[]): string {
+  return replies.map((reply) => `### ${reply.agentName} (${reply.role})\n${reply.content.trim()}`).join('\n\n');
+}
+
+/**
+ * The user turn an agent answers. In a sequential round, later agents also
+ * see the replies given so far so they can build on or challenge them.
+ */
+export function buildRoundAgentPrompt(message: string, priorReplies: TalkRoundReply[]): string {
+  if (priorReplies.length === 0) return message;
+  return `${message}\n\n---\nOther agents have already replied in this round:\n\n${formatReplies(priorReplies)}\n\n`
+    + 'Give your own contribution. Do not repeat points already made; respond to them where useful.';
+}
+
+/** The user turn for the synthesis pass. */
+export function buildRoundSynthesisPrompt(message: string, replies: TalkRoundReply[]): string {
+  return `${message}\n\n---\nThe agents replied:\n\n${formatReplies(replies)}\n\n`
+    + 'Synthesize these replies into one answer for the user. Note where the agents agree, where they disagree, and what you recommend.';
+}
@@ -0,0 +1,108 @@
+/**
+ * Talk Search HTTP Handlers
+ *
+ * Handles GET /api/talks/search (all Talks) and
+ * GET /api/talks/:id/messages/search (one Talk).
+ */
+
+import type { HandlerContext, TalkMessage } from './types.js';
+import type { TalkStore } from './talk-store.js';
+import type { MessageSearchOptions } from './message-search.js';
+import { parseSearchQuery } from './message-search.js';
+import { sendJson } from './http.js';
+
+const SEARCH_ROLES: Array<TalkMessage['role']> = ['user', 'assistant', 'system'];
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 86_400_000;
+
+/**
+ * Parse a `since`/`until` bound: epoch milliseconds or an ISO date/time.
+ * A bare `until` date covers that whole (UTC) day.
+ */
+export function parseDateBound(raw: string, bound: 'since' | 'until'): number | null {
+  const trimmed = raw.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  const parsed = Date.parse(trimmed);
+  if (!Number.isFinite(parsed)) return null;
+  return bound === 'until' && DATE_ONLY_RE.test(trimmed) ? parsed + DAY_MS - 1 : parsed;
+}
+
+/** Read q/role/agent/since/until/limit/sort from the query string, or send a 400. */
+function parseSearchParams(ctx: HandlerContext): { query: string; options: MessageSearchOptions } | null {
+  const params = ctx.url.searchParams;
+  const query = params.get('q')?.trim() ?? '';
+  if (!query) {
+    sendJson(ctx.res, 400, { error: 'q is required' });
+    return null;
+  }
+  if (parseSearchQuery(query).length === 0) {
+    sendJson(ctx.res, 400, { error: 'q must contain at least one searchable word (3+ letters, not a stop word)' });
+    return null;
+  }
+
+  const options: MessageSearchOptions = {};
+  const role = params.get('role')?.trim().toLowerCase();
+  if (role) {
+    if (!SEARCH_ROLES.includes(role as TalkMessage['role'])) {
+      sendJson(ctx.res, 400, { error: `role must be one of: ${SEARCH_ROLES.join(', ')}` });
+      return null;
+    }
+    options.role = role as TalkMessage['role'];
+  }
+  const agent = params.get('agent')?.trim();
+  if (agent) options.agentName = agent;
+
+  for (const bound of ['since', 'until'] as const) {
+    const raw = params.get(bound);
+    if (!raw) continue;
+    const value = parseDateBound(raw, bound);
+    if (value === null) {
+      sendJson(ctx.res, 400, { error: `${bound} must be an ISO date or epoch milliseconds` });
+      return null;
+    }
+    options[bound] = value;
+  }
+
+  const limitRaw = params.get('limit');
+  if (limitRaw) {
+    const limit = parseInt(limitRaw, 10);
+    if (!Number.isFinite(limit) || limit < 1) {
+      sendJson(ctx.res, 400, { error: 'limit must be a positive integer' });
+      return null;
+    }
+    options.limit = limit;
+  }
+
+  const sort = params.get('sort')?.trim().toLowerCase();
+  if (sort) {
+    if (sort !== 'relevance' && sort !== 'recent') {
+      sendJson(ctx.res, 400, { error: 'sort must be one of: relevance, recent' });
+      return null;
+    }
+    options.sort = sort;
+  }
+  return { query, options };
+}
+
+export async function handleSearchAllMessages(ctx: HandlerContext, store: TalkStore): Promise<void> {
+  const parsed = parseSearchParams(ctx);
+  if (!parsed) return;
+  const hits = await store.searchMessages(parsed.query, parsed.options);
+  const results = hits.map((hit) => ({
+    ...hit,
+    topicTitle: store.getTalk(hit.talkId)?.topicTitle,
+  }));
+  sendJson(ctx.res, 200, { query: parsed.query, results, count: results.length });
+}
+
+export async function handleSearchTalkMessages(ctx: HandlerContext, store: TalkStore, talkId: string): Promise<void> {
+  const talk = store.getTalk(talkId);
+  if (!talk) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+  const parsed = parseSearchParams(ctx);
+  if (!parsed) return;
+  const results = await store.searchMessages(parsed.query, { ...parsed.options, talkId });
+  sendJson(ctx.res, 200, { talkId, query: parsed.query, results, count: results.length });
+}
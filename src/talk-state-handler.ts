@@ -5,10 +5,11 @@
  * snapshots, and policy management.
  */
 
-import type { HandlerContext } from './types.js';
+import type { HandlerContext, TalkStatePolicy } from './types.js';
 import type { TalkStore } from './talk-store.js';
 import { sendJson, readJsonBody } from './http.js';
 import { extractClientIdHeader } from './talks.js';
+import { validateStatePolicyUpdates } from './talk-state-store.js';
 
 export async function handleGetStateSummary(
   ctx: HandlerContext,
@@ -83,18 +84,26 @@ export async function handleAppendStateEvent(
     sendJson(ctx.res, 400, { error: 'Missing/invalid required fields: type, payload(object)' });
     return;
   }
-  const appended = await store.appendStateEvent(
-    talkId,
-    stream,
-    {
-      type,
-      payload: body.payload,
-      occurredAt: Number.isFinite(body.occurredAt) ? body.occurredAt : undefined,
-      idempotencyKey: typeof body.idempotencyKey === 'string' ? body.idempotencyKey : undefined,
-      actor: typeof body.actor === 'string' ? body.actor : undefined,
-    },
-    { modifiedBy },
-  );
+  let appended: Awaited<ReturnType<TalkStore['appendStateEvent']>>;
+  try {
+    appended = await store.appendStateEvent(
+      talkId,
+      stream,
+      {
+        type,
+        payload: body.payload,
+        occurredAt: Number.isFinite(body.occurredAt) ? body.occurredAt : undefined,
+        idempotencyKey: typeof body.idempotencyKey === 'string' ? body.idempotencyKey : undefined,
+        actor: typeof body.actor === 'string' ? body.actor : undefined,
+      },
+      { modifiedBy },
+    );
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (!message.startsWith('Invalid state event:')) throw err;
+    sendJson(ctx.res, 400, { error: message });
+    return;
+  }
   if (!appended) {
     sendJson(ctx.res, 404, { error: 'Talk not found' });
     return;
@@ -129,31 +138,40 @@ export async function handleUpdateStatePolicy(
     return;
   }
   const modifiedBy = extractClientIdHeader(ctx);
-  let body: {
-    timezone?: string;
-    weekStartDay?: number;
-    rolloverHour?: number;
-    rolloverMinute?: number;
-    carryOverMode?: 'none' | 'excess_only' | 'all';
-    targetMinutes?: number;
-  };
+  let body: Record<string, unknown>;
   try {
     body = (await readJsonBody(ctx.req)) as typeof body;
   } catch {
     sendJson(ctx.res, 400, { error: 'Invalid JSON body' });
     return;
   }
+  const numberField = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+  const updates = {
+    reducer: body.reducer,
+    window: body.window,
+    keyField: typeof body.keyField === 'string' ? body.keyField : undefined,
+    valueField: typeof body.valueField === 'string' ? body.valueField : undefined,
+    items: body.items,
+    payloadSchema: body.payloadSchema,
+    aggregations: body.aggregations,
+    timezone: typeof body.timezone === 'string' ? body.timezone : undefined,
+    weekStartDay: numberField(body.weekStartDay),
+    rolloverHour: numberField(body.rolloverHour),
+    rolloverMinute: numberField(body.rolloverMinute),
+    carryOverMode: body.carryOverMode,
+    target: body.target,
+    targetMinutes: body.targetMinutes,
+  };
+  const invalid = validateStatePolicyUpdates(updates);
+  if (invalid) {
+    sendJson(ctx.res, 400, { error: invalid });
+    return;
+  }
   const policy = await store.configureStatePolicy(
     talkId,
     stream,
-    {
-      timezone: body.timezone,
-      weekStartDay: Number.isFinite(body.weekStartDay) ? body.weekStartDay : undefined,
-      rolloverHour: Number.isFinite(body.rolloverHour) ? body.rolloverHour : undefined,
-      rolloverMinute: Number.isFinite(body.rolloverMinute) ? body.rolloverMinute : undefined,
-      carryOverMode: body.carryOverMode,
-      targetMinutes: Number.isFinite(body.targetMinutes) ? body.targetMinutes : undefined,
-    },
+    updates as Partial<TalkStatePolicy>,
     { modifiedBy },
   );
   if (!policy) {
@@ -0,0 +1,495 @@
+/**
+ * Talk State Reducers — Pure Computation
+ *
+ * Each state stream declares a reducer in its policy. A reducer folds the
+ * events of one window into reducer-specific state, decides what survives a
+ * window rollover, and summarizes the state into snapshot fields. Reducers
+ * are registered by type in STATE_REDUCERS; buildStateSnapshot in
+ * talk-state-store.ts drives them.
+ */
+
+import type {
+  TalkStateAggregation,
+  TalkStateEvent,
+  TalkStatePayloadSchema,
+  TalkStatePolicy,
+  TalkStateReducerType,
+} from './types.js';
+
+export interface TalkStateSummary {
+  totals: Record<string, number>;
+  completed: Record<string, boolean>;
+  completionTarget: number;
+  value: unknown;
+}
+
+export interface TalkStateReducer<S> {
+  /** State at the start of a stream (or of a window that carries nothing over). */
+  init(policy: TalkStatePolicy): S;
+  apply(state: S, event: TalkStateEvent, policy: TalkStatePolicy): S;
+  /** State the next window starts from, plus the per-key amounts carried into it. */
+  rollover(state: S, policy: TalkStatePolicy): { state: S; carryOver: Record<string, number> };
+  summarize(state: S, policy: TalkStatePolicy): TalkStateSummary;
+  /** Reject an event before it is appended. Returns an error message or null. */
+  validate?(type: string, payload: Record<string, unknown>, policy: TalkStatePolicy): string | null;
+}
+
+export const STATE_REDUCER_TYPES: TalkStateReducerType[] = [
+  'sum_by_key',
+  'counter',
+  'last_value',
+  'set',
+  'checklist',
+  'schema',
+];
+
+/** Key used by counter and last_value events that carry no key field. */
+export const DEFAULT_STATE_KEY = 'default';
+
+const AGGREGATION_OPS = ['count', 'sum', 'min', 'max', 'avg', 'last'] as const;
+const SCHEMA_FIELD_TYPES = ['string', 'number', 'integer', 'boolean'] as const;
+
+// ---------------------------------------------------------------------------
+// Payload helpers
+// ---------------------------------------------------------------------------
+
+/** A trimmed non-empty string (or finite number) key from a payload field. */
+export function readStateKey(payload: Record<string, unknown>, field: string): string | null {
+  const raw = payload[field];
+  if (typeof raw === 'number' && Number.isFinite(raw)) return String(raw);
+  if (typeof raw !== 'string') return null;
+  const value = raw.trim();
+  return value || null;
+}
+
+function readNumber(payload: Record<string, unknown>, field: string): number | null {
+  const raw = payload[field];
+  if (raw === undefined || raw === null || raw === '') return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+/** Members named by `payload[valueField]` or a `payload.items` array. */
+function readMembers(payload: Record<string, unknown>, field: string): string[] {
+  const single = readStateKey(payload, field);
+  if (single) return [single];
+  if (!Array.isArray(payload.items)) return [];
+  return payload.items
+    .map((item) => (typeof item === 'string' ? item.trim() : typeof item === 'number' ? String(item) : ''))
+    .filter(Boolean);
+}
+
+export function computeCarryOver(
+  totals: Record<string, number>,
+  policy: TalkStatePolicy,
+): Record<string, number> {
+  const carry: Record<string, number> = {};
+  for (const [key, total] of Object.entries(totals)) {
+    if (!Number.isFinite(total) || total <= 0) continue;
+    if (policy.carryOverMode === 'all') {
+      carry[key] = total;
+    } else if (policy.carryOverMode === 'excess_only') {
+      carry[key] = Math.max(0, total - policy.target);
+    }
+  }
+  return carry;
+}
+
+function completedByTarget(totals: Record<string, number>, target: number): Record<string, boolean> {
+  const completed: Record<string, boolean> = {};
+  if (target <= 0) return completed;
+  for (const [key, total] of Object.entries(totals)) {
+    completed[key] = total >= target;
+  }
+  return completed;
+}
+
+// ---------------------------------------------------------------------------
+// sum_by_key — per-key running totals, clamped at zero
+// ---------------------------------------------------------------------------
+
+const sumByKeyReducer: TalkStateReducer<Record<string, number>> = {
+  init: () => ({}),
+  apply(state, event, policy) {
+    const payload = event.payload ?? {};
+    const key = readStateKey(payload, policy.keyField);
+    if (event.type === 'reset') {
+      if (!key) return {};
+      const { [key]: _removed, ...rest } = state;
+      return rest;
+    }
+    if (!key) return state;
+    if (event.type === 'set_total') {
+      const total = readNumber(payload, 'total') ?? readNumber(payload, policy.valueField);
+      return total === null ? state : { ...state, [key]: Math.max(0, total) };
+    }
+    const amount = readNumber(payload, policy.valueField);
+    if (amount === null) return state;
+    return { ...state, [key]: Math.max(0, (state[key] ?? 0) + amount) };
+  },
+  rollover(state, policy) {
+    const carryOver = computeCarryOver(state, policy);
+    return { state: { ...carryOver }, carryOver };
+  },
+  summarize: (state, policy) => ({
+    totals: state,
+    completed: completedByTarget(state, policy.target),
+    completionTarget: policy.target,
+    value: state,
+  }),
+  validate(type, payload, policy) {
+    if (type === 'reset') return null;
+    if (!readStateKey(payload, policy.keyField)) return `payload.${policy.keyField} is required`;
+    if (type === 'set_total') {
+      return readNumber(payload, 'total') === null && readNumber(payload, policy.valueField) === null
+        ? 'payload.total must be a number'
+        : null;
+    }
+    return readNumber(payload, policy.valueField) === null ? `payload.${policy.valueField} must be a number` : null;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// counter — increments per key (by 1 unless the event carries an amount)
+// ---------------------------------------------------------------------------
+
+const counterReducer: TalkStateReducer<Record<string, number>> = {
+  init: () => ({}),
+  apply(state, event, policy) {
+    const payload = event.payload ?? {};
+    const explicitKey = readStateKey(payload, policy.keyField);
+    const key = explicitKey ?? DEFAULT_STATE_KEY;
+    const by = readNumber(payload, policy.valueField);
+    if (event.type === 'reset') {
+      if (!explicitKey) return {};
+      const { [key]: _removed, ...rest } = state;
+      return rest;
+    }
+    if (event.type === 'set') {
+      return by === null ? state : { ...state, [key]: by };
+    }
+    const delta = by ?? 1;
+    return { ...state, [key]: (state[key] ?? 0) + (event.type === 'decrement' ? -delta : delta) };
+  },
+  rollover(state, policy) {
+    const carryOver = computeCarryOver(state, policy);
+    return { state: { ...carryOver }, carryOver };
+  },
+  summarize: (state, policy) => ({
+    totals: state,
+    completed: completedByTarget(state, policy.target),
+    completionTarget: policy.target,
+    value: state,
+  }),
+  validate(type, payload, policy) {
+    if (payload[policy.valueField] !== undefined && readNumber(payload, policy.valueField) === null) {
+      return `payload.${policy.valueField} must be a number`;
+    }
+    if (type === 'set' && readNumber(payload, policy.valueField) === null) {
+      return `payload.${policy.valueField} is required for set events`;
+    }
+    return null;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// last_value — the most recent value per key
+// ---------------------------------------------------------------------------
+
+interface LastValueEntry {
+  value: unknown;
+  occurredAt: number;
+  sequence: number;
+}
+
+const lastValueReducer: TalkStateReducer<Record<string, LastValueEntry>> = {
+  init: () => ({}),
+  apply(state, event, policy) {
+    const payload = event.payload ?? {};
+    const explicitKey = readStateKey(payload, policy.keyField);
+    const key = explicitKey ?? DEFAULT_STATE_KEY;
+    if (event.type === 'clear') {
+      if (!explicitKey) return {};
+      const { [key]: _removed, ...rest } = state;
+      return rest;
+    }
+    let value: unknown = payload[policy.valueField];
+    if (value === undefined) {
+      const { [policy.keyField]: _key, ...rest } = payload;
+      value = rest;
+    }
+    return { ...state, [key]: { value, occurredAt: event.occurredAt, sequence: event.sequence } };
+  },
+  rollover: (_state, policy) => ({ state: lastValueReducer.init(policy), carryOver: {} }),
+  summarize(state) {
+    const totals: Record<string, number> = {};
+    for (const [key, entry] of Object.entries(state)) {
+      if (typeof entry.value === 'number' && Number.isFinite(entry.value)) totals[key] = entry.value;
+    }
+    return { totals, completed: {}, completionTarget: 0, value: state };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// set — membership, in insertion order
+// ---------------------------------------------------------------------------
+
+const setReducer: TalkStateReducer<string[]> = {
+  init: () => [],
+  apply(state, event, policy) {
+    if (event.type === 'clear') return [];
+    const members = readMembers(event.payload ?? {}, policy.valueField);
+    if (event.type === 'remove') return state.filter((member) => !members.includes(member));
+    const next = [...state];
+    for (const member of members) {
+      if (!next.includes(member)) next.push(member);
+    }
+    return next;
+  },
+  rollover: (_state, policy) => ({ state: setReducer.init(policy), carryOver: {} }),
+  summarize: (state) => ({
+    totals: { size: state.length },
+    completed: {},
+    completionTarget: 0,
+    value: state,
+  }),
+  validate(type, payload, policy) {
+    if (type === 'clear') return null;
+    return readMembers(payload, policy.valueField).length > 0
+      ? null
+      : `payload.${policy.valueField} (or payload.items) is required`;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// checklist — declared (or added) items, each checked or not
+// ---------------------------------------------------------------------------
+
+interface ChecklistItemState {
+  item: string;
+  done: boolean;
+  doneAt?: number;
+  doneBy?: string;
+}
+
+const checklistReducer: TalkStateReducer<ChecklistItemState[]> = {
+  init: (policy) => (policy.items ?? []).map((item) => ({ item, done: false })),
+  apply(state, event, policy) {
+    if (event.type === 'reset') return state.map(({ item }) => ({ item, done: false }));
+    const names = readMembers(event.payload ?? {}, policy.valueField);
+    if (event.type === 'remove_item') return state.filter(({ item }) => !names.includes(item));
+    const next = [...state];
+    for (const name of names) {
+      const index = next.findIndex(({ item }) => item === name);
+      if (event.type === 'uncheck') {
+        if (index >= 0) next[index] = { item: name, done: false };
+        continue;
+      }
+      if (index < 0) next.push({ item: name, done: false });
+      if (event.type === 'check') {
+        next[index < 0 ? next.length - 1 : index] = {
+          item: name,
+          done: true,
+          doneAt: event.occurredAt,
+          ...(event.actor ? { doneBy: event.actor } : {}),
+        };
+      }
+    }
+    return next;
+  },
+  rollover: (state) => ({ state: state.map(({ item }) => ({ item, done: false })), carryOver: {} }),
+  summarize(state) {
+    const completed: Record<string, boolean> = {};
+    for (const { item, done } of state) completed[item] = done;
+    const checked = state.filter(({ done }) => done).length;
+    return {
+      totals: { checked, remaining: state.length - checked },
+      completed,
+      completionTarget: state.length,
+      value: state,
+    };
+  },
+  validate(type, payload, policy) {
+    if (type === 'reset') return null;
+    if (!['check', 'uncheck', 'add_item', 'remove_item'].includes(type)) {
+      return 'checklist events must be one of: check, uncheck, add_item, remove_item, reset';
+    }
+    return readMembers(payload, policy.valueField).length > 0
+      ? null
+      : `payload.${policy.valueField} (or payload.items) is required`;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// schema — validated payloads plus declarative aggregations
+// ---------------------------------------------------------------------------
+
+interface SchemaEntry {
+  type: string;
+  payload: Record<string, unknown>;
+}
+
+/** Errors for a payload against a schema; empty when it conforms. */
+export function validateStatePayload(schema: TalkStatePayloadSchema, payload: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  for (const field of schema.required ?? []) {
+    if (payload[field] === undefined || payload[field] === null) errors.push(`payload.${field} is required`);
+  }
+  for (const [field, value] of Object.entries(payload)) {
+    const rule = schema.properties[field];
+    if (!rule) {
+      if (schema.additionalProperties === false) errors.push(`payload.${field} is not allowed`);
+      continue;
+    }
+    if (value === undefined || value === null) continue;
+    if (rule.type === 'string' && typeof value !== 'string') errors.push(`payload.${field} must be a string`);
+    if (rule.type === 'boolean' && typeof value !== 'boolean') errors.push(`payload.${field} must be a boolean`);
+    if ((rule.type === 'number' || rule.type === 'integer') && (typeof value !== 'number' || !Number.isFinite(value))) {
+      errors.push(`payload.${field} must be a number`);
+      continue;
+    }
+    if (rule.type === 'integer' && !Number.isInteger(value)) errors.push(`payload.${field} must be an integer`);
+    if (rule.enum && !rule.enum.includes(value as string | number | boolean)) {
+      errors.push(`payload.${field} must be one of: ${rule.enum.join(', ')}`);
+    }
+    if (typeof value === 'number') {
+      if (rule.minimum !== undefined && value < rule.minimum) errors.push(`payload.${field} must be >= ${rule.minimum}`);
+      if (rule.maximum !== undefined && value > rule.maximum) errors.push(`payload.${field} must be <= ${rule.maximum}`);
+    }
+  }
+  return errors;
+}
+
+function aggregate(entries: SchemaEntry[], rule: TalkStateAggregation): unknown {
+  const matching = rule.eventType ? entries.filter((entry) => entry.type === rule.eventType) : entries;
+  const reduce = (group: SchemaEntry[]): number | unknown => {
+    if (rule.op === 'count') return group.length;
+    if (rule.op === 'last') {
+      for (let i = group.length - 1; i >= 0; i--) {
+        const value = group[i].payload[rule.field!];
+        if (value !== undefined) return value;
+      }
+      return null;
+    }
+    const values = group
+      .map((entry) => readNumber(entry.payload, rule.field!))
+      .filter((value): value is number => value !== null);
+    if (rule.op === 'sum') return values.reduce((sum, value) => sum + value, 0);
+    if (values.length === 0) return null;
+    if (rule.op === 'min') return Math.min(...values);
+    if (rule.op === 'max') return Math.max(...values);
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  };
+  if (!rule.groupBy) return reduce(matching);
+  const groups = new Map<string, SchemaEntry[]>();
+  for (const entry of matching) {
+    const key = readStateKey(entry.payload, rule.groupBy);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+  return Object.fromEntries([...groups].map(([key, group]) => [key, reduce(group)]));
+}
+
+const schemaReducer: TalkStateReducer<SchemaEntry[]> = {
+  init: () => [],
+  apply: (state, event) => [...state, { type: event.type, payload: event.payload ?? {} }],
+  rollover: (_state, policy) => ({ state: schemaReducer.init(policy), carryOver: {} }),
+  summarize(state, policy) {
+    const rules = policy.aggregations?.length
+      ? policy.aggregations
+      : [{ name: 'count', op: 'count' as const }];
+    const value: Record<string, unknown> = {};
+    const totals: Record<string, number> = {};
+    for (const rule of rules) {
+      value[rule.name] = aggregate(state, rule);
+      if (typeof value[rule.name] === 'number') totals[rule.name] = value[rule.name] as number;
+    }
+    return { totals, completed: {}, completionTarget: 0, value };
+  },
+  validate(_type, payload, policy) {
+    if (!policy.payloadSchema) return null;
+    const errors = validateStatePayload(policy.payloadSchema, payload);
+    return errors.length ? errors.join('; ') : null;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export const STATE_REDUCERS: Record<TalkStateReducerType, TalkStateReducer<any>> = {
+  sum_by_key: sumByKeyReducer,
+  counter: counterReducer,
+  last_value: lastValueReducer,
+  set: setReducer,
+  checklist: checklistReducer,
+  schema: schemaReducer,
+};
+
+export function getStateReducer(type: TalkStateReducerType): TalkStateReducer<unknown> {
+  return STATE_REDUCERS[type] ?? sumByKeyReducer;
+}
+
+/** Validate an event against its stream's reducer before it is appended. */
+export function validateStateEvent(
+  policy: TalkStatePolicy,
+  type: string,
+  payload: Record<string, unknown>,
+): string | null {
+  return getStateReducer(policy.reducer).validate?.(type, payload, policy) ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Policy input validation
+// ---------------------------------------------------------------------------
+
+/** Check a payload schema declaration. Returns an error message or null. */
+export function validatePayloadSchemaInput(raw: unknown): string | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return 'payloadSchema must be an object';
+  const schema = raw as Record<string, unknown>;
+  if (schema.type !== undefined && schema.type !== 'object') return 'payloadSchema.type must be "object"';
+  const properties = schema.properties;
+  if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+    return 'payloadSchema.properties must be an object';
+  }
+  for (const [field, rule] of Object.entries(properties)) {
+    if (!rule || typeof rule !== 'object' || Array.isArray(rule)) return `payloadSchema.properties.${field} must be an object`;
+    const { type, enum: allowed, minimum, maximum } = rule as Record<string, unknown>;
+    if (type !== undefined && !SCHEMA_FIELD_TYPES.includes(type as typeof SCHEMA_FIELD_TYPES[number])) {
+      return `payloadSchema.properties.${field}.type must be one of: ${SCHEMA_FIELD_TYPES.join(', ')}`;
+    }
+    if (allowed !== undefined && !Array.isArray(allowed)) return `payloadSchema.properties.${field}.enum must be an array`;
+    if (minimum !== undefined && typeof minimum !== 'number') return `payloadSchema.properties.${field}.minimum must be a number`;
+    if (maximum !== undefined && typeof maximum !== 'number') return `payloadSchema.properties.${field}.maximum must be a number`;
+  }
+  if (schema.required !== undefined
+    && (!Array.isArray(schema.required) || schema.required.some((field) => typeof field !== 'string'))) {
+    return 'payloadSchema.required must be an array of field names';
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    return 'payloadSchema.additionalProperties must be a boolean';
+  }
+  return null;
+}
+
+/** Check aggregation rules. Returns an error message or null. */
+export function validateAggregationsInput(raw: unknown): string | null {
+  if (!Array.isArray(raw)) return 'aggregations must be an array';
+  const names = new Set<string>();
+  for (const [index, entry] of raw.entries()) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return `aggregations[${index}] must be an object`;
+    const { name, op, field, groupBy, eventType } = entry as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim()) return `aggregations[${index}].name is required`;
+    if (names.has(name.trim())) return `Duplicate aggregation name "${name.trim()}"`;
+    names.add(name.trim());
+    if (!AGGREGATION_OPS.includes(op as typeof AGGREGATION_OPS[number])) {
+      return `aggregations[${index}].op must be one of: ${AGGREGATION_OPS.join(', ')}`;
+    }
+    if (op !== 'count' && (typeof field !== 'string' || !field.trim())) {
+      return `aggregations[${index}].field is required for ${op}`;
+    }
+    if (groupBy !== undefined && typeof groupBy !== 'string') return `aggregations[${index}].groupBy must be a string`;
+    if (eventType !== undefined && typeof eventType !== 'string') return `aggregations[${index}].eventType must be a string`;
+  }
+  return null;
+}
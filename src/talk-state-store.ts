@@ -1,16 +1,27 @@
 /**
  * Talk State Store — Pure Computation
  *
- * State-related constants, normalizers, and snapshot computation logic
- * used by TalkStore for structured talk state (event ledger + snapshots).
+ * State-related constants, normalizers, window computation and snapshot
+ * building used by TalkStore for structured talk state (event ledger +
+ * snapshots). Per-reducer logic lives in talk-state-reducers.ts.
  */
 
 import type {
+  TalkStateAggregation,
   TalkStateCarryOverMode,
   TalkStateEvent,
+  TalkStatePayloadSchema,
   TalkStatePolicy,
+  TalkStateReducerType,
   TalkStateSnapshot,
+  TalkStateWindow,
 } from './types.js';
+import {
+  STATE_REDUCER_TYPES,
+  getStateReducer,
+  validateAggregationsInput,
+  validatePayloadSchemaInput,
+} from './talk-state-reducers.js';
 
 // ---------------------------------------------------------------------------
 // Constants
@@ -18,6 +29,7 @@ import type {
 
 export const DEFAULT_STATE_STREAM = 'default';
 export const DAY_MS = 24 * 60 * 60 * 1000;
+export const STATE_WINDOWS: TalkStateWindow[] = ['daily', 'weekly', 'monthly', 'none'];
 export const DEFAULT_STATE_POLICY_BASE = {
   timezone: 'America/Los_Angeles',
   weekStartDay: 1,
@@ -27,6 +39,41 @@ export const DEFAULT_STATE_POLICY_BASE = {
   targetMinutes: 300,
 };
 
+/**
+ * Defaults for policies written before reducers existed (no `reducer` field):
+ * weekly per-kid minute totals.
+ */
+const LEGACY_STATE_POLICY_DEFAULTS = {
+  reducer: 'sum_by_key' as TalkStateReducerType,
+  window: 'weekly' as TalkStateWindow,
+  keyField: 'kid',
+  valueField: 'minutes',
+  carryOverMode: DEFAULT_STATE_POLICY_BASE.carryOverMode,
+  target: DEFAULT_STATE_POLICY_BASE.targetMinutes,
+};
+
+/** Defaults for a stream that declares its reducer. */
+const REDUCER_POLICY_DEFAULTS = {
+  window: 'none' as TalkStateWindow,
+  keyField: 'key',
+  valueField: 'value',
+  carryOverMode: 'none' as TalkStateCarryOverMode,
+  target: 0,
+};
+
+/** Policy fields whose meaning depends on the reducer; dropped when it changes. */
+export const REDUCER_SPECIFIC_POLICY_FIELDS: Array<keyof TalkStatePolicy> = [
+  'window',
+  'keyField',
+  'valueField',
+  'carryOverMode',
+  'target',
+  'targetMinutes',
+  'items',
+  'payloadSchema',
+  'aggregations',
+];
+
 // ---------------------------------------------------------------------------
 // Normalizers
 // ---------------------------------------------------------------------------
@@ -46,10 +93,37 @@ export function normalizeOptionalStateStream(raw: unknown): string | undefined {
   return normalizeStateStream(trimmed);
 }
 
-export function normalizeCarryOverMode(raw: unknown): TalkStateCarryOverMode {
+export function normalizeCarryOverMode(
+  raw: unknown,
+  fallback: TalkStateCarryOverMode = DEFAULT_STATE_POLICY_BASE.carryOverMode,
+): TalkStateCarryOverMode {
   const value = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
   if (value === 'none' || value === 'excess_only' || value === 'all') return value;
-  return DEFAULT_STATE_POLICY_BASE.carryOverMode;
+  return fallback;
+}
+
+export function normalizeStateReducer(raw: unknown): TalkStateReducerType | undefined {
+  const value = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+  return STATE_REDUCER_TYPES.find((type) => type === value);
+}
+
+export function normalizeStateWindow(raw: unknown): TalkStateWindow | undefined {
+  const value = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+  return STATE_WINDOWS.find((window) => window === value);
+}
+
+function normalizeFieldName(raw: unknown, fallback: string): string {
+  return typeof raw === 'string' && raw.trim() ? raw.trim() : fallback;
+}
+
+function normalizeItems(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const items: string[] = [];
+  for (const entry of raw) {
+    const item = typeof entry === 'string' ? entry.trim() : '';
+    if (item && !items.includes(item)) items.push(item);
+  }
+  return items;
 }
 
 export function normalizeStatePolicy(
@@ -57,8 +131,26 @@ export function normalizeStatePolicy(
   raw: Partial<TalkStatePolicy> | undefined,
   now = Date.now(),
 ): TalkStatePolicy {
+  const declared = normalizeStateReducer(raw?.reducer);
+  const defaults = declared ? { reducer: declared, ...REDUCER_POLICY_DEFAULTS } : LEGACY_STATE_POLICY_DEFAULTS;
+  const targetRaw = typeof raw?.target === 'number' ? raw.target : raw?.targetMinutes;
+  const target = typeof targetRaw === 'number' && Number.isFinite(targetRaw) && targetRaw >= 0
+    // A zero target only disables completion for declared reducers; legacy
+    // policies always had a positive minute target.
+    && (declared || targetRaw > 0)
+    ? Math.floor(targetRaw)
+    : defaults.target;
+  const items = normalizeItems(raw?.items);
+  const payloadSchema = raw?.payloadSchema && !validatePayloadSchemaInput(raw.payloadSchema)
+    ? raw.payloadSchema as TalkStatePayloadSchema
+    : undefined;
+  const aggregations = raw?.aggregations && !validateAggregationsInput(raw.aggregations)
+    ? (raw.aggregations as TalkStateAggregation[]).map((rule) => ({ ...rule, name: rule.name.trim() }))
+    : undefined;
   return {
     stream: normalizeStateStream(stream),
+    reducer: defaults.reducer,
+    window: normalizeStateWindow(raw?.window) ?? defaults.window,
     timezone:
       typeof raw?.timezone === 'string' && raw.timezone.trim()
         ? raw.timezone.trim()
@@ -75,25 +167,91 @@ export function normalizeStatePolicy(
       typeof raw?.rolloverMinute === 'number' && Number.isInteger(raw.rolloverMinute)
         ? Math.max(0, Math.min(59, raw.rolloverMinute))
         : DEFAULT_STATE_POLICY_BASE.rolloverMinute,
-    carryOverMode: normalizeCarryOverMode(raw?.carryOverMode),
-    targetMinutes:
-      typeof raw?.targetMinutes === 'number' && Number.isFinite(raw.targetMinutes) && raw.targetMinutes > 0
-        ? Math.floor(raw.targetMinutes)
-        : DEFAULT_STATE_POLICY_BASE.targetMinutes,
+    keyField: normalizeFieldName(raw?.keyField, defaults.keyField),
+    valueField: normalizeFieldName(raw?.valueField, defaults.valueField),
+    carryOverMode: normalizeCarryOverMode(raw?.carryOverMode, defaults.carryOverMode),
+    target,
+    targetMinutes: target,
+    ...(items ? { items } : {}),
+    ...(payloadSchema ? { payloadSchema } : {}),
+    ...(aggregations ? { aggregations } : {}),
     updatedAt: typeof raw?.updatedAt === 'number' && Number.isFinite(raw.updatedAt) ? raw.updatedAt : now,
   };
 }
 
-export function normalizeKidKey(raw: unknown): string | null {
-  if (typeof raw !== 'string') return null;
-  const value = raw.trim();
-  if (!value) return null;
-  return value;
+/**
+ * Check policy updates from the API or tools before they are merged.
+ * Unknown reducer/window names and malformed schemas are rejected rather
+ * than silently normalized away. Returns an error message or null.
+ */
+export function validateStatePolicyUpdates(updates: Partial<Record<keyof TalkStatePolicy, unknown>>): string | null {
+  if (updates.reducer !== undefined && !normalizeStateReducer(updates.reducer)) {
+    return `reducer must be one of: ${STATE_REDUCER_TYPES.join(', ')}`;
+  }
+  if (updates.window !== undefined && !normalizeStateWindow(updates.window)) {
+    return `window must be one of: ${STATE_WINDOWS.join(', ')}`;
+  }
+  if (updates.items !== undefined
+    && (!Array.isArray(updates.items) || updates.items.some((item) => typeof item !== 'string'))) {
+    return 'items must be an array of strings';
+  }
+  for (const field of ['target', 'targetMinutes'] as const) {
+    const value = updates[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      return `${field} must be a non-negative number`;
+    }
+  }
+  if (updates.payloadSchema !== undefined) {
+    const error = validatePayloadSchemaInput(updates.payloadSchema);
+    if (error) return error;
+  }
+  if (updates.aggregations !== undefined) {
+    const error = validateAggregationsInput(updates.aggregations);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Merge validated updates into a stored policy. Switching reducers drops the
+ * reducer-specific fields so the new reducer starts from its own defaults,
+ * and `targetMinutes` is accepted as an alias of `target`.
+ */
+export function mergeStatePolicy(
+  stream: string,
+  current: TalkStatePolicy,
+  updates: Partial<TalkStatePolicy>,
+  now = Date.now(),
+): TalkStatePolicy {
+  const defined = Object.fromEntries(
+    Object.entries(updates).filter(([, value]) => value !== undefined),
+  ) as Partial<TalkStatePolicy>;
+  if (defined.targetMinutes !== undefined && defined.target === undefined) {
+    defined.target = defined.targetMinutes;
+  }
+  const base: Partial<TalkStatePolicy> = { ...current };
+  const nextReducer = normalizeStateReducer(defined.reducer);
+  if (nextReducer && nextReducer !== current.reducer) {
+    for (const field of REDUCER_SPECIFIC_POLICY_FIELDS) delete base[field];
+  }
+  return normalizeStatePolicy(stream, { ...base, ...defined, updatedAt: now }, now);
 }
 
 // ---------------------------------------------------------------------------
-// Week-boundary computation
+// Window computation
 // ---------------------------------------------------------------------------
+//
+// Windows are computed on "pseudo-UTC" timestamps: the wall-clock time in the
+// policy timezone read as if it were UTC. The rollover time shifts the start
+// of each day, so with a 04:00 rollover an event at 02:00 counts toward the
+// previous day.
+
+export interface TalkStateWindowRange {
+  key: string;
+  startAt: number;
+  /** Null when the window is "none". */
+  endAt: number | null;
+}
 
 export function formatWeekKeyFromPseudoUtc(startAt: number): string {
   const d = new Date(startAt);
@@ -103,7 +261,29 @@ export function formatWeekKeyFromPseudoUtc(startAt: number): string {
   return `${yyyy}-${mm}-${dd}`;
 }
 
-export function resolveWeekWindow(ts: number, policy: TalkStatePolicy): { weekKey: string; weekStartAt: number; weekEndAt: number } {
+function rolloverOffset(policy: TalkStatePolicy): number {
+  return policy.rolloverHour * 60 * 60 * 1000 + policy.rolloverMinute * 60 * 1000;
+}
+
+/** Window starting on the pseudo-UTC midnight `dayStart`. */
+function buildWindowRange(policy: TalkStatePolicy, dayStart: number): TalkStateWindowRange {
+  const startAt = dayStart + rolloverOffset(policy);
+  if (policy.window === 'daily') {
+    return { key: formatWeekKeyFromPseudoUtc(dayStart), startAt, endAt: startAt + DAY_MS };
+  }
+  if (policy.window === 'monthly') {
+    const d = new Date(dayStart);
+    return {
+      key: formatWeekKeyFromPseudoUtc(dayStart).slice(0, 7),
+      startAt,
+      endAt: Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1) + rolloverOffset(policy),
+    };
+  }
+  return { key: formatWeekKeyFromPseudoUtc(dayStart), startAt, endAt: startAt + 7 * DAY_MS };
+}
+
+export function resolveStateWindow(ts: number, policy: TalkStatePolicy): TalkStateWindowRange {
+  if (policy.window === 'none') return { key: 'all', startAt: 0, endAt: null };
   const date = new Date(ts);
   const fmt = new Intl.DateTimeFormat('en-US', {
     timeZone: policy.timezone,
@@ -129,65 +309,25 @@ export function resolveWeekWindow(ts: number, policy: TalkStatePolicy): { weekKe
     pseudoNow -= DAY_MS;
   }
   const pseudoDate = new Date(pseudoNow);
-  const pseudoWeekday = pseudoDate.getUTCDay();
-  const daysSinceStart = (pseudoWeekday - policy.weekStartDay + 7) % 7;
-  const weekStartDayAtMidnight = Date.UTC(
-    pseudoDate.getUTCFullYear(),
-    pseudoDate.getUTCMonth(),
-    pseudoDate.getUTCDate(),
-  ) - daysSinceStart * DAY_MS;
-  const weekStartAt = weekStartDayAtMidnight + policy.rolloverHour * 60 * 60 * 1000 + policy.rolloverMinute * 60 * 1000;
-  const weekEndAt = weekStartAt + 7 * DAY_MS;
-  return {
-    weekKey: formatWeekKeyFromPseudoUtc(weekStartAt),
-    weekStartAt,
-    weekEndAt,
-  };
+  const dayStart = Date.UTC(pseudoDate.getUTCFullYear(), pseudoDate.getUTCMonth(), pseudoDate.getUTCDate());
+  if (policy.window === 'daily') return buildWindowRange(policy, dayStart);
+  if (policy.window === 'monthly') {
+    return buildWindowRange(policy, Date.UTC(pseudoDate.getUTCFullYear(), pseudoDate.getUTCMonth(), 1));
+  }
+  const daysSinceStart = (pseudoDate.getUTCDay() - policy.weekStartDay + 7) % 7;
+  return buildWindowRange(policy, dayStart - daysSinceStart * DAY_MS);
+}
+
+/** The window immediately after `range`. */
+export function nextStateWindow(range: TalkStateWindowRange, policy: TalkStatePolicy): TalkStateWindowRange {
+  if (range.endAt === null) return range;
+  return buildWindowRange(policy, range.endAt - rolloverOffset(policy));
 }
 
 // ---------------------------------------------------------------------------
 // Snapshot computation (pure functions)
 // ---------------------------------------------------------------------------
 
-export function computeCarryOver(
-  totals: Record<string, number>,
-  policy: TalkStatePolicy,
-): Record<string, number> {
-  const carry: Record<string, number> = {};
-  for (const [kid, total] of Object.entries(totals)) {
-    if (!Number.isFinite(total) || total <= 0) continue;
-    if (policy.carryOverMode === 'all') {
-      carry[kid] = total;
-    } else if (policy.carryOverMode === 'excess_only') {
-      carry[kid] = Math.max(0, total - policy.targetMinutes);
-    }
-  }
-  return carry;
-}
-
-export function applyStateEventToTotals(
-  totals: Record<string, number>,
-  event: TalkStateEvent,
-): Record<string, number> {
-  const next = { ...totals };
-  const payload = event.payload ?? {};
-  if (event.type === 'minutes_logged' || event.type === 'manual_adjustment') {
-    const kid = normalizeKidKey((payload as Record<string, unknown>).kid);
-    const minutesRaw = Number((payload as Record<string, unknown>).minutes);
-    if (!kid || !Number.isFinite(minutesRaw)) return next;
-    next[kid] = Math.max(0, (next[kid] ?? 0) + minutesRaw);
-    return next;
-  }
-  if (event.type === 'set_total') {
-    const kid = normalizeKidKey((payload as Record<string, unknown>).kid);
-    const totalRaw = Number((payload as Record<string, unknown>).total);
-    if (!kid || !Number.isFinite(totalRaw)) return next;
-    next[kid] = Math.max(0, totalRaw);
-    return next;
-  }
-  return next;
-}
-
 export function buildStateSnapshot(
   stream: string,
   policy: TalkStatePolicy,
@@ -195,60 +335,53 @@ export function buildStateSnapshot(
   asOf: number = Date.now(),
 ): TalkStateSnapshot {
   const normalizedStream = normalizeStateStream(stream);
-  const baseWindow = resolveWeekWindow(asOf, policy);
-  let currentWeek = baseWindow;
-  let totals: Record<string, number> = {};
+  const reducer = getStateReducer(policy.reducer);
+  let currentWindow = resolveStateWindow(asOf, policy);
+  let state = reducer.init(policy);
   let carryOver: Record<string, number> = {};
 
+  const advanceTo = (target: TalkStateWindowRange): void => {
+    while (currentWindow.startAt < target.startAt) {
+      ({ state, carryOver } = reducer.rollover(state, policy));
+      currentWindow = nextStateWindow(currentWindow, policy);
+    }
+  };
+
   for (const event of events) {
-    const eventWeek = resolveWeekWindow(event.occurredAt || event.recordedAt || asOf, policy);
-    if (eventWeek.weekStartAt > currentWeek.weekStartAt) {
-      while (currentWeek.weekStartAt < eventWeek.weekStartAt) {
-        carryOver = computeCarryOver(totals, policy);
-        totals = { ...carryOver };
-        currentWeek = {
-          weekStartAt: currentWeek.weekStartAt + 7 * DAY_MS,
-          weekEndAt: currentWeek.weekEndAt + 7 * DAY_MS,
-          weekKey: formatWeekKeyFromPseudoUtc(currentWeek.weekStartAt + 7 * DAY_MS),
-        };
-      }
-    } else if (eventWeek.weekStartAt < currentWeek.weekStartAt) {
-      currentWeek = eventWeek;
-      totals = {};
+    const eventWindow = resolveStateWindow(event.occurredAt || event.recordedAt || asOf, policy);
+    if (eventWindow.startAt > currentWindow.startAt) {
+      advanceTo(eventWindow);
+    } else if (eventWindow.startAt < currentWindow.startAt) {
+      currentWindow = eventWindow;
+      state = reducer.init(policy);
       carryOver = {};
     }
-    totals = applyStateEventToTotals(totals, event);
+    state = reducer.apply(state, event, policy);
   }
 
-  const finalWindow = resolveWeekWindow(asOf, policy);
-  if (finalWindow.weekStartAt > currentWeek.weekStartAt) {
-    while (currentWeek.weekStartAt < finalWindow.weekStartAt) {
-      carryOver = computeCarryOver(totals, policy);
-      totals = { ...carryOver };
-      currentWeek = {
-        weekStartAt: currentWeek.weekStartAt + 7 * DAY_MS,
-        weekEndAt: currentWeek.weekEndAt + 7 * DAY_MS,
-        weekKey: formatWeekKeyFromPseudoUtc(currentWeek.weekStartAt + 7 * DAY_MS),
-      };
-    }
+  const finalWindow = resolveStateWindow(asOf, policy);
+  if (finalWindow.startAt > currentWindow.startAt) {
+    advanceTo(finalWindow);
   } else {
-    currentWeek = finalWindow;
-  }
-
-  const completed: Record<string, boolean> = {};
-  for (const [kid, total] of Object.entries(totals)) {
-    completed[kid] = total >= policy.targetMinutes;
+    currentWindow = finalWindow;
   }
 
+  const summary = reducer.summarize(state, policy);
   return {
     stream: normalizedStream,
-    weekKey: currentWeek.weekKey,
-    weekStartAt: currentWeek.weekStartAt,
-    weekEndAt: currentWeek.weekEndAt,
-    totals,
+    reducer: policy.reducer,
+    window: policy.window,
+    windowKey: currentWindow.key,
+    windowStartAt: currentWindow.startAt,
+    windowEndAt: currentWindow.endAt,
+    weekKey: currentWindow.key,
+    weekStartAt: currentWindow.startAt,
+    weekEndAt: currentWindow.endAt ?? 0,
+    totals: summary.totals,
     carryOver,
-    completionTarget: policy.targetMinutes,
-    completed,
+    completionTarget: summary.completionTarget,
+    completed: summary.completed,
+    value: summary.value,
     lastEventSequence: events.length ? events[events.length - 1].sequence : 0,
     updatedAt: Date.now(),
     policy,
@@ -21,6 +21,8 @@ import type {
   TalkPlatformBehavior,
   JobReport,
   JobOutputDestination,
+  JobPriority,
+  JobRunCap,
   PlatformPermission,
   TalkStateEvent,
   TalkStatePolicy,
@@ -30,22 +32,31 @@ import type {
   TalkDiagnosticStatus,
   KnowledgeIndexEntry,
   Logger,
+  PendingToolCall,
+  PendingToolCallStatus,
+  TalkBundle,
+  TalkReplyVersion,
+  TalkReplyVersionSet,
+  TalkBudget,
+  TalkBudgetAlertState,
 } from './types.js';
 import {
   DEFAULT_STATE_STREAM,
-  DAY_MS,
-  DEFAULT_STATE_POLICY_BASE,
   normalizeStateStream,
   normalizeOptionalStateStream,
-  normalizeCarryOverMode,
   normalizeStatePolicy,
-  normalizeKidKey,
-  formatWeekKeyFromPseudoUtc,
-  resolveWeekWindow,
-  computeCarryOver,
-  applyStateEventToTotals,
+  mergeStatePolicy,
   buildStateSnapshot,
 } from './talk-state-store.js';
+import { validateStateEvent } from './talk-state-reducers.js';
+import { MessageSearchIndex, parseSearchQuery, sortSearchHits, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from './message-search.js';
+import type { MessageSearchHit, MessageSearchOptions, ScoredMessage } from './message-search.js';
+import { HistoryIndex } from './history-index.js';
+import { getSecretRedactor } from './secret-redaction.js';
+import { normalizeJobRunCap, normalizeTalkBudget } from './talk-budget.js';
+import { normalizeFallbackModels } from './model-fallback.js';
+import { normalizeJobPriority } from './job-throttle.js';
+import type { MessagePage, MessagePageOptions } from './history-index.js';
 
 type TalkMutationType =
   | 'created'
@@ -53,6 +64,8 @@ type TalkMutationType =
   | 'deleted'
   | 'message_appended'
   | 'messages_deleted'
+  | 'message_edited'
+  | 'reply_version_changed'
   | 'pin_added'
   | 'pin_removed'
   | 'job_added'
@@ -66,7 +79,10 @@ type TalkMutationType =
   | 'behaviors_set'
   | 'state_updated'
   | 'diagnostic_opened'
-  | 'diagnostic_updated';
+  | 'diagnostic_updated'
+  | 'budget_alerted'
+  | 'tool_approval_requested'
+  | 'tool_approval_resolved';
 
 export type TalkStoreChangeEvent = {
   type: TalkMutationType;
@@ -84,9 +100,6 @@ const DEFAULT_DATA_DIR = path.join(
   'clawtalk',
 );
 
-/** Threshold below which getRecentMessages does a full load + slice. */
-const SMALL_FILE_BYTES = 64 * 1024; // 64KB
-
 /** TTL for context.md cache entries. */
 const CONTEXT_CACHE_TTL_MS = 30_000;
 
@@ -195,6 +208,62 @@ export function normalizeStateBackend(raw: unknown): 'stream_store' | 'workspace
   return 'stream_store';
 }
 
+const TALK_POLICY_NORMALIZERS: Record<string, (raw: unknown) => unknown> = {
+  toolMode: normalizeToolMode,
+  executionMode: normalizeExecutionMode,
+  filesystemAccess: normalizeFilesystemAccess,
+  networkAccess: normalizeNetworkAccess,
+  toolsAllow: normalizeToolNames,
+  toolsDeny: normalizeToolNames,
+  httpAllowedHosts: normalizeHttpAllowedHosts,
+};
+
+/**
+ * Tool policy fields where `meta` differs from a new talk's defaults, for
+ * scoping imports the way requiredScopeForTalkChanges scopes create/update.
+ */
+export function talkPolicyOverrides(meta: Partial<TalkMeta>): Record<string, unknown> {
+  const overrides: Record<string, unknown> = {};
+  for (const [field, normalize] of Object.entries(TALK_POLICY_NORMALIZERS)) {
+    const value = normalize((meta as Record<string, unknown>)[field]);
+    if (JSON.stringify(value) !== JSON.stringify(normalize(undefined))) overrides[field] = value;
+  }
+  return overrides;
+}
+
+/** Client-facing view of a pending tool call (omits the saved loop state). */
+export function summarizePendingToolCall(call: PendingToolCall): Omit<PendingToolCall, 'resume'> {
+  const { resume: _resume, ...summary } = call;
+  return summary;
+}
+
+/**
+ * Normalize an HTTP host allowlist: lowercase hostnames or `*.domain` wildcards.
+ * Full URLs are reduced to their hostname; anything else invalid is dropped.
+ */
+export function normalizeHttpAllowedHosts(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const entry of input) {
+    if (typeof entry !== 'string') continue;
+    let host = entry.trim().toLowerCase();
+    if (/^https?:\/\//.test(host)) {
+      try {
+        host = new URL(host).hostname;
+      } catch {
+        continue;
+      }
+    }
+    host = host.replace(/\.$/, '');
+    if (!/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host) && !/^\[[0-9a-f:.]+\]$/.test(host)) continue;
+    if (seen.has(host)) continue;
+    seen.add(host);
+    out.push(host);
+  }
+  return out;
+}
+
 export function normalizeToolNames(input: unknown): string[] {
   if (!Array.isArray(input)) return [];
   const seen = new Set<string>();
@@ -285,6 +354,8 @@ function normalizeJob(raw: unknown): TalkJob | null {
     rawType === 'once' || rawType === 'recurring' || rawType === 'event'
       ? rawType
       : 'recurring';
+  const runCap = normalizeJobRunCap(row.runCap);
+  const priority = normalizeJobPriority(row.priority);
 
   return {
     id,
@@ -298,6 +369,9 @@ function normalizeJob(raw: unknown): TalkJob | null {
     ...(typeof row.lastStatus === 'string' && row.lastStatus.trim()
       ? { lastStatus: row.lastStatus.trim() }
       : {}),
+    ...(runCap ? { runCap } : {}),
+    ...(priority && priority !== 'normal' ? { priority } : {}),
+    ...(typeof row.deferredUntil === 'number' ? { deferredUntil: row.deferredUntil } : {}),
   };
 }
 
@@ -491,18 +565,67 @@ function buildDefaultAgent(model: string): TalkAgent {
   return { name: 'Default', model, role: 'assistant', isPrimary: true };
 }
 
+/** Fill defaults and migrate legacy values on a talk.json read from disk or a bundle. Mutates `meta`. */
+function normalizeStoredMeta(meta: TalkMeta): TalkMeta {
+  // Ensure arrays exist (for older files)
+  meta.pinnedMessageIds ??= [];
+  meta.jobs = normalizeJobs(meta.jobs);
+  meta.agents ??= [];
+  if (meta.agents.length === 0 && meta.model) {
+    meta.agents.push(buildDefaultAgent(meta.model));
+  }
+  meta.directives = normalizeDirectives(meta.directives);
+  meta.platformBindings = normalizeTalkPlatformBindings(meta.platformBindings);
+  meta.platformBehaviors = normalizePlatformBehaviors(meta.platformBehaviors, meta.platformBindings);
+  meta.toolMode = normalizeToolMode(meta.toolMode);
+  meta.executionMode = normalizeExecutionMode(meta.executionMode);
+  meta.filesystemAccess = normalizeFilesystemAccess(meta.filesystemAccess);
+  meta.networkAccess = normalizeNetworkAccess(meta.networkAccess);
+  meta.stateBackend = normalizeStateBackend(meta.stateBackend);
+  meta.toolsAllow = normalizeToolNames(meta.toolsAllow);
+  meta.toolsDeny = normalizeToolNames(meta.toolsDeny);
+  meta.googleAuthProfile = normalizeGoogleAuthProfile(meta.googleAuthProfile);
+  meta.httpAllowedHosts = normalizeHttpAllowedHosts(meta.httpAllowedHosts);
+  meta.defaultStateStream = normalizeOptionalStateStream(meta.defaultStateStream);
+  meta.budget = normalizeTalkBudget(meta.budget);
+  if (!meta.budget) delete meta.budgetAlert;
+  meta.fallbackModels = normalizeFallbackModels(meta.fallbackModels);
+  meta.diagnostics = normalizeDiagnostics(meta.diagnostics);
+  meta.talkVersion =
+    typeof meta.talkVersion === 'number' && Number.isFinite(meta.talkVersion)
+      ? Math.max(1, Math.floor(meta.talkVersion))
+      : 1;
+  meta.changeId =
+    typeof meta.changeId === 'string' && meta.changeId.trim()
+      ? meta.changeId
+      : randomUUID();
+  meta.lastModifiedAt =
+    typeof meta.lastModifiedAt === 'number' && Number.isFinite(meta.lastModifiedAt)
+      ? meta.lastModifiedAt
+      : meta.updatedAt;
+  if (meta.lastModifiedBy !== undefined && typeof meta.lastModifiedBy !== 'string') {
+    delete meta.lastModifiedBy;
+  }
+  if (meta.processing === undefined) {
+    meta.processing = false;
+  }
+  return meta;
+}
+
 export class TalkStore {
   private readonly talksDir: string;
   private readonly talks: Map<string, TalkMeta> = new Map();
   private readonly logger: Logger;
   private readonly instanceId: string = randomUUID().slice(0, 8);
   private readonly changeListeners = new Set<(event: TalkStoreChangeEvent) => void>();
-  private readonly stateLocks = new Map<string, Promise<unknown>>();
+  private readonly locks = new Map<string, Promise<unknown>>();
 
   // Caches
   private listTalksCache: TalkMeta[] | null = null;
   private contextCache = new Map<string, { content: string; expiresAt: number }>();
   private knowledgeIndexCache = new Map<string, { entries: KnowledgeIndexEntry[]; expiresAt: number }>();
+  private readonly searchIndex: MessageSearchIndex;
+  private readonly historyIndex: HistoryIndex;
 
   onChange(listener: (event: TalkStoreChangeEvent) => void): () => void {
     this.changeListeners.add(listener);
@@ -546,9 +669,26 @@ export class TalkStore {
     });
   }
 
+  /** Serialize async read-modify-write operations that share `key`. */
+  private async withLock<T>(key: string, op: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    const next = previous.then(op, op);
+    const marker = next.then(() => undefined, () => undefined);
+    this.locks.set(key, marker);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(key) === marker) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
   constructor(dataDir: string | undefined, logger: Logger) {
     this.talksDir = path.join(dataDir || DEFAULT_DATA_DIR, 'talks');
     this.logger = logger;
+    this.searchIndex = new MessageSearchIndex(this.talksDir, (talkId) => this.getMessages(talkId), logger);
+    this.historyIndex = new HistoryIndex(this.talksDir, (talkId) => this.getMessages(talkId), logger);
     // Constructor no longer calls sync loadAll — use init() instead
   }
 
@@ -577,44 +717,7 @@ export class TalkStore {
           const rawExecutionMode = typeof meta.executionMode === 'string'
             ? meta.executionMode.trim().toLowerCase()
             : '';
-          // Ensure arrays exist (for older files)
-          meta.pinnedMessageIds ??= [];
-          meta.jobs = normalizeJobs(meta.jobs);
-          meta.agents ??= [];
-          if (meta.agents.length === 0 && meta.model) {
-            meta.agents.push(buildDefaultAgent(meta.model));
-          }
-          meta.directives = normalizeDirectives(meta.directives);
-          meta.platformBindings = normalizeTalkPlatformBindings(meta.platformBindings);
-          meta.platformBehaviors = normalizePlatformBehaviors(meta.platformBehaviors, meta.platformBindings);
-          meta.toolMode = normalizeToolMode(meta.toolMode);
-          meta.executionMode = normalizeExecutionMode(meta.executionMode);
-          meta.filesystemAccess = normalizeFilesystemAccess(meta.filesystemAccess);
-          meta.networkAccess = normalizeNetworkAccess(meta.networkAccess);
-          meta.stateBackend = normalizeStateBackend(meta.stateBackend);
-          meta.toolsAllow = normalizeToolNames(meta.toolsAllow);
-          meta.toolsDeny = normalizeToolNames(meta.toolsDeny);
-          meta.googleAuthProfile = normalizeGoogleAuthProfile(meta.googleAuthProfile);
-          meta.defaultStateStream = normalizeOptionalStateStream(meta.defaultStateStream);
-          meta.diagnostics = normalizeDiagnostics(meta.diagnostics);
-          meta.talkVersion =
-            typeof meta.talkVersion === 'number' && Number.isFinite(meta.talkVersion)
-              ? Math.max(1, Math.floor(meta.talkVersion))
-              : 1;
-          meta.changeId =
-            typeof meta.changeId === 'string' && meta.changeId.trim()
-              ? meta.changeId
-              : randomUUID();
-          meta.lastModifiedAt =
-            typeof meta.lastModifiedAt === 'number' && Number.isFinite(meta.lastModifiedAt)
-              ? meta.lastModifiedAt
-              : meta.updatedAt;
-          if (meta.lastModifiedBy !== undefined && typeof meta.lastModifiedBy !== 'string') {
-            delete meta.lastModifiedBy;
-          }
-          if (meta.processing === undefined) {
-            meta.processing = false;
-          }
+          normalizeStoredMeta(meta);
           this.talks.set(meta.id, meta);
           this.invalidateListCache();
           if (rawExecutionMode && rawExecutionMode !== meta.executionMode) {
@@ -714,9 +817,9 @@ export class TalkStore {
     updates: Partial<
       Pick<
         TalkMeta,
-        'topicTitle' | 'objective' | 'model' | 'agents' | 'directives' | 'platformBindings' | 'platformBehaviors' | 'toolMode' | 'executionMode' | 'filesystemAccess' | 'networkAccess' | 'stateBackend' | 'toolsAllow' | 'toolsDeny' | 'skills' | 'googleAuthProfile' | 'defaultStateStream'
+        'topicTitle' | 'objective' | 'model' | 'fallbackModels' | 'agents' | 'directives' | 'platformBindings' | 'platformBehaviors' | 'toolMode' | 'executionMode' | 'filesystemAccess' | 'networkAccess' | 'stateBackend' | 'toolsAllow' | 'toolsDeny' | 'skills' | 'googleAuthProfile' | 'httpAllowedHosts' | 'defaultStateStream'
       >
-    >,
+    > & { budget?: TalkBudget | null },
     options?: { modifiedBy?: string },
   ): TalkMeta | null {
     const meta = this.talks.get(id);
@@ -725,6 +828,7 @@ export class TalkStore {
     if (updates.topicTitle !== undefined) meta.topicTitle = updates.topicTitle;
     if (updates.objective !== undefined) meta.objective = updates.objective;
     if (updates.model !== undefined) meta.model = updates.model;
+    if (updates.fallbackModels !== undefined) meta.fallbackModels = normalizeFallbackModels(updates.fallbackModels);
     if (updates.agents !== undefined) meta.agents = updates.agents;
     if (updates.directives !== undefined) meta.directives = normalizeDirectives(updates.directives);
     if (updates.platformBindings !== undefined) {
@@ -764,9 +868,17 @@ export class TalkStore {
     if (updates.googleAuthProfile !== undefined) {
       meta.googleAuthProfile = normalizeGoogleAuthProfile(updates.googleAuthProfile);
     }
+    if (updates.httpAllowedHosts !== undefined) {
+      meta.httpAllowedHosts = normalizeHttpAllowedHosts(updates.httpAllowedHosts);
+    }
     if (updates.defaultStateStream !== undefined) {
       meta.defaultStateStream = normalizeOptionalStateStream(updates.defaultStateStream);
     }
+    if (updates.budget !== undefined) {
+      meta.budget = normalizeTalkBudget(updates.budget);
+      // A new budget starts alerting from scratch.
+      delete meta.budgetAlert;
+    }
 
     // Bidirectional sync between talk.model and primary agent
     if (updates.model && (!meta.agents || meta.agents.length === 0)) {
@@ -815,6 +927,15 @@ export class TalkStore {
     return { ok: true, stream: DEFAULT_STATE_STREAM };
   }
 
+  /** Remember the highest budget threshold alerted this month (see talk-budget.ts). */
+  setBudgetAlert(talkId: string, state: TalkBudgetAlertState): TalkMeta | null {
+    const talk = this.talks.get(talkId);
+    if (!talk) return null;
+    talk.budgetAlert = state;
+    this.touchMeta(talk, 'budget_alerted');
+    return talk;
+  }
+
   listDiagnostics(talkId: string): TalkDiagnosticIssue[] {
     const talk = this.talks.get(talkId);
     if (!talk) return [];
@@ -909,6 +1030,8 @@ export class TalkStore {
     this.invalidateListCache();
     this.contextCache.delete(id);
     this.knowledgeIndexCache.delete(id);
+    this.searchIndex.forget(id);
+    this.historyIndex.forget(id);
     const now = Date.now();
     this.emitChange({
       type: 'deleted',
@@ -959,10 +1082,10 @@ export class TalkStore {
   /** Append a message to the Talk's history file. */
   async appendMessage(talkId: string, msg: TalkMessage, options?: { modifiedBy?: string }): Promise<void> {
     if (!isValidId(talkId)) return;
-    const dir = path.join(this.talksDir, talkId);
-    await fsp.mkdir(dir, { recursive: true });
-    const line = JSON.stringify(msg) + '\n';
-    await fsp.appendFile(path.join(dir, 'history.jsonl'), line, 'utf-8');
+    await getSecretRedactor().refresh();
+    this.redactMessage(talkId, msg);
+    await this.historyIndex.append(talkId, msg);
+    await this.searchIndex.indexMessage(talkId, msg);
 
     // Touch the talk
     const meta = this.talks.get(talkId);
@@ -971,6 +1094,16 @@ export class TalkStore {
     }
   }
 
+  /** Scrub configured secrets from a message's content and tool-call arguments, in place. */
+  private redactMessage(talkId: string, msg: TalkMessage): void {
+    const redactor = getSecretRedactor();
+    const context = { surface: 'message' as const, talkId, detail: msg.id };
+    msg.content = redactor.redact(msg.content, context);
+    for (const call of msg.tool_calls ?? []) {
+      call.function.arguments = redactor.redact(call.function.arguments, context);
+    }
+  }
+
   /** Read all messages from a Talk's history. */
   async getMessages(talkId: string): Promise<TalkMessage[]> {
     if (!isValidId(talkId)) return [];
@@ -993,75 +1126,24 @@ export class TalkStore {
   }
 
   /**
-   * Read the last N messages from history.
-   * For files < 64KB, does a full load + slice.
-   * For larger files, reads backwards in chunks (tail-first).
+   * Read one page of history through the offset index (see history-index.ts).
+   * Returns null when the talk id is invalid or the cursor message is unknown.
    */
-  async getRecentMessages(talkId: string, limit: number): Promise<TalkMessage[]> {
-    if (!isValidId(talkId)) return [];
-    const historyPath = path.join(this.talksDir, talkId, 'history.jsonl');
-
-    let stat: fs.Stats;
-    try {
-      stat = await fsp.stat(historyPath);
-    } catch {
-      return [];
-    }
-
-    // Small files: full load + slice (simpler, fast enough)
-    if (stat.size < SMALL_FILE_BYTES) {
-      const all = await this.getMessages(talkId);
-      return all.slice(-limit);
-    }
-
-    // Large files: read backwards in chunks
-    const fd = await fsp.open(historyPath, 'r');
-    try {
-      const messages: TalkMessage[] = [];
-      const chunkSize = 16 * 1024; // 16KB chunks
-      let position = stat.size;
-      let trailing = '';
-
-      while (position > 0 && messages.length < limit) {
-        const readSize = Math.min(chunkSize, position);
-        position -= readSize;
-        const buf = Buffer.alloc(readSize);
-        await fd.read(buf, 0, readSize, position);
-        const chunk = buf.toString('utf-8') + trailing;
-        trailing = '';
-
-        const lines = chunk.split('\n');
-        // First element may be a partial line (unless we're at the start of file)
-        if (position > 0) {
-          trailing = lines.shift()!;
-        }
-
-        // Process lines in reverse order
-        for (let i = lines.length - 1; i >= 0; i--) {
-          const line = lines[i].trim();
-          if (!line) continue;
-          try {
-            messages.unshift(JSON.parse(line) as TalkMessage);
-            if (messages.length >= limit) break;
-          } catch {
-            // skip malformed lines
-          }
-        }
-      }
+  async getMessagePage(talkId: string, options: MessagePageOptions = {}): Promise<MessagePage | null> {
+    if (!isValidId(talkId)) return null;
+    return this.historyIndex.page(talkId, options);
+  }
 
-      // Handle any remaining trailing data from the start of the file
-      if (trailing.trim() && messages.length < limit) {
-        try {
-          messages.unshift(JSON.parse(trailing) as TalkMessage);
-        } catch {
-          // skip malformed
-        }
-      }
+  /** See HistoryIndex.generation: unchanged while history only grows. */
+  getHistoryGeneration(talkId: string): number {
+    return this.historyIndex.generation(talkId);
+  }
 
-      return messages.slice(-limit);
-    } finally {
-      await fd.close();
-    }
+  /** Read the last N messages from history. */
+  async getRecentMessages(talkId: string, limit: number): Promise<TalkMessage[]> {
+    if (limit <= 0) return [];
+    const page = await this.getMessagePage(talkId, { limit });
+    return page?.messages ?? [];
   }
 
   /**
@@ -1115,14 +1197,15 @@ export class TalkStore {
       return { deleted: 0, remaining: existing.length };
     }
 
-    const history = await this.getMessages(talkId);
-    const remainingMessages = history.filter((msg) => !idSet.has(msg.id));
+    const { before: history, after: remainingMessages } = await this.historyIndex.rewrite(
+      talkId,
+      (messages) => messages.filter((msg) => !idSet.has(msg.id)),
+    );
     const deleted = history.length - remainingMessages.length;
-    const dir = path.join(this.talksDir, talkId);
-    await fsp.mkdir(dir, { recursive: true });
-    const historyPath = path.join(dir, 'history.jsonl');
-    const content = remainingMessages.map((m) => JSON.stringify(m)).join('\n');
-    await fsp.writeFile(historyPath, content ? `${content}\n` : '', 'utf-8');
+    if (deleted > 0) {
+      await this.searchIndex.removeMessages(talkId, [...idSet]);
+      await this.dropReplyVersions(talkId, idSet);
+    }
 
     const meta = this.talks.get(talkId);
     if (meta) {
@@ -1136,6 +1219,236 @@ export class TalkStore {
     return { deleted, remaining: remainingMessages.length };
   }
 
+  /**
+   * Full-text search over message history, across every talk or only
+   * `options.talkId`. Every query term must match; see message-search.ts.
+   */
+  async searchMessages(
+    query: string,
+    options: MessageSearchOptions & { talkId?: string } = {},
+  ): Promise<MessageSearchHit[]> {
+    const terms = parseSearchQuery(query);
+    if (terms.length === 0) return [];
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const talkIds = options.talkId
+      ? (this.talks.has(options.talkId) ? [options.talkId] : [])
+      : [...this.talks.keys()];
+
+    const scored: ScoredMessage[] = [];
+    for (const talkId of talkIds) {
+      scored.push(...await this.searchIndex.search(talkId, terms, options));
+    }
+    return this.searchIndex.attachSnippets(sortSearchHits(scored, options.sort).slice(0, limit), terms);
+  }
+
+  // -------------------------------------------------------------------------
+  // Message edits and reply versions
+  // -------------------------------------------------------------------------
+
+  /**
+   * Replace a message's content, keeping the previous content in
+   * `revisions`. Returns the updated message, or null when it does not exist.
+   */
+  async editMessage(
+    talkId: string,
+    messageId: string,
+    content: string,
+    options?: { modifiedBy?: string },
+  ): Promise<TalkMessage | null> {
+    if (!isValidId(talkId)) return null;
+    await getSecretRedactor().refresh();
+    content = getSecretRedactor().redact(content, { surface: 'message', talkId, detail: messageId });
+    let edited: TalkMessage | null = null;
+    await this.historyIndex.rewrite(talkId, (messages) => messages.map((msg) => {
+      if (msg.id !== messageId) return msg;
+      if (msg.content === content) {
+        edited = msg;
+        return msg;
+      }
+      const now = Date.now();
+      edited = {
+        ...msg,
+        content,
+        editedAt: now,
+        revisions: [...(msg.revisions ?? []), { content: msg.content, replacedAt: now }],
+      };
+      return edited;
+    }));
+    const updated = edited as TalkMessage | null;
+    if (!updated || updated.editedAt === undefined) return updated;
+
+    await this.searchIndex.removeMessages(talkId, [messageId]);
+    await this.searchIndex.indexMessage(talkId, updated);
+    const meta = this.talks.get(talkId);
+    if (meta) {
+      this.touchMeta(meta, 'message_edited', { modifiedBy: options?.modifiedBy });
+    }
+    return updated;
+  }
+
+  private replyVersionsPath(talkId: string): string {
+    return path.join(this.talksDir, talkId, 'reply-versions.json');
+  }
+
+  private async readReplyVersions(talkId: string): Promise<Record<string, TalkReplyVersionSet>> {
+    try {
+      const parsed = JSON.parse(await fsp.readFile(this.replyVersionsPath(talkId), 'utf-8'));
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private async writeReplyVersions(talkId: string, sets: Record<string, TalkReplyVersionSet>): Promise<void> {
+    if (Object.keys(sets).length === 0) {
+      await fsp.rm(this.replyVersionsPath(talkId), { force: true });
+      return;
+    }
+    await fsp.writeFile(this.replyVersionsPath(talkId), JSON.stringify(sets, null, 2), 'utf-8');
+  }
+
+  private async dropReplyVersions(talkId: string, anchorIds: Set<string>): Promise<void> {
+    await this.withLock(`${talkId}:reply-versions`, async () => {
+      const sets = await this.readReplyVersions(talkId);
+      const kept = Object.fromEntries(Object.entries(sets).filter(([anchorId]) => !anchorIds.has(anchorId)));
+      if (Object.keys(kept).length !== Object.keys(sets).length) {
+        await this.writeReplyVersions(talkId, kept);
+      }
+    });
+  }
+
+  /**
+   * Start a new reply version for the user turn containing `messageId` (the
+   * user message itself, or any message answering it). Everything after that
+   * user message is moved out of history into the version it belonged to, so
+   * the caller can generate a fresh reply. Returns null when there is no such
+   * message or no user message at or before it.
+   */
+  async startReplyVersion(
+    talkId: string,
+    messageId: string,
+    attribution: { model?: string; agentName?: string } = {},
+    options?: { modifiedBy?: string },
+  ): Promise<{ anchor: TalkMessage; set: TalkReplyVersionSet } | null> {
+    if (!isValidId(talkId) || !this.talks.has(talkId)) return null;
+    return this.withLock(`${talkId}:reply-versions`, async () => {
+      let anchor: TalkMessage | null = null;
+      let tail: TalkMessage[] = [];
+      await this.historyIndex.rewrite(talkId, (messages) => {
+        const target = messages.findIndex((msg) => msg.id === messageId);
+        let anchorIndex = target;
+        while (anchorIndex >= 0 && messages[anchorIndex].role !== 'user') anchorIndex -= 1;
+        if (target === -1 || anchorIndex === -1) return messages;
+        anchor = messages[anchorIndex];
+        tail = messages.slice(anchorIndex + 1);
+        return messages.slice(0, anchorIndex + 1);
+      });
+      const anchorMsg = anchor as TalkMessage | null;
+      if (!anchorMsg) return null;
+
+      const sets = await this.readReplyVersions(talkId);
+      const now = Date.now();
+      let set = sets[anchorMsg.id];
+      if (set) {
+        const active = set.versions.find((version) => version.id === set!.activeVersionId);
+        if (active) active.messages = tail;
+      } else {
+        set = { anchorMessageId: anchorMsg.id, activeVersionId: '', versions: [] };
+        if (tail.length > 0) {
+          const firstReply = tail.find((msg) => msg.role === 'assistant');
+          set.versions.push({
+            id: randomUUID(),
+            createdAt: firstReply?.timestamp ?? anchorMsg.timestamp,
+            ...(firstReply?.model && { model: firstReply.model }),
+            ...(firstReply?.agentName && { agentName: firstReply.agentName }),
+            messages: tail,
+          });
+        }
+      }
+      const version: TalkReplyVersion = {
+        id: randomUUID(),
+        createdAt: now,
+        ...(attribution.model && { model: attribution.model }),
+        ...(attribution.agentName && { agentName: attribution.agentName }),
+        messages: [],
+      };
+      set.versions.push(version);
+      set.activeVersionId = version.id;
+      sets[anchorMsg.id] = set;
+      await this.writeReplyVersions(talkId, sets);
+
+      if (tail.length > 0) {
+        await this.searchIndex.removeMessages(talkId, tail.map((msg) => msg.id));
+      }
+      const meta = this.talks.get(talkId);
+      if (meta) {
+        this.touchMeta(meta, 'reply_version_changed', { modifiedBy: options?.modifiedBy });
+      }
+      return { anchor: anchorMsg, set };
+    });
+  }
+
+  /** Reply version sets for a talk, or only the one anchored on `anchorMessageId`. */
+  async listReplyVersions(talkId: string, anchorMessageId?: string): Promise<TalkReplyVersionSet[]> {
+    if (!isValidId(talkId)) return [];
+    const sets = await this.readReplyVersions(talkId);
+    if (anchorMessageId !== undefined) {
+      return sets[anchorMessageId] ? [sets[anchorMessageId]] : [];
+    }
+    return Object.values(sets);
+  }
+
+  /**
+   * Make `versionId` the live reply to `anchorMessageId`: the current
+   * messages after the anchor are stored back into the active version and
+   * the chosen version's messages take their place. Returns null when the
+   * set, the version, or the anchor (in live history) does not exist.
+   */
+  async selectReplyVersion(
+    talkId: string,
+    anchorMessageId: string,
+    versionId: string,
+    options?: { modifiedBy?: string },
+  ): Promise<TalkReplyVersionSet | null> {
+    if (!isValidId(talkId)) return null;
+    return this.withLock(`${talkId}:reply-versions`, async () => {
+      const sets = await this.readReplyVersions(talkId);
+      const set = sets[anchorMessageId];
+      const chosen = set?.versions.find((version) => version.id === versionId);
+      if (!set || !chosen) return null;
+      if (set.activeVersionId === versionId) return set;
+
+      let tail: TalkMessage[] | null = null;
+      const restored = chosen.messages;
+      await this.historyIndex.rewrite(talkId, (messages) => {
+        const anchorIndex = messages.findIndex((msg) => msg.id === anchorMessageId);
+        if (anchorIndex === -1) return messages;
+        tail = messages.slice(anchorIndex + 1);
+        return [...messages.slice(0, anchorIndex + 1), ...restored];
+      });
+      const stored = tail as TalkMessage[] | null;
+      if (!stored) return null;
+
+      const active = set.versions.find((version) => version.id === set.activeVersionId);
+      if (active) active.messages = stored;
+      chosen.messages = [];
+      set.activeVersionId = chosen.id;
+      await this.writeReplyVersions(talkId, sets);
+
+      if (stored.length > 0) {
+        await this.searchIndex.removeMessages(talkId, stored.map((msg) => msg.id));
+      }
+      for (const msg of restored) {
+        await this.searchIndex.indexMessage(talkId, msg);
+      }
+      const meta = this.talks.get(talkId);
+      if (meta) {
+        this.touchMeta(meta, 'reply_version_changed', { modifiedBy: options?.modifiedBy });
+      }
+      return set;
+    });
+  }
+
   // -------------------------------------------------------------------------
   // Pin management
   // -------------------------------------------------------------------------
@@ -1312,11 +1625,13 @@ export class TalkStore {
     prompt: string,
     type?: 'once' | 'recurring' | 'event',
     output?: JobOutputDestination,
-    options?: { modifiedBy?: string },
+    options?: { modifiedBy?: string; runCap?: JobRunCap; priority?: JobPriority },
   ): TalkJob | null {
     const meta = this.talks.get(talkId);
     if (!meta) return null;
 
+    const runCap = normalizeJobRunCap(options?.runCap);
+    const priority = normalizeJobPriority(options?.priority);
     const job: TalkJob = {
       id: randomUUID(),
       type: type ?? 'recurring',
@@ -1325,6 +1640,8 @@ export class TalkStore {
       output: normalizeJobOutput(output),
       active: true,
       createdAt: Date.now(),
+      ...(runCap ? { runCap } : {}),
+      ...(priority && priority !== 'normal' ? { priority } : {}),
     };
 
     meta.jobs.push(job);
@@ -1346,7 +1663,8 @@ export class TalkStore {
   updateJob(
     talkId: string,
     jobId: string,
-    updates: Partial<Pick<TalkJob, 'active' | 'type' | 'schedule' | 'prompt' | 'output' | 'lastRunAt' | 'lastStatus'>>,
+    updates: Partial<Pick<TalkJob, 'active' | 'type' | 'schedule' | 'prompt' | 'output' | 'lastRunAt' | 'lastStatus'>>
+      & { runCap?: JobRunCap | null; priority?: JobPriority; deferredUntil?: number | null },
     options?: { modifiedBy?: string },
   ): TalkJob | null {
     const meta = this.talks.get(talkId);
@@ -1361,6 +1679,20 @@ export class TalkStore {
     if (updates.output !== undefined) job.output = normalizeJobOutput(updates.output);
     if (updates.lastRunAt !== undefined) job.lastRunAt = updates.lastRunAt;
     if (updates.lastStatus !== undefined) job.lastStatus = updates.lastStatus;
+    if (updates.runCap !== undefined) {
+      const runCap = normalizeJobRunCap(updates.runCap);
+      if (runCap) job.runCap = runCap;
+      else delete job.runCap;
+    }
+    if (updates.priority !== undefined) {
+      const priority = normalizeJobPriority(updates.priority);
+      if (priority && priority !== 'normal') job.priority = priority;
+      else delete job.priority;
+    }
+    if (updates.deferredUntil !== undefined) {
+      if (updates.deferredUntil === null) delete job.deferredUntil;
+      else job.deferredUntil = updates.deferredUntil;
+    }
     this.touchMeta(meta, 'job_updated', { modifiedBy: options?.modifiedBy });
     return job;
   }
@@ -1479,6 +1811,10 @@ export class TalkStore {
 
   async appendReport(talkId: string, report: JobReport): Promise<void> {
     if (!isValidId(talkId)) return;
+    const redactor = getSecretRedactor();
+    await redactor.refresh();
+    report.summary = redactor.redact(report.summary, { surface: 'job_report', talkId, detail: report.jobId });
+    report.fullOutput = redactor.redact(report.fullOutput, { surface: 'job_report', talkId, detail: report.jobId });
     const dir = path.join(this.talksDir, talkId);
     await fsp.mkdir(dir, { recursive: true });
     const line = JSON.stringify(report) + '\n';
@@ -1516,6 +1852,330 @@ export class TalkStore {
     return all.slice(-limit);
   }
 
+  // -------------------------------------------------------------------------
+  // Tool approvals (toolMode "confirm")
+  // -------------------------------------------------------------------------
+
+  private getToolApprovalsDir(talkId: string): string {
+    return path.join(this.talksDir, talkId, 'tool-approvals');
+  }
+
+  private readPendingToolCall(talkId: string, callId: string): PendingToolCall | null {
+    if (!isValidId(talkId) || !isValidId(callId)) return null;
+    try {
+      const raw = fs.readFileSync(path.join(this.getToolApprovalsDir(talkId), `${callId}.json`), 'utf-8');
+      return JSON.parse(raw) as PendingToolCall;
+    } catch {
+      return null;
+    }
+  }
+
+  private writePendingToolCall(call: PendingToolCall): void {
+    const dir = this.getToolApprovalsDir(call.talkId);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${call.id}.json`), JSON.stringify(call, null, 2), 'utf-8');
+  }
+
+  /** Persist a tool call paused for approval. */
+  addPendingToolCall(
+    talkId: string,
+    input: Omit<PendingToolCall, 'id' | 'talkId' | 'status' | 'createdAt'>,
+    options?: { modifiedBy?: string },
+  ): PendingToolCall | null {
+    const talk = this.talks.get(talkId);
+    if (!talk || !isValidId(talkId)) return null;
+    const call: PendingToolCall = {
+      ...input,
+      id: randomUUID(),
+      talkId,
+      status: 'pending',
+      createdAt: Date.now(),
+    };
+    this.writePendingToolCall(call);
+    this.touchMeta(talk, 'tool_approval_requested', { modifiedBy: options?.modifiedBy });
+    return call;
+  }
+
+  getPendingToolCall(talkId: string, callId: string): PendingToolCall | null {
+    if (!this.talks.has(talkId)) return null;
+    return this.readPendingToolCall(talkId, callId);
+  }
+
+  /** List approval records for a talk, newest first. */
+  listPendingToolCalls(
+    talkId: string,
+    filter?: { status?: PendingToolCallStatus; source?: PendingToolCall['source']; jobId?: string },
+  ): PendingToolCall[] {
+    if (!this.talks.has(talkId) || !isValidId(talkId)) return [];
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.getToolApprovalsDir(talkId)).filter((name) => name.endsWith('.json'));
+    } catch {
+      return [];
+    }
+    const calls: PendingToolCall[] = [];
+    for (const file of files) {
+      const call = this.readPendingToolCall(talkId, file.slice(0, -'.json'.length));
+      if (!call) continue;
+      if (filter?.status && call.status !== filter.status) continue;
+      if (filter?.source && call.source !== filter.source) continue;
+      if (filter?.jobId && call.jobId !== filter.jobId) continue;
+      calls.push(call);
+    }
+    return calls.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Record a decision on a pending call. Returns null when the call does not
+   * exist or was already resolved, so concurrent decisions cannot both win.
+   */
+  resolvePendingToolCall(
+    talkId: string,
+    callId: string,
+    decision: { status: Exclude<PendingToolCallStatus, 'pending'>; editedArguments?: string },
+    options?: { modifiedBy?: string },
+  ): PendingToolCall | null {
+    const talk = this.talks.get(talkId);
+    if (!talk) return null;
+    const call = this.readPendingToolCall(talkId, callId);
+    if (!call || call.status !== 'pending') return null;
+    call.status = decision.status;
+    call.resolvedAt = Date.now();
+    if (options?.modifiedBy) call.resolvedBy = options.modifiedBy;
+    if (decision.editedArguments !== undefined) call.editedArguments = decision.editedArguments;
+    this.writePendingToolCall(call);
+    this.touchMeta(talk, 'tool_approval_resolved', { modifiedBy: options?.modifiedBy });
+    return call;
+  }
+
+  /** Expire pending calls (e.g. chat approvals superseded by a newer turn). */
+  expirePendingToolCalls(
+    talkId: string,
+    filter?: { source?: PendingToolCall['source']; jobId?: string },
+    options?: { modifiedBy?: string },
+  ): number {
+    const pending = this.listPendingToolCalls(talkId, { ...filter, status: 'pending' });
+    let expired = 0;
+    for (const call of pending) {
+      if (this.resolvePendingToolCall(talkId, call.id, { status: 'expired' }, options)) expired += 1;
+    }
+    return expired;
+  }
+
+  // -------------------------------------------------------------------------
+  // Export / import bundles
+  // -------------------------------------------------------------------------
+
+  /** State streams that have a directory under `state/`. */
+  async listStateStreams(talkId: string): Promise<string[]> {
+    if (!isValidId(talkId)) return [];
+    try {
+      const entries = await fsp.readdir(path.join(this.talksDir, talkId, 'state'), { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isDirectory() && normalizeStateStream(entry.name) === entry.name)
+        .map((entry) => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Collect a talk's portable data. Caches, indexes, affinity data and
+   * pending tool approvals are left out; they are rebuilt or gateway-local.
+   */
+  async exportTalk(talkId: string): Promise<TalkBundle | null> {
+    const meta = this.talks.get(talkId);
+    if (!meta) return null;
+    const knowledgeIndex = await this.getKnowledgeIndex(talkId);
+    const stateStreams: TalkBundle['stateStreams'] = [];
+    for (const stream of await this.listStateStreams(talkId)) {
+      stateStreams.push({
+        stream,
+        events: await this.getStateEvents(talkId, stream),
+        policy: (await this.getStatePolicy(talkId, stream))!,
+      });
+    }
+    return {
+      meta: { ...meta, processing: false },
+      messages: await this.getMessages(talkId),
+      contextMd: await this.getContextMd(talkId),
+      knowledgeIndex,
+      knowledgeTopics: await this.listKnowledgeTopicContents(talkId, knowledgeIndex.map((entry) => entry.slug)),
+      reports: await this.getReports(talkId),
+      stateStreams,
+    };
+  }
+
+  /**
+   * Recreate a talk from a validated bundle. Keeps the bundle's talk id
+   * unless it is taken here, in which case the copy gets a fresh id and
+   * its platform bindings are dropped and jobs paused so it cannot compete
+   * with the original.
+   */
+  async importTalk(
+    bundle: TalkBundle,
+    options?: { modifiedBy?: string; pauseJobs?: boolean },
+  ): Promise<{ talk: TalkMeta; originalId: string; remapped: boolean; warnings: string[] }> {
+    const originalId = bundle.meta.id;
+    const remapped = !isValidId(originalId) || this.talks.has(originalId);
+    const id = remapped ? randomUUID() : originalId;
+    const warnings: string[] = [];
+
+    const meta = normalizeStoredMeta({ ...bundle.meta, id, processing: false });
+    if (remapped) {
+      if ((meta.platformBindings?.length ?? 0) > 0) {
+        warnings.push('Platform bindings were removed because the original talk exists on this gateway.');
+      }
+      meta.platformBindings = [];
+      meta.platformBehaviors = [];
+      if (meta.jobs.some((job) => job.active)) {
+        warnings.push('Jobs were paused because the original talk exists on this gateway.');
+      }
+      meta.jobs = meta.jobs.map((job) => ({ ...job, active: false }));
+    } else if (options?.pauseJobs) {
+      if (meta.jobs.some((job) => job.active)) {
+        warnings.push('Jobs were paused because only admin devices can import active jobs.');
+      }
+      meta.jobs = meta.jobs.map((job) => ({ ...job, active: false }));
+    }
+    const messageIds = new Set(bundle.messages.map((msg) => msg.id));
+    meta.pinnedMessageIds = meta.pinnedMessageIds.filter((msgId) => messageIds.has(msgId));
+    meta.talkVersion = 1;
+    meta.changeId = randomUUID();
+    meta.lastModifiedAt = Date.now();
+    meta.lastModifiedBy = options?.modifiedBy || 'gateway';
+
+    const dir = path.join(this.talksDir, id);
+    try {
+      await fsp.mkdir(dir, { recursive: true });
+      await this.historyIndex.rewrite(id, () => bundle.messages);
+      if (bundle.contextMd) await this.setContextMd(id, bundle.contextMd);
+      for (const topic of bundle.knowledgeTopics) {
+        await fsp.mkdir(this.knowledgeDir(id), { recursive: true });
+        await fsp.writeFile(path.join(this.knowledgeDir(id), `${topic.slug}.md`), topic.content, 'utf-8');
+      }
+      if (bundle.knowledgeIndex.length > 0) await this.setKnowledgeIndex(id, bundle.knowledgeIndex);
+      if (bundle.reports.length > 0) {
+        const lines = bundle.reports.map((report) => JSON.stringify({ ...report, talkId: id }));
+        await fsp.writeFile(path.join(dir, 'reports.jsonl'), `${lines.join('\n')}\n`, 'utf-8');
+      }
+      for (const { stream, events, policy } of bundle.stateStreams) {
+        await fsp.mkdir(this.getStateBaseDir(id, stream), { recursive: true });
+        const lines = events.map((event) => JSON.stringify(event));
+        await fsp.writeFile(this.getStateEventsPath(id, stream), lines.length ? `${lines.join('\n')}\n` : '', 'utf-8');
+        await fsp.writeFile(this.getStatePolicyPath(id, stream), JSON.stringify(policy, null, 2), 'utf-8');
+      }
+      // talk.json last, so a failed import never leaves a loadable half-written talk.
+      await fsp.writeFile(path.join(dir, 'talk.json'), JSON.stringify(meta, null, 2));
+    } catch (err) {
+      this.contextCache.delete(id);
+      this.knowledgeIndexCache.delete(id);
+      this.historyIndex.forget(id);
+      await fsp.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+      throw err;
+    }
+
+    this.talks.set(id, meta);
+    this.touchMeta(meta, 'created', { modifiedBy: options?.modifiedBy, skipVersionBump: true });
+    return { talk: meta, originalId, remapped, warnings };
+  }
+
+  // -------------------------------------------------------------------------
+  // Forking
+  // -------------------------------------------------------------------------
+
+  /**
+   * Branch a talk at `fromMessageId`: a new talk with the parent's settings,
+   * agents, directives and knowledge, and history up to and including that
+   * message (plus the tool results answering it, if it made tool calls).
+   * Jobs, platform bindings, context.md and state streams are not copied.
+   * Returns null when the talk or message does not exist.
+   */
+  async forkTalk(
+    talkId: string,
+    fromMessageId: string,
+    options?: { topicTitle?: string; modifiedBy?: string },
+  ): Promise<TalkMeta | null> {
+    const parent = this.talks.get(talkId);
+    if (!parent || !isValidId(talkId)) return null;
+    const history = await this.getMessages(talkId);
+    const cut = history.findIndex((msg) => msg.id === fromMessageId);
+    if (cut === -1) return null;
+    let end = cut + 1;
+    const pendingCallIds = new Set((history[cut].tool_calls ?? []).map((call) => call.id));
+    while (end < history.length && history[end].role === 'tool' && pendingCallIds.has(history[end].tool_call_id ?? '')) {
+      end += 1;
+    }
+    const messages = history.slice(0, end);
+    const copiedIds = new Set(messages.map((msg) => msg.id));
+
+    const id = randomUUID();
+    const now = Date.now();
+    const meta: TalkMeta = {
+      id,
+      talkVersion: 1,
+      changeId: randomUUID(),
+      lastModifiedBy: options?.modifiedBy || 'gateway',
+      lastModifiedAt: now,
+      topicTitle: options?.topicTitle?.trim() || (parent.topicTitle ? `${parent.topicTitle} (fork)` : undefined),
+      objective: parent.objective,
+      model: parent.model,
+      ...(parent.fallbackModels ? { fallbackModels: [...parent.fallbackModels] } : {}),
+      toolMode: parent.toolMode,
+      executionMode: parent.executionMode,
+      filesystemAccess: parent.filesystemAccess,
+      networkAccess: parent.networkAccess,
+      toolsAllow: [...(parent.toolsAllow ?? [])],
+      toolsDeny: [...(parent.toolsDeny ?? [])],
+      ...(parent.skills ? { skills: [...parent.skills] } : {}),
+      googleAuthProfile: parent.googleAuthProfile,
+      httpAllowedHosts: [...(parent.httpAllowedHosts ?? [])],
+      stateBackend: parent.stateBackend,
+      defaultStateStream: parent.defaultStateStream,
+      ...(parent.budget ? { budget: structuredClone(parent.budget) } : {}),
+      diagnostics: [],
+      pinnedMessageIds: parent.pinnedMessageIds.filter((msgId) => copiedIds.has(msgId)),
+      jobs: [],
+      agents: structuredClone(parent.agents ?? []),
+      directives: structuredClone(parent.directives ?? []),
+      platformBindings: [],
+      platformBehaviors: [],
+      processing: false,
+      parentTalkId: parent.id,
+      forkedFromMessageId: fromMessageId,
+      forkedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const dir = path.join(this.talksDir, id);
+    try {
+      await fsp.mkdir(dir, { recursive: true });
+      await this.historyIndex.rewrite(id, () => messages);
+      const knowledgeDir = this.knowledgeDir(talkId);
+      if (fs.existsSync(knowledgeDir)) {
+        await fsp.cp(knowledgeDir, this.knowledgeDir(id), { recursive: true });
+      }
+      await fsp.writeFile(path.join(dir, 'talk.json'), JSON.stringify(meta, null, 2));
+    } catch (err) {
+      this.historyIndex.forget(id);
+      await fsp.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+      throw err;
+    }
+
+    this.talks.set(id, meta);
+    this.touchMeta(meta, 'created', { modifiedBy: options?.modifiedBy, skipVersionBump: true });
+    return meta;
+  }
+
+  /** Talks forked directly from `talkId`, oldest first. */
+  listForks(talkId: string): TalkMeta[] {
+    return [...this.talks.values()]
+      .filter((talk) => talk.parentTalkId === talkId)
+      .sort((a, b) => (a.forkedAt ?? a.createdAt) - (b.forkedAt ?? b.createdAt));
+  }
+
   // -------------------------------------------------------------------------
   // Structured talk state (event ledger + snapshot)
   // -------------------------------------------------------------------------
@@ -1537,18 +2197,7 @@ export class TalkStore {
   }
 
   private async withStateLock<T>(talkId: string, stream: string, op: () => Promise<T>): Promise<T> {
-    const key = `${talkId}:${normalizeStateStream(stream)}`;
-    const previous = this.stateLocks.get(key) ?? Promise.resolve();
-    const next = previous.then(op, op);
-    const marker = next.then(() => undefined, () => undefined);
-    this.stateLocks.set(key, marker);
-    try {
-      return await next;
-    } finally {
-      if (this.stateLocks.get(key) === marker) {
-        this.stateLocks.delete(key);
-      }
-    }
+    return this.withLock(`${talkId}:state:${normalizeStateStream(stream)}`, op);
   }
 
   private async readStateEvents(talkId: string, stream: string): Promise<TalkStateEvent[]> {
@@ -1584,6 +2233,10 @@ export class TalkStore {
   }
 
 
+  /**
+   * Merge policy updates (validate them first with validateStatePolicyUpdates).
+   * Changing the reducer resets the reducer-specific fields.
+   */
   async configureStatePolicy(
     talkId: string,
     streamRaw: string,
@@ -1596,7 +2249,7 @@ export class TalkStore {
     const stream = normalizeStateStream(streamRaw);
     return this.withStateLock(talkId, stream, async () => {
       const current = await this.readStatePolicy(talkId, stream);
-      const next = normalizeStatePolicy(stream, { ...current, ...updates, updatedAt: Date.now() });
+      const next = mergeStatePolicy(stream, current, updates);
       const baseDir = this.getStateBaseDir(talkId, stream);
       await fsp.mkdir(baseDir, { recursive: true });
       await fsp.writeFile(this.getStatePolicyPath(talkId, stream), JSON.stringify(next, null, 2), 'utf-8');
@@ -1612,6 +2265,11 @@ export class TalkStore {
     return this.readStatePolicy(talkId, stream);
   }
 
+  /**
+   * Append an event and return the updated snapshot. Throws
+   * `Invalid state event: ...` (nothing is written) when the stream's reducer
+   * rejects the event.
+   */
   async appendStateEvent(
     talkId: string,
     streamRaw: string,
@@ -1630,8 +2288,6 @@ export class TalkStore {
     const stream = normalizeStateStream(streamRaw);
 
     return this.withStateLock(talkId, stream, async () => {
-      const baseDir = this.getStateBaseDir(talkId, stream);
-      await fsp.mkdir(baseDir, { recursive: true });
       const events = await this.readStateEvents(talkId, stream);
       const policy = await this.readStatePolicy(talkId, stream);
       const idempotencyKey = input.idempotencyKey?.trim();
@@ -1644,12 +2300,18 @@ export class TalkStore {
         return { applied: false, event: existing, snapshot };
       }
 
+      const type = input.type.trim();
+      const payload = input.payload ?? {};
+      const error = validateStateEvent(policy, type, payload);
+      if (error) throw new Error(`Invalid state event: ${error}`);
+      await fsp.mkdir(this.getStateBaseDir(talkId, stream), { recursive: true });
+
       const event: TalkStateEvent = {
         id: randomUUID(),
         stream,
         sequence: (events[events.length - 1]?.sequence ?? 0) + 1,
-        type: input.type.trim(),
-        payload: input.payload ?? {},
+        type,
+        payload,
         occurredAt: typeof input.occurredAt === 'number' && Number.isFinite(input.occurredAt)
           ? input.occurredAt
           : Date.now(),
@@ -1716,48 +2378,3 @@ export class TalkStore {
     return path.dirname(this.talksDir);
   }
 }
-
-// ---------------------------------------------------------------------------
-// Knowledge topic matching
-// ---------------------------------------------------------------------------
-
-const STOP_WORDS = new Set([
-  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'had',
-  'her', 'was', 'one', 'our', 'out', 'has', 'have', 'been', 'some', 'them',
-  'than', 'its', 'over', 'also', 'that', 'this', 'from', 'they', 'with',
-  'what', 'how', 'who', 'which', 'when', 'where', 'will', 'each', 'make',
-  'like', 'just', 'into', 'about', 'could', 'would', 'should', 'does',
-  'doing', 'being', 'there', 'their', 'then', 'more', 'very', 'here',
-]);
-
-function extractWords(text: string): Set<string> {
-  const words = new Set<string>();
-  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
-    if (word.length >= 3 && !STOP_WORDS.has(word)) {
-      words.add(word);
-    }
-  }
-  return words;
-}
-
-/**
- * Match knowledge topics whose slug or summary words overlap with message words.
- * Returns matching slugs.
- */
-export function matchKnowledgeTopics(message: string, index: KnowledgeIndexEntry[]): string[] {
-  if (index.length === 0) return [];
-  const messageWords = extractWords(message);
-  if (messageWords.size === 0) return [];
-
-  const matched: string[] = [];
-  for (const entry of index) {
-    const topicWords = extractWords(entry.slug.replace(/-/g, ' ') + ' ' + entry.summary);
-    for (const word of topicWords) {
-      if (messageWords.has(word)) {
-        matched.push(entry.slug);
-        break;
-      }
-    }
-  }
-  return matched;
-}
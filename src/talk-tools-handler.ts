@@ -8,6 +8,7 @@
 import type { HandlerContext } from './types.js';
 import type { TalkStore } from './talk-store.js';
 import type { ToolRegistry } from './tool-registry.js';
+import { normalizeDynamicToolExecution, type DynamicToolExecution } from './dynamic-tools.js';
 import { sendJson, readJsonBody } from './http.js';
 import { getToolCatalog } from './tool-catalog.js';
 import {
@@ -27,6 +28,8 @@ import { isOpenClawNativeGoogleTool } from './openclaw-native-tools.js';
 import {
   completeGoogleOAuthConnect,
   getGoogleOAuthConnectSessionStatus,
+  GOOGLE_OAUTH_FEATURES,
+  type GoogleOAuthFeature,
   googleDocsAuthStatus,
   googleDocsAuthStatusForProfile,
   listGoogleDocsAuthProfiles,
@@ -34,6 +37,19 @@ import {
   startGoogleOAuthConnect,
   upsertGoogleDocsAuthConfig,
 } from './google-docs.js';
+import {
+  githubAuthStatus,
+  listGithubAuthProfiles,
+  setGithubActiveProfile,
+  upsertGithubAuthConfig,
+} from './github.js';
+import {
+  listNotionAuthProfiles,
+  notionAuthStatus,
+  setNotionActiveProfile,
+  upsertNotionAuthConfig,
+} from './notion.js';
+import { getHttpApiClientStore } from './http-api-client.js';
 import { DEFAULT_GATEWAY_PORT } from './constants.js';
 import {
   requireTalkPreconditionVersion,
@@ -131,9 +147,13 @@ export async function handleGetTalkTools(
   const registeredTools = registry?.listTools() ?? [];
   const allTools = registeredTools;
   const googleAuthStatus = await googleDocsAuthStatusForProfile(talk.googleAuthProfile);
+  const githubStatus = await githubAuthStatus(undefined);
+  const notionStatus = await notionAuthStatus(undefined);
   const isAuthReady = buildTalkAuthReadyResolver({
     googleOAuthReady: Boolean(googleAuthStatus.accessTokenReady),
     googleAuthProfile: talk.googleAuthProfile,
+    githubTokenReady: githubStatus.hasToken,
+    notionTokenReady: notionStatus.hasToken,
     getToolRequiredAuth: (toolName) => catalog.getToolRequiredAuth(toolName),
   });
   const availabilityOptions = {
@@ -186,6 +206,7 @@ export async function handleGetTalkTools(
     toolsAllow: talk.toolsAllow ?? [],
     toolsDeny: talk.toolsDeny ?? [],
     googleAuthProfile: talk.googleAuthProfile,
+    httpAllowedHosts: talk.httpAllowedHosts ?? [],
     defaultStateStream: talk.defaultStateStream,
     availableTools: allTools,
     enabledTools,
@@ -209,6 +230,7 @@ export async function handleUpdateTalkTools(
     toolsAllow?: string[];
     toolsDeny?: string[];
     googleAuthProfile?: string;
+    httpAllowedHosts?: string[];
     defaultStateStream?: string;
   };
   try {
@@ -259,6 +281,10 @@ export async function handleUpdateTalkTools(
     sendJson(ctx.res, 400, { error: 'googleAuthProfile must be a string' });
     return;
   }
+  if (body.httpAllowedHosts !== undefined && !Array.isArray(body.httpAllowedHosts)) {
+    sendJson(ctx.res, 400, { error: 'httpAllowedHosts must be an array of hostnames' });
+    return;
+  }
   const defaultStateStream = normalizeStateStreamInput(body.defaultStateStream);
   if (body.defaultStateStream !== undefined && defaultStateStream === undefined) {
     sendJson(ctx.res, 400, { error: 'defaultStateStream must be a string' });
@@ -274,6 +300,7 @@ export async function handleUpdateTalkTools(
     ...(toolsAllow !== undefined ? { toolsAllow } : {}),
     ...(toolsDeny !== undefined ? { toolsDeny } : {}),
     ...(googleAuthProfile !== undefined ? { googleAuthProfile: googleAuthProfile || undefined } : {}),
+    ...(body.httpAllowedHosts !== undefined ? { httpAllowedHosts: body.httpAllowedHosts } : {}),
     ...(defaultStateStream !== undefined ? { defaultStateStream: defaultStateStream || undefined } : {}),
   }, { modifiedBy });
   if (!updated) {
@@ -291,9 +318,13 @@ export async function handleUpdateTalkTools(
   const registeredTools = registry?.listTools() ?? [];
   const allTools = registeredTools;
   const googleAuthStatus = await googleDocsAuthStatusForProfile(updated.googleAuthProfile);
+  const githubStatus = await githubAuthStatus(undefined);
+  const notionStatus = await notionAuthStatus(undefined);
   const isAuthReady = buildTalkAuthReadyResolver({
     googleOAuthReady: Boolean(googleAuthStatus.accessTokenReady),
     googleAuthProfile: updated.googleAuthProfile,
+    githubTokenReady: githubStatus.hasToken,
+    notionTokenReady: notionStatus.hasToken,
     getToolRequiredAuth: (toolName) => catalog.getToolRequiredAuth(toolName),
   });
   const availabilityOptions = {
@@ -346,6 +377,7 @@ export async function handleUpdateTalkTools(
     toolsAllow: updated.toolsAllow ?? [],
     toolsDeny: updated.toolsDeny ?? [],
     googleAuthProfile: updated.googleAuthProfile,
+    httpAllowedHosts: updated.httpAllowedHosts ?? [],
     defaultStateStream: updated.defaultStateStream,
     availableTools: allTools,
     enabledTools,
@@ -474,6 +506,12 @@ export async function handleGoogleOAuthCallback(ctx: HandlerContext): Promise<vo
   ctx.res.end(html);
 }
 
+/** Catalog entry whose installation opts a connect flow into a feature's scopes. */
+const GOOGLE_OAUTH_FEATURE_CATALOG_IDS: Record<GoogleOAuthFeature, string> = {
+  calendar: 'calendar_google',
+  gmail: 'email_gmail',
+};
+
 // ---------------------------------------------------------------------------
 // /api/tools routes (tool management, catalog, Google OAuth start/status)
 // ---------------------------------------------------------------------------
@@ -484,8 +522,10 @@ export async function handleToolRoutes(ctx: HandlerContext, registry: ToolRegist
   const catalog = getToolCatalog(ctx.pluginCfg.dataDir, ctx.logger);
 
   // POST /api/tools/google/oauth/start — start browser OAuth flow.
+  // Optional `features` (e.g. ["calendar"]) add scopes on top of Docs/Drive;
+  // by default a feature's scopes are requested once its catalog tools are installed.
   if (pathname === '/api/tools/google/oauth/start' && req.method === 'POST') {
-    let body: { profile?: string };
+    let body: { profile?: string; features?: unknown };
     try {
       body = (await readJsonBody(req)) as typeof body;
     } catch {
@@ -497,12 +537,25 @@ export async function handleToolRoutes(ctx: HandlerContext, registry: ToolRegist
       sendJson(res, 400, { error: 'profile must be a non-empty string when provided' });
       return;
     }
+    let features: GoogleOAuthFeature[];
+    if (body.features === undefined) {
+      const installed = new Set(catalog.getInstalledIds());
+      features = GOOGLE_OAUTH_FEATURES.filter((feature) => installed.has(GOOGLE_OAUTH_FEATURE_CATALOG_IDS[feature]));
+    } else if (
+      Array.isArray(body.features)
+      && body.features.every((feature) => GOOGLE_OAUTH_FEATURES.includes(feature as GoogleOAuthFeature))
+    ) {
+      features = body.features as GoogleOAuthFeature[];
+    } else {
+      sendJson(res, 400, { error: `features must be an array of: ${GOOGLE_OAUTH_FEATURES.join(', ')}` });
+      return;
+    }
     const proto = (ctx.req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0]?.trim()
       || ((ctx.req.socket as any)?.encrypted ? 'https' : 'http');
     const host = ctx.req.headers.host ?? `localhost:${DEFAULT_GATEWAY_PORT}`;
     const redirectUri = `${proto}://${host}/api/tools/google/oauth/callback`;
     try {
-      const started = await startGoogleOAuthConnect({ redirectUri, profile: profile || undefined });
+      const started = await startGoogleOAuthConnect({ redirectUri, profile: profile || undefined, features });
       sendJson(res, 200, started);
     } catch (err) {
       sendJson(res, 400, { error: err instanceof Error ? err.message : String(err) });
@@ -543,6 +596,58 @@ export async function handleToolRoutes(ctx: HandlerContext, registry: ToolRegist
           clientId?: string;
           clientSecret?: string;
           tokenUri?: string;
+        }
+      | {
+          action?: 'github_auth_status';
+          profile?: string;
+        }
+      | {
+          action?: 'github_auth_profiles';
+        }
+      | {
+          action?: 'github_auth_use_profile';
+          profile?: string;
+        }
+      | {
+          action?: 'github_auth_config';
+          profile?: string;
+          setActive?: boolean;
+          token?: string;
+          apiBaseUrl?: string;
+        }
+      | {
+          action?: 'notion_auth_status';
+          profile?: string;
+        }
+      | {
+          action?: 'notion_auth_profiles';
+        }
+      | {
+          action?: 'notion_auth_use_profile';
+          profile?: string;
+        }
+      | {
+          action?: 'notion_auth_config';
+          profile?: string;
+          setActive?: boolean;
+          token?: string;
+        }
+      | {
+          action?: 'http_api_status';
+        }
+      | {
+          action?: 'http_api_set_allowed_hosts';
+          hosts?: string[];
+        }
+      | {
+          action?: 'http_api_set_secret';
+          name?: string;
+          value?: string;
+          hosts?: string[];
+        }
+      | {
+          action?: 'http_api_delete_secret';
+          name?: string;
         };
     try {
       body = (await readJsonBody(req)) as typeof body;
@@ -618,6 +723,160 @@ export async function handleToolRoutes(ctx: HandlerContext, registry: ToolRegist
       return;
     }
 
+    if (body.action === 'github_auth_status') {
+      const statusReq = body as { profile?: string };
+      const profile = normalizeGoogleAuthProfileInput(statusReq.profile);
+      if (statusReq.profile !== undefined && profile === undefined) {
+        sendJson(res, 400, { error: 'profile must be a string' });
+        return;
+      }
+      const status = await githubAuthStatus(profile || undefined, { verify: true });
+      sendJson(res, 200, { status });
+      return;
+    }
+
+    if (body.action === 'github_auth_profiles') {
+      const profiles = await listGithubAuthProfiles();
+      sendJson(res, 200, { profiles });
+      return;
+    }
+
+    if (body.action === 'github_auth_use_profile') {
+      const payload = body as { profile?: string };
+      const profile = normalizeGoogleAuthProfileInput(payload.profile);
+      if (!profile) {
+        sendJson(res, 400, { error: 'profile is required' });
+        return;
+      }
+      const updated = await setGithubActiveProfile(profile);
+      const status = await githubAuthStatus(profile);
+      sendJson(res, 200, { updated, status });
+      return;
+    }
+
+    if (body.action === 'github_auth_config') {
+      const payload = body as {
+        profile?: string;
+        setActive?: boolean;
+        token?: string;
+        apiBaseUrl?: string;
+      };
+      const profile = normalizeGoogleAuthProfileInput(payload.profile);
+      if (payload.profile !== undefined && !profile) {
+        sendJson(res, 400, { error: 'profile must be a non-empty string when provided' });
+        return;
+      }
+      if (
+        (payload.token !== undefined && typeof payload.token !== 'string')
+        || (payload.apiBaseUrl !== undefined && typeof payload.apiBaseUrl !== 'string')
+      ) {
+        sendJson(res, 400, { error: 'token and apiBaseUrl must be strings' });
+        return;
+      }
+      if (payload.token === undefined && payload.apiBaseUrl === undefined) {
+        sendJson(res, 400, { error: 'Expected at least one of: token, apiBaseUrl' });
+        return;
+      }
+      const updated = await upsertGithubAuthConfig({
+        profile,
+        setActive: payload.setActive === true,
+        token: payload.token,
+        apiBaseUrl: payload.apiBaseUrl,
+      });
+      const status = await githubAuthStatus(updated.profile, { verify: true });
+      sendJson(res, 200, { updated, status });
+      return;
+    }
+
+    if (body.action === 'notion_auth_status') {
+      const statusReq = body as { profile?: string };
+      const profile = normalizeGoogleAuthProfileInput(statusReq.profile);
+      if (statusReq.profile !== undefined && profile === undefined) {
+        sendJson(res, 400, { error: 'profile must be a string' });
+        return;
+      }
+      const status = await notionAuthStatus(profile || undefined, { verify: true });
+      sendJson(res, 200, { status });
+      return;
+    }
+
+    if (body.action === 'notion_auth_profiles') {
+      const profiles = await listNotionAuthProfiles();
+      sendJson(res, 200, { profiles });
+      return;
+    }
+
+    if (body.action === 'notion_auth_use_profile') {
+      const payload = body as { profile?: string };
+      const profile = normalizeGoogleAuthProfileInput(payload.profile);
+      if (!profile) {
+        sendJson(res, 400, { error: 'profile is required' });
+        return;
+      }
+      const updated = await setNotionActiveProfile(profile);
+      const status = await notionAuthStatus(profile);
+      sendJson(res, 200, { updated, status });
+      return;
+    }
+
+    if (body.action === 'notion_auth_config') {
+      const payload = body as { profile?: string; setActive?: boolean; token?: string };
+      const profile = normalizeGoogleAuthProfileInput(payload.profile);
+      if (payload.profile !== undefined && !profile) {
+        sendJson(res, 400, { error: 'profile must be a non-empty string when provided' });
+        return;
+      }
+      if (typeof payload.token !== 'string') {
+        sendJson(res, 400, { error: 'token is required' });
+        return;
+      }
+      const updated = await upsertNotionAuthConfig({
+        profile,
+        setActive: payload.setActive === true,
+        token: payload.token,
+      });
+      const status = await notionAuthStatus(updated.profile, { verify: true });
+      sendJson(res, 200, { updated, status });
+      return;
+    }
+
+    if (body.action?.startsWith('http_api_')) {
+      const httpApi = getHttpApiClientStore(ctx.pluginCfg.dataDir, ctx.logger);
+      const payload = body as { hosts?: unknown; name?: unknown; value?: unknown };
+      if (body.action === 'http_api_set_allowed_hosts') {
+        if (!Array.isArray(payload.hosts)) {
+          sendJson(res, 400, { error: 'hosts must be an array of hostnames' });
+          return;
+        }
+        httpApi.setAllowedHosts(payload.hosts);
+      } else if (body.action === 'http_api_set_secret') {
+        if (typeof payload.name !== 'string' || typeof payload.value !== 'string') {
+          sendJson(res, 400, { error: 'name and value must be strings' });
+          return;
+        }
+        if (payload.hosts !== undefined && !Array.isArray(payload.hosts)) {
+          sendJson(res, 400, { error: 'hosts must be an array of hostnames' });
+          return;
+        }
+        const stored = httpApi.setSecret(payload.name, payload.value, payload.hosts);
+        if (!stored.ok) {
+          sendJson(res, 400, { error: stored.error });
+          return;
+        }
+      } else if (body.action === 'http_api_delete_secret') {
+        if (typeof payload.name !== 'string' || !httpApi.deleteSecret(payload.name)) {
+          sendJson(res, 404, { error: 'Secret not found' });
+          return;
+        }
+      } else if (body.action !== 'http_api_status') {
+        sendJson(res, 400, { error: 'Unknown PATCH /api/tools action' });
+        return;
+      }
+      // Secret values are write-only; only names and host bindings are returned.
+      sendJson(res, 200, { allowedHosts: httpApi.getAllowedHosts(), secrets: httpApi.listSecrets() });
+      return;
+    }
+
     sendJson(res, 400, { error: 'Unknown PATCH /api/tools action' });
     return;
   }
@@ -708,7 +967,7 @@ export async function handleToolRoutes(ctx: HandlerContext, registry: ToolRegist
 
   // POST /api/tools — register a new tool
   if (pathname === '/api/tools' && req.method === 'POST') {
-    let body: { name?: string; description?: string; parameters?: any };
+    let body: { name?: string; description?: string; parameters?: any; execution?: unknown };
     try {
       body = (await readJsonBody(req)) as typeof body;
     } catch {
@@ -721,8 +980,18 @@ export async function handleToolRoutes(ctx: HandlerContext, registry: ToolRegist
       return;
     }
 
+    let execution: DynamicToolExecution | undefined;
+    if (body.execution !== undefined) {
+      const parsed = normalizeDynamicToolExecution(body.execution);
+      if (!parsed.ok) {
+        sendJson(res, 400, { error: parsed.error });
+        return;
+      }
+      execution = parsed.execution;
+    }
+
     const parameters = body.parameters ?? { type: 'object', properties: {} };
-    const ok = registry.registerTool(body.name, body.description, parameters);
+    const ok = registry.registerTool(body.name, body.description, parameters, execution);
     if (!ok) {
       sendJson(res, 409, { error: `Cannot register tool "${body.name}" (name conflicts with built-in)` });
       return;
@@ -9,16 +9,23 @@ import type { HandlerContext } from './types.js';
 import type { TalkStore } from './talk-store.js';
 import {
   normalizeToolNames,
+  summarizePendingToolCall,
 } from './talk-store.js';
 import type {
+  PendingToolCallStatus,
   TalkAgent,
+  TalkBudget,
   TalkMeta,
 } from './types.js';
 import type { ToolRegistry } from './tool-registry.js';
 import { sendJson, readJsonBody } from './http.js';
+import { principalHasScope } from './auth.js';
+import { requiredScopeForTalkChanges } from './device-tokens.js';
 import {
   googleDocsAuthStatus,
 } from './google-docs.js';
+import { githubAuthStatus } from './github.js';
+import { notionAuthStatus } from './notion.js';
 import {
   EXECUTION_MODE_OPTIONS,
   executionModeLabel,
@@ -61,6 +68,22 @@ import {
   handleGetTalkSkills,
   handleUpdateTalkSkills,
 } from './talk-tools-handler.js';
+import {
+  handleSearchAllMessages,
+  handleSearchTalkMessages,
+} from './talk-search-handler.js';
+import { handleTalkUsage } from './usage-handler.js';
+import { parseTalkBudgetInput } from './talk-budget.js';
+import { parseFallbackModelsInput } from './model-fallback.js';
+import {
+  handleExportTalk,
+  handleImportTalk,
+} from './talk-bundle-handler.js';
+import {
+  handleEditMessage,
+  handleListReplyVersions,
+  handleSelectReplyVersion,
+} from './talk-messages-handler.js';
 export { handleGoogleOAuthCallback, handleToolRoutes } from './talk-tools-handler.js';
 
 
@@ -111,6 +134,20 @@ export function requireTalkPreconditionVersion(
   return { ok: true, version: expected };
 }
 
+/**
+ * Device tokens need `admin` to set a talk's tool policy (see
+ * requiredScopeForTalkChanges). Sends 403 and returns false when the caller
+ * lacks it.
+ */
+export function requireTalkChangeScope(ctx: HandlerContext, body: Record<string, unknown>): boolean {
+  const required = requiredScopeForTalkChanges(body);
+  if (!ctx.principal || principalHasScope(ctx.principal, required)) return true;
+  sendJson(ctx.res, 403, {
+    error: { message: `Forbidden: this device token lacks the "${required}" scope`, type: 'forbidden' },
+  });
+  return false;
+}
+
 type CatalogAuthRequirement = {
   id: string;
   ready: boolean;
@@ -161,6 +198,28 @@ export async function resolveCatalogAuth(requirements: string[] | undefined): Pr
       });
       continue;
     }
+    if (req === 'notion_token') {
+      const status = await notionAuthStatus(undefined);
+      statuses.push({
+        id: req,
+        ready: status.hasToken,
+        message: status.hasToken
+          ? undefined
+          : status.error || `Notion token is not configured. Token file: ${status.tokenPath}`,
+      });
+      continue;
+    }
+    if (req === 'github_token') {
+      const status = await githubAuthStatus(undefined);
+      statuses.push({
+        id: req,
+        ready: status.hasToken,
+        message: status.hasToken
+          ? undefined
+          : status.error || `GitHub token is not configured. Token file: ${status.tokenPath}`,
+      });
+      continue;
+    }
     statuses.push({
       id: req,
       ready: false,
@@ -177,17 +236,29 @@ export async function resolveCatalogAuth(requirements: string[] | undefined): Pr
 export function buildTalkAuthReadyResolver(input: {
   googleOAuthReady: boolean;
   googleAuthProfile?: string;
+  githubTokenReady: boolean;
+  notionTokenReady: boolean;
   getToolRequiredAuth: (toolName: string) => string[];
 }): (toolName: string) => { ready: boolean; reason?: string } | undefined {
   const profileLabel = input.googleAuthProfile?.trim() || 'default';
   return (toolName: string) => {
     const required = input.getToolRequiredAuth(toolName);
-    if (!required.includes('google_oauth')) return undefined;
-    if (input.googleOAuthReady) return { ready: true };
-    return {
-      ready: false,
-      reason: `Blocked by Google OAuth: profile "${profileLabel}" is not ready.`,
-    };
+    if (required.includes('google_oauth') && !input.googleOAuthReady) {
+      return {
+        ready: false,
+        reason: `Blocked by Google OAuth: profile "${profileLabel}" is not ready.`,
+      };
+    }
+    if (required.includes('github_token') && !input.githubTokenReady) {
+      return { ready: false, reason: 'Blocked by GitHub token: the active GitHub profile has no token.' };
+    }
+    if (required.includes('notion_token') && !input.notionTokenReady) {
+      return { ready: false, reason: 'Blocked by Notion token: the active Notion profile has no token.' };
+    }
+    if (required.some((req) => req === 'google_oauth' || req === 'github_token' || req === 'notion_token')) {
+      return { ready: true };
+    }
+    return undefined;
   };
 }
 
@@ -276,6 +347,24 @@ export async function handleTalks(ctx: HandlerContext, store: TalkStore, registr
     return handleListTalks(ctx, store);
   }
 
+  // GET /api/talks/search — full-text search across all Talks
+  if (pathname === '/api/talks/search') {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleSearchAllMessages(ctx, store);
+  }
+
+  // POST /api/talks/import — recreate a talk from an export bundle
+  if (pathname === '/api/talks/import') {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleImportTalk(ctx, store);
+  }
+
   // Match /api/talks/:id patterns
   const talkMatch = pathname.match(/^\/api\/talks\/([\w-]+)$/);
   if (talkMatch) {
@@ -287,7 +376,7 @@ export async function handleTalks(ctx: HandlerContext, store: TalkStore, registr
     return;
   }
 
-  // GET/DELETE /api/talks/:id/messages
+  // GET/DELETE /api/talks/:id/messages (GET pages with ?before= / ?after= cursors)
   const messagesMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/messages$/);
   if (messagesMatch) {
     if (req.method === 'DELETE') return handleDeleteMessages(ctx, store, messagesMatch[1]);
@@ -298,6 +387,77 @@ export async function handleTalks(ctx: HandlerContext, store: TalkStore, registr
     return handleGetMessages(ctx, store, messagesMatch[1]);
   }
 
+  // POST /api/talks/:id/fork
+  const forkMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/fork$/);
+  if (forkMatch) {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleForkTalk(ctx, store, forkMatch[1]);
+  }
+
+  // GET /api/talks/:id/export?format=bundle|markdown
+  const exportMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/export$/);
+  if (exportMatch) {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleExportTalk(ctx, store, exportMatch[1]);
+  }
+
+  // GET /api/talks/:id/usage
+  const usageMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/usage$/);
+  if (usageMatch) {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleTalkUsage(ctx, store, usageMatch[1]);
+  }
+
+  // GET /api/talks/:id/messages/search
+  const messageSearchMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/messages\/search$/);
+  if (messageSearchMatch) {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleSearchTalkMessages(ctx, store, messageSearchMatch[1]);
+  }
+
+  // PATCH /api/talks/:id/messages/:messageId
+  const messageMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/messages\/([\w-]+)$/);
+  if (messageMatch) {
+    if (req.method !== 'PATCH') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleEditMessage(ctx, store, messageMatch[1], messageMatch[2]);
+  }
+
+  // GET /api/talks/:id/messages/:messageId/versions
+  const replyVersionsMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/messages\/([\w-]+)\/versions$/);
+  if (replyVersionsMatch) {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    return handleListReplyVersions(ctx, store, replyVersionsMatch[1], replyVersionsMatch[2]);
+  }
+
+  // POST /api/talks/:id/messages/:messageId/versions/:versionId/select
+  const selectVersionMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/messages\/([\w-]+)\/versions\/([\w-]+)\/select$/);
+  if (selectVersionMatch) {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+    const [, talkId, messageId, versionId] = selectVersionMatch;
+    return handleSelectReplyVersion(ctx, store, talkId, messageId, versionId);
+  }
+
   // GET /api/talks/:id/diagnostics
   const diagnosticsMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/diagnostics$/);
   if (diagnosticsMatch) {
@@ -410,6 +570,14 @@ export async function handleTalks(ctx: HandlerContext, store: TalkStore, registr
     return;
   }
 
+  // GET /api/talks/:id/tool-approvals (decisions are POSTed to /tool-approvals/:callId)
+  const toolApprovalsMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/tool-approvals$/);
+  if (toolApprovalsMatch) {
+    if (req.method === 'GET') return handleListToolApprovals(ctx, store, toolApprovalsMatch[1]);
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
   // POST/GET /api/talks/:id/agents
   const agentsMatch = pathname.match(/^\/api\/talks\/([\w-]+)\/agents$/);
   if (agentsMatch) {
@@ -519,6 +687,7 @@ async function handleCreateTalk(ctx: HandlerContext, store: TalkStore): Promise<
   if (body.defaultStateStream === undefined && body.toolPolicy?.defaultStateStream !== undefined) {
     body.defaultStateStream = body.toolPolicy.defaultStateStream;
   }
+  if (!requireTalkChangeScope(ctx, body)) return;
 
   const toolMode = normalizeToolModeInput(body.toolMode);
   if (body.toolMode !== undefined && toolMode === undefined) {
@@ -671,9 +840,62 @@ async function handleGetTalk(ctx: HandlerContext, store: TalkStore, talkId: stri
     contextMd,
     diagnostics: store.listDiagnostics(talkId),
     capabilities,
+    lineage: buildTalkLineage(store, talk),
   });
 }
 
+/** Parent (if forked) and direct forks of a talk, for GET /api/talks/:id. */
+function buildTalkLineage(store: TalkStore, talk: TalkMeta) {
+  const parent = talk.parentTalkId ? store.getTalk(talk.parentTalkId) : null;
+  return {
+    parent: talk.parentTalkId
+      ? { id: talk.parentTalkId, topicTitle: parent?.topicTitle, exists: Boolean(parent) }
+      : null,
+    forkedFromMessageId: talk.forkedFromMessageId,
+    forkedAt: talk.forkedAt,
+    forks: store.listForks(talk.id).map((fork) => ({
+      id: fork.id,
+      topicTitle: fork.topicTitle,
+      forkedFromMessageId: fork.forkedFromMessageId,
+      forkedAt: fork.forkedAt,
+    })),
+  };
+}
+
+async function handleForkTalk(ctx: HandlerContext, store: TalkStore, talkId: string): Promise<void> {
+  if (!store.getTalk(talkId)) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+
+  let body: { fromMessageId?: unknown; topicTitle?: unknown };
+  try {
+    body = (await readJsonBody(ctx.req)) as typeof body;
+  } catch {
+    sendJson(ctx.res, 400, { error: 'Invalid JSON body' });
+    return;
+  }
+  const fromMessageId = typeof body?.fromMessageId === 'string' ? body.fromMessageId.trim() : '';
+  if (!fromMessageId) {
+    sendJson(ctx.res, 400, { error: 'fromMessageId is required' });
+    return;
+  }
+  if (body.topicTitle !== undefined && typeof body.topicTitle !== 'string') {
+    sendJson(ctx.res, 400, { error: 'topicTitle must be a string' });
+    return;
+  }
+
+  const fork = await store.forkTalk(talkId, fromMessageId, {
+    topicTitle: body.topicTitle as string | undefined,
+    modifiedBy: extractClientIdHeader(ctx),
+  });
+  if (!fork) {
+    sendJson(ctx.res, 404, { error: 'Message not found in talk' });
+    return;
+  }
+  sendJson(ctx.res, 201, fork);
+}
+
 
 async function handleUpdateTalk(ctx: HandlerContext, store: TalkStore, talkId: string): Promise<void> {
   let body: {
@@ -681,6 +903,7 @@ async function handleUpdateTalk(ctx: HandlerContext, store: TalkStore, talkId: s
     objective?: string;
     objectives?: string | string[];
     model?: string;
+    fallbackModels?: unknown;
     agents?: any[];
     replaceAgents?: boolean;
     directives?: any[];
@@ -699,6 +922,7 @@ async function handleUpdateTalk(ctx: HandlerContext, store: TalkStore, talkId: s
     skills?: string[];
     googleAuthProfile?: string;
     defaultStateStream?: string;
+    budget?: unknown;
     toolPolicy?: {
       mode?: string;
       executionMode?: string;
@@ -770,6 +994,7 @@ async function handleUpdateTalk(ctx: HandlerContext, store: TalkStore, talkId: s
   if (body.defaultStateStream === undefined && body.toolPolicy?.defaultStateStream !== undefined) {
     body.defaultStateStream = body.toolPolicy.defaultStateStream;
   }
+  if (!requireTalkChangeScope(ctx, body)) return;
 
   const toolMode = normalizeToolModeInput(body.toolMode);
   if (body.toolMode !== undefined && toolMode === undefined) {
@@ -809,6 +1034,24 @@ async function handleUpdateTalk(ctx: HandlerContext, store: TalkStore, talkId: s
     sendJson(ctx.res, 400, { error: 'defaultStateStream must be a string' });
     return;
   }
+  let fallbackModels: string[] | undefined;
+  if (body.fallbackModels !== undefined) {
+    const parsedFallbacks = parseFallbackModelsInput(body.fallbackModels);
+    if (!parsedFallbacks.ok) {
+      sendJson(ctx.res, 400, { error: parsedFallbacks.error });
+      return;
+    }
+    fallbackModels = parsedFallbacks.models;
+  }
+  let budget: TalkBudget | null | undefined;
+  if (body.budget !== undefined) {
+    const parsedBudget = parseTalkBudgetInput(body.budget);
+    if (!parsedBudget.ok) {
+      sendJson(ctx.res, 400, { error: parsedBudget.error });
+      return;
+    }
+    budget = parsedBudget.budget;
+  }
 
   if (body.platformBindings !== undefined) {
     const parsed = await normalizeAndValidatePlatformBindingsInput(body.platformBindings, {
@@ -892,6 +1135,7 @@ async function handleUpdateTalk(ctx: HandlerContext, store: TalkStore, talkId: s
     topicTitle: body.topicTitle,
     objective: body.objective,
     model: body.model,
+    fallbackModels,
     agents: normalizedAgentsForUpdate,
     directives: body.directives,
     platformBindings: body.platformBindings,
@@ -906,6 +1150,7 @@ async function handleUpdateTalk(ctx: HandlerContext, store: TalkStore, talkId: s
     ...(skills !== undefined ? { skills } : {}),
     ...(googleAuthProfile !== undefined ? { googleAuthProfile: googleAuthProfile || undefined } : {}),
     ...(defaultStateStream !== undefined ? { defaultStateStream: defaultStateStream || undefined } : {}),
+    ...(budget !== undefined ? { budget } : {}),
   }, { modifiedBy });
   if (!updated) {
     sendJson(ctx.res, 404, { error: 'Talk not found' });
@@ -952,23 +1197,36 @@ async function handleGetMessages(ctx: HandlerContext, store: TalkStore, talkId:
     return;
   }
 
-  const limit = parseInt(ctx.url.searchParams.get('limit') ?? '100', 10);
-  const afterId = ctx.url.searchParams.get('after') ?? undefined;
-
-  let messages = await store.getMessages(talkId);
-
-  // Pagination: skip messages up to and including `after`
-  if (afterId) {
-    const idx = messages.findIndex(m => m.id === afterId);
-    if (idx !== -1) {
-      messages = messages.slice(idx + 1);
-    }
+  const params = ctx.url.searchParams;
+  const before = params.get('before')?.trim() || undefined;
+  const after = params.get('after')?.trim() || undefined;
+  if (before && after) {
+    sendJson(ctx.res, 400, { error: 'Use either before or after, not both' });
+    return;
+  }
+  const limitRaw = params.get('limit');
+  const limit = limitRaw ? parseInt(limitRaw, 10) : undefined;
+  if (limit !== undefined && (!Number.isFinite(limit) || limit < 1)) {
+    sendJson(ctx.res, 400, { error: 'limit must be a positive integer' });
+    return;
   }
 
-  // Apply limit
-  messages = messages.slice(-limit);
-
-  sendJson(ctx.res, 200, { messages });
+  // Pages are oldest-first: `before` walks back through history, `after` forward.
+  const page = await store.getMessagePage(talkId, { before, after, limit });
+  if (!page) {
+    sendJson(ctx.res, 404, { error: 'Cursor message not found' });
+    return;
+  }
+  // Let clients offer a version switcher on user messages that were regenerated.
+  const pageIds = new Set(page.messages.map((msg) => msg.id));
+  const replyVersions = (await store.listReplyVersions(talkId))
+    .filter((set) => pageIds.has(set.anchorMessageId))
+    .map((set) => ({
+      anchorMessageId: set.anchorMessageId,
+      activeVersionId: set.activeVersionId,
+      versionIds: set.versions.map((version) => version.id),
+    }));
+  sendJson(ctx.res, 200, { ...page, replyVersions });
 }
 
 async function handleDeleteMessages(ctx: HandlerContext, store: TalkStore, talkId: string): Promise<void> {
@@ -1007,6 +1265,26 @@ async function handleListDiagnostics(ctx: HandlerContext, store: TalkStore, talk
   });
 }
 
+async function handleListToolApprovals(ctx: HandlerContext, store: TalkStore, talkId: string): Promise<void> {
+  const talk = store.getTalk(talkId);
+  if (!talk) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+  const statusParam = ctx.url.searchParams.get('status')?.trim().toLowerCase();
+  if (statusParam && !['pending', 'approved', 'denied', 'expired'].includes(statusParam)) {
+    sendJson(ctx.res, 400, { error: 'status must be one of: pending, approved, denied, expired' });
+    return;
+  }
+  const approvals = store.listPendingToolCalls(talkId, {
+    ...(statusParam ? { status: statusParam as PendingToolCallStatus } : {}),
+  });
+  sendJson(ctx.res, 200, {
+    talkId,
+    approvals: approvals.map(summarizePendingToolCall),
+  });
+}
+
 async function handleUpdateDiagnostic(
   ctx: HandlerContext,
   store: TalkStore,
@@ -1100,7 +1378,7 @@ async function handleAddAgent(ctx: HandlerContext, store: TalkStore, talkId: str
   if (!precondition.ok) return;
   const modifiedBy = extractClientIdHeader(ctx);
 
-  let body: { name?: string; model?: string; role?: string; isPrimary?: boolean };
+  let body: { name?: string; model?: string; role?: string; isPrimary?: boolean; fallbackModels?: unknown };
   try {
     body = (await readJsonBody(ctx.req)) as typeof body;
   } catch {
@@ -1112,12 +1390,18 @@ async function handleAddAgent(ctx: HandlerContext, store: TalkStore, talkId: str
     sendJson(ctx.res, 400, { error: 'Missing name, model, or role' });
     return;
   }
+  const fallbackModels = body.fallbackModels === undefined ? undefined : parseFallbackModelsInput(body.fallbackModels);
+  if (fallbackModels && !fallbackModels.ok) {
+    sendJson(ctx.res, 400, { error: fallbackModels.error });
+    return;
+  }
 
   const agent = await store.addAgent(talkId, {
     name: body.name,
     model: body.model,
     role: body.role as any,
     isPrimary: body.isPrimary ?? false,
+    ...(fallbackModels?.ok && fallbackModels.models.length > 0 ? { fallbackModels: fallbackModels.models } : {}),
   }, { modifiedBy });
   sendJson(ctx.res, 201, agent);
 }
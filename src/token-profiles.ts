@@ -0,0 +1,177 @@
+/**
+ * Token Profiles
+ *
+ * Named API-token profiles for integrations that authenticate with a static
+ * token (GitHub, Notion), stored like the Google OAuth profiles: one JSON
+ * file `{ version, activeProfile, profiles: { name: { token, api_base_url? } } }`
+ * whose path can be overridden by env. Env token overrides apply to the
+ * default profile only, so an explicitly selected profile is never hijacked.
+ */
+
+import * as fsp from 'node:fs/promises';
+import * as path from 'node:path';
+
+export const DEFAULT_TOKEN_PROFILE = 'default';
+
+export interface TokenProfileRecord {
+  token?: string;
+  /** API base override (e.g. GitHub Enterprise Server). */
+  api_base_url?: string;
+}
+
+interface TokenProfileFile {
+  version?: number;
+  activeProfile?: string;
+  profiles?: Record<string, TokenProfileRecord>;
+}
+
+export interface TokenProfileStoreOptions {
+  defaultPath: string;
+  /** Env var that overrides the store path. */
+  pathEnv: string;
+  /** Values from env that back the default profile. */
+  envOverrides: () => TokenProfileRecord;
+}
+
+export interface TokenProfileInfo {
+  name: string;
+  hasToken: boolean;
+  apiBaseUrl?: string;
+}
+
+export function normalizeTokenProfileName(raw: string | undefined): string {
+  const trimmed = (raw ?? '').trim().toLowerCase();
+  if (!trimmed) return DEFAULT_TOKEN_PROFILE;
+  const normalized = trimmed.replace(/[^a-z0-9_.-]+/g, '-').replace(/^-+|-+$/g, '');
+  return normalized || DEFAULT_TOKEN_PROFILE;
+}
+
+export class TokenProfileStore {
+  private readonly opts: TokenProfileStoreOptions;
+
+  constructor(opts: TokenProfileStoreOptions) {
+    this.opts = opts;
+  }
+
+  get tokenPath(): string {
+    return process.env[this.opts.pathEnv]?.trim() || this.opts.defaultPath;
+  }
+
+  /** Resolve a profile (the active one when omitted) with env overrides applied. */
+  async resolve(profile: string | undefined): Promise<{
+    profile: string;
+    activeProfile: string;
+    record: TokenProfileRecord;
+  }> {
+    const file = await this.load();
+    const activeProfile = normalizeTokenProfileName(file.activeProfile);
+    const selected = profile?.trim() ? normalizeTokenProfileName(profile) : activeProfile;
+    return { profile: selected, activeProfile, record: this.withEnv(selected, file.profiles?.[selected] ?? {}) };
+  }
+
+  async list(): Promise<{ tokenPath: string; activeProfile: string; profiles: TokenProfileInfo[] }> {
+    const file = await this.loadOrEmpty();
+    const activeProfile = normalizeTokenProfileName(file.activeProfile);
+    const names = new Set<string>(Object.keys(file.profiles ?? {}));
+    names.add(activeProfile);
+    const profiles = Array.from(names)
+      .sort((a, b) => a.localeCompare(b))
+      .map((name) => {
+        const record = this.withEnv(name, file.profiles?.[name] ?? {});
+        return {
+          name,
+          hasToken: Boolean(record.token?.trim()),
+          ...(record.api_base_url ? { apiBaseUrl: record.api_base_url } : {}),
+        };
+      });
+    return { tokenPath: this.tokenPath, activeProfile, profiles };
+  }
+
+  /** Every non-empty token, env overrides included (for secret redaction). */
+  async listTokens(): Promise<Array<{ profile: string; token: string }>> {
+    const file = await this.loadOrEmpty();
+    const names = new Set<string>([...Object.keys(file.profiles ?? {}), DEFAULT_TOKEN_PROFILE]);
+    return Array.from(names).flatMap((name) => {
+      const token = this.withEnv(name, file.profiles?.[name] ?? {}).token?.trim();
+      return token ? [{ profile: name, token }] : [];
+    });
+  }
+
+  async upsert(updates: {
+    profile?: string;
+    setActive?: boolean;
+    token?: string;
+    apiBaseUrl?: string;
+  }): Promise<{ profile: string; activeProfile: string; tokenPath: string; hasToken: boolean }> {
+    const file = await this.loadOrEmpty();
+    const profile = normalizeTokenProfileName(updates.profile);
+    const profiles = { ...(file.profiles ?? {}) };
+    const record: TokenProfileRecord = { ...(profiles[profile] ?? {}) };
+    if (updates.token !== undefined) record.token = updates.token.trim();
+    if (updates.apiBaseUrl !== undefined) {
+      const base = updates.apiBaseUrl.trim();
+      if (base) record.api_base_url = base;
+      else delete record.api_base_url;
+    }
+    profiles[profile] = record;
+
+    let activeProfile = normalizeTokenProfileName(file.activeProfile);
+    if (updates.setActive === true || !profiles[activeProfile]) activeProfile = profile;
+
+    await this.save({ version: 1, activeProfile, profiles });
+    return {
+      profile,
+      activeProfile,
+      tokenPath: this.tokenPath,
+      hasToken: Boolean(this.withEnv(profile, record).token?.trim()),
+    };
+  }
+
+  async setActive(profile: string): Promise<{ tokenPath: string; activeProfile: string }> {
+    const normalized = normalizeTokenProfileName(profile);
+    const file = await this.loadOrEmpty();
+    await this.save({
+      version: 1,
+      activeProfile: normalized,
+      profiles: { ...(file.profiles ?? {}), [normalized]: file.profiles?.[normalized] ?? {} },
+    });
+    return { tokenPath: this.tokenPath, activeProfile: normalized };
+  }
+
+  private withEnv(profile: string, record: TokenProfileRecord): TokenProfileRecord {
+    if (profile !== DEFAULT_TOKEN_PROFILE) return record;
+    return { ...record, ...this.opts.envOverrides() };
+  }
+
+  private async load(): Promise<TokenProfileFile> {
+    let raw: string;
+    try {
+      raw = await fsp.readFile(this.tokenPath, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return { profiles: {} };
+      throw err;
+    }
+    const parsed = JSON.parse(raw) as TokenProfileFile;
+    const profiles: Record<string, TokenProfileRecord> = {};
+    for (const [name, rec] of Object.entries(parsed?.profiles ?? {})) {
+      if (!rec || typeof rec !== 'object') continue;
+      profiles[normalizeTokenProfileName(name)] = rec;
+    }
+    return { version: 1, activeProfile: normalizeTokenProfileName(parsed?.activeProfile), profiles };
+  }
+
+  private async loadOrEmpty(): Promise<TokenProfileFile> {
+    try {
+      return await this.load();
+    } catch {
+      // unreadable store: start fresh
+      return { profiles: {} };
+    }
+  }
+
+  private async save(file: TokenProfileFile): Promise<void> {
+    await fsp.mkdir(path.dirname(this.tokenPath), { recursive: true });
+    // The file holds bearer tokens; keep it owner-only.
+    await fsp.writeFile(this.tokenPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+  }
+}
@@ -80,55 +80,72 @@ const CATALOG_DEFINITIONS: CatalogToolDefinition[] = [
   {
     id: 'google_sheets',
     name: 'Google Sheets',
-    description: 'Read and write spreadsheet ranges, append rows.',
-    version: '0.0.0',
-    status: 'planned',
-    toolNames: [],
+    description: 'Create spreadsheets, read and write ranges, append rows.',
+    version: '1.0.0',
+    status: 'installable',
+    toolNames: [
+      'google_sheets_read_range',
+      'google_sheets_write_range',
+      'google_sheets_append_rows',
+      'google_sheets_create',
+    ],
     requiredAuth: ['google_oauth'],
   },
   {
     id: 'calendar_google',
     name: 'Google Calendar',
-    description: 'Read, create, and update calendar events.',
-    version: '0.0.0',
-    status: 'planned',
-    toolNames: [],
+    description: 'List, create, update, and delete calendar events; find free/busy slots.',
+    version: '1.0.0',
+    status: 'installable',
+    toolNames: [
+      'google_calendar_list_events',
+      'google_calendar_create_event',
+      'google_calendar_update_event',
+      'google_calendar_delete_event',
+      'google_calendar_free_busy',
+    ],
     requiredAuth: ['google_oauth'],
   },
   {
     id: 'notion_basic',
     name: 'Notion Basic',
-    description: 'Create pages and read/write simple Notion content.',
-    version: '0.0.0',
-    status: 'planned',
-    toolNames: [],
-    requiredAuth: ['notion_oauth'],
+    description: 'Search pages, read pages as Markdown, create pages, and append content.',
+    version: '1.0.0',
+    status: 'installable',
+    toolNames: ['notion_search', 'notion_read_page', 'notion_create_page', 'notion_append_blocks'],
+    requiredAuth: ['notion_token'],
   },
   {
     id: 'github_core',
     name: 'GitHub Core',
-    description: 'Core repo actions: issues, PR metadata, file reads.',
-    version: '0.0.0',
-    status: 'planned',
-    toolNames: [],
+    description: 'Search, read, and comment on issues and PRs; read files at a ref; list workflow runs.',
+    version: '1.0.0',
+    status: 'installable',
+    toolNames: [
+      'github_search_issues',
+      'github_get_issue',
+      'github_comment',
+      'github_read_file',
+      'github_list_workflow_runs',
+    ],
     requiredAuth: ['github_token'],
   },
   {
     id: 'email_gmail',
     name: 'Gmail Draft & Send',
-    description: 'Draft and send email with confirmation workflows.',
-    version: '0.0.0',
-    status: 'planned',
-    toolNames: [],
+    description: 'Search and read mail, create drafts, and send drafts after user approval.',
+    version: '1.0.0',
+    status: 'installable',
+    toolNames: ['gmail_search', 'gmail_read_thread', 'gmail_create_draft', 'gmail_send_draft'],
     requiredAuth: ['google_oauth'],
   },
   {
     id: 'http_api_client',
     name: 'HTTP API Client',
     description: 'Call allowlisted external APIs with structured requests.',
-    version: '0.0.0',
-    status: 'planned',
-    toolNames: [],
+    version: '1.0.0',
+    status: 'installable',
+    toolNames: ['http_api_client'],
   },
 ];
 
@@ -7,12 +7,22 @@
 
 import { spawn } from 'node:child_process';
 import { homedir } from 'node:os';
-import { access } from 'node:fs/promises';
+import { access, mkdir } from 'node:fs/promises';
 import { constants as fsConstants } from 'node:fs';
 import { extname, isAbsolute, join, resolve } from 'node:path';
-import type { Logger } from './types.js';
+import type { Logger, TalkDiagnosticCategory, TalkStatePolicy } from './types.js';
 import type { TalkStore } from './talk-store.js';
+import { validateStatePolicyUpdates } from './talk-state-store.js';
 import type { ToolRegistry } from './tool-registry.js';
+import {
+  interpolateTemplate,
+  normalizeDynamicToolExecution,
+  shellQuote,
+  type DynamicToolExecution,
+  type DynamicToolHttpExecution,
+  type DynamicToolShellExecution,
+} from './dynamic-tools.js';
+import { resolveFilesystemAccess, resolveNetworkAccess } from './talk-policy.js';
 import {
   googleDocsAddTab,
   googleDocsAppend,
@@ -26,9 +36,43 @@ import {
   googleDriveSearchFiles,
   googleDocsRead,
   googleDocsUpdateTab,
+  googleSheetsAppendRows,
+  googleSheetsCreate,
+  googleSheetsReadRange,
+  googleSheetsWriteRange,
+  GMAIL_REQUIRED_SCOPES,
+  GOOGLE_CALENDAR_REQUIRED_SCOPES,
   GOOGLE_DOCS_REQUIRED_SCOPES,
 } from './google-docs.js';
+import {
+  googleCalendarCreateEvent,
+  googleCalendarDeleteEvent,
+  googleCalendarFreeBusy,
+  googleCalendarListEvents,
+  googleCalendarUpdateEvent,
+  type GoogleCalendarEvent,
+  type GoogleCalendarEventInput,
+} from './google-calendar.js';
+import { gmailCreateDraft, gmailReadThread, gmailSearch, gmailSendDraft } from './google-gmail.js';
+import {
+  githubCreateComment,
+  githubGetIssue,
+  githubListWorkflowRuns,
+  githubReadFile,
+  githubSearchIssues,
+} from './github.js';
+import { notionAppendBlocks, notionCreatePage, notionReadPage, notionSearch } from './notion.js';
 import { extractGoogleDocsDocumentIdFromUrl, extractGoogleDocsTabIdFromUrl } from './google-docs-url.js';
+import { getHttpApiClientStore, type HttpApiMethod } from './http-api-client.js';
+import {
+  SANDBOX_CPU_LIMIT_EXIT_CODE,
+  buildShellSandboxPlan,
+  findShellSandboxRuntime,
+  isShellSandboxSetupFailure,
+  resolveShellSandboxLimits,
+  resolveShellSandboxWorkingDir,
+} from './shell-sandbox.js';
+import { getSecretRedactor } from './secret-redaction.js';
 
 /** Maximum output size per tool execution (512KB). */
 const MAX_OUTPUT_BYTES = 512 * 1024;
@@ -40,6 +84,8 @@ const DEFAULT_TIMEOUT_S = 30;
 const MAX_TIMEOUT_S = 120;
 const DEFAULT_AGENT_WORKSPACE_DIR = join(homedir(), '.openclaw', 'workspace-clawtalk');
 const DEFAULT_DOWNLOADS_UPLOAD_DIR = join(homedir(), 'Downloads', 'ClawTalk');
+/** Default rows returned by google_sheets_read_range. */
+const DEFAULT_SHEETS_MAX_ROWS = 500;
 
 export interface ToolExecResult {
   success: boolean;
@@ -47,15 +93,22 @@ export interface ToolExecResult {
   durationMs: number;
 }
 
+/** Per-call context used to apply talk-scoped policy. */
+export interface ToolExecContext {
+  talkId?: string;
+}
+
 export class ToolExecutor {
   private registry: ToolRegistry;
   private store: TalkStore;
   private logger: Logger;
+  private dataDir?: string;
 
-  constructor(registry: ToolRegistry, store: TalkStore, logger: Logger) {
+  constructor(registry: ToolRegistry, store: TalkStore, logger: Logger, dataDir?: string) {
     this.registry = registry;
     this.store = store;
     this.logger = logger;
+    this.dataDir = dataDir;
   }
 
   private resolveStateStreamOrError(
@@ -78,7 +131,7 @@ export class ToolExecutor {
   /**
    * Execute a tool call by name with the given arguments JSON string.
    */
-  async execute(toolName: string, argsJson: string): Promise<ToolExecResult> {
+  async execute(toolName: string, argsJson: string, context?: ToolExecContext): Promise<ToolExecResult> {
     const start = Date.now();
 
     let args: Record<string, unknown>;
@@ -107,7 +160,7 @@ export class ToolExecutor {
 
       switch (toolName) {
         case 'shell_exec':
-          result = await this.execShell(args);
+          result = await this.execShell(args, context);
           break;
         case 'manage_tools':
           result = await this.execManageTools(args);
@@ -139,9 +192,78 @@ export class ToolExecutor {
         case 'google_drive_files':
           result = await this.execGoogleDriveFiles(args);
           break;
+        case 'google_sheets_read_range':
+          result = await this.execGoogleSheetsReadRange(args);
+          break;
+        case 'google_sheets_write_range':
+          result = await this.execGoogleSheetsWriteRange(args);
+          break;
+        case 'google_sheets_append_rows':
+          result = await this.execGoogleSheetsAppendRows(args);
+          break;
+        case 'google_sheets_create':
+          result = await this.execGoogleSheetsCreate(args);
+          break;
+        case 'google_calendar_list_events':
+          result = await this.execGoogleCalendarListEvents(args);
+          break;
+        case 'google_calendar_create_event':
+          result = await this.execGoogleCalendarCreateEvent(args);
+          break;
+        case 'google_calendar_update_event':
+          result = await this.execGoogleCalendarUpdateEvent(args);
+          break;
+        case 'google_calendar_delete_event':
+          result = await this.execGoogleCalendarDeleteEvent(args);
+          break;
+        case 'google_calendar_free_busy':
+          result = await this.execGoogleCalendarFreeBusy(args);
+          break;
+        case 'gmail_search':
+          result = await this.execGmailSearch(args);
+          break;
+        case 'gmail_read_thread':
+          result = await this.execGmailReadThread(args);
+          break;
+        case 'gmail_create_draft':
+          result = await this.execGmailCreateDraft(args);
+          break;
+        case 'gmail_send_draft':
+          result = await this.execGmailSendDraft(args);
+          break;
+        case 'github_search_issues':
+          result = await this.execGithubSearchIssues(args);
+          break;
+        case 'github_get_issue':
+          result = await this.execGithubGetIssue(args);
+          break;
+        case 'github_comment':
+          result = await this.execGithubComment(args);
+          break;
+        case 'github_read_file':
+          result = await this.execGithubReadFile(args);
+          break;
+        case 'github_list_workflow_runs':
+          result = await this.execGithubListWorkflowRuns(args);
+          break;
+        case 'notion_search':
+          result = await this.execNotionSearch(args);
+          break;
+        case 'notion_read_page':
+          result = await this.execNotionReadPage(args);
+          break;
+        case 'notion_create_page':
+          result = await this.execNotionCreatePage(args);
+          break;
+        case 'notion_append_blocks':
+          result = await this.execNotionAppendBlocks(args);
+          break;
         case 'web_fetch_extract':
           result = await this.execWebFetchExtract(args);
           break;
+        case 'http_api_client':
+          result = await this.execHttpApiClient(args, context);
+          break;
         case 'pdf_extract_text':
           result = await this.execPdfExtractText(args);
           break;
@@ -158,15 +280,11 @@ export class ToolExecutor {
           result = await this.execStateAuditEvents(args);
           break;
         default:
-          // Dynamic tools — execute via shell_exec with the tool's command template
-          result = {
-            success: false,
-            content: `Tool "${toolName}" has no execution handler. Dynamic tool execution is not yet implemented.`,
-            durationMs: Date.now() - start,
-          };
+          result = await this.execDynamicTool(toolName, args, context);
           break;
       }
 
+      result.content = await this.redactToolOutput(result.content, toolName, context);
       result.durationMs = Date.now() - start;
       this.logger.info(`ToolExecutor: ${toolName} completed (${result.success ? 'ok' : 'error'}, ${result.durationMs}ms)`);
       return result;
@@ -175,50 +293,185 @@ export class ToolExecutor {
       this.logger.warn(`ToolExecutor: ${toolName} threw: ${errMsg}`);
       return {
         success: false,
-        content: `Tool execution error: ${errMsg}`,
+        content: await this.redactToolOutput(`Tool execution error: ${errMsg}`, toolName, context),
         durationMs: Date.now() - start,
       };
     }
   }
 
+  /** Scrub configured secrets (API keys, tokens) before output reaches the model or history. */
+  private async redactToolOutput(content: string, toolName: string, context?: ToolExecContext): Promise<string> {
+    const redactor = getSecretRedactor();
+    await redactor.refresh();
+    return redactor.redact(content, { surface: 'tool_result', talkId: context?.talkId, detail: toolName });
+  }
+
   // -------------------------------------------------------------------------
   // shell_exec
   // -------------------------------------------------------------------------
 
-  private execShell(args: Record<string, unknown>): Promise<ToolExecResult> {
+  private async execShell(args: Record<string, unknown>, context?: ToolExecContext): Promise<ToolExecResult> {
     const command = String(args.command ?? '');
     if (!command.trim()) {
-      return Promise.resolve({
+      return {
         success: false,
         content: 'Empty command',
         durationMs: 0,
-      });
+      };
     }
     if (/\bgog\b/i.test(command)) {
-      return Promise.resolve({
+      return {
         success: false,
         content:
           'Blocked command: `gog` is not supported in ClawTalk talk runs. ' +
           'Use gateway Google tools (`google_docs_*`, `google_drive_files`) instead.',
         durationMs: 0,
-      });
+      };
     }
 
     const timeoutS = Math.min(
       Math.max(1, Number(args.timeout) || DEFAULT_TIMEOUT_S),
       MAX_TIMEOUT_S,
     );
+    const talk = context?.talkId ? this.store.getTalk(context.talkId) : undefined;
+    const isolateFilesystem = resolveFilesystemAccess(talk ?? {}) === 'workspace_sandbox';
+    const disableNetwork = resolveNetworkAccess(talk ?? {}) === 'restricted';
+    if (talk && (isolateFilesystem || disableNetwork)) {
+      return this.execSandboxedShell('shell_exec', command, optionalString(args.working_dir), timeoutS, {
+        talkId: talk.id,
+        isolateFilesystem,
+        disableNetwork,
+      });
+    }
     const cwd = String(args.working_dir || homedir());
+    return this.runShellCommand(command, cwd, timeoutS);
+  }
+
+  /**
+   * Run a shell command (shell_exec or a shell-based custom tool) inside the
+   * bubblewrap jail (see shell-sandbox.ts). Fails closed when no sandbox
+   * runtime is installed; policy violations and sandbox failures are recorded
+   * as talk diagnostics.
+   */
+  private async execSandboxedShell(
+    toolName: string,
+    command: string,
+    workingDir: string | undefined,
+    timeoutS: number,
+    policy: { talkId: string; isolateFilesystem: boolean; disableNetwork: boolean },
+  ): Promise<ToolExecResult> {
+    const policyLabel = [
+      policy.isolateFilesystem ? 'Filesystem Access: Workspace Sandbox' : '',
+      policy.disableNetwork ? 'Network Access: Restricted' : '',
+    ].filter(Boolean).join(' + ');
+
+    const runtime = findShellSandboxRuntime();
+    if (!runtime) {
+      this.reportShellSandboxIssue(policy.talkId, {
+        code: 'shell_sandbox_unavailable',
+        category: 'tools',
+        title: 'Shell sandbox unavailable',
+        message:
+          `${toolName} was refused: ${policyLabel} requires a sandbox, ` +
+          'but bubblewrap (bwrap) is not installed on the gateway host.',
+      });
+      return {
+        success: false,
+        content:
+          `${toolName} blocked by ${policyLabel}: no sandbox runtime (bwrap) is installed on the gateway host.`,
+        durationMs: 0,
+      };
+    }
+
+    const workspaceRoot = this.agentWorkspaceRoot();
+    let cwd = workingDir || homedir();
+    if (policy.isolateFilesystem) {
+      const resolved = resolveShellSandboxWorkingDir(workspaceRoot, workingDir);
+      if (!resolved.ok) {
+        this.reportShellSandboxIssue(policy.talkId, {
+          code: 'shell_sandbox_violation',
+          category: 'filesystem',
+          title: 'Shell command left the workspace sandbox',
+          message: `${toolName} was refused: ${resolved.error}.`,
+          details: { workingDir },
+        });
+        return {
+          success: false,
+          content: `${toolName} blocked by Filesystem Access: Workspace Sandbox (${resolved.error}).`,
+          durationMs: 0,
+        };
+      }
+      cwd = resolved.cwd;
+      await mkdir(cwd, { recursive: true });
+    }
+
+    const limits = resolveShellSandboxLimits();
+    const plan = buildShellSandboxPlan(runtime, command, {
+      isolateFilesystem: policy.isolateFilesystem,
+      disableNetwork: policy.disableNetwork,
+      workspaceRoot,
+      cwd,
+      home: homedir(),
+      limits,
+    });
+    return this.runProcess(plan.file, plan.args, { cwd, env: plan.env }, timeoutS, (code, output) => {
+      if (isShellSandboxSetupFailure(code, output)) {
+        this.reportShellSandboxIssue(policy.talkId, {
+          code: 'shell_sandbox_failed',
+          category: 'tools',
+          title: 'Shell sandbox failed to start',
+          message: output.split('\n').find((line) => line.startsWith('bwrap: ')) ?? 'bwrap exited with an error.',
+        });
+      } else if (code === SANDBOX_CPU_LIMIT_EXIT_CODE) {
+        this.reportShellSandboxIssue(policy.talkId, {
+          code: 'shell_sandbox_limit',
+          category: 'tools',
+          title: 'Shell command hit the sandbox CPU limit',
+          message: `${toolName} was stopped after ${limits.cpuSeconds}s of CPU time.`,
+          details: { cpuSeconds: limits.cpuSeconds },
+        });
+      }
+    });
+  }
+
+  private reportShellSandboxIssue(
+    talkId: string,
+    issue: { code: string; category: TalkDiagnosticCategory; title: string; message: string; details?: Record<string, unknown> },
+  ): void {
+    this.logger.warn(`ToolExecutor: ${issue.code} talk=${talkId}: ${issue.message}`);
+    this.store.openDiagnostic(talkId, issue);
+  }
+
+  private agentWorkspaceRoot(): string {
+    return resolve(
+      (process.env.CLAWTALK_AGENT_WORKSPACE_DIR || DEFAULT_AGENT_WORKSPACE_DIR).trim() || DEFAULT_AGENT_WORKSPACE_DIR,
+    );
+  }
 
+  private runShellCommand(
+    command: string,
+    cwd: string,
+    timeoutS: number,
+  ): Promise<ToolExecResult> {
+    return this.runProcess('bash', ['-c', command], { cwd, env: { ...process.env, HOME: homedir() } }, timeoutS);
+  }
+
+  private runProcess(
+    file: string,
+    args: string[],
+    options: { cwd: string; env: NodeJS.ProcessEnv },
+    timeoutS: number,
+    onExit?: (code: number | null, output: string) => void,
+  ): Promise<ToolExecResult> {
     return new Promise<ToolExecResult>((resolve) => {
       const chunks: Buffer[] = [];
       let totalBytes = 0;
       let truncated = false;
       let killed = false;
 
-      const proc = spawn('bash', ['-c', command], {
-        cwd,
-        env: { ...process.env, HOME: homedir() },
+      const proc = spawn(file, args, {
+        cwd: options.cwd,
+        env: options.env,
         stdio: ['ignore', 'pipe', 'pipe'],
         timeout: timeoutS * 1000,
       });
@@ -254,6 +507,7 @@ export class ToolExecutor {
         const output = Buffer.concat(chunks).toString('utf-8');
         const suffix = truncated ? '\n\n[Output truncated at 512KB]' : '';
         const timedOut = signal === 'SIGTERM' && !killed;
+        onExit?.(code, output);
 
         if (timedOut) {
           resolve({
@@ -284,9 +538,11 @@ export class ToolExecutor {
     switch (action) {
       case 'list': {
         const tools = this.registry.listTools();
-        const lines = tools.map(t =>
-          `- ${t.name} ${t.builtin ? '(built-in)' : '(custom)'}: ${t.description.slice(0, 100)}`
-        );
+        const lines = tools.map((t) => {
+          const execution = t.builtin ? undefined : this.registry.getToolExecution(t.name);
+          const label = t.builtin ? 'built-in' : `custom, ${execution ? execution.kind : 'no execution spec'}`;
+          return `- ${t.name} (${label}): ${t.description.slice(0, 100)}`;
+        });
         return {
           success: true,
           content: `Available tools (${tools.length}):\n${lines.join('\n')}`,
@@ -308,7 +564,15 @@ export class ToolExecutor {
           type: 'object',
           properties: {},
         };
-        const ok = this.registry.registerTool(name, description, parameters);
+        let execution: DynamicToolExecution | undefined;
+        if (args.execution !== undefined) {
+          const parsed = normalizeDynamicToolExecution(args.execution);
+          if (!parsed.ok) {
+            return { success: false, content: `Invalid execution spec: ${parsed.error}`, durationMs: 0 };
+          }
+          execution = parsed.execution;
+        }
+        const ok = this.registry.registerTool(name, description, parameters, execution);
         return {
           success: ok,
           content: ok ? `Tool "${name}" registered successfully.` : `Failed to register tool "${name}" (name may conflict with a built-in).`,
@@ -321,9 +585,16 @@ export class ToolExecutor {
         if (!name) {
           return { success: false, content: 'Missing required field: name', durationMs: 0 };
         }
-        const updates: { description?: string; parameters?: any } = {};
+        const updates: { description?: string; parameters?: any; execution?: DynamicToolExecution } = {};
         if (args.description) updates.description = String(args.description);
         if (args.parameters) updates.parameters = args.parameters as any;
+        if (args.execution !== undefined) {
+          const parsed = normalizeDynamicToolExecution(args.execution);
+          if (!parsed.ok) {
+            return { success: false, content: `Invalid execution spec: ${parsed.error}`, durationMs: 0 };
+          }
+          updates.execution = parsed.execution;
+        }
         const ok = this.registry.updateTool(name, updates);
         return {
           success: ok,
@@ -354,6 +625,127 @@ export class ToolExecutor {
     }
   }
 
+  // -------------------------------------------------------------------------
+  // Dynamic tools
+  // -------------------------------------------------------------------------
+
+  private async execDynamicTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    context?: ToolExecContext,
+  ): Promise<ToolExecResult> {
+    const execution = this.registry.getToolExecution(toolName);
+    if (!execution) {
+      return {
+        success: false,
+        content:
+          `Tool "${toolName}" has no execution spec. ` +
+          'Use manage_tools action=update with an execution object to make it runnable.',
+        durationMs: 0,
+      };
+    }
+
+    const talk = context?.talkId ? this.store.getTalk(context.talkId) : undefined;
+    const filesystemAccess = resolveFilesystemAccess(talk ?? {});
+    const networkAccess = resolveNetworkAccess(talk ?? {});
+
+    if (execution.kind === 'shell') {
+      return this.execDynamicShell(toolName, execution, args, talk?.id, {
+        isolateFilesystem: filesystemAccess === 'workspace_sandbox',
+        disableNetwork: networkAccess === 'restricted',
+      });
+    }
+
+    if (networkAccess === 'restricted') {
+      return {
+        success: false,
+        content: `Tool "${toolName}" blocked by Network Access: Restricted.`,
+        durationMs: 0,
+      };
+    }
+    return this.execDynamicHttp(toolName, execution, args);
+  }
+
+  private async execDynamicShell(
+    toolName: string,
+    execution: DynamicToolShellExecution,
+    args: Record<string, unknown>,
+    talkId: string | undefined,
+    policy: { isolateFilesystem: boolean; disableNetwork: boolean },
+  ): Promise<ToolExecResult> {
+    const command = interpolateTemplate(execution.command, args, shellQuote);
+    const timeoutS = Math.min(Math.max(1, execution.timeout || DEFAULT_TIMEOUT_S), MAX_TIMEOUT_S);
+    const workingDir = execution.workingDir ? interpolateTemplate(execution.workingDir, args).trim() : '';
+
+    if (talkId && (policy.isolateFilesystem || policy.disableNetwork)) {
+      return this.execSandboxedShell(toolName, command, workingDir || undefined, timeoutS, { talkId, ...policy });
+    }
+    return this.runShellCommand(command, workingDir || homedir(), timeoutS);
+  }
+
+  private async execDynamicHttp(
+    toolName: string,
+    execution: DynamicToolHttpExecution,
+    args: Record<string, unknown>,
+  ): Promise<ToolExecResult> {
+    const urlRaw = interpolateTemplate(execution.url, args, encodeURIComponent);
+    let parsed: URL;
+    try {
+      parsed = new URL(urlRaw);
+    } catch {
+      return { success: false, content: `Invalid URL after interpolation: ${urlRaw}`, durationMs: 0 };
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return { success: false, content: 'Only http:// and https:// URLs are supported.', durationMs: 0 };
+    }
+
+    const headers: Record<string, string> = {
+      'User-Agent': `ClawTalkGateway/1.0 (+tool:${toolName})`,
+    };
+    for (const [key, value] of Object.entries(execution.headers ?? {})) {
+      headers[key] = interpolateTemplate(value, args).replace(/[\r\n]+/g, ' ');
+    }
+
+    let body: string | undefined;
+    if (execution.body !== undefined && execution.method !== 'GET') {
+      const contentType = Object.entries(headers)
+        .find(([key]) => key.toLowerCase() === 'content-type')?.[1] ?? '';
+      const isJson = contentType.toLowerCase().includes('json') || /^\s*[[{]/.test(execution.body);
+      // Escape values as JSON string content so templates like {"q":"{{query}}"} stay valid.
+      body = interpolateTemplate(
+        execution.body,
+        args,
+        isJson ? (value) => JSON.stringify(value).slice(1, -1) : undefined,
+      );
+      if (isJson && !contentType) headers['Content-Type'] = 'application/json';
+    }
+
+    const timeoutS = Math.min(Math.max(1, execution.timeout || DEFAULT_TIMEOUT_S), MAX_TIMEOUT_S);
+    try {
+      const res = await fetch(parsed, {
+        method: execution.method,
+        headers,
+        body,
+        signal: AbortSignal.timeout(timeoutS * 1000),
+      });
+      const text = await res.text();
+      const truncated = text.length > MAX_OUTPUT_BYTES;
+      const output = truncated ? text.slice(0, MAX_OUTPUT_BYTES) : text;
+      return {
+        success: res.ok,
+        content:
+          `HTTP ${res.status} ${res.statusText}\n` +
+          `Content-Type: ${res.headers.get('content-type') || '(unknown)'}\n\n` +
+          (output || '(empty body)') +
+          (truncated ? '\n\n[Output truncated at 512KB]' : ''),
+        durationMs: 0,
+      };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      return { success: false, content: `${toolName} request failed: ${msg}`, durationMs: 0 };
+    }
+  }
+
   // -------------------------------------------------------------------------
   // Google Docs tools
   // -------------------------------------------------------------------------
@@ -485,6 +877,7 @@ export class ToolExecutor {
           `accountEmail: ${status.accountEmail ?? '(unknown)'}\n` +
           `accountDisplayName: ${status.accountDisplayName ?? '(unknown)'}\n` +
           `identityError: ${status.identityError ?? '(none)'}\n` +
+          `grantedScopes: ${status.grantedScopes?.join(' ') ?? '(unknown)'}\n` +
           (status.error ? `error: ${status.error}` : 'error: (none)'),
         durationMs: 0,
       };
@@ -736,6 +1129,688 @@ export class ToolExecutor {
     }
   }
 
+  // -------------------------------------------------------------------------
+  // Google Sheets tools
+  // -------------------------------------------------------------------------
+
+  private sheetsFailure(toolName: string, err: unknown): ToolExecResult {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      success: false,
+      content:
+        `${toolName} failed: ${msg}\n` +
+        `Required OAuth scopes: ${GOOGLE_DOCS_REQUIRED_SCOPES.join(', ')}`,
+      durationMs: 0,
+    };
+  }
+
+  private async execGoogleSheetsReadRange(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const spreadsheetId = String(args.spreadsheet_id ?? '').trim();
+    const range = String(args.range ?? '').trim();
+    const renderOption = String(args.value_render_option ?? '').trim().toUpperCase();
+    const maxRows = Math.max(1, Number(args.max_rows) || DEFAULT_SHEETS_MAX_ROWS);
+    const profile = args.profile === undefined ? undefined : String(args.profile).trim();
+    if (!spreadsheetId || !range) {
+      return { success: false, content: 'Missing required fields: spreadsheet_id, range', durationMs: 0 };
+    }
+
+    try {
+      const read = await googleSheetsReadRange({
+        spreadsheetId,
+        range,
+        valueRenderOption: renderOption === 'UNFORMATTED_VALUE' || renderOption === 'FORMULA' ? renderOption : undefined,
+        profile: profile || undefined,
+      });
+      const rows = read.values.slice(0, maxRows);
+      return {
+        success: true,
+        content:
+          `Google Sheets range: ${read.range}\n` +
+          `Spreadsheet ID: ${read.spreadsheetId}\n` +
+          `URL: ${read.url}\n` +
+          `Rows: ${read.values.length}${rows.length < read.values.length ? ` (showing first ${rows.length})` : ''}\n\n` +
+          (rows.map((row) => JSON.stringify(row)).join('\n') || '(empty range)'),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.sheetsFailure('google_sheets_read_range', err);
+    }
+  }
+
+  private async execGoogleSheetsWriteRange(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const spreadsheetId = String(args.spreadsheet_id ?? '').trim();
+    const range = String(args.range ?? '').trim();
+    const profile = args.profile === undefined ? undefined : String(args.profile).trim();
+    if (!spreadsheetId || !range || args.values === undefined) {
+      return { success: false, content: 'Missing required fields: spreadsheet_id, range, values', durationMs: 0 };
+    }
+
+    try {
+      const written = await googleSheetsWriteRange({
+        spreadsheetId,
+        range,
+        values: parseSheetRowsArg(args.values),
+        valueInputOption: args.value_input_option === 'RAW' ? 'RAW' : 'USER_ENTERED',
+        profile: profile || undefined,
+      });
+      return {
+        success: true,
+        content:
+          `Wrote Google Sheets range.\n` +
+          `Updated range: ${written.updatedRange}\n` +
+          `Updated rows: ${written.updatedRows}\n` +
+          `Updated cells: ${written.updatedCells}\n` +
+          `URL: ${written.url}`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.sheetsFailure('google_sheets_write_range', err);
+    }
+  }
+
+  private async execGoogleSheetsAppendRows(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const spreadsheetId = String(args.spreadsheet_id ?? '').trim();
+    const range = String(args.range ?? '').trim();
+    const profile = args.profile === undefined ? undefined : String(args.profile).trim();
+    if (!spreadsheetId || !range || args.rows === undefined) {
+      return { success: false, content: 'Missing required fields: spreadsheet_id, range, rows', durationMs: 0 };
+    }
+
+    try {
+      const appended = await googleSheetsAppendRows({
+        spreadsheetId,
+        range,
+        rows: parseSheetRowsArg(args.rows),
+        valueInputOption: args.value_input_option === 'RAW' ? 'RAW' : 'USER_ENTERED',
+        profile: profile || undefined,
+      });
+      return {
+        success: true,
+        content:
+          `Appended rows to Google Sheet.\n` +
+          `Appended rows: ${appended.appendedRows}\n` +
+          `Updated range: ${appended.updatedRange}\n` +
+          `URL: ${appended.url}`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.sheetsFailure('google_sheets_append_rows', err);
+    }
+  }
+
+  private async execGoogleSheetsCreate(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const title = String(args.title ?? '').trim();
+    if (!title) {
+      return { success: false, content: 'Missing required field: title', durationMs: 0 };
+    }
+    const sheetTitles = Array.isArray(args.sheet_titles) ? args.sheet_titles.map(String) : undefined;
+    const headers = Array.isArray(args.headers) ? args.headers : undefined;
+    const folderId = args.folder_id === undefined ? undefined : String(args.folder_id).trim();
+    const profile = args.profile === undefined ? undefined : String(args.profile).trim();
+
+    try {
+      const created = await googleSheetsCreate({
+        title,
+        sheetTitles,
+        headers,
+        folderId: folderId || undefined,
+        profile: profile || undefined,
+      });
+      return {
+        success: true,
+        content:
+          `Created Google Sheet successfully.\n` +
+          `Title: ${created.title}\n` +
+          `Spreadsheet ID: ${created.spreadsheetId}\n` +
+          `Sheets: ${created.sheetTitles.join(', ') || '(default)'}\n` +
+          `URL: ${created.url}`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.sheetsFailure('google_sheets_create', err);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Google Calendar tools
+  // -------------------------------------------------------------------------
+
+  private calendarFailure(toolName: string, err: unknown): ToolExecResult {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      success: false,
+      content:
+        `${toolName} failed: ${msg}\n` +
+        `Required OAuth scopes: ${GOOGLE_CALENDAR_REQUIRED_SCOPES.join(', ')}\n` +
+        'If calendar access was never granted, reconnect Google with the calendar feature ' +
+        '(POST /api/tools/google/oauth/start with {"features":["calendar"]}).',
+      durationMs: 0,
+    };
+  }
+
+  private async execGoogleCalendarListEvents(args: Record<string, unknown>): Promise<ToolExecResult> {
+    try {
+      const listed = await googleCalendarListEvents({
+        calendarId: optionalString(args.calendar_id),
+        timeMin: optionalString(args.time_min),
+        timeMax: optionalString(args.time_max),
+        query: optionalString(args.query),
+        maxResults: args.max_results === undefined ? undefined : Number(args.max_results),
+        profile: optionalString(args.profile),
+      });
+      return {
+        success: true,
+        content:
+          `Google Calendar events (${listed.events.length}):\n` +
+          `Calendar: ${listed.calendarId}${listed.timeZone ? ` (${listed.timeZone})` : ''}\n` +
+          `Window: ${listed.timeMin} → ${listed.timeMax}\n\n` +
+          (listed.events.map(formatCalendarEvent).join('\n') || '(no events)'),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.calendarFailure('google_calendar_list_events', err);
+    }
+  }
+
+  private async execGoogleCalendarCreateEvent(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const input = readCalendarEventArgs(args);
+    if (!input.summary?.trim() || !input.start || !input.end) {
+      return { success: false, content: 'Missing required fields: summary, start, end', durationMs: 0 };
+    }
+    try {
+      const created = await googleCalendarCreateEvent({
+        ...input,
+        calendarId: optionalString(args.calendar_id),
+        profile: optionalString(args.profile),
+      });
+      return {
+        success: true,
+        content: `Created Google Calendar event.\n${formatCalendarEvent(created)}`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.calendarFailure('google_calendar_create_event', err);
+    }
+  }
+
+  private async execGoogleCalendarUpdateEvent(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const eventId = String(args.event_id ?? '').trim();
+    if (!eventId) {
+      return { success: false, content: 'Missing required field: event_id', durationMs: 0 };
+    }
+    try {
+      const updated = await googleCalendarUpdateEvent({
+        ...readCalendarEventArgs(args),
+        eventId,
+        calendarId: optionalString(args.calendar_id),
+        profile: optionalString(args.profile),
+      });
+      return {
+        success: true,
+        content: `Updated Google Calendar event.\n${formatCalendarEvent(updated)}`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.calendarFailure('google_calendar_update_event', err);
+    }
+  }
+
+  private async execGoogleCalendarDeleteEvent(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const eventId = String(args.event_id ?? '').trim();
+    if (!eventId) {
+      return { success: false, content: 'Missing required field: event_id', durationMs: 0 };
+    }
+    try {
+      await googleCalendarDeleteEvent({
+        eventId,
+        calendarId: optionalString(args.calendar_id),
+        profile: optionalString(args.profile),
+      });
+      return { success: true, content: `Deleted Google Calendar event ${eventId}.`, durationMs: 0 };
+    } catch (err) {
+      return this.calendarFailure('google_calendar_delete_event', err);
+    }
+  }
+
+  private async execGoogleCalendarFreeBusy(args: Record<string, unknown>): Promise<ToolExecResult> {
+    try {
+      const result = await googleCalendarFreeBusy({
+        calendarIds: Array.isArray(args.calendar_ids) ? args.calendar_ids.map(String) : undefined,
+        timeMin: optionalString(args.time_min),
+        timeMax: optionalString(args.time_max),
+        minSlotMinutes: args.min_slot_minutes === undefined ? undefined : Number(args.min_slot_minutes),
+        profile: optionalString(args.profile),
+      });
+      const busyLines = result.busy.map((slot) => `- ${slot.start} → ${slot.end} (${slot.calendarId})`);
+      const freeLines = result.free.map((slot) => `- ${slot.start} → ${slot.end}`);
+      const errorLines = result.errors.map((entry) => `- ${entry.calendarId}: ${entry.reason}`);
+      return {
+        success: true,
+        content:
+          `Google Calendar free/busy\n` +
+          `Window: ${result.timeMin} → ${result.timeMax}\n\n` +
+          `Busy (${busyLines.length}):\n${busyLines.join('\n') || '(none)'}\n\n` +
+          `Free (${freeLines.length}):\n${freeLines.join('\n') || '(none)'}` +
+          (errorLines.length > 0 ? `\n\nErrors:\n${errorLines.join('\n')}` : ''),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.calendarFailure('google_calendar_free_busy', err);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Gmail tools
+  // -------------------------------------------------------------------------
+
+  private gmailFailure(toolName: string, err: unknown): ToolExecResult {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      success: false,
+      content:
+        `${toolName} failed: ${msg}\n` +
+        `Required OAuth scopes: ${GMAIL_REQUIRED_SCOPES.join(', ')}\n` +
+        'If Gmail access was never granted, reconnect Google with the gmail feature ' +
+        '(POST /api/tools/google/oauth/start with {"features":["gmail"]}).',
+      durationMs: 0,
+    };
+  }
+
+  private async execGmailSearch(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const query = String(args.query ?? '').trim();
+    if (!query) {
+      return { success: false, content: 'Missing required field: query', durationMs: 0 };
+    }
+    try {
+      const found = await gmailSearch({
+        query,
+        maxResults: args.max_results === undefined ? undefined : Number(args.max_results),
+        profile: optionalString(args.profile),
+      });
+      const lines = found.messages.map((message) =>
+        `- ${message.date ?? '(no date)'} | ${message.from ?? '(unknown sender)'} | ${message.subject ?? '(no subject)'}\n` +
+        `  threadId=${message.threadId} messageId=${message.id}` +
+        (message.snippet ? `\n  ${message.snippet}` : ''));
+      return {
+        success: true,
+        content: `Gmail search "${query}" (${found.messages.length}):\n${lines.join('\n') || '(no matches)'}`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.gmailFailure('gmail_search', err);
+    }
+  }
+
+  private async execGmailReadThread(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const threadId = String(args.thread_id ?? '').trim();
+    if (!threadId) {
+      return { success: false, content: 'Missing required field: thread_id', durationMs: 0 };
+    }
+    try {
+      const thread = await gmailReadThread({
+        threadId,
+        maxChars: args.max_chars === undefined ? undefined : Number(args.max_chars),
+        profile: optionalString(args.profile),
+      });
+      const sections = thread.messages.map((message) =>
+        `--- ${message.date ?? ''}\n` +
+        `From: ${message.from ?? '(unknown)'}\n` +
+        `To: ${message.to ?? '(unknown)'}\n` +
+        `Subject: ${message.subject ?? '(no subject)'}\n\n` +
+        message.body);
+      return {
+        success: true,
+        content:
+          `Gmail thread ${thread.threadId} (${thread.messages.length} messages)\n` +
+          `Truncated: ${thread.truncated ? 'yes' : 'no'}\n\n` +
+          sections.join('\n\n'),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.gmailFailure('gmail_read_thread', err);
+    }
+  }
+
+  private async execGmailCreateDraft(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const to = Array.isArray(args.to) ? args.to.map(String) : optionalString(args.to)?.split(',');
+    const body = args.body === undefined ? '' : String(args.body);
+    if (!to || to.length === 0 || !body.trim()) {
+      return { success: false, content: 'Missing required fields: to, body', durationMs: 0 };
+    }
+    try {
+      const draft = await gmailCreateDraft({
+        to,
+        cc: Array.isArray(args.cc) ? args.cc.map(String) : undefined,
+        bcc: Array.isArray(args.bcc) ? args.bcc.map(String) : undefined,
+        subject: optionalString(args.subject),
+        body,
+        threadId: optionalString(args.thread_id),
+        profile: optionalString(args.profile),
+      });
+      return {
+        success: true,
+        content:
+          `Created Gmail draft (not sent).\n` +
+          `Draft ID: ${draft.draftId}\n` +
+          `To: ${draft.to.join(', ')}\n` +
+          `Subject: ${draft.subject}\n` +
+          (draft.threadId ? `Thread ID: ${draft.threadId}\n` : '') +
+          'Sending requires gmail_send_draft, which always asks the user for approval.',
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.gmailFailure('gmail_create_draft', err);
+    }
+  }
+
+  private async execGmailSendDraft(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const draftId = String(args.draft_id ?? '').trim();
+    if (!draftId) {
+      return { success: false, content: 'Missing required field: draft_id', durationMs: 0 };
+    }
+    try {
+      const sent = await gmailSendDraft({ draftId, profile: optionalString(args.profile) });
+      return {
+        success: true,
+        content:
+          `Sent Gmail draft ${draftId}.\n` +
+          `Message ID: ${sent.messageId}` +
+          (sent.threadId ? `\nThread ID: ${sent.threadId}` : ''),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.gmailFailure('gmail_send_draft', err);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // GitHub tools
+  // -------------------------------------------------------------------------
+
+  private githubFailure(toolName: string, err: unknown): ToolExecResult {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      success: false,
+      content: `${toolName} failed: ${msg}`,
+      durationMs: 0,
+    };
+  }
+
+  private async execGithubSearchIssues(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const query = String(args.query ?? '').trim();
+    const repo = optionalString(args.repo);
+    if (!query && !repo) {
+      return { success: false, content: 'Missing required field: query (or repo)', durationMs: 0 };
+    }
+    const type = args.type === 'issue' || args.type === 'pr' ? args.type : undefined;
+    const state = args.state === 'open' || args.state === 'closed' ? args.state : undefined;
+    try {
+      const found = await githubSearchIssues({
+        query,
+        repo,
+        type,
+        state,
+        maxResults: args.max_results === undefined ? undefined : Number(args.max_results),
+        profile: optionalString(args.profile),
+      });
+      const lines = found.items.map((item) =>
+        `- ${item.repo ?? ''}#${item.number} [${item.isPullRequest ? 'PR' : 'issue'}, ${item.state}] ${item.title}\n` +
+        `  by ${item.author ?? '(unknown)'}` +
+        (item.labels.length > 0 ? ` | labels: ${item.labels.join(', ')}` : '') +
+        ` | comments: ${item.comments}` +
+        (item.url ? `\n  ${item.url}` : ''));
+      return {
+        success: true,
+        content:
+          `GitHub search "${found.query}" (${found.items.length} of ${found.totalCount}):\n` +
+          (lines.join('\n') || '(no matches)'),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.githubFailure('github_search_issues', err);
+    }
+  }
+
+  private async execGithubGetIssue(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const repo = String(args.repo ?? '').trim();
+    const number = Number(args.number);
+    if (!repo || !Number.isFinite(number)) {
+      return { success: false, content: 'Missing required fields: repo, number', durationMs: 0 };
+    }
+    try {
+      const result = await githubGetIssue({
+        repo,
+        number,
+        includeComments: args.include_comments !== false,
+        profile: optionalString(args.profile),
+      });
+      const { issue, pullRequest, comments } = result;
+      const lines = [
+        `${issue.isPullRequest ? 'Pull request' : 'Issue'} ${repo}#${issue.number}: ${issue.title}`,
+        `State: ${issue.state}`,
+        `Author: ${issue.author ?? '(unknown)'}`,
+        ...(issue.labels.length > 0 ? [`Labels: ${issue.labels.join(', ')}`] : []),
+        ...(issue.url ? [`URL: ${issue.url}`] : []),
+      ];
+      if (pullRequest) {
+        lines.push(
+          `Branch: ${pullRequest.head} -> ${pullRequest.base}`,
+          `Draft: ${pullRequest.draft ? 'yes' : 'no'} | Merged: ${pullRequest.merged ? 'yes' : 'no'}` +
+            (pullRequest.mergeable !== undefined && pullRequest.mergeable !== null
+              ? ` | Mergeable: ${pullRequest.mergeable ? 'yes' : 'no'}`
+              : ''),
+        );
+        if (pullRequest.changedFiles !== undefined) {
+          lines.push(`Changes: ${pullRequest.changedFiles} files, +${pullRequest.additions ?? 0} -${pullRequest.deletions ?? 0}`);
+        }
+      }
+      lines.push('', issue.body || '(no description)');
+      for (const comment of comments ?? []) {
+        lines.push('', `--- ${comment.author ?? '(unknown)'} ${comment.createdAt ?? ''}`, comment.body);
+      }
+      return { success: true, content: lines.join('\n'), durationMs: 0 };
+    } catch (err) {
+      return this.githubFailure('github_get_issue', err);
+    }
+  }
+
+  private async execGithubComment(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const repo = String(args.repo ?? '').trim();
+    const number = Number(args.number);
+    const body = args.body === undefined ? '' : String(args.body);
+    if (!repo || !Number.isFinite(number) || !body.trim()) {
+      return { success: false, content: 'Missing required fields: repo, number, body', durationMs: 0 };
+    }
+    try {
+      const comment = await githubCreateComment({ repo, number, body, profile: optionalString(args.profile) });
+      return {
+        success: true,
+        content: `Commented on ${repo}#${number}.` + (comment.url ? `\nURL: ${comment.url}` : ''),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.githubFailure('github_comment', err);
+    }
+  }
+
+  private async execGithubReadFile(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const repo = String(args.repo ?? '').trim();
+    const filePath = String(args.path ?? '').trim();
+    if (!repo || !filePath) {
+      return { success: false, content: 'Missing required fields: repo, path', durationMs: 0 };
+    }
+    try {
+      const result = await githubReadFile({
+        repo,
+        path: filePath,
+        ref: optionalString(args.ref),
+        maxChars: args.max_chars === undefined ? undefined : Number(args.max_chars),
+        profile: optionalString(args.profile),
+      });
+      const at = result.ref ? `@${result.ref}` : '';
+      if (result.kind === 'dir') {
+        const lines = result.entries.map((entry) => `- ${entry.path}${entry.type === 'dir' ? '/' : ''}`);
+        return {
+          success: true,
+          content: `Directory ${repo}${at}:${result.path} (${result.entries.length} entries):\n${lines.join('\n')}`,
+          durationMs: 0,
+        };
+      }
+      return {
+        success: true,
+        content:
+          `File ${repo}${at}:${result.path}\n` +
+          `Size: ${result.size} bytes | SHA: ${result.sha}\n` +
+          `Truncated: ${result.truncated ? 'yes' : 'no'}\n\n` +
+          result.content,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.githubFailure('github_read_file', err);
+    }
+  }
+
+  private async execGithubListWorkflowRuns(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const repo = String(args.repo ?? '').trim();
+    if (!repo) {
+      return { success: false, content: 'Missing required field: repo', durationMs: 0 };
+    }
+    try {
+      const result = await githubListWorkflowRuns({
+        repo,
+        workflow: optionalString(args.workflow),
+        branch: optionalString(args.branch),
+        status: optionalString(args.status),
+        maxResults: args.max_results === undefined ? undefined : Number(args.max_results),
+        profile: optionalString(args.profile),
+      });
+      const lines = result.runs.map((run) =>
+        `- ${run.createdAt ?? ''} ${run.name ?? '(workflow)'} #${run.id} | ${run.status ?? 'unknown'}` +
+        (run.conclusion ? `/${run.conclusion}` : '') +
+        ` | ${run.branch ?? ''} (${run.event ?? ''}) ${run.headSha?.slice(0, 7) ?? ''}` +
+        (run.url ? `\n  ${run.url}` : ''));
+      return {
+        success: true,
+        content:
+          `Workflow runs for ${repo} (${result.runs.length} of ${result.totalCount}):\n` +
+          (lines.join('\n') || '(no runs)'),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.githubFailure('github_list_workflow_runs', err);
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Notion tools
+  // -------------------------------------------------------------------------
+
+  private notionFailure(toolName: string, err: unknown): ToolExecResult {
+    const msg = err instanceof Error ? err.message : String(err);
+    return {
+      success: false,
+      content:
+        `${toolName} failed: ${msg}\n` +
+        'If a page is not found, make sure it is shared with the Notion integration (page menu > Connections).',
+      durationMs: 0,
+    };
+  }
+
+  private async execNotionSearch(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const query = String(args.query ?? '').trim();
+    const type = args.type === 'page' || args.type === 'database' ? args.type : undefined;
+    try {
+      const results = await notionSearch({
+        query,
+        type,
+        maxResults: args.max_results === undefined ? undefined : Number(args.max_results),
+        profile: optionalString(args.profile),
+      });
+      const lines = results.map((result) =>
+        `- [${result.object}] ${result.title} (id: ${result.id})` +
+        (result.lastEditedTime ? ` | edited ${result.lastEditedTime}` : '') +
+        (result.url ? `\n  ${result.url}` : ''));
+      return {
+        success: true,
+        content: `Notion search "${query}" (${results.length}):\n${lines.join('\n') || '(no matches)'}`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.notionFailure('notion_search', err);
+    }
+  }
+
+  private async execNotionReadPage(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const pageId = String(args.page_id ?? '').trim();
+    if (!pageId) {
+      return { success: false, content: 'Missing required field: page_id', durationMs: 0 };
+    }
+    try {
+      const page = await notionReadPage({
+        pageId,
+        maxChars: args.max_chars === undefined ? undefined : Number(args.max_chars),
+        profile: optionalString(args.profile),
+      });
+      return {
+        success: true,
+        content:
+          `Notion page: ${page.title}\n` +
+          `ID: ${page.id}\n` +
+          (page.url ? `URL: ${page.url}\n` : '') +
+          `Truncated: ${page.truncated ? 'yes' : 'no'}\n\n` +
+          (page.markdown || '(empty page)'),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.notionFailure('notion_read_page', err);
+    }
+  }
+
+  private async execNotionCreatePage(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const parentId = String(args.parent_id ?? '').trim();
+    const title = String(args.title ?? '').trim();
+    if (!parentId || !title) {
+      return { success: false, content: 'Missing required fields: parent_id, title', durationMs: 0 };
+    }
+    try {
+      const created = await notionCreatePage({
+        parentId,
+        parentType: args.parent_type === 'database' ? 'database' : 'page',
+        title,
+        markdown: optionalString(args.content),
+        profile: optionalString(args.profile),
+      });
+      return {
+        success: true,
+        content:
+          `Created Notion page "${title}" (${created.blocks} blocks).\n` +
+          `ID: ${created.id}` +
+          (created.url ? `\nURL: ${created.url}` : ''),
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.notionFailure('notion_create_page', err);
+    }
+  }
+
+  private async execNotionAppendBlocks(args: Record<string, unknown>): Promise<ToolExecResult> {
+    const pageId = String(args.page_id ?? '').trim();
+    const content = args.content === undefined ? '' : String(args.content);
+    if (!pageId || !content.trim()) {
+      return { success: false, content: 'Missing required fields: page_id, content', durationMs: 0 };
+    }
+    try {
+      const appended = await notionAppendBlocks({ pageId, markdown: content, profile: optionalString(args.profile) });
+      return {
+        success: true,
+        content: `Appended ${appended.blocks} blocks to Notion page ${appended.id}.`,
+        durationMs: 0,
+      };
+    } catch (err) {
+      return this.notionFailure('notion_append_blocks', err);
+    }
+  }
+
   // -------------------------------------------------------------------------
   // Talk state tools
   // -------------------------------------------------------------------------
@@ -755,18 +1830,23 @@ export class ToolExecutor {
     if (!streamResolved.ok) {
       return { success: false, content: streamResolved.content, durationMs: 0 };
     }
-    const outcome = await this.store.appendStateEvent(
-      talkId,
-      streamResolved.stream,
-      {
-        type: eventType,
-        payload: payload as Record<string, unknown>,
-        occurredAt: args.occurred_at === undefined ? undefined : Number(args.occurred_at),
-        idempotencyKey: args.idempotency_key === undefined ? undefined : String(args.idempotency_key),
-        actor: 'tool:state_append_event',
-      },
-      { modifiedBy: 'tool:state_append_event' },
-    );
+    let outcome: Awaited<ReturnType<TalkStore['appendStateEvent']>>;
+    try {
+      outcome = await this.store.appendStateEvent(
+        talkId,
+        streamResolved.stream,
+        {
+          type: eventType,
+          payload: payload as Record<string, unknown>,
+          occurredAt: args.occurred_at === undefined ? undefined : Number(args.occurred_at),
+          idempotencyKey: args.idempotency_key === undefined ? undefined : String(args.idempotency_key),
+          actor: 'tool:state_append_event',
+        },
+        { modifiedBy: 'tool:state_append_event' },
+      );
+    } catch (err) {
+      return { success: false, content: err instanceof Error ? err.message : String(err), durationMs: 0 };
+    }
     if (!outcome) {
       return { success: false, content: `Talk not found: ${talkId}`, durationMs: 0 };
     }
@@ -818,17 +1898,30 @@ export class ToolExecutor {
     if (!streamResolved.ok) {
       return { success: false, content: streamResolved.content, durationMs: 0 };
     }
+    const updates = {
+      reducer: args.reducer,
+      window: args.window,
+      keyField: args.key_field === undefined ? undefined : String(args.key_field),
+      valueField: args.value_field === undefined ? undefined : String(args.value_field),
+      items: args.items,
+      payloadSchema: args.payload_schema,
+      aggregations: args.aggregations,
+      timezone: args.timezone === undefined ? undefined : String(args.timezone),
+      weekStartDay: args.week_start_day === undefined ? undefined : Number(args.week_start_day),
+      rolloverHour: args.rollover_hour === undefined ? undefined : Number(args.rollover_hour),
+      rolloverMinute: args.rollover_minute === undefined ? undefined : Number(args.rollover_minute),
+      carryOverMode: args.carry_over_mode === undefined ? undefined : String(args.carry_over_mode),
+      target: args.target === undefined ? undefined : Number(args.target),
+      targetMinutes: args.target_minutes === undefined ? undefined : Number(args.target_minutes),
+    };
+    const invalid = validateStatePolicyUpdates(updates);
+    if (invalid) {
+      return { success: false, content: `Invalid policy: ${invalid}`, durationMs: 0 };
+    }
     const policy = await this.store.configureStatePolicy(
       talkId,
       streamResolved.stream,
-      {
-        timezone: args.timezone === undefined ? undefined : String(args.timezone),
-        weekStartDay: args.week_start_day === undefined ? undefined : Number(args.week_start_day),
-        rolloverHour: args.rollover_hour === undefined ? undefined : Number(args.rollover_hour),
-        rolloverMinute: args.rollover_minute === undefined ? undefined : Number(args.rollover_minute),
-        carryOverMode: args.carry_over_mode === undefined ? undefined : String(args.carry_over_mode) as any,
-        targetMinutes: args.target_minutes === undefined ? undefined : Number(args.target_minutes),
-      },
+      updates as Partial<TalkStatePolicy>,
       { modifiedBy: 'tool:state_configure_policy' },
     );
     if (!policy) {
@@ -864,6 +1957,56 @@ export class ToolExecutor {
     };
   }
 
+  // -------------------------------------------------------------------------
+  // http_api_client
+  // -------------------------------------------------------------------------
+
+  private async execHttpApiClient(
+    args: Record<string, unknown>,
+    context?: ToolExecContext,
+  ): Promise<ToolExecResult> {
+    const method = String(args.method ?? '').trim().toUpperCase() as HttpApiMethod;
+    const url = String(args.url ?? '').trim();
+    if (!method || !url) {
+      return { success: false, content: 'Missing required fields: method, url', durationMs: 0 };
+    }
+    if (args.headers !== undefined && (typeof args.headers !== 'object' || args.headers === null || Array.isArray(args.headers))) {
+      return { success: false, content: 'headers must be an object of header names to values', durationMs: 0 };
+    }
+
+    const talk = context?.talkId ? this.store.getTalk(context.talkId) : undefined;
+    if (resolveNetworkAccess(talk ?? {}) === 'restricted') {
+      return { success: false, content: 'http_api_client blocked by Network Access: Restricted.', durationMs: 0 };
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries((args.headers ?? {}) as Record<string, unknown>).map(([key, value]) => [key, String(value)]),
+    );
+    const result = await getHttpApiClientStore(this.dataDir, this.logger).request({
+      method,
+      url,
+      headers,
+      body: args.body,
+      timeoutS: args.timeout === undefined ? undefined : Number(args.timeout),
+      maxChars: args.max_chars === undefined ? undefined : Number(args.max_chars),
+    }, talk?.httpAllowedHosts ?? []);
+    if (!result.ok) {
+      return { success: false, content: `http_api_client failed: ${result.error}`, durationMs: 0 };
+    }
+
+    const headerLines = Object.entries(result.headers).map(([key, value]) => `${key}: ${value}`);
+    return {
+      success: result.status < 400,
+      content:
+        `HTTP ${result.status} ${result.statusText}`.trim() + '\n' +
+        (headerLines.length > 0 ? `${headerLines.join('\n')}\n` : '') +
+        (result.secretsUsed.length > 0 ? `Secrets used: ${result.secretsUsed.join(', ')}\n` : '') +
+        `Truncated: ${result.truncated ? 'yes' : 'no'}\n\n` +
+        (result.body || '(empty body)'),
+      durationMs: 0,
+    };
+  }
+
   // -------------------------------------------------------------------------
   // Web fetch
   // -------------------------------------------------------------------------
@@ -1106,3 +2249,40 @@ export class ToolExecutor {
     };
   }
 }
+
+/** Rows may arrive as a JSON-encoded string from models that stringify nested arrays. */
+function parseSheetRowsArg(raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function optionalString(raw: unknown): string | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  return String(raw).trim() || undefined;
+}
+
+function readCalendarEventArgs(args: Record<string, unknown>): GoogleCalendarEventInput {
+  return {
+    summary: args.summary === undefined ? undefined : String(args.summary),
+    start: optionalString(args.start),
+    end: optionalString(args.end),
+    timeZone: optionalString(args.time_zone),
+    description: args.description === undefined ? undefined : String(args.description),
+    location: args.location === undefined ? undefined : String(args.location),
+    attendees: Array.isArray(args.attendees) ? args.attendees.map(String) : undefined,
+  };
+}
+
+function formatCalendarEvent(event: GoogleCalendarEvent): string {
+  const when = event.allDay ? `${event.start} (all day)` : `${event.start} → ${event.end}`;
+  return [
+    `- ${event.summary} | ${when} | id=${event.id}`,
+    event.location ? `  location: ${event.location}` : '',
+    event.attendees?.length ? `  attendees: ${event.attendees.join(', ')}` : '',
+    event.htmlLink ? `  link: ${event.htmlLink}` : '',
+  ].filter(Boolean).join('\n');
+}
@@ -9,17 +9,27 @@
  * Two variants:
  *   - runToolLoop()              — Streaming, sends SSE events to client
  *   - runToolLoopNonStreaming()   — For job scheduler, no client events
+ *
+ * Both can pause when a tool call needs user approval (toolMode "confirm")
+ * and later resume the same turn from the returned pause state, and both
+ * move down the `fallbacks` chain when a model fails or is rate limited
+ * (see model-fallback.ts).
  */
 
 import type { ServerResponse } from 'node:http';
 import { randomUUID } from 'node:crypto';
 import { Agent } from 'undici';
-import type { Logger, ToolCallInfo } from './types.js';
+import type { JobRunCap, Logger, ToolCallInfo } from './types.js';
 import type { ToolRegistry, ToolDefinition } from './tool-registry.js';
 import type { ToolExecutor, ToolExecResult } from './tool-executor.js';
 import { extractGoogleDocsDocumentIdFromUrl, extractGoogleDocsTabIdFromUrl } from './google-docs-url.js';
+import { toolAlwaysRequiresApproval } from './talk-policy.js';
 import type { DirectProviderRoute } from './direct-provider-router.js';
 import { translateRequestToAnthropic, translateAnthropicStream, translateAnthropicResponse } from './anthropic-format.js';
+import { parseUpstreamUsage, type UsageLedger, type UsageRecord } from './usage-ledger.js';
+import { isRunCapReached, totalTokens } from './talk-budget.js';
+import { ModelFallbackChain, describeModelFallback, type ModelFallback, type ModelFallbackSwitch } from './model-fallback.js';
+import { recordProviderRateLimits } from './proxy.js';
 
 /** Dispatcher with disabled headers/body timeout for long-running non-streaming requests.
  *  Node.js undici defaults to 5 min headersTimeout which kills requests before our
@@ -102,7 +112,7 @@ function sleep(ms: number): Promise<void> {
 }
 
 function isGoogleToolName(toolName: string): boolean {
-  return /^google_(docs|drive)_/i.test(toolName);
+  return /^(google_(docs|drive|sheets|calendar)|gmail)_/i.test(toolName);
 }
 
 function withDefaultGoogleProfile(
@@ -165,6 +175,87 @@ function routeToolCallForExecution(
   return { executeName, executeArgsJson };
 }
 
+// ---------------------------------------------------------------------------
+// Tool approval (toolMode "confirm")
+// ---------------------------------------------------------------------------
+
+/** Tool result content returned to the model when the user denies a call. */
+export const TOOL_CALL_DENIED_CONTENT = 'Tool call denied by user.';
+
+/** User decision for a tool call that paused for approval. */
+export interface ToolCallDecision {
+  approved: boolean;
+  /** Replacement arguments JSON (approve with edits). */
+  arguments?: string;
+}
+
+type LoopMessage = { role: string; content: string | Array<any> | null; tool_calls?: any[]; tool_call_id?: string; name?: string };
+
+/** Loop state returned when a tool call paused for approval. */
+export interface ToolLoopPause {
+  /** Full LLM conversation at the pause, ending with the paused batch. */
+  messages: LoopMessage[];
+  /** Tail of `messages` (tool_calls turn + results so far) not included in toolCallMessages. */
+  pendingBatch: Array<{ role: string; content: string | null; tool_calls?: ToolCallInfo[]; tool_call_id?: string; name?: string }>;
+  /** Tool calls still to run; the first one awaits approval. */
+  remainingToolCalls: ToolCallInfo[];
+  /** Text the model produced before the pause. */
+  partialContent: string;
+}
+
+type ToolCallGate =
+  | { action: 'run'; argsJson: string }
+  | { action: 'deny' }
+  | { action: 'pause' };
+
+function gateToolCall(
+  tc: ToolCallInfo,
+  opts: { requiresApproval?: (toolName: string) => boolean; toolCallDecisions?: Record<string, ToolCallDecision> },
+): ToolCallGate {
+  const decision = opts.toolCallDecisions?.[tc.id];
+  if (decision) {
+    if (!decision.approved) return { action: 'deny' };
+    return { action: 'run', argsJson: decision.arguments ?? tc.function.arguments };
+  }
+  if (opts.requiresApproval?.(tc.function.name) || toolAlwaysRequiresApproval(tc.function.name)) {
+    return { action: 'pause' };
+  }
+  return { action: 'run', argsJson: tc.function.arguments };
+}
+
+/**
+ * Reflect approved-with-edits arguments in the assistant tool_calls turn so
+ * the transcript matches what actually ran.
+ */
+function applyEditedArguments(messages: LoopMessage[], toolCallId: string, argsJson: string): void {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const calls = messages[i].tool_calls;
+    if (messages[i].role !== 'assistant' || !Array.isArray(calls)) continue;
+    const call = calls.find((c: any) => c?.id === toolCallId);
+    if (call?.function) call.function.arguments = argsJson;
+    return;
+  }
+}
+
+/** Index of the assistant tool_calls turn that opened the current batch. */
+function findBatchStart(messages: LoopMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role === 'assistant' && Array.isArray(msg.tool_calls) && msg.tool_calls.length > 0) return i;
+  }
+  return messages.length;
+}
+
+function buildPause(messages: LoopMessage[], remainingToolCalls: ToolCallInfo[], partialContent: string): ToolLoopPause {
+  const snapshot = JSON.parse(JSON.stringify(messages)) as LoopMessage[];
+  return {
+    messages: snapshot,
+    pendingBatch: snapshot.slice(findBatchStart(snapshot)) as ToolLoopPause['pendingBatch'],
+    remainingToolCalls,
+    partialContent,
+  };
+}
+
 /** Accumulated tool call fragment from streaming delta. */
 interface ToolCallAccumulator {
   id: string;
@@ -175,6 +266,49 @@ interface ToolCallAccumulator {
   };
 }
 
+/** Where to record token usage for each upstream call, and who to attribute it to. */
+export interface ToolLoopUsageOptions {
+  ledger: UsageLedger;
+  agentName?: string;
+  jobId?: string;
+  /**
+   * Stop making upstream calls once the run has used this much (non-streaming
+   * loop only). Checked after each call, so the last call can overshoot it.
+   */
+  runCap?: JobRunCap;
+}
+
+/** Record the `usage` block of one upstream response, if the caller asked for accounting. */
+function recordUpstreamUsage(
+  opts: {
+    model: string;
+    responseModel?: string;
+    talkId?: string;
+    directRoute?: DirectProviderRoute;
+    usage?: ToolLoopUsageOptions;
+  },
+  rawUsage: unknown,
+  logger: Logger,
+): UsageRecord | undefined {
+  if (!opts.usage) return undefined;
+  const usage = parseUpstreamUsage(rawUsage);
+  if (!usage) return undefined;
+  try {
+    return opts.usage.ledger.record({
+      model: opts.model,
+      responseModel: opts.responseModel,
+      route: opts.directRoute ? 'direct' : 'openclaw',
+      usage,
+      talkId: opts.talkId,
+      agentName: opts.usage.agentName,
+      jobId: opts.usage.jobId,
+    });
+  } catch (err) {
+    logger.warn(`ToolLoop: failed to record usage: ${err instanceof Error ? err.message : String(err)}`);
+    return undefined;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Streaming variant (for live chat)
 // ---------------------------------------------------------------------------
@@ -214,12 +348,34 @@ export interface ToolLoopStreamOptions {
   talkId?: string;
   /** Direct provider route — bypasses OpenClaw when set. */
   directRoute?: DirectProviderRoute;
+  /** Models to switch to, in order, when the current one fails or is rate limited. */
+  fallbacks?: ModelFallback[];
+  /** Token accounting for every upstream call. */
+  usage?: ToolLoopUsageOptions;
+  /**
+   * Returns true when a tool call must pause for user approval (toolMode "confirm").
+   * Always-confirm tools (e.g. gmail_send_draft) pause regardless.
+   */
+  requiresApproval?: (toolName: string) => boolean;
+  /** Tool calls left over from a paused turn; run before the first LLM call. */
+  resumeToolCalls?: ToolCallInfo[];
+  /** Decisions for paused tool calls, keyed by tool call id. */
+  toolCallDecisions?: Record<string, ToolCallDecision>;
+  /**
+   * Called when the loop pauses for approval, before the SSE event is sent.
+   * Returns the approval id the client should answer.
+   */
+  onApprovalRequired?: (pause: ToolLoopPause) => string | undefined;
 }
 
 export interface ToolLoopStreamResult {
   fullContent: string;
   responseModel: string | undefined;
   toolCallMessages: Array<{ role: string; content: string; tool_calls?: ToolCallInfo[]; tool_call_id?: string; name?: string }>;
+  /** Set when the loop stopped to wait for a tool approval. */
+  pendingApproval?: ToolLoopPause;
+  /** Fallback model that answered, when the requested model was abandoned. */
+  answeredModel?: string;
 }
 
 /**
@@ -230,10 +386,23 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
   if (opts.transport === 'responses') {
     return runToolLoopResponses(opts);
   }
-  const { messages, model, tools, gatewayOrigin, authToken, extraHeaders, res, executor, logger, clientSignal, traceId } = opts;
+  const { messages, tools, gatewayOrigin, authToken, extraHeaders, res, executor, logger, clientSignal, traceId } = opts;
   let fullContent = '';
   let responseModel: string | undefined;
   const toolCallMessages: ToolLoopStreamResult['toolCallMessages'] = [];
+  const chain = new ModelFallbackChain({ model: opts.model, directRoute: opts.directRoute }, opts.fallbacks);
+  let { model, directRoute } = chain.current;
+  const switchModel = (change: ModelFallbackSwitch) => {
+    ({ model, directRoute } = chain.current);
+    responseModel = undefined;
+    logger.warn(`ToolLoop: ${describeModelFallback(change)}${change.error ? ` (${change.error})` : ''}`);
+    opts.onStatus?.({
+      code: 'MODEL_FALLBACK',
+      message: `${describeModelFallback(change)}.`,
+      level: 'warn',
+      meta: { ...change },
+    });
+  };
 
   // Activity-based abort spanning the entire tool loop.
   // Resets on every chunk, tool event, and keepalive.
@@ -260,7 +429,99 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
     }
   }, KEEPALIVE_INTERVAL_MS);
 
+  let pendingApproval: ToolLoopPause | undefined;
+
+  /**
+   * Execute a batch of tool calls, streaming tool_start/tool_end events.
+   * Returns false when a call paused for approval; the batch (from
+   * `batchStart` in toolCallMessages) is then handed back via pendingApproval.
+   */
+  const runToolCalls = async (toolCalls: ToolCallInfo[], batchStart: number): Promise<boolean> => {
+    for (let i = 0; i < toolCalls.length; i++) {
+      const tc = toolCalls[i];
+      // Check client disconnect before each tool execution
+      if (clientSignal?.aborted) {
+        logger.info('ToolLoop: client disconnected during tool execution, aborting');
+        throw new Error('Client disconnected');
+      }
+
+      const gate = gateToolCall(tc, opts);
+      if (gate.action === 'pause') {
+        pendingApproval = buildPause(messages, toolCalls.slice(i), fullContent);
+        toolCallMessages.length = batchStart;
+        const approvalId = opts.onApprovalRequired?.(pendingApproval);
+        res.write(`event: tool_approval_required\ndata: ${JSON.stringify({
+          ...(approvalId ? { approvalId } : {}),
+          id: tc.id,
+          name: tc.function.name,
+          arguments: tc.function.arguments,
+        })}\n\n`);
+        logger.info(`ToolLoop: paused for approval of ${tc.function.name} (${tc.id})`);
+        return false;
+      }
+
+      const argsJson = gate.action === 'run' ? gate.argsJson : tc.function.arguments;
+
+      // Send tool_start event to client
+      res.write(`event: tool_start\ndata: ${JSON.stringify({
+        id: tc.id,
+        name: tc.function.name,
+        arguments: argsJson,
+      })}\n\n`);
+      abort.touch();
+
+      let executeName = tc.function.name;
+      let result: ToolExecResult;
+      if (gate.action === 'deny') {
+        result = { success: false, content: TOOL_CALL_DENIED_CONTENT, durationMs: 0 };
+      } else {
+        if (argsJson !== tc.function.arguments) applyEditedArguments(messages, tc.id, argsJson);
+        const routed = routeToolCallForExecution(
+          tc.function.name,
+          argsJson,
+          opts.defaultGoogleAuthProfile,
+          opts.talkId,
+        );
+        executeName = routed.executeName;
+        result = await executor.execute(routed.executeName, routed.executeArgsJson, { talkId: opts.talkId });
+      }
+
+      // Send tool_end event to client
+      res.write(`event: tool_end\ndata: ${JSON.stringify({
+        id: tc.id,
+        name: tc.function.name,
+        executeName,
+        success: result.success,
+        content: result.content.slice(0, 2000), // Truncate for SSE event
+        durationMs: result.durationMs,
+      })}\n\n`);
+      abort.touch();
+
+      // Add tool result to messages array
+      const toolResultMsg: any = {
+        role: 'tool',
+        content: result.content,
+        tool_call_id: tc.id,
+        name: tc.function.name,
+      };
+      messages.push(toolResultMsg);
+      toolCallMessages.push(toolResultMsg);
+    }
+    return true;
+  };
+
   try {
+  if (opts.resumeToolCalls && opts.resumeToolCalls.length > 0) {
+    // Resuming a paused turn: the batch's tool_calls turn (and any results
+    // that ran before the pause) belong to this run's toolCallMessages.
+    toolCallMessages.push(...messages.slice(findBatchStart(messages)) as ToolLoopStreamResult['toolCallMessages']);
+    if (!(await runToolCalls(opts.resumeToolCalls, 0))) {
+      return { fullContent, responseModel, toolCallMessages, pendingApproval };
+    }
+    res.write(': keepalive\n\n');
+    abort.touch();
+  }
+  for (const change of chain.skipRateLimited()) switchModel(change);
   const iterationLimit = Math.max(1, Math.min(opts.maxIterations ?? MAX_ITERATIONS, MAX_ITERATIONS));
   for (let iteration = 0; iteration < iterationLimit; iteration++) {
     const headers: Record<string, string> = { 'Content-Type': 'application/json' };
@@ -357,7 +618,7 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
 
       try {
         // --- Build fetch URL, headers, and body based on routing ---
-        const dr = opts.directRoute;
+        const dr = directRoute;
         let fetchUrl: string;
         let fetchHeaders: Record<string, string>;
         let fetchBody: string;
@@ -408,9 +669,11 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
 
         if (!llmResponse.ok) {
           const errBody = await llmResponse.text().catch(() => '');
+          if (dr) recordProviderRateLimits(dr.providerKey, llmResponse, errBody);
           logger.warn(`ToolLoop: LLM error (${llmResponse.status}): ${errBody.slice(0, 200)}`);
           throw new Error(`LLM error (${llmResponse.status}): ${errBody.slice(0, 500)}`);
         }
+        if (dr) recordProviderRateLimits(dr.providerKey, llmResponse);
         fetchOk = true;
 
         const rawReader = llmResponse.body?.getReader();
@@ -436,6 +699,7 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
                   );
                 }
               }
+              if (parsed.usage) recordUpstreamUsage({ ...opts, model, responseModel, directRoute }, parsed.usage, logger);
               const choice = parsed.choices?.[0];
               if (!choice) continue;
 
@@ -506,6 +770,8 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
                     }
                   }
 
+                  // The include_usage chunk arrives last, with an empty choices array.
+                  if (parsed.usage) recordUpstreamUsage({ ...opts, model, responseModel, directRoute }, parsed.usage, logger);
                   const choice = parsed.choices?.[0];
                   if (!choice) continue;
 
@@ -574,8 +840,11 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
           clearTimeout(ttftWarn60);
           ttftWarn60 = undefined;
         }
-        // --- Retry decision ---
-        if (attempt === 0 && !retried && isTransientError(effectiveErr, clientSignal)) {
+        // --- Retry decision (a rate limit goes straight to the next model) ---
+        if (
+          attempt === 0 && !retried && isTransientError(effectiveErr, clientSignal)
+          && !chain.shouldSkipRetry(effectiveErr, clientSignal)
+        ) {
           retried = true;
           opts.onStatus?.({
             code: 'RETRYING_TRANSIENT_ERROR',
@@ -603,7 +872,19 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
           continue; // retry the inner attempt loop
         }
 
-        // Not retryable or already retried — propagate
+        // Not retryable or already retried — try the next model in the chain
+        const change = chain.advance(effectiveErr, clientSignal);
+        if (change) {
+          if (iterContent) res.write('event: content_reset\ndata: {}\n\n');
+          messages.length = messagesSnapshot;
+          switchModel(change);
+          retried = false;
+          attempt = -1; // the next model gets its own attempt and retry
+          abort.touch();
+          continue;
+        }
+
+        // Out of models — propagate
         logger.error(`ToolLoop: ${fetchOk ? 'stream read' : 'LLM fetch'} error (iteration ${iteration}): ${effectiveErr}`);
         throw effectiveErr;
       }
@@ -640,54 +921,12 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
           content: iterContent || null,
           tool_calls: toolCalls,
         };
+        const batchStart = toolCallMessages.length;
         messages.push(assistantToolMsg);
         toolCallMessages.push(assistantToolMsg);
 
-        // Execute each tool call
-        for (const tc of toolCalls) {
-          // Check client disconnect before each tool execution
-          if (clientSignal?.aborted) {
-            logger.info('ToolLoop: client disconnected during tool execution, aborting');
-            throw new Error('Client disconnected');
-          }
-
-          // Send tool_start event to client
-          res.write(`event: tool_start\ndata: ${JSON.stringify({
-            id: tc.id,
-            name: tc.function.name,
-            arguments: tc.function.arguments,
-          })}\n\n`);
-          abort.touch();
-
-          const routed = routeToolCallForExecution(
-            tc.function.name,
-            tc.function.arguments,
-            opts.defaultGoogleAuthProfile,
-            opts.talkId,
-          );
-          const result = await executor.execute(routed.executeName, routed.executeArgsJson);
-
-          // Send tool_end event to client
-          res.write(`event: tool_end\ndata: ${JSON.stringify({
-            id: tc.id,
-            name: tc.function.name,
-            executeName: routed.executeName,
-            success: result.success,
-            content: result.content.slice(0, 2000), // Truncate for SSE event
-            durationMs: result.durationMs,
-          })}\n\n`);
-          abort.touch();
-
-          // Add tool result to messages array
-          const toolResultMsg: any = {
-            role: 'tool',
-            content: result.content,
-            tool_call_id: tc.id,
-            name: tc.function.name,
-          };
-          messages.push(toolResultMsg);
-          toolCallMessages.push(toolResultMsg);
-        }
+        // Execute each tool call (stops early if one needs approval)
+        if (!(await runToolCalls(toolCalls, batchStart))) break;
 
         // Keepalive between iterations — resets both gateway and TUI client
         // inactivity timers during the TTFT gap before the next LLM call.
@@ -727,6 +966,8 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
     }
     // ---------- end retry wrapper ----------
 
+    if (pendingApproval) break;
+
     // Check if we should continue the outer iteration loop
     // (tool calls and continuations set up messages above and need another iteration)
     const lastMsg = messages[messages.length - 1];
@@ -742,7 +983,15 @@ export async function runToolLoop(opts: ToolLoopStreamOptions): Promise<ToolLoop
     abort.clear();
   }
 
-  return { fullContent, responseModel, toolCallMessages };
+  if (chain.switched) {
+    opts.onStatus?.({
+      code: 'MODEL_ANSWERED',
+      message: `Answered by ${model} (fallback for ${chain.requestedModel}).`,
+      level: 'info',
+      meta: { model, requestedModel: chain.requestedModel, responseModel },
+    });
+  }
+  return { fullContent, responseModel, toolCallMessages, pendingApproval, ...(chain.switched ? { answeredModel: model } : {}) };
 }
 
 type ResponsesInputItem =
@@ -815,7 +1064,68 @@ async function runToolLoopResponses(opts: ToolLoopStreamOptions): Promise<ToolLo
     }
   }, KEEPALIVE_INTERVAL_MS);
 
+  let pendingApproval: ToolLoopPause | undefined;
+
+  /** Execute a batch of tool calls, gated like runToolLoop; false when one paused for approval. */
+  const runToolCalls = async (toolCalls: ToolCallInfo[], batchStart: number): Promise<boolean> => {
+    for (let i = 0; i < toolCalls.length; i++) {
+      const tc = toolCalls[i];
+      if (clientSignal?.aborted) throw new Error('Client disconnected');
+
+      const gate = gateToolCall(tc, opts);
+      if (gate.action === 'pause') {
+        pendingApproval = buildPause(messages, toolCalls.slice(i), fullContent);
+        toolCallMessages.length = batchStart;
+        const approvalId = opts.onApprovalRequired?.(pendingApproval);
+        res.write(`event: tool_approval_required\ndata: ${JSON.stringify({
+          ...(approvalId ? { approvalId } : {}),
+          id: tc.id,
+          name: tc.function.name,
+          arguments: tc.function.arguments,
+        })}\n\n`);
+        logger.info(`ToolLoop (responses): paused for approval of ${tc.function.name} (${tc.id})`);
+        return false;
+      }
+
+      let executeName = tc.function.name;
+      let toolContent: string;
+      if (gate.action === 'deny') {
+        toolContent = TOOL_CALL_DENIED_CONTENT;
+      } else {
+        if (gate.argsJson !== tc.function.arguments) applyEditedArguments(messages, tc.id, gate.argsJson);
+        const routed = routeToolCallForExecution(
+          tc.function.name,
+          gate.argsJson,
+          opts.defaultGoogleAuthProfile,
+          opts.talkId,
+        );
+        executeName = routed.executeName;
+        toolContent = (await executor.execute(routed.executeName, routed.executeArgsJson, { talkId: opts.talkId })).content;
+      }
+      abort.touch();
+      messages.push({
+        role: 'tool',
+        name: executeName,
+        tool_call_id: tc.id,
+        content: toolContent,
+      });
+      toolCallMessages.push({
+        role: 'tool',
+        name: executeName,
+        tool_call_id: tc.id,
+        content: toolContent,
+      });
+    }
+    return true;
+  };
+
   try {
+    if (opts.resumeToolCalls && opts.resumeToolCalls.length > 0) {
+      toolCallMessages.push(...messages.slice(findBatchStart(messages)) as ToolLoopStreamResult['toolCallMessages']);
+      if (!(await runToolCalls(opts.resumeToolCalls, 0))) {
+        return { fullContent, responseModel, toolCallMessages, pendingApproval };
+      }
+    }
     for (let iteration = 0; iteration < iterationLimit; iteration++) {
       if (clientSignal?.aborted) throw new Error('Client disconnected');
       opts.onStatus?.({
@@ -860,6 +1170,7 @@ async function runToolLoopResponses(opts: ToolLoopStreamOptions): Promise<ToolLo
       }
       const data = await response.json() as any;
       responseModel = typeof data?.model === 'string' ? data.model : responseModel;
+      recordUpstreamUsage({ ...opts, model, responseModel }, data?.usage, logger);
       logger.info(
         `ModelRoute trace=${traceId ?? '-'} flow=tool-loop-responses responseModel=${responseModel ?? '-'} iteration=${iteration + 1} attempt=1`,
       );
@@ -868,7 +1179,7 @@ async function runToolLoopResponses(opts: ToolLoopStreamOptions): Promise<ToolLo
       const functionCalls = output.filter((item: any) => item?.type === 'function_call' && typeof item?.name === 'string');
 
       if (functionCalls.length > 0) {
-        const assistantToolCalls = functionCalls.map((call: any) => ({
+        const assistantToolCalls: ToolCallInfo[] = functionCalls.map((call: any) => ({
           id: String(call.call_id ?? call.id ?? randomUUID()),
           type: 'function',
           function: {
@@ -888,26 +1199,8 @@ async function runToolLoopResponses(opts: ToolLoopStreamOptions): Promise<ToolLo
           tool_calls: assistantToolCalls as any,
         });
 
-        for (const toolCall of assistantToolCalls) {
-          const routed = routeToolCallForExecution(
-            toolCall.function.name,
-            toolCall.function.arguments,
-            opts.defaultGoogleAuthProfile,
-          );
-          const toolResult = await executor.execute(routed.executeName, routed.executeArgsJson);
-          const toolContent = toolResult.content;
-          messages.push({
-            role: 'tool',
-            name: routed.executeName,
-            tool_call_id: toolCall.id,
-            content: toolContent,
-          });
-          toolCallMessages.push({
-            role: 'tool',
-            name: routed.executeName,
-            tool_call_id: toolCall.id,
-            content: toolContent,
-          });
+        if (!(await runToolCalls(assistantToolCalls, toolCallMessages.length - 1))) {
+          return { fullContent, responseModel, toolCallMessages, pendingApproval };
         }
         continue;
       }
@@ -959,6 +1252,19 @@ export interface ToolLoopNonStreamOptions {
   talkId?: string;
   /** Direct provider route — bypasses OpenClaw when set. */
   directRoute?: DirectProviderRoute;
+  /** Models to switch to, in order, when the current one fails or is rate limited. */
+  fallbacks?: ModelFallback[];
+  /** Token accounting for every upstream call. */
+  usage?: ToolLoopUsageOptions;
+  /**
+   * Returns true when a tool call must pause for user approval (toolMode "confirm").
+   * Always-confirm tools (e.g. gmail_send_draft) pause regardless.
+   */
+  requiresApproval?: (toolName: string) => boolean;
+  /** Tool calls left over from a paused run; run before the first LLM call. */
+  resumeToolCalls?: ToolCallInfo[];
+  /** Decisions for paused tool calls, keyed by tool call id. */
+  toolCallDecisions?: Record<string, ToolCallDecision>;
 }
 
 export interface ToolLoopNonStreamResult {
@@ -972,6 +1278,12 @@ export interface ToolLoopNonStreamResult {
     resultSuccess: boolean;
     resultContent: string;
   }>;
+  /** Set when the run stopped to wait for a tool approval. */
+  pendingApproval?: ToolLoopPause;
+  /** Set when the run stopped early because it reached `usage.runCap`. */
+  runCapReached?: { tokens: number; costUsd: number };
+  /** Fallback model that answered, when the requested model was abandoned. */
+  answeredModel?: string;
 }
 
 /**
@@ -979,7 +1291,13 @@ export interface ToolLoopNonStreamResult {
  * Same logic as streaming variant but uses stream: false and no SSE events.
  */
 export async function runToolLoopNonStreaming(opts: ToolLoopNonStreamOptions): Promise<ToolLoopNonStreamResult> {
-  const { messages, model, tools, gatewayOrigin, authToken, extraHeaders, executor, logger, timeoutMs = 120_000 } = opts;
+  const { messages, tools, gatewayOrigin, authToken, extraHeaders, executor, logger, timeoutMs = 120_000 } = opts;
+  const chain = new ModelFallbackChain({ model: opts.model, directRoute: opts.directRoute }, opts.fallbacks);
+  let { model, directRoute } = chain.current;
+  const switchModel = (change: ModelFallbackSwitch) => {
+    ({ model, directRoute } = chain.current);
+    logger.warn(`ToolLoop (non-stream): ${describeModelFallback(change)}${change.error ? ` (${change.error})` : ''}`);
+  };
   let fullContent = '';
   let responseModel: string | undefined;
   let lastUsage: { prompt_tokens: number; completion_tokens: number } | undefined;
@@ -991,65 +1309,133 @@ export async function runToolLoopNonStreaming(opts: ToolLoopNonStreamOptions): P
     resultSuccess: boolean;
     resultContent: string;
   }> = [];
+  let pendingApproval: ToolLoopPause | undefined;
+  const runUsage = { tokens: 0, costUsd: 0 };
+  let runCapReached: ToolLoopNonStreamResult['runCapReached'];
+
+  /** Execute a batch of tool calls; returns false when one paused for approval. */
+  const runToolCalls = async (toolCalls: ToolCallInfo[]): Promise<boolean> => {
+    for (let i = 0; i < toolCalls.length; i++) {
+      const tc = toolCalls[i];
+      const gate = gateToolCall(tc, opts);
+      if (gate.action === 'pause') {
+        pendingApproval = buildPause(messages, toolCalls.slice(i), fullContent);
+        logger.info(`ToolLoop (non-stream): paused for approval of ${tc.function.name} (${tc.id})`);
+        return false;
+      }
+      let content = TOOL_CALL_DENIED_CONTENT;
+      if (gate.action === 'deny') {
+        executedTools.push({
+          requestedName: tc.function.name,
+          executedName: tc.function.name,
+          rawArguments: tc.function.arguments,
+          resultSuccess: false,
+          resultContent: content,
+        });
+      } else {
+        if (gate.argsJson !== tc.function.arguments) applyEditedArguments(messages, tc.id, gate.argsJson);
+        const routed = routeToolCallForExecution(
+          tc.function.name,
+          gate.argsJson,
+          opts.defaultGoogleAuthProfile,
+          opts.talkId,
+        );
+        const result = await executor.execute(routed.executeName, routed.executeArgsJson, { talkId: opts.talkId });
+        content = result.content;
+        executedTools.push({
+          requestedName: tc.function.name,
+          executedName: routed.executeName,
+          rawArguments: gate.argsJson,
+          resultSuccess: result.success,
+          resultContent: result.content,
+        });
+      }
+      messages.push({
+        role: 'tool',
+        content,
+        tool_call_id: tc.id,
+        name: tc.function.name,
+      } as any);
+    }
+    return true;
+  };
 
+  if (opts.resumeToolCalls && opts.resumeToolCalls.length > 0 && !(await runToolCalls(opts.resumeToolCalls))) {
+    return { fullContent, responseModel, usage: lastUsage, executedTools, pendingApproval };
+  }
+
+  for (const change of chain.skipRateLimited()) switchModel(change);
   for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
-    const dr = opts.directRoute;
-    let fetchUrl: string;
-    let fetchHeaders: Record<string, string>;
-    let fetchBody: string;
-
-    if (dr?.apiFormat === 'anthropic-messages') {
-      fetchUrl = dr.url;
-      fetchHeaders = { ...dr.headers };
-      const anthropicReq = translateRequestToAnthropic(
-        { messages: messages as any, tools, tool_choice: opts.toolChoice, stream: false },
-        dr.providerModelId,
-        dr.maxTokens,
-      );
-      fetchBody = JSON.stringify(anthropicReq);
-    } else if (dr?.apiFormat === 'openai-completions') {
-      fetchUrl = dr.url;
-      fetchHeaders = { ...dr.headers };
-      const hasTools = tools.length > 0;
-      fetchBody = JSON.stringify({
-        model: dr.providerModelId,
-        messages,
-        tools: hasTools ? tools : undefined,
-        tool_choice: hasTools ? opts.toolChoice : undefined,
-        stream: false,
-      });
-    } else {
-      fetchUrl = `${gatewayOrigin}/v1/chat/completions`;
-      fetchHeaders = {
-        'Content-Type': 'application/json',
-        ...(extraHeaders ?? {}),
-      };
-      if (authToken) fetchHeaders['Authorization'] = `Bearer ${authToken}`;
-      fetchBody = JSON.stringify({
-        model,
-        messages,
-        tools: tools.length > 0 ? tools : undefined,
-        tool_choice: opts.toolChoice,
-        stream: false,
-      });
-    }
+    let response: Response;
+    // Call the current model; on a provider error or rate limit, move down the fallback chain.
+    while (true) {
+      const dr = directRoute;
+      let fetchUrl: string;
+      let fetchHeaders: Record<string, string>;
+      let fetchBody: string;
+
+      if (dr?.apiFormat === 'anthropic-messages') {
+        fetchUrl = dr.url;
+        fetchHeaders = { ...dr.headers };
+        const anthropicReq = translateRequestToAnthropic(
+          { messages: messages as any, tools, tool_choice: opts.toolChoice, stream: false },
+          dr.providerModelId,
+          dr.maxTokens,
+        );
+        fetchBody = JSON.stringify(anthropicReq);
+      } else if (dr?.apiFormat === 'openai-completions') {
+        fetchUrl = dr.url;
+        fetchHeaders = { ...dr.headers };
+        const hasTools = tools.length > 0;
+        fetchBody = JSON.stringify({
+          model: dr.providerModelId,
+          messages,
+          tools: hasTools ? tools : undefined,
+          tool_choice: hasTools ? opts.toolChoice : undefined,
+          stream: false,
+        });
+      } else {
+        fetchUrl = `${gatewayOrigin}/v1/chat/completions`;
+        fetchHeaders = {
+          'Content-Type': 'application/json',
+          ...(extraHeaders ?? {}),
+        };
+        if (authToken) fetchHeaders['Authorization'] = `Bearer ${authToken}`;
+        fetchBody = JSON.stringify({
+          model,
+          messages,
+          tools: tools.length > 0 ? tools : undefined,
+          tool_choice: opts.toolChoice,
+          stream: false,
+        });
+      }
 
-    const response = await fetch(fetchUrl, {
-      method: 'POST',
-      headers: fetchHeaders,
-      body: fetchBody,
-      signal: AbortSignal.timeout(timeoutMs),
-      // Node.js undici dispatcher — disables default 5-min timeout on headersTimeout/bodyTimeout
-      dispatcher: longTimeoutDispatcher,
-    } as RequestInit);
-
-    if (!response.ok) {
-      const errBody = await response.text().catch(() => '');
-      throw new Error(`LLM call failed (${response.status}): ${errBody.slice(0, 200)}`);
+      try {
+        response = await fetch(fetchUrl, {
+          method: 'POST',
+          headers: fetchHeaders,
+          body: fetchBody,
+          signal: AbortSignal.timeout(timeoutMs),
+          // Node.js undici dispatcher — disables default 5-min timeout on headersTimeout/bodyTimeout
+          dispatcher: longTimeoutDispatcher,
+        } as RequestInit);
+
+        if (!response.ok) {
+          const errBody = await response.text().catch(() => '');
+          if (dr) recordProviderRateLimits(dr.providerKey, response, errBody);
+          throw new Error(`LLM call failed (${response.status}): ${errBody.slice(0, 200)}`);
+        }
+        if (dr) recordProviderRateLimits(dr.providerKey, response);
+        break;
+      } catch (err) {
+        const change = chain.advance(err);
+        if (!change) throw err;
+        switchModel(change);
+      }
     }
 
     // For Anthropic non-streaming, translate response format
-    const json = dr?.apiFormat === 'anthropic-messages'
+    const json = directRoute?.apiFormat === 'anthropic-messages'
       ? translateAnthropicResponse(await response.json() as any) as any
       : await response.json() as {
         choices?: Array<{
@@ -1064,6 +1450,12 @@ export async function runToolLoopNonStreaming(opts: ToolLoopNonStreamOptions): P
       };
 
     if (!responseModel && json.model) responseModel = json.model;
+    const usageRecord = recordUpstreamUsage({ ...opts, model, responseModel: json.model, directRoute }, json.usage, logger);
+    if (usageRecord) {
+      runUsage.tokens += totalTokens(usageRecord);
+      runUsage.costUsd += usageRecord.costUsd ?? 0;
+    }
+    const capReached = isRunCapReached(opts.usage?.runCap, runUsage);
     if (json.usage) {
       lastUsage = {
         prompt_tokens: json.usage.prompt_tokens ?? 0,
@@ -1076,6 +1468,14 @@ export async function runToolLoopNonStreaming(opts: ToolLoopNonStreamOptions): P
     const textContent = message?.content ?? '';
     const toolCalls = message?.tool_calls;
 
+    if (capReached && (choice?.finish_reason === 'tool_calls' || choice?.finish_reason === 'length')) {
+      // Another call would exceed the run cap; keep what the model said so far.
+      fullContent += textContent;
+      runCapReached = { ...runUsage };
+      logger.info(`ToolLoop (non-stream): run cap reached (${runUsage.tokens} tokens, $${runUsage.costUsd.toFixed(4)}), stopping`);
+      break;
+    }
+
     if (toolCalls && toolCalls.length > 0 && choice?.finish_reason === 'tool_calls') {
       // Add assistant message with tool_calls
       messages.push({
@@ -1084,29 +1484,8 @@ export async function runToolLoopNonStreaming(opts: ToolLoopNonStreamOptions): P
         tool_calls: toolCalls,
       } as any);
 
-      // Execute each tool
-      for (const tc of toolCalls) {
-        const routed = routeToolCallForExecution(
-          tc.function.name,
-          tc.function.arguments,
-          opts.defaultGoogleAuthProfile,
-          opts.talkId,
-        );
-        const result = await executor.execute(routed.executeName, routed.executeArgsJson);
-        executedTools.push({
-          requestedName: tc.function.name,
-          executedName: routed.executeName,
-          rawArguments: tc.function.arguments,
-          resultSuccess: result.success,
-          resultContent: result.content,
-        });
-        messages.push({
-          role: 'tool',
-          content: result.content,
-          tool_call_id: tc.id,
-          name: tc.function.name,
-        } as any);
-      }
+      // Execute each tool (stops early if one needs approval)
+      if (!(await runToolCalls(toolCalls))) break;
 
       logger.info(`ToolLoop (non-stream): iteration ${iteration + 1}, executed ${toolCalls.length} tool(s)`);
       continue;
@@ -1128,5 +1507,14 @@ export async function runToolLoopNonStreaming(opts: ToolLoopNonStreamOptions): P
     break;
   }
 
-  return { fullContent, responseModel, usage: lastUsage, executedTools };
+  if (chain.switched) logger.info(`ToolLoop (non-stream): answered by ${model} (fallback for ${chain.requestedModel})`);
+  return {
+    fullContent,
+    responseModel,
+    usage: lastUsage,
+    executedTools,
+    pendingApproval,
+    runCapReached,
+    ...(chain.switched ? { answeredModel: model } : {}),
+  };
 }
@@ -3,17 +3,21 @@
  *
  * Manages tool definitions for LLM function calling. Built-in tools
  * (shell_exec, manage_tools) are hardcoded. Dynamic tools can be
- * registered at runtime and are persisted to {dataDir}/tools.json.
+ * registered at runtime and are persisted to {dataDir}/tools.json,
+ * optionally with an execution spec (see dynamic-tools.ts).
  */
 
 import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 import type { Logger } from './types.js';
+import { normalizeDynamicToolExecution, type DynamicToolExecution } from './dynamic-tools.js';
 
 export interface ToolParameter {
   type: string;
   description?: string;
   enum?: string[];
+  /** Element schema for `array` parameters (one nested level for 2D arrays). */
+  items?: { type: string; items?: { type: string } };
   default?: unknown;
 }
 
@@ -37,6 +41,9 @@ export interface ToolInfo {
   builtin: boolean;
 }
 
+/** On-disk shape of a dynamic tool in tools.json. */
+type PersistedDynamicTool = ToolDefinition & { execution?: DynamicToolExecution };
+
 // ---------------------------------------------------------------------------
 // Built-in tool definitions
 // ---------------------------------------------------------------------------
@@ -49,7 +56,9 @@ const SHELL_EXEC_TOOL: ToolDefinition = {
       'Execute a shell command on the server. Use this for file operations, ' +
       'web requests (curl/wget), package installation, code execution, and ' +
       'any other task that can be accomplished via a shell command. ' +
-      'Commands run in a bash shell with a default timeout of 30 seconds.',
+      'Commands run in a bash shell with a default timeout of 30 seconds. ' +
+      'Talks with Workspace Sandbox or Restricted network access run commands in a sandbox ' +
+      'rooted at /workspace with no network access.',
     parameters: {
       type: 'object',
       properties: {
@@ -63,7 +72,7 @@ const SHELL_EXEC_TOOL: ToolDefinition = {
         },
         working_dir: {
           type: 'string',
-          description: 'Working directory for the command. Defaults to home directory.',
+          description: 'Working directory for the command. Defaults to home directory (/workspace when sandboxed).',
         },
       },
       required: ['command'],
@@ -99,6 +108,14 @@ const MANAGE_TOOLS_TOOL: ToolDefinition = {
           type: 'object',
           description: 'Tool parameters schema (required for register, optional for update).',
         },
+        execution: {
+          type: 'object',
+          description:
+            'How the tool runs (register/update). Either {kind:"shell", command, working_dir?, timeout?} ' +
+            'or {kind:"http", method, url, headers?, body?, timeout?}. Reference arguments with {{arg_name}} ' +
+            'placeholders; shell values are quoted automatically, so write them as bare words (not inside ' +
+            'quotes, backticks or heredocs), and URL values are encoded automatically.',
+        },
       },
       required: ['action'],
     },
@@ -419,213 +436,1106 @@ const GOOGLE_DRIVE_FILES_TOOL: ToolDefinition = {
   },
 };
 
-const PDF_EXTRACT_TEXT_TOOL: ToolDefinition = {
+const GOOGLE_SHEETS_READ_RANGE_TOOL: ToolDefinition = {
   type: 'function',
   function: {
-    name: 'pdf_extract_text',
+    name: 'google_sheets_read_range',
     description:
-      'Extract text from a PDF file path available on the gateway host (typically uploaded files under /workspace/uploads).',
+      'Read cell values from a Google Sheets range. Accepts a raw spreadsheet ID or full Sheets URL. ' +
+      'Returns one JSON array per row.',
     parameters: {
       type: 'object',
       properties: {
-        path: {
+        spreadsheet_id: {
           type: 'string',
-          description: 'Path to PDF file. Prefer /workspace/uploads/<name>.pdf from upload notes.',
+          description: 'Spreadsheet ID or full docs.google.com/spreadsheets URL.',
         },
-        max_chars: {
+        range: {
+          type: 'string',
+          description: 'A1 range, e.g. "Sheet1!A1:D20" or just "Sheet1" for the whole sheet.',
+        },
+        value_render_option: {
+          type: 'string',
+          description: 'How values are rendered (default FORMATTED_VALUE).',
+          enum: ['FORMATTED_VALUE', 'UNFORMATTED_VALUE', 'FORMULA'],
+        },
+        max_rows: {
           type: 'number',
-          description: 'Optional max characters to return (default 20000, max 200000).',
+          description: 'Optional max rows to return (default 500).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
         },
       },
-      required: ['path'],
+      required: ['spreadsheet_id', 'range'],
     },
   },
 };
 
-const STATE_APPEND_EVENT_TOOL: ToolDefinition = {
+const GOOGLE_SHEETS_WRITE_RANGE_TOOL: ToolDefinition = {
   type: 'function',
   function: {
-    name: 'state_append_event',
+    name: 'google_sheets_write_range',
     description:
-      'Append an immutable state event to a talk stream (for example study_tracker). ' +
-      'Use this to persist tracker updates such as logged minutes.',
+      'Overwrite cells in a Google Sheets range with a 2D array of values (rows of cells), ' +
+      'starting at the range\'s top-left cell.',
     parameters: {
       type: 'object',
       properties: {
-        talk_id: {
+        spreadsheet_id: {
           type: 'string',
-          description: 'Talk ID to update.',
+          description: 'Spreadsheet ID or full docs.google.com/spreadsheets URL.',
         },
-        stream: {
+        range: {
           type: 'string',
-          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+          description: 'A1 range to write, e.g. "Sheet1!A1".',
         },
-        event_type: {
+        values: {
+          type: 'array',
+          description: 'Rows to write; each row is an array of cell values.',
+          items: { type: 'array', items: { type: 'string' } },
+        },
+        value_input_option: {
           type: 'string',
-          description: 'Event type (e.g., minutes_logged, manual_adjustment, set_total).',
+          description: 'USER_ENTERED parses numbers, dates and formulas like the Sheets UI (default); RAW stores values as-is.',
+          enum: ['USER_ENTERED', 'RAW'],
         },
-        payload: {
-          type: 'object',
-          description: 'Event payload object. For minutes_logged include {kid, minutes}.',
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
         },
-        idempotency_key: {
+      },
+      required: ['spreadsheet_id', 'range', 'values'],
+    },
+  },
+};
+
+const GOOGLE_SHEETS_APPEND_ROWS_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'google_sheets_append_rows',
+    description:
+      'Append rows after the last row of a table in a Google Sheet. ' +
+      'Use this to log results without overwriting existing data.',
+    parameters: {
+      type: 'object',
+      properties: {
+        spreadsheet_id: {
           type: 'string',
-          description: 'Optional idempotency key to prevent duplicate writes.',
+          description: 'Spreadsheet ID or full docs.google.com/spreadsheets URL.',
         },
-        occurred_at: {
-          type: 'number',
-          description: 'Optional event timestamp in ms since epoch.',
+        range: {
+          type: 'string',
+          description: 'Sheet name or A1 range of the table to append to, e.g. "Log" or "Log!A:E".',
+        },
+        rows: {
+          type: 'array',
+          description: 'Rows to append; each row is an array of cell values.',
+          items: { type: 'array', items: { type: 'string' } },
+        },
+        value_input_option: {
+          type: 'string',
+          description: 'USER_ENTERED parses numbers, dates and formulas like the Sheets UI (default); RAW stores values as-is.',
+          enum: ['USER_ENTERED', 'RAW'],
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
         },
       },
-      required: ['talk_id', 'event_type', 'payload'],
+      required: ['spreadsheet_id', 'range', 'rows'],
     },
   },
 };
 
-const STATE_READ_SUMMARY_TOOL: ToolDefinition = {
+const GOOGLE_SHEETS_CREATE_TOOL: ToolDefinition = {
   type: 'function',
   function: {
-    name: 'state_read_summary',
-    description: 'Read current derived state summary for a talk stream.',
+    name: 'google_sheets_create',
+    description:
+      'Create a Google Sheets spreadsheet with a title, optional sheet (tab) names and an optional header row, ' +
+      'and optionally move it into a Drive folder.',
     parameters: {
       type: 'object',
       properties: {
-        talk_id: {
+        title: {
           type: 'string',
-          description: 'Talk ID to read.',
+          description: 'Spreadsheet title.',
         },
-        stream: {
+        sheet_titles: {
+          type: 'array',
+          description: 'Optional sheet (tab) names. Defaults to a single "Sheet1".',
+          items: { type: 'string' },
+        },
+        headers: {
+          type: 'array',
+          description: 'Optional header row written to A1 of the first sheet.',
+          items: { type: 'string' },
+        },
+        folder_id: {
           type: 'string',
-          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+          description: 'Optional Google Drive folder ID to move the spreadsheet into.',
         },
-        as_of: {
-          type: 'number',
-          description: 'Optional snapshot timestamp in ms since epoch.',
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
         },
       },
-      required: ['talk_id'],
+      required: ['title'],
     },
   },
 };
 
-const STATE_CONFIGURE_POLICY_TOOL: ToolDefinition = {
+const GOOGLE_CALENDAR_LIST_EVENTS_TOOL: ToolDefinition = {
   type: 'function',
   function: {
-    name: 'state_configure_policy',
+    name: 'google_calendar_list_events',
     description:
-      'Configure weekly tracking policy for a talk stream (timezone/reset/carry-over/target).',
+      'List Google Calendar events in a time window (recurring events are expanded), ordered by start time.',
     parameters: {
       type: 'object',
       properties: {
-        talk_id: {
+        calendar_id: {
           type: 'string',
-          description: 'Talk ID to configure.',
+          description: 'Calendar ID (default "primary").',
         },
-        stream: {
+        time_min: {
           type: 'string',
-          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+          description: 'Window start as ISO 8601 date-time (default now).',
         },
-        timezone: {
+        time_max: {
           type: 'string',
-          description: 'IANA timezone, e.g., America/Los_Angeles.',
+          description: 'Window end as ISO 8601 date-time (default 24 hours after time_min).',
         },
-        week_start_day: {
-          type: 'number',
-          description: '0=Sunday..6=Saturday.',
+        query: {
+          type: 'string',
+          description: 'Optional free-text filter on event fields.',
         },
-        rollover_hour: {
+        max_results: {
           type: 'number',
-          description: '0..23 hour in local timezone.',
+          description: 'Optional max events to return (default 50, max 250).',
         },
-        rollover_minute: {
-          type: 'number',
-          description: '0..59 minute in local timezone.',
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
         },
-        carry_over_mode: {
+      },
+    },
+  },
+};
+
+const GOOGLE_CALENDAR_CREATE_EVENT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'google_calendar_create_event',
+    description: 'Create a Google Calendar event.',
+    parameters: {
+      type: 'object',
+      properties: {
+        calendar_id: {
           type: 'string',
-          enum: ['none', 'excess_only', 'all'],
-          description: 'Carry-over policy at weekly rollover.',
+          description: 'Calendar ID (default "primary").',
         },
-        target_minutes: {
-          type: 'number',
-          description: 'Completion target minutes per week.',
+        summary: {
+          type: 'string',
+          description: 'Event title.',
+        },
+        start: {
+          type: 'string',
+          description: 'Start as ISO 8601 date-time (e.g. "2026-03-02T09:00:00-05:00") or YYYY-MM-DD for an all-day event.',
+        },
+        end: {
+          type: 'string',
+          description: 'End as ISO 8601 date-time or YYYY-MM-DD (exclusive for all-day events).',
+        },
+        time_zone: {
+          type: 'string',
+          description: 'Optional IANA time zone (e.g. "America/New_York") for date-times without an offset.',
+        },
+        description: {
+          type: 'string',
+          description: 'Optional event description.',
+        },
+        location: {
+          type: 'string',
+          description: 'Optional event location.',
+        },
+        attendees: {
+          type: 'array',
+          description: 'Optional attendee email addresses.',
+          items: { type: 'string' },
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
         },
       },
-      required: ['talk_id'],
+      required: ['summary', 'start', 'end'],
     },
   },
 };
 
-const STATE_AUDIT_EVENTS_TOOL: ToolDefinition = {
+const GOOGLE_CALENDAR_UPDATE_EVENT_TOOL: ToolDefinition = {
   type: 'function',
   function: {
-    name: 'state_audit_events',
-    description: 'List recent state events from the talk stream for debugging/audit.',
+    name: 'google_calendar_update_event',
+    description:
+      'Update a Google Calendar event. Only the fields provided are changed; attendees replaces the full list.',
     parameters: {
       type: 'object',
       properties: {
-        talk_id: {
+        calendar_id: {
           type: 'string',
-          description: 'Talk ID to inspect.',
+          description: 'Calendar ID (default "primary").',
         },
-        stream: {
+        event_id: {
           type: 'string',
-          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+          description: 'Event ID (from google_calendar_list_events).',
         },
-        limit: {
-          type: 'number',
-          description: 'Optional max events to return (default 50).',
+        summary: {
+          type: 'string',
+          description: 'Event title.',
         },
-        since_sequence: {
-          type: 'number',
-          description: 'Optional lower-bound sequence (exclusive).',
+        start: {
+          type: 'string',
+          description: 'Start as ISO 8601 date-time (e.g. "2026-03-02T09:00:00-05:00") or YYYY-MM-DD for an all-day event.',
+        },
+        end: {
+          type: 'string',
+          description: 'End as ISO 8601 date-time or YYYY-MM-DD (exclusive for all-day events).',
+        },
+        time_zone: {
+          type: 'string',
+          description: 'Optional IANA time zone (e.g. "America/New_York") for date-times without an offset.',
+        },
+        description: {
+          type: 'string',
+          description: 'Optional event description.',
+        },
+        location: {
+          type: 'string',
+          description: 'Optional event location.',
+        },
+        attendees: {
+          type: 'array',
+          description: 'Optional attendee email addresses.',
+          items: { type: 'string' },
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
         },
       },
-      required: ['talk_id'],
+      required: ['event_id'],
     },
   },
 };
 
-const BUILTIN_TOOLS = new Map<string, ToolDefinition>([
-  ['shell_exec', SHELL_EXEC_TOOL],
-  ['manage_tools', MANAGE_TOOLS_TOOL],
-  ['google_docs_create', GOOGLE_DOCS_CREATE_TOOL],
-  ['google_docs_append', GOOGLE_DOCS_APPEND_TOOL],
-  ['google_docs_read', GOOGLE_DOCS_READ_TOOL],
-  ['google_docs_auth_status', GOOGLE_DOCS_AUTH_STATUS_TOOL],
-  ['google_docs_list_tabs', GOOGLE_DOCS_LIST_TABS_TOOL],
-  ['google_docs_add_tab', GOOGLE_DOCS_ADD_TAB_TOOL],
-  ['google_docs_update_tab', GOOGLE_DOCS_UPDATE_TAB_TOOL],
-  ['google_docs_delete_tab', GOOGLE_DOCS_DELETE_TAB_TOOL],
-  ['google_drive_files', GOOGLE_DRIVE_FILES_TOOL],
-  ['web_fetch_extract', WEB_FETCH_EXTRACT_TOOL],
-  ['pdf_extract_text', PDF_EXTRACT_TEXT_TOOL],
-  ['state_append_event', STATE_APPEND_EVENT_TOOL],
-  ['state_read_summary', STATE_READ_SUMMARY_TOOL],
-  ['state_configure_policy', STATE_CONFIGURE_POLICY_TOOL],
-  ['state_audit_events', STATE_AUDIT_EVENTS_TOOL],
-]);
-
-// ---------------------------------------------------------------------------
-// Registry
-// ---------------------------------------------------------------------------
+const GOOGLE_CALENDAR_DELETE_EVENT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'google_calendar_delete_event',
+    description: 'Delete a Google Calendar event.',
+    parameters: {
+      type: 'object',
+      properties: {
+        calendar_id: {
+          type: 'string',
+          description: 'Calendar ID (default "primary").',
+        },
+        event_id: {
+          type: 'string',
+          description: 'Event ID to delete.',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
+        },
+      },
+      required: ['event_id'],
+    },
+  },
+};
 
-export class ToolRegistry {
-  private dynamicTools = new Map<string, ToolDefinition>();
-  private persistPath: string | undefined;
-  private logger: Logger;
+const GOOGLE_CALENDAR_FREE_BUSY_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'google_calendar_free_busy',
+    description:
+      'Find busy intervals and free slots across one or more Google Calendars in a time window.',
+    parameters: {
+      type: 'object',
+      properties: {
+        calendar_ids: {
+          type: 'array',
+          description: 'Calendar IDs to check (default ["primary"]).',
+          items: { type: 'string' },
+        },
+        time_min: {
+          type: 'string',
+          description: 'Window start as ISO 8601 date-time (default now).',
+        },
+        time_max: {
+          type: 'string',
+          description: 'Window end as ISO 8601 date-time (default 24 hours after time_min).',
+        },
+        min_slot_minutes: {
+          type: 'number',
+          description: 'Minimum free slot length in minutes (default 30).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
+        },
+      },
+    },
+  },
+};
 
-  constructor(dataDir: string | undefined, logger: Logger) {
-    this.logger = logger;
-    if (dataDir) {
-      mkdirSync(dataDir, { recursive: true });
-      this.persistPath = join(dataDir, 'tools.json');
-      this.load();
-    }
-  }
+const GMAIL_SEARCH_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'gmail_search',
+    description:
+      'Search Gmail messages with Gmail query syntax (e.g. "from:alice is:unread newer_than:7d"). ' +
+      'Returns sender, subject, date, snippet and thread ID for each match.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Gmail search query.',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Optional max messages to return (default 10, max 50).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
+        },
+      },
+      required: ['query'],
+    },
+  },
+};
 
-  /** Get all tool schemas in OpenAI format for LLM calls. */
-  getToolSchemas(): ToolDefinition[] {
+const GMAIL_READ_THREAD_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'gmail_read_thread',
+    description: 'Read every message in a Gmail thread as plain text.',
+    parameters: {
+      type: 'object',
+      properties: {
+        thread_id: {
+          type: 'string',
+          description: 'Thread ID (from gmail_search).',
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Optional max body characters across the thread (default 20000).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
+        },
+      },
+      required: ['thread_id'],
+    },
+  },
+};
+
+const GMAIL_CREATE_DRAFT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'gmail_create_draft',
+    description:
+      'Create a Gmail draft (plain text). Nothing is sent; use gmail_send_draft after the user has reviewed it. ' +
+      'Pass thread_id to draft a reply in an existing thread.',
+    parameters: {
+      type: 'object',
+      properties: {
+        to: {
+          type: 'array',
+          description: 'Recipient email addresses.',
+          items: { type: 'string' },
+        },
+        cc: {
+          type: 'array',
+          description: 'Optional Cc addresses.',
+          items: { type: 'string' },
+        },
+        bcc: {
+          type: 'array',
+          description: 'Optional Bcc addresses.',
+          items: { type: 'string' },
+        },
+        subject: {
+          type: 'string',
+          description: 'Subject line (defaults to "Re: <thread subject>" for replies).',
+        },
+        body: {
+          type: 'string',
+          description: 'Plain-text message body.',
+        },
+        thread_id: {
+          type: 'string',
+          description: 'Optional thread ID to reply in.',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
+        },
+      },
+      required: ['to', 'body'],
+    },
+  },
+};
+
+const GMAIL_SEND_DRAFT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'gmail_send_draft',
+    description:
+      'Send an existing Gmail draft. Always waits for the user to approve the send, regardless of tool mode.',
+    parameters: {
+      type: 'object',
+      properties: {
+        draft_id: {
+          type: 'string',
+          description: 'Draft ID (from gmail_create_draft).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Google auth profile name (defaults to active profile or talk default).',
+        },
+      },
+      required: ['draft_id'],
+    },
+  },
+};
+
+const GITHUB_SEARCH_ISSUES_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'github_search_issues',
+    description:
+      'Search GitHub issues and pull requests with GitHub search syntax (e.g. "label:bug author:alice"). ' +
+      'Returns number, title, state, author, labels and URL for each match.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'GitHub search terms/qualifiers. May be empty when repo is given.',
+        },
+        repo: {
+          type: 'string',
+          description: 'Optional repository to search in ("owner/name" or GitHub URL).',
+        },
+        type: {
+          type: 'string',
+          enum: ['issue', 'pr'],
+          description: 'Optional: only issues or only pull requests.',
+        },
+        state: {
+          type: 'string',
+          enum: ['open', 'closed'],
+          description: 'Optional state filter.',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Optional max results to return (default 10, max 50).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional GitHub auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['query'],
+    },
+  },
+};
+
+const GITHUB_GET_ISSUE_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'github_get_issue',
+    description:
+      'Read a GitHub issue or pull request: body, labels, comments and, for pull requests, ' +
+      'branch, draft/merged state and diff size.',
+    parameters: {
+      type: 'object',
+      properties: {
+        repo: {
+          type: 'string',
+          description: 'Repository ("owner/name" or GitHub URL).',
+        },
+        number: {
+          type: 'number',
+          description: 'Issue or pull request number.',
+        },
+        include_comments: {
+          type: 'boolean',
+          description: 'Include conversation comments (default true).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional GitHub auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['repo', 'number'],
+    },
+  },
+};
+
+const GITHUB_COMMENT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'github_comment',
+    description: 'Post a comment on a GitHub issue or pull request conversation.',
+    parameters: {
+      type: 'object',
+      properties: {
+        repo: {
+          type: 'string',
+          description: 'Repository ("owner/name" or GitHub URL).',
+        },
+        number: {
+          type: 'number',
+          description: 'Issue or pull request number.',
+        },
+        body: {
+          type: 'string',
+          description: 'Comment text (Markdown).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional GitHub auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['repo', 'number', 'body'],
+    },
+  },
+};
+
+const GITHUB_READ_FILE_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'github_read_file',
+    description:
+      'Read a file from a GitHub repository at a branch, tag or commit. ' +
+      'For a directory path, lists its entries instead.',
+    parameters: {
+      type: 'object',
+      properties: {
+        repo: {
+          type: 'string',
+          description: 'Repository ("owner/name" or GitHub URL).',
+        },
+        path: {
+          type: 'string',
+          description: 'File or directory path within the repository.',
+        },
+        ref: {
+          type: 'string',
+          description: 'Optional branch, tag or commit SHA (defaults to the default branch).',
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Optional max characters of file content to return (default 50000).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional GitHub auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['repo', 'path'],
+    },
+  },
+};
+
+const GITHUB_LIST_WORKFLOW_RUNS_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'github_list_workflow_runs',
+    description: 'List recent GitHub Actions workflow runs for a repository, newest first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        repo: {
+          type: 'string',
+          description: 'Repository ("owner/name" or GitHub URL).',
+        },
+        workflow: {
+          type: 'string',
+          description: 'Optional workflow file name (e.g. "ci.yml") or workflow ID.',
+        },
+        branch: {
+          type: 'string',
+          description: 'Optional branch filter.',
+        },
+        status: {
+          type: 'string',
+          description: 'Optional status/conclusion filter (e.g. "in_progress", "failure", "success").',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Optional max runs to return (default 10, max 50).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional GitHub auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['repo'],
+    },
+  },
+};
+
+const NOTION_SEARCH_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'notion_search',
+    description:
+      'Search Notion pages and databases shared with the integration by title. ' +
+      'Returns title, ID, URL and last edit time, most recently edited first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Title search text (empty lists recently edited pages).',
+        },
+        type: {
+          type: 'string',
+          enum: ['page', 'database'],
+          description: 'Optional: only pages or only databases.',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Optional max results to return (default 10, max 50).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Notion auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['query'],
+    },
+  },
+};
+
+const NOTION_READ_PAGE_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'notion_read_page',
+    description: 'Read a Notion page as Markdown.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page_id: {
+          type: 'string',
+          description: 'Page ID or notion.so URL.',
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Optional max characters to return (default 30000).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Notion auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['page_id'],
+    },
+  },
+};
+
+const NOTION_CREATE_PAGE_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'notion_create_page',
+    description: 'Create a Notion page under a parent page (or as a row in a database), with optional Markdown content.',
+    parameters: {
+      type: 'object',
+      properties: {
+        parent_id: {
+          type: 'string',
+          description: 'Parent page or database ID or notion.so URL.',
+        },
+        parent_type: {
+          type: 'string',
+          enum: ['page', 'database'],
+          description: 'Whether parent_id is a page or a database (default page).',
+        },
+        title: {
+          type: 'string',
+          description: 'Page title.',
+        },
+        content: {
+          type: 'string',
+          description: 'Optional Markdown body (headings, lists, to-dos, quotes, code, dividers).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Notion auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['parent_id', 'title'],
+    },
+  },
+};
+
+const NOTION_APPEND_BLOCKS_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'notion_append_blocks',
+    description: 'Append Markdown content to the end of a Notion page.',
+    parameters: {
+      type: 'object',
+      properties: {
+        page_id: {
+          type: 'string',
+          description: 'Page ID or notion.so URL.',
+        },
+        content: {
+          type: 'string',
+          description: 'Markdown to append (headings, lists, to-dos, quotes, code, dividers).',
+        },
+        profile: {
+          type: 'string',
+          description: 'Optional Notion auth profile name (defaults to active profile).',
+        },
+      },
+      required: ['page_id', 'content'],
+    },
+  },
+};
+
+const HTTP_API_CLIENT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'http_api_client',
+    description:
+      'Call an external HTTP API on the allowlisted hosts with a structured request. ' +
+      'Reference stored credentials as {{secret:NAME}} in the URL, headers or body; ' +
+      'they are filled in server-side. JSON responses are pretty-printed.',
+    parameters: {
+      type: 'object',
+      properties: {
+        method: {
+          type: 'string',
+          enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+          description: 'HTTP method.',
+        },
+        url: {
+          type: 'string',
+          description: 'Full http(s) URL, including any query string.',
+        },
+        headers: {
+          type: 'object',
+          description: 'Optional request headers, e.g. {"Authorization": "Bearer {{secret:stripe}}"}.',
+        },
+        body: {
+          type: 'object',
+          description: 'Optional JSON request body (sent as application/json).',
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Optional max characters of response body to return (default 20000, max 100000).',
+        },
+        timeout: {
+          type: 'number',
+          description: 'Optional timeout in seconds (default 30, max 120).',
+        },
+      },
+      required: ['method', 'url'],
+    },
+  },
+};
+
+const PDF_EXTRACT_TEXT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'pdf_extract_text',
+    description:
+      'Extract text from a PDF file path available on the gateway host (typically uploaded files under /workspace/uploads).',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Path to PDF file. Prefer /workspace/uploads/<name>.pdf from upload notes.',
+        },
+        max_chars: {
+          type: 'number',
+          description: 'Optional max characters to return (default 20000, max 200000).',
+        },
+      },
+      required: ['path'],
+    },
+  },
+};
+
+const STATE_APPEND_EVENT_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'state_append_event',
+    description:
+      'Append an immutable state event to a talk stream (for example study_tracker). ' +
+      'Use this to persist tracker updates such as logged minutes, counts, readings, checklist ticks or set changes. ' +
+      'The stream policy reducer decides which event types and payload fields are accepted.',
+    parameters: {
+      type: 'object',
+      properties: {
+        talk_id: {
+          type: 'string',
+          description: 'Talk ID to update.',
+        },
+        stream: {
+          type: 'string',
+          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+        },
+        event_type: {
+          type: 'string',
+          description:
+            'Event type. sum_by_key: any type adds payload[value_field] to payload[key_field]; set_total and reset are special. ' +
+            'counter: increment (default), decrement, set, reset. last_value: any type records a value; clear. ' +
+            'set: add (default), remove, clear. checklist: check, uncheck, add_item, remove_item, reset. ' +
+            'schema: any type; the payload must match the policy payload schema.',
+        },
+        payload: {
+          type: 'object',
+          description:
+            'Event payload object using the policy key/value fields, e.g. {kid, minutes} for the default study tracker ' +
+            'or {value: "Pack lunch"} for a checklist.',
+        },
+        idempotency_key: {
+          type: 'string',
+          description: 'Optional idempotency key to prevent duplicate writes.',
+        },
+        occurred_at: {
+          type: 'number',
+          description: 'Optional event timestamp in ms since epoch.',
+        },
+      },
+      required: ['talk_id', 'event_type', 'payload'],
+    },
+  },
+};
+
+const STATE_READ_SUMMARY_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'state_read_summary',
+    description: 'Read current derived state summary for a talk stream.',
+    parameters: {
+      type: 'object',
+      properties: {
+        talk_id: {
+          type: 'string',
+          description: 'Talk ID to read.',
+        },
+        stream: {
+          type: 'string',
+          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+        },
+        as_of: {
+          type: 'number',
+          description: 'Optional snapshot timestamp in ms since epoch.',
+        },
+      },
+      required: ['talk_id'],
+    },
+  },
+};
+
+const STATE_CONFIGURE_POLICY_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'state_configure_policy',
+    description:
+      'Configure how a talk stream is tracked: reducer type, reset window (daily/weekly/monthly/none), ' +
+      'timezone/rollover, payload fields, carry-over and completion target. ' +
+      'Changing the reducer resets the reducer-specific settings to that reducer\'s defaults.',
+    parameters: {
+      type: 'object',
+      properties: {
+        talk_id: {
+          type: 'string',
+          description: 'Talk ID to configure.',
+        },
+        stream: {
+          type: 'string',
+          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+        },
+        reducer: {
+          type: 'string',
+          enum: ['sum_by_key', 'counter', 'last_value', 'set', 'checklist', 'schema'],
+          description: 'How events fold into the snapshot. Streams without a reducer track weekly minutes per kid.',
+        },
+        window: {
+          type: 'string',
+          enum: ['daily', 'weekly', 'monthly', 'none'],
+          description: 'Period after which the snapshot starts over. Defaults to none for a declared reducer.',
+        },
+        key_field: {
+          type: 'string',
+          description: 'Payload field holding the key (default "key").',
+        },
+        value_field: {
+          type: 'string',
+          description: 'Payload field holding the amount, value, set member or checklist item (default "value").',
+        },
+        items: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Checklist items (checklist reducer).',
+        },
+        payload_schema: {
+          type: 'object',
+          description:
+            'Schema reducer: {properties: {field: {type: string|number|integer|boolean, enum?, minimum?, maximum?}}, ' +
+            'required?: [...], additionalProperties?: boolean}.',
+        },
+        aggregations: {
+          type: 'array',
+          items: { type: 'object' },
+          description:
+            'Schema reducer: [{name, op: count|sum|min|max|avg|last, field?, groupBy?, eventType?}] evaluated per window.',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA timezone, e.g., America/Los_Angeles.',
+        },
+        week_start_day: {
+          type: 'number',
+          description: '0=Sunday..6=Saturday.',
+        },
+        rollover_hour: {
+          type: 'number',
+          description: '0..23 hour in local timezone.',
+        },
+        rollover_minute: {
+          type: 'number',
+          description: '0..59 minute in local timezone.',
+        },
+        carry_over_mode: {
+          type: 'string',
+          enum: ['none', 'excess_only', 'all'],
+          description: 'Carry-over policy at window rollover (sum_by_key and counter only).',
+        },
+        target: {
+          type: 'number',
+          description: 'Per-key completion target for sum_by_key and counter; 0 disables completion.',
+        },
+        target_minutes: {
+          type: 'number',
+          description: 'Deprecated alias of target.',
+        },
+      },
+      required: ['talk_id'],
+    },
+  },
+};
+
+const STATE_AUDIT_EVENTS_TOOL: ToolDefinition = {
+  type: 'function',
+  function: {
+    name: 'state_audit_events',
+    description: 'List recent state events from the talk stream for debugging/audit.',
+    parameters: {
+      type: 'object',
+      properties: {
+        talk_id: {
+          type: 'string',
+          description: 'Talk ID to inspect.',
+        },
+        stream: {
+          type: 'string',
+          description: 'Optional state stream name. If omitted, talk.defaultStateStream is used.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Optional max events to return (default 50).',
+        },
+        since_sequence: {
+          type: 'number',
+          description: 'Optional lower-bound sequence (exclusive).',
+        },
+      },
+      required: ['talk_id'],
+    },
+  },
+};
+
+const BUILTIN_TOOLS = new Map<string, ToolDefinition>([
+  ['shell_exec', SHELL_EXEC_TOOL],
+  ['manage_tools', MANAGE_TOOLS_TOOL],
+  ['google_docs_create', GOOGLE_DOCS_CREATE_TOOL],
+  ['google_docs_append', GOOGLE_DOCS_APPEND_TOOL],
+  ['google_docs_read', GOOGLE_DOCS_READ_TOOL],
+  ['google_docs_auth_status', GOOGLE_DOCS_AUTH_STATUS_TOOL],
+  ['google_docs_list_tabs', GOOGLE_DOCS_LIST_TABS_TOOL],
+  ['google_docs_add_tab', GOOGLE_DOCS_ADD_TAB_TOOL],
+  ['google_docs_update_tab', GOOGLE_DOCS_UPDATE_TAB_TOOL],
+  ['google_docs_delete_tab', GOOGLE_DOCS_DELETE_TAB_TOOL],
+  ['google_drive_files', GOOGLE_DRIVE_FILES_TOOL],
+  ['google_sheets_read_range', GOOGLE_SHEETS_READ_RANGE_TOOL],
+  ['google_sheets_write_range', GOOGLE_SHEETS_WRITE_RANGE_TOOL],
+  ['google_sheets_append_rows', GOOGLE_SHEETS_APPEND_ROWS_TOOL],
+  ['google_sheets_create', GOOGLE_SHEETS_CREATE_TOOL],
+  ['google_calendar_list_events', GOOGLE_CALENDAR_LIST_EVENTS_TOOL],
+  ['google_calendar_create_event', GOOGLE_CALENDAR_CREATE_EVENT_TOOL],
+  ['google_calendar_update_event', GOOGLE_CALENDAR_UPDATE_EVENT_TOOL],
+  ['google_calendar_delete_event', GOOGLE_CALENDAR_DELETE_EVENT_TOOL],
+  ['google_calendar_free_busy', GOOGLE_CALENDAR_FREE_BUSY_TOOL],
+  ['gmail_search', GMAIL_SEARCH_TOOL],
+  ['gmail_read_thread', GMAIL_READ_THREAD_TOOL],
+  ['gmail_create_draft', GMAIL_CREATE_DRAFT_TOOL],
+  ['gmail_send_draft', GMAIL_SEND_DRAFT_TOOL],
+  ['github_search_issues', GITHUB_SEARCH_ISSUES_TOOL],
+  ['github_get_issue', GITHUB_GET_ISSUE_TOOL],
+  ['github_comment', GITHUB_COMMENT_TOOL],
+  ['github_read_file', GITHUB_READ_FILE_TOOL],
+  ['github_list_workflow_runs', GITHUB_LIST_WORKFLOW_RUNS_TOOL],
+  ['notion_search', NOTION_SEARCH_TOOL],
+  ['notion_read_page', NOTION_READ_PAGE_TOOL],
+  ['notion_create_page', NOTION_CREATE_PAGE_TOOL],
+  ['notion_append_blocks', NOTION_APPEND_BLOCKS_TOOL],
+  ['http_api_client', HTTP_API_CLIENT_TOOL],
+  ['web_fetch_extract', WEB_FETCH_EXTRACT_TOOL],
+  ['pdf_extract_text', PDF_EXTRACT_TEXT_TOOL],
+  ['state_append_event', STATE_APPEND_EVENT_TOOL],
+  ['state_read_summary', STATE_READ_SUMMARY_TOOL],
+  ['state_configure_policy', STATE_CONFIGURE_POLICY_TOOL],
+  ['state_audit_events', STATE_AUDIT_EVENTS_TOOL],
+]);
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+export class ToolRegistry {
+  private dynamicTools = new Map<string, ToolDefinition>();
+  private dynamicExecutions = new Map<string, DynamicToolExecution>();
+  private persistPath: string | undefined;
+  private logger: Logger;
+
+  constructor(dataDir: string | undefined, logger: Logger) {
+    this.logger = logger;
+    if (dataDir) {
+      mkdirSync(dataDir, { recursive: true });
+      this.persistPath = join(dataDir, 'tools.json');
+      this.load();
+    }
+  }
+
+  /** Get all tool schemas in OpenAI format for LLM calls. */
+  getToolSchemas(): ToolDefinition[] {
     return [
       ...BUILTIN_TOOLS.values(),
       ...this.dynamicTools.values(),
@@ -637,6 +1547,12 @@ export class ToolRegistry {
     return BUILTIN_TOOLS.get(name) ?? this.dynamicTools.get(name);
   }
 
+  /** Get the execution spec for a dynamic tool, if it has one. */
+  getToolExecution(name: string): DynamicToolExecution | undefined {
+    if (BUILTIN_TOOLS.has(name)) return undefined;
+    return this.dynamicExecutions.get(name);
+  }
+
   /** Check if a tool exists. */
   hasTool(name: string): boolean {
     return BUILTIN_TOOLS.has(name) || this.dynamicTools.has(name);
@@ -658,7 +1574,12 @@ export class ToolRegistry {
   private static readonly MAX_DYNAMIC_TOOLS = 200;
 
   /** Register a new dynamic tool. Returns false if name conflicts with a built-in or limit reached. */
-  registerTool(name: string, description: string, parameters: ToolDefinition['function']['parameters']): boolean {
+  registerTool(
+    name: string,
+    description: string,
+    parameters: ToolDefinition['function']['parameters'],
+    execution?: DynamicToolExecution,
+  ): boolean {
     if (BUILTIN_TOOLS.has(name)) {
       this.logger.warn(`ToolRegistry: cannot override built-in tool "${name}"`);
       return false;
@@ -673,13 +1594,19 @@ export class ToolRegistry {
       function: { name, description, parameters },
     };
     this.dynamicTools.set(name, tool);
+    if (execution) this.dynamicExecutions.set(name, execution);
+    else this.dynamicExecutions.delete(name);
     this.save();
-    this.logger.info(`ToolRegistry: registered tool "${name}"`);
+    this.logger.info(`ToolRegistry: registered tool "${name}"${execution ? ` (${execution.kind})` : ''}`);
     return true;
   }
 
   /** Update an existing dynamic tool. Returns false if not found or built-in. */
-  updateTool(name: string, updates: { description?: string; parameters?: ToolDefinition['function']['parameters'] }): boolean {
+  updateTool(name: string, updates: {
+    description?: string;
+    parameters?: ToolDefinition['function']['parameters'];
+    execution?: DynamicToolExecution;
+  }): boolean {
     if (BUILTIN_TOOLS.has(name)) {
       this.logger.warn(`ToolRegistry: cannot modify built-in tool "${name}"`);
       return false;
@@ -689,6 +1616,7 @@ export class ToolRegistry {
 
     if (updates.description) existing.function.description = updates.description;
     if (updates.parameters) existing.function.parameters = updates.parameters;
+    if (updates.execution) this.dynamicExecutions.set(name, updates.execution);
     this.dynamicTools.set(name, existing);
     this.save();
     this.logger.info(`ToolRegistry: updated tool "${name}"`);
@@ -703,6 +1631,7 @@ export class ToolRegistry {
     }
     if (!this.dynamicTools.has(name)) return false;
     this.dynamicTools.delete(name);
+    this.dynamicExecutions.delete(name);
     this.save();
     this.logger.info(`ToolRegistry: removed tool "${name}"`);
     return true;
@@ -716,10 +1645,19 @@ export class ToolRegistry {
     if (!this.persistPath) return;
     try {
       const raw = readFileSync(this.persistPath, 'utf-8');
-      const data = JSON.parse(raw) as Record<string, ToolDefinition>;
-      for (const [name, tool] of Object.entries(data)) {
+      const data = JSON.parse(raw) as Record<string, PersistedDynamicTool>;
+      for (const [name, entry] of Object.entries(data)) {
         if (!BUILTIN_TOOLS.has(name)) {
+          // Keep the execution spec out of the schema sent to the model.
+          const { execution, ...tool } = entry;
+          // tools.json may be hand-edited or predate a validation rule: check specs like registration does.
+          const parsed = execution ? normalizeDynamicToolExecution(execution) : undefined;
+          if (parsed && !parsed.ok) {
+            this.logger.warn(`ToolRegistry: skipping dynamic tool "${name}": ${parsed.error}`);
+            continue;
+          }
           this.dynamicTools.set(name, tool);
+          if (parsed) this.dynamicExecutions.set(name, parsed.execution);
         }
       }
       this.logger.info(`ToolRegistry: loaded ${this.dynamicTools.size} dynamic tool(s)`);
@@ -731,9 +1669,10 @@ export class ToolRegistry {
   private save(): void {
     if (!this.persistPath) return;
     try {
-      const data: Record<string, ToolDefinition> = {};
+      const data: Record<string, PersistedDynamicTool> = {};
       for (const [name, tool] of this.dynamicTools) {
-        data[name] = tool;
+        const execution = this.dynamicExecutions.get(name);
+        data[name] = execution ? { ...tool, execution } : tool;
       }
       writeFileSync(this.persistPath, JSON.stringify(data, null, 2), 'utf-8');
     } catch (err) {
@@ -5,6 +5,7 @@
  */
 
 import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AuthPrincipal } from './auth.js';
 
 export interface Logger {
   info: (msg: string) => void;
@@ -119,6 +120,8 @@ export interface HandlerContext {
   cfg: OpenClawConfig;
   pluginCfg: ClawTalkPluginConfig;
   logger: Logger;
+  /** Who the request is authenticated as; unset for unauthenticated routes. */
+  principal?: AuthPrincipal;
 }
 
 export interface ProviderBillingConfig {
@@ -127,6 +130,16 @@ export interface ProviderBillingConfig {
   monthlyPrice?: number;
 }
 
+/** USD per million tokens for one model (see usage-ledger.ts). */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Cached input reads; calls with cache reads stay unpriced without it. */
+  cacheRead?: number;
+  /** Cache writes; calls with cache writes stay unpriced without it. */
+  cacheWrite?: number;
+}
+
 export interface VoicePluginConfig {
   stt?: {
     provider?: string;
@@ -175,11 +188,20 @@ export interface RateLimitWindow {
   status: string;      // "allowed" | "rate_limited"
 }
 
+/** A provider-specific window, e.g. OpenAI requests or tokens per minute. */
+export interface NamedRateLimitWindow extends RateLimitWindow {
+  label: string;
+  limit?: number;
+  remaining?: number;
+}
+
 export interface CachedRateLimitData {
   provider: string;
   status?: string;               // overall unified status
   fiveHour?: RateLimitWindow;
   sevenDay?: RateLimitWindow;
+  windows?: NamedRateLimitWindow[]; // non-Anthropic providers (see provider-rate-limits.ts)
+  error?: string;                // last rate-limit / quota error message
   lastUpdated: number;
 }
 
@@ -196,6 +218,8 @@ export interface TalkAgent {
   isPrimary: boolean;
   /** Optional OpenClaw agent ID for explicit gateway routing. */
   openClawAgentId?: string;
+  /** Models to try, in order, when `model` fails or is rate limited (overrides the talk's list). */
+  fallbackModels?: string[];
 }
 
 export interface TalkDirective {
@@ -303,6 +327,80 @@ export interface TalkMessage {
   tool_calls?: ToolCallInfo[];
   tool_call_id?: string;
   tool_name?: string;
+  /** Groups the replies of one multi-agent round (see talk-round.ts). */
+  roundId?: string;
+  /** Set when the content was edited after it was sent. */
+  editedAt?: number;
+  /** Earlier contents of an edited message, oldest first. */
+  revisions?: TalkMessageRevision[];
+}
+
+export interface TalkMessageRevision {
+  content: string;
+  /** When this content was replaced by an edit. */
+  replacedAt: number;
+}
+
+/** One alternative reply to a user message, produced by regeneration. */
+export interface TalkReplyVersion {
+  id: string;
+  createdAt: number;
+  model?: string;
+  agentName?: string;
+  /** Messages that followed the user message in this version; empty while it is the live history. */
+  messages: TalkMessage[];
+}
+
+/** Sibling reply versions for one user message; the active one is in history.jsonl. */
+export interface TalkReplyVersionSet {
+  anchorMessageId: string;
+  activeVersionId: string;
+  versions: TalkReplyVersion[];
+}
+
+export type PendingToolCallStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+/** Loop state captured when a tool call pauses for approval (toolMode "confirm"). */
+export interface PendingToolCallResumeState {
+  model: string;
+  /** Tool names offered to the model for the paused run. */
+  toolNames: string[];
+  /** Full LLM conversation at the pause, ending with the assistant tool_calls turn. */
+  messages: Array<{ role: string; content: string | Array<any> | null; tool_calls?: ToolCallInfo[]; tool_call_id?: string; name?: string }>;
+  /** Tail of `messages` (tool_calls turn + results so far) not yet written to history. */
+  pendingBatch: Array<{ role: string; content: string | null; tool_calls?: ToolCallInfo[]; tool_call_id?: string; name?: string }>;
+  /** Tool calls from the paused turn that have not run yet; the first awaits approval. */
+  remainingToolCalls: ToolCallInfo[];
+  /** Text the model streamed before the pause. */
+  partialContent?: string;
+  defaultGoogleAuthProfile?: string;
+  /** OpenClaw routing headers (trace/session key) for chat runs; absent on direct provider routes. */
+  extraHeaders?: Record<string, string>;
+  agentName?: string;
+  agentRole?: AgentRole;
+  /** Originating user message (chat) or job prompt, used for context updates. */
+  prompt: string;
+  /** Original job run timestamp (job approvals only). */
+  runAt?: number;
+}
+
+export interface PendingToolCall {
+  /** Approval id used by POST /api/talks/:id/tool-approvals/:callId. */
+  id: string;
+  talkId: string;
+  source: 'chat' | 'job';
+  jobId?: string;
+  /** Provider tool call id from the assistant turn. */
+  toolCallId: string;
+  toolName: string;
+  arguments: string;
+  status: PendingToolCallStatus;
+  createdAt: number;
+  resolvedAt?: number;
+  resolvedBy?: string;
+  /** Replacement arguments supplied with an approve-with-edit decision. */
+  editedArguments?: string;
+  resume: PendingToolCallResumeState;
 }
 
 export interface TalkJob {
@@ -315,6 +413,19 @@ export interface TalkJob {
   createdAt: number;
   lastRunAt?: number;
   lastStatus?: string;
+  /** Per-run spending cap; the run stops making LLM calls once it is reached. */
+  runCap?: JobRunCap;
+  /** How readily the run gives way near provider rate limits (default "normal"); see job-throttle.ts. */
+  priority?: JobPriority;
+  /** Set when a run was deferred for a rate-limit window; the job is not due before it. */
+  deferredUntil?: number;
+}
+
+export type JobPriority = 'low' | 'normal' | 'high';
+
+export interface JobRunCap {
+  maxTokens?: number;
+  maxUsd?: number;
 }
 
 export interface JobOutputDestination {
@@ -336,23 +447,93 @@ export interface JobReport {
   jobId: string;
   talkId: string;
   runAt: number;
-  status: 'success' | 'partial_success' | 'error';
+  status: 'success' | 'partial_success' | 'error' | 'awaiting_approval' | 'deferred';
   summary: string;
   fullOutput: string;
   delivery?: JobDeliveryResult;
   tokenUsage?: { input: number; output: number };
+  /** Gmail drafts the run created but did not send, left for a human to review and send. */
+  gmailDrafts?: JobReportGmailDraft[];
+  /** Fallback model that ran the job, when the talk's model failed or was rate limited. */
+  answeredModel?: string;
+  /** Set when the run was deferred, or moved to a cheaper model, near a rate limit. */
+  throttle?: JobThrottleNote;
+}
+
+export interface JobThrottleNote {
+  action: 'defer' | 'downgrade';
+  window: 'five_hour' | 'seven_day';
+  /** Window utilization (0–1) when the run was due. */
+  utilization: number;
+  /** Threshold for the job's priority. */
+  threshold: number;
+  /** When the window resets (ms); a deferred job waits until then. */
+  resetsAt: number;
+  /** Model the run used instead of the talk's (downgrade only). */
+  model?: string;
+}
+
+export interface JobReportGmailDraft {
+  draftId: string;
+  to?: string;
+  subject?: string;
 }
 
 export type TalkStateCarryOverMode = 'none' | 'excess_only' | 'all';
 
+/** How a state stream folds its events into a snapshot (see talk-state-reducers.ts). */
+export type TalkStateReducerType = 'sum_by_key' | 'counter' | 'last_value' | 'set' | 'checklist' | 'schema';
+
+/** Period after which a stream's snapshot starts over (numeric reducers may carry over). */
+export type TalkStateWindow = 'daily' | 'weekly' | 'monthly' | 'none';
+
+/** JSON Schema subset used to validate event payloads of `schema` streams. */
+export interface TalkStatePayloadSchema {
+  type?: 'object';
+  properties: Record<string, {
+    type?: 'string' | 'number' | 'integer' | 'boolean';
+    enum?: Array<string | number | boolean>;
+    minimum?: number;
+    maximum?: number;
+    description?: string;
+  }>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/** One aggregation rule of a `schema` stream, evaluated per window. */
+export interface TalkStateAggregation {
+  name: string;
+  op: 'count' | 'sum' | 'min' | 'max' | 'avg' | 'last';
+  /** Payload field to aggregate; not used by `count`. */
+  field?: string;
+  /** Payload field whose value groups the result. */
+  groupBy?: string;
+  /** Only aggregate events of this type. */
+  eventType?: string;
+}
+
 export interface TalkStatePolicy {
   stream: string;
+  reducer: TalkStateReducerType;
+  window: TalkStateWindow;
   timezone: string;
   weekStartDay: number; // 0=Sunday .. 6=Saturday
   rolloverHour: number; // 0..23
   rolloverMinute: number; // 0..59
+  /** Payload field holding the key (sum_by_key, counter, last_value). */
+  keyField: string;
+  /** Payload field holding the amount, value, member or checklist item. */
+  valueField: string;
   carryOverMode: TalkStateCarryOverMode;
+  /** Per-key completion target for sum_by_key and counter; 0 disables completion. */
+  target: number;
+  /** @deprecated Alias of `target` from the weekly-minutes tracker. */
   targetMinutes: number;
+  /** Declared checklist items. */
+  items?: string[];
+  payloadSchema?: TalkStatePayloadSchema;
+  aggregations?: TalkStateAggregation[];
   updatedAt: number;
 }
 
@@ -370,13 +551,25 @@ export interface TalkStateEvent {
 
 export interface TalkStateSnapshot {
   stream: string;
+  reducer: TalkStateReducerType;
+  window: TalkStateWindow;
+  windowKey: string;
+  windowStartAt: number;
+  /** Null when the window is "none". */
+  windowEndAt: number | null;
+  /** @deprecated Use windowKey. */
   weekKey: string;
+  /** @deprecated Use windowStartAt. */
   weekStartAt: number;
+  /** @deprecated Use windowEndAt. */
   weekEndAt: number;
+  /** Numeric totals per key (sum_by_key, counter; member/item counts otherwise). */
   totals: Record<string, number>;
   carryOver: Record<string, number>;
   completionTarget: number;
   completed: Record<string, boolean>;
+  /** Reducer-specific state: sums, last values, set members, checklist items or aggregations. */
+  value: unknown;
   lastEventSequence: number;
   updatedAt: number;
   policy: TalkStatePolicy;
@@ -401,6 +594,29 @@ export interface TalkDiagnosticIssue {
   dismissedAt?: number;
 }
 
+/** Monthly (UTC calendar month) spending limit for a talk; see talk-budget.ts. */
+export interface TalkBudget {
+  monthlyUsd?: number;
+  /** Input + output + cache tokens. */
+  monthlyTokens?: number;
+  /** What chat does once the budget is used up (default "refuse"). */
+  onExceeded?: 'refuse' | 'downgrade';
+  /** Cheaper models, in order of preference, used when onExceeded is "downgrade". */
+  downgradeModels?: string[];
+  /** Fractions of the budget that send an alert (default 0.8 and 1). */
+  alertThresholds?: number[];
+  /** Slack channel that also receives alerts. */
+  slackAlerts?: { channelId: string; accountId?: string; threadTs?: string };
+}
+
+/** Highest budget threshold already alerted for a month. */
+export interface TalkBudgetAlertState {
+  /** `YYYY-MM` (UTC). */
+  period: string;
+  threshold: number;
+  at: number;
+}
+
 export interface TalkMeta {
   id: string;
   /** Monotonic gateway-authoritative metadata version for optimistic concurrency control. */
@@ -414,6 +630,8 @@ export interface TalkMeta {
   topicTitle?: string;
   objective?: string;
   model?: string;
+  /** Models to try, in order, when the chat model fails or is rate limited. */
+  fallbackModels?: string[];
   /** Tool execution mode for this talk. */
   toolMode?: 'off' | 'confirm' | 'auto';
   /** Runtime selection for tool execution in this talk. */
@@ -430,10 +648,14 @@ export interface TalkMeta {
   skills?: string[];
   /** Optional Google OAuth profile name for Google Docs/Drive tool calls in this talk. */
   googleAuthProfile?: string;
+  /** Hosts http_api_client may call from this talk, in addition to the global allowlist. */
+  httpAllowedHosts?: string[];
   /** Default state persistence backend policy for state_* operations. */
   stateBackend?: 'stream_store' | 'workspace_files';
   /** Optional default stream name used by state_* tools when stream is omitted. */
   defaultStateStream?: string;
+  budget?: TalkBudget;
+  budgetAlert?: TalkBudgetAlertState;
   diagnostics?: TalkDiagnosticIssue[];
   pinnedMessageIds: string[];
   jobs: TalkJob[];
@@ -442,13 +664,31 @@ export interface TalkMeta {
   platformBindings?: TalkPlatformBinding[];
   platformBehaviors?: TalkPlatformBehavior[];
   processing?: boolean;
+  /** Talk this one was forked from (see TalkStore.forkTalk). */
+  parentTalkId?: string;
+  /** Last parent message copied into the fork. */
+  forkedFromMessageId?: string;
+  forkedAt?: number;
   createdAt: number;
   updatedAt: number;
 }
 
+/** Everything needed to recreate a Talk on another gateway (see talk-bundle.ts). */
+export interface TalkBundle {
+  meta: TalkMeta;
+  messages: TalkMessage[];
+  contextMd: string;
+  knowledgeIndex: KnowledgeIndexEntry[];
+  knowledgeTopics: Array<{ slug: string; content: string }>;
+  reports: JobReport[];
+  stateStreams: Array<{ stream: string; events: TalkStateEvent[]; policy: TalkStatePolicy }>;
+}
+
 export interface ClawTalkPluginConfig {
   proxyPort?: number;
   providers?: Record<string, ProviderBillingConfig>;
+  /** Token prices keyed by model id (`provider/model`) or a `prefix*` pattern. */
+  pricing?: Record<string, ModelPricing>;
   voice?: VoicePluginConfig;
   realtimeVoice?: RealtimeVoicePluginConfig;
   pairPassword?: string;
@@ -458,6 +698,18 @@ export interface ClawTalkPluginConfig {
   uploadDir?: string;
   llmCallTimeoutMs?: number;
   jobTimeoutMs?: number;
+  jobThrottle?: JobThrottleConfig;
+}
+
+/** Rate-limit-aware job scheduling; see job-throttle.ts. */
+export interface JobThrottleConfig {
+  /** Anthropic window utilization (0–1) at which low-priority jobs give way (default 0.8). */
+  lowPriorityThreshold?: number;
+  /** Same for normal-priority jobs; when unset they always run. High-priority jobs always run. */
+  normalPriorityThreshold?: number;
+  /** "defer" (default) waits for the window to reset; "downgrade" runs the job on `downgradeModel`. */
+  onLimit?: 'defer' | 'downgrade';
+  downgradeModel?: string;
 }
 
 export interface KnowledgeIndexEntry {
@@ -0,0 +1,60 @@
+/**
+ * Usage HTTP Handlers
+ *
+ * Handles GET /api/usage (all Talks) and GET /api/talks/:id/usage (one Talk):
+ * token and cost totals from the usage ledger, grouped by model, talk,
+ * agent, job and day. Both accept optional `since`/`until` bounds. The
+ * per-Talk response also carries month-to-date spend against the Talk's
+ * budget, when it has one.
+ */
+
+import type { HandlerContext } from './types.js';
+import type { TalkStore } from './talk-store.js';
+import { getUsageLedger } from './usage-ledger.js';
+import { parseDateBound } from './talk-search-handler.js';
+import { evaluateTalkBudget } from './talk-budget.js';
+import { sendJson } from './http.js';
+
+/** Read since/until from the query string, or send a 400. */
+function parseUsageWindow(ctx: HandlerContext): { since?: number; until?: number } | null {
+  const window: { since?: number; until?: number } = {};
+  for (const bound of ['since', 'until'] as const) {
+    const raw = ctx.url.searchParams.get(bound);
+    if (!raw) continue;
+    const value = parseDateBound(raw, bound);
+    if (value === null) {
+      sendJson(ctx.res, 400, { error: `${bound} must be an ISO date or epoch milliseconds` });
+      return null;
+    }
+    window[bound] = value;
+  }
+  return window;
+}
+
+export async function handleUsageSummary(ctx: HandlerContext, store: TalkStore): Promise<void> {
+  if (ctx.req.method !== 'GET') {
+    sendJson(ctx.res, 405, { error: 'Method not allowed' });
+    return;
+  }
+  const window = parseUsageWindow(ctx);
+  if (!window) return;
+  const summary = getUsageLedger(ctx.pluginCfg.dataDir, ctx.logger).summarize(window);
+  sendJson(ctx.res, 200, {
+    ...summary,
+    byTalk: summary.byTalk.map((group) => ({ ...group, topicTitle: store.getTalk(group.key)?.topicTitle })),
+  });
+}
+
+export async function handleTalkUsage(ctx: HandlerContext, store: TalkStore, talkId: string): Promise<void> {
+  const talk = store.getTalk(talkId);
+  if (!talk) {
+    sendJson(ctx.res, 404, { error: 'Talk not found' });
+    return;
+  }
+  const window = parseUsageWindow(ctx);
+  if (!window) return;
+  const ledger = getUsageLedger(ctx.pluginCfg.dataDir, ctx.logger);
+  const { byTalk: _byTalk, ...summary } = ledger.summarize({ ...window, talkId });
+  const budget = evaluateTalkBudget(talk, ledger);
+  sendJson(ctx.res, 200, { talkId, ...summary, ...(budget ? { budget } : {}) });
+}
@@ -0,0 +1,477 @@
+/**
+ * Usage Ledger
+ *
+ * Records token usage for every upstream LLM call the tool loop makes (chat
+ * turns, rounds and jobs, over both the OpenClaw and direct provider routes)
+ * as one line in `usage.jsonl` in the data dir. Calls are priced with the
+ * plugin's `pricing` table (USD per million tokens, keyed by model id or a
+ * `prefix*` pattern) and aggregated per model, talk, agent, job and day for
+ * `GET /api/talks/:id/usage` and `GET /api/usage`.
+ *
+ * Records are indexed by UTC day, and running per-talk monthly totals back
+ * budget checks. Calls older than COMPACT_AFTER_DAYS are rolled up into one
+ * record per day, model, route, talk, agent and job, and the file is
+ * rewritten, so it grows with active days rather than with calls.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { Logger, ModelPricing } from './types.js';
+
+const DEFAULT_DATA_DIR = join(
+  process.env.HOME || '~',
+  '.openclaw',
+  'plugins',
+  'clawtalk',
+);
+
+/** Call records older than this are compacted into daily rollups. */
+const COMPACT_AFTER_DAYS = 35;
+const DAY_MS = 86_400_000;
+
+export interface TokenUsage {
+  /** Uncached input tokens. */
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  ts: number;
+  /** Model that served the call (the upstream response's `model`), else the requested one. */
+  model: string;
+  /** Model the call asked for (e.g. the `openclaw` alias), when the response named another. */
+  requestedModel?: string;
+  route: 'openclaw' | 'direct';
+  talkId?: string;
+  agentName?: string;
+  jobId?: string;
+  /** Cost at the prices in effect when the call was made; absent when the model had no price. */
+  costUsd?: number;
+  /** Set on daily rollups: the number of calls merged into this record (`ts` is the start of the UTC day). */
+  calls?: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  costUsd: number;
+  /** Calls whose model has no entry in the price table (not included in costUsd). */
+  unpricedCalls: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+export interface UsageFilter {
+  talkId?: string;
+  jobId?: string;
+  since?: number;
+  until?: number;
+}
+
+export interface UsageSummary {
+  since?: number;
+  until?: number;
+  totals: UsageTotals;
+  byModel: UsageGroup[];
+  byTalk: UsageGroup[];
+  byAgent: UsageGroup[];
+  byJob: UsageGroup[];
+  byDay: UsageGroup[];
+}
+
+function tokenCount(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
+
+/**
+ * Normalize a `usage` object from an upstream response. Accepts OpenAI-style
+ * usage (`prompt_tokens` includes `prompt_tokens_details.cached_tokens`),
+ * Responses API usage (`input_tokens` / `input_tokens_details`) and
+ * Anthropic-style cache fields (`cache_read_input_tokens`, which are not part
+ * of the prompt count), as produced by anthropic-format.ts.
+ */
+export function parseUpstreamUsage(raw: unknown): TokenUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const usage = raw as Record<string, any>;
+  const prompt = tokenCount(usage.prompt_tokens ?? usage.input_tokens);
+  const outputTokens = tokenCount(usage.completion_tokens ?? usage.output_tokens);
+  const cacheWriteTokens = tokenCount(usage.cache_creation_input_tokens);
+  let cacheReadTokens: number;
+  let inputTokens: number;
+  if (usage.cache_read_input_tokens !== undefined) {
+    cacheReadTokens = tokenCount(usage.cache_read_input_tokens);
+    inputTokens = prompt;
+  } else {
+    cacheReadTokens = tokenCount(usage.prompt_tokens_details?.cached_tokens ?? usage.input_tokens_details?.cached_tokens);
+    inputTokens = Math.max(0, prompt - cacheReadTokens);
+  }
+  if (inputTokens + outputTokens + cacheReadTokens + cacheWriteTokens === 0) return undefined;
+  return { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens };
+}
+
+/**
+ * Look up a model's price: exact id first, then the id without its provider
+ * prefix, then the longest matching `prefix*` pattern.
+ */
+export function resolveModelPricing(
+  model: string,
+  table: Record<string, ModelPricing> | undefined,
+): ModelPricing | undefined {
+  if (!table) return undefined;
+  const id = model.trim().toLowerCase();
+  const bare = id.includes('/') ? id.slice(id.indexOf('/') + 1) : id;
+  const entries = Object.entries(table).map(([key, pricing]) => [key.trim().toLowerCase(), pricing] as const);
+  for (const candidate of [id, bare]) {
+    const exact = entries.find(([key]) => key === candidate);
+    if (exact) return exact[1];
+  }
+  let best: { length: number; pricing: ModelPricing } | undefined;
+  for (const [key, pricing] of entries) {
+    if (!key.endsWith('*')) continue;
+    const prefix = key.slice(0, -1);
+    if ((id.startsWith(prefix) || bare.startsWith(prefix)) && (!best || prefix.length > best.length)) {
+      best = { length: prefix.length, pricing };
+    }
+  }
+  return best?.pricing;
+}
+
+/**
+ * Cost of one call in USD. Undefined when the call read or wrote cache
+ * tokens and the model has no price for them: cache prices differ from the
+ * input price in both directions, so such a call is left unpriced rather
+ * than guessed.
+ */
+export function priceUsage(usage: TokenUsage, pricing: ModelPricing): number | undefined {
+  if (usage.cacheReadTokens > 0 && pricing.cacheRead === undefined) return undefined;
+  if (usage.cacheWriteTokens > 0 && pricing.cacheWrite === undefined) return undefined;
+  const cost = (
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheReadTokens * (pricing.cacheRead ?? 0) +
+    usage.cacheWriteTokens * (pricing.cacheWrite ?? 0)
+  ) / 1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+function addToTotals(totals: UsageTotals, usage: TokenUsage & { calls?: number }, costUsd: number | undefined): void {
+  const calls = usage.calls ?? 1;
+  totals.calls += calls;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.cacheReadTokens += usage.cacheReadTokens;
+  totals.cacheWriteTokens += usage.cacheWriteTokens;
+  if (costUsd === undefined) totals.unpricedCalls += calls;
+  else totals.costUsd = Math.round((totals.costUsd + costUsd) * 1e6) / 1e6;
+}
+
+function utcDay(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function utcMonth(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 7);
+}
+
+/**
+ * One talk's usage in one month: priced calls at their recorded cost, and
+ * unpriced calls per model so they can be priced with the current table.
+ */
+interface TalkMonthTotals {
+  priced: UsageTotals;
+  unpriced: Map<string, UsageTotals & Pick<UsageRecord, 'model' | 'requestedModel'>>;
+}
+
+export class UsageLedger {
+  private readonly persistPath: string;
+  private readonly logger: Logger;
+  /** Records by UTC day (`YYYY-MM-DD`), oldest day first. */
+  private days = new Map<string, UsageRecord[]>();
+  /** talkId → month (`YYYY-MM`) → totals. */
+  private talkMonths = new Map<string, Map<string, TalkMonthTotals>>();
+  /** UTC day of the last compaction check. */
+  private compactedOn = '';
+  private pricing: Record<string, ModelPricing> = {};
+  private listeners: Array<(record: UsageRecord) => void> = [];
+
+  constructor(dataDir: string | undefined, logger: Logger) {
+    this.logger = logger;
+    const dir = dataDir || DEFAULT_DATA_DIR;
+    mkdirSync(dir, { recursive: true });
+    this.persistPath = join(dir, 'usage.jsonl');
+    this.load();
+    this.compact();
+  }
+
+  setPricing(table: Record<string, ModelPricing> | undefined): void {
+    this.pricing = { ...(table ?? {}) };
+  }
+
+  getPricing(): Record<string, ModelPricing> {
+    return { ...this.pricing };
+  }
+
+  /** Called after every recorded call (budget alerts). */
+  onRecord(listener: (record: UsageRecord) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((entry) => entry !== listener);
+    };
+  }
+
+  /** Record one upstream call. `responseModel` is the upstream response's `model`, when it has one. */
+  record(input: {
+    model: string;
+    responseModel?: string;
+    route: 'openclaw' | 'direct';
+    usage: TokenUsage;
+    talkId?: string;
+    agentName?: string;
+    jobId?: string;
+  }): UsageRecord {
+    const served = input.responseModel?.trim() || input.model;
+    const models = { model: served, ...(served !== input.model ? { requestedModel: input.model } : {}) };
+    const pricing = this.pricingFor(models);
+    const costUsd = pricing ? priceUsage(input.usage, pricing) : undefined;
+    const record: UsageRecord = {
+      id: randomUUID(),
+      ts: Date.now(),
+      ...models,
+      route: input.route,
+      ...input.usage,
+      ...(input.talkId ? { talkId: input.talkId } : {}),
+      ...(input.agentName ? { agentName: input.agentName } : {}),
+      ...(input.jobId ? { jobId: input.jobId } : {}),
+      ...(costUsd !== undefined ? { costUsd } : {}),
+    };
+    this.index(record);
+    try {
+      appendFileSync(this.persistPath, `${JSON.stringify(record)}\n`, 'utf-8');
+    } catch (err) {
+      this.logger.warn(`UsageLedger: failed to persist usage: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    if (utcDay(record.ts) !== this.compactedOn) this.compact(record.ts);
+    for (const listener of this.listeners) {
+      try {
+        listener(record);
+      } catch (err) {
+        this.logger.warn(`UsageLedger: usage listener failed: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    return record;
+  }
+
+  /**
+   * Totals only, for the same filter as summarize(). A talk's usage since the
+   * start of a UTC month (the budget query) is read from running totals.
+   */
+  totals(filter: UsageFilter = {}): UsageTotals {
+    const totals = emptyTotals();
+    if (filter.talkId && !filter.jobId && filter.until === undefined && filter.since !== undefined
+      && filter.since === Date.parse(`${utcMonth(filter.since)}-01T00:00:00.000Z`)) {
+      const fromMonth = utcMonth(filter.since);
+      for (const [month, monthTotals] of this.talkMonths.get(filter.talkId) ?? []) {
+        if (month < fromMonth) continue;
+        addToTotals(totals, monthTotals.priced, monthTotals.priced.costUsd);
+        for (const usage of monthTotals.unpriced.values()) {
+          const pricing = this.pricingFor(usage);
+          addToTotals(totals, usage, pricing ? priceUsage(usage, pricing) : undefined);
+        }
+      }
+      return totals;
+    }
+    this.forEachRecord(filter, (record, cost) => addToTotals(totals, record, cost));
+    return totals;
+  }
+
+  /** Aggregate usage, optionally for one talk and/or a time window (inclusive ms timestamps). */
+  summarize(filter: UsageFilter = {}): UsageSummary {
+    const totals = emptyTotals();
+    const groups = {
+      byModel: new Map<string, UsageTotals>(),
+      byTalk: new Map<string, UsageTotals>(),
+      byAgent: new Map<string, UsageTotals>(),
+      byJob: new Map<string, UsageTotals>(),
+      byDay: new Map<string, UsageTotals>(),
+    };
+    const addTo = (map: Map<string, UsageTotals>, key: string | undefined, record: UsageRecord, cost: number | undefined) => {
+      if (!key) return;
+      let entry = map.get(key);
+      if (!entry) {
+        entry = emptyTotals();
+        map.set(key, entry);
+      }
+      addToTotals(entry, record, cost);
+    };
+
+    this.forEachRecord(filter, (record, cost) => {
+      addToTotals(totals, record, cost);
+      addTo(groups.byModel, record.model, record, cost);
+      addTo(groups.byTalk, record.talkId, record, cost);
+      addTo(groups.byAgent, record.agentName, record, cost);
+      addTo(groups.byJob, record.jobId, record, cost);
+      addTo(groups.byDay, new Date(record.ts).toISOString().slice(0, 10), record, cost);
+    });
+
+    const byCost = (map: Map<string, UsageTotals>): UsageGroup[] =>
+      Array.from(map, ([key, value]) => ({ key, ...value }))
+        .sort((a, b) => b.costUsd - a.costUsd || (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+    return {
+      ...(filter.since !== undefined ? { since: filter.since } : {}),
+      ...(filter.until !== undefined ? { until: filter.until } : {}),
+      totals,
+      byModel: byCost(groups.byModel),
+      byTalk: byCost(groups.byTalk),
+      byAgent: byCost(groups.byAgent),
+      byJob: byCost(groups.byJob),
+      byDay: byCost(groups.byDay).sort((a, b) => a.key.localeCompare(b.key)),
+    };
+  }
+
+  private forEachRecord(filter: UsageFilter, fn: (record: UsageRecord, costUsd: number | undefined) => void): void {
+    const fromDay = filter.since !== undefined ? utcDay(filter.since) : undefined;
+    const toDay = filter.until !== undefined ? utcDay(filter.until) : undefined;
+    for (const [day, records] of this.days) {
+      if ((fromDay && day < fromDay) || (toDay && day > toDay)) continue;
+      for (const record of records) {
+        if (filter.talkId && record.talkId !== filter.talkId) continue;
+        if (filter.jobId && record.jobId !== filter.jobId) continue;
+        if (filter.since !== undefined && record.ts < filter.since) continue;
+        if (filter.until !== undefined && record.ts > filter.until) continue;
+        // Calls made before their model was priced use the current table.
+        let cost = record.costUsd;
+        if (cost === undefined) {
+          const pricing = this.pricingFor(record);
+          if (pricing) cost = priceUsage(record, pricing);
+        }
+        fn(record, cost);
+      }
+    }
+  }
+
+  /** Price of the serving model, falling back to the requested one (served ids often lack the provider prefix). */
+  private pricingFor(models: Pick<UsageRecord, 'model' | 'requestedModel'>): ModelPricing | undefined {
+    return resolveModelPricing(models.model, this.pricing)
+      ?? (models.requestedModel ? resolveModelPricing(models.requestedModel, this.pricing) : undefined);
+  }
+
+  private index(record: UsageRecord): void {
+    const day = utcDay(record.ts);
+    let records = this.days.get(day);
+    if (!records) {
+      records = [];
+      this.days.set(day, records);
+    }
+    records.push(record);
+    if (!record.talkId) return;
+
+    let months = this.talkMonths.get(record.talkId);
+    if (!months) {
+      months = new Map();
+      this.talkMonths.set(record.talkId, months);
+    }
+    const month = day.slice(0, 7);
+    let monthTotals = months.get(month);
+    if (!monthTotals) {
+      monthTotals = { priced: emptyTotals(), unpriced: new Map() };
+      months.set(month, monthTotals);
+    }
+    if (record.costUsd !== undefined) {
+      addToTotals(monthTotals.priced, record, record.costUsd);
+      return;
+    }
+    const modelKey = `${record.model}\n${record.requestedModel ?? ''}`;
+    let unpriced = monthTotals.unpriced.get(modelKey);
+    if (!unpriced) {
+      unpriced = { ...emptyTotals(), model: record.model, ...(record.requestedModel ? { requestedModel: record.requestedModel } : {}) };
+      monthTotals.unpriced.set(modelKey, unpriced);
+    }
+    addToTotals(unpriced, record, undefined);
+  }
+
+  /**
+   * Roll call records older than COMPACT_AFTER_DAYS into one record per day,
+   * model, route, talk, agent and job (priced and unpriced calls apart), and
+   * rewrite usage.jsonl. Totals are unchanged; time filters that start or end
+   * inside a compacted day see the whole day. Runs at most once per UTC day.
+   */
+  private compact(now = Date.now()): void {
+    this.compactedOn = utcDay(now);
+    const cutoff = utcDay(now - COMPACT_AFTER_DAYS * DAY_MS);
+    let compacted = 0;
+    for (const [day, records] of this.days) {
+      if (day >= cutoff || records.every((record) => record.calls !== undefined)) continue;
+      const rollups = new Map<string, UsageRecord>();
+      for (const record of records) {
+        const key = JSON.stringify([
+          record.model, record.requestedModel, record.route, record.talkId, record.agentName, record.jobId, record.costUsd !== undefined,
+        ]);
+        const rollup = rollups.get(key);
+        if (!rollup) {
+          rollups.set(key, { ...record, id: randomUUID(), ts: Date.parse(`${day}T00:00:00.000Z`), calls: record.calls ?? 1 });
+          continue;
+        }
+        rollup.calls = (rollup.calls ?? 1) + (record.calls ?? 1);
+        rollup.inputTokens += record.inputTokens;
+        rollup.outputTokens += record.outputTokens;
+        rollup.cacheReadTokens += record.cacheReadTokens;
+        rollup.cacheWriteTokens += record.cacheWriteTokens;
+        if (rollup.costUsd !== undefined && record.costUsd !== undefined) {
+          rollup.costUsd = Math.round((rollup.costUsd + record.costUsd) * 1e6) / 1e6;
+        }
+      }
+      compacted += records.length - rollups.size;
+      this.days.set(day, Array.from(rollups.values()));
+    }
+    if (compacted === 0) return;
+
+    // Write a new file and swap it in, so a crash never leaves a half-written ledger.
+    const tmpPath = `${this.persistPath}.tmp`;
+    try {
+      const lines = Array.from(this.days.values(), (records) => records.map((record) => `${JSON.stringify(record)}\n`).join(''));
+      writeFileSync(tmpPath, lines.join(''), 'utf-8');
+      renameSync(tmpPath, this.persistPath);
+      this.logger.info(`UsageLedger: compacted ${compacted} old call record(s) into daily rollups`);
+    } catch (err) {
+      this.logger.warn(`UsageLedger: failed to compact usage.jsonl: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  private load(): void {
+    if (!existsSync(this.persistPath)) return;
+    try {
+      const lines = readFileSync(this.persistPath, 'utf-8').split('\n');
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const parsed = JSON.parse(line) as UsageRecord;
+          if (parsed && typeof parsed.ts === 'number' && typeof parsed.model === 'string') this.index(parsed);
+        } catch {
+          // skip a torn line
+        }
+      }
+    } catch (err) {
+      this.logger.warn(`UsageLedger: failed to load usage.jsonl: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+}
+
+const ledgerSingletons = new Map<string, UsageLedger>();
+
+export function getUsageLedger(dataDir: string | undefined, logger: Logger): UsageLedger {
+  const key = dataDir || DEFAULT_DATA_DIR;
+  const existing = ledgerSingletons.get(key);
+  if (existing) return existing;
+  const created = new UsageLedger(dataDir, logger);
+  ledgerSingletons.set(key, created);
+  return created;
+}